@@ -67,7 +67,7 @@ export default defineConfig([
       "zlib", "querystring", "child_process", "os", "tty", "readline",
       "@unit-mesh/treesitter-artifacts", "web-tree-sitter", "cheerio", "jsdom",
       "@mozilla/readability", "node-fetch", "js-yaml", "protobufjs",
-      "@autodev/worker-core", "@autodev/worker-protobuf"
+      "@autodev/worker-core", "@autodev/worker-protobuf", "vscode-languageserver/node"
     ],
     onwarn(warning, warn) {
       if (warning.code === 'EVAL') return;
@@ -104,7 +104,7 @@ export default defineConfig([
       "zlib", "querystring", "child_process", "os", "tty", "readline",
       "@unit-mesh/treesitter-artifacts", "web-tree-sitter", "cheerio", "jsdom",
       "@mozilla/readability", "node-fetch", "js-yaml", "protobufjs",
-      "@autodev/worker-core", "@autodev/worker-protobuf"
+      "@autodev/worker-core", "@autodev/worker-protobuf", "vscode-languageserver/node"
     ],
     onwarn(warning, warn) {
       if (warning.code === 'EVAL') return;
@@ -140,9 +140,12 @@ export default defineConfig([
       "zlib", "querystring", "child_process", "os", "tty", "readline",
       "@unit-mesh/treesitter-artifacts", "web-tree-sitter", "cheerio", "jsdom",
       "@mozilla/readability", "node-fetch", "js-yaml", "protobufjs",
-      "@autodev/worker-core", "@autodev/worker-protobuf"
+      "@autodev/worker-core", "@autodev/worker-protobuf", "vscode-languageserver/node"
     ],
     plugins: [
+      importAsString({
+        include: ['**/*.scm'],
+      }),
       typescript({
         tsconfig: "tsconfig.json",
         declaration: true,
@@ -0,0 +1,153 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+import { CodeFile } from "../codemodel/CodeElement";
+import { SymbolInfo } from "./CodeAnalysisResult";
+
+/**
+ * Bump this when the shape of {@link CodeFile} or {@link SymbolInfo} changes,
+ * so entries written by an older worker are ignored instead of misread.
+ */
+const CACHE_VERSION = 1;
+
+export const DEFAULT_CACHE_DIR = path.join('.autodev', 'cache');
+
+export interface AnalysisCacheEntry {
+	version: number;
+	filePath: string;
+	hash: string;
+	codeFile?: CodeFile;
+	symbols?: SymbolInfo[];
+}
+
+/**
+ * Persistent per-file cache of parsed {@link CodeFile} structures and {@link SymbolInfo} lists.
+ *
+ * Every source file gets its own entry under `<workspace>/.autodev/cache/files`, keyed by the file path
+ * and validated by the content hash, so only files whose content changed have to be parsed again.
+ */
+export class AnalysisCache {
+	private readonly entriesDir: string;
+	private entries = new Map<string, AnalysisCacheEntry | null>();
+	private dirty = new Set<string>();
+
+	constructor(private readonly workspacePath: string, cacheDir: string = DEFAULT_CACHE_DIR) {
+		const baseDir = path.isAbsolute(cacheDir) ? cacheDir : path.join(workspacePath, cacheDir);
+		this.entriesDir = path.join(baseDir, 'files');
+	}
+
+	public static hashContent(content: string): string {
+		return crypto.createHash('sha256').update(content).digest('hex');
+	}
+
+	/**
+	 * Returns the cached code structure when the entry was written for the same content hash.
+	 */
+	public getCodeFile(filePath: string, hash: string): CodeFile | undefined {
+		const entry = this.loadEntry(filePath);
+		if (!entry || entry.hash !== hash) {
+			return undefined;
+		}
+
+		return entry.codeFile;
+	}
+
+	public setCodeFile(filePath: string, hash: string, codeFile: CodeFile): void {
+		this.updateEntry(filePath, hash).codeFile = codeFile;
+	}
+
+	/**
+	 * Returns the cached symbols when the entry was written for the same content hash.
+	 */
+	public getSymbols(filePath: string, hash: string): SymbolInfo[] | undefined {
+		const entry = this.loadEntry(filePath);
+		if (!entry || entry.hash !== hash) {
+			return undefined;
+		}
+
+		return entry.symbols;
+	}
+
+	public setSymbols(filePath: string, hash: string, symbols: SymbolInfo[]): void {
+		this.updateEntry(filePath, hash).symbols = symbols;
+	}
+
+	/**
+	 * Returns the last entry written for the file without validating its content, only for inspecting the cache:
+	 * a file outside a git diff can still differ from its entry.
+	 */
+	public getEntry(filePath: string): AnalysisCacheEntry | undefined {
+		return this.loadEntry(filePath) ?? undefined;
+	}
+
+	/**
+	 * Writes all entries changed since the last flush to disk.
+	 */
+	public async flush(): Promise<void> {
+		if (this.dirty.size === 0) {
+			return;
+		}
+
+		await fs.promises.mkdir(this.entriesDir, { recursive: true });
+		for (const filePath of this.dirty) {
+			const entry = this.entries.get(filePath);
+			if (!entry) {
+				continue;
+			}
+
+			try {
+				await fs.promises.writeFile(this.entryPath(filePath), JSON.stringify(entry));
+			} catch (error) {
+				console.warn(`写入缓存 ${filePath} 时出错:`, error);
+			}
+		}
+
+		this.dirty.clear();
+	}
+
+	public async clear(): Promise<void> {
+		this.entries.clear();
+		this.dirty.clear();
+		await fs.promises.rm(this.entriesDir, { recursive: true, force: true });
+	}
+
+	private updateEntry(filePath: string, hash: string): AnalysisCacheEntry {
+		let entry = this.loadEntry(filePath);
+		if (!entry || entry.hash !== hash) {
+			entry = { version: CACHE_VERSION, filePath, hash };
+			this.entries.set(filePath, entry);
+		}
+
+		this.dirty.add(filePath);
+		return entry;
+	}
+
+	private loadEntry(filePath: string): AnalysisCacheEntry | null {
+		if (this.entries.has(filePath)) {
+			return this.entries.get(filePath)!;
+		}
+
+		let entry: AnalysisCacheEntry | null = null;
+		try {
+			const entryPath = this.entryPath(filePath);
+			if (fs.existsSync(entryPath)) {
+				const parsed: AnalysisCacheEntry = JSON.parse(fs.readFileSync(entryPath, 'utf-8'));
+				if (parsed.version === CACHE_VERSION && parsed.filePath === filePath) {
+					entry = parsed;
+				}
+			}
+		} catch (error) {
+			// a corrupt entry is treated as a cache miss and overwritten on the next flush
+		}
+
+		this.entries.set(filePath, entry);
+		return entry;
+	}
+
+	private entryPath(filePath: string): string {
+		const relativePath = path.relative(this.workspacePath, filePath);
+		const key = crypto.createHash('sha1').update(relativePath).digest('hex');
+		return path.join(this.entriesDir, `${key}.json`);
+	}
+}
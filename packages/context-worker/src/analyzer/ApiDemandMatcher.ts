@@ -0,0 +1,258 @@
+import fs from "fs";
+import path from "path";
+import { ApiResource } from "@autodev/worker-core";
+
+import { ANY_HTTP_METHOD, ApiDemand } from "../code-context/base/HttpApiAnalyser";
+import { ServiceDependency, ServiceDependencyMap, ServiceInfo } from "./CodeAnalysisResult";
+
+export const SERVICE_MANIFESTS = [
+	'package.json',
+	'pom.xml',
+	'build.gradle',
+	'build.gradle.kts',
+	'go.mod',
+	'pyproject.toml',
+	'setup.py',
+	'requirements.txt',
+];
+
+const PLACEHOLDER = '{}';
+
+export interface NormalizedApiPath {
+	segments: string[];
+	// the url does not start with `/`, e.g. `{baseUrl}/users`, so it may only be the tail of the provider path
+	partial: boolean;
+}
+
+/**
+ * Normalise the url of a demand or resource for matching: scheme, host and query are dropped, and path variables
+ * in any framework syntax (`{id}`, `:id`, `<int:id>`, `[id]`, `${id}`) become `{}`
+ */
+export function normalizeApiPath(url: string): NormalizedApiPath {
+	const value = url.trim()
+		.replace(/^[a-z][\w+.-]*:\/\/[^/]*/i, '')
+		.replace(/\$\{/g, '{')
+		.replace(/[?#].*$/, '');
+
+	const partial = !value.startsWith('/');
+	const segments = value.split('/')
+		.filter(segment => segment.length > 0)
+		.map(segment => segment
+			.replace(/\{[^}]*}/g, PLACEHOLDER)
+			.replace(/^:\w+$/, PLACEHOLDER)
+			.replace(/^<(?:\w+:)?\w+>$/, PLACEHOLDER)
+			.replace(/^\[{1,2}(?:\.\.\.)?\w+]{1,2}$/, PLACEHOLDER)
+		);
+
+	// a leading placeholder is the base url of the client, not a path variable
+	if (partial && segments.length > 0 && segments[0] === PLACEHOLDER) {
+		segments.shift();
+	}
+
+	return { segments, partial };
+}
+
+/**
+ * Link the HTTP calls found in the code (`ApiDemand`) to the endpoints declared in the code (`ApiResource`), and group
+ * both sides by service, so we can see which frontend or service calls which backend endpoint.
+ *
+ * A service is the nearest directory with a build manifest, like `package.json`, `pom.xml` or `go.mod`.
+ */
+export class ApiDemandMatcher {
+	private readonly workspacePath: string;
+	private services = new Map<string, ServiceInfo>();
+
+	constructor(workspacePath: string) {
+		this.workspacePath = path.resolve(workspacePath);
+	}
+
+	/**
+	 * @param demands the demands of the workspace
+	 * @param resourcesByFile the api resources of the workspace, keyed by the file which declares them
+	 */
+	buildDependencyMap(demands: ApiDemand[], resourcesByFile: Map<string, ApiResource[]>): ServiceDependencyMap {
+		this.services.clear();
+
+		const providers: { resource: ApiResource, provider: ServiceInfo }[] = [];
+		for (const [file, resources] of resourcesByFile) {
+			const provider = this.serviceOf(file);
+			for (const resource of resources) {
+				provider.providedApis++;
+				providers.push({ resource, provider });
+			}
+		}
+
+		const dependencies: ServiceDependency[] = [];
+		const unmatchedDemands: ServiceDependencyMap['unmatchedDemands'] = [];
+		let matchedDemands = 0;
+
+		for (const demand of demands) {
+			const consumer = this.serviceOf(demand.sourceFile || '');
+			consumer.demands++;
+
+			const call = {
+				sourceCaller: demand.sourceCaller,
+				sourceFile: demand.sourceFile || '',
+				clientType: demand.clientType,
+				targetUrl: demand.targetUrl,
+				targetHttpMethod: demand.targetHttpMethod,
+			};
+
+			const matched = this.match(demand, providers.map(it => it.resource));
+			if (matched.length === 0) {
+				unmatchedDemands.push({ consumer: consumer.name, ...call });
+				continue;
+			}
+
+			matchedDemands++;
+			for (const resource of matched) {
+				const provider = providers.find(it => it.resource === resource)!.provider;
+				dependencies.push({
+					consumer: consumer.name,
+					provider: provider.name,
+					...call,
+					resource: {
+						sourceUrl: resource.sourceUrl,
+						sourceHttpMethod: resource.sourceHttpMethod,
+						packageName: resource.packageName,
+						className: resource.className,
+						methodName: resource.methodName,
+					},
+				});
+			}
+		}
+
+		return {
+			services: Array.from(this.services.values()),
+			links: this.linksOf(dependencies),
+			dependencies,
+			unmatchedDemands,
+			stats: {
+				totalDemands: demands.length,
+				matchedDemands,
+				unmatchedDemands: unmatchedDemands.length,
+				totalResources: providers.length,
+			},
+		};
+	}
+
+	/**
+	 * The resources a demand may call, only the best matches are returned: `/users/me` wins over `/users/{id}`
+	 */
+	match(demand: ApiDemand, resources: ApiResource[]): ApiResource[] {
+		const target = normalizeApiPath(demand.targetUrl);
+		if (target.segments.length === 0) {
+			return [];
+		}
+
+		let bestScore = 0;
+		let best: ApiResource[] = [];
+		for (const resource of resources) {
+			const httpMethod = resource.sourceHttpMethod.toUpperCase();
+			if (httpMethod !== ANY_HTTP_METHOD && httpMethod !== demand.targetHttpMethod.toUpperCase()) {
+				continue;
+			}
+
+			const score = this.matchScore(target, normalizeApiPath(resource.sourceUrl));
+			if (score > bestScore) {
+				bestScore = score;
+				best = [resource];
+			} else if (score === bestScore && score > 0) {
+				best.push(resource);
+			}
+		}
+
+		return best;
+	}
+
+	/**
+	 * 0 for no match, otherwise higher for more literal segments in common
+	 */
+	private matchScore(target: NormalizedApiPath, resource: NormalizedApiPath): number {
+		const offset = resource.segments.length - target.segments.length;
+		if (offset < 0 || (!target.partial && offset !== 0)) {
+			return 0;
+		}
+
+		let score = 1;
+		for (let i = 0; i < target.segments.length; i++) {
+			const expected = target.segments[i];
+			const actual = resource.segments[i + offset];
+			if (expected === actual) {
+				score += expected === PLACEHOLDER ? 1 : 2;
+			} else if (!this.segmentMatches(expected, actual) && !this.segmentMatches(actual, expected)) {
+				return 0;
+			}
+		}
+
+		return score;
+	}
+
+	private segmentMatches(pattern: string, segment: string): boolean {
+		if (!pattern.includes(PLACEHOLDER)) {
+			return false;
+		}
+
+		const regex = pattern.split(PLACEHOLDER)
+			.map(part => part.replace(/[.*+?^$()|[\]\\]/g, '\\$&'))
+			.join('[^/]+');
+		return new RegExp(`^${regex}$`).test(segment);
+	}
+
+	private linksOf(dependencies: ServiceDependency[]): ServiceDependencyMap['links'] {
+		const links = new Map<string, { consumer: string, provider: string, calls: number }>();
+		for (const dependency of dependencies) {
+			const key = `${dependency.consumer}\u0000${dependency.provider}`;
+			if (!links.has(key)) {
+				links.set(key, { consumer: dependency.consumer, provider: dependency.provider, calls: 0 });
+			}
+			links.get(key)!.calls++;
+		}
+
+		return Array.from(links.values());
+	}
+
+	private serviceOf(file: string): ServiceInfo {
+		const serviceDir = this.serviceDirOf(path.dirname(path.resolve(this.workspacePath, file)));
+		const relativeDir = path.relative(this.workspacePath, serviceDir).split(path.sep).join('/') || '.';
+
+		if (!this.services.has(relativeDir)) {
+			this.services.set(relativeDir, {
+				name: this.serviceNameOf(serviceDir),
+				path: relativeDir,
+				providedApis: 0,
+				demands: 0,
+			});
+		}
+
+		return this.services.get(relativeDir)!;
+	}
+
+	private serviceDirOf(dir: string): string {
+		let current = dir;
+		while (current.startsWith(this.workspacePath) && current !== this.workspacePath) {
+			if (SERVICE_MANIFESTS.some(manifest => fs.existsSync(path.join(current, manifest)))) {
+				return current;
+			}
+			current = path.dirname(current);
+		}
+
+		return this.workspacePath;
+	}
+
+	private serviceNameOf(serviceDir: string): string {
+		const packageJson = path.join(serviceDir, 'package.json');
+		if (fs.existsSync(packageJson)) {
+			try {
+				const name = JSON.parse(fs.readFileSync(packageJson, 'utf-8')).name;
+				if (typeof name === 'string' && name) {
+					return name;
+				}
+			} catch (error) {
+				// fall back to the directory name for an invalid package.json
+			}
+		}
+
+		return path.basename(serviceDir);
+	}
+}
@@ -0,0 +1,99 @@
+import { CallGraphEdge, CallGraphNode, CallGraphResult } from "./CodeAnalysisResult";
+
+/**
+ * Queries over the result of `CallGraphAnalyzer`, e.g. who calls `OrderService.placeOrder` or what a controller
+ * transitively reaches.
+ *
+ * Every query accepts a node id (`com.example.OrderService.placeOrder`) or a shorter name (`OrderService.placeOrder`,
+ * `placeOrder`), which matches all nodes ending with it.
+ */
+export class CallGraph {
+	private nodes = new Map<string, CallGraphNode>();
+	private outgoing = new Map<string, CallGraphEdge[]>();
+	private incoming = new Map<string, CallGraphEdge[]>();
+
+	constructor(result: CallGraphResult) {
+		for (const node of result.nodes) {
+			this.nodes.set(node.id, node);
+		}
+
+		for (const edge of result.edges) {
+			if (!this.outgoing.has(edge.caller)) {
+				this.outgoing.set(edge.caller, []);
+			}
+			this.outgoing.get(edge.caller)!.push(edge);
+
+			if (!this.incoming.has(edge.callee)) {
+				this.incoming.set(edge.callee, []);
+			}
+			this.incoming.get(edge.callee)!.push(edge);
+		}
+	}
+
+	findNodes(name: string): CallGraphNode[] {
+		const node = this.nodes.get(name);
+		if (node) {
+			return [node];
+		}
+
+		return Array.from(this.nodes.values()).filter(node =>
+			node.name === name ||
+			(node.className && `${node.className}.${node.name}` === name) ||
+			node.id.endsWith(`.${name}`) ||
+			node.id.endsWith(`#${name}`)
+		);
+	}
+
+	/**
+	 * Direct call sites of the matching nodes, including dispatch edges from the interface or parent method
+	 */
+	callersOf(name: string): CallGraphEdge[] {
+		return this.findNodes(name).flatMap(node => this.incoming.get(node.id) || []);
+	}
+
+	calleesOf(name: string): CallGraphEdge[] {
+		return this.findNodes(name).flatMap(node => this.outgoing.get(node.id) || []);
+	}
+
+	/**
+	 * Everything transitively called from the matching nodes, up to `maxDepth` calls away
+	 */
+	reachableFrom(name: string, maxDepth: number = Infinity): CallGraphNode[] {
+		return this.traverse(name, maxDepth, id => (this.outgoing.get(id) || []).map(edge => edge.callee));
+	}
+
+	/**
+	 * Everything that transitively calls the matching nodes, i.e. the code impacted by changing them
+	 */
+	reachingTo(name: string, maxDepth: number = Infinity): CallGraphNode[] {
+		return this.traverse(name, maxDepth, id => (this.incoming.get(id) || []).map(edge => edge.caller));
+	}
+
+	private traverse(name: string, maxDepth: number, next: (id: string) => string[]): CallGraphNode[] {
+		const start = this.findNodes(name).map(node => node.id);
+		const visited = new Set<string>(start);
+		const result: CallGraphNode[] = [];
+
+		let frontier = start;
+		for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+			const nextFrontier: string[] = [];
+			for (const id of frontier) {
+				for (const target of next(id)) {
+					if (visited.has(target)) {
+						continue;
+					}
+
+					visited.add(target);
+					nextFrontier.push(target);
+					const node = this.nodes.get(target);
+					if (node) {
+						result.push(node);
+					}
+				}
+			}
+			frontier = nextFrontier;
+		}
+
+		return result;
+	}
+}
@@ -0,0 +1,152 @@
+import fs from "fs";
+import path from "path";
+
+import { CodeStructure } from "../codemodel/CodeElement";
+import { ClassDiagram, ClassDiagramOptions, DEFAULT_CLASS_DIAGRAM_OPTIONS, DiagramClass, DiagramRelation } from "../types/ClassDiagram";
+import { SERVICE_MANIFESTS } from "./ApiDemandMatcher";
+import { CodeCollector } from "./CodeCollector";
+
+/**
+ * Builds class diagrams of the whole workspace from the class, interface, implementation and extension maps of
+ * {@link CodeCollector}, to be rendered by the PlantUML or Mermaid class diagram presenters.
+ *
+ * Classes are grouped by package, or by module, the nearest directory with a build manifest. Files without a package,
+ * like TypeScript, use their directory as package.
+ */
+export class ClassDiagramBuilder {
+	private readonly workspacePath: string;
+	private readonly options: ClassDiagramOptions;
+	private moduleDirs = new Map<string, string>();
+
+	constructor(private readonly codeCollector: CodeCollector, options: Partial<ClassDiagramOptions> = {}) {
+		this.workspacePath = path.resolve(codeCollector.getWorkspacePath());
+		this.options = { ...DEFAULT_CLASS_DIAGRAM_OPTIONS, ...options };
+	}
+
+	/**
+	 * One diagram of every class of the workspace which passes the package filter
+	 */
+	build(): ClassDiagram {
+		const classes = this.collectClasses();
+		const ids = new Set(classes.map(it => it.id));
+
+		return {
+			name: 'workspace',
+			classes,
+			relations: this.collectRelations().filter(it => ids.has(it.from) && ids.has(it.to)),
+		};
+	}
+
+	/**
+	 * One diagram per group, with the parents and children of its classes from other groups
+	 */
+	buildByGroup(): ClassDiagram[] {
+		const workspace = this.build();
+		const byId = new Map(workspace.classes.map(it => [it.id, it]));
+		const groups = [...new Set(workspace.classes.map(it => it.group))].sort();
+
+		return groups.map(group => {
+			const relations = workspace.relations.filter(it => byId.get(it.from)!.group === group || byId.get(it.to)!.group === group);
+			const ids = new Set([
+				...workspace.classes.filter(it => it.group === group).map(it => it.id),
+				...relations.flatMap(it => [it.from, it.to]),
+			]);
+
+			return {
+				name: group,
+				classes: workspace.classes.filter(it => ids.has(it.id)),
+				relations,
+			};
+		});
+	}
+
+	private collectClasses(): DiagramClass[] {
+		const structures = [
+			...[...this.codeCollector.getInterfaceMap()].map(([id, it]) => ({ id, file: it.file, structure: it.interface, kind: 'interface' as const })),
+			...[...this.codeCollector.getClassMap()].map(([id, it]) => ({ id, file: it.file, structure: it.class, kind: 'class' as const })),
+		];
+
+		return structures
+			.filter(({ structure, file }) => this.matchesPrefix(this.packageOf(structure, file)))
+			.map(({ id, file, structure, kind }) => ({
+				id,
+				name: structure.name,
+				kind,
+				group: this.groupOf(structure, file),
+				fields: this.options.includeFields
+					? (structure.fields ?? []).map(field => ({ name: field.name, type: field.type }))
+					: [],
+				methods: this.options.includeMethods
+					? structure.methods.map(method => ({
+						name: method.name,
+						parameters: (method.parameters ?? method.vars ?? []).map(param => ({ name: param.name, type: param.type })),
+						returnType: method.returnType ?? '',
+					}))
+					: [],
+			}))
+			.sort((a, b) => a.group.localeCompare(b.group) || a.name.localeCompare(b.name));
+	}
+
+	private collectRelations(): DiagramRelation[] {
+		const relations: DiagramRelation[] = [];
+		for (const [interfaceId, implementations] of this.codeCollector.getImplementationMap()) {
+			for (const implementation of implementations) {
+				relations.push({ from: implementation.className, to: interfaceId, kind: 'implements' });
+			}
+		}
+
+		for (const [parentId, children] of this.codeCollector.getExtensionMap()) {
+			for (const child of children) {
+				relations.push({ from: child.className, to: parentId, kind: 'extends' });
+			}
+		}
+
+		const unique = new Map(relations.map(it => [`${it.from}|${it.kind}|${it.to}`, it]));
+		return [...unique.values()];
+	}
+
+	private matchesPrefix(pkg: string): boolean {
+		return !this.options.packagePrefix || pkg.startsWith(this.options.packagePrefix);
+	}
+
+	private groupOf(structure: CodeStructure, file: string): string {
+		const group = this.options.groupBy === 'module' ? this.moduleOf(file) : this.packageOf(structure, file);
+		if (!this.options.depth || this.options.depth <= 0) {
+			return group;
+		}
+
+		const separator = group.includes('/') ? '/' : '.';
+		return group.split(separator).slice(0, this.options.depth).join(separator);
+	}
+
+	/**
+	 * `com.example.order`, or the workspace relative directory like `src/order` when the language has no packages
+	 */
+	private packageOf(structure: CodeStructure, file: string): string {
+		if (structure.package) {
+			return structure.package;
+		}
+
+		return this.relativePath(path.dirname(path.resolve(this.workspacePath, file))) || '.';
+	}
+
+	private moduleOf(file: string): string {
+		const dir = path.dirname(path.resolve(this.workspacePath, file));
+		if (!this.moduleDirs.has(dir)) {
+			let current = dir;
+			while (current.startsWith(this.workspacePath) && current !== this.workspacePath
+				&& !SERVICE_MANIFESTS.some(manifest => fs.existsSync(path.join(current, manifest)))) {
+				current = path.dirname(current);
+			}
+
+			const moduleDir = current.startsWith(this.workspacePath) ? current : this.workspacePath;
+			this.moduleDirs.set(dir, this.relativePath(moduleDir) || '.');
+		}
+
+		return this.moduleDirs.get(dir)!;
+	}
+
+	private relativePath(filePath: string): string {
+		return path.relative(this.workspacePath, filePath).split(path.sep).join('/');
+	}
+}
@@ -101,6 +101,42 @@ export interface MarkdownAnalysisResult {
     totalCount: number;
 }
 
+export interface DocumentationSection {
+	filePath: string;
+	heading: string;
+	content: string;
+	position: {
+		start: { row: number, column: number },
+		end: { row: number, column: number }
+	};
+}
+
+export interface DocstringChunk {
+	filePath: string;
+	// like the ids of the call graph, `com.example.OrderService.placeOrder`
+	symbol: string;
+	kind: 'class' | 'method' | 'function';
+	language: string;
+	docstring: string;
+	// the position of the comment or string, not of the symbol
+	position: {
+		start: { row: number, column: number },
+		end: { row: number, column: number }
+	};
+}
+
+export interface DocumentationResult {
+	// prose of the markdown, MDX, reStructuredText and AsciiDoc files by heading
+	sections: DocumentationSection[];
+	// Javadoc, JSDoc and Python docstrings of the classes, methods and functions
+	docstrings: DocstringChunk[];
+	stats: {
+		documentFiles: number;
+		totalSections: number;
+		totalDocstrings: number;
+	};
+}
+
 export interface SymbolInfo {
 	name: string;
 	qualifiedName: string;
@@ -134,6 +170,331 @@ export interface SymbolAnalysisResult {
 	};
 }
 
+export interface CallGraphNode {
+	// `com.example.OrderService.placeOrder`, or `src/order.ts#OrderService.placeOrder` for files without a package
+	id: string;
+	name: string;
+	className?: string;
+	filePath: string;
+	position: {
+		start: { row: number, column: number },
+		end: { row: number, column: number }
+	};
+}
+
+export interface CallGraphEdge {
+	caller: string;
+	callee: string;
+	// `call` for a call site, `dispatch` from an interface or parent method to an implementation that may run instead
+	kind: 'call' | 'dispatch';
+	filePath: string;
+	position: {
+		start: { row: number, column: number },
+		end: { row: number, column: number }
+	};
+}
+
+export interface CallGraphResult {
+	nodes: CallGraphNode[];
+	edges: CallGraphEdge[];
+	stats: {
+		totalNodes: number;
+		totalEdges: number;
+		resolvedCalls: number;
+		unresolvedCalls: number;
+	};
+}
+
+export interface DeadCodeItem {
+	// same ids as the nodes of the call graph
+	id: string;
+	name: string;
+	kind: 'class' | 'method' | 'function';
+	className?: string;
+	filePath: string;
+	position: {
+		start: { row: number, column: number },
+		end: { row: number, column: number }
+	};
+}
+
+export interface DeadCodeResult {
+	unused: DeadCodeItem[];
+	stats: {
+		totalSymbols: number;
+		// symbols kept by the allowlists, like `main`, tests, controllers and annotated declarations
+		entryPoints: number;
+		unusedClasses: number;
+		unusedMethods: number;
+		unusedFunctions: number;
+	};
+}
+
+export interface FunctionMetrics {
+	// same ids as the nodes of the call graph
+	id: string;
+	name: string;
+	className?: string;
+	filePath: string;
+	language: string;
+	cyclomaticComplexity: number;
+	maxNestingDepth: number;
+	// lines of the declaration, and lines with code only, without blank and comment lines
+	loc: number;
+	sloc: number;
+	parameterCount: number;
+	position: {
+		start: { row: number, column: number },
+		end: { row: number, column: number }
+	};
+}
+
+export interface PackageMetrics {
+	// `com.example.order`, or the workspace relative directory like `src/order`
+	name: string;
+	files: number;
+	classes: number;
+	functions: number;
+	loc: number;
+	averageComplexity: number;
+	// Ca, the number of packages which depend on this one
+	afferentCoupling: number;
+	// Ce, the number of packages this one depends on
+	efferentCoupling: number;
+	// Ce / (Ca + Ce), 0 for a stable package and 1 for an unstable one
+	instability: number;
+	dependencies: string[];
+}
+
+export interface CodeMetricsResult {
+	functions: FunctionMetrics[];
+	packages: PackageMetrics[];
+	stats: {
+		totalFunctions: number;
+		totalPackages: number;
+		totalLoc: number;
+		averageComplexity: number;
+		maxComplexity: number;
+		// functions with a cyclomatic complexity above 10
+		complexFunctions: number;
+	};
+}
+
+export interface TestCaseMapping {
+	name: string;
+	// the test class, like `OrderServiceTest`, or the `describe` block of Jest and Vitest
+	suite?: string;
+	filePath: string;
+	// ids of the production classes, methods and functions the test exercises, same ids as the call graph
+	targets: string[];
+	position: {
+		start: { row: number, column: number },
+		end: { row: number, column: number }
+	};
+}
+
+export interface TestFileMapping {
+	filePath: string;
+	language: string;
+	framework: string;
+	testCases: TestCaseMapping[];
+	// production files the test file imports or is named after
+	targetFiles: string[];
+}
+
+export interface UntestedMethod {
+	id: string;
+	name: string;
+	className?: string;
+	filePath: string;
+	position: {
+		start: { row: number, column: number },
+		end: { row: number, column: number }
+	};
+}
+
+export interface TestMappingResult {
+	testFiles: TestFileMapping[];
+	// production file to the test files which cover it, to pick the tests to run after editing a file
+	testsByFile: Record<string, string[]>;
+	// public methods and functions which no test case exercises
+	untested: UntestedMethod[];
+	stats: {
+		testFiles: number;
+		testCases: number;
+		testedFiles: number;
+		productionFiles: number;
+		untestedMethods: number;
+	};
+}
+
+export interface ServiceInfo {
+	name: string;
+	// workspace relative directory of the service manifest, like `services/order` or `.`
+	path: string;
+	providedApis: number;
+	demands: number;
+}
+
+export interface ServiceDependency {
+	consumer: string;
+	provider: string;
+	sourceCaller: string;
+	sourceFile: string;
+	clientType?: string;
+	targetUrl: string;
+	targetHttpMethod: string;
+	// the matched `ApiResource` of the provider
+	resource: {
+		sourceUrl: string;
+		sourceHttpMethod: string;
+		packageName: string;
+		className: string;
+		methodName: string;
+	};
+}
+
+export interface ServiceDependencyMap {
+	services: ServiceInfo[];
+	// consumer to provider edges, with the number of matched calls
+	links: Array<{ consumer: string, provider: string, calls: number }>;
+	dependencies: ServiceDependency[];
+	unmatchedDemands: Array<{
+		consumer: string;
+		sourceCaller: string;
+		sourceFile: string;
+		clientType?: string;
+		targetUrl: string;
+		targetHttpMethod: string;
+	}>;
+	stats: {
+		totalDemands: number;
+		matchedDemands: number;
+		unmatchedDemands: number;
+		totalResources: number;
+	};
+}
+
+export type DependencyEcosystem = 'maven' | 'npm' | 'golang' | 'pypi' | 'cargo';
+
+// `compile` and `runtime` ship with the module, `provided` is supplied by the platform, the others are not shipped
+export type DependencyScope = 'compile' | 'runtime' | 'provided' | 'optional' | 'test' | 'development' | 'build';
+
+export interface DeclaredDependency {
+	// `group:artifact` for Maven and Gradle, the module path for Go, the package name for the others
+	name: string;
+	// the version or range as declared, Maven properties are resolved
+	version?: string;
+	scope: DependencyScope;
+	ecosystem: DependencyEcosystem;
+	// workspace relative directory of a module referenced by path, like `project(':core')` or `file:../core`
+	localPath?: string;
+	// id of the workspace module the dependency resolves to, external dependencies have none
+	module?: string;
+}
+
+export interface ManifestModule {
+	// `ecosystem:path`, like `maven:order-service`
+	id: string;
+	name: string;
+	// Maven group id or Gradle `group`
+	group?: string;
+	version?: string;
+	description?: string;
+	// workspace relative directory, `.` for the root
+	path: string;
+	// workspace relative manifests of the module, like `pom.xml` or `pyproject.toml` and `requirements-dev.txt`
+	manifests: string[];
+	ecosystem: DependencyEcosystem;
+	language: string;
+	dependencies: DeclaredDependency[];
+	// framework ids like `spring3`, `nestjs` or `fastapi`, the same values as the golden path
+	frameworks: string[];
+}
+
+export interface ProjectMetadata {
+	projectConfig: {
+		name: string;
+		description: string;
+		// `microservice`, `monolith` or `library`
+		type: string;
+		language: string;
+		framework: string;
+	};
+	// golden path feature ids detected from the dependencies, like `database`, `messaging` or `testing`
+	features: string[];
+	structure: {
+		directories: string[];
+		files: string[];
+	};
+	// external dependency name to version, like the dependencies of a golden path project
+	dependencies: Record<string, string>;
+	configurations: Record<string, string[]>;
+}
+
+export interface ManifestAnalysisResult {
+	modules: ManifestModule[];
+	// module id to module id edges of the dependencies between the modules of the workspace
+	moduleGraph: Array<{ from: string, to: string, scope: DependencyScope }>;
+	frameworks: string[];
+	metadata: ProjectMetadata;
+	stats: {
+		totalModules: number;
+		totalDependencies: number;
+		externalDependencies: number;
+		ecosystems: DependencyEcosystem[];
+	};
+}
+
+export type DataModelSource = 'jpa' | 'typeorm' | 'sqlalchemy' | 'django' | 'prisma' | 'sql' | 'liquibase';
+
+// one-to-many relations are stored from the many side, as many-to-one
+export type RelationshipCardinality = 'many-to-one' | 'one-to-one' | 'many-to-many';
+
+export interface DataColumn {
+	name: string;
+	// the type as declared, a SQL type for migrations and the field type for entities and models
+	type: string;
+	primaryKey: boolean;
+	nullable: boolean;
+	unique: boolean;
+	// the field of the entity or model, when it is named differently from the column
+	field?: string;
+}
+
+export interface DataTable {
+	name: string;
+	// the entity class or model name
+	entity?: string;
+	sources: DataModelSource[];
+	filePaths: string[];
+	columns: DataColumn[];
+}
+
+export interface DataRelationship {
+	// table names, `from` is the table holding the foreign key
+	from: string;
+	to: string;
+	cardinality: RelationshipCardinality;
+	// column of `from`, absent for relations by a join table or only declared on the inverse side
+	foreignKey?: string;
+	// the relation field of the entity or model
+	field?: string;
+}
+
+export interface DataModelResult {
+	tables: DataTable[];
+	relationships: DataRelationship[];
+	// Mermaid `erDiagram` of the tables and relationships
+	erDiagram: string;
+	stats: {
+		totalTables: number;
+		totalColumns: number;
+		totalRelationships: number;
+		sources: DataModelSource[];
+	};
+}
+
 export interface CodeAnalysisResult {
 	interfaceAnalysis: {
 		interfaces: InterfaceImplementation[];
@@ -156,5 +517,11 @@ export interface CodeAnalysisResult {
 		};
 	};
 	markdownAnalysis?: MarkdownAnalysisResult;
+	documentation?: DocumentationResult;
 	symbolAnalysis?: SymbolAnalysisResult;
+	callGraph?: CallGraphResult;
+	deadCode?: DeadCodeResult;
+	metrics?: CodeMetricsResult;
+	testMapping?: TestMappingResult;
+	dataModel?: DataModelResult;
 }
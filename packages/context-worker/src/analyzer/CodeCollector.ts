@@ -9,6 +9,8 @@ export class CodeCollector {
 	private allFiles: string[] = [];
 	private allCodeFiles: CodeFile[] = [];
 	private workspacePath: string;
+	// implementation/extension maps are rebuilt once on the next read instead of after every added file
+	private relationshipsDirty = false;
 
 	constructor(workspacePath: string) {
 		this.allFiles = [];
@@ -46,7 +48,29 @@ export class CodeCollector {
 			});
 		}
 
-		this.processClassRelationships();
+		this.relationshipsDirty = true;
+	}
+
+	/**
+	 * Drop everything collected from the given file, used when a file is deleted or about to be re-parsed
+	 */
+	public removeCodeFile(filePath: string): void {
+		this.allFiles = this.allFiles.filter(file => file !== filePath);
+		this.allCodeFiles = this.allCodeFiles.filter(codeFile => codeFile.filepath !== filePath);
+
+		for (const [key, value] of this.interfaceMap) {
+			if (value.file === filePath) {
+				this.interfaceMap.delete(key);
+			}
+		}
+
+		for (const [key, value] of this.classMap) {
+			if (value.file === filePath) {
+				this.classMap.delete(key);
+			}
+		}
+
+		this.relationshipsDirty = true;
 	}
 
 	private processClassRelationships(): void {
@@ -139,17 +163,32 @@ export class CodeCollector {
 	}
 
 	public getImplementationMap(): Map<string, any[]> {
+		this.ensureRelationships();
 		return this.implementationMap;
 	}
 
 	public getExtensionMap(): Map<string, any[]> {
+		this.ensureRelationships();
 		return this.extensionMap;
 	}
 
+	private ensureRelationships(): void {
+		if (this.relationshipsDirty) {
+			this.relationshipsDirty = false;
+			this.processClassRelationships();
+		}
+	}
+
 	public setAllFiles(files: { file: string, content: string, language: string }[]): void {
 		this.allFiles = files.map(file => file.file);
 	}
 
+	public addFile(filePath: string): void {
+		if (!this.allFiles.includes(filePath)) {
+			this.allFiles.push(filePath);
+		}
+	}
+
 	public getAllFiles(): string[] {
 		return this.allFiles;
 	}
@@ -0,0 +1,54 @@
+/**
+ * Incremental update for one kind of uploaded context. Entries in `changed` and `removed` replace or delete
+ * the previously uploaded entries with the same key, so the server never needs a full re-upload.
+ */
+export interface ContextDelta<T> {
+	added: T[];
+	changed: T[];
+	removed: T[];
+}
+
+export function isEmptyDelta<T>(delta: ContextDelta<T>): boolean {
+	return delta.added.length === 0 && delta.changed.length === 0 && delta.removed.length === 0;
+}
+
+/**
+ * Index items by key; items sharing a key are kept together and compared as one group.
+ */
+export function groupByKey<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+	const groups = new Map<string, T[]>();
+	for (const item of items) {
+		const key = keyOf(item);
+		if (!groups.has(key)) {
+			groups.set(key, []);
+		}
+		groups.get(key)!.push(item);
+	}
+
+	return groups;
+}
+
+/**
+ * Compare two snapshots grouped by key. When a group changed, all of its new items are reported as changed,
+ * removed groups report their old items.
+ */
+export function diffSnapshots<T>(before: Map<string, T[]>, after: Map<string, T[]>): ContextDelta<T> {
+	const delta: ContextDelta<T> = { added: [], changed: [], removed: [] };
+
+	for (const [key, items] of after) {
+		const previous = before.get(key);
+		if (!previous) {
+			delta.added.push(...items);
+		} else if (JSON.stringify(previous) !== JSON.stringify(items)) {
+			delta.changed.push(...items);
+		}
+	}
+
+	for (const [key, items] of before) {
+		if (!after.has(key)) {
+			delta.removed.push(...items);
+		}
+	}
+
+	return delta;
+}
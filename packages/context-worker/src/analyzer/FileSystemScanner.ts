@@ -79,6 +79,13 @@ export class FileSystemScanner {
 	private ignorePatterns: string[] = [...DEFAULT_IGNORE_PATTERNS];
 	private gitignoreCache = new Map<string, string[]>();
 
+	/**
+	 * @param fileFilter Optional filter of file paths relative to the scanned directory, like the include and
+	 * exclude globs of `autodev.config.json`
+	 */
+	constructor(private readonly fileFilter?: (relativePath: string) => boolean) {
+	}
+
 	/**
 	 * Scans a directory and returns all file paths, respecting ignore patterns and .gitignore files
 	 */
@@ -101,6 +108,10 @@ export class FileSystemScanner {
 			if (entry.isDirectory()) {
 				return this.scanDirectory(fullPath, baseDir);
 			} else {
+				if (this.fileFilter && !this.fileFilter(relPath)) {
+					return [];
+				}
+
 				try {
 					const fileStat = await stat(fullPath);
 					if (fileStat.size > 1024 * 1024) {
@@ -135,8 +146,8 @@ export class FileSystemScanner {
 				return new RegExp(`^${regexPattern}$`).test(path.basename(filePath));
 			}
 
-			// Exact match for directories or files
-			return filePath.includes(`/${pattern}`) || filePath === pattern || path.basename(filePath) === pattern;
+			// Exact match for directories or files, `build` ignores `core/build/` but not `core/build.gradle`
+			return filePath.split(/[\\/]/).includes(pattern);
 		});
 	}
 
@@ -1,30 +1,59 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import fetch from 'node-fetch';
+import yaml from 'js-yaml';
 
-import { InstantiationService, providerContainer } from "../base/common/instantiation/instantiationService";
+import { InstantiationService } from "../base/common/instantiation/instantiationService";
 import { ILanguageServiceProvider, LanguageServiceProvider } from "../base/common/languages/languageService";
-import { IHttpApiAnalyser, IStructurerProvider } from "../ProviderTypes";
-import { JavaStructurerProvider } from "../code-context/java/JavaStructurerProvider";
-import { JavaSpringControllerAnalyser } from "../code-context/java/JavaSpringControllerAnalyser";
-import { TypeScriptStructurer } from "../code-context/typescript/TypeScriptStructurer";
-import { GoStructurerProvider } from "../code-context/go/GoStructurerProvider";
-import { KotlinStructurerProvider } from "../code-context/kotlin/KotlinStructurerProvider";
-import { KotlinSpringControllerAnalyser } from "../code-context/kotlin/KotlinSpringControllerAnalyser";
 import { CodeAnalyzer } from "./analyzers/CodeAnalyzer";
-import { CodeAnalysisResult, SymbolAnalysisResult, SymbolInfo } from "./CodeAnalysisResult";
-import { PythonStructurer } from "../code-context/python/PythonStructurer";
+import {
+	CodeAnalysisResult,
+	CodeMetricsResult,
+	DataModelResult,
+	FileSymbols,
+	ManifestAnalysisResult,
+	ServiceDependencyMap,
+	SymbolAnalysisResult,
+	SymbolInfo,
+	TestMappingResult
+} from "./CodeAnalysisResult";
 import { AppConfig } from "../types/AppConfig";
-import { RustStructurer } from "../code-context/rust/RustStructurer";
-import { CStructurer } from "../code-context/c/CStructurer";
-import { CSharpStructurer } from "../code-context/csharp/CSharpStructurer";
-import { analyseProtos, ProtoApiResourceGenerator, scanProtoFiles } from "@autodev/worker-protobuf";
+import { analyseProtos, ProtoApiResourceGenerator, ProtoServiceCatalogBuilder, scanProtoFiles } from "@autodev/worker-protobuf";
 import { ApiResource } from "@autodev/worker-core";
-import { JavaScriptStructurer } from "../code-context/javascript/JavaScriptStructurer";
-import { TypeScriptNextjsAnalyser } from "../code-context/typescript/TypeScriptNextjsAnalyser";
-import { FastApiAnalyser } from "../code-context/python/FastApiAnalyser";
 import { SymbolAnalyser } from "./analyzers/SymbolAnalyser";
 import { SymbolKind } from "../code-context/base/SymbolExtractor";
+import { ContextDelta, diffSnapshots, groupByKey, isEmptyDelta } from "./ContextDelta";
+import { WorkspaceWatcher } from "./WorkspaceWatcher";
+import { createPathFilter, loadProjectConfig } from "./ProjectConfigLoader";
+import { registerBuiltinProviders, registerProjectProviders } from "./ProviderRegistry";
+import { ApiDemandMatcher } from "./ApiDemandMatcher";
+import { OpenApiResourceGenerator, parseOpenApiFile, scanOpenApiFiles } from "../openapi/OpenApiResourceGenerator";
+import { OpenApiExporter } from "../openapi/OpenApiExporter";
+import { diffApiResources } from "../openapi/ApiSpecDiff";
+import { GraphQLResourceGenerator, parseGraphQLFile, scanGraphQLFiles } from "../graphql/GraphQLResourceGenerator";
+import { RelevantCodeProviderManager } from "../code-context/RelevantCodeProviderManager";
+import { ManifestAnalyzer, scanManifestFiles } from "../manifest/ManifestAnalyzer";
+import { CycloneDxExporter } from "../manifest/CycloneDxExporter";
+
+interface SimplifiedFileSymbols {
+	filePath: string;
+	symbols: SymbolInfo[];
+	summary: {
+		[className: string]: {
+			_classComment?: string;
+			[methodName: string]: string;
+		}
+	}
+}
+
+/**
+ * Uploadable state of the workspace, kept between two rounds of watch mode to compute deltas
+ */
+interface ContextSnapshot {
+	code: Map<string, { path: string; content: string }[]>;
+	apiByFile: Map<string, ApiResource[]>;
+	symbolsByFile: Map<string, FileSymbols | null>;
+}
 
 export class InterfaceAnalyzerApp {
 	private instantiationService: InstantiationService;
@@ -33,27 +62,35 @@ export class InterfaceAnalyzerApp {
 	private config: AppConfig;
 
 	constructor(config: AppConfig) {
-		this.config = config;
+		this.config = this.applyProjectConfig(config);
 		this.instantiationService = new InstantiationService();
 		this.instantiationService.registerSingleton(ILanguageServiceProvider, LanguageServiceProvider);
 
-		providerContainer.bind(IStructurerProvider).to(JavaStructurerProvider);
-		providerContainer.bind(IStructurerProvider).to(KotlinStructurerProvider);
-		providerContainer.bind(IStructurerProvider).to(JavaScriptStructurer);
-		providerContainer.bind(IStructurerProvider).to(TypeScriptStructurer);
-		providerContainer.bind(IStructurerProvider).to(GoStructurerProvider);
-		providerContainer.bind(IStructurerProvider).to(PythonStructurer);
-		providerContainer.bind(IStructurerProvider).to(RustStructurer);
-		providerContainer.bind(IStructurerProvider).to(CStructurer);
-		providerContainer.bind(IStructurerProvider).to(CSharpStructurer);
-
-		providerContainer.bind(IHttpApiAnalyser).to(JavaSpringControllerAnalyser);
-		providerContainer.bind(IHttpApiAnalyser).to(KotlinSpringControllerAnalyser);
-		providerContainer.bind(IHttpApiAnalyser).to(TypeScriptNextjsAnalyser);
-		providerContainer.bind(IHttpApiAnalyser).to(FastApiAnalyser);
-
-		this.codeAnalyzer = new CodeAnalyzer(this.instantiationService, config);
-		this.symbolAnalyser = new SymbolAnalyser(this.instantiationService.get(ILanguageServiceProvider));
+		registerBuiltinProviders();
+
+		this.codeAnalyzer = new CodeAnalyzer(this.instantiationService, this.config);
+		this.symbolAnalyser = new SymbolAnalyser(
+			this.instantiationService.get(ILanguageServiceProvider),
+			this.codeAnalyzer.getAnalysisCache()
+		);
+	}
+
+	/**
+	 * Apply `autodev.config.(json|js)` of the scanned repository: register its language overrides and plugin
+	 * providers, and merge its include/exclude globs into the config
+	 */
+	private applyProjectConfig(config: AppConfig): AppConfig {
+		const projectConfig = loadProjectConfig(config.dirPath, config.allowPlugins);
+		if (!projectConfig) {
+			return config;
+		}
+
+		registerProjectProviders(config.dirPath, projectConfig);
+		return {
+			...config,
+			include: [...(config.include ?? []), ...(projectConfig.include ?? [])],
+			exclude: [...(config.exclude ?? []), ...(projectConfig.exclude ?? [])],
+		};
 	}
 
 	/**
@@ -123,6 +160,176 @@ export class InterfaceAnalyzerApp {
 		}
 	}
 
+	/**
+	 * Upload which service calls which API, the unmatched calls are uploaded without a provider
+	 * @param result
+	 */
+	public async uploadServiceDependencyMap(result: ServiceDependencyMap): Promise<void> {
+		const config = this.config;
+		try {
+			const response = await fetch(config.baseUrl + '/api/context/service-dependency', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({
+					data: [...result.dependencies, ...result.unmatchedDemands],
+					projectId: config.projectId
+				})
+			});
+
+			const data = await response.json();
+			if (data.success) {
+				console.log('服务依赖上传成功!');
+			} else {
+				console.error('上传失败:', data);
+			}
+		} catch (error) {
+			console.error('上传过程中发生错误:', error);
+		}
+	}
+
+	/**
+	 * Upload the complexity and size of every function and the coupling of every package
+	 * @param result
+	 */
+	public async uploadCodeMetrics(result: CodeMetricsResult): Promise<void> {
+		const config = this.config;
+		try {
+			const response = await fetch(config.baseUrl + '/api/context/metrics', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({
+					data: {
+						functions: result.functions.map(func => ({ ...func, filePath: path.relative(config.dirPath, func.filePath) })),
+						packages: result.packages,
+					},
+					projectId: config.projectId
+				})
+			});
+
+			const data = await response.json();
+			if (data.success) {
+				console.log('代码度量上传成功!');
+			} else {
+				console.error('上传失败:', data);
+			}
+		} catch (error) {
+			console.error('上传过程中发生错误:', error);
+		}
+	}
+
+	/**
+	 * Upload the test cases with the production code they exercise, and the public methods no test exercises
+	 * @param result
+	 */
+	public async uploadTestMapping(result: TestMappingResult): Promise<void> {
+		const config = this.config;
+		const relative = (filePath: string) => path.relative(config.dirPath, filePath);
+		try {
+			const response = await fetch(config.baseUrl + '/api/context/test-mapping', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({
+					data: {
+						testCases: result.testFiles.flatMap(file => file.testCases.map(testCase => ({
+							testFile: relative(file.filePath),
+							language: file.language,
+							framework: file.framework,
+							name: testCase.name,
+							suite: testCase.suite,
+							targets: testCase.targets,
+							targetFiles: file.targetFiles.map(relative),
+						}))),
+						untested: result.untested.map(method => ({ ...method, filePath: relative(method.filePath) })),
+					},
+					projectId: config.projectId
+				})
+			});
+
+			const data = await response.json();
+			if (data.success) {
+				console.log('测试映射上传成功!');
+			} else {
+				console.error('上传失败:', data);
+			}
+		} catch (error) {
+			console.error('上传过程中发生错误:', error);
+		}
+	}
+
+	/**
+	 * Upload the tables, columns and relationships of the entities, schemas and migrations with the ER diagram
+	 * @param result
+	 */
+	public async uploadDataModel(result: DataModelResult): Promise<void> {
+		const config = this.config;
+		const relative = (filePath: string) => path.relative(config.dirPath, filePath);
+		try {
+			const response = await fetch(config.baseUrl + '/api/context/data-model', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({
+					data: {
+						tables: result.tables.map(table => ({ ...table, filePaths: table.filePaths.map(relative) })),
+						relationships: result.relationships,
+						erDiagram: result.erDiagram,
+					},
+					projectId: config.projectId
+				})
+			});
+
+			const data = await response.json();
+			if (data.success) {
+				console.log('数据模型上传成功!');
+			} else {
+				console.error('上传失败:', data);
+			}
+		} catch (error) {
+			console.error('上传过程中发生错误:', error);
+		}
+	}
+
+	/**
+	 * Upload the modules with their declared dependencies, and the detected project metadata for the project page
+	 * @param result
+	 */
+	public async uploadDependencyResult(result: ManifestAnalysisResult): Promise<void> {
+		const config = this.config;
+		try {
+			const response = await fetch(config.baseUrl + '/api/context/dependencies', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({
+					data: {
+						modules: result.modules,
+						moduleGraph: result.moduleGraph,
+						frameworks: result.frameworks,
+						metadata: result.metadata,
+					},
+					projectId: config.projectId
+				})
+			});
+
+			const data = await response.json();
+			if (data.success) {
+				console.log('依赖清单上传成功!');
+			} else {
+				console.error('上传失败:', data);
+			}
+		} catch (error) {
+			console.error('上传过程中发生错误:', error);
+		}
+	}
+
 	/**
 	 * Upload symbol analysis result to the server
 	 * @param result
@@ -130,7 +337,7 @@ export class InterfaceAnalyzerApp {
 	public async uploadSymbolResult(result: SymbolAnalysisResult): Promise<void> {
 		const config = this.config;
 		try {
-			const simplifiedResult = this.simplifySymbolResult(result, config.dirPath);
+			const simplifiedResult = this.simplifySymbolResult(result.fileSymbols, config.dirPath);
 			const response = await fetch(config.baseUrl + '/api/context/symbol', {
 				method: 'POST',
 				headers: {
@@ -154,33 +361,44 @@ export class InterfaceAnalyzerApp {
 		}
 	}
 
+	/**
+	 * Upload an incremental update to a context endpoint, the server replaces or deletes the matching entries
+	 * @param endpoint like `/api/context/code`
+	 * @param delta the changes since the last upload
+	 */
+	public async uploadDelta<T>(endpoint: string, delta: ContextDelta<T>): Promise<void> {
+		const config = this.config;
+		try {
+			const response = await fetch(config.baseUrl + endpoint, {
+				method: 'PATCH',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({
+					...delta,
+					projectId: config.projectId
+				})
+			});
+
+			const data = await response.json();
+			if (data.success) {
+				console.log(`增量更新上传成功: ${endpoint} (+${delta.added.length} ~${delta.changed.length} -${delta.removed.length})`);
+			} else {
+				console.error('增量更新上传失败:', data);
+			}
+		} catch (error) {
+			console.error('上传过程中发生错误:', error);
+		}
+	}
+
 	/**
 	 * 将关键代码标识结果简化为只包含必要信息的格式
-	 * @param result 原始关键代码标识结果
+	 * @param fileSymbols 原始关键代码标识结果，以文件路径为键
 	 * @param dirPath
 	 * @returns 简化后的结果
 	 */
-	private simplifySymbolResult(result: SymbolAnalysisResult, dirPath: string): Array<{
-		filePath: string;
-		symbols: SymbolInfo[];
-		summary: {
-			[className: string]: {
-				_classComment?: string;
-				[methodName: string]: string;
-			}
-		}
-	}> {
-		const { fileSymbols } = result;
-		const simplifiedResult: Array<{
-			filePath: string;
-			symbols: SymbolInfo[];
-			summary: {
-				[className: string]: {
-					_classComment?: string;
-					[methodName: string]: string;
-				}
-			}
-		}> = [];
+	private simplifySymbolResult(fileSymbols: Record<string, FileSymbols>, dirPath: string): SimplifiedFileSymbols[] {
+		const simplifiedResult: SimplifiedFileSymbols[] = [];
 
 		for (const [filePath, fileSymbol] of Object.entries(fileSymbols)) {
 			const classSymbols = fileSymbol.symbols
@@ -237,7 +455,7 @@ export class InterfaceAnalyzerApp {
 	}
 
 	async handleInterfaceContext(isOutputInterface: boolean = true) {
-		await this.codeAnalyzer.initializeFiles();
+		await this.codeAnalyzer.ensureInitialized();
 		const config = this.config;
 		this.codeAnalyzer.updateConfig(config);
 
@@ -254,15 +472,82 @@ export class InterfaceAnalyzerApp {
 
 			console.log(`Save results to ${outputFilePath}`);
 			await this.codeAnalyzer.generateLearningMaterials(result);
+			await this.handleCodeMetrics(result.metrics);
+			await this.handleTestMapping(result.testMapping);
+			await this.handleDataModel(result.dataModel);
+		}
+	}
+
+	/**
+	 * Save the code metrics to `code_metrics_result.json`, and upload them for the metrics pages
+	 */
+	private async handleCodeMetrics(metrics: CodeMetricsResult | undefined) {
+		if (!metrics || metrics.functions.length === 0) {
+			return;
+		}
+
+		const outputFilePath = path.join(process.cwd(), 'code_metrics_result.json');
+		fs.writeFileSync(outputFilePath, JSON.stringify(metrics, null, 2));
+		console.log(`Save code metrics to ${outputFilePath}`);
+
+		if (this.config.upload) {
+			console.log(`Upload code metrics to ${this.config.baseUrl}`);
+			await this.uploadCodeMetrics(metrics);
+		}
+	}
+
+	/**
+	 * Save the test mapping to `test_mapping_result.json`, and upload it so the agent can pick the tests of a change
+	 */
+	private async handleTestMapping(testMapping: TestMappingResult | undefined) {
+		if (!testMapping || testMapping.testFiles.length === 0) {
+			return;
+		}
+
+		const outputFilePath = path.join(process.cwd(), 'test_mapping_result.json');
+		fs.writeFileSync(outputFilePath, JSON.stringify(testMapping, null, 2));
+		console.log(`Save test mapping to ${outputFilePath}`);
+
+		if (this.config.upload) {
+			console.log(`Upload test mapping to ${this.config.baseUrl}`);
+			await this.uploadTestMapping(testMapping);
+		}
+	}
+
+	/**
+	 * Save the data model to `data_model_result.json` and its ER diagram to `data_model.mmd`, and upload them so
+	 * concept extraction can use the real tables
+	 */
+	private async handleDataModel(dataModel: DataModelResult | undefined) {
+		if (!dataModel || dataModel.tables.length === 0) {
+			return;
+		}
+
+		const outputFilePath = path.join(process.cwd(), 'data_model_result.json');
+		fs.writeFileSync(outputFilePath, JSON.stringify(dataModel, null, 2));
+		fs.writeFileSync(path.join(process.cwd(), 'data_model.mmd'), dataModel.erDiagram);
+		console.log(`Save data model to ${outputFilePath}`);
+
+		if (this.config.upload) {
+			console.log(`Upload data model to ${this.config.baseUrl}`);
+			await this.uploadDataModel(dataModel);
 		}
 	}
 
 	async handleHttpApiContext() {
+		await this.codeAnalyzer.ensureInitialized();
 		const config = this.config;
 
+		const apiByFile = await this.codeAnalyzer.analyzeApiByFile();
+		await this.handleServiceDependencies(apiByFile);
+
 		let apiResources = await this.analysisProtobuf(config);
-		let normalApis: ApiResource[] = await this.codeAnalyzer.analyzeApi();
-		apiResources = apiResources.concat(normalApis);
+		apiResources = apiResources.concat(await this.analysisGraphQL(config));
+		const declaredApis = await this.analysisOpenApi(config);
+		let normalApis: ApiResource[] = Array.from(apiByFile.values()).flat();
+		// GraphQL resolvers are not described by OpenAPI
+		this.handleOpenApiSpec(declaredApis, normalApis.filter(api => api.supplyType !== 'GraphQL'));
+		apiResources = apiResources.concat(declaredApis, normalApis);
 
 		if (apiResources.length === 0) {
 			console.log('No API resources found.');
@@ -278,8 +563,30 @@ export class InterfaceAnalyzerApp {
 		fs.writeFileSync(outputFilePath, JSON.stringify(apiResources, null, 2));
 	}
 
+	/**
+	 * Match the HTTP calls of the workspace to its API resources, and save the service dependency map
+	 */
+	private async handleServiceDependencies(apiByFile: Map<string, ApiResource[]>) {
+		const demands = await this.codeAnalyzer.analyzeApiDemands();
+		if (demands.length === 0) {
+			return;
+		}
+
+		const workspacePath = this.codeAnalyzer.getCodeCollector().getWorkspacePath();
+		const dependencyMap = new ApiDemandMatcher(workspacePath).buildDependencyMap(demands, apiByFile);
+
+		const outputFilePath = path.join(process.cwd(), 'service_dependency_map.json');
+		fs.writeFileSync(outputFilePath, JSON.stringify(dependencyMap, null, 2));
+		console.log(`Save service dependency map to ${outputFilePath}`);
+
+		if (this.config.upload) {
+			console.log(`Upload service dependencies to ${this.config.baseUrl}`);
+			await this.uploadServiceDependencyMap(dependencyMap);
+		}
+	}
+
 	async handleSymbolContext() {
-		await this.codeAnalyzer.initializeFiles();
+		await this.codeAnalyzer.ensureInitialized();
 		const config = this.config;
 
 		const codeCollector = this.codeAnalyzer.getCodeCollector();
@@ -295,9 +602,220 @@ export class InterfaceAnalyzerApp {
 		}
 	}
 
+	/**
+	 * Read the build manifests of the workspace, save the modules and their dependencies, a CycloneDX SBOM and the
+	 * detected project metadata, which has the shape of a golden path project for the backend-generator
+	 */
+	async handleDependencyContext() {
+		const config = this.config;
+		const manifestFiles = await scanManifestFiles(config.dirPath);
+		if (manifestFiles.length === 0) {
+			console.log('No dependency manifests found.');
+			return;
+		}
+
+		const result = new ManifestAnalyzer(config.dirPath).analyze(manifestFiles);
+		const outputFilePath = path.join(process.cwd(), 'dependency_analysis_result.json');
+		fs.writeFileSync(outputFilePath, JSON.stringify(result, null, 2));
+
+		const sbomFilePath = path.join(process.cwd(), 'sbom.cdx.json');
+		fs.writeFileSync(sbomFilePath, JSON.stringify(new CycloneDxExporter().export(result), null, 2));
+
+		const metadataFilePath = path.join(process.cwd(), 'project_metadata.json');
+		fs.writeFileSync(metadataFilePath, JSON.stringify(result.metadata, null, 2));
+		console.log(`Save ${result.modules.length} modules to ${outputFilePath}, SBOM to ${sbomFilePath}`);
+
+		if (config.upload) {
+			console.log(`Upload dependencies to ${config.baseUrl}`);
+			await this.uploadDependencyResult(result);
+		}
+	}
+
+	/**
+	 * Print the input and output types of a method as commented UML, for prompt context
+	 *
+	 * @param target `path/to/file#method` or `path/to/file#Class.method`, the path is relative to the scanned directory
+	 */
+	async handleRelevantCodeContext(target: string): Promise<string> {
+		const separator = target.lastIndexOf('#');
+		if (separator < 0) {
+			throw new Error(`无效的方法参数 ${target}，格式应为 path/to/file#method`);
+		}
+
+		const filePath = path.resolve(this.config.dirPath, target.substring(0, separator));
+		const methodName = target.substring(separator + 1);
+
+		const manager = new RelevantCodeProviderManager(this.instantiationService.get(ILanguageServiceProvider));
+		const context = await manager.methodRelatedContext(filePath, methodName);
+		console.log(context || `未找到 ${methodName} 的输入输出类型`);
+		return context;
+	}
+
+	/**
+	 * Keep running after the initial analysis: watch the workspace, re-analyse changed files and upload
+	 * only the added, changed and removed code analyses, API resources and symbols.
+	 */
+	async watch(): Promise<WorkspaceWatcher> {
+		await this.codeAnalyzer.ensureInitialized();
+		let snapshot = await this.takeSnapshot();
+
+		const watcher = new WorkspaceWatcher(this.config.dirPath, async (changedFiles: string[]) => {
+			console.log(`检测到 ${changedFiles.length} 个文件变更，正在重新分析...`);
+			await this.codeAnalyzer.refreshFiles(changedFiles);
+
+			const next = await this.takeSnapshot(snapshot, changedFiles);
+			await this.publishDeltas(snapshot, next);
+			snapshot = next;
+		}, undefined, createPathFilter(this.config));
+
+		watcher.start();
+		console.log(`正在监听 ${this.config.dirPath} 的文件变更，按 Ctrl+C 退出`);
+		return watcher;
+	}
+
+	/**
+	 * @param previous the last snapshot, per-file API and symbol results are reused for unchanged files
+	 * @param changedFiles files changed since the previous snapshot
+	 */
+	private async takeSnapshot(previous?: ContextSnapshot, changedFiles?: string[]): Promise<ContextSnapshot> {
+		const codeCollector = this.codeAnalyzer.getCodeCollector();
+		const allFiles = codeCollector.getAllFiles();
+		const filesToAnalyse = previous ? changedFiles.filter(file => allFiles.includes(file)) : allFiles;
+
+		const relationships = await this.codeAnalyzer.analyzeRelationships();
+		const codeItems = this.config.analysisTypes.interface ? await this.codeAnalyzer.convertToList(relationships) : [];
+
+		const apiByFile = new Map(previous?.apiByFile ?? []);
+		const symbolsByFile = new Map(previous?.symbolsByFile ?? []);
+		for (const file of changedFiles ?? []) {
+			apiByFile.delete(file);
+			symbolsByFile.delete(file);
+		}
+
+		for (const file of filesToAnalyse) {
+			if (this.config.analysisTypes.api) {
+				apiByFile.set(file, await this.codeAnalyzer.analyzeApiFile(file));
+			}
+			if (this.config.analysisTypes.symbol) {
+				symbolsByFile.set(file, await this.symbolAnalyser.analyzeFile(file));
+			}
+		}
+
+		return {
+			code: groupByKey(codeItems, item => item.path),
+			apiByFile,
+			symbolsByFile
+		};
+	}
+
+	private async publishDeltas(previous: ContextSnapshot, next: ContextSnapshot): Promise<void> {
+		const apiKey = (api: ApiResource) =>
+			`${api.sourceHttpMethod} ${api.sourceUrl} ${api.packageName}.${api.className}.${api.methodName}`;
+		const symbolSnapshot = (snapshot: ContextSnapshot) => {
+			const fileSymbols: Record<string, FileSymbols> = {};
+			for (const [file, symbols] of snapshot.symbolsByFile) {
+				if (symbols) {
+					fileSymbols[file] = symbols;
+				}
+			}
+
+			return groupByKey(this.simplifySymbolResult(fileSymbols, this.config.dirPath), item => item.filePath);
+		};
+
+		const deltas: [string, ContextDelta<unknown>][] = [
+			['/api/context/code', diffSnapshots(previous.code, next.code)],
+			['/api/context/api', diffSnapshots(
+				groupByKey(Array.from(previous.apiByFile.values()).flat(), apiKey),
+				groupByKey(Array.from(next.apiByFile.values()).flat(), apiKey)
+			)],
+			['/api/context/symbol', diffSnapshots(symbolSnapshot(previous), symbolSnapshot(next))],
+		];
+
+		for (const [endpoint, delta] of deltas) {
+			if (isEmptyDelta(delta)) {
+				continue;
+			}
+
+			if (this.config.upload) {
+				await this.uploadDelta(endpoint, delta);
+			} else {
+				console.log(`${endpoint}: +${delta.added.length} ~${delta.changed.length} -${delta.removed.length}`);
+			}
+		}
+	}
+
+	private async analysisOpenApi(config: AppConfig): Promise<ApiResource[]> {
+		const specFiles = await scanOpenApiFiles(config.dirPath);
+		const generator = new OpenApiResourceGenerator();
+
+		let apiResources: ApiResource[] = [];
+		for (const specFile of specFiles) {
+			const document = parseOpenApiFile(specFile);
+			if (document) {
+				const specPath = path.relative(config.dirPath, specFile).split(path.sep).join('/');
+				apiResources = apiResources.concat(generator.generateApiResources(document, specPath));
+			}
+		}
+
+		return apiResources;
+	}
+
+	/**
+	 * Export the scanned API as a draft OpenAPI document, and compare it with the declared OpenAPI files
+	 */
+	private handleOpenApiSpec(declaredApis: ApiResource[], implementedApis: ApiResource[]) {
+		const config = this.config;
+		if (config.openApiOutput) {
+			const codeFiles = this.codeAnalyzer.getCodeCollector().getAllCodeStructure();
+			const document = new OpenApiExporter(codeFiles).export(implementedApis, {
+				title: path.basename(config.dirPath),
+				version: '0.0.0',
+			});
+
+			const outputFilePath = path.resolve(process.cwd(), config.openApiOutput);
+			const isYaml = /\.ya?ml$/i.test(outputFilePath);
+			fs.writeFileSync(outputFilePath, isYaml ? yaml.dump(document, { noRefs: true }) : JSON.stringify(document, null, 2));
+			console.log(`Save OpenAPI document to ${outputFilePath}`);
+		}
+
+		if (declaredApis.length > 0) {
+			const diff = diffApiResources(declaredApis, implementedApis);
+			const outputFilePath = path.join(process.cwd(), 'api_spec_diff.json');
+			fs.writeFileSync(outputFilePath, JSON.stringify(diff, null, 2));
+			console.log(`OpenAPI 声明与代码实现对比: ${diff.matched.length} 个一致, ${diff.missing.length} 个未实现, ${diff.undocumented.length} 个未声明`);
+		}
+	}
+
+	/**
+	 * Operations of the `.graphql` schema files, the types are saved to `graphql_analysis_result.json`
+	 */
+	private async analysisGraphQL(config: AppConfig): Promise<ApiResource[]> {
+		const schemaFiles = await scanGraphQLFiles(config.dirPath);
+		const generator = new GraphQLResourceGenerator();
+
+		let apiResources: ApiResource[] = [];
+		const results = [];
+		for (const schemaFile of schemaFiles) {
+			const document = parseGraphQLFile(schemaFile);
+			if (document) {
+				const schemaPath = path.relative(config.dirPath, schemaFile).split(path.sep).join('/');
+				apiResources = apiResources.concat(generator.generateApiResources(document, schemaPath));
+				results.push({ filePath: schemaFile, dataStructures: generator.generateDataStructs(document, schemaFile) });
+			}
+		}
+
+		if (results.length > 0) {
+			const outputFilePath = path.join(process.cwd(), 'graphql_analysis_result.json');
+			fs.writeFileSync(outputFilePath, JSON.stringify(results, null, 2));
+		}
+
+		return apiResources;
+	}
+
 	private async analysisProtobuf(config: AppConfig): Promise<ApiResource[]> {
 		const protoFiles = await scanProtoFiles(config.dirPath);
-		const results = await analyseProtos(protoFiles);
+		const includePaths = [config.dirPath, ...(config.protoPaths ?? []).map(dir => path.resolve(config.dirPath, dir))];
+		const results = await analyseProtos(protoFiles, includePaths);
 
 		if (!results || results.length === 0) {
 			console.log('No proto files found or no analysis result.');
@@ -307,7 +825,13 @@ export class InterfaceAnalyzerApp {
 		const outputFilePath = path.join(process.cwd(), 'protobuf_analysis_result.json');
 		fs.writeFileSync(outputFilePath, JSON.stringify(results, null, 2));
 
+		const dataStructures = results.flatMap(result => result.dataStructures);
+		const catalog = new ProtoServiceCatalogBuilder().build(dataStructures);
+		const catalogFilePath = path.join(process.cwd(), 'grpc_service_catalog.json');
+		fs.writeFileSync(catalogFilePath, JSON.stringify(catalog, null, 2));
+		console.log(`gRPC 服务目录: ${catalog.services.length} 个服务, 已保存到 ${catalogFilePath}`);
+
 		const generator = new ProtoApiResourceGenerator();
-		return generator.generateApiResources(results.flatMap(result => result.dataStructures))
+		return generator.generateApiResources(dataStructures)
 	}
 }
@@ -0,0 +1,190 @@
+import { isMainThread, MessagePort, parentPort, Worker, workerData } from "worker_threads";
+
+import { IDisposable } from "../base/common/lifecycle";
+import { ILanguageServiceProvider, LanguageServiceProvider } from "../base/common/languages/languageService";
+import { StructurerProviderManager } from "../code-context/StructurerProviderManager";
+import { CodeFile } from "../codemodel/CodeElement";
+import { loadProjectConfig } from "./ProjectConfigLoader";
+import { registerBuiltinProviders, registerProjectProviders } from "./ProviderRegistry";
+
+const PARSE_WORKER = 'autodev-parse-worker';
+// the ESM build has no `__filename`, the pool is unavailable there
+const WORKER_SCRIPT = typeof __filename === 'string' ? __filename : '';
+
+export interface ParseTask {
+	file: string;
+	content: string;
+	language: string;
+}
+
+interface ParseRequest extends ParseTask {
+	id: number;
+}
+
+interface ParseResponse {
+	id: number;
+	codeFile?: CodeFile;
+	error?: string;
+}
+
+interface WorkerExitError extends Error {
+	workerExited?: boolean;
+}
+
+export interface ParseWorkerData {
+	type: typeof PARSE_WORKER;
+	dirPath: string;
+	allowPlugins?: boolean;
+}
+
+/**
+ * Parses files on a pool of worker threads. Every worker loads the tree-sitter WASM grammars and binds the providers
+ * (including the plugins of `autodev.config`) on its own, the main thread only sends file contents and receives the
+ * parsed {@link CodeFile} structures.
+ *
+ * The worker script is the bundle this module is part of, so the pool is only available when running from the
+ * compiled JavaScript, see {@link ParseWorkerPool.isAvailable}.
+ */
+export class ParseWorkerPool implements IDisposable {
+	private workers: Worker[] = [];
+
+	constructor(
+		private readonly size: number,
+		private readonly dirPath: string,
+		private readonly allowPlugins: boolean = false,
+		private readonly workerScript: string = WORKER_SCRIPT,
+	) {
+	}
+
+	static isAvailable(workerScript: string = WORKER_SCRIPT): boolean {
+		return workerScript.endsWith('.js');
+	}
+
+	/**
+	 * Parse the tasks on the pool, the results keep the order of the tasks. Files that fail to parse, or that crashed
+	 * their worker, are undefined in the results. The files left when every worker crashed are handed to `parseLocally`.
+	 */
+	async parseAll(
+		tasks: ParseTask[],
+		onProgress?: (done: number, total: number) => void,
+		parseLocally?: (task: ParseTask) => Promise<CodeFile | undefined>,
+	): Promise<(CodeFile | undefined)[]> {
+		const results: (CodeFile | undefined)[] = new Array(tasks.length);
+		let next = 0;
+		let done = 0;
+
+		const runWorker = async (worker: Worker) => {
+			while (next < tasks.length) {
+				const index = next++;
+				try {
+					results[index] = await this.request(worker, { id: index, ...tasks[index] });
+				} catch (error) {
+					console.error(`解析文件 ${tasks[index].file} 时出错:`, error);
+					if ((error as WorkerExitError).workerExited) {
+						this.workers = this.workers.filter(it => it !== worker);
+						return;
+					}
+				} finally {
+					onProgress?.(++done, tasks.length);
+				}
+			}
+		};
+
+		const workerCount = Math.min(this.size, tasks.length);
+		while (this.workers.length < workerCount) {
+			this.workers.push(new Worker(this.workerScript, {
+				workerData: { type: PARSE_WORKER, dirPath: this.dirPath, allowPlugins: this.allowPlugins } satisfies ParseWorkerData,
+			}));
+		}
+
+		await Promise.all(this.workers.slice(0, workerCount).map(runWorker));
+
+		if (next < tasks.length && parseLocally) {
+			console.warn(`所有解析线程均已退出，在主线程解析剩余的 ${tasks.length - next} 个文件`);
+			for (let index = next; index < tasks.length; index++) {
+				results[index] = await parseLocally(tasks[index]);
+				onProgress?.(++done, tasks.length);
+			}
+		}
+
+		return results;
+	}
+
+	private request(worker: Worker, request: ParseRequest): Promise<CodeFile | undefined> {
+		return new Promise((resolve, reject) => {
+			const cleanup = () => {
+				worker.off('message', onMessage);
+				worker.off('error', onError);
+				worker.off('exit', onExit);
+			};
+			const onMessage = (response: ParseResponse) => {
+				if (response.id !== request.id) return;
+
+				cleanup();
+				if (response.error) {
+					reject(new Error(response.error));
+				} else {
+					resolve(response.codeFile);
+				}
+			};
+			const onError = (error: Error) => {
+				cleanup();
+				reject(Object.assign(error, { workerExited: true }));
+			};
+			const onExit = (code: number) => {
+				cleanup();
+				reject(Object.assign(new Error(`解析进程退出，退出码 ${code}`), { workerExited: true }));
+			};
+
+			worker.on('message', onMessage);
+			worker.on('error', onError);
+			worker.on('exit', onExit);
+			worker.postMessage(request);
+		});
+	}
+
+	dispose(): void {
+		this.workers.forEach(worker => worker.terminate());
+		this.workers = [];
+	}
+}
+
+/**
+ * Serve the parse requests of the pool on `port`, the pool runs it in every worker thread
+ */
+export async function runParseWorker(
+	data: ParseWorkerData,
+	port: MessagePort = parentPort!,
+	serviceProvider: ILanguageServiceProvider = new LanguageServiceProvider(),
+): Promise<void> {
+	const projectConfig = loadProjectConfig(data.dirPath, data.allowPlugins);
+	if (projectConfig) {
+		registerProjectProviders(data.dirPath, projectConfig);
+	}
+	registerBuiltinProviders();
+
+	await serviceProvider.ready();
+	const structurerManager = StructurerProviderManager.getInstance();
+
+	port.on('message', async (request: ParseRequest) => {
+		try {
+			const structurer = structurerManager.getStructurer(request.language);
+			if (!structurer) {
+				throw new Error(`No structurer found for language ${request.language}`);
+			}
+
+			await structurer.init(serviceProvider);
+			const codeFile = await structurer.parseFile(request.content, request.file);
+			port.postMessage({ id: request.id, codeFile } satisfies ParseResponse);
+		} catch (error) {
+			port.postMessage({ id: request.id, error: String(error) } satisfies ParseResponse);
+		}
+	});
+}
+
+if (!isMainThread && workerData?.type === PARSE_WORKER) {
+	runParseWorker(workerData).catch(error => {
+		console.error('解析进程初始化失败:', error);
+		process.exit(1);
+	});
+}
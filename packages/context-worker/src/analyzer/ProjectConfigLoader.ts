@@ -0,0 +1,150 @@
+import fs from "fs";
+import path from "path";
+import ignore from "ignore";
+
+import { HttpApiAnalyser } from "../code-context/base/HttpApiAnalyser";
+import { StructurerProvider } from "../code-context/base/StructurerProvider";
+import { PROJECT_CONFIG_FILES, ProjectConfig, ProjectPlugin } from "../types/ProjectConfig";
+
+/**
+ * Reads `autodev.config.json` or `autodev.config.js` from the root of the scanned repository, undefined when the
+ * repository has none. Invalid entries are dropped with a warning, so a broken config never stops the analysis.
+ *
+ * `autodev.config.js` and the `plugins` run code of the scanned repository, so they are skipped with a warning unless
+ * `allowPlugins` is set (`--allow-plugins`): scanning an untrusted repository must not execute it.
+ */
+export function loadProjectConfig(dirPath: string, allowPlugins: boolean = false): ProjectConfig | undefined {
+	const configFile = PROJECT_CONFIG_FILES
+		.map(file => path.join(dirPath, file))
+		.find(file => fs.existsSync(file));
+	if (!configFile) {
+		return undefined;
+	}
+
+	const isJson = configFile.endsWith('.json');
+	if (!isJson && !allowPlugins) {
+		console.warn(`配置文件 ${configFile} 会执行仓库中的代码，需要 --allow-plugins 才会加载，已忽略`);
+		return undefined;
+	}
+
+	let raw: unknown;
+	try {
+		raw = defaultExportOf(isJson ? JSON.parse(fs.readFileSync(configFile, 'utf-8')) : require(configFile));
+	} catch (error) {
+		console.warn(`无法读取配置文件 ${configFile}:`, error);
+		return undefined;
+	}
+
+	if (!isRecord(raw)) {
+		console.warn(`配置文件 ${configFile} 应导出一个对象，已忽略`);
+		return undefined;
+	}
+
+	const plugins = stringArrayOf(raw.plugins, 'plugins', configFile);
+	if (plugins?.length && !allowPlugins) {
+		console.warn(`配置文件 ${configFile} 中的 plugins 会执行仓库中的代码，需要 --allow-plugins 才会加载，已忽略`);
+	}
+
+	const config: ProjectConfig = {
+		include: stringArrayOf(raw.include, 'include', configFile),
+		exclude: stringArrayOf(raw.exclude, 'exclude', configFile),
+		plugins: allowPlugins ? plugins : undefined,
+	};
+
+	if (isRecord(raw.languages)) {
+		config.languages = {};
+		for (const [languageId, exts] of Object.entries(raw.languages)) {
+			const fileExts = stringArrayOf(exts, `languages.${languageId}`, configFile);
+			if (fileExts) {
+				config.languages[languageId] = fileExts;
+			}
+		}
+	}
+
+	console.info(`已加载配置文件 ${configFile}`);
+	return config;
+}
+
+/**
+ * Loads the plugin modules of the config. Names are resolved from the scanned repository, so both npm packages
+ * installed there and relative scripts like `./tools/autodev-plugin.js` work. Modules that fail to load are skipped.
+ */
+export function loadProjectPlugins(dirPath: string, plugins: string[] = []): ProjectPlugin[] {
+	const loaded: ProjectPlugin[] = [];
+	for (const name of plugins) {
+		try {
+			const modulePath = require.resolve(name, { paths: [dirPath] });
+			const module = defaultExportOf(require(modulePath));
+			const exports = isRecord(module) ? module : {};
+
+			const plugin: ProjectPlugin = {
+				name,
+				structurers: classesOf<StructurerProvider>(exports.structurers),
+				httpApiAnalysers: classesOf<HttpApiAnalyser>(exports.httpApiAnalysers),
+			};
+
+			if (plugin.structurers.length === 0 && plugin.httpApiAnalysers.length === 0) {
+				console.warn(`插件 ${name} 没有导出 structurers 或 httpApiAnalysers，已忽略`);
+				continue;
+			}
+
+			loaded.push(plugin);
+		} catch (error) {
+			console.error(`无法加载插件 ${name}:`, error);
+		}
+	}
+
+	return loaded;
+}
+
+/**
+ * Builds the filter of the `include` and `exclude` globs, which takes paths relative to the repository root
+ */
+export function createPathFilter(config: Pick<ProjectConfig, 'include' | 'exclude'>): (relativePath: string) => boolean {
+	const include = config.include?.length ? ignore().add(config.include) : undefined;
+	const exclude = config.exclude?.length ? ignore().add(config.exclude) : undefined;
+
+	return (relativePath: string) => {
+		const normalized = relativePath.split(path.sep).join('/');
+		if (!normalized || normalized.startsWith('..')) {
+			return true;
+		}
+
+		if (exclude?.ignores(normalized)) {
+			return false;
+		}
+
+		return !include || include.ignores(normalized);
+	};
+}
+
+function stringArrayOf(value: unknown, key: string, configFile: string): string[] | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+
+	if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+		console.warn(`配置文件 ${configFile} 中的 ${key} 应为字符串数组，已忽略`);
+		return undefined;
+	}
+
+	return value;
+}
+
+/**
+ * Only the functions of the array, they are instantiated without arguments
+ */
+function classesOf<T>(value: unknown): (new () => T)[] {
+	return Array.isArray(value) ? value.filter((item): item is new () => T => typeof item === 'function') : [];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null;
+}
+
+/**
+ * The `default` export of an ES module compiled to CommonJS, or the module itself
+ */
+function defaultExportOf(module: unknown): unknown {
+	return isRecord(module) && module.default != null ? module.default : module;
+}
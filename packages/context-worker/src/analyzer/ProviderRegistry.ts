@@ -0,0 +1,95 @@
+import { providerContainer } from "../base/common/instantiation/instantiationService";
+import { registerLanguageExtensions } from "../base/common/languages/languages";
+import { IHttpApiAnalyser, IRelevantCodeProvider, IStructurerProvider } from "../ProviderTypes";
+import { ProjectConfig } from "../types/ProjectConfig";
+import { loadProjectPlugins } from "./ProjectConfigLoader";
+import { JavaStructurerProvider } from "../code-context/java/JavaStructurerProvider";
+import { JavaSpringControllerAnalyser } from "../code-context/java/JavaSpringControllerAnalyser";
+import { JavaRelevantCodeProvider } from "../code-context/java/JavaRelevantCodeProvider";
+import { KotlinStructurerProvider } from "../code-context/kotlin/KotlinStructurerProvider";
+import { KotlinSpringControllerAnalyser } from "../code-context/kotlin/KotlinSpringControllerAnalyser";
+import { JavaScriptStructurer } from "../code-context/javascript/JavaScriptStructurer";
+import { JavaScriptExpressAnalyser } from "../code-context/javascript/JavaScriptExpressAnalyser";
+import { JavaScriptRelevantCodeProvider } from "../code-context/javascript/JavaScriptRelevantCodeProvider";
+import { JavaScriptGraphQLJsAnalyser } from "../code-context/javascript/JavaScriptGraphQLJsAnalyser";
+import { TypeScriptStructurer } from "../code-context/typescript/TypeScriptStructurer";
+import { TypeScriptNextjsAnalyser } from "../code-context/typescript/TypeScriptNextjsAnalyser";
+import { TypeScriptExpressAnalyser } from "../code-context/typescript/TypeScriptExpressAnalyser";
+import { NestjsAnalyser } from "../code-context/typescript/NestjsAnalyser";
+import { NestjsGraphQLAnalyser } from "../code-context/typescript/NestjsGraphQLAnalyser";
+import { TypeScriptGraphQLJsAnalyser } from "../code-context/typescript/TypeScriptGraphQLJsAnalyser";
+import { TypeScriptRelevantCodeProvider } from "../code-context/typescript/TypeScriptRelevantCodeProvider";
+import { GoStructurerProvider } from "../code-context/go/GoStructurerProvider";
+import { GoHttpRouteAnalyser } from "../code-context/go/GoHttpRouteAnalyser";
+import { GoRelevantCodeProvider } from "../code-context/go/GoRelevantCodeProvider";
+import { PythonStructurer } from "../code-context/python/PythonStructurer";
+import { FastApiAnalyser } from "../code-context/python/FastApiAnalyser";
+import { FlaskAnalyser } from "../code-context/python/FlaskAnalyser";
+import { DjangoUrlAnalyser } from "../code-context/python/DjangoUrlAnalyser";
+import { PythonRelevantCodeProvider } from "../code-context/python/PythonRelevantCodeProvider";
+import { RustStructurer } from "../code-context/rust/RustStructurer";
+import { CStructurer } from "../code-context/c/CStructurer";
+import { CSharpStructurer } from "../code-context/csharp/CSharpStructurer";
+import { PHPStructurer } from "../code-context/php/PHPStructurer";
+import { LaravelRouteAnalyser } from "../code-context/php/LaravelRouteAnalyser";
+import { SymfonyRouteAnalyser } from "../code-context/php/SymfonyRouteAnalyser";
+import { CppStructurerProvider } from "../code-context/cpp/CppStructurerProvider";
+
+/**
+ * Bind the built-in structurers, HTTP API analysers and relevant code providers, called by the app and by every parse worker thread
+ */
+export function registerBuiltinProviders(): void {
+	providerContainer.bind(IStructurerProvider).to(JavaStructurerProvider);
+	providerContainer.bind(IStructurerProvider).to(KotlinStructurerProvider);
+	providerContainer.bind(IStructurerProvider).to(JavaScriptStructurer);
+	providerContainer.bind(IStructurerProvider).to(TypeScriptStructurer);
+	providerContainer.bind(IStructurerProvider).to(GoStructurerProvider);
+	providerContainer.bind(IStructurerProvider).to(PythonStructurer);
+	providerContainer.bind(IStructurerProvider).to(RustStructurer);
+	providerContainer.bind(IStructurerProvider).to(CStructurer);
+	providerContainer.bind(IStructurerProvider).to(CSharpStructurer);
+	providerContainer.bind(IStructurerProvider).to(PHPStructurer);
+	providerContainer.bind(IStructurerProvider).to(CppStructurerProvider);
+
+	providerContainer.bind(IHttpApiAnalyser).to(JavaSpringControllerAnalyser);
+	providerContainer.bind(IHttpApiAnalyser).to(KotlinSpringControllerAnalyser);
+	providerContainer.bind(IHttpApiAnalyser).to(TypeScriptNextjsAnalyser);
+	providerContainer.bind(IHttpApiAnalyser).to(FastApiAnalyser);
+	providerContainer.bind(IHttpApiAnalyser).to(FlaskAnalyser);
+	providerContainer.bind(IHttpApiAnalyser).to(DjangoUrlAnalyser);
+	providerContainer.bind(IHttpApiAnalyser).to(NestjsAnalyser);
+	providerContainer.bind(IHttpApiAnalyser).to(TypeScriptExpressAnalyser);
+	providerContainer.bind(IHttpApiAnalyser).to(JavaScriptExpressAnalyser);
+	providerContainer.bind(IHttpApiAnalyser).to(NestjsGraphQLAnalyser);
+	providerContainer.bind(IHttpApiAnalyser).to(TypeScriptGraphQLJsAnalyser);
+	providerContainer.bind(IHttpApiAnalyser).to(JavaScriptGraphQLJsAnalyser);
+	providerContainer.bind(IHttpApiAnalyser).to(GoHttpRouteAnalyser);
+	providerContainer.bind(IHttpApiAnalyser).to(LaravelRouteAnalyser);
+	providerContainer.bind(IHttpApiAnalyser).to(SymfonyRouteAnalyser);
+
+	providerContainer.bind(IRelevantCodeProvider).to(JavaRelevantCodeProvider);
+	providerContainer.bind(IRelevantCodeProvider).to(TypeScriptRelevantCodeProvider);
+	providerContainer.bind(IRelevantCodeProvider).to(JavaScriptRelevantCodeProvider);
+	providerContainer.bind(IRelevantCodeProvider).to(PythonRelevantCodeProvider);
+	providerContainer.bind(IRelevantCodeProvider).to(GoRelevantCodeProvider);
+}
+
+/**
+ * Register the language extension overrides and bind the providers of the plugins of `autodev.config`. Call it
+ * before {@link registerBuiltinProviders}, so an in-house structurer takes precedence for its language.
+ */
+export function registerProjectProviders(dirPath: string, projectConfig: ProjectConfig): void {
+	for (const [languageId, fileExts] of Object.entries(projectConfig.languages ?? {})) {
+		registerLanguageExtensions(languageId, fileExts);
+	}
+
+	for (const plugin of loadProjectPlugins(dirPath, projectConfig.plugins)) {
+		plugin.structurers.forEach(structurer => {
+			providerContainer.bind(IStructurerProvider).toDynamicValue(() => new structurer());
+		});
+		plugin.httpApiAnalysers.forEach(analyser => {
+			providerContainer.bind(IHttpApiAnalyser).toDynamicValue(() => new analyser());
+		});
+		console.info(`已加载插件 ${plugin.name}: ${plugin.structurers.length} 个 structurer, ${plugin.httpApiAnalysers.length} 个 HTTP API analyser`);
+	}
+}
@@ -0,0 +1,104 @@
+import path from "path";
+
+import { CodeFile, CodeFunction } from "../codemodel/CodeElement";
+
+export const TEST_FILE_PATTERNS = [
+	/(^|\/)(test|tests|__tests__|spec|testing)\//,
+	/(Test|Tests|Spec|IT)\.(java|kt|cs|php)$/,
+	/_test\.go$/,
+	/(^|\/)test_[^/]*\.py$|_test\.py$/,
+	/\.(test|spec)\.[jt]sx?$/,
+];
+
+export type TestFramework = 'junit' | 'testng' | 'kotest' | 'jest' | 'vitest' | 'mocha' | 'pytest' | 'unittest' | 'go';
+
+/**
+ * @param relativePath workspace relative path with `/` separators
+ */
+export function isTestFile(relativePath: string): boolean {
+	return TEST_FILE_PATTERNS.some(pattern => pattern.test(relativePath));
+}
+
+/**
+ * The test framework of a test file by its imports, undefined when the file is no test of a known framework
+ */
+export function testFrameworkOf(codeFile: CodeFile, content: string): TestFramework | undefined {
+	const imports = codeFile.imports.join('\n');
+	switch (codeFile.language) {
+		case 'java':
+		case 'kotlin':
+			if (/io\.kotest/.test(imports)) return 'kotest';
+			if (/org\.testng/.test(imports)) return 'testng';
+			if (/org\.junit|junit\.framework/.test(imports) || /@Test\b/.test(content)) return 'junit';
+			return undefined;
+		case 'javascript':
+		case 'javascriptreact':
+		case 'typescript':
+		case 'typescriptreact':
+			if (/['"]vitest['"]/.test(imports)) return 'vitest';
+			if (/['"](mocha|chai)['"]/.test(imports)) return 'mocha';
+			return /\b(it|test)\s*\(/.test(content) ? 'jest' : undefined;
+		case 'python':
+			if (/\bunittest\b/.test(imports) && !/\bpytest\b/.test(imports)) return 'unittest';
+			return 'pytest';
+		case 'go':
+			return 'go';
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * The name of the production file or class a test is named after, like `OrderService` of `OrderServiceTest.java`,
+ * `order` of `order.test.ts`, `test_order.py` and `order_test.go`
+ */
+export function testSubjectName(name: string): string {
+	return path.basename(name, path.extname(name))
+		.replace(/\.(test|spec)$/, '')
+		.replace(/^test_|_test$/, '')
+		.replace(/(Tests?|Spec|IT)$/, '');
+}
+
+// `@Test`, `@ParameterizedTest` and the other test annotations of JUnit 4, JUnit 5 and TestNG
+const TEST_ANNOTATIONS = /^(Test|ParameterizedTest|RepeatedTest|TestFactory|TestTemplate)$/;
+
+/**
+ * Whether a method or function of a test file is a test case by the conventions of its framework
+ * @param lines the lines of the test file, to find annotations the structurer did not collect
+ */
+export function isTestCase(func: CodeFunction, framework: TestFramework, lines: string[]): boolean {
+	switch (framework) {
+		case 'junit':
+		case 'testng':
+			if (func.annotations?.some(annotation => TEST_ANNOTATIONS.test(annotation.name.replace(/^@/, '')))) {
+				return true;
+			}
+
+			// JUnit 3 `TestCase` subclasses
+			return /^test[A-Z]/.test(func.name) || annotationsAbove(lines, func.start.row).some(name => TEST_ANNOTATIONS.test(name));
+		case 'pytest':
+		case 'unittest':
+			return func.name.startsWith('test');
+		case 'go':
+			return /^(Test|Benchmark|Example|Fuzz)([A-Z_]|$)/.test(func.name);
+		default:
+			return false;
+	}
+}
+
+/**
+ * Names of the annotations on the lines right above a declaration
+ */
+function annotationsAbove(lines: string[], row: number): string[] {
+	const names: string[] = [];
+	for (let current = row; current >= 0 && current >= row - 5; current--) {
+		const match = /^\s*@([\w.]+)/.exec(lines[current] ?? '');
+		if (match) {
+			names.push(match[1].split('.').pop()!);
+		} else if (current < row && lines[current]?.trim()) {
+			break;
+		}
+	}
+
+	return names;
+}
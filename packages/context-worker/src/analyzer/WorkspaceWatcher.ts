@@ -0,0 +1,94 @@
+import fs from "fs";
+import path from "path";
+
+import { IDisposable } from "../base/common/lifecycle";
+import { defaultIgnoreDir, defaultIgnoreFile } from "../base/node/ignore";
+import { inferLanguage } from "../base/common/languages/languages";
+
+export type WorkspaceChangeListener = (changedFiles: string[]) => Promise<void>;
+
+/**
+ * Watches a workspace for changes to source files and reports them in debounced batches.
+ *
+ * Paths matched by the default ignore rules in `base/node/ignore.ts`, dot directories (including the
+ * `.autodev` cache), files of unsupported languages and files rejected by the optional file filter are never reported.
+ */
+export class WorkspaceWatcher implements IDisposable {
+	private watcher: fs.FSWatcher | undefined;
+	private pending = new Set<string>();
+	private timer: NodeJS.Timeout | undefined;
+	private running: Promise<void> = Promise.resolve();
+
+	constructor(
+		private readonly workspacePath: string,
+		private readonly listener: WorkspaceChangeListener,
+		private readonly debounceMs: number = 500,
+		private readonly fileFilter?: (relativePath: string) => boolean,
+	) {
+	}
+
+	start(): void {
+		if (this.watcher) {
+			return;
+		}
+
+		this.watcher = fs.watch(this.workspacePath, { recursive: true }, (_event, fileName) => {
+			if (!fileName) {
+				return;
+			}
+
+			const relativePath = fileName.toString();
+			if (this.isIgnored(relativePath)) {
+				return;
+			}
+
+			this.pending.add(path.join(this.workspacePath, relativePath));
+			this.schedule();
+		});
+	}
+
+	isIgnored(relativePath: string): boolean {
+		const normalized = relativePath.split(path.sep).join('/');
+		if (normalized.split('/').some(segment => segment.startsWith('.'))) {
+			return true;
+		}
+
+		if (defaultIgnoreDir.ignores(normalized) || defaultIgnoreFile.ignores(normalized)) {
+			return true;
+		}
+
+		if (this.fileFilter && !this.fileFilter(normalized)) {
+			return true;
+		}
+
+		return !inferLanguage(normalized);
+	}
+
+	private schedule(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+		}
+
+		this.timer = setTimeout(() => {
+			this.timer = undefined;
+			const changedFiles = Array.from(this.pending);
+			this.pending.clear();
+
+			// batches are processed one after another so the analysis state is never updated concurrently
+			this.running = this.running
+				.then(() => this.listener(changedFiles))
+				.catch(error => console.error('处理文件变更时出错:', error));
+		}, this.debounceMs);
+	}
+
+	dispose(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = undefined;
+		}
+
+		this.watcher?.close();
+		this.watcher = undefined;
+		this.pending.clear();
+	}
+}
@@ -0,0 +1,734 @@
+import fs from "fs";
+import path from "path";
+import { SyntaxNode } from "web-tree-sitter";
+
+import { ILanguageServiceProvider } from "../../base/common/languages/languageService";
+import { LanguageProfileUtil } from "../../code-context/base/LanguageProfileUtil";
+import { CodeFile, CodeFunction, CodeStructure } from "../../codemodel/CodeElement";
+import { ScopeBuilder } from "../../code-search/scope-graph/ScopeBuilder";
+import { ScopeGraph } from "../../code-search/scope-graph/ScopeGraph";
+import { ImportWithRefs } from "../../code-search/scope-graph/model/ImportWithRefs";
+import { CallGraphEdge, CallGraphNode, CallGraphResult } from "../CodeAnalysisResult";
+import { CodeCollector } from "../CodeCollector";
+import { ICodeAnalyzer } from "./ICodeAnalyzer";
+
+const FUNCTION_NODE_TYPES = new Set([
+	'method_declaration',
+	'constructor_declaration',
+	'function_declaration',
+	'generator_function_declaration',
+	'method_definition',
+	'function_definition',
+	'secondary_constructor',
+]);
+
+const CLASS_NODE_TYPES = new Set([
+	'class_declaration',
+	'abstract_class_declaration',
+	'interface_declaration',
+	'enum_declaration',
+	'record_declaration',
+	'object_declaration',
+	'class_definition',
+	'class',
+]);
+
+const NAME_NODE_TYPES = new Set(['identifier', 'simple_identifier', 'type_identifier', 'property_identifier', 'field_identifier']);
+
+const SELF_RECEIVERS = new Set(['this', 'self']);
+
+interface StructureEntry {
+	// same key as the class and interface maps of `CodeCollector`
+	key: string;
+	// prefix of the node ids of its methods
+	owner: string;
+	structure: CodeStructure;
+	codeFile: CodeFile;
+}
+
+interface FileContext {
+	codeFile: CodeFile;
+	rootNode: SyntaxNode;
+	graph: ScopeGraph;
+	imports: ImportWithRefs[];
+	// imports by the start byte of each of their references
+	importsByRef: Map<number, ImportWithRefs>;
+}
+
+interface Caller {
+	id: string;
+	structure?: StructureEntry;
+	classNode?: SyntaxNode;
+}
+
+/**
+ * A receiver resolves either to a type, whose methods are looked up along its parents, or to modules
+ * (a Go package, a Python or TypeScript namespace import) whose top-level functions are looked up.
+ */
+type CallTarget = { structure: StructureEntry } | { files: CodeFile[] };
+
+/**
+ * Builds a workspace-level call graph. Call sites are found with the `callQuery` of each language profile, the
+ * receiver of a call is typed through the file's ScopeGraph (local definitions and `ImportWithRefs`) and class
+ * fields, then resolved to the canonical names collected by `CodeCollector`.
+ *
+ * Calls that cannot be resolved statically (chained calls, untyped receivers, library code) are only counted.
+ */
+export class CallGraphAnalyzer implements ICodeAnalyzer {
+	private languageService: ILanguageServiceProvider;
+	private workspacePath: string = '';
+	private entries: StructureEntry[] = [];
+	private structures = new Map<string, StructureEntry>();
+	private structuresByName = new Map<string, StructureEntry[]>();
+	private codeFiles: CodeFile[] = [];
+	private nodes = new Map<string, CallGraphNode>();
+	// indexes built once per run, so that resolving a call site does not scan all files or structures
+	private entriesByStructure = new Map<CodeStructure, StructureEntry>();
+	private entriesByFile = new Map<CodeFile, StructureEntry[]>();
+	private filesByPackage = new Map<string, CodeFile[]>();
+	private filesByFunction = new Map<string, CodeFile[]>();
+	private filesByModulePath = new Map<string, CodeFile[]>();
+	private filesByModuleSuffix = new Map<string, CodeFile[]>();
+
+	constructor(languageService: ILanguageServiceProvider) {
+		this.languageService = languageService;
+	}
+
+	public async analyze(codeCollector: CodeCollector): Promise<CallGraphResult> {
+		this.buildIndex(codeCollector);
+
+		const edges: CallGraphEdge[] = [];
+		let unresolvedCalls = 0;
+
+		for (const codeFile of this.codeFiles) {
+			const result = await this.analyzeFile(codeFile);
+			edges.push(...result.edges);
+			unresolvedCalls += result.unresolvedCalls;
+		}
+
+		const resolvedCalls = edges.length;
+		edges.push(...this.dispatchEdges());
+
+		const nodes = Array.from(this.nodes.values());
+		return {
+			nodes,
+			edges,
+			stats: {
+				totalNodes: nodes.length,
+				totalEdges: edges.length,
+				resolvedCalls,
+				unresolvedCalls
+			}
+		};
+	}
+
+	private buildIndex(codeCollector: CodeCollector): void {
+		this.workspacePath = codeCollector.getWorkspacePath() || '';
+		this.entries = [];
+		this.structures.clear();
+		this.structuresByName.clear();
+		this.nodes.clear();
+		this.entriesByStructure.clear();
+		this.entriesByFile.clear();
+		this.filesByPackage.clear();
+		this.filesByFunction.clear();
+		this.filesByModulePath.clear();
+		this.filesByModuleSuffix.clear();
+		this.codeFiles = codeCollector.getAllCodeStructure().filter(codeFile => fs.existsSync(codeFile.filepath));
+
+		for (const codeFile of this.codeFiles) {
+			this.indexFile(codeFile);
+
+			for (const structure of codeFile.classes) {
+				const key = structure.canonicalName || `${structure.package}.${structure.name}`;
+				const entry: StructureEntry = {
+					key,
+					owner: key.startsWith('.') ? `${this.relativePath(codeFile)}#${structure.name}` : key,
+					structure,
+					codeFile,
+				};
+
+				this.entries.push(entry);
+				this.entriesByStructure.set(structure, entry);
+				addTo(this.entriesByFile, codeFile, entry);
+				if (!this.structures.has(key)) {
+					this.structures.set(key, entry);
+				}
+				addTo(this.structuresByName, structure.name, entry);
+
+				for (const method of structure.methods || []) {
+					this.addNode(`${entry.owner}.${method.name}`, method, codeFile, structure.name);
+				}
+			}
+
+			for (const func of codeFile.functions || []) {
+				this.addNode(this.functionId(codeFile, func.name), func, codeFile);
+			}
+		}
+	}
+
+	/**
+	 * Index a file by its package, its top-level functions and the module paths an import can name it by
+	 */
+	private indexFile(codeFile: CodeFile): void {
+		if (codeFile.package) {
+			addTo(this.filesByPackage, codeFile.package, codeFile);
+		}
+		for (const name of new Set((codeFile.functions || []).map(func => func.name))) {
+			addTo(this.filesByFunction, name, codeFile);
+		}
+
+		const withoutExtension = normalizePath(codeFile.filepath).replace(/\.\w+$/, '');
+		const modulePaths = new Set([withoutExtension, withoutExtension.replace(/\/(index|__init__)$/, '')]);
+		for (const modulePath of modulePaths) {
+			addTo(this.filesByModulePath, modulePath, codeFile);
+			// every tail of whole segments, `src/order` and `order` for `/repo/src/order`
+			const segments = modulePath.split('/');
+			for (let i = 1; i < segments.length; i++) {
+				addTo(this.filesByModuleSuffix, segments.slice(i).join('/'), codeFile);
+			}
+		}
+	}
+
+	private addNode(id: string, func: CodeFunction, codeFile: CodeFile, className?: string): void {
+		if (this.nodes.has(id)) {
+			return;
+		}
+
+		this.nodes.set(id, {
+			id,
+			name: func.name,
+			className,
+			filePath: codeFile.filepath,
+			position: {
+				start: { row: func.start.row, column: func.start.column },
+				end: { row: func.end.row, column: func.end.column }
+			}
+		});
+	}
+
+	private async analyzeFile(codeFile: CodeFile): Promise<{ edges: CallGraphEdge[], unresolvedCalls: number }> {
+		const edges: CallGraphEdge[] = [];
+		let unresolvedCalls = 0;
+
+		const profile = LanguageProfileUtil.from(codeFile.language);
+		if (!profile?.callQuery) {
+			return { edges, unresolvedCalls };
+		}
+
+		const parser = await this.languageService.getParser(codeFile.language);
+		const language = await this.languageService.getLanguage(codeFile.language);
+		if (!parser || !language) {
+			return { edges, unresolvedCalls };
+		}
+
+		const source = fs.readFileSync(codeFile.filepath, { encoding: 'utf-8' });
+		parser.setLanguage(language);
+		const tree = parser.parse(source);
+
+		try {
+			const graph = await new ScopeBuilder(profile.scopeQuery.query(language), tree.rootNode, source, profile).build();
+			const imports = graph.allImports(source);
+			const importsByRef = new Map<number, ImportWithRefs>();
+			for (const imported of imports) {
+				for (const ref of imported.refs) {
+					importsByRef.set(ref.start.byte, imported);
+				}
+			}
+
+			const context: FileContext = { codeFile, rootNode: tree.rootNode, graph, imports, importsByRef };
+
+			for (const match of profile.callQuery.query(language).matches(tree.rootNode)) {
+				const nameNode = match.captures.find(capture => capture.name === 'call.name')?.node;
+				const receiver = match.captures.find(capture => capture.name === 'call.receiver')?.node;
+				if (!nameNode) {
+					continue;
+				}
+
+				// calls at module level have no caller in the graph
+				const caller = this.enclosingCaller(context, nameNode);
+				if (!caller) {
+					continue;
+				}
+
+				const callee = this.resolveCall(context, caller, nameNode, receiver);
+				if (!callee) {
+					unresolvedCalls++;
+					continue;
+				}
+
+				edges.push({
+					caller: caller.id,
+					callee,
+					kind: 'call',
+					filePath: codeFile.filepath,
+					position: {
+						start: { row: nameNode.startPosition.row, column: nameNode.startPosition.column },
+						end: { row: nameNode.endPosition.row, column: nameNode.endPosition.column }
+					}
+				});
+			}
+		} catch (error) {
+			console.warn(`无法分析文件 ${codeFile.filepath} 的调用关系:`, error);
+		} finally {
+			tree.delete();
+		}
+
+		return { edges, unresolvedCalls };
+	}
+
+	/**
+	 * Find the method or function containing the call site, creating its node when the structurer missed it
+	 */
+	private enclosingCaller(context: FileContext, node: SyntaxNode): Caller | undefined {
+		let functionNode: SyntaxNode | null = node.parent;
+		while (functionNode && !FUNCTION_NODE_TYPES.has(functionNode.type)) {
+			functionNode = functionNode.parent;
+		}
+		if (!functionNode) {
+			return undefined;
+		}
+
+		const functionName = this.nameOf(functionNode);
+		if (!functionName) {
+			return undefined;
+		}
+
+		let classNode: SyntaxNode | null = functionNode.parent;
+		while (classNode && !CLASS_NODE_TYPES.has(classNode.type)) {
+			classNode = classNode.parent;
+		}
+
+		// Go methods are declared outside of the struct, the owner is the receiver type
+		const receiverType = functionNode.childForFieldName('receiver')?.descendantsOfType('type_identifier')[0]?.text;
+		const className = receiverType || (classNode ? this.nameOf(classNode) : undefined);
+		const structure = className
+			? context.codeFile.classes.find(cls => cls.name === className)
+			: undefined;
+
+		const entry = structure ? this.entriesByStructure.get(structure) : undefined;
+		const id = entry ? `${entry.owner}.${functionName}` : this.functionId(context.codeFile, functionName);
+
+		if (!this.nodes.has(id)) {
+			this.nodes.set(id, {
+				id,
+				name: functionName,
+				className: entry?.structure.name,
+				filePath: context.codeFile.filepath,
+				position: {
+					start: { row: functionNode.startPosition.row, column: functionNode.startPosition.column },
+					end: { row: functionNode.endPosition.row, column: functionNode.endPosition.column }
+				}
+			});
+		}
+
+		return { id, structure: entry, classNode: classNode ?? undefined };
+	}
+
+	private resolveCall(context: FileContext, caller: Caller, nameNode: SyntaxNode, receiver?: SyntaxNode): string | undefined {
+		const name = nameNode.text;
+
+		if (!receiver) {
+			const imported = context.importsByRef.get(nameNode.startIndex);
+			if (imported) {
+				return this.resolveImportedFunction(context.codeFile, imported, name);
+			}
+
+			const method = caller.structure ? this.findMethod(caller.structure, name) : undefined;
+			return method ?? this.findFunction(context.codeFile, name);
+		}
+
+		const target = this.resolveReceiver(context, caller, receiver);
+		if (!target) {
+			return undefined;
+		}
+
+		if ('structure' in target) {
+			return this.findMethod(target.structure, name);
+		}
+
+		const file = this.withFunction(target.files, name);
+		return file ? this.functionId(file, name) : undefined;
+	}
+
+	private resolveReceiver(context: FileContext, caller: Caller, receiver: SyntaxNode): CallTarget | undefined {
+		const text = receiver.text;
+		const codeFile = context.codeFile;
+
+		if (SELF_RECEIVERS.has(text)) {
+			return caller.structure ? { structure: caller.structure } : undefined;
+		}
+
+		if (text === 'super') {
+			const parent = caller.structure?.structure.extends?.[0];
+			const entry = parent ? this.resolveType(caller.structure!.codeFile, parent) : undefined;
+			return entry ? { structure: entry } : undefined;
+		}
+
+		// `this.orderService.placeOrder()`, `self.repository.save()`
+		if (receiver.namedChildCount === 2 && SELF_RECEIVERS.has(receiver.namedChildren[0].text)) {
+			const type = this.fieldType(caller, this.lastIdentifier(receiver.namedChildren[1]));
+			const entry = type ? this.resolveType(codeFile, type, context.imports) : undefined;
+			return entry ? { structure: entry } : undefined;
+		}
+
+		if (!NAME_NODE_TYPES.has(receiver.type)) {
+			return undefined;
+		}
+
+		const imported = context.importsByRef.get(receiver.startIndex);
+		if (imported) {
+			return this.resolveImport(codeFile, imported, text);
+		}
+
+		const declaredType = this.declaredTypeOfReference(context, receiver) ?? this.fieldType(caller, text);
+		if (declaredType) {
+			const entry = this.resolveType(codeFile, declaredType, context.imports);
+			return entry ? { structure: entry } : undefined;
+		}
+
+		// Go: `order.PlaceOrder()` where `order` is the last segment of an imported package path
+		if (codeFile.imports.some(imported => imported.split('/').pop() === text)) {
+			return { files: this.filesByPackage.get(text) || [] };
+		}
+
+		// static call like `OrderFactory.create()`
+		if (/^[A-Z]/.test(text)) {
+			const entry = this.resolveType(codeFile, text, context.imports);
+			return entry ? { structure: entry } : undefined;
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Follow a reference to its local definition in the ScopeGraph and read the type it was declared with
+	 */
+	private declaredTypeOfReference(context: FileContext, node: SyntaxNode): string | undefined {
+		const referenceNode = context.graph.nodeByRange(node.startIndex, node.endIndex);
+		if (!referenceNode) {
+			return undefined;
+		}
+
+		const definition = context.graph.definitionOf(referenceNode);
+		if (!definition) {
+			return undefined;
+		}
+
+		const definitionNode = context.rootNode.descendantForIndex(definition.range.start.byte, definition.range.end.byte);
+		let declaration: SyntaxNode | null = definitionNode.parent;
+		for (let depth = 0; declaration && depth < 3; depth++) {
+			if (FUNCTION_NODE_TYPES.has(declaration.type) || /(statement|block|body|lambda)/.test(declaration.type)) {
+				break;
+			}
+
+			const type = this.typeOfDeclaration(declaration);
+			if (type) {
+				return type;
+			}
+
+			declaration = declaration.parent;
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Type of a field, from the parsed structure first, then from declarations and assignments in the class body
+	 */
+	private fieldType(caller: Caller, fieldName: string): string | undefined {
+		const field = caller.structure?.structure.fields?.find(field => field.name === fieldName && field.type);
+		if (field) {
+			return field.type;
+		}
+
+		if (!caller.classNode) {
+			return undefined;
+		}
+
+		const pending: SyntaxNode[] = [...caller.classNode.namedChildren];
+		while (pending.length > 0) {
+			const node = pending.shift()!;
+			const nameNode = node.childForFieldName('name') ?? node.childForFieldName('pattern') ?? node.childForFieldName('left');
+			if (nameNode && !FUNCTION_NODE_TYPES.has(node.type) && this.lastIdentifier(nameNode) === fieldName) {
+				const type = this.typeOfDeclaration(node);
+				if (type) {
+					return type;
+				}
+			}
+
+			pending.push(...node.namedChildren);
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * `Foo x`, `x: Foo`, `var x Foo`, or the constructed type of `x = new Foo()`, `x = Foo()`, `x := &Foo{}`
+	 */
+	private typeOfDeclaration(node: SyntaxNode): string | undefined {
+		const typeNode = node.childForFieldName('type') ?? node.namedChildren.find(child => child.type === 'user_type');
+		if (typeNode) {
+			return this.cleanTypeName(typeNode.text);
+		}
+
+		let value: SyntaxNode | null | undefined = node.childForFieldName('value')
+			?? node.childForFieldName('right')
+			?? node.namedChildren.find(child => child.type === 'call_expression');
+
+		while (value && (value.type === 'expression_list' || value.type === 'unary_expression')) {
+			value = value.childForFieldName('operand') ?? value.namedChildren[0];
+		}
+
+		if (!value) {
+			return undefined;
+		}
+
+		switch (value.type) {
+			case 'new_expression':
+				return value.childForFieldName('constructor')?.text;
+			case 'object_creation_expression':
+			case 'composite_literal':
+				return this.cleanTypeName(value.childForFieldName('type')?.text ?? '') || undefined;
+			case 'call':
+			case 'call_expression': {
+				const constructor = (value.childForFieldName('function') ?? value.namedChildren[0])?.text;
+				return constructor && /^[A-Z]\w*$/.test(constructor) ? constructor : undefined;
+			}
+		}
+
+		return undefined;
+	}
+
+	private cleanTypeName(type: string): string {
+		return type
+			.replace(/^[:\s*&]+/, '')
+			.replace(/[<\[][\s\S]*$/, '')
+			.replace(/\?$/, '')
+			.trim();
+	}
+
+	private resolveType(codeFile: CodeFile, typeName: string, imports: ImportWithRefs[] = []): StructureEntry | undefined {
+		const qualified = this.structures.get(typeName);
+		if (qualified) {
+			return qualified;
+		}
+
+		const simpleName = typeName.split('.').pop()!;
+
+		const imported = imports.find(item => item.name === simpleName);
+		if (imported) {
+			const target = this.resolveImport(codeFile, imported, simpleName);
+			if (target && 'structure' in target) {
+				return target.structure;
+			}
+		}
+
+		const importedName = codeFile.imports.find(item => item === typeName || item.endsWith(`.${simpleName}`));
+		if (importedName && this.structures.has(importedName)) {
+			return this.structures.get(importedName);
+		}
+
+		const sameFile = this.entriesByFile.get(codeFile)?.find(entry => entry.structure.name === simpleName);
+		if (sameFile) {
+			return sameFile;
+		}
+
+		if (codeFile.package && this.structures.has(`${codeFile.package}.${simpleName}`)) {
+			return this.structures.get(`${codeFile.package}.${simpleName}`);
+		}
+
+		// only trust a bare name when it is unique in the workspace
+		const candidates = this.structuresByName.get(simpleName) || [];
+		return candidates.length === 1 ? candidates[0] : undefined;
+	}
+
+	/**
+	 * `import com.example.OrderService;` resolves to a class, `import { OrderService } from './order'` and
+	 * `from order import OrderService` resolve to the class in the module, other imports to the module itself.
+	 */
+	private resolveImport(codeFile: CodeFile, imported: ImportWithRefs, name: string): CallTarget | undefined {
+		const qualifiedName = this.qualifiedImportName(imported);
+		if (qualifiedName && this.structures.has(qualifiedName)) {
+			return { structure: this.structures.get(qualifiedName)! };
+		}
+
+		const files = this.resolveModuleFiles(codeFile, imported.text);
+		for (const file of files) {
+			const entry = this.entriesByFile.get(file)?.find(item => item.structure.name === name);
+			if (entry) {
+				return { structure: entry };
+			}
+		}
+
+		return files.length > 0 ? { files } : undefined;
+	}
+
+	private resolveImportedFunction(codeFile: CodeFile, imported: ImportWithRefs, name: string): string | undefined {
+		// `import static com.example.Orders.create;`
+		const qualifiedName = this.qualifiedImportName(imported);
+		if (qualifiedName) {
+			const owner = this.structures.get(qualifiedName.substring(0, qualifiedName.lastIndexOf('.')));
+			if (owner) {
+				return this.findMethod(owner, name);
+			}
+		}
+
+		const file = this.withFunction(this.resolveModuleFiles(codeFile, imported.text), name);
+		return file ? this.functionId(file, name) : undefined;
+	}
+
+	private qualifiedImportName(imported: ImportWithRefs): string | undefined {
+		const match = imported.text.match(/^import\s+(?:static\s+)?([\w.]+)\s*;?\s*$/);
+		return match && match[1].includes('.') ? match[1] : undefined;
+	}
+
+	/**
+	 * Files of the workspace a TypeScript, JavaScript or Python import statement points to
+	 */
+	private resolveModuleFiles(codeFile: CodeFile, importText: string): CodeFile[] {
+		let modulePath: string | undefined;
+		let relativeTo: string | undefined;
+
+		const quoted = importText.match(/(['"])(.+?)\1/);
+		const pythonImport = importText.match(/^from\s+(\.*)([\w.]*)\s+import/) ?? importText.match(/^import\s+()([\w.]+)/);
+		if (quoted) {
+			modulePath = quoted[2].replace(/^[@~]\//, '');
+			if (modulePath.startsWith('.')) {
+				relativeTo = path.dirname(codeFile.filepath);
+			}
+		} else if (pythonImport && codeFile.language === 'python') {
+			const dots = pythonImport[1].length;
+			modulePath = pythonImport[2].split('.').join('/');
+			if (dots > 0) {
+				relativeTo = path.resolve(path.dirname(codeFile.filepath), ...Array(dots - 1).fill('..'));
+			}
+		}
+
+		if (!modulePath) {
+			return [];
+		}
+
+		const files = relativeTo
+			? this.filesByModulePath.get(normalizePath(path.resolve(relativeTo, modulePath)))
+			: this.filesByModuleSuffix.get(modulePath);
+		return files || [];
+	}
+
+	/**
+	 * The first of the files with a top-level function of the name
+	 */
+	private withFunction(files: CodeFile[], name: string): CodeFile | undefined {
+		const candidates = this.filesByFunction.get(name);
+		return candidates ? files.find(file => candidates.includes(file)) : undefined;
+	}
+
+	/**
+	 * Look a method up in the class and then along its parents
+	 */
+	private findMethod(entry: StructureEntry, name: string, depth: number = 0): string | undefined {
+		if (entry.structure.methods?.some(method => method.name === name)) {
+			return `${entry.owner}.${name}`;
+		}
+
+		if (depth > 10) {
+			return undefined;
+		}
+
+		for (const parent of [...(entry.structure.extends || []), ...(entry.structure.implements || [])]) {
+			const parentEntry = this.resolveType(entry.codeFile, parent);
+			if (parentEntry && parentEntry !== entry) {
+				const method = this.findMethod(parentEntry, name, depth + 1);
+				if (method) {
+					return method;
+				}
+			}
+		}
+
+		return undefined;
+	}
+
+	private findFunction(codeFile: CodeFile, name: string): string | undefined {
+		if (codeFile.functions?.some(func => func.name === name)) {
+			return this.functionId(codeFile, name);
+		}
+
+		// functions of the same Go package are visible without import
+		if (codeFile.package) {
+			const samePackage = this.filesByFunction.get(name)?.find(file => file.package === codeFile.package);
+			if (samePackage) {
+				return this.functionId(samePackage, name);
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Link interface and parent methods to their implementations and overrides, so that a call resolved to
+	 * the declared type also reaches the code that may run at runtime.
+	 */
+	private dispatchEdges(): CallGraphEdge[] {
+		const edges: CallGraphEdge[] = [];
+
+		for (const entry of this.entries) {
+			for (const parent of [...(entry.structure.extends || []), ...(entry.structure.implements || [])]) {
+				const parentEntry = this.resolveType(entry.codeFile, parent);
+				if (!parentEntry || parentEntry === entry) {
+					continue;
+				}
+
+				for (const method of parentEntry.structure.methods || []) {
+					const override = entry.structure.methods?.find(item => item.name === method.name);
+					if (!override) {
+						continue;
+					}
+
+					edges.push({
+						caller: `${parentEntry.owner}.${method.name}`,
+						callee: `${entry.owner}.${override.name}`,
+						kind: 'dispatch',
+						filePath: entry.codeFile.filepath,
+						position: {
+							start: { row: override.start.row, column: override.start.column },
+							end: { row: override.end.row, column: override.end.column }
+						}
+					});
+				}
+			}
+		}
+
+		return edges;
+	}
+
+	private nameOf(node: SyntaxNode): string | undefined {
+		const nameNode = node.childForFieldName('name') ?? node.namedChildren.find(child => NAME_NODE_TYPES.has(child.type));
+		return nameNode?.text;
+	}
+
+	private lastIdentifier(node: SyntaxNode): string {
+		return node.namedChildCount === 0 ? node.text : this.lastIdentifier(node.namedChildren[node.namedChildCount - 1]);
+	}
+
+	private functionId(codeFile: CodeFile, name: string): string {
+		return codeFile.package ? `${codeFile.package}.${name}` : `${this.relativePath(codeFile)}#${name}`;
+	}
+
+	private relativePath(codeFile: CodeFile): string {
+		const relative = this.workspacePath ? path.relative(this.workspacePath, codeFile.filepath) : codeFile.filepath;
+		return relative.split(path.sep).join('/');
+	}
+}
+
+function addTo<K, V>(index: Map<K, V[]>, key: K, value: V): void {
+	const values = index.get(key);
+	if (values) {
+		values.push(value);
+	} else {
+		index.set(key, [value]);
+	}
+}
+
+function normalizePath(file: string): string {
+	return file.split(path.sep).join('/');
+}
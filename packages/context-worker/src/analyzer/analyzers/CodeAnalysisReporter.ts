@@ -1,10 +1,15 @@
 import fs from "fs";
 import path from "path";
 
-import { CodeAnalysisResult, CodeBlock } from "../CodeAnalysisResult";
+import { CodeAnalysisResult, CodeBlock, DeadCodeResult, DocstringChunk, DocumentationSection } from "../CodeAnalysisResult";
 import { FileSystemScanner } from "../FileSystemScanner";
 import { inferLanguage } from "../../base/common/languages/languages";
 import { AppConfig } from "../../types/AppConfig";
+import { CodeCollector } from "../CodeCollector";
+import { ClassDiagramBuilder } from "../ClassDiagramBuilder";
+import { ClassDiagramPresenter } from "../../codemodel/presenter/Presenter";
+import { PlantUMLClassDiagramPresenter } from "../../codemodel/presenter/PlantUMLClassDiagramPresenter";
+import { MermaidClassDiagramPresenter } from "../../codemodel/presenter/MermaidClassDiagramPresenter";
 
 export class CodeAnalysisReporter {
 	private fileScanner: FileSystemScanner;
@@ -75,6 +80,38 @@ export class CodeAnalysisReporter {
 			}
 		}
 
+		// 文档正文，每个文档一个文件
+		if (result.documentation && result.documentation.sections.length > 0) {
+			const docsDir = path.join(targetDir, 'docs');
+			if (!fs.existsSync(docsDir)) {
+				fs.mkdirSync(docsDir, { recursive: true });
+			}
+
+			for (const [filePath, sections] of Object.entries(this.groupByFile(result.documentation.sections))) {
+				const content = sections.map(section => this.generateSectionContent(section)).join('\n');
+				const docFileName = this.sanitizeFileName(`${path.relative(this.config.dirPath, filePath)}.txt`);
+				const docFilePath = path.join(docsDir, docFileName);
+				await fs.promises.writeFile(docFilePath, content);
+				generatedFiles.push(docFilePath);
+			}
+		}
+
+		// 类、方法和函数的文档注释，每个源文件一个文件
+		if (result.documentation && result.documentation.docstrings.length > 0) {
+			const docstringsDir = path.join(targetDir, 'docstrings');
+			if (!fs.existsSync(docstringsDir)) {
+				fs.mkdirSync(docstringsDir, { recursive: true });
+			}
+
+			for (const [filePath, docstrings] of Object.entries(this.groupByFile(result.documentation.docstrings))) {
+				const content = docstrings.map(docstring => this.generateDocstringContent(docstring)).join('\n');
+				const docFileName = this.sanitizeFileName(`${path.relative(this.config.dirPath, filePath)}.txt`);
+				const docFilePath = path.join(docstringsDir, docFileName);
+				await fs.promises.writeFile(docFilePath, content);
+				generatedFiles.push(docFilePath);
+			}
+		}
+
 		// 添加对关键代码标识结果的处理
 		if (result.symbolAnalysis && result.symbolAnalysis.symbols.length > 0) {
 			const symbolsDir = path.join(targetDir, 'symbols');
@@ -93,6 +130,49 @@ export class CodeAnalysisReporter {
 			}
 		}
 
+		// 未被引用的类、方法和函数
+		if (result.deadCode && result.deadCode.unused.length > 0) {
+			const content = this.generateDeadCodeContent(result.deadCode);
+			const filePath = path.join(targetDir, '未使用代码.txt');
+			await fs.promises.writeFile(filePath, content);
+			generatedFiles.push(filePath);
+		}
+
+		return generatedFiles;
+	}
+
+	/**
+	 * 生成整个工作区的 PlantUML 和 Mermaid 类图，以及每个分组的类图，写入输出目录下的 diagrams 目录
+	 */
+	public async generateClassDiagrams(codeCollector: CodeCollector, outputDir?: string): Promise<string[]> {
+		const diagramDir = path.join(outputDir || this.config.outputDir, 'diagrams');
+		const builder = new ClassDiagramBuilder(codeCollector, this.config.diagram);
+
+		const workspace = builder.build();
+		if (workspace.classes.length === 0) {
+			return [];
+		}
+
+		if (!fs.existsSync(diagramDir)) {
+			fs.mkdirSync(diagramDir, { recursive: true });
+		}
+
+		const groups = builder.buildByGroup();
+		const diagrams = groups.length > 1 ? [workspace, ...groups] : [workspace];
+		const presenters: ClassDiagramPresenter[] = [new PlantUMLClassDiagramPresenter(), new MermaidClassDiagramPresenter()];
+
+		const generatedFiles: string[] = [];
+		for (const diagram of diagrams) {
+			for (const presenter of presenters) {
+				// the group of files directly in the workspace root is `.`
+				const name = diagram.name === '.' ? 'root' : diagram.name;
+				const fileName = this.sanitizeFileName(`${name}.${presenter.fileExtension}`);
+				const filePath = path.join(diagramDir, fileName);
+				await fs.promises.writeFile(filePath, presenter.present(diagram));
+				generatedFiles.push(filePath);
+			}
+		}
+
 		return generatedFiles;
 	}
 
@@ -145,9 +225,58 @@ export class CodeAnalysisReporter {
 			}
 		}
 
+		if (result.documentation) {
+			for (const section of result.documentation.sections) {
+				const relativePath = path.relative(scanDir, section.filePath) + (section.heading ? `#${section.heading}` : '');
+				items.push({ path: relativePath, content: this.generateSectionContent(section) });
+			}
+
+			for (const docstring of result.documentation.docstrings) {
+				const relativePath = `${path.relative(scanDir, docstring.filePath)}#${docstring.symbol}`;
+				items.push({ path: relativePath, content: this.generateDocstringContent(docstring) });
+			}
+		}
+
 		return items;
 	}
 
+	/**
+	 * 生成文档章节的内容
+	 */
+	private generateSectionContent(section: DocumentationSection): string {
+		let content = `Source: ${section.filePath}\n`;
+		if (section.heading) {
+			content += `Chapter: ${section.heading}\n`;
+		}
+		content += `Position: Line ${section.position.start.row}-${section.position.end.row}\n`;
+		content += `\nContent:\n\n${section.content}\n`;
+		return content;
+	}
+
+	/**
+	 * 生成文档注释的内容，关联到所属的类、方法或函数
+	 */
+	private generateDocstringContent(docstring: DocstringChunk): string {
+		let content = `Source: ${docstring.filePath}\n`;
+		content += `Symbol: ${docstring.symbol} (${docstring.kind})\n`;
+		content += `Language: ${docstring.language}\n`;
+		content += `Position: Line ${docstring.position.start.row}-${docstring.position.end.row}\n`;
+		content += `\nContent:\n\n${docstring.docstring}\n`;
+		return content;
+	}
+
+	private groupByFile<T extends { filePath: string }>(items: T[]): { [filePath: string]: T[] } {
+		const fileGroups: { [filePath: string]: T[] } = {};
+		for (const item of items) {
+			if (!fileGroups[item.filePath]) {
+				fileGroups[item.filePath] = [];
+			}
+			fileGroups[item.filePath].push(item);
+		}
+
+		return fileGroups;
+	}
+
 	/**
 	 * 生成接口及其实现的内容
 	 */
@@ -307,6 +436,37 @@ export class CodeAnalysisReporter {
 		return content;
 	}
 
+	/**
+	 * 生成未使用代码报告，按文件分组
+	 */
+	private generateDeadCodeContent(deadCode: DeadCodeResult): string {
+		const { stats } = deadCode;
+		let content = '';
+		content += `共 ${stats.totalSymbols} 个符号，其中 ${stats.entryPoints} 个入口点\n`;
+		content += `未被引用: ${stats.unusedClasses} 个类, ${stats.unusedMethods} 个方法, ${stats.unusedFunctions} 个函数\n\n`;
+
+		const fileGroups: { [key: string]: DeadCodeResult['unused'] } = {};
+		for (const item of deadCode.unused) {
+			const relativePath = path.relative(this.config.dirPath, item.filePath);
+			if (!fileGroups[relativePath]) {
+				fileGroups[relativePath] = [];
+			}
+			fileGroups[relativePath].push(item);
+		}
+
+		const kindNames = { class: '类', method: '方法', function: '函数' };
+		for (const [filePath, items] of Object.entries(fileGroups)) {
+			content += `文件: ${filePath}\n`;
+			for (const item of items) {
+				const name = item.className && item.kind === 'method' ? `${item.className}.${item.name}` : item.name;
+				content += `- [${kindNames[item.kind]}] ${name} (第 ${item.position.start.row + 1} 行)\n`;
+			}
+			content += '\n';
+		}
+
+		return content;
+	}
+
 	/**
 	 * 从文件中读取指定位置的代码段
 	 */
@@ -1,3 +1,5 @@
+import fs from "fs";
+import os from "os";
 import path from "path";
 import { ApiResource } from "@autodev/worker-core";
 
@@ -6,17 +8,59 @@ import { inferLanguage } from "../../base/common/languages/languages";
 import { StructurerProviderManager } from "../../code-context/StructurerProviderManager";
 import { InstantiationService } from "../../base/common/instantiation/instantiationService";
 import { CodeFile } from "../../codemodel/CodeElement";
-import { CodeAnalysisResult, CodeBlock } from "../CodeAnalysisResult";
+import { CodeAnalysisResult, CodeBlock, DocstringChunk, DocumentationSection, MarkdownAnalysisResult } from "../CodeAnalysisResult";
 import { FileSystemScanner } from "../FileSystemScanner";
 import { CodeCollector } from "../CodeCollector";
 import { InterfaceAnalyzer } from "./InterfaceAnalyzer";
 import { ClassHierarchyAnalyzer } from "./ClassHierarchyAnalyzer";
 import { ICodeAnalyzer } from "./ICodeAnalyzer";
-import { CodeDocument, MarkdownAnalyser } from "../../document/MarkdownAnalyser";
+import { CodeDocument } from "../../document/MarkdownAnalyser";
+import { documentAnalyserOf } from "../../document/DocumentAnalysers";
+import { DocstringExtractor } from "../../document/DocstringExtractor";
 import { AppConfig } from "../../types/AppConfig";
 import { HttpApiCodeAnalyser } from "./HttpApiCodeAnalyser";
+import { ApiDemand } from "../../code-context/base/HttpApiAnalyser";
 import { SymbolAnalyser } from "./SymbolAnalyser";
+import { CallGraphAnalyzer } from "./CallGraphAnalyzer";
+import { DeadCodeAnalyzer } from "./DeadCodeAnalyzer";
+import { CodeMetricsAnalyzer } from "./CodeMetricsAnalyzer";
+import { TestMappingAnalyzer } from "./TestMappingAnalyzer";
+import { DataModelAnalyzer } from "./DataModelAnalyzer";
 import { CodeAnalysisReporter } from "./CodeAnalysisReporter";
+import { AnalysisCache } from "../AnalysisCache";
+import { listChangedFilesSince } from "../../base/node/git";
+import { createPathFilter } from "../ProjectConfigLoader";
+import { ParseTask, ParseWorkerPool } from "../ParseWorkerPool";
+
+// shorter code blocks of documents, like `npm install`, are kept as documentation but not parsed for structures
+const MIN_PARSED_CODE_BLOCK_LINES = 7;
+
+// below this many files per thread, starting the workers and loading their grammars costs more than it saves
+const MIN_FILES_PER_JOB = 50;
+
+function defaultJobs(): number {
+	return Math.max(1, os.cpus().length - 1);
+}
+
+/**
+ * Logs the parse progress at every 10%
+ */
+function progressReporter(total: number): (done: number, total: number) => void {
+	let reported = 0;
+	return (done: number) => {
+		const percent = Math.floor(done * 10 / total) * 10;
+		if (percent > reported) {
+			reported = percent;
+			console.info(`解析进度 ${done}/${total} (${percent}%)`);
+		}
+	};
+}
+
+interface SourceFile {
+	file: string;
+	content: string;
+	language: string;
+}
 
 export class CodeAnalyzer {
 	private serviceProvider: ILanguageServiceProvider;
@@ -24,20 +68,35 @@ export class CodeAnalyzer {
 	private fileScanner: FileSystemScanner;
 	private codeCollector: CodeCollector;
 	private analyzers: ICodeAnalyzer[];
-	private markdownAnalyser: MarkdownAnalyser;
+	private docstringExtractor: DocstringExtractor;
 	private config: AppConfig;
 	private httpApiAnalyser: HttpApiCodeAnalyser;
 	private symbolAnalyser: SymbolAnalyser;
+	private callGraphAnalyzer: CallGraphAnalyzer;
+	private deadCodeAnalyzer: DeadCodeAnalyzer;
+	private metricsAnalyzer: CodeMetricsAnalyzer;
+	private testMappingAnalyzer: TestMappingAnalyzer;
+	private dataModelAnalyzer: DataModelAnalyzer;
 	private reporter: CodeAnalysisReporter;
+	private cache: AnalysisCache | undefined;
+	private initialized: boolean = false;
 
 	constructor(instantiationService: InstantiationService, config?: Partial<AppConfig>) {
 		this.serviceProvider = instantiationService.get(ILanguageServiceProvider);
 		this.structurerManager = StructurerProviderManager.getInstance();
-		this.fileScanner = new FileSystemScanner();
+		this.fileScanner = new FileSystemScanner(createPathFilter(config));
 		this.codeCollector = new CodeCollector(config.dirPath);
-		this.markdownAnalyser = new MarkdownAnalyser();
+		this.docstringExtractor = new DocstringExtractor();
 		this.httpApiAnalyser = new HttpApiCodeAnalyser(this.serviceProvider);
-		this.symbolAnalyser = new SymbolAnalyser(this.serviceProvider);
+		if (config.cache !== false) {
+			this.cache = new AnalysisCache(config.dirPath, config.cacheDir);
+		}
+		this.symbolAnalyser = new SymbolAnalyser(this.serviceProvider, this.cache);
+		this.callGraphAnalyzer = new CallGraphAnalyzer(this.serviceProvider);
+		this.deadCodeAnalyzer = new DeadCodeAnalyzer();
+		this.metricsAnalyzer = new CodeMetricsAnalyzer(this.serviceProvider);
+		this.testMappingAnalyzer = new TestMappingAnalyzer();
+		this.dataModelAnalyzer = new DataModelAnalyzer();
 
 		this.analyzers = [
 			new InterfaceAnalyzer(),
@@ -53,7 +112,7 @@ export class CodeAnalyzer {
 	}
 
 	private filesInDir: string[] = [];
-	private markdownFilesInDir: string[] = [];
+	private documentFilesInDir: string[] = [];
 
 	/**
 	 * Initialize and parse files in the directory
@@ -63,51 +122,155 @@ export class CodeAnalyzer {
 	public async initializeFiles(fileFilter?: (fileName: string) => boolean): Promise<CodeFile[]> {
 		await this.serviceProvider.ready();
 		const allFiles = await this.fileScanner.scanDirectory(this.config.dirPath);
+		const changedFiles = await this.resolveChangedFiles();
 
 		this.filesInDir = [];
-		this.markdownFilesInDir = [];
+		this.documentFilesInDir = [];
+		this.codeCollector = new CodeCollector(this.config.dirPath);
 
 		for (const file of allFiles) {
 			if (fileFilter && !fileFilter(file)) {
 				continue;
 			}
 
-			if (path.extname(file).toLowerCase() === '.md') {
-				this.markdownFilesInDir.push(file);
+			if (documentAnalyserOf(file)) {
+				// documents are cheap to analyse, so a --since run keeps all of them in the document context
+				this.documentFilesInDir.push(file);
 			} else {
 				this.filesInDir.push(file);
 			}
 		}
 
-		return await this.parseCodeStructures(this.filesInDir);
+		const codeFiles = await this.parseCodeStructures(this.filesInDir, changedFiles);
+		this.initialized = true;
+		return codeFiles;
+	}
+
+	/**
+	 * Scan and parse the directory only once, so that the interface, API and symbol passes share the same result
+	 */
+	public async ensureInitialized(): Promise<void> {
+		if (!this.initialized) {
+			await this.initializeFiles();
+		}
+	}
+
+	/**
+	 * Files changed since `config.since`, or undefined when every file should be analysed
+	 */
+	private async resolveChangedFiles(): Promise<Set<string> | undefined> {
+		if (!this.config.since) {
+			return undefined;
+		}
+
+		try {
+			const changedFiles = await listChangedFilesSince(this.config.dirPath, this.config.since);
+			console.info(`Found ${changedFiles.length} files changed since ${this.config.since}`);
+			return new Set(changedFiles);
+		} catch (error) {
+			console.warn(`无法获取 ${this.config.since} 以来的变更文件，将分析全部文件:`, error);
+			return undefined;
+		}
 	}
 
 	public async analyzeDirectory(): Promise<CodeAnalysisResult> {
-		const [interfaceAnalysis, extensionAnalysis] = await Promise.all([
-			this.analyzers[0].analyze(this.codeCollector),
-			this.analyzers[1].analyze(this.codeCollector)
-		]);
+		const { interfaceAnalysis, extensionAnalysis } = await this.analyzeRelationships();
 
-		const markdownAnalysisResult = await this.analyzeMarkdownFiles(this.markdownFilesInDir);
+		const { markdownAnalysis, sections } = await this.analyzeDocumentFiles(this.documentFilesInDir);
+		const docstrings = await this.analyzeDocstrings();
 		const symbolAnalysisResult = await this.symbolAnalyser.analyze(this.codeCollector);
+		const callGraph = this.isEnabled('callGraph') ? await this.callGraphAnalyzer.analyze(this.codeCollector) : undefined;
+		const deadCode = this.isEnabled('deadCode') ? await this.deadCodeAnalyzer.analyze(this.codeCollector) : undefined;
+		const metrics = this.isEnabled('metrics') ? await this.metricsAnalyzer.analyze(this.codeCollector) : undefined;
+		const testMapping = this.isEnabled('testMapping') ? await this.testMappingAnalyzer.analyze(this.codeCollector) : undefined;
+		const dataModel = this.isEnabled('dataModel') ? await this.dataModelAnalyzer.analyze(this.codeCollector) : undefined;
 
 		return {
 			interfaceAnalysis,
 			extensionAnalysis,
-			markdownAnalysis: markdownAnalysisResult,
-			symbolAnalysis: symbolAnalysisResult
+			markdownAnalysis,
+			documentation: {
+				sections,
+				docstrings,
+				stats: {
+					documentFiles: this.documentFilesInDir.length,
+					totalSections: sections.length,
+					totalDocstrings: docstrings.length
+				}
+			},
+			symbolAnalysis: symbolAnalysisResult,
+			callGraph,
+			deadCode,
+			metrics,
+			testMapping,
+			dataModel
 		};
 	}
 
-	async parseCodeStructures(files: string[]): Promise<CodeFile[]> {
+	/**
+	 * The optional passes of the interface analysis are on unless the config turns them off
+	 */
+	private isEnabled(type: 'deadCode' | 'metrics' | 'testMapping' | 'dataModel' | 'callGraph'): boolean {
+		return this.config.analysisTypes?.[type] !== false;
+	}
+
+	/**
+	 * Interface and class hierarchy analysis only, cheap enough to re-run after every change in watch mode
+	 */
+	public async analyzeRelationships(): Promise<CodeAnalysisResult> {
+		const [interfaceAnalysis, extensionAnalysis] = await Promise.all([
+			this.analyzers[0].analyze(this.codeCollector),
+			this.analyzers[1].analyze(this.codeCollector)
+		]);
+
+		return { interfaceAnalysis, extensionAnalysis };
+	}
+
+	/**
+	 * Re-parse changed files and drop deleted ones from the code collector
+	 * @param files absolute paths of files that were created, modified or deleted
+	 */
+	public async refreshFiles(files: string[]): Promise<void> {
+		for (const file of files) {
+			this.codeCollector.removeCodeFile(file);
+			if (!fs.existsSync(file)) {
+				continue;
+			}
+
+			const language = this.codeCollector.inferLanguage(file);
+			if (!language || !this.structurerManager.getStructurer(language)) {
+				continue;
+			}
+
+			try {
+				const content = await this.fileScanner.readFileContent(file);
+				const codeFile = await this.parseFile(file, content, language);
+				this.codeCollector.addFile(file);
+				this.codeCollector.addCodeFile(file, codeFile);
+			} catch (error) {
+				console.error(`解析文件 ${file} 时出错:`, error);
+			}
+		}
+
+		await this.cache?.flush();
+	}
+
+	/**
+	 * @param changedFiles when given, the files of the `--since` git diff. The other files are still checked against
+	 * the cache by their content hash and parsed when it misses, as uncommitted edits, another branch or a stale cache
+	 * change files outside the diff too.
+	 */
+	async parseCodeStructures(files: string[], changedFiles?: Set<string>): Promise<CodeFile[]> {
 		const supportedFiles = await this.getSupportedFiles(files);
 		this.codeCollector.setAllFiles(supportedFiles)
-		return await this.parseFiles(supportedFiles);
+		const codeFiles = await this.parseFiles(supportedFiles, changedFiles);
+		await this.cache?.flush();
+		return codeFiles;
 	}
 
-	private async getSupportedFiles(files: string[]): Promise<{file: string, content: string, language: string}[]> {
+	private async getSupportedFiles(files: string[]): Promise<SourceFile[]> {
 		const silentExtensions = ['.svg', '.json', '.png', '.jpg', '.jpeg', '.gif', '.ico', '.ttf', '.woff', '.woff2', '.eot', '.css', '.scss', '.less'];
-		const supportedFiles: {file: string, content: string, language: string}[] = [];
+		const supportedFiles: SourceFile[] = [];
 
 		for (const file of files) {
 			try {
@@ -137,36 +300,137 @@ export class CodeAnalyzer {
 		return supportedFiles;
 	}
 
-	private async parseFiles(supportedFiles: {file: string, content: string, language: string}[]): Promise<CodeFile[]> {
-		const parsedFiles: CodeFile[] = [];
+	/**
+	 * Parse the files which are not in the cache, on the worker pool when there are enough of them, and add every
+	 * structure to the collector in the order of the files
+	 */
+	private async parseFiles(supportedFiles: SourceFile[], changedFiles?: Set<string>): Promise<CodeFile[]> {
+		const codeFiles: (CodeFile | undefined)[] = new Array(supportedFiles.length);
+		const hashes: string[] = new Array(supportedFiles.length);
+		const pending: number[] = [];
+
+		supportedFiles.forEach(({ file, content }, index) => {
+			hashes[index] = this.cache ? AnalysisCache.hashContent(content) : '';
+			codeFiles[index] = this.cache?.getCodeFile(file, hashes[index]);
+			if (!codeFiles[index]) {
+				pending.push(index);
+			}
+		});
 
-		for (const { file, content, language } of supportedFiles) {
-			try {
-				const structurer = this.structurerManager.getStructurer(language);
-				await structurer.init(this.serviceProvider);
-				const codeFile: CodeFile = await structurer.parseFile(content, file);
+		if (changedFiles) {
+			const outsideDiff = pending.filter(index => !changedFiles.has(supportedFiles[index].file)).length;
+			if (outsideDiff > 0) {
+				console.info(`${outsideDiff} files outside the ${this.config.since} diff are not cached or have changed, parsing them too`);
+			}
+		}
 
-				this.codeCollector.addCodeFile(file, codeFile);
+		const tasks: ParseTask[] = pending.map(index => supportedFiles[index]);
+		const parsed = await this.parseTasks(tasks);
+		pending.forEach((index, taskIndex) => {
+			const codeFile = parsed[taskIndex];
+			if (codeFile) {
+				codeFiles[index] = codeFile;
+				this.cache?.setCodeFile(supportedFiles[index].file, hashes[index], codeFile);
+			}
+		});
+
+		const parsedFiles: CodeFile[] = [];
+		codeFiles.forEach((codeFile, index) => {
+			if (codeFile) {
+				this.codeCollector.addCodeFile(supportedFiles[index].file, codeFile);
 				parsedFiles.push(codeFile);
-			} catch (error) {
-				console.error(`解析文件 ${file} 时出错:`, error);
 			}
-		}
+		});
 
 		return parsedFiles;
 	}
 
-	private async analyzeMarkdownFiles(markdownFiles: string[]): Promise<any> {
-		const allCodeBlocks: any[] = [];
+	private async parseTasks(tasks: ParseTask[]): Promise<(CodeFile | undefined)[]> {
+		// an explicit --jobs is taken as is, the default only spreads large projects over the cores
+		const jobs = this.config.jobs ?? Math.min(defaultJobs(), Math.floor(tasks.length / MIN_FILES_PER_JOB));
+		const reportProgress = progressReporter(tasks.length);
 
-		for (const file of markdownFiles) {
+		if (jobs > 1 && ParseWorkerPool.isAvailable()) {
+			console.info(`使用 ${jobs} 个线程解析 ${tasks.length} 个文件`);
+			const pool = new ParseWorkerPool(jobs, this.config.dirPath, this.config.allowPlugins);
 			try {
+				return await pool.parseAll(tasks, reportProgress, task => this.parseOnMainThread(task));
+			} finally {
+				pool.dispose();
+			}
+		}
+
+		const results: (CodeFile | undefined)[] = [];
+		for (const task of tasks) {
+			results.push(await this.parseOnMainThread(task));
+			reportProgress(results.length, tasks.length);
+		}
+
+		return results;
+	}
+
+	private async parseOnMainThread({ file, content, language }: ParseTask): Promise<CodeFile | undefined> {
+		try {
+			const structurer = this.structurerManager.getStructurer(language);
+			await structurer.init(this.serviceProvider);
+			return await structurer.parseFile(content, file);
+		} catch (error) {
+			console.error(`解析文件 ${file} 时出错:`, error);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Parse a single file, reusing the cached structure when the content hash is unchanged
+	 */
+	private async parseFile(file: string, content: string, language: string): Promise<CodeFile> {
+		const hash = this.cache ? AnalysisCache.hashContent(content) : '';
+		const cached = this.cache?.getCodeFile(file, hash);
+		if (cached) {
+			return cached;
+		}
+
+		const structurer = this.structurerManager.getStructurer(language);
+		await structurer.init(this.serviceProvider);
+		const codeFile: CodeFile = await structurer.parseFile(content, file);
+		if (codeFile) {
+			this.cache?.setCodeFile(file, hash, codeFile);
+		}
+
+		return codeFile;
+	}
+
+	/**
+	 * Collect the code blocks and the prose sections of the markdown, MDX, reStructuredText and AsciiDoc files
+	 */
+	private async analyzeDocumentFiles(documentFiles: string[]): Promise<{
+		markdownAnalysis: MarkdownAnalysisResult;
+		sections: DocumentationSection[]
+	}> {
+		const allCodeBlocks: CodeBlock[] = [];
+		const allSections: DocumentationSection[] = [];
+
+		for (const file of documentFiles) {
+			try {
+				const analyser = documentAnalyserOf(file)!;
 				const content: string = await this.fileScanner.readFileContent(file);
-				const codeDocuments: CodeDocument[] = await this.markdownAnalyser.parse(content);
+				const codeDocuments: CodeDocument[] = await analyser.parse(content);
+
+				for (const section of await analyser.sections(content)) {
+					allSections.push({
+						filePath: file,
+						heading: section.heading,
+						content: section.content,
+						position: {
+							start: { row: section.startLine, column: 0 },
+							end: { row: section.endLine, column: 0 }
+						}
+					});
+				}
 
 				for (const doc of codeDocuments) {
 					const codeLineCount = doc.code ? doc.code.split('\n').length : 0;
-					if (codeLineCount <= 6) {
+					if (codeLineCount === 0 || !doc.code.trim()) {
 						continue;
 					}
 
@@ -207,7 +471,7 @@ export class CodeAnalyzer {
 						}
 					});
 
-					if (inferLanguage(`.${doc.language}`) && doc.code) {
+					if (inferLanguage(`.${doc.language}`) && codeLineCount >= MIN_PARSED_CODE_BLOCK_LINES) {
 						try {
 							const structurer = this.structurerManager.getStructurer(inferLanguage(`.${doc.language}`));
 							if (structurer) {
@@ -217,23 +481,49 @@ export class CodeAnalyzer {
 								this.codeCollector.addCodeFile(virtualFilePath, codeFile);
 							}
 						} catch (error) {
-							console.warn(`无法分析 Markdown 文件 ${file} 中的代码块:`, error);
+							console.warn(`无法分析文档 ${file} 中的代码块:`, error);
 						}
 					}
 				}
 			} catch (error) {
-				console.error(`处理 Markdown 文件 ${file} 时出错:`, error);
+				console.error(`处理文档 ${file} 时出错:`, error);
 			}
 		}
 
 		return {
-			codeBlocks: allCodeBlocks,
-			totalCount: allCodeBlocks.length
+			markdownAnalysis: {
+				codeBlocks: allCodeBlocks,
+				totalCount: allCodeBlocks.length
+			},
+			sections: allSections
 		};
 	}
 
+	/**
+	 * Collect the Javadoc, JSDoc and docstrings of the parsed source files, code blocks of documents are skipped
+	 */
+	private async analyzeDocstrings(): Promise<DocstringChunk[]> {
+		const docstrings: DocstringChunk[] = [];
+		for (const codeFile of this.codeCollector.getAllCodeStructure()) {
+			if (!codeFile.filepath || documentAnalyserOf(codeFile.filepath.split('#')[0]) || !fs.existsSync(codeFile.filepath)) {
+				continue;
+			}
+
+			try {
+				const content = await this.fileScanner.readFileContent(codeFile.filepath);
+				docstrings.push(...this.docstringExtractor.extract(codeFile, content));
+			} catch (error) {
+				console.warn(`无法提取 ${codeFile.filepath} 的文档注释:`, error);
+			}
+		}
+
+		return docstrings;
+	}
+
 	public async generateLearningMaterials(result: CodeAnalysisResult, outputDir?: string): Promise<string[]> {
-		return this.reporter.generateLearningMaterials(result, outputDir);
+		const materials = await this.reporter.generateLearningMaterials(result, outputDir);
+		const diagrams = await this.reporter.generateClassDiagrams(this.codeCollector, outputDir);
+		return [...materials, ...diagrams];
 	}
 
 	public async convertToList(result: CodeAnalysisResult, targetDir?: string): Promise<{
@@ -247,8 +537,24 @@ export class CodeAnalyzer {
 		return this.httpApiAnalyser.analyze(this.codeCollector);
 	}
 
+	analyzeApiByFile(): Promise<Map<string, ApiResource[]>> {
+		return this.httpApiAnalyser.analyzeByFile(this.codeCollector);
+	}
+
+	analyzeApiDemands(): Promise<ApiDemand[]> {
+		return this.httpApiAnalyser.analyzeDemands(this.codeCollector);
+	}
+
+	analyzeApiFile(file: string): Promise<ApiResource[]> {
+		return this.httpApiAnalyser.analyzeFile(this.codeCollector, file);
+	}
+
 	public getCodeCollector(): CodeCollector {
 		return this.codeCollector;
 	}
+
+	public getAnalysisCache(): AnalysisCache | undefined {
+		return this.cache;
+	}
 }
 
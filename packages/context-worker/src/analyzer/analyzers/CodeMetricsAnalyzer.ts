@@ -0,0 +1,381 @@
+import fs from "fs";
+import path from "path";
+import { SyntaxNode } from "web-tree-sitter";
+
+import { ILanguageServiceProvider } from "../../base/common/languages/languageService";
+import { CodeFile, CodeFunction, CodeStructure } from "../../codemodel/CodeElement";
+import { CodeMetricsResult, FunctionMetrics, PackageMetrics } from "../CodeAnalysisResult";
+import { CodeCollector } from "../CodeCollector";
+import { ICodeAnalyzer } from "./ICodeAnalyzer";
+
+// branches, loops, cases and handlers of the supported grammars, each adds one path through the function
+const DECISION_NODE_TYPES = new Set([
+	'if_statement',
+	'if_expression',
+	'elif_clause',
+	'for_statement',
+	'enhanced_for_statement',
+	'for_in_statement',
+	'for_expression',
+	'foreach_statement',
+	'while_statement',
+	'while_expression',
+	'do_statement',
+	'do_while_statement',
+	'loop_expression',
+	'catch_clause',
+	'except_clause',
+	'switch_case',
+	'expression_case',
+	'type_case',
+	'communication_case',
+	'switch_block_statement_group',
+	'switch_rule',
+	'switch_section',
+	'case_clause',
+	'when_entry',
+	'match_arm',
+	'ternary_expression',
+	'conditional_expression',
+	'elvis_expression',
+]);
+
+// `&&`, `||` and `??` are short-circuit branches too
+const BOOLEAN_OPERATORS = new Set(['&&', '||', '??', 'and', 'or']);
+const BOOLEAN_NODE_TYPES = new Set(['boolean_operator', 'conjunction_expression', 'disjunction_expression']);
+
+// the statements which nest their body one level deeper
+const NESTING_NODE_TYPES = new Set([
+	'if_statement',
+	'if_expression',
+	'for_statement',
+	'enhanced_for_statement',
+	'for_in_statement',
+	'for_expression',
+	'foreach_statement',
+	'while_statement',
+	'while_expression',
+	'do_statement',
+	'do_while_statement',
+	'loop_expression',
+	'switch_statement',
+	'switch_expression',
+	'expression_switch_statement',
+	'type_switch_statement',
+	'select_statement',
+	'match_statement',
+	'match_expression',
+	'when_expression',
+	'try_statement',
+	'try_expression',
+	'catch_clause',
+	'except_clause',
+	'with_statement',
+]);
+
+// languages whose packages are directories, the `package` clause of Go is only the last segment
+const DIRECTORY_PACKAGE_LANGUAGES = new Set(['go']);
+
+interface PackageEntry {
+	name: string;
+	files: CodeFile[];
+	dependencies: Set<string>;
+}
+
+/**
+ * Size, complexity and coupling metrics of the workspace:
+ *
+ * - per function and method, the cyclomatic complexity (one plus every branch, loop, case, handler and short-circuit
+ *   operator), the deepest nesting of control statements, lines of code and parameter count, measured on the
+ *   tree-sitter tree of the file
+ * - per package, the afferent coupling Ca (packages which import it), the efferent coupling Ce (packages it imports)
+ *   and the instability Ce / (Ca + Ce). Files without a package use their directory, imports of libraries are skipped.
+ */
+export class CodeMetricsAnalyzer implements ICodeAnalyzer {
+	private languageService: ILanguageServiceProvider;
+	private workspacePath: string = '';
+
+	constructor(languageService: ILanguageServiceProvider) {
+		this.languageService = languageService;
+	}
+
+	public async analyze(codeCollector: CodeCollector): Promise<CodeMetricsResult> {
+		this.workspacePath = codeCollector.getWorkspacePath() || '';
+		// code blocks of documents are parsed under a virtual path, like `README.md#Code block at line 3-9.java`
+		const codeFiles = codeCollector.getAllCodeStructure().filter(codeFile => fs.existsSync(codeFile.filepath));
+
+		const functions: FunctionMetrics[] = [];
+		for (const codeFile of codeFiles) {
+			try {
+				functions.push(...await this.analyzeFile(codeFile));
+			} catch (error) {
+				console.warn(`无法计算 ${codeFile.filepath} 的代码度量:`, error);
+			}
+		}
+
+		const packages = this.analyzePackages(codeFiles, functions);
+		const complexities = functions.map(func => func.cyclomaticComplexity);
+		const totalComplexity = complexities.reduce((sum, complexity) => sum + complexity, 0);
+
+		return {
+			functions,
+			packages,
+			stats: {
+				totalFunctions: functions.length,
+				totalPackages: packages.length,
+				totalLoc: functions.reduce((sum, func) => sum + func.loc, 0),
+				averageComplexity: functions.length > 0 ? this.round(totalComplexity / functions.length) : 0,
+				maxComplexity: complexities.length > 0 ? Math.max(...complexities) : 0,
+				complexFunctions: complexities.filter(complexity => complexity > 10).length,
+			}
+		};
+	}
+
+	private async analyzeFile(codeFile: CodeFile): Promise<FunctionMetrics[]> {
+		const parser = await this.languageService.getParser(codeFile.language);
+		const language = await this.languageService.getLanguage(codeFile.language);
+		if (!parser || !language) {
+			return [];
+		}
+
+		const source = fs.readFileSync(codeFile.filepath, { encoding: 'utf-8' });
+		parser.setLanguage(language);
+		const tree = parser.parse(source);
+		const relativePath = this.relativePath(codeFile.filepath);
+
+		const metrics: FunctionMetrics[] = [];
+		const visit = (structure: CodeStructure) => {
+			const owner = this.ownerId(codeFile, structure);
+			for (const method of structure.methods || []) {
+				metrics.push(this.functionMetricsOf(tree.rootNode, codeFile, method, `${owner}.${method.name}`, structure.name));
+			}
+			structure.classes?.forEach(visit);
+		};
+
+		codeFile.classes.forEach(visit);
+		for (const func of codeFile.functions || []) {
+			const id = codeFile.package ? `${codeFile.package}.${func.name}` : `${relativePath}#${func.name}`;
+			metrics.push(this.functionMetricsOf(tree.rootNode, codeFile, func, id));
+		}
+
+		tree.delete();
+		return metrics;
+	}
+
+	private functionMetricsOf(root: SyntaxNode, codeFile: CodeFile, func: CodeFunction, id: string, className?: string): FunctionMetrics {
+		let node = root.descendantForPosition(func.start, func.end);
+		// `export function` of TypeScript and decorated functions of Python wrap the declaration
+		node = node.childForFieldName('declaration') ?? node.childForFieldName('definition') ?? node;
+
+		return {
+			id,
+			name: func.name,
+			className,
+			filePath: codeFile.filepath,
+			language: codeFile.language,
+			cyclomaticComplexity: 1 + this.decisionsOf(node),
+			maxNestingDepth: this.nestingDepthOf(node, 0),
+			loc: func.end.row - func.start.row + 1,
+			sloc: this.codeRowsOf(node).size,
+			parameterCount: this.parameterCountOf(node) ?? func.parameters?.length ?? 0,
+			position: {
+				start: { row: func.start.row, column: func.start.column },
+				end: { row: func.end.row, column: func.end.column }
+			}
+		};
+	}
+
+	private decisionsOf(node: SyntaxNode): number {
+		let decisions = 0;
+		if (DECISION_NODE_TYPES.has(node.type) || BOOLEAN_NODE_TYPES.has(node.type)) {
+			// the `default:` group of a Java switch is not a branch of its own
+			decisions += node.type.startsWith('switch_') && node.text.startsWith('default') ? 0 : 1;
+		} else if (node.type === 'binary_expression') {
+			const operator = node.childForFieldName('operator')?.type ?? node.child(1)?.type;
+			decisions += operator && BOOLEAN_OPERATORS.has(operator) ? 1 : 0;
+		}
+
+		for (const child of node.namedChildren) {
+			decisions += this.decisionsOf(child);
+		}
+
+		return decisions;
+	}
+
+	/**
+	 * Parameters of the declaration in the tree, as not every structurer collects them. `self` and `cls` of Python
+	 * methods are not counted.
+	 */
+	private parameterCountOf(node: SyntaxNode): number | undefined {
+		const parameters = node.childForFieldName('parameters');
+		if (!parameters) {
+			return undefined;
+		}
+
+		return parameters.namedChildren
+			.filter(parameter => !parameter.type.includes('comment'))
+			.filter(parameter => !(parameter.type === 'identifier' && (parameter.text === 'self' || parameter.text === 'cls')))
+			.length;
+	}
+
+	/**
+	 * An `else if` continues the chain of its `if` instead of nesting in it
+	 */
+	private nestingDepthOf(node: SyntaxNode, depth: number): number {
+		let current = depth;
+		if (NESTING_NODE_TYPES.has(node.type) && !this.isElseIf(node)) {
+			current++;
+		}
+
+		let max = current;
+		for (const child of node.namedChildren) {
+			max = Math.max(max, this.nestingDepthOf(child, current));
+		}
+
+		return max;
+	}
+
+	private isElseIf(node: SyntaxNode): boolean {
+		const parent = node.parent;
+		if (!parent || !node.type.startsWith('if_')) {
+			return false;
+		}
+
+		return parent.type === 'else_clause' || parent.type === 'else' ||
+			(parent.type === node.type && parent.childForFieldName('alternative')?.id === node.id);
+	}
+
+	/**
+	 * Rows with at least one token which is not a comment, multi-line strings count for each of their rows
+	 */
+	private codeRowsOf(node: SyntaxNode): Set<number> {
+		const rows = new Set<number>();
+		const visit = (current: SyntaxNode) => {
+			if (current.type.includes('comment')) {
+				return;
+			}
+
+			if (current.childCount === 0) {
+				for (let row = current.startPosition.row; row <= current.endPosition.row; row++) {
+					rows.add(row);
+				}
+				return;
+			}
+
+			for (const child of current.children) {
+				visit(child);
+			}
+		};
+
+		visit(node);
+		return rows;
+	}
+
+	private analyzePackages(codeFiles: CodeFile[], functions: FunctionMetrics[]): PackageMetrics[] {
+		const packages = new Map<string, PackageEntry>();
+		for (const codeFile of codeFiles) {
+			const name = this.packageOf(codeFile);
+			const entry = packages.get(name) ?? { name, files: [], dependencies: new Set<string>() };
+			entry.files.push(codeFile);
+			packages.set(name, entry);
+		}
+
+		const names = Array.from(packages.keys());
+		for (const entry of packages.values()) {
+			for (const codeFile of entry.files) {
+				for (const imported of codeFile.imports) {
+					const dependency = this.resolveImport(codeFile, imported, names);
+					if (dependency && dependency !== entry.name) {
+						entry.dependencies.add(dependency);
+					}
+				}
+			}
+		}
+
+		const functionsByFile = new Map<string, FunctionMetrics[]>();
+		for (const func of functions) {
+			functionsByFile.set(func.filePath, [...(functionsByFile.get(func.filePath) ?? []), func]);
+		}
+
+		return Array.from(packages.values()).map(entry => {
+			const afferent = Array.from(packages.values()).filter(other => other.dependencies.has(entry.name)).length;
+			const efferent = entry.dependencies.size;
+			const packageFunctions = entry.files.flatMap(codeFile => functionsByFile.get(codeFile.filepath) ?? []);
+
+			return {
+				name: entry.name,
+				files: entry.files.length,
+				classes: entry.files.reduce((sum, codeFile) => sum + codeFile.classes.length, 0),
+				functions: packageFunctions.length,
+				loc: packageFunctions.reduce((sum, func) => sum + func.loc, 0),
+				averageComplexity: packageFunctions.length > 0
+					? this.round(packageFunctions.reduce((sum, func) => sum + func.cyclomaticComplexity, 0) / packageFunctions.length)
+					: 0,
+				afferentCoupling: afferent,
+				efferentCoupling: efferent,
+				instability: afferent + efferent > 0 ? this.round(efferent / (afferent + efferent)) : 0,
+				dependencies: Array.from(entry.dependencies).sort(),
+			};
+		}).sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * `com.example.order`, or the workspace relative directory like `src/order` for languages without packages
+	 */
+	private packageOf(codeFile: CodeFile): string {
+		if (codeFile.package && !DIRECTORY_PACKAGE_LANGUAGES.has(codeFile.language)) {
+			return codeFile.package;
+		}
+
+		return this.relativePath(path.dirname(codeFile.filepath)) || '.';
+	}
+
+	/**
+	 * The workspace package of an import, undefined for libraries
+	 */
+	private resolveImport(codeFile: CodeFile, imported: string, packages: string[]): string | undefined {
+		const spec = imported.replace(/^['"`]|['"`]$/g, '').replace(/^static\s+/, '').replace(/\.\*$/, '');
+
+		if (codeFile.package && !DIRECTORY_PACKAGE_LANGUAGES.has(codeFile.language)) {
+			// the longest package which is the import itself or a prefix of it, like `com.example.order` of `com.example.order.Order`
+			return packages
+				.filter(pkg => spec === pkg || spec.startsWith(`${pkg}.`))
+				.sort((a, b) => b.length - a.length)[0];
+		}
+
+		if (codeFile.language === 'go') {
+			return packages.find(pkg => pkg !== '.' && (spec === pkg || spec.endsWith(`/${pkg}`)));
+		}
+
+		let target: string;
+		if (spec.startsWith('.')) {
+			// `./order` and `../order/service`, or `.models` and `..models` of Python
+			const relative = codeFile.language === 'python'
+				? spec.replace(/^(\.+)(.*)$/, (_, dots: string, rest: string) => ['.', ...Array(dots.length - 1).fill('..'), ...rest.split('.').filter(Boolean)].join('/'))
+				: spec;
+			target = this.relativePath(path.resolve(path.dirname(codeFile.filepath), relative));
+		} else if (codeFile.language === 'python') {
+			target = spec.split('.').join('/');
+		} else {
+			return undefined;
+		}
+
+		// a directory of the workspace, or a file whose directory is one
+		const directory = target.includes('/') ? target.substring(0, target.lastIndexOf('/')) : '.';
+		return packages.includes(target) ? target : packages.includes(directory) ? directory : undefined;
+	}
+
+	private ownerId(codeFile: CodeFile, structure: CodeStructure): string {
+		const key = structure.canonicalName || `${structure.package}.${structure.name}`;
+		return key.startsWith('.') ? `${this.relativePath(codeFile.filepath)}#${structure.name}` : key;
+	}
+
+	private relativePath(filePath: string): string {
+		const relative = this.workspacePath ? path.relative(this.workspacePath, filePath) : filePath;
+		return relative.split(path.sep).join('/');
+	}
+
+	private round(value: number): number {
+		return Math.round(value * 100) / 100;
+	}
+}
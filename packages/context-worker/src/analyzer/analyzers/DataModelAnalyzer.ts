@@ -0,0 +1,261 @@
+import fs from "fs";
+import path from "path";
+
+import { DataModelResult, DataModelSource, DataRelationship, DataTable } from "../CodeAnalysisResult";
+import { CodeCollector } from "../CodeCollector";
+import { FileSystemScanner } from "../FileSystemScanner";
+import { isTestFile } from "../TestFiles";
+import { ICodeAnalyzer } from "./ICodeAnalyzer";
+import { ParsedRelation, ParsedTable } from "../../datamodel/DataModel";
+import { OrmEntityExtractor } from "../../datamodel/OrmEntityExtractor";
+import { PrismaSchemaParser } from "../../datamodel/PrismaSchemaParser";
+import { MigrationSchema } from "../../datamodel/MigrationSchema";
+import { SqlDdlParser } from "../../datamodel/SqlDdlParser";
+import { isLiquibaseChangelog, LiquibaseChangelogParser } from "../../datamodel/LiquibaseChangelogParser";
+import { ErDiagramBuilder } from "../../datamodel/ErDiagramBuilder";
+
+const CHANGELOG_EXTENSIONS = ['.xml', '.yaml', '.yml', '.json'];
+
+/**
+ * Find the Prisma schemas, the SQL migrations and the Liquibase changelogs of the workspace, test resources excluded
+ */
+export async function scanDataModelFiles(dirPath: string): Promise<string[]> {
+	const files = await new FileSystemScanner().scanDirectory(dirPath);
+	return files.filter(file => {
+		const relativePath = path.relative(dirPath, file).split(path.sep).join('/');
+		if (isTestFile(relativePath)) {
+			return false;
+		}
+
+		const extension = path.extname(file).toLowerCase();
+		if (extension === '.prisma' || extension === '.sql') {
+			return true;
+		}
+
+		return CHANGELOG_EXTENSIONS.includes(extension) && /changelog|liquibase|migration/i.test(relativePath)
+			&& isLiquibaseChangelog(fs.readFileSync(file, 'utf-8'));
+	});
+}
+
+/**
+ * Builds one table, column and relationship model of the workspace from:
+ *
+ * 1. the JPA entities, TypeORM entities, SQLAlchemy models and Django models of the parsed source files
+ * 2. the models of `schema.prisma`
+ * 3. the SQL migrations (Flyway, Prisma and plain DDL) and Liquibase changelogs, applied in the order of their paths, so
+ *    `V2__...` comes after `V1__...` and the tables are the ones the last migration leaves
+ *
+ * A table declared by several sources, like an entity and its migration, is merged by its name. Relationships are
+ * stored from the side with the foreign key, the inverse sides like `@OneToMany(mappedBy = ...)` are merged into it.
+ */
+export class DataModelAnalyzer implements ICodeAnalyzer {
+	private readonly entityExtractor = new OrmEntityExtractor();
+	private readonly diagramBuilder = new ErDiagramBuilder();
+
+	public async analyze(codeCollector: CodeCollector): Promise<DataModelResult> {
+		const workspacePath = codeCollector.getWorkspacePath() || '';
+		const parsed: ParsedTable[] = [];
+
+		for (const codeFile of codeCollector.getAllCodeStructure()) {
+			const relativePath = path.relative(workspacePath, codeFile.filepath).split(path.sep).join('/');
+			if (!fs.existsSync(codeFile.filepath) || isTestFile(relativePath)) {
+				continue;
+			}
+
+			try {
+				parsed.push(...this.entityExtractor.extract(codeFile, fs.readFileSync(codeFile.filepath, 'utf-8')));
+			} catch (error) {
+				console.warn(`无法提取 ${codeFile.filepath} 中的实体:`, error);
+			}
+		}
+
+		const schemaFiles = workspacePath ? await scanDataModelFiles(workspacePath) : [];
+		parsed.push(...this.parseSchemaFiles(schemaFiles));
+
+		return this.build(parsed);
+	}
+
+	private parseSchemaFiles(files: string[]): ParsedTable[] {
+		const tables: ParsedTable[] = [];
+		const schema = new MigrationSchema();
+		const sqlParser = new SqlDdlParser(schema);
+		const changelogParser = new LiquibaseChangelogParser(schema);
+
+		const sorted = [...files].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+		for (const file of sorted) {
+			try {
+				const content = fs.readFileSync(file, 'utf-8');
+				if (file.endsWith('.prisma')) {
+					tables.push(...new PrismaSchemaParser().parse(content, file));
+				} else if (file.toLowerCase().endsWith('.sql')) {
+					sqlParser.apply(content, file);
+				} else {
+					changelogParser.apply(content, file);
+				}
+			} catch (error) {
+				console.warn(`无法解析数据模型文件 ${file}:`, error);
+			}
+		}
+
+		return [...tables, ...schema.all()];
+	}
+
+	private build(parsed: ParsedTable[]): DataModelResult {
+		const tables = new Map<string, DataTable>();
+		const tableOfEntity = new Map<string, DataTable>();
+
+		for (const item of parsed) {
+			const key = item.name.toLowerCase();
+			let table = tables.get(key);
+			if (!table) {
+				table = { name: item.name, entity: item.entity, sources: [], filePaths: [], columns: [] };
+				tables.set(key, table);
+			}
+
+			this.mergeInto(table, item);
+			if (item.entity) {
+				tableOfEntity.set(item.entity, table);
+			}
+		}
+
+		const tableOf = (target: string) => tableOfEntity.get(target) ?? tables.get(target.toLowerCase());
+		const candidates: DataRelationship[] = [];
+		for (const item of parsed) {
+			const from = tables.get(item.name.toLowerCase())!;
+			for (const relation of item.relations) {
+				const to = tableOf(relation.target);
+				if (to) {
+					candidates.push(this.canonicalOf(relation, from, to, item, tableOf));
+				}
+			}
+		}
+
+		const relationships = this.mergeRelationships(candidates);
+		const sortedTables = Array.from(tables.values()).sort((a, b) => a.name.localeCompare(b.name));
+		this.resolveForeignKeyTypes(sortedTables, relationships);
+
+		return {
+			tables: sortedTables,
+			relationships,
+			erDiagram: this.diagramBuilder.build(sortedTables, relationships),
+			stats: {
+				totalTables: sortedTables.length,
+				totalColumns: sortedTables.reduce((sum, table) => sum + table.columns.length, 0),
+				totalRelationships: relationships.length,
+				sources: Array.from(new Set(sortedTables.flatMap(table => table.sources))) as DataModelSource[],
+			}
+		};
+	}
+
+	/**
+	 * Add the columns of another source of a table, the first source names and types a column
+	 */
+	private mergeInto(table: DataTable, item: ParsedTable) {
+		table.entity = table.entity ?? item.entity;
+		if (!table.sources.includes(item.source)) {
+			table.sources.push(item.source);
+		}
+		if (!table.filePaths.includes(item.filePath)) {
+			table.filePaths.push(item.filePath);
+		}
+
+		for (const column of item.columns) {
+			const existing = table.columns.find(other => other.name.toLowerCase() === column.name.toLowerCase());
+			if (!existing) {
+				table.columns.push({ ...column });
+				continue;
+			}
+
+			existing.type = existing.type || column.type;
+			existing.field = existing.field ?? column.field;
+			existing.primaryKey = existing.primaryKey || column.primaryKey;
+			existing.unique = existing.unique || column.unique;
+			existing.nullable = existing.nullable && column.nullable;
+		}
+	}
+
+	/**
+	 * A relationship from the side with the foreign key: one-to-many is turned around, a relation of unknown
+	 * cardinality is many-to-one when its table has a foreign key to the target, and a many-to-one by a unique
+	 * foreign key is one-to-one
+	 */
+	private canonicalOf(
+		relation: ParsedRelation,
+		from: DataTable,
+		to: DataTable,
+		item: ParsedTable,
+		tableOf: (target: string) => DataTable | undefined
+	): DataRelationship {
+		let cardinality = relation.cardinality;
+		if (!cardinality) {
+			const ownsForeignKey = item.relations.some(other => other.foreignKey && tableOf(other.target) === to);
+			cardinality = ownsForeignKey ? 'many-to-one' : 'one-to-many';
+		}
+
+		if (cardinality === 'one-to-many') {
+			return { from: to.name, to: from.name, cardinality: 'many-to-one' };
+		}
+
+		const column = from.columns.find(other => other.name === relation.foreignKey);
+		if (cardinality === 'many-to-one' && column && (column.unique || column.primaryKey && from.columns.filter(other => other.primaryKey).length === 1)) {
+			cardinality = 'one-to-one';
+		}
+
+		return { from: from.name, to: to.name, cardinality, foreignKey: relation.foreignKey, field: relation.field };
+	}
+
+	private mergeRelationships(candidates: DataRelationship[]): DataRelationship[] {
+		const relationships: DataRelationship[] = [];
+
+		// the sides with a foreign key first, so the inverse sides are merged into them
+		const sorted = [...candidates].sort((a, b) => Number(!a.foreignKey) - Number(!b.foreignKey));
+		for (const candidate of sorted) {
+			const existing = relationships.find(other => {
+				const manyToMany = candidate.cardinality === 'many-to-many';
+				if ((other.cardinality === 'many-to-many') !== manyToMany) {
+					return false;
+				}
+
+				const reversed = other.from === candidate.to && other.to === candidate.from;
+				if (manyToMany) {
+					return reversed || (other.from === candidate.from && other.to === candidate.to);
+				}
+
+				if (other.from === candidate.from && other.to === candidate.to) {
+					return !other.foreignKey || !candidate.foreignKey || other.foreignKey === candidate.foreignKey;
+				}
+
+				// the inverse side of a one-to-one relation is declared on the referenced table
+				return reversed && candidate.cardinality === 'one-to-one' && !candidate.foreignKey;
+			});
+
+			if (!existing) {
+				relationships.push(candidate);
+				continue;
+			}
+
+			if (candidate.cardinality === 'one-to-one') {
+				existing.cardinality = 'one-to-one';
+			}
+			existing.foreignKey = existing.foreignKey ?? candidate.foreignKey;
+			existing.field = existing.field ?? candidate.field;
+		}
+
+		return relationships;
+	}
+
+	/**
+	 * Foreign key columns of entities have the type of the primary key they reference
+	 */
+	private resolveForeignKeyTypes(tables: DataTable[], relationships: DataRelationship[]) {
+		for (const relationship of relationships.filter(relationship => relationship.foreignKey)) {
+			const from = tables.find(table => table.name === relationship.from);
+			const to = tables.find(table => table.name === relationship.to);
+			const column = from?.columns.find(column => column.name === relationship.foreignKey);
+			const primaryKey = to?.columns.find(column => column.primaryKey);
+			if (column && !column.type && primaryKey) {
+				column.type = primaryKey.type;
+			}
+		}
+	}
+}
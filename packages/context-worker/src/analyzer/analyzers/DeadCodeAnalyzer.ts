@@ -0,0 +1,258 @@
+import fs from "fs";
+import path from "path";
+
+import { CodeFile, CodeFunction, CodeStructure } from "../../codemodel/CodeElement";
+import { DeadCodeItem, DeadCodeResult } from "../CodeAnalysisResult";
+import { CodeCollector } from "../CodeCollector";
+import { isTestFile } from "../TestFiles";
+import { ICodeAnalyzer } from "./ICodeAnalyzer";
+
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*/g;
+
+// files which re-export their symbols as the public surface of a package
+const PUBLIC_SURFACE_FILES = /(^|\/)(index\.[jt]sx?|__init__\.py|mod\.rs|lib\.rs)$/;
+
+// called by the runtime, or implementing well-known interfaces implicitly like Go `fmt.Stringer`
+const ENTRY_POINT_NAMES = new Set([
+	'main', 'init', 'constructor', 'setUp', 'tearDown', 'toString', 'equals', 'hashCode', 'compareTo', 'close',
+	'run', 'call', 'String', 'Error', 'ServeHTTP', 'MarshalJSON', 'UnmarshalJSON', 'Len', 'Less', 'Swap',
+]);
+
+// classes called by a framework, usually through routing or naming conventions
+const ENTRY_POINT_CLASS_PATTERN = /(Controller|Handler|View|ViewSet|Resource|Servlet|Application|Middleware)$/;
+
+// annotations which say nothing about who calls the declaration
+const PLAIN_ANNOTATIONS = new Set(['Deprecated', 'SuppressWarnings', 'staticmethod', 'classmethod', 'Nullable', 'NonNull', 'NotNull']);
+
+interface Definition {
+	item: DeadCodeItem;
+	codeFile: CodeFile;
+	element: CodeStructure | CodeFunction;
+	owner?: CodeStructure;
+}
+
+/**
+ * Lists classes, methods and top-level functions which nothing in the workspace refers to.
+ *
+ * Definitions come from the structures of `CodeCollector`, references are the identifiers of every source file,
+ * which covers calls resolved by the call graph as well as imports, type usages and references the ScopeGraph cannot
+ * resolve. A definition is only reported when its name occurs nowhere outside of its own declaration, so reflection,
+ * dynamic dispatch and string references keep a symbol alive rather than producing false positives.
+ *
+ * Test files, `main` and other runtime entry points, controllers, interface implementations and declarations with
+ * framework annotations or decorators are never reported.
+ */
+export class DeadCodeAnalyzer implements ICodeAnalyzer {
+	private workspacePath: string = '';
+	private workspaceTypes = new Set<string>();
+
+	public async analyze(codeCollector: CodeCollector): Promise<DeadCodeResult> {
+		this.workspacePath = codeCollector.getWorkspacePath() || '';
+		const codeFiles = codeCollector.getAllCodeStructure().filter(codeFile => fs.existsSync(codeFile.filepath));
+		const sources = new Map(codeFiles.map(codeFile => [codeFile.filepath, fs.readFileSync(codeFile.filepath, 'utf-8')]));
+		this.workspaceTypes = new Set(codeFiles.flatMap(codeFile => codeFile.classes.map(structure => structure.name)));
+
+		let entryPoints = 0;
+		const definitions: Definition[] = [];
+		for (const codeFile of codeFiles) {
+			const lines = sources.get(codeFile.filepath)!.split('\n');
+			for (const definition of this.definitionsOf(codeFile)) {
+				if (this.isEntryPoint(definition, lines)) {
+					entryPoints++;
+				} else {
+					definitions.push(definition);
+				}
+			}
+		}
+
+		const occurrences = this.findOccurrences(sources, new Set(definitions.map(definition => definition.item.name)));
+		const allDefinitions = codeFiles.flatMap(codeFile => this.definitionsOf(codeFile));
+		const definitionsByName = new Map<string, Definition[]>();
+		for (const definition of allDefinitions) {
+			const sameName = definitionsByName.get(definition.item.name) ?? [];
+			sameName.push(definition);
+			definitionsByName.set(definition.item.name, sameName);
+		}
+
+		const unused = definitions
+			.filter(definition => this.externalReferences(definition, occurrences, definitionsByName) === 0)
+			.map(definition => definition.item);
+
+		return {
+			unused,
+			stats: {
+				totalSymbols: allDefinitions.length,
+				entryPoints,
+				unusedClasses: unused.filter(item => item.kind === 'class').length,
+				unusedMethods: unused.filter(item => item.kind === 'method').length,
+				unusedFunctions: unused.filter(item => item.kind === 'function').length,
+			}
+		};
+	}
+
+	private definitionsOf(codeFile: CodeFile): Definition[] {
+		const relativePath = this.relativePath(codeFile.filepath);
+		if (isTestFile(relativePath)) {
+			return [];
+		}
+
+		const definitions: Definition[] = [];
+		for (const structure of codeFile.classes) {
+			const owner = this.ownerId(codeFile, structure);
+			definitions.push({ item: this.itemOf(owner, 'class', structure, codeFile), codeFile, element: structure });
+
+			for (const method of structure.methods || []) {
+				const item = this.itemOf(`${owner}.${method.name}`, 'method', method, codeFile, structure.name);
+				definitions.push({ item, codeFile, element: method, owner: structure });
+			}
+		}
+
+		for (const func of codeFile.functions || []) {
+			const id = codeFile.package ? `${codeFile.package}.${func.name}` : `${relativePath}#${func.name}`;
+			definitions.push({ item: this.itemOf(id, 'function', func, codeFile), codeFile, element: func });
+		}
+
+		return definitions;
+	}
+
+	private itemOf(id: string, kind: DeadCodeItem['kind'], element: CodeStructure | CodeFunction, codeFile: CodeFile, className?: string): DeadCodeItem {
+		return {
+			id,
+			name: element.name,
+			kind,
+			className,
+			filePath: codeFile.filepath,
+			position: {
+				start: { row: element.start.row, column: element.start.column },
+				end: { row: element.end.row, column: element.end.column }
+			}
+		};
+	}
+
+	private isEntryPoint(definition: Definition, lines: string[]): boolean {
+		const { item, element, owner, codeFile } = definition;
+		if (!item.name || ENTRY_POINT_NAMES.has(item.name) || item.name.startsWith('__')) {
+			return true;
+		}
+
+		if (PUBLIC_SURFACE_FILES.test(this.relativePath(codeFile.filepath))) {
+			return true;
+		}
+
+		const className = owner?.name ?? (item.kind === 'class' ? item.name : undefined);
+		if (className && ENTRY_POINT_CLASS_PATTERN.test(className)) {
+			return true;
+		}
+
+		// implementations are usually created by dependency injection or a factory, and used through the interface
+		if (item.kind === 'class' && ((element as CodeStructure).implements?.length ?? 0) > 0) {
+			return true;
+		}
+
+		if (owner) {
+			// constructors, and JavaBeans accessors used by serializers and templates
+			if (item.name === owner.name || (/^(java|kotlin)$/.test(codeFile.language) && /^(get|set|is)[A-Z]/.test(item.name))) {
+				return true;
+			}
+
+			// a method of a class with a parent outside of the workspace may implement or override it
+			if (this.hasExternalParent(owner)) {
+				return true;
+			}
+		}
+
+		return this.hasAnnotation(element, lines);
+	}
+
+	private hasExternalParent(structure: CodeStructure): boolean {
+		return [...(structure.extends || []), ...(structure.implements || [])]
+			.some(parent => !this.workspaceTypes.has(parent.replace(/<.*$/, '').split(/[.\\]/).pop()!));
+	}
+
+	/**
+	 * Java/Kotlin annotations, TypeScript/Python decorators and PHP attributes on the declaration, from the annotation
+	 * lines right above it and the lines of the declaration up to its name
+	 */
+	private hasAnnotation(element: CodeStructure | CodeFunction, lines: string[]): boolean {
+		let first = element.start.row;
+		while (first > 0 && /^\s*(@|#\[)/.test(lines[first - 1] ?? '')) {
+			first--;
+		}
+
+		let last = element.start.row;
+		while (last < element.end.row && last - element.start.row < 10 && !new RegExp(`\\b${element.name}\\b`).test(lines[last] ?? '')) {
+			last++;
+		}
+
+		const header = lines.slice(first, last + 1).join('\n');
+		for (const match of header.matchAll(/(?:@|#\[)\s*([\w.\\]+)/g)) {
+			const name = match[1].split(/[.\\]/).pop()!;
+			if (!PLAIN_ANNOTATIONS.has(name)) {
+				return true;
+			}
+		}
+
+		return false;
+	}
+
+	/**
+	 * Rows of every occurrence of the given names, by file
+	 */
+	private findOccurrences(sources: Map<string, string>, names: Set<string>): Map<string, Map<string, number[]>> {
+		const occurrences = new Map<string, Map<string, number[]>>();
+		for (const [filePath, source] of sources) {
+			const rowsByName = new Map<string, number[]>();
+			source.split('\n').forEach((line, row) => {
+				for (const identifier of line.match(IDENTIFIER_PATTERN) || []) {
+					if (!names.has(identifier)) continue;
+
+					const rows = rowsByName.get(identifier) ?? [];
+					rows.push(row);
+					rowsByName.set(identifier, rows);
+				}
+			});
+			occurrences.set(filePath, rowsByName);
+		}
+
+		return occurrences;
+	}
+
+	/**
+	 * Occurrences of the name outside of the definition itself, where the first occurrence inside every other
+	 * definition with the same name is its own declaration, like an overload or the same method in another class
+	 */
+	private externalReferences(definition: Definition, occurrences: Map<string, Map<string, number[]>>, definitionsByName: Map<string, Definition[]>): number {
+		const name = definition.item.name;
+		const within = (other: Definition, row: number) => row >= other.item.position.start.row && row <= other.item.position.end.row;
+
+		let total = 0;
+		for (const rowsByName of occurrences.values()) {
+			total += rowsByName.get(name)?.length ?? 0;
+		}
+
+		const ownRows = occurrences.get(definition.item.filePath)?.get(name) ?? [];
+		total -= ownRows.filter(row => within(definition, row)).length;
+
+		for (const other of definitionsByName.get(name) ?? []) {
+			if (other.element === definition.element) continue;
+
+			const otherRows = occurrences.get(other.item.filePath)?.get(name) ?? [];
+			const declaredInside = otherRows.some(row => within(other, row) && !(other.item.filePath === definition.item.filePath && within(definition, row)));
+			if (declaredInside) {
+				total--;
+			}
+		}
+
+		return total;
+	}
+
+	private ownerId(codeFile: CodeFile, structure: CodeStructure): string {
+		const key = structure.canonicalName || `${structure.package}.${structure.name}`;
+		return key.startsWith('.') ? `${this.relativePath(codeFile.filepath)}#${structure.name}` : key;
+	}
+
+	private relativePath(filePath: string): string {
+		const relative = this.workspacePath ? path.relative(this.workspacePath, filePath) : filePath;
+		return relative.split(path.sep).join('/');
+	}
+}
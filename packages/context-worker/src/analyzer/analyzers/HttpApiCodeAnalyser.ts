@@ -1,4 +1,5 @@
 import fs from "fs";
+import path from "path";
 import { ApiResource } from "@autodev/worker-core";
 
 import { HttpApiAnalyserManager } from "../../code-context/HttpApiAnalyserManager";
@@ -7,6 +8,7 @@ import { CodeCollector } from "../CodeCollector";
 import { ILanguageServiceProvider } from "../../base/common/languages/languageService";
 import { CodeFile } from "../../codemodel/CodeElement";
 import { inferLanguage } from "../../base/common/languages/languages";
+import { ApiDemand } from "../../code-context/base/HttpApiAnalyser";
 
 export class HttpApiCodeAnalyser implements ICodeAnalyzer {
 	private readonly languageService: ILanguageServiceProvider;
@@ -19,43 +21,106 @@ export class HttpApiCodeAnalyser implements ICodeAnalyzer {
 	private analysers = this.manager.getAnalyser();
 
 	async analyze(codeCollector: CodeCollector): Promise<ApiResource[]> {
+		const resourcesByFile = await this.analyzeByFile(codeCollector);
+		return Array.from(resourcesByFile.values()).flat();
+	}
+
+	/**
+	 * Same as `analyze`, keyed by the file which declares the API resources
+	 */
+	async analyzeByFile(codeCollector: CodeCollector): Promise<Map<string, ApiResource[]>> {
 		const codeFiles: string[] = codeCollector.getAllFiles();
+		const resourcesByFile = new Map<string, ApiResource[]>();
+		const pathCodeFileMap = this.buildCodeFileMap(codeCollector);
+
+		for (let path of codeFiles) {
+			const apiResources = await this.analyzeFile(codeCollector, path, pathCodeFileMap);
+			if (apiResources.length > 0) {
+				resourcesByFile.set(path, apiResources);
+			}
+		}
+
+		return resourcesByFile;
+	}
+
+	/**
+	 * Analyse a single file, the result only contains the API resources declared in this file
+	 */
+	async analyzeFile(codeCollector: CodeCollector, path: string, pathCodeFileMap?: Map<string, CodeFile>): Promise<ApiResource[]> {
 		let apiResources: ApiResource[] = [];
 		const workspacePath = codeCollector.getWorkspacePath();
+		pathCodeFileMap = pathCodeFileMap ?? this.buildCodeFileMap(codeCollector);
 
-		let codeStructure = codeCollector.getAllCodeStructure();
-		let pathCodeFileMap: Map<string, CodeFile> = new Map();
-		for (let codeFile of codeStructure) {
-			pathCodeFileMap.set(codeFile.filepath, codeFile);
-		}
+		const sourceCode = await fs.promises.readFile(path, 'utf-8');
+		for (let analyser of this.analysers) {
+			if (!analyser.isApplicable(inferLanguage(path))) {
+				continue;
+			}
 
-		for (let path of codeFiles) {
-			const sourceCode = await fs.promises.readFile(path, 'utf-8');
-			for (let analyser of this.analysers) {
-				if (!analyser.isApplicable(inferLanguage(path))) {
-					continue;
-				}
-
-				await analyser.init(this.languageService);
-
-				let codeFile = pathCodeFileMap.get(path);
-				let result: ApiResource[] = [];
-				if (analyser.fileFilter(codeFile)) {
-					result = result.concat(await analyser.analysis(codeFile, workspacePath));
-				}
-
-				if (result && result.length > 0) {
-					apiResources = apiResources.concat(result);
-					continue;
-				}
-
-				result = await analyser.sourceCodeAnalysis(sourceCode, path, workspacePath);
-				if (result && result.length > 0) {
-					apiResources = apiResources.concat(result);
-				}
+			await analyser.init(this.languageService);
+			// analysers collect into a shared list, reset it so results are not repeated for every file
+			analyser.resources = [];
+
+			let codeFile = pathCodeFileMap.get(path);
+			let result: ApiResource[] = [];
+			if (codeFile && analyser.fileFilter(codeFile)) {
+				result = result.concat(await analyser.analysis(codeFile, workspacePath));
+			}
+
+			if (result && result.length > 0) {
+				apiResources = apiResources.concat(result);
+				continue;
+			}
+
+			result = await analyser.sourceCodeAnalysis(sourceCode, path, workspacePath);
+			if (result && result.length > 0) {
+				apiResources = apiResources.concat(result);
 			}
 		}
 
 		return apiResources;
 	}
+
+	/**
+	 * Collect the HTTP calls made by every file, the counterpart of `analyze` for the consumer side
+	 */
+	async analyzeDemands(codeCollector: CodeCollector): Promise<ApiDemand[]> {
+		let demands: ApiDemand[] = [];
+		for (let file of codeCollector.getAllFiles()) {
+			demands = demands.concat(await this.analyzeFileDemands(codeCollector, file));
+		}
+
+		return demands;
+	}
+
+	async analyzeFileDemands(codeCollector: CodeCollector, file: string): Promise<ApiDemand[]> {
+		const analysers = this.analysers.filter(analyser => analyser.isApplicable(inferLanguage(file)));
+		if (analysers.length === 0) {
+			return [];
+		}
+
+		const workspacePath = codeCollector.getWorkspacePath();
+		const sourceFile = path.relative(workspacePath, file).split(path.sep).join('/');
+		const sourceCode = await fs.promises.readFile(file, 'utf-8');
+
+		let demands: ApiDemand[] = [];
+		for (let analyser of analysers) {
+			await analyser.init(this.languageService);
+			analyser.demands = [];
+
+			const result = await analyser.demandAnalysis(sourceCode, file, workspacePath);
+			demands = demands.concat(result.map(demand => ({ ...demand, sourceFile })));
+		}
+
+		return demands;
+	}
+
+	private buildCodeFileMap(codeCollector: CodeCollector): Map<string, CodeFile> {
+		let pathCodeFileMap: Map<string, CodeFile> = new Map();
+		for (let codeFile of codeCollector.getAllCodeStructure()) {
+			pathCodeFileMap.set(codeFile.filepath, codeFile);
+		}
+
+		return pathCodeFileMap;
+	}
 }
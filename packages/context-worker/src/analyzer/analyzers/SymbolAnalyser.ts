@@ -6,12 +6,15 @@ import { CodeSymbol, SymbolExtractor, SymbolKind } from "../../code-context/base
 import { inferLanguage } from "../../base/common/languages/languages";
 import { CodeCollector } from "../CodeCollector";
 import { ICodeAnalyzer } from "./ICodeAnalyzer";
+import { AnalysisCache } from "../AnalysisCache";
 
 export class SymbolAnalyser implements ICodeAnalyzer {
 	private languageService: ILanguageServiceProvider;
+	private cache: AnalysisCache | undefined;
 
-	constructor(languageService: ILanguageServiceProvider) {
+	constructor(languageService: ILanguageServiceProvider, cache?: AnalysisCache) {
 		this.languageService = languageService;
+		this.cache = cache;
 	}
 
 	public async analyze(codeCollector: CodeCollector): Promise<SymbolAnalysisResult> {
@@ -54,6 +57,8 @@ export class SymbolAnalyser implements ICodeAnalyzer {
 				count
 			}));
 
+		await this.cache?.flush();
+
 		return {
 			symbols: allSymbols,
 			fileSymbols: fileSymbolsMap, // 返回文件路径到符号的映射
@@ -73,7 +78,7 @@ export class SymbolAnalyser implements ICodeAnalyzer {
 		}
 	}
 
-	private async analyzeFile(path: string): Promise<FileSymbols | null> {
+	public async analyzeFile(path: string): Promise<FileSymbols | null> {
 		try {
 			const content = fs.readFileSync(path, { encoding: 'utf-8' });
 			const language = inferLanguage(path);
@@ -82,9 +87,7 @@ export class SymbolAnalyser implements ICodeAnalyzer {
 				return null;
 			}
 
-			const symbolExtractor = new SymbolExtractor(language, this.languageService);
-			const symbols = await symbolExtractor.executeQuery(path, content);
-			const symbolInfos = symbols.map(symbol => this.convertToSymbolInfo(symbol, path));
+			const symbolInfos = await this.extractSymbols(path, content, language);
 
 			if (symbolInfos.length === 0) {
 				return null;
@@ -117,6 +120,20 @@ export class SymbolAnalyser implements ICodeAnalyzer {
 		}
 	}
 
+	private async extractSymbols(path: string, content: string, language: string): Promise<SymbolInfo[]> {
+		const hash = this.cache ? AnalysisCache.hashContent(content) : '';
+		const cached = this.cache?.getSymbols(path, hash);
+		if (cached) {
+			return cached;
+		}
+
+		const symbolExtractor = new SymbolExtractor(language, this.languageService);
+		const symbols = await symbolExtractor.executeQuery(path, content);
+		const symbolInfos = symbols.map(symbol => this.convertToSymbolInfo(symbol, path));
+		this.cache?.setSymbols(path, hash, symbolInfos);
+		return symbolInfos;
+	}
+
 	private convertToSymbolInfo(symbol: CodeSymbol, filePath: string): SymbolInfo {
 		let startPosition = symbol.nameRange.startPosition;
 		let endPosition = symbol.nameRange.endPosition;
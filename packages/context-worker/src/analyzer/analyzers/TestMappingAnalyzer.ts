@@ -0,0 +1,363 @@
+import fs from "fs";
+import path from "path";
+
+import { CodeFile, CodeFunction, CodeStructure, StructureType } from "../../codemodel/CodeElement";
+import { TestCaseMapping, TestFileMapping, TestMappingResult, UntestedMethod } from "../CodeAnalysisResult";
+import { CodeCollector } from "../CodeCollector";
+import { isTestCase, isTestFile, TestFramework, testFrameworkOf, testSubjectName } from "../TestFiles";
+import { ICodeAnalyzer } from "./ICodeAnalyzer";
+
+// `it('places an order', ...)`, `test.each(...)('...')` and `describe('OrderService', ...)` of Jest, Vitest and Mocha
+const JS_TEST_CALL = /\b(it|test|describe)(?:\.(?:only|skip|concurrent|each\s*\(.*?\)))?\s*\(\s*(['"`])((?:\\.|(?!\2).)*)\2/;
+// `test("...")`, `should("...")` and `"..." { }` of the Kotest specs
+const KOTEST_CASE = /\b(?:test|should|it|Then|then|expect)\s*\(\s*"([^"]+)"\s*\)|^\s*"([^"]+)"\s*\{/;
+
+const CONSTRUCTOR_NAMES = new Set(['constructor', '__init__', 'init']);
+
+interface ProductionSymbol {
+	id: string;
+	name: string;
+	kind: 'class' | 'method' | 'function';
+	className?: string;
+	codeFile: CodeFile;
+	element: CodeStructure | CodeFunction;
+	isPublic: boolean;
+}
+
+interface TestCase {
+	name: string;
+	suite?: string;
+	startRow: number;
+	endRow: number;
+}
+
+/**
+ * Maps test files to the production code they exercise:
+ *
+ * 1. test files are told by their path (`src/test/`, `*Test.java`, `*.test.ts`, `test_*.py`, `*_test.go`) and their
+ *    framework by imports: JUnit, TestNG, Kotest, Jest, Vitest, Mocha, pytest, unittest and Go `testing`
+ * 2. test cases are the annotated or `test` prefixed methods and functions of the structurers, or the `it` and `test`
+ *    calls of the JavaScript and Kotest styles
+ * 3. a test file targets the production files it imports, the files and classes it is named after, and for Java,
+ *    Kotlin and Go the classes of its own package which it mentions
+ * 4. a test case targets the classes, methods and functions of those files which its body calls or its name mentions
+ *
+ * Public methods and functions no test case targets are reported as untested.
+ */
+export class TestMappingAnalyzer implements ICodeAnalyzer {
+	private workspacePath: string = '';
+	private production: CodeFile[] = [];
+	private symbolsByFile = new Map<string, ProductionSymbol[]>();
+
+	public async analyze(codeCollector: CodeCollector): Promise<TestMappingResult> {
+		this.workspacePath = codeCollector.getWorkspacePath() || '';
+		const codeFiles = codeCollector.getAllCodeStructure().filter(codeFile => fs.existsSync(codeFile.filepath));
+		const tests = codeFiles.filter(codeFile => isTestFile(this.relativePath(codeFile.filepath)));
+		this.production = codeFiles.filter(codeFile => !tests.includes(codeFile));
+		this.symbolsByFile = new Map(this.production.map(codeFile => [codeFile.filepath, this.symbolsOf(codeFile)]));
+
+		const testFiles: TestFileMapping[] = [];
+		const testsByFile: Record<string, string[]> = {};
+		for (const codeFile of tests) {
+			const content = fs.readFileSync(codeFile.filepath, 'utf-8');
+			const framework = testFrameworkOf(codeFile, content);
+			if (!framework) {
+				continue;
+			}
+
+			const mapping = this.mappingOf(codeFile, content, framework);
+			if (mapping.testCases.length === 0) {
+				continue;
+			}
+
+			testFiles.push(mapping);
+			for (const targetFile of mapping.targetFiles) {
+				testsByFile[targetFile] = [...(testsByFile[targetFile] ?? []), codeFile.filepath];
+			}
+		}
+
+		const tested = new Set(testFiles.flatMap(file => file.testCases.flatMap(testCase => testCase.targets)));
+		const untested: UntestedMethod[] = Array.from(this.symbolsByFile.values())
+			.flat()
+			.filter(symbol => symbol.kind !== 'class' && symbol.isPublic && !tested.has(symbol.id))
+			.map(symbol => ({
+				id: symbol.id,
+				name: symbol.name,
+				className: symbol.className,
+				filePath: symbol.codeFile.filepath,
+				position: {
+					start: { row: symbol.element.start.row, column: symbol.element.start.column },
+					end: { row: symbol.element.end.row, column: symbol.element.end.column }
+				}
+			}));
+
+		return {
+			testFiles,
+			testsByFile,
+			untested,
+			stats: {
+				testFiles: testFiles.length,
+				testCases: testFiles.reduce((sum, file) => sum + file.testCases.length, 0),
+				testedFiles: Object.keys(testsByFile).length,
+				productionFiles: this.production.length,
+				untestedMethods: untested.length,
+			}
+		};
+	}
+
+	private mappingOf(codeFile: CodeFile, content: string, framework: TestFramework): TestFileMapping {
+		const lines = content.split('\n');
+		const targetFiles = this.targetFilesOf(codeFile, content);
+		const candidates = targetFiles.flatMap(file => this.symbolsByFile.get(file) ?? []);
+
+		const testCases: TestCaseMapping[] = this.testCasesOf(codeFile, framework, lines).map(testCase => {
+			const body = lines.slice(testCase.startRow, testCase.endRow + 1).join('\n');
+			return {
+				name: testCase.name,
+				suite: testCase.suite,
+				filePath: codeFile.filepath,
+				targets: candidates.filter(symbol => this.exercises(symbol, testCase.name, body)).map(symbol => symbol.id),
+				position: {
+					start: { row: testCase.startRow, column: 0 },
+					end: { row: testCase.endRow, column: lines[testCase.endRow]?.length ?? 0 }
+				}
+			};
+		});
+
+		return { filePath: codeFile.filepath, language: codeFile.language, framework, testCases, targetFiles };
+	}
+
+	private testCasesOf(codeFile: CodeFile, framework: TestFramework, lines: string[]): TestCase[] {
+		if (framework === 'jest' || framework === 'vitest' || framework === 'mocha') {
+			return this.callTestCasesOf(lines, JS_TEST_CALL, match => match[1] === 'describe' ? { suite: match[3] } : { name: match[3] });
+		}
+
+		if (framework === 'kotest') {
+			return this.callTestCasesOf(lines, KOTEST_CASE, match => ({ name: match[1] ?? match[2] }));
+		}
+
+		const testCases: TestCase[] = [];
+		const visit = (structure: CodeStructure) => {
+			for (const method of structure.methods || []) {
+				if (isTestCase(method, framework, lines)) {
+					testCases.push({ name: method.name, suite: structure.name, startRow: method.start.row, endRow: method.end.row });
+				}
+			}
+			structure.classes?.forEach(visit);
+		};
+
+		codeFile.classes.forEach(visit);
+		for (const func of codeFile.functions || []) {
+			if (isTestCase(func, framework, lines)) {
+				testCases.push({ name: func.name, startRow: func.start.row, endRow: func.end.row });
+			}
+		}
+
+		return testCases;
+	}
+
+	/**
+	 * Test cases which are calls with a name instead of declarations, a case ends where the next one starts
+	 */
+	private callTestCasesOf(lines: string[], pattern: RegExp, caseOf: (match: RegExpExecArray) => { name?: string, suite?: string }): TestCase[] {
+		const testCases: TestCase[] = [];
+		let suite: string | undefined;
+
+		lines.forEach((line, row) => {
+			const match = pattern.exec(line);
+			if (!match) {
+				return;
+			}
+
+			const found = caseOf(match);
+			if (testCases.length > 0) {
+				testCases[testCases.length - 1].endRow = row - 1;
+			}
+
+			if (found.suite !== undefined) {
+				suite = found.suite;
+			} else if (found.name !== undefined) {
+				testCases.push({ name: found.name, suite, startRow: row, endRow: lines.length - 1 });
+			}
+		});
+
+		return testCases;
+	}
+
+	/**
+	 * Whether a test case calls a method or function, or names it like `testPlaceOrder` and `test_place_order`
+	 */
+	private exercises(symbol: ProductionSymbol, caseName: string, body: string): boolean {
+		const name = this.escape(symbol.name);
+		if (symbol.kind === 'class') {
+			return new RegExp(`\\b${name}\\b`).test(body);
+		}
+
+		if (CONSTRUCTOR_NAMES.has(symbol.name) || symbol.name === symbol.className) {
+			return false;
+		}
+
+		if (new RegExp(`(\\.|::|\\b)${name}\\s*\\(|::${name}\\b`).test(body)) {
+			return true;
+		}
+
+		const normalizedCase = caseName.replace(/[\s_-]/g, '').toLowerCase();
+		const normalizedName = symbol.name.replace(/_/g, '').toLowerCase();
+		return normalizedName.length >= 4 && normalizedCase.includes(normalizedName);
+	}
+
+	private targetFilesOf(codeFile: CodeFile, content: string): string[] {
+		const targets = new Set<string>();
+		for (const imported of codeFile.imports) {
+			this.resolveImport(codeFile, imported).forEach(file => targets.add(file.filepath));
+		}
+
+		// a Go test is in the package it tests, the classes of the same package need no import in Java and Kotlin
+		for (const file of this.production) {
+			if (codeFile.language === 'go' && path.dirname(file.filepath) === path.dirname(codeFile.filepath)) {
+				targets.add(file.filepath);
+			} else if (codeFile.package && file.package === codeFile.package && file.language === codeFile.language
+				&& file.classes.some(structure => new RegExp(`\\b${this.escape(structure.name)}\\b`).test(content))) {
+				targets.add(file.filepath);
+			}
+		}
+
+		this.namedSubjectsOf(codeFile).forEach(file => targets.add(file.filepath));
+		return Array.from(targets);
+	}
+
+	private resolveImport(codeFile: CodeFile, imported: string): CodeFile[] {
+		const spec = imported.replace(/^['"`]|['"`]$/g, '').replace(/^static\s+/, '');
+
+		switch (codeFile.language) {
+			case 'java':
+			case 'kotlin': {
+				if (spec.endsWith('.*')) {
+					const pkg = spec.slice(0, -2);
+					return this.production.filter(file => file.package === pkg);
+				}
+
+				// `com.example.Order` or the static import `com.example.Orders.create`
+				return this.production.filter(file => file.classes.some(structure =>
+					structure.canonicalName === spec || spec.startsWith(`${structure.canonicalName}.`)));
+			}
+			case 'python': {
+				const modulePath = spec.split('.').join('/');
+				return this.production.filter(file => {
+					const relative = this.relativePath(file.filepath);
+					return relative.endsWith(`${modulePath}.py`) || relative.endsWith(`${modulePath}/__init__.py`);
+				});
+			}
+			case 'go':
+				return this.production.filter(file => {
+					const directory = this.relativePath(path.dirname(file.filepath));
+					return directory !== '' && directory !== '.' && spec.endsWith(`/${directory}`);
+				});
+			default: {
+				if (!spec.startsWith('.')) {
+					return [];
+				}
+
+				const resolved = path.resolve(path.dirname(codeFile.filepath), spec);
+				return this.production.filter(file => {
+					const withoutExtension = file.filepath.slice(0, -path.extname(file.filepath).length);
+					return withoutExtension === resolved || withoutExtension === path.join(resolved, 'index');
+				});
+			}
+		}
+	}
+
+	/**
+	 * Production files named like the test, in the same directory, in the mirrored `main` directory of a `test`
+	 * directory, or anywhere when the name is unique
+	 */
+	private namedSubjectsOf(codeFile: CodeFile): CodeFile[] {
+		const subject = testSubjectName(codeFile.filepath);
+		if (!subject) {
+			return [];
+		}
+
+		const named = this.production.filter(file => path.basename(file.filepath, path.extname(file.filepath)) === subject);
+		const testDirectory = path.dirname(codeFile.filepath);
+		const mirrored = [
+			testDirectory,
+			path.dirname(testDirectory),
+			testDirectory.replace(`${path.sep}test${path.sep}`, `${path.sep}main${path.sep}`),
+		];
+
+		const nearby = named.filter(file => mirrored.includes(path.dirname(file.filepath)));
+		if (nearby.length > 0) {
+			return nearby;
+		}
+
+		return named.length === 1 ? named : [];
+	}
+
+	private symbolsOf(codeFile: CodeFile): ProductionSymbol[] {
+		const symbols: ProductionSymbol[] = [];
+		const relativePath = this.relativePath(codeFile.filepath);
+
+		const visit = (structure: CodeStructure) => {
+			const owner = this.ownerId(codeFile, structure);
+			symbols.push({ id: owner, name: structure.name, kind: 'class', codeFile, element: structure, isPublic: true });
+
+			// the methods of interfaces are tested through their implementations
+			if (structure.type !== StructureType.Interface) {
+				for (const method of structure.methods || []) {
+					symbols.push({
+						id: `${owner}.${method.name}`,
+						name: method.name,
+						kind: 'method',
+						className: structure.name,
+						codeFile,
+						element: method,
+						isPublic: this.isPublic(codeFile, method) && !CONSTRUCTOR_NAMES.has(method.name) && method.name !== structure.name,
+					});
+				}
+			}
+			structure.classes?.forEach(visit);
+		};
+
+		codeFile.classes.forEach(visit);
+		for (const func of codeFile.functions || []) {
+			symbols.push({
+				id: codeFile.package ? `${codeFile.package}.${func.name}` : `${relativePath}#${func.name}`,
+				name: func.name,
+				kind: 'function',
+				codeFile,
+				element: func,
+				isPublic: this.isPublic(codeFile, func) && func.name !== 'main',
+			});
+		}
+
+		return symbols;
+	}
+
+	private isPublic(codeFile: CodeFile, func: CodeFunction): boolean {
+		const modifiers = func.modifiers ?? '';
+		switch (codeFile.language) {
+			case 'java':
+				return /\bpublic\b/.test(modifiers);
+			case 'go':
+				return /^[A-Z]/.test(func.name);
+			case 'python':
+				return !func.name.startsWith('_');
+			default:
+				return !/\b(private|protected|internal)\b/.test(modifiers) && !func.name.startsWith('#');
+		}
+	}
+
+	private ownerId(codeFile: CodeFile, structure: CodeStructure): string {
+		const key = structure.canonicalName || `${structure.package}.${structure.name}`;
+		return key.startsWith('.') ? `${this.relativePath(codeFile.filepath)}#${structure.name}` : key;
+	}
+
+	private relativePath(filePath: string): string {
+		const relative = this.workspacePath ? path.relative(this.workspacePath, filePath) : filePath;
+		return relative.split(path.sep).join('/');
+	}
+
+	private escape(name: string): string {
+		return name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	}
+}
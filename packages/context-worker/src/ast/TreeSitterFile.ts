@@ -116,13 +116,14 @@ export class TreeSitterFile {
 		languageService: ILanguageServiceProvider,
 		langId: LanguageIdentifier,
 		code: string,
+		fsPath: string = '',
 	): Promise<TreeSitterFile> {
 		let langConfig = LanguageProfileUtil.from(langId)!!;
 		const language = await langConfig.grammar(languageService, langId)!!;
 		parser.setLanguage(language);
 
 		let tree = parser.parse(code);
-		return new TreeSitterFile(code, tree, langConfig, parser, language!!, '');
+		return new TreeSitterFile(code, tree, langConfig, parser, language!!, fsPath);
 	}
 
 	/**
@@ -29,3 +29,26 @@ export const LANGUAGE_BLOCK_COMMENT_MAP: Partial<Record<LanguageIdentifier, { st
 export const LANGUAGE_COMMENT_RULE: Partial<Record<LanguageIdentifier, string[]>> = {
 	java: [`use @param tag`, `use @return tag`, `do not return example code`, `do not use @author and @version tags`],
 };
+
+/**
+ * How the API docs of a declaration are written: a block comment above it like Javadoc and JSDoc, consecutive line
+ * comments above it like Go and Rust, or a string as the first statement of the body like Python docstrings
+ */
+export type DocCommentStyle =
+	| { kind: 'block'; start: string; end: string }
+	| { kind: 'line'; prefix: string }
+	| { kind: 'string'; quotes: string[] };
+
+export const LANGUAGE_DOC_COMMENT_MAP: Partial<Record<LanguageIdentifier, DocCommentStyle>> = {
+	csharp: { kind: 'line', prefix: '///' },
+	go: { kind: 'line', prefix: '//' },
+	java: { kind: 'block', start: '/**', end: '*/' },
+	kotlin: { kind: 'block', start: '/**', end: '*/' },
+	php: { kind: 'block', start: '/**', end: '*/' },
+	python: { kind: 'string', quotes: ['"""', "'''"] },
+	rust: { kind: 'line', prefix: '///' },
+	javascript: { kind: 'block', start: '/**', end: '*/' },
+	javascriptreact: { kind: 'block', start: '/**', end: '*/' },
+	typescript: { kind: 'block', start: '/**', end: '*/' },
+	typescriptreact: { kind: 'block', start: '/**', end: '*/' },
+};
@@ -98,6 +98,16 @@ SupportLanguagesList.forEach(item => {
 	});
 });
 
+/**
+ * Map file extensions to a language, overriding the built-in mapping, like `.inc` to `php` from `autodev.config.json`
+ */
+export function registerLanguageExtensions(languageId: LanguageIdentifier, fileExts: string[]) {
+	fileExts.forEach(ext => {
+		const normalized = ext.startsWith('.') ? ext : `.${ext}`;
+		extsToLanguage.set(normalized.toLowerCase(), languageId);
+	});
+}
+
 export function inferLanguage(filename: string): string {
 	const extname = path.extname(filename);
 	const languageId = extsToLanguage.get(extname.toLowerCase());
@@ -0,0 +1,27 @@
+import { execFile } from 'child_process';
+import path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, args: string[]): Promise<string[]> {
+	const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+	return stdout
+		.split('\n')
+		.map(line => line.trim())
+		.filter(line => line.length > 0);
+}
+
+/**
+ * Returns the absolute paths of files under `workspacePath` that changed since `ref`, including uncommitted
+ * and untracked (but not ignored) files. Deleted files are not returned.
+ */
+export async function listChangedFilesSince(workspacePath: string, ref: string): Promise<string[]> {
+	const [changed, untracked] = await Promise.all([
+		git(workspacePath, ['diff', '--name-only', '--relative', '--diff-filter=d', ref, '--']),
+		git(workspacePath, ['ls-files', '--others', '--exclude-standard']),
+	]);
+
+	const files = new Set([...changed, ...untracked].map(file => path.resolve(workspacePath, file)));
+	return Array.from(files);
+}
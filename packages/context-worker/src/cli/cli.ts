@@ -27,9 +27,31 @@ export class CommandLineParser {
 			.option('--run-interface', 'Run interface analysis', true)
 			.option('--run-api', 'Run API analysis', true)
 			.option('--run-symbol', 'Run symbol analysis', true)
+			.option('--run-dependency', 'Run dependency manifest analysis and write a CycloneDX SBOM', true)
 			.option('--skip-interface', 'Skip interface analysis', false)
 			.option('--skip-api', 'Skip API analysis', false)
-			.option('--skip-symbol', 'Skip symbol analysis', false);
+			.option('--skip-symbol', 'Skip symbol analysis', false)
+			.option('--skip-dependency', 'Skip dependency manifest analysis', false)
+			.option('--skip-dead-code', 'Skip dead code detection in the interface analysis', false)
+			.option('--skip-metrics', 'Skip code metrics in the interface analysis', false)
+			.option('--skip-test-mapping', 'Skip test mapping in the interface analysis', false)
+			.option('--skip-data-model', 'Skip data model extraction in the interface analysis', false)
+			.option('--skip-call-graph', 'Skip the call graph in the interface analysis', false)
+			.option('--no-cache', 'Disable the incremental analysis cache')
+			.option('--cache-dir <dir>', 'Directory for the incremental analysis cache', DEFAULT_CONFIG.cacheDir)
+			.option('--since <git-ref>', 'Re-analyse the files changed since the given git ref, other files are reused from the cache while their content is unchanged')
+			.option('-w, --watch', 'Keep running, re-analyse changed files and upload deltas', DEFAULT_CONFIG.watch)
+			.option('--openapi-output <file>', 'Export the scanned API resources as a draft OpenAPI document', DEFAULT_CONFIG.openApiOutput)
+			.option('-j, --jobs <n>', 'Number of threads for parsing files, defaults to the CPU count minus one, at least 50 files per thread', value => parseInt(value, 10))
+			.option('--diagram-group-by <package|module>', 'Group the classes of the class diagrams by package or by module', 'package')
+			.option('--diagram-package <prefix>', 'Only put classes of packages or directories with this prefix into the class diagrams')
+			.option('--diagram-depth <n>', 'Number of package or directory levels of a class diagram group', value => parseInt(value, 10))
+			.option('--diagram-fields', 'Include fields in the class diagrams', false)
+			.option('--proto-path <dirs...>', 'Extra directories to resolve proto imports from, like protoc -I')
+			.option('--allow-plugins', 'Load autodev.config.js and the plugins of the scanned repository, this runs its code', false)
+			.option('--relevant-code <file#method>', 'Print the input and output types of a method as UML instead of analysing, like src/order.ts#OrderService.place')
+			.option('--lsp', 'Run as a language server over stdio for document symbols, workspace symbols, definitions and references', false)
+			.option('--stdio', 'Use stdio for the language server, implies --lsp, passed by most language clients', false);
 
 		program.parse(process.argv);
 
@@ -49,7 +71,13 @@ export class CommandLineParser {
 		const analysisTypes = {
 			interface: options.runInterface && !options.skipInterface,
 			api: options.runApi && !options.skipApi,
-			symbol: options.runSymbol && !options.skipSymbol
+			symbol: options.runSymbol && !options.skipSymbol,
+			dependency: options.runDependency && !options.skipDependency,
+			deadCode: !options.skipDeadCode,
+			metrics: !options.skipMetrics,
+			testMapping: !options.skipTestMapping,
+			dataModel: !options.skipDataModel,
+			callGraph: !options.skipCallGraph
 		};
 
 		return {
@@ -61,7 +89,23 @@ export class CommandLineParser {
 			contextType,
 			outputJsonFile: options.outputFile || DEFAULT_CONFIG.outputJsonFile,
 			projectId: options.projectId || DEFAULT_CONFIG.projectId,
-			analysisTypes
+			analysisTypes,
+			cache: options.cache,
+			cacheDir: options.cacheDir || DEFAULT_CONFIG.cacheDir,
+			since: options.since,
+			watch: options.watch || DEFAULT_CONFIG.watch,
+			openApiOutput: options.openapiOutput,
+			jobs: options.jobs > 0 ? options.jobs : DEFAULT_CONFIG.jobs,
+			relevantCode: options.relevantCode,
+			lsp: options.lsp || options.stdio,
+			diagram: {
+				groupBy: options.diagramGroupBy === 'module' ? 'module' : 'package',
+				packagePrefix: options.diagramPackage,
+				depth: options.diagramDepth > 0 ? options.diagramDepth : undefined,
+				includeFields: options.diagramFields,
+			},
+			protoPaths: options.protoPath,
+			allowPlugins: options.allowPlugins,
 		};
 	}
 }
@@ -132,6 +176,11 @@ export class UserInputHandler {
 						name: '关键代码标识',
 						value: 'symbol',
 						checked: currentConfig.analysisTypes.symbol
+					},
+					{
+						name: '依赖清单与 SBOM',
+						value: 'dependency',
+						checked: currentConfig.analysisTypes.dependency
 					}
 				]
 			}
@@ -141,31 +190,32 @@ export class UserInputHandler {
 			? answers.dirPath
 			: path.resolve(process.cwd(), answers.dirPath);
 
-		// 转换用户选择的分析类型
+		// 转换用户选择的分析类型，未出现在提示中的分析开关（如 --skip-metrics）保持命令行的值
 		const selectedTypes = answers.analysisTypes || [];
-		const analysisTypes = {
+		const selected = {
 			interface: selectedTypes.includes('interface'),
 			api: selectedTypes.includes('api'),
-			symbol: selectedTypes.includes('symbol')
+			symbol: selectedTypes.includes('symbol'),
+			dependency: selectedTypes.includes('dependency')
 		};
 
 		// 如果用户没有选择任何类型，启用所有类型
 		if (!selectedTypes.length) {
-			analysisTypes.interface = true;
-			analysisTypes.api = true;
-			analysisTypes.symbol = true;
+			selected.interface = true;
+			selected.api = true;
+			selected.symbol = true;
+			selected.dependency = true;
 		}
 
 		return {
+			...currentConfig,
 			dirPath,
 			upload: answers.upload,
 			baseUrl: answers.upload ? answers.serverUrl : currentConfig.baseUrl,
 			outputDir: answers.outputDir,
-			contextType: currentConfig.contextType,
-			nonInteractive: currentConfig.nonInteractive,
 			outputJsonFile: answers.outputJsonFile,
 			projectId: answers.projectId,
-			analysisTypes
+			analysisTypes: { ...currentConfig.analysisTypes, ...selected }
 		};
 	}
 }
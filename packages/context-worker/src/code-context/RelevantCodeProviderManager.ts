@@ -1,5 +1,8 @@
+import fs from "fs";
+import { SyntaxNode } from "web-tree-sitter";
+
 import { providerContainer } from "../base/common/instantiation/instantiationService";
-import { LanguageIdentifier } from "../base/common/languages/languages";
+import { inferLanguage, LanguageIdentifier } from "../base/common/languages/languages";
 import { ILanguageServiceProvider } from "../base/common/languages/languageService";
 import { IRelevantCodeProvider } from "../ProviderTypes";
 import { RelevantCodeProvider } from "./base/RelevantCodeProvider";
@@ -7,6 +10,8 @@ import { CommentedUmlPresenter } from "../codemodel/presenter/CommentedUmlPresen
 import { CodeFile } from "../codemodel/CodeElement";
 import { TreeSitterFile } from "../ast/TreeSitterFile";
 import { NamedElement } from "../ast/NamedElement";
+import { TextInRange } from "../ast/TextInRange";
+import { CodeElementType } from "../codemodel/CodeElementType";
 
 
 export class RelevantCodeProviderManager {
@@ -58,6 +63,106 @@ export class RelevantCodeProviderManager {
 		return this.renderFiles(relatedFiles);
 	}
 
+	/**
+	 * The input and output types' files of a method, found by the file path and the method name. The name can be
+	 * qualified by its class, like `OrderService.placeOrder`, to pick one of several methods with the same name.
+	 *
+	 * @returns an empty array when the language has no relevant code provider or the method is not found
+	 */
+	async methodRelatedFiles(filePath: string, methodName: string): Promise<CodeFile[]> {
+		const languageId = inferLanguage(filePath);
+		const relatedProvider = this.provider(languageId, this.lsp);
+		if (!relatedProvider) {
+			return [];
+		}
+
+		await this.lsp.ready();
+		const parser = await this.lsp.getParser(languageId);
+		if (!parser) {
+			return [];
+		}
+
+		const source = await fs.promises.readFile(filePath, 'utf-8');
+		const file = await TreeSitterFile.fromParser(parser, this.lsp, languageId, source, filePath);
+		const method = this.findMethod(file, methodName);
+		if (!method) {
+			console.warn(`在 ${filePath} 中未找到方法 ${methodName}`);
+			return [];
+		}
+
+		return relatedProvider.getMethodFanInAndFanOut(file, method);
+	}
+
+	/**
+	 * {@link methodRelatedFiles} rendered as commented UML, ready to be put into a prompt
+	 */
+	async methodRelatedContext(filePath: string, methodName: string): Promise<string> {
+		return this.renderFiles(await this.methodRelatedFiles(filePath, methodName));
+	}
+
+	private findMethod(file: TreeSitterFile, qualifiedName: string): NamedElement | undefined {
+		const [owner, name] = qualifiedName.includes('.')
+			? [qualifiedName.substring(0, qualifiedName.lastIndexOf('.')), qualifiedName.substring(qualifiedName.lastIndexOf('.') + 1)]
+			: [undefined, qualifiedName];
+
+		const isMethod = (node: SyntaxNode) => {
+			const nameNode = node.childForFieldName('name');
+			if (nameNode?.text !== name) {
+				return false;
+			}
+
+			const isFunction = /function|method/.test(node.type)
+				|| (node.type === 'variable_declarator' && /function/.test(node.childForFieldName('value')?.type ?? ''));
+			return isFunction && (!owner || this.isOwnedBy(node, owner));
+		};
+
+		const found = this.findNode(file.tree.rootNode, isMethod);
+		if (!found) {
+			return undefined;
+		}
+
+		return new NamedElement(
+			TextInRange.fromNode(found),
+			TextInRange.fromNode(found.childForFieldName('name')!),
+			CodeElementType.Method,
+			found.text,
+			file,
+		);
+	}
+
+	/**
+	 * The enclosing class of the node is named `owner`, or for Go methods the receiver is of type `owner`
+	 */
+	private isOwnedBy(node: SyntaxNode, owner: string): boolean {
+		const receiver = node.childForFieldName('receiver');
+		if (receiver && new RegExp(`\\b${owner}\\b`).test(receiver.text)) {
+			return true;
+		}
+
+		for (let parent = node.parent; parent; parent = parent.parent) {
+			if (parent.childForFieldName('name')?.text === owner) {
+				return true;
+			}
+		}
+
+		return false;
+	}
+
+	private findNode(node: SyntaxNode, predicate: (node: SyntaxNode) => boolean): SyntaxNode | undefined {
+		if (predicate(node)) {
+			return node;
+		}
+
+		for (const child of node.namedChildren) {
+			const found = this.findNode(child, predicate);
+			if (found) {
+				return found;
+			}
+		}
+
+		return undefined;
+	}
+
 	renderFiles(relatedFiles: CodeFile[]) {
 		let umlPresenter = new CommentedUmlPresenter();
 		return relatedFiles
@@ -3,16 +3,40 @@ import { LanguageIdentifier } from '../../base/common/languages/languages';
 import { ILanguageServiceProvider } from '../../base/common/languages/languageService';
 import { ApiResource } from "@autodev/worker-core";
 import { CodeFile } from "../../codemodel/CodeElement";
-import Parser from "web-tree-sitter";
+import Parser, { SyntaxNode } from "web-tree-sitter";
 import { LanguageProfile } from "./LanguageProfile";
 import { StructurerProvider } from "./StructurerProvider";
 
 export interface ApiDemand {
+	// `Class.method` or function name of the call site
 	sourceCaller: string;
+	// url template, non-literal parts are kept as `{name}`, like `/api/users/{id}` or `{baseUrl}/api/users`
 	targetUrl: string;
 	targetHttpMethod: string;
+	// workspace relative path of the call site, filled in by HttpApiCodeAnalyser
+	sourceFile?: string;
+	// http client of the call site, like `RestTemplate`, `Feign`, `fetch` or `requests`
+	clientType?: string;
 }
 
+// the method of routes which accept every HTTP method, like `app.all()` in Express or the url patterns of Django
+export const ANY_HTTP_METHOD = 'ANY';
+
+const STRING_NODE_TYPES = new Set([
+	'string_literal', 'string', 'template_string', 'interpreted_string_literal', 'raw_string_literal', 'encapsed_string',
+]);
+const STRING_FRAGMENT_TYPES = new Set(['string_fragment', 'string_content', 'escape_sequence']);
+const STRING_DELIMITER_TYPES = new Set(['string_start', 'string_end']);
+const CONCAT_NODE_TYPES = new Set(['binary_expression', 'additive_expression', 'binary_operator']);
+
+const CALLER_FUNCTION_TYPES = new Set([
+	'method_declaration', 'constructor_declaration', 'function_declaration', 'method_definition',
+	'function_definition', 'arrow_function', 'function_expression', 'function',
+]);
+const CALLER_CLASS_TYPES = new Set([
+	'class_declaration', 'interface_declaration', 'object_declaration', 'class_definition', 'class',
+]);
+
 @injectable()
 export abstract class HttpApiAnalyser {
 	abstract readonly langId: LanguageIdentifier;
@@ -74,4 +98,128 @@ export abstract class HttpApiAnalyser {
 	 * @param workspacePath the workspace path
 	 */
 	abstract analysis(codeFile: CodeFile, workspacePath: string): Promise<ApiResource[]>;
+
+	/**
+	 * Extract the HTTP calls made by the source code, like RestTemplate or fetch calls
+	 * @param sourceCode the source code to analyse
+	 * @param filePath the file path of the source code
+	 * @param workspacePath the workspace path
+	 */
+	async demandAnalysis(sourceCode: string, filePath: string, workspacePath: string): Promise<ApiDemand[]> {
+		return [];
+	}
+
+	/**
+	 * Build the url template of an url argument: string literals are kept, concatenated or interpolated
+	 * expressions become `{name}`, e.g. `"/api/users/" + user.getId()` is `/api/users/{user.getId}`
+	 */
+	protected urlTemplateOf(node: SyntaxNode): string {
+		const literal = this.stringLiteralOf(node);
+		if (literal !== undefined) {
+			return literal;
+		}
+
+		if (STRING_NODE_TYPES.has(node.type)) {
+			return node.namedChildren.map(child => {
+				if (STRING_FRAGMENT_TYPES.has(child.type)) return child.text;
+				if (STRING_DELIMITER_TYPES.has(child.type)) return '';
+				return `{${this.placeholderOf(child)}}`;
+			}).join('');
+		}
+
+		if (CONCAT_NODE_TYPES.has(node.type) && node.children.some(child => child.type === '+')) {
+			const operands = node.namedChildren;
+			return this.urlTemplateOf(operands[0]) + this.urlTemplateOf(operands[operands.length - 1]);
+		}
+
+		if (node.type === 'parenthesized_expression' && node.namedChildCount === 1) {
+			return this.urlTemplateOf(node.namedChildren[0]);
+		}
+
+		return `{${this.placeholderOf(node)}}`;
+	}
+
+	/**
+	 * The value of a string literal without interpolation, undefined for any other node
+	 */
+	protected stringLiteralOf(node: SyntaxNode | null | undefined): string | undefined {
+		if (!node || !STRING_NODE_TYPES.has(node.type)) {
+			return undefined;
+		}
+
+		const isLiteral = node.namedChildren.every(child =>
+			STRING_FRAGMENT_TYPES.has(child.type) || STRING_DELIMITER_TYPES.has(child.type)
+		);
+		return isLiteral ? node.text.replace(/^[a-zA-Z]*(["'`])(.*)\1$/s, '$2') : undefined;
+	}
+
+	/**
+	 * Join route prefixes and paths with a single `/`, like `/api/` and `users` to `/api/users`
+	 */
+	protected joinRoutePaths(...paths: string[]): string {
+		return '/' + paths
+			.map(it => it.trim().replace(/^\/+|\/+$/g, ''))
+			.filter(it => it.length > 0)
+			.join('/');
+	}
+
+	/**
+	 * Anonymous handlers are named after their route, like `getUsersById` for `GET /users/:id`
+	 */
+	protected routeNameOf(httpMethod: string, routePath: string): string {
+		const words = routePath.split('/')
+			.filter(segment => segment.length > 0)
+			.map(segment => {
+				const variable = segment.match(/^(?::(\w+)|\{(\w+)[^}]*}|<(?:\w+:)?(\w+)>)$/);
+				const word = variable ? (variable[1] ?? variable[2] ?? variable[3]) : segment;
+				const capitalized = word.charAt(0).toUpperCase() + word.slice(1);
+				return variable ? `By${capitalized}` : capitalized;
+			})
+			.join('')
+			.replace(/\W/g, '');
+
+		return httpMethod.toLowerCase() + words;
+	}
+
+	/**
+	 * Only templates with a literal path part are kept, a bare `{url}` tells nothing about the target
+	 */
+	protected isUrlTemplate(template: string): boolean {
+		return template.replace(/\{[^}]*}/g, '').includes('/');
+	}
+
+	/**
+	 * The `Class.method` or function name which contains the node
+	 */
+	protected callerOf(node: SyntaxNode): string {
+		let functionName = '';
+		let className = '';
+		for (let current = node.parent; current; current = current.parent) {
+			if (!functionName && CALLER_FUNCTION_TYPES.has(current.type)) {
+				functionName = this.declarationNameOf(current);
+			} else if (CALLER_CLASS_TYPES.has(current.type)) {
+				className = this.declarationNameOf(current);
+				break;
+			}
+		}
+
+		if (className && functionName) return `${className}.${functionName}`;
+		return functionName || className;
+	}
+
+	private declarationNameOf(node: SyntaxNode): string {
+		const nameNode = node.childForFieldName('name') ??
+			node.namedChildren.find(child => ['identifier', 'simple_identifier', 'type_identifier'].includes(child.type));
+		if (nameNode) return nameNode.text;
+
+		// anonymous functions take the name of the variable or property they are assigned to
+		const parent = node.parent;
+		if (parent?.type === 'variable_declarator') return parent.childForFieldName('name')?.text ?? '';
+		if (parent?.type === 'pair') return parent.childForFieldName('key')?.text ?? '';
+		return '';
+	}
+
+	private placeholderOf(node: SyntaxNode): string {
+		return node.text.replace(/^\$?\{|}$/g, '').replace(/^\$/, '').replace(/[^\w.]/g, '');
+	}
 }
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import { injectable } from 'inversify';
+import { SyntaxNode } from 'web-tree-sitter';
+
+import { RelevantCodeProvider } from './RelevantCodeProvider';
+import { StructurerProvider } from './StructurerProvider';
+import { ILanguageServiceProvider } from '../../base/common/languages/languageService';
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { NamedElement } from '../../ast/NamedElement';
+import { TreeSitterFile } from '../../ast/TreeSitterFile';
+import { CodeFile } from '../../codemodel/CodeElement';
+
+/**
+ * Looks up the files which declare the input and output types of a method, by the imports of the current file.
+ */
+export interface RelevantImportLookup {
+	/**
+	 * Names of the types the method takes and returns, like `Order` for `place(order: Order): Receipt`
+	 */
+	methodIOTypes(methodNode: SyntaxNode): string[];
+
+	/**
+	 * Paths of the workspace files which declare the given types, types from libraries are dropped
+	 */
+	relevantTypesToFilePath(types: string[]): string[];
+}
+
+/**
+ * The fan-in and fan-out of a method for languages without a package-to-path convention like Java, where the
+ * declaring file of a type follows from the import statements of the current file.
+ */
+@injectable()
+export abstract class ImportRelevantCodeProvider implements RelevantCodeProvider {
+	abstract name: string;
+	abstract language: LanguageIdentifier;
+	languageService: ILanguageServiceProvider | undefined;
+
+	async setupLanguage(defaultLanguageServiceProvider: ILanguageServiceProvider) {
+		this.languageService = defaultLanguageServiceProvider;
+	}
+
+	protected abstract createStructurer(): StructurerProvider;
+
+	protected abstract createLookup(file: TreeSitterFile): RelevantImportLookup;
+
+	async getMethodFanInAndFanOut(file: TreeSitterFile, method: NamedElement): Promise<CodeFile[]> {
+		const methodNode = file.tree.rootNode.descendantForIndex(method.blockRange.startIndex, method.blockRange.endIndex);
+		const lookup = this.createLookup(file);
+		const paths = lookup.relevantTypesToFilePath(lookup.methodIOTypes(methodNode));
+
+		const structurer = this.createStructurer();
+		await structurer.init(this.languageService!!);
+
+		const codeFiles: CodeFile[] = [];
+		for (const path of paths) {
+			try {
+				const content = await fs.promises.readFile(path, 'utf8');
+				const codeFile = await structurer.parseFile(content, path);
+				if (codeFile !== undefined) {
+					codeFiles.push(codeFile);
+				}
+			} catch (e) {
+				console.info(`Failed to parse file ${path}`);
+			}
+		}
+
+		return codeFiles;
+	}
+}
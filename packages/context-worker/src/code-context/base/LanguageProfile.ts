@@ -19,6 +19,9 @@ export interface LanguageProfile {
 	// tree-sitter grammar for this language
 	grammar: (langService: ILanguageServiceProvider, langId?: LanguageIdentifier) => Promise<Language | undefined>;
 
+	// Compiled tree-sitter scope query, used by ScopeBuilder to build the ScopeGraph of a file
+	scopeQuery: MemoizedQuery;
+
 	// Compiled tree-sitter hoverables query
 	hoverableQuery: MemoizedQuery;
 
@@ -38,6 +41,9 @@ export interface LanguageProfile {
 
 	fieldQuery?: MemoizedQuery;
 
+	// call site query, captures `@call.name` and an optional `@call.receiver`, used by the call graph
+	callQuery?: MemoizedQuery;
+
 	// structurer query
 	structureQuery: MemoizedQuery;
 
@@ -3,6 +3,7 @@ import { injectable } from 'inversify';
 import { ILanguageServiceProvider } from '../../base/common/languages/languageService';
 import { LanguageProfile, MemoizedQuery } from '../base/LanguageProfile';
 import { LanguageIdentifier } from '../../base/common/languages/languages';
+import cScopeQuery from '../../code-search/schemas/indexes/c.scm';
 
 @injectable()
 export class CProfile implements LanguageProfile {
@@ -12,6 +13,7 @@ export class CProfile implements LanguageProfile {
     return langService.getLanguage('c');
   };
   isTestFile = (filePath: string) => filePath.endsWith('_test.c') || filePath.endsWith('_spec.c') || filePath.includes('/test/');
+  scopeQuery = new MemoizedQuery(cScopeQuery);
   hoverableQuery = new MemoizedQuery(`
     [(identifier)
      (field_identifier)
@@ -3,6 +3,7 @@ import { injectable } from 'inversify';
 import { ILanguageServiceProvider } from '../../base/common/languages/languageService';
 import { LanguageProfile, MemoizedQuery } from '../base/LanguageProfile';
 import { LanguageIdentifier } from '../../base/common/languages/languages';
+import cppScopeQuery from '../../code-search/schemas/indexes/cpp.scm';
 
 @injectable()
 export class CppProfile implements LanguageProfile {
@@ -12,6 +13,7 @@ export class CppProfile implements LanguageProfile {
     return langService.getLanguage('cpp');
   };
   isTestFile = (filePath: string) => filePath.endsWith('_test.cpp') || filePath.endsWith('_spec.cpp') || filePath.includes('/test/');
+  scopeQuery = new MemoizedQuery(cppScopeQuery);
   hoverableQuery = new MemoizedQuery(`
     [(identifier) 
      (type_identifier)] @hoverable
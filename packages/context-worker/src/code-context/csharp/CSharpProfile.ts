@@ -2,6 +2,7 @@ import { injectable } from 'inversify';
 
 import { LanguageProfile, MemoizedQuery } from "../base/LanguageProfile";
 import { ILanguageServiceProvider } from '../../base/common/languages/languageService';
+import cSharpScopeQuery from '../../code-search/schemas/indexes/c_sharp.scm';
 
 @injectable()
 export class CSharpProfile implements LanguageProfile {
@@ -9,6 +10,7 @@ export class CSharpProfile implements LanguageProfile {
 	fileExtensions = ['csharp'];
 	grammar = (langService: ILanguageServiceProvider) => langService.getLanguage('csharp');
 	isTestFile = (filePath: string) => filePath.endsWith('Test.cs') && filePath.includes('src/test');
+	scopeQuery = new MemoizedQuery(cSharpScopeQuery);
 	hoverableQuery = new MemoizedQuery(`
       [(identifier)
        (type_identifier)] @hoverable
@@ -0,0 +1,253 @@
+import { injectable } from 'inversify';
+import path from "path";
+import { SyntaxNode } from 'web-tree-sitter';
+import { ApiResource } from "@autodev/worker-core";
+
+import { ANY_HTTP_METHOD, HttpApiAnalyser } from '../base/HttpApiAnalyser';
+import { CodeFile } from '../../codemodel/CodeElement';
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { LanguageProfileUtil } from '../base/LanguageProfileUtil';
+import { StructurerProvider } from "../base/StructurerProvider";
+import { GolangProfile } from './GolangProfile';
+import { GoStructurerProvider } from './GoStructurerProvider';
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS', 'HEAD'];
+// gin and echo use `GET`, chi uses `Get`
+const ROUTE_METHODS: Record<string, string> = {
+	...Object.fromEntries(HTTP_METHODS.map(method => [method, method])),
+	...Object.fromEntries(HTTP_METHODS.map(method => [method.charAt(0) + method.slice(1).toLowerCase(), method])),
+	Any: ANY_HTTP_METHOD,
+};
+// net/http, gorilla/mux and chi `Handle("/path", h)`, gin `Handle("GET", "/path", h)` and echo `Add("GET", "/path", h)`
+const HANDLE_METHODS = ['Handle', 'HandleFunc', 'Add'];
+
+const FRAMEWORK_IMPORTS: [RegExp, string][] = [
+	[/github\.com\/gin-gonic\/gin/, 'Gin'],
+	[/github\.com\/labstack\/echo/, 'Echo'],
+	[/github\.com\/go-chi\/chi/, 'Chi'],
+	[/github\.com\/gorilla\/mux/, 'Gorilla'],
+];
+
+interface RouteGroup {
+	receiver: SyntaxNode;
+	path: string;
+}
+
+/**
+ * Routes of Go web services: gin, echo, chi, gorilla/mux and net/http (including the `"GET /users/{id}"` patterns of
+ * Go 1.22). Prefixes of `r.Group("/v1")`, `r.PathPrefix("/v1").Subrouter()` and chi `r.Route("/v1", func(r chi.Router))`
+ * are resolved inside a file.
+ */
+@injectable()
+export class GoHttpRouteAnalyser extends HttpApiAnalyser {
+	protected structurer: StructurerProvider = new GoStructurerProvider();
+	readonly langId: LanguageIdentifier = 'go';
+
+	constructor() {
+		super();
+		this.config = LanguageProfileUtil.from(this.langId) || new GolangProfile();
+	}
+
+	isApplicable(lang: LanguageIdentifier): boolean {
+		return lang === this.langId;
+	}
+
+	analysis(codeFile: CodeFile, workspacePath: string): Promise<ApiResource[]> {
+		return Promise.resolve([]);
+	}
+
+	async sourceCodeAnalysis(sourceCode: string, filePath: string, workspacePath: string): Promise<ApiResource[]> {
+		if (!this.language || !this.parser) {
+			console.warn(`GoHttpRouteAnalyser not initialized for ${this.langId}`);
+			return [];
+		}
+
+		if (!sourceCode) {
+			return [];
+		}
+
+		const tree = this.parser.parse(sourceCode);
+		const groups = this.findGroups(tree.rootNode);
+		const supplyType = FRAMEWORK_IMPORTS.find(([pattern]) => pattern.test(sourceCode))?.[1] ?? 'net/http';
+		const packageName = path.relative(workspacePath, filePath);
+
+		for (const call of tree.rootNode.descendantsOfType('call_expression')) {
+			const callee = call.childForFieldName('function');
+			if (callee?.type !== 'selector_expression') continue;
+
+			const name = callee.childForFieldName('field')?.text ?? '';
+			const args = call.childForFieldName('arguments')?.namedChildren.filter(arg => arg.type !== 'comment') ?? [];
+			const route = this.routeOf(call, name, args, supplyType);
+			if (!route) continue;
+
+			const receiver = callee.childForFieldName('operand')!;
+			const sourceUrl = this.joinRoutePaths(this.prefixOf(receiver, groups), route.path);
+			for (const httpMethod of route.httpMethods) {
+				this.resources.push({
+					id: "",
+					sourceUrl,
+					sourceHttpMethod: httpMethod,
+					packageName,
+					className: path.basename(filePath),
+					methodName: this.handlerNameOf(route.handler) || this.routeNameOf(httpMethod, sourceUrl),
+					supplyType,
+				});
+			}
+		}
+
+		return this.resources;
+	}
+
+	private routeOf(call: SyntaxNode, name: string, args: SyntaxNode[], supplyType: string): { httpMethods: string[], path: string, handler: SyntaxNode } | undefined {
+		if (ROUTE_METHODS[name]) {
+			// gin groups take `""` for the group path itself
+			const routePath = this.stringLiteralOf(args[0]);
+			if (routePath === undefined || !/^(\/|$)/.test(routePath) || args.length < 2) return undefined;
+
+			// echo takes the middlewares after the handler
+			const handler = supplyType === 'Echo' ? args[1] : args[args.length - 1];
+			return { httpMethods: [ROUTE_METHODS[name]], path: routePath, handler };
+		}
+
+		if (!HANDLE_METHODS.includes(name) || args.length < 2) return undefined;
+
+		const first = this.stringLiteralOf(args[0]);
+		if (first === undefined) return undefined;
+
+		if (HTTP_METHODS.includes(first)) {
+			const routePath = this.stringLiteralOf(args[1]);
+			if (routePath === undefined || !routePath.startsWith('/') || args.length < 3) return undefined;
+			return { httpMethods: [first], path: routePath, handler: args[args.length - 1] };
+		}
+
+		// Go 1.22 patterns, like `GET /users/{id}`
+		const pattern = first.match(/^(?:([A-Z]+)\s+)?(\/.*)$/);
+		if (!pattern) return undefined;
+
+		const httpMethods = pattern[1] ? [pattern[1]] : this.chainedMethodsOf(call);
+		return { httpMethods, path: pattern[2], handler: args[args.length - 1] };
+	}
+
+	/**
+	 * gorilla/mux `r.HandleFunc("/users", h).Methods("GET", "POST")`, otherwise the route accepts any method
+	 */
+	private chainedMethodsOf(call: SyntaxNode): string[] {
+		const selector = call.parent;
+		if (selector?.type === 'selector_expression' && selector.childForFieldName('field')?.text === 'Methods') {
+			const methods = (selector.parent?.childForFieldName('arguments')?.namedChildren ?? [])
+				.map(arg => this.stringLiteralOf(arg)?.toUpperCase())
+				.filter((method): method is string => !!method);
+			if (methods.length > 0) return methods;
+		}
+
+		return [ANY_HTTP_METHOD];
+	}
+
+	/**
+	 * Variables assigned with `r.Group("/v1")` or `r.PathPrefix("/v1").Subrouter()`
+	 */
+	private findGroups(rootNode: SyntaxNode): Map<string, RouteGroup> {
+		const groups = new Map<string, RouteGroup>();
+		for (const declaration of rootNode.descendantsOfType(['short_var_declaration', 'assignment_statement', 'var_spec'])) {
+			const names = declaration.type === 'var_spec'
+				? declaration.childrenForFieldName('name')
+				: declaration.childForFieldName('left')?.namedChildren ?? [];
+			const values = declaration.type === 'var_spec'
+				? declaration.childForFieldName('value')?.namedChildren ?? []
+				: declaration.childForFieldName('right')?.namedChildren ?? [];
+
+			names.forEach((name, index) => {
+				const group = values[index] ? this.groupOf(values[index]) : undefined;
+				if (group && name.type === 'identifier' && !groups.has(name.text)) {
+					groups.set(name.text, group);
+				}
+			});
+		}
+
+		return groups;
+	}
+
+	private groupOf(node: SyntaxNode): RouteGroup | undefined {
+		if (node.type !== 'call_expression') return undefined;
+
+		const callee = node.childForFieldName('function');
+		if (callee?.type !== 'selector_expression') return undefined;
+
+		const name = callee.childForFieldName('field')?.text;
+		const operand = callee.childForFieldName('operand')!;
+		if (name === 'Subrouter') {
+			return this.groupOf(operand);
+		}
+
+		if (name === 'Group' || name === 'PathPrefix') {
+			const routePath = this.stringLiteralOf(node.childForFieldName('arguments')?.namedChildren[0]);
+			return routePath !== undefined ? { receiver: operand, path: routePath } : undefined;
+		}
+
+		return undefined;
+	}
+
+	private prefixOf(receiver: SyntaxNode, groups: Map<string, RouteGroup>, visited = new Set<SyntaxNode>()): string {
+		if (visited.has(receiver)) return '';
+		visited.add(receiver);
+
+		const inlineGroup = this.groupOf(receiver);
+		if (inlineGroup) {
+			return this.joinRoutePaths(this.prefixOf(inlineGroup.receiver, groups, visited), inlineGroup.path);
+		}
+
+		if (receiver.type !== 'identifier') return '';
+
+		const routeGroup = this.closureGroupOf(receiver);
+		if (routeGroup) {
+			return this.joinRoutePaths(this.prefixOf(routeGroup.receiver, groups, visited), routeGroup.path);
+		}
+
+		const group = groups.get(receiver.text);
+		if (group && !visited.has(group.receiver)) {
+			return this.joinRoutePaths(this.prefixOf(group.receiver, groups, visited), group.path);
+		}
+
+		return '';
+	}
+
+	/**
+	 * chi `r.Route("/users", func(r chi.Router) { ... })`, the router parameter of the closure has the route prefix
+	 */
+	private closureGroupOf(identifier: SyntaxNode): RouteGroup | undefined {
+		for (let current = identifier.parent; current; current = current.parent) {
+			if (current.type !== 'func_literal') continue;
+
+			const parameters = current.childForFieldName('parameters')?.namedChildren ?? [];
+			const isParameter = parameters.some(param => param.childrenForFieldName('name').some(name => name.text === identifier.text));
+			if (!isParameter) continue;
+
+			const call = current.parent?.parent;
+			const callee = call?.type === 'call_expression' ? call.childForFieldName('function') : undefined;
+			if (callee?.type !== 'selector_expression') return undefined;
+
+			const name = callee.childForFieldName('field')?.text;
+			const routePath = name === 'Route' ? this.stringLiteralOf(call!.childForFieldName('arguments')?.namedChildren[0]) : '';
+			if (routePath === undefined || (name !== 'Route' && name !== 'Group')) return undefined;
+
+			return { receiver: callee.childForFieldName('operand')!, path: routePath };
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * `getUser` for `getUser`, `h.getUser` and `http.HandlerFunc(getUser)`, empty for inline functions
+	 */
+	private handlerNameOf(handler: SyntaxNode): string {
+		if (handler.type === 'identifier') return handler.text;
+		if (handler.type === 'selector_expression') return handler.childForFieldName('field')?.text ?? '';
+
+		if (handler.type === 'call_expression') {
+			const args = handler.childForFieldName('arguments')?.namedChildren ?? [];
+			return args.length > 0 ? this.handlerNameOf(args[args.length - 1]) : '';
+		}
+
+		return '';
+	}
+}
@@ -0,0 +1,22 @@
+import { injectable } from 'inversify';
+
+import { ImportRelevantCodeProvider, RelevantImportLookup } from '../base/ImportRelevantCodeProvider';
+import { StructurerProvider } from '../base/StructurerProvider';
+import { TreeSitterFile } from '../../ast/TreeSitterFile';
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { GoStructurerProvider } from './GoStructurerProvider';
+import { GoRelevantLookup } from './utils/GoRelevantLookup';
+
+@injectable()
+export class GoRelevantCodeProvider extends ImportRelevantCodeProvider {
+	name = 'GoRelatedProvider';
+	language: LanguageIdentifier = 'go';
+
+	protected createStructurer(): StructurerProvider {
+		return new GoStructurerProvider();
+	}
+
+	protected createLookup(file: TreeSitterFile): RelevantImportLookup {
+		return new GoRelevantLookup(file);
+	}
+}
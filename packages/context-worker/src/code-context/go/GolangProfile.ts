@@ -2,6 +2,7 @@ import { injectable } from 'inversify';
 
 import { ILanguageServiceProvider } from "../../base/common/languages/languageService";
 import { LanguageProfile, MemoizedQuery } from "../base/LanguageProfile";
+import goScopeQuery from '../../code-search/schemas/indexes/go.scm';
 
 @injectable()
 export class GolangProfile implements LanguageProfile {
@@ -9,6 +10,7 @@ export class GolangProfile implements LanguageProfile {
 	fileExtensions = ['go'];
 	grammar = (langService: ILanguageServiceProvider) => langService.getLanguage('go');
 	isTestFile = (filePath: string) => filePath.endsWith('_test.go');
+	scopeQuery = new MemoizedQuery(goScopeQuery);
 	hoverableQuery = new MemoizedQuery(`
      [(identifier)
        (type_identifier)
@@ -45,6 +47,15 @@ export class GolangProfile implements LanguageProfile {
       )
 
     `);
+	callQuery = new MemoizedQuery(`
+		(call_expression
+			function: [
+				(identifier) @call.name
+				(selector_expression
+					operand: (_) @call.receiver
+					field: (field_identifier) @call.name)
+			])
+	`);
 	blockCommentQuery = new MemoizedQuery(`
 		((comment)+) @docComment
 	`);
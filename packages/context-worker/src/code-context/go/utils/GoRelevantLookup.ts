@@ -0,0 +1,128 @@
+import fs from 'fs';
+import path from 'path';
+import { SyntaxNode } from 'web-tree-sitter';
+
+import { TreeSitterFile } from '../../../ast/TreeSitterFile';
+import { RelevantImportLookup } from '../../base/ImportRelevantCodeProvider';
+
+const BUILTIN_TYPES = new Set([
+	'bool', 'byte', 'complex64', 'complex128', 'error', 'float32', 'float64', 'int', 'int8', 'int16', 'int32', 'int64',
+	'rune', 'string', 'uint', 'uint8', 'uint16', 'uint32', 'uint64', 'uintptr', 'any', 'comparable',
+]);
+
+/**
+ * Resolves the parameter and result types of a Go function to the files declaring them. Unqualified types are looked
+ * up in the package of the current file, qualified types like `model.Order` in the package directory of the import,
+ * when the import path is inside the module of the nearest `go.mod`.
+ */
+export class GoRelevantLookup implements RelevantImportLookup {
+	constructor(private readonly tsfile: TreeSitterFile) {
+	}
+
+	/**
+	 * Types as written in the signature, `Order` or `model.Order`
+	 */
+	methodIOTypes(methodNode: SyntaxNode): string[] {
+		const functionTypes = ['function_declaration', 'method_declaration'];
+		const functionNode = functionTypes.includes(methodNode.type)
+			? methodNode
+			: methodNode.descendantsOfType(functionTypes)[0];
+		if (!functionNode) {
+			return [];
+		}
+
+		const signature = [
+			functionNode.childForFieldName('parameters'),
+			functionNode.childForFieldName('result'),
+		].filter((node): node is SyntaxNode => !!node);
+
+		const types = signature.flatMap(node => [
+			...node.descendantsOfType('qualified_type').map(it => it.text),
+			...node.descendantsOfType('type_identifier')
+				.filter(it => it.parent?.type !== 'qualified_type' && !BUILTIN_TYPES.has(it.text))
+				.map(it => it.text),
+		]);
+
+		return [...new Set(types)];
+	}
+
+	relevantTypesToFilePath(types: string[]): string[] {
+		const imports = this.importPaths();
+		const currentDir = path.dirname(this.tsfile.filePath);
+
+		const paths = types.map(type => {
+			const [pkg, name] = type.includes('.') ? type.split('.') : ['', type];
+			const dir = pkg === '' ? currentDir : this.packageDir(imports.get(pkg));
+			return dir ? declaringFile(dir, name) : undefined;
+		}).filter((file): file is string => !!file && file !== this.tsfile.filePath);
+
+		return [...new Set(paths)];
+	}
+
+	/**
+	 * Package names to import paths, the name is the alias or the last segment of the path
+	 */
+	importPaths(): Map<string, string> {
+		const imports = new Map<string, string>();
+		for (const spec of this.tsfile.tree.rootNode.descendantsOfType('import_spec')) {
+			const importPath = spec.childForFieldName('path')?.text.replace(/^["`]|["`]$/g, '');
+			if (!importPath) continue;
+
+			const alias = spec.childForFieldName('name')?.text;
+			imports.set(alias ?? importPath.split('/').pop()!, importPath);
+		}
+
+		return imports;
+	}
+
+	private packageDir(importPath: string | undefined): string | undefined {
+		const module = importPath ? findGoModule(path.dirname(this.tsfile.filePath)) : undefined;
+		if (!importPath || !module) {
+			return undefined;
+		}
+
+		if (importPath !== module.path && !importPath.startsWith(module.path + '/')) {
+			return undefined;
+		}
+
+		return path.join(module.root, importPath.substring(module.path.length));
+	}
+}
+
+function findGoModule(startDir: string): { root: string, path: string } | undefined {
+	let dir = startDir;
+	while (true) {
+		const goMod = path.join(dir, 'go.mod');
+		if (fs.existsSync(goMod)) {
+			const modulePath = fs.readFileSync(goMod, 'utf-8').match(/^module\s+(\S+)/m)?.[1];
+			return modulePath ? { root: dir, path: modulePath } : undefined;
+		}
+
+		const parent = path.dirname(dir);
+		if (parent === dir) {
+			return undefined;
+		}
+		dir = parent;
+	}
+}
+
+/**
+ * The non-test file of the package directory with `type Name ...`, also inside a `type ( ... )` group
+ */
+function declaringFile(dir: string, name: string): string | undefined {
+	if (!fs.existsSync(dir)) {
+		return undefined;
+	}
+
+	const single = new RegExp(`^type\\s+${name}\\b`, 'm');
+	const grouped = new RegExp(`^\\s+${name}\\s`, 'm');
+
+	return fs.readdirSync(dir)
+		.filter(file => file.endsWith('.go') && !file.endsWith('_test.go'))
+		.map(file => path.join(dir, file))
+		.find(file => {
+			const content = fs.readFileSync(file, 'utf-8');
+			const groups = content.match(/^type\s*\([\s\S]*?^\)/gm) ?? [];
+			return single.test(content) || groups.some(group => grouped.test(group));
+		});
+}
@@ -2,6 +2,7 @@ import { injectable } from 'inversify';
 
 import { ILanguageServiceProvider } from '../../base/common/languages/languageService';
 import { LanguageProfile, MemoizedQuery } from '../base/LanguageProfile';
+import javaScopeQuery from '../../code-search/schemas/indexes/java.scm';
 
 @injectable()
 export class JavaProfile implements LanguageProfile {
@@ -9,6 +10,7 @@ export class JavaProfile implements LanguageProfile {
 	fileExtensions = ['java'];
 	grammar = (langService: ILanguageServiceProvider) => langService.getLanguage('java');
 	isTestFile = (filePath: string) => filePath.endsWith('Test.java') && filePath.includes('src/test');
+	scopeQuery = new MemoizedQuery(javaScopeQuery);
 	hoverableQuery = new MemoizedQuery(`
       [(identifier)
        (type_identifier)] @hoverable
@@ -21,6 +23,11 @@ export class JavaProfile implements LanguageProfile {
       (class_declaration
         name: (identifier) @name.definition.class) @definition.class
     `);
+	callQuery = new MemoizedQuery(`
+		(method_invocation
+			object: (_)? @call.receiver
+			name: (identifier) @call.name)
+	`);
 	blockCommentQuery = new MemoizedQuery(`
 		((block_comment) @block_comment
 			(#match? @block_comment "^\\\\/\\\\*\\\\*")) @docComment`);
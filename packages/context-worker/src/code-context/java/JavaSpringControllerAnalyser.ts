@@ -14,15 +14,12 @@ export class JavaSpringControllerAnalyser extends SpringRestApiAnalyser {
 	protected structurer: StructurerProvider = new JavaStructurerProvider();
 	readonly langId: LanguageIdentifier = 'java';
 
-	protected restTemplateQuery = new MemoizedQuery(`
+	protected httpClientQuery = new MemoizedQuery(`
     (method_invocation
-      object: (identifier) @object-name
+      object: (_) @receiver
       name: (identifier) @method-name
-      arguments: (argument_list
-        (string_literal) @url-arg
-        (_)* @other-args
-      )
-    )
+      arguments: (argument_list) @args
+    ) @call
   `);
 
 	constructor() {
@@ -134,6 +134,11 @@ export class JavaStructurerProvider extends BaseStructurerProvider {
 					const classNode: Parser.SyntaxNode | null = capture.node?.parent ?? null;
 					if (classNode !== null) {
 						this.insertLocation(classNode, classObj);
+						// `extends BaseService<Order>` is `BaseService`
+						const superclass = classNode.childForFieldName('superclass')?.namedChildren[0];
+						if (superclass) {
+							classObj.extends = [superclass.text.replace(/<[\s\S]*$/, '')];
+						}
 						if (!isLastNode) {
 							isLastNode = true;
 						}
@@ -235,6 +240,7 @@ export class JavaStructurerProvider extends BaseStructurerProvider {
 					if (methodName !== '') {
 						const methodNode = capture.node;
 						const methodObj = this.createFunction(capture.node, methodName);
+						methodObj.parameters = this.parametersOf(capture.node.parent);
 						if (methodReturnType !== '') {
 							methodObj.returnType = methodReturnType;
 						}
@@ -348,6 +354,7 @@ export class JavaStructurerProvider extends BaseStructurerProvider {
 				case 'class-method.body':
 					if (classMethodName !== '') {
 						const methodObj = this.createFunction(capture.node, classMethodName);
+						methodObj.parameters = this.parametersOf(capture.node.parent);
 						if (classMethodReturnType !== '') {
 							methodObj.returnType = classMethodReturnType;
 						}
@@ -487,4 +494,17 @@ export class JavaStructurerProvider extends BaseStructurerProvider {
 		}
 		return text;
 	}
+
+	/**
+	 * Parameters of a method declaration, `@PathVariable Long id` is `{ name: 'id', type: 'Long' }`
+	 */
+	private parametersOf(methodNode: SyntaxNode | null): { name: string, type: string }[] {
+		const parameters = methodNode?.childForFieldName('parameters');
+		return (parameters?.namedChildren || [])
+			.filter(param => param.type === 'formal_parameter')
+			.map(param => ({
+				name: param.childForFieldName('name')?.text ?? '',
+				type: param.childForFieldName('type')?.text ?? '',
+			}));
+	}
 }
@@ -0,0 +1,249 @@
+import { injectable } from "inversify";
+import path from "path";
+import { SyntaxNode } from 'web-tree-sitter';
+import { ApiResource } from "@autodev/worker-core";
+
+import { ANY_HTTP_METHOD, HttpApiAnalyser } from '../base/HttpApiAnalyser';
+import { MemoizedQuery } from '../base/LanguageProfile';
+import { CodeFile } from '../../codemodel/CodeElement';
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { StructurerProvider } from "../base/StructurerProvider";
+
+// `del` is the koa-router alias of `delete`
+const ROUTE_METHODS = ['get', 'post', 'put', 'delete', 'del', 'patch', 'options', 'head', 'all'];
+// `express()`, `express.Router()`, `Router()`, `new Router()` of koa-router and `new Koa()`
+const ROUTER_FACTORY = /^(express|express\.Router|Router|KoaRouter|Koa)$/;
+// routers which are passed in or imported, like `module.exports = (router) => { router.get(...) }`
+const ROUTER_NAME = /^(app|router|server|api)$|Router$/i;
+const HANDLER_FUNCTION_TYPES = ['arrow_function', 'function_expression', 'function'];
+const KOA_IMPORT = /['"](koa|koa-router|@koa\/router)['"]/;
+
+interface RouterMount {
+	parent: string;
+	path: string;
+}
+
+/**
+ * Routes of Express and Koa (koa-router) applications, which share the same `router.get('/path', handler)` style.
+ *
+ * Router prefixes are resolved inside a file: `new Router({ prefix: '/users' })`, `router.prefix('/users')` and
+ * `app.use('/api', router)` or `app.use('/api', router.routes())`. Routers mounted from another file keep their own
+ * paths.
+ */
+@injectable()
+export abstract class ExpressRouteAnalyser extends HttpApiAnalyser {
+	protected abstract structurer: StructurerProvider;
+	abstract override readonly langId: LanguageIdentifier;
+
+	protected routerQuery = new MemoizedQuery(`
+		(variable_declarator
+			name: (identifier) @router-name
+			value: [
+				(call_expression function: (_) @router-factory arguments: (arguments) @router-args)
+				(new_expression constructor: (_) @router-factory arguments: (arguments)? @router-args)
+			]
+		)
+	`);
+
+	protected routeCallQuery = new MemoizedQuery(`
+		(call_expression
+			function: (member_expression
+				object: (_) @receiver
+				property: (property_identifier) @method-name
+			)
+			arguments: (arguments) @args
+		)
+	`);
+
+	isApplicable(lang: LanguageIdentifier): boolean {
+		return lang === this.langId;
+	}
+
+	analysis(codeFile: CodeFile, workspacePath: string): Promise<ApiResource[]> {
+		return Promise.resolve([]);
+	}
+
+	async sourceCodeAnalysis(sourceCode: string, filePath: string, workspacePath: string): Promise<ApiResource[]> {
+		if (!this.language || !this.parser) {
+			console.warn(`${this.constructor.name} not initialized for ${this.langId}`);
+			return [];
+		}
+
+		if (!sourceCode) {
+			return [];
+		}
+
+		const tree = this.parser.parse(sourceCode);
+		const routers = this.findRouters(tree.rootNode);
+		const calls = this.routeCallQuery.query(this.language).matches(tree.rootNode).map(match => {
+			const nodeOf = (name: string) => match.captures.find(capture => capture.name === name)!.node;
+			return {
+				receiver: nodeOf('receiver'),
+				methodName: nodeOf('method-name').text,
+				args: nodeOf('args').namedChildren.filter(arg => arg.type !== 'comment'),
+			};
+		});
+
+		const mounts = new Map<string, RouterMount>();
+		for (const { receiver, methodName, args } of calls) {
+			if (methodName === 'prefix' && routers.has(receiver.text)) {
+				// koa-router: router.prefix('/users')
+				routers.set(receiver.text, this.stringLiteralOf(args[0]) ?? '');
+			} else if (methodName === 'use' && args.length >= 2) {
+				const mountPath = this.stringLiteralOf(args[0]);
+				const child = this.routerNameOf(args[args.length - 1]);
+				if (mountPath !== undefined && child && child !== receiver.text) {
+					mounts.set(child, { parent: receiver.text, path: mountPath });
+				}
+			}
+		}
+
+		const packageName = path.relative(workspacePath, filePath);
+		const supplyType = KOA_IMPORT.test(sourceCode) ? "Koa" : "Express";
+		for (const { receiver, methodName, args } of calls) {
+			if (!ROUTE_METHODS.includes(methodName)) continue;
+
+			const route = this.routeOf(receiver, args);
+			if (!route || !(routers.has(route.router) || ROUTER_NAME.test(route.router))) continue;
+
+			const handlers = args.filter(arg => arg !== route.pathNode);
+			if (handlers.length === 0) continue;
+
+			const httpMethod = methodName === 'all' ? ANY_HTTP_METHOD : (methodName === 'del' ? 'DELETE' : methodName.toUpperCase());
+			const sourceUrl = this.joinRoutePaths(this.prefixOf(route.router, routers, mounts), route.path);
+			this.resources.push({
+				id: "",
+				sourceUrl,
+				sourceHttpMethod: httpMethod,
+				packageName,
+				className: path.basename(filePath),
+				methodName: this.handlerNameOf(handlers[handlers.length - 1]) || this.routeNameOf(httpMethod, sourceUrl),
+				supplyType,
+			});
+		}
+
+		return this.resources;
+	}
+
+	/**
+	 * Variables holding an app or a router, with the prefix of the router
+	 */
+	private findRouters(rootNode: SyntaxNode): Map<string, string> {
+		const routers = new Map<string, string>();
+		for (const match of this.routerQuery.query(this.language).matches(rootNode)) {
+			const nodeOf = (name: string) => match.captures.find(capture => capture.name === name)?.node;
+			const factory = nodeOf('router-factory')!.text;
+			if (!ROUTER_FACTORY.test(factory)) continue;
+
+			const name = nodeOf('router-name')!.text;
+			const options = nodeOf('router-args')?.namedChildren.find(arg => arg.type === 'object');
+			const prefix = options?.namedChildren
+				.find(pair => pair.type === 'pair' && pair.childForFieldName('key')?.text === 'prefix')
+				?.childForFieldName('value');
+
+			routers.set(name, this.stringLiteralOf(prefix) ?? '');
+		}
+
+		return routers;
+	}
+
+	/**
+	 * The router and path of a route call: `router.get('/users', handler)`, the named routes of koa-router
+	 * `router.get('users', '/users', handler)`, and the chains `router.route('/users').get(list).post(create)`
+	 */
+	private routeOf(receiver: SyntaxNode, args: SyntaxNode[]): { router: string, path: string, pathNode?: SyntaxNode } | undefined {
+		const first = this.stringLiteralOf(args[0]);
+		if (first !== undefined) {
+			const second = this.stringLiteralOf(args[1]);
+			const [routePath, pathNode] = second !== undefined ? [second, args[1]] : [first, args[0]];
+			if (!this.isRoutePath(routePath)) return undefined;
+
+			// koa-router returns the router, so `router.get('/a', a).post('/b', b)` is a chain of routes
+			const router = this.chainRootOf(receiver, () => true);
+			return router ? { router: router.text, path: routePath, pathNode } : undefined;
+		}
+
+		let routePath: string | undefined;
+		const router = this.chainRootOf(receiver, (name, callArgs) => {
+			if (name !== 'route') return true;
+			routePath = this.stringLiteralOf(callArgs[0]);
+			return false;
+		});
+
+		if (!router || routePath === undefined || !this.isRoutePath(routePath)) return undefined;
+		return { router: router.text, path: routePath };
+	}
+
+	/**
+	 * Follow the receivers of chained calls down to the router, `visit` is called for each call of the chain and stops
+	 * the walk by returning false
+	 */
+	private chainRootOf(receiver: SyntaxNode, visit: (name: string, args: SyntaxNode[]) => boolean): SyntaxNode | undefined {
+		let current = receiver;
+		while (current.type === 'call_expression') {
+			const callee = current.childForFieldName('function');
+			if (callee?.type !== 'member_expression') return undefined;
+
+			const name = callee.childForFieldName('property')?.text ?? '';
+			if (name !== 'route' && !ROUTE_METHODS.includes(name)) return undefined;
+
+			const callArgs = current.childForFieldName('arguments')?.namedChildren ?? [];
+			const object = callee.childForFieldName('object')!;
+			if (!visit(name, callArgs)) {
+				return object;
+			}
+
+			current = object;
+		}
+
+		return current;
+	}
+
+	private prefixOf(router: string, routers: Map<string, string>, mounts: Map<string, RouterMount>, visited = new Set<string>()): string {
+		if (visited.has(router)) return '';
+		visited.add(router);
+
+		const mount = mounts.get(router);
+		const ownPrefix = routers.get(router) ?? '';
+		if (!mount) return ownPrefix;
+
+		return this.joinRoutePaths(this.prefixOf(mount.parent, routers, mounts, visited), mount.path, ownPrefix);
+	}
+
+	/**
+	 * `router` in `app.use('/api', router)` and `app.use('/api', router.routes())`
+	 */
+	private routerNameOf(node: SyntaxNode): string | undefined {
+		if (node.type === 'identifier') return node.text;
+
+		const callee = node.type === 'call_expression' ? node.childForFieldName('function') : undefined;
+		if (callee?.type === 'member_expression' && callee.childForFieldName('property')?.text === 'routes') {
+			return callee.childForFieldName('object')?.text;
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * `getUser` for `getUser`, `users.get` and `asyncHandler(getUser)`, empty for inline functions
+	 */
+	private handlerNameOf(handler: SyntaxNode): string {
+		if (handler.type === 'identifier') return handler.text;
+		if (handler.type === 'member_expression') return handler.childForFieldName('property')?.text ?? '';
+		if (HANDLER_FUNCTION_TYPES.includes(handler.type)) return '';
+
+		if (handler.type === 'call_expression') {
+			const args = handler.childForFieldName('arguments')?.namedChildren ?? [];
+			return args.length > 0 ? this.handlerNameOf(args[args.length - 1]) : '';
+		}
+
+		return '';
+	}
+
+	/**
+	 * Skip calls like `app.get('env')` or `cache.get(key, fallback)`
+	 */
+	private isRoutePath(routePath: string): boolean {
+		return routePath.startsWith('/') || routePath === '*';
+	}
+}
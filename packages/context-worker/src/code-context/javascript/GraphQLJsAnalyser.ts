@@ -0,0 +1,198 @@
+import { injectable } from "inversify";
+import path from "path";
+import { SyntaxNode } from 'web-tree-sitter';
+import { ApiResource } from "@autodev/worker-core";
+
+import { HttpApiAnalyser } from '../base/HttpApiAnalyser';
+import { CodeFile } from '../../codemodel/CodeElement';
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { StructurerProvider } from "../base/StructurerProvider";
+import { GRAPHQL_OPERATION_KINDS, GraphQLResourceGenerator, graphQLResourceOf } from "../../graphql/GraphQLResourceGenerator";
+import { GraphQLOperationKind, GraphQLSchemaParser } from "../../graphql/GraphQLSchemaParser";
+
+// tags and functions which take SDL, like gql`type Query { ... }` or buildSchema(`...`)
+const SDL_FUNCTIONS = new Set(['gql', 'graphql', 'buildSchema']);
+const GRAPHQL_IMPORT = /['"](graphql|graphql-tag|@apollo\/server|apollo-server[\w-]*|@graphql-tools\/[\w-]+|graphql-yoga|mercurius)['"]/;
+const FUNCTION_TYPES = ['arrow_function', 'function_expression', 'function'];
+
+interface ObjectTypeDeclaration {
+	variable: string;
+	typeName: string;
+	fields: string[];
+}
+
+/**
+ * Operations of graphql-js style schemas in JavaScript and TypeScript:
+ *
+ * - SDL in `gql` or `graphql` tagged templates, `buildSchema()` calls and `typeDefs` properties, as used by Apollo
+ *   Server and graphql-tools. Client queries in `gql` templates are skipped by the SDL parser.
+ * - `new GraphQLObjectType({ name: 'Query', fields: { ... } })` object types, which are root types by their name or by
+ *   the `query`, `mutation` and `subscription` of `new GraphQLSchema({ ... })`.
+ */
+@injectable()
+export abstract class GraphQLJsAnalyser extends HttpApiAnalyser {
+	protected abstract structurer: StructurerProvider;
+	abstract override readonly langId: LanguageIdentifier;
+
+	isApplicable(lang: LanguageIdentifier): boolean {
+		return lang === this.langId;
+	}
+
+	analysis(codeFile: CodeFile, workspacePath: string): Promise<ApiResource[]> {
+		return Promise.resolve([]);
+	}
+
+	async sourceCodeAnalysis(sourceCode: string, filePath: string, workspacePath: string): Promise<ApiResource[]> {
+		if (!this.language || !this.parser) {
+			console.warn(`${this.constructor.name} not initialized for ${this.langId}`);
+			return [];
+		}
+
+		if (!sourceCode || !GRAPHQL_IMPORT.test(sourceCode)) {
+			return [];
+		}
+
+		const tree = this.parser.parse(sourceCode);
+		const packageName = path.relative(workspacePath, filePath);
+
+		for (const template of this.sdlTemplatesOf(tree.rootNode)) {
+			try {
+				const document = new GraphQLSchemaParser().parse(template);
+				this.resources.push(...new GraphQLResourceGenerator().generateApiResources(document, packageName));
+			} catch (error) {
+				// not SDL, like a template with interpolated fragments
+			}
+		}
+
+		const objectTypes = this.objectTypesOf(tree.rootNode);
+		const schemaRoots = this.schemaRootsOf(tree.rootNode);
+		for (const objectType of objectTypes) {
+			const kind = schemaRoots.get(objectType.variable) ?? this.operationKindOf(objectType.typeName);
+			if (!kind) continue;
+
+			for (const field of objectType.fields) {
+				this.resources.push(graphQLResourceOf(kind, field, packageName, objectType.typeName));
+			}
+		}
+
+		return this.resources;
+	}
+
+	private sdlTemplatesOf(root: SyntaxNode): string[] {
+		const templates: SyntaxNode[] = [];
+		for (const call of root.descendantsOfType('call_expression')) {
+			const functionName = call.childForFieldName('function')?.text ?? '';
+			const args = call.childForFieldName('arguments');
+			if (!SDL_FUNCTIONS.has(functionName) || !args) continue;
+
+			const template = args.type === 'template_string' ? args : args.namedChildren[0];
+			if (template?.type === 'template_string') {
+				templates.push(template);
+			}
+		}
+
+		for (const pair of root.descendantsOfType('pair')) {
+			const value = pair.childForFieldName('value');
+			if (pair.childForFieldName('key')?.text === 'typeDefs' && value?.type === 'template_string') {
+				templates.push(value);
+			}
+		}
+
+		return templates.map(template => template.namedChildren
+			.filter(child => child.type === 'template_substitution')
+			.reduce((text, substitution) => text.replace(substitution.text, ''), template.text.slice(1, -1)));
+	}
+
+	private objectTypesOf(root: SyntaxNode): ObjectTypeDeclaration[] {
+		const objectTypes: ObjectTypeDeclaration[] = [];
+		for (const expression of root.descendantsOfType('new_expression')) {
+			if (expression.childForFieldName('constructor')?.text !== 'GraphQLObjectType') continue;
+
+			const config = expression.childForFieldName('arguments')?.namedChildren[0];
+			if (config?.type !== 'object') continue;
+
+			const typeName = this.stringLiteralOf(this.propertyOf(config, 'name'));
+			if (!typeName) continue;
+
+			const declarator = expression.parent?.type === 'variable_declarator' ? expression.parent : undefined;
+			objectTypes.push({
+				variable: declarator?.childForFieldName('name')?.text ?? typeName,
+				typeName,
+				fields: this.fieldNamesOf(this.propertyOf(config, 'fields')),
+			});
+		}
+
+		return objectTypes;
+	}
+
+	/**
+	 * Root types of `new GraphQLSchema({ query: QueryType, mutation: MutationType })`, by variable name
+	 */
+	private schemaRootsOf(root: SyntaxNode): Map<string, GraphQLOperationKind> {
+		const roots = new Map<string, GraphQLOperationKind>();
+		for (const expression of root.descendantsOfType('new_expression')) {
+			if (expression.childForFieldName('constructor')?.text !== 'GraphQLSchema') continue;
+
+			const config = expression.childForFieldName('arguments')?.namedChildren[0];
+			if (config?.type !== 'object') continue;
+
+			for (const kind of GRAPHQL_OPERATION_KINDS) {
+				const value = this.propertyOf(config, kind);
+				if (value?.type === 'identifier' || value?.type === 'shorthand_property_identifier') {
+					roots.set(value.text, kind);
+				}
+			}
+		}
+
+		return roots;
+	}
+
+	/**
+	 * Keys of `fields: { ... }`, `fields: () => ({ ... })` or a function returning the object
+	 */
+	private fieldNamesOf(fields: SyntaxNode | undefined): string[] {
+		let node = fields;
+		if (node && FUNCTION_TYPES.includes(node.type)) {
+			const body = node.childForFieldName('body');
+			node = body?.type === 'statement_block'
+				? body.descendantsOfType('return_statement')[0]?.namedChildren[0]
+				: body ?? undefined;
+		}
+
+		while (node?.type === 'parenthesized_expression') {
+			node = node.namedChildren[0];
+		}
+
+		if (node?.type !== 'object') {
+			return [];
+		}
+
+		return node.namedChildren.flatMap(member => {
+			if (member.type === 'shorthand_property_identifier') return [member.text];
+			if (member.type === 'pair' || member.type === 'method_definition') {
+				const key = member.childForFieldName(member.type === 'pair' ? 'key' : 'name');
+				return key ? [this.stringLiteralOf(key) ?? key.text] : [];
+			}
+
+			return [];
+		});
+	}
+
+	private propertyOf(object: SyntaxNode, name: string): SyntaxNode | undefined {
+		for (const member of object.namedChildren) {
+			if (member.type === 'pair' && member.childForFieldName('key')?.text === name) {
+				return member.childForFieldName('value') ?? undefined;
+			}
+
+			if (member.type === 'shorthand_property_identifier' && member.text === name) {
+				return member;
+			}
+		}
+
+		return undefined;
+	}
+
+	private operationKindOf(typeName: string): GraphQLOperationKind | undefined {
+		return GRAPHQL_OPERATION_KINDS.find(kind => kind.toLowerCase() === typeName.toLowerCase());
+	}
+}
@@ -0,0 +1,19 @@
+import { injectable } from 'inversify';
+
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { LanguageProfileUtil } from '../base/LanguageProfileUtil';
+import { StructurerProvider } from '../base/StructurerProvider';
+import { GraphQLJsAnalyser } from './GraphQLJsAnalyser';
+import { JavaScriptProfile } from './JavaScriptProfile';
+import { JavaScriptStructurer } from './JavaScriptStructurer';
+
+@injectable()
+export class JavaScriptGraphQLJsAnalyser extends GraphQLJsAnalyser {
+	protected structurer: StructurerProvider = new JavaScriptStructurer();
+	readonly langId: LanguageIdentifier = 'javascript';
+
+	constructor() {
+		super();
+		this.config = LanguageProfileUtil.from(this.langId) || new JavaScriptProfile();
+	}
+}
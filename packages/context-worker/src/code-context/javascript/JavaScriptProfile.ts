@@ -3,6 +3,7 @@ import { injectable } from 'inversify';
 import { LanguageProfile, MemoizedQuery } from '../base/LanguageProfile';
 import { ILanguageServiceProvider } from "../../base/common/languages/languageService";
 import { LanguageIdentifier } from '../../base/common/languages/languages';
+import javascriptScopeQuery from '../../code-search/schemas/indexes/javascript.scm';
 
 @injectable()
 export class JavaScriptProfile implements LanguageProfile {
@@ -16,6 +17,7 @@ export class JavaScriptProfile implements LanguageProfile {
 		return langService.getLanguage('javascript');
 	};
 	isTestFile = (filePath: string) => filePath.endsWith('.test.js') || filePath.endsWith('.spec.js');
+	scopeQuery = new MemoizedQuery(javascriptScopeQuery);
 	hoverableQuery = new MemoizedQuery(`
       [(identifier)
         (property_identifier)
@@ -53,6 +55,15 @@ export class JavaScriptProfile implements LanguageProfile {
         )
       )
     `);
+	callQuery = new MemoizedQuery(`
+		(call_expression
+			function: [
+				(identifier) @call.name
+				(member_expression
+					object: (_) @call.receiver
+					property: (property_identifier) @call.name)
+			])
+	`);
 	blockCommentQuery = new MemoizedQuery(`
 		((comment) @comment
 			(#match? @comment "^\\\\/\\\\*\\\\*")) @docComment
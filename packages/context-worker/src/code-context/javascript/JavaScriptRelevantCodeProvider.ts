@@ -0,0 +1,22 @@
+import { injectable } from 'inversify';
+
+import { ImportRelevantCodeProvider, RelevantImportLookup } from '../base/ImportRelevantCodeProvider';
+import { StructurerProvider } from '../base/StructurerProvider';
+import { TreeSitterFile } from '../../ast/TreeSitterFile';
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { JavaScriptStructurer } from './JavaScriptStructurer';
+import { TypeScriptRelevantLookup } from '../typescript/utils/TypeScriptRelevantLookup';
+
+@injectable()
+export class JavaScriptRelevantCodeProvider extends ImportRelevantCodeProvider {
+	name = 'JavaScriptRelatedProvider';
+	language: LanguageIdentifier = 'javascript';
+
+	protected createStructurer(): StructurerProvider {
+		return new JavaScriptStructurer();
+	}
+
+	protected createLookup(file: TreeSitterFile): RelevantImportLookup {
+		return new TypeScriptRelevantLookup(file, false);
+	}
+}
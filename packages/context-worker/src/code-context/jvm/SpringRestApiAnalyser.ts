@@ -1,7 +1,7 @@
 import { injectable } from "inversify";
 import { SyntaxNode } from 'web-tree-sitter';
 
-import { HttpApiAnalyser } from '../base/HttpApiAnalyser';
+import { ApiDemand, HttpApiAnalyser } from '../base/HttpApiAnalyser';
 import { MemoizedQuery } from '../base/LanguageProfile';
 import { CodeFile, CodeFunction, CodeStructure } from '../../codemodel/CodeElement';
 import { LanguageIdentifier } from '../../base/common/languages/languages';
@@ -13,10 +13,24 @@ export interface Annotation {
 	keyValues: { key: string; value: string }[];
 }
 
+const REST_TEMPLATE_METHODS: Record<string, string> = {
+	getForObject: 'GET',
+	getForEntity: 'GET',
+	postForObject: 'POST',
+	postForEntity: 'POST',
+	postForLocation: 'POST',
+	put: 'PUT',
+	delete: 'DELETE',
+	patchForObject: 'PATCH',
+};
+
 @injectable()
 export abstract class SpringRestApiAnalyser extends HttpApiAnalyser {
 	protected abstract structurer: StructurerProvider;
-	protected abstract get restTemplateQuery(): MemoizedQuery;
+	/**
+	 * Method calls on an object, captures `@call`, `@receiver`, `@method-name` and the `@args` list
+	 */
+	protected abstract get httpClientQuery(): MemoizedQuery;
 
 	abstract override readonly langId: LanguageIdentifier;
 
@@ -74,6 +88,18 @@ export abstract class SpringRestApiAnalyser extends HttpApiAnalyser {
 		return Promise.all(this.resources)
 	}
 
+	async demandAnalysis(sourceCode: string, filePath: string, workspacePath: string): Promise<ApiDemand[]> {
+		if (!this.language || !this.parser || !sourceCode) {
+			return [];
+		}
+
+		const tree = this.parser.parse(sourceCode);
+		this.findHttpClientUsages(tree.rootNode);
+		this.findFeignClients(tree.rootNode);
+
+		return this.demands;
+	}
+
 	protected cleanStringLiteral(text: string): string {
 		return text.replace(/^"(.*)"$/, '$1');
 	}
@@ -104,6 +130,98 @@ export abstract class SpringRestApiAnalyser extends HttpApiAnalyser {
 		baseUrl: string,
 		node: CodeStructure
 	): void {
+		const mapping = this.mappingOf(annotations);
+		if (mapping) {
+			const fullPath = this.combinePaths(baseUrl, mapping.path);
+
+			this.resources.push({
+				id: "",
+				sourceUrl: fullPath,
+				sourceHttpMethod: mapping.httpMethod,
+				packageName: node.package,
+				className: node.name,
+				methodName: method.name,
+				supplyType: "Java",
+			});
+		}
+	}
+
+	/**
+	 * Feign clients declare the called endpoints with the same mapping annotations as controllers. They are interfaces,
+	 * which the structurers keep without annotations, so the annotations are read from the syntax tree.
+	 */
+	protected findFeignClients(rootNode: SyntaxNode): void {
+		for (const declaration of rootNode.descendantsOfType(['interface_declaration', 'class_declaration'])) {
+			const isInterface = declaration.type === 'interface_declaration' ||
+				declaration.children.some(child => child.type === 'interface');
+			if (!isInterface) continue;
+
+			const annotations = this.annotationsOf(declaration);
+			const feignClient = annotations.find(anno => anno.name === 'FeignClient');
+			if (!feignClient) continue;
+
+			const clientName = this.nameOfDeclaration(declaration);
+			const clientPath = feignClient.keyValues.find(kv => kv.key === 'path')?.value ?? '';
+			const basePath = this.combinePaths(clientPath, this.getBaseUrl(annotations));
+
+			const body = declaration.childForFieldName('body') ?? declaration.namedChildren.find(child => child.type === 'class_body');
+			const methods = body?.namedChildren.filter(child => ['method_declaration', 'function_declaration'].includes(child.type)) || [];
+			for (const method of methods) {
+				const mapping = this.mappingOf(this.annotationsOf(method));
+				if (!mapping) continue;
+
+				this.demands.push({
+					sourceCaller: `${clientName}.${this.nameOfDeclaration(method)}`,
+					targetUrl: this.combinePaths(basePath, mapping.path),
+					targetHttpMethod: mapping.httpMethod,
+					clientType: 'Feign',
+				});
+			}
+		}
+	}
+
+	/**
+	 * Annotations in the modifiers of a Java or Kotlin declaration, a single unnamed argument is kept with an empty key
+	 */
+	protected annotationsOf(declaration: SyntaxNode): Annotation[] {
+		const modifiers = declaration.namedChildren.find(child => child.type === 'modifiers');
+		if (!modifiers) return [];
+
+		return modifiers.namedChildren
+			.filter(child => child.type === 'annotation' || child.type === 'marker_annotation')
+			.map(annotation => {
+				// Java: (annotation name: arguments:), Kotlin: (annotation (constructor_invocation (user_type) (value_arguments)))
+				const invocation = annotation.namedChildren.find(child => child.type === 'constructor_invocation') ?? annotation;
+				const nameNode = annotation.childForFieldName('name') ??
+					invocation.namedChildren.find(child => child.type === 'user_type');
+				const args = annotation.childForFieldName('arguments') ??
+					invocation.namedChildren.find(child => child.type === 'value_arguments');
+
+				const keyValues = (args?.namedChildren || []).map(arg => {
+					if (arg.type === 'element_value_pair') {
+						return { key: arg.childForFieldName('key')?.text ?? '', value: this.annotationValueOf(arg.childForFieldName('value')) };
+					}
+					if (arg.type === 'value_argument' && arg.namedChildCount > 1) {
+						return { key: arg.namedChildren[0].text, value: this.annotationValueOf(arg.namedChildren[arg.namedChildCount - 1]) };
+					}
+					return { key: '', value: this.annotationValueOf(arg.type === 'value_argument' ? arg.namedChildren[0] : arg) };
+				});
+
+				return { name: (nameNode?.text ?? '').split('.').pop()!, keyValues };
+			});
+	}
+
+	private annotationValueOf(node: SyntaxNode | null | undefined): string {
+		if (!node) return '';
+		return node.type === 'string_literal' ? this.urlTemplateOf(node) : node.text;
+	}
+
+	private nameOfDeclaration(node: SyntaxNode): string {
+		return node.childForFieldName('name')?.text ??
+			node.namedChildren.find(child => ['type_identifier', 'simple_identifier'].includes(child.type))?.text ?? '';
+	}
+
+	protected mappingOf(annotations: Annotation[]): { httpMethod: string, path: string } | undefined {
 		let httpMethod = '';
 		let path = '';
 
@@ -146,19 +264,7 @@ export abstract class SpringRestApiAnalyser extends HttpApiAnalyser {
 			if (httpMethod && path) break;
 		}
 
-		if (httpMethod) {
-			const fullPath = this.combinePaths(baseUrl, path);
-
-			this.resources.push({
-				id: "",
-				sourceUrl: fullPath,
-				sourceHttpMethod: httpMethod,
-				packageName: node.package,
-				className: node.name,
-				methodName: method.name,
-				supplyType: "Java",
-			});
-		}
+		return httpMethod ? { httpMethod, path } : undefined;
 	}
 
 	protected getPathFromAnnotation(annotation: Annotation): string {
@@ -171,61 +277,59 @@ export abstract class SpringRestApiAnalyser extends HttpApiAnalyser {
 		return valueKeyValue ? valueKeyValue.value : '';
 	}
 
-	protected findRestTemplateUsages(rootNode: SyntaxNode, node: CodeStructure): void {
-		if (!this.language) return;
-
-		const query = this.restTemplateQuery.query(this.language);
+	/**
+	 * RestTemplate calls like `restTemplate.getForObject(url, User.class)`, and the fluent WebClient or RestClient
+	 * calls like `webClient.get().uri("/users/{id}", id)`
+	 */
+	protected findHttpClientUsages(rootNode: SyntaxNode): void {
+		const query = this.httpClientQuery.query(this.language);
 		if (!query) return;
 
-		const captures = query.captures(rootNode);
-		let currentInvocation = {
-			objectName: '',
-			methodName: '',
-			urlArg: ''
-		};
-
-		for (const capture of captures) {
-			switch (capture.name) {
-				case 'object-name':
-					currentInvocation.objectName = capture.node.text;
-					break;
-				case 'method-name':
-					currentInvocation.methodName = capture.node.text;
-					break;
-				case 'url-arg':
-					currentInvocation.urlArg = this.cleanStringLiteral(capture.node.text);
-
-					// If we have all parts of a RestTemplate invocation, record it
-					if (currentInvocation.objectName === 'restTemplate' &&
-						currentInvocation.methodName &&
-						currentInvocation.urlArg) {
-
-						// Determine HTTP method from method name
-						let httpMethod = '';
-						const methodName = currentInvocation.methodName.toLowerCase();
-
-						if (methodName.startsWith('get')) httpMethod = 'GET';
-						else if (methodName.startsWith('post')) httpMethod = 'POST';
-						else if (methodName.startsWith('delete')) httpMethod = 'DELETE';
-						else if (methodName.startsWith('put')) httpMethod = 'PUT';
-						else if (methodName.startsWith('patch')) httpMethod = 'PATCH';
-
-						if (httpMethod) {
-							this.demands.push({
-								sourceCaller: node.name,
-								targetUrl: currentInvocation.urlArg,
-								targetHttpMethod: httpMethod
-							});
-						}
-
-						// Reset for next invocation
-						currentInvocation = { objectName: '', methodName: '', urlArg: '' };
-					}
-					break;
+		for (const match of query.matches(rootNode)) {
+			const nodeOf = (name: string) => match.captures.find(capture => capture.name === name)?.node;
+			const call = nodeOf('call');
+			const receiver = nodeOf('receiver');
+			const methodName = nodeOf('method-name')?.text;
+			const args = this.argumentsOf(nodeOf('args'));
+			if (!call || !receiver || !methodName || args.length === 0) continue;
+
+			let httpMethod = '';
+			let clientType = '';
+			if (/resttemplate/i.test(receiver.text)) {
+				clientType = 'RestTemplate';
+				httpMethod = methodName === 'exchange' && args.length > 1
+					? (args[1].text.match(/HttpMethod\.(\w+)/)?.[1] ?? '')
+					: (REST_TEMPLATE_METHODS[methodName] ?? '');
+			} else if (methodName === 'uri') {
+				clientType = /restclient/i.test(receiver.text) ? 'RestClient' : 'WebClient';
+				httpMethod = receiver.text.match(/\.\s*(get|post|put|delete|patch)\s*\(\s*\)$/)?.[1] ??
+					receiver.text.match(/\.\s*method\s*\(\s*HttpMethod\.(\w+)\s*\)$/)?.[1] ?? '';
 			}
+
+			if (!httpMethod) continue;
+
+			const targetUrl = this.urlTemplateOf(args[0]);
+			if (!this.isUrlTemplate(targetUrl)) continue;
+
+			this.demands.push({
+				sourceCaller: this.callerOf(call),
+				targetUrl,
+				targetHttpMethod: httpMethod.toUpperCase(),
+				clientType,
+			});
 		}
 	}
 
+	private argumentsOf(args: SyntaxNode | undefined): SyntaxNode[] {
+		if (!args) return [];
+
+		return args.namedChildren
+			.filter(arg => !arg.type.includes('comment'))
+			// Kotlin wraps every argument in a value_argument, with an optional `name =` in front
+			.map(arg => arg.type === 'value_argument' ? arg.namedChildren[arg.namedChildCount - 1] : arg)
+			.filter(arg => !!arg);
+	}
+
 	protected combinePaths(basePath: string, subPath: string): string {
 		if (!basePath && !subPath) return '/';
 
@@ -2,6 +2,7 @@ import { injectable } from 'inversify';
 
 import { ILanguageServiceProvider } from '../../base/common/languages/languageService';
 import { LanguageProfile, MemoizedQuery } from '../base/LanguageProfile';
+import kotlinScopeQuery from '../../code-search/schemas/indexes/kotlin.scm';
 
 @injectable()
 export class KotlinProfile implements LanguageProfile {
@@ -9,6 +10,7 @@ export class KotlinProfile implements LanguageProfile {
 	fileExtensions = ['kt'];
 	grammar = (langService: ILanguageServiceProvider) => langService.getLanguage('kotlin');
 	isTestFile = (filePath: string) => filePath.endsWith('Test.kt') && filePath.includes('src/test');
+	scopeQuery = new MemoizedQuery(kotlinScopeQuery);
 	hoverableQuery = new MemoizedQuery(`
       [(simple_identifier)
        (user_type (type_identifier))] @hoverable
@@ -21,6 +23,15 @@ export class KotlinProfile implements LanguageProfile {
       (class_declaration
         (type_identifier) @name.definition.class) @definition.class
     `);
+	callQuery = new MemoizedQuery(`
+		(call_expression
+			(navigation_expression
+				(_) @call.receiver
+				(navigation_suffix (simple_identifier) @call.name)))
+
+		(call_expression
+			(simple_identifier) @call.name)
+	`);
 	blockCommentQuery = new MemoizedQuery(`
 		((multiline_comment) @multiline_comment
 			(#match? @multiline_comment "^\\\\/\\\\*\\\\*")) @docComment`);
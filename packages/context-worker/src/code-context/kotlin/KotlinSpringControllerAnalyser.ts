@@ -13,21 +13,16 @@ export class KotlinSpringControllerAnalyser extends SpringRestApiAnalyser {
 	protected structurer: StructurerProvider = new KotlinStructurerProvider();
 	readonly langId: LanguageIdentifier = 'kotlin';
 
-	protected restTemplateQuery = new MemoizedQuery(`
+	protected httpClientQuery = new MemoizedQuery(`
     (call_expression
       (navigation_expression
-        (simple_identifier) @object-name
+        (_) @receiver
         (navigation_suffix (simple_identifier) @method-name)
       )
       (call_suffix
-        (value_arguments
-          (value_argument
-            (string_literal) @url-arg
-          )
-          (_)* @other-args
-        )
+        (value_arguments) @args
       )
-    )
+    ) @call
   `);
 
 	constructor() {
@@ -0,0 +1,231 @@
+import { injectable } from 'inversify';
+import path from "path";
+import { SyntaxNode } from 'web-tree-sitter';
+import { ApiResource } from "@autodev/worker-core";
+
+import { ANY_HTTP_METHOD, HttpApiAnalyser } from '../base/HttpApiAnalyser';
+import { CodeFile } from '../../codemodel/CodeElement';
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { LanguageProfileUtil } from '../base/LanguageProfileUtil';
+import { StructurerProvider } from "../base/StructurerProvider";
+import { PHPProfile } from './PHPProfile';
+import { PHPStructurer } from './PHPStructurer';
+
+const ROUTE_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'options'];
+const CLOSURE_TYPES = ['anonymous_function_creation_expression', 'anonymous_function', 'arrow_function'];
+
+// the routes registered by `Route::resource()`, `Route::apiResource()` skips the `create` and `edit` forms
+const RESOURCE_ACTIONS: { action: string, httpMethods: string[], path: (param: string) => string, api: boolean }[] = [
+	{ action: 'index', httpMethods: ['GET'], path: () => '', api: true },
+	{ action: 'create', httpMethods: ['GET'], path: () => 'create', api: false },
+	{ action: 'store', httpMethods: ['POST'], path: () => '', api: true },
+	{ action: 'show', httpMethods: ['GET'], path: param => `{${param}}`, api: true },
+	{ action: 'edit', httpMethods: ['GET'], path: param => `{${param}}/edit`, api: false },
+	{ action: 'update', httpMethods: ['PUT', 'PATCH'], path: param => `{${param}}`, api: true },
+	{ action: 'destroy', httpMethods: ['DELETE'], path: param => `{${param}}`, api: true },
+];
+
+interface LaravelRoute {
+	httpMethods: string[];
+	path: string;
+	className: string;
+	methodName: string;
+}
+
+/**
+ * Routes of Laravel route files: `Route::get('/users/{id}', [UserController::class, 'show'])`, `Route::match()`,
+ * `Route::any()`, `Route::resource()` and `Route::apiResource()`.
+ *
+ * Prefixes of `Route::prefix('admin')->group(...)` and `Route::group(['prefix' => 'admin'], ...)` are applied, and the
+ * routes of `routes/api.php` get the `/api` prefix of the default `RouteServiceProvider`.
+ */
+@injectable()
+export class LaravelRouteAnalyser extends HttpApiAnalyser {
+	protected structurer: StructurerProvider = new PHPStructurer();
+	readonly langId: LanguageIdentifier = 'php';
+
+	constructor() {
+		super();
+		this.config = LanguageProfileUtil.from(this.langId) || new PHPProfile();
+	}
+
+	isApplicable(lang: LanguageIdentifier): boolean {
+		return lang === this.langId;
+	}
+
+	analysis(codeFile: CodeFile, workspacePath: string): Promise<ApiResource[]> {
+		return Promise.resolve([]);
+	}
+
+	async sourceCodeAnalysis(sourceCode: string, filePath: string, workspacePath: string): Promise<ApiResource[]> {
+		if (!this.language || !this.parser) {
+			console.warn(`LaravelRouteAnalyser not initialized for ${this.langId}`);
+			return [];
+		}
+
+		if (!sourceCode || !sourceCode.includes('Route::')) {
+			return [];
+		}
+
+		const tree = this.parser.parse(sourceCode);
+		const packageName = path.relative(workspacePath, filePath);
+		const filePrefix = filePath.split(path.sep).join('/').endsWith('routes/api.php') ? 'api' : '';
+
+		for (const call of tree.rootNode.descendantsOfType('scoped_call_expression')) {
+			if (call.childForFieldName('scope')?.text !== 'Route') continue;
+
+			const name = call.childForFieldName('name')?.text ?? '';
+			const args = this.argumentsOf(call);
+			const prefix = this.joinRoutePaths(filePrefix, ...this.groupPrefixesOf(call));
+
+			for (const route of this.routesOf(name, args)) {
+				const sourceUrl = this.joinRoutePaths(prefix, route.path);
+				for (const httpMethod of route.httpMethods) {
+					this.resources.push({
+						id: "",
+						sourceUrl,
+						sourceHttpMethod: httpMethod,
+						packageName,
+						className: route.className || path.basename(filePath),
+						methodName: route.methodName || this.routeNameOf(httpMethod, sourceUrl),
+						supplyType: "Laravel",
+					});
+				}
+			}
+		}
+
+		return this.resources;
+	}
+
+	private routesOf(name: string, args: SyntaxNode[]): LaravelRoute[] {
+		if (ROUTE_METHODS.includes(name) || name === 'any') {
+			const routePath = this.stringLiteralOf(args[0]);
+			if (routePath === undefined || !args[1]) return [];
+
+			const httpMethods = name === 'any' ? [ANY_HTTP_METHOD] : [name.toUpperCase()];
+			return [{ httpMethods, path: routePath, ...this.actionOf(args[1]) }];
+		}
+
+		if (name === 'match') {
+			const routePath = this.stringLiteralOf(args[1]);
+			const httpMethods = (args[0]?.type === 'array_creation_expression' ? this.arrayValuesOf(args[0]) : [])
+				.map(method => this.stringLiteralOf(method)?.toUpperCase())
+				.filter((method): method is string => !!method);
+			if (routePath === undefined || httpMethods.length === 0 || !args[2]) return [];
+
+			return [{ httpMethods, path: routePath, ...this.actionOf(args[2]) }];
+		}
+
+		if (name === 'resource' || name === 'apiResource') {
+			const routePath = this.stringLiteralOf(args[0]);
+			if (routePath === undefined || !args[1]) return [];
+
+			const controller = this.classNameOf(args[1]);
+			const param = this.singularOf(routePath.split(/[/.]/).pop() ?? '');
+			return RESOURCE_ACTIONS
+				.filter(action => name === 'resource' || action.api)
+				.map(action => ({
+					httpMethods: action.httpMethods,
+					path: this.joinRoutePaths(routePath.replace(/\./g, '/'), action.path(param)),
+					className: controller,
+					methodName: action.action,
+				}));
+		}
+
+		return [];
+	}
+
+	/**
+	 * The controller and method of a route action: `[UserController::class, 'show']`, `'UserController@show'` and the
+	 * invokable `UserController::class`, both empty for closures
+	 */
+	private actionOf(action: SyntaxNode): { className: string, methodName: string } {
+		if (action.type === 'array_creation_expression') {
+			const [controller, method] = this.arrayValuesOf(action);
+			return {
+				className: controller ? this.classNameOf(controller) : '',
+				methodName: this.stringLiteralOf(method) ?? '',
+			};
+		}
+
+		if (action.type === 'class_constant_access_expression') {
+			return { className: this.classNameOf(action), methodName: '__invoke' };
+		}
+
+		const literal = this.stringLiteralOf(action);
+		if (literal?.includes('@')) {
+			const [className, methodName] = literal.split('@');
+			return { className: className.split('\\').pop() ?? '', methodName };
+		}
+
+		return { className: '', methodName: '' };
+	}
+
+	/**
+	 * The prefixes of the groups around a route, outermost first
+	 */
+	private groupPrefixesOf(call: SyntaxNode): string[] {
+		const prefixes: string[] = [];
+		for (let current = call.parent; current; current = current.parent) {
+			if (!CLOSURE_TYPES.includes(current.type)) continue;
+
+			// closure -> argument -> arguments -> group call
+			const group = current.parent?.parent?.parent;
+			if (!group || group.childForFieldName('name')?.text !== 'group') continue;
+
+			if (group.type === 'scoped_call_expression') {
+				// Route::group(['prefix' => 'admin'], function () { ... })
+				const options = this.argumentsOf(group)[0];
+				const prefix = options?.type === 'array_creation_expression' ? this.arrayEntryOf(options, 'prefix') : undefined;
+				prefixes.unshift(this.stringLiteralOf(prefix) ?? '');
+				continue;
+			}
+
+			// Route::prefix('admin')->middleware('auth')->group(function () { ... })
+			for (let chain = group.childForFieldName('object'); chain; chain = chain.childForFieldName('object')) {
+				if (chain.childForFieldName('name')?.text === 'prefix') {
+					prefixes.unshift(this.stringLiteralOf(this.argumentsOf(chain)[0]) ?? '');
+				}
+				if (chain.type === 'scoped_call_expression') break;
+			}
+		}
+
+		return prefixes;
+	}
+
+	private argumentsOf(call: SyntaxNode): SyntaxNode[] {
+		return (call.childForFieldName('arguments')?.namedChildren ?? [])
+			.filter(arg => arg.type === 'argument')
+			.map(arg => arg.namedChildren[arg.namedChildren.length - 1]);
+	}
+
+	private arrayValuesOf(array: SyntaxNode): SyntaxNode[] {
+		return array.namedChildren
+			.filter(element => element.type === 'array_element_initializer')
+			.map(element => element.namedChildren[element.namedChildren.length - 1]);
+	}
+
+	private arrayEntryOf(array: SyntaxNode, key: string): SyntaxNode | undefined {
+		return array.namedChildren
+			.filter(element => element.type === 'array_element_initializer' && element.namedChildCount === 2)
+			.find(element => this.stringLiteralOf(element.namedChildren[0]) === key)
+			?.namedChildren[1];
+	}
+
+	/**
+	 * `UserController` for `UserController::class` and `\App\Http\Controllers\UserController::class`
+	 */
+	private classNameOf(node: SyntaxNode): string {
+		const name = node.type === 'class_constant_access_expression' ? node.namedChildren[0]?.text ?? '' : node.text;
+		return name.split('\\').pop() ?? '';
+	}
+
+	/**
+	 * Route parameters of resources are the singular of the resource name, like `{photo}` for `photos`
+	 */
+	private singularOf(word: string): string {
+		if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+		if (word.endsWith('s')) return word.slice(0, -1);
+		return word;
+	}
+}
@@ -33,6 +33,21 @@ export class PHPStructurer extends BaseStructurerProvider {
       classes: [], // 在PHP中，这将包含class、interface和trait
     };
 
+    // 命名空间和 use 导入直接从语法树读取，用于解析父类和接口的完整名称
+    const namespaceNode = tree.rootNode.descendantsOfType('namespace_definition')[0];
+    codeFile.package = namespaceNode?.childForFieldName('name')?.text || '';
+    // use 导入按别名索引，`use Foo\Bar as Baz` 的别名为 Baz
+    const importAliases = new Map<string, string>();
+    for (const clause of tree.rootNode.descendantsOfType('namespace_use_clause')) {
+      const importName = clause.namedChildren.find(child => child.type === 'qualified_name' || child.type === 'name')?.text || '';
+      if (!importName) continue;
+
+      const aliasNode = clause.namedChildren.find(child => child.type === 'namespace_aliasing_clause');
+      const alias = aliasNode?.namedChildren[0]?.text || importName.split('\\').pop()!;
+      codeFile.imports.push(importName);
+      importAliases.set(alias, importName);
+    }
+
     // 创建映射来跟踪类和接口
     const classMap = new Map<string, CodeStructure>();
     const interfaceMap = new Map<string, CodeStructure>();
@@ -42,7 +57,7 @@ export class PHPStructurer extends BaseStructurerProvider {
     let currentInterface: CodeStructure | null = null;
     let currentTrait: CodeStructure | null = null;
     let currentFunction: CodeFunction | null = null;
-    let currentNamespace: string = '';
+    const currentNamespace: string = codeFile.package;
 
     // 用于跟踪参数解析状态
     let paramCollection: { params: CodeVariable[]; } | null = null;
@@ -55,27 +70,19 @@ export class PHPStructurer extends BaseStructurerProvider {
       const text = capture.node.text;
 
       switch (capture.name) {
-        case 'use-path':
-          // 处理导入语句
-          codeFile.imports.push(text);
-          break;
-
-        case 'namespace-name':
-          // 处理命名空间
-          currentNamespace = text;
-          codeFile.package = text;
-          break;
-
         case 'class-name':
           // 创建新的类对象
           currentClass = this.createEmptyClassStructure();
           currentClass.name = text;
           currentClass.type = StructureType.Class;
           currentClass.package = currentNamespace;
+          currentClass.canonicalName = this.qualify(text, currentNamespace);
           currentClass.fields = [];
 
           const classNode = capture.node.parent;
           if (classNode) {
+            currentClass.extends = this.baseNamesOf(classNode, 'base_clause', importAliases, currentNamespace);
+            currentClass.implements = this.baseNamesOf(classNode, 'class_interface_clause', importAliases, currentNamespace);
             currentClass.start = { row: classNode.startPosition.row, column: classNode.startPosition.column };
             currentClass.end = { row: classNode.endPosition.row, column: classNode.endPosition.column };
 
@@ -87,23 +94,6 @@ export class PHPStructurer extends BaseStructurerProvider {
           processedFields.clear();
           break;
 
-        case 'extends-name':
-          // 处理类继承
-          if (currentClass) {
-            currentClass.extends = [text];
-          }
-          break;
-
-        case 'implements-name':
-          // 处理类实现接口
-          if (currentClass) {
-            if (!currentClass.implements) {
-              currentClass.implements = [];
-            }
-            currentClass.implements.push(text);
-          }
-          break;
-
         case 'property-name':
           // 添加属性到当前类
           if (currentClass) {
@@ -176,9 +166,11 @@ export class PHPStructurer extends BaseStructurerProvider {
           currentInterface.name = text;
           currentInterface.type = StructureType.Interface;
           currentInterface.package = currentNamespace;
+          currentInterface.canonicalName = this.qualify(text, currentNamespace);
 
           const interfaceNode = capture.node.parent;
           if (interfaceNode) {
+            currentInterface.extends = this.baseNamesOf(interfaceNode, 'base_clause', importAliases, currentNamespace);
             currentInterface.start = { row: interfaceNode.startPosition.row, column: interfaceNode.startPosition.column };
             currentInterface.end = { row: interfaceNode.endPosition.row, column: interfaceNode.endPosition.column };
 
@@ -193,6 +185,7 @@ export class PHPStructurer extends BaseStructurerProvider {
           currentTrait.name = text;
           currentTrait.type = StructureType.Trait;
           currentTrait.package = currentNamespace;
+          currentTrait.canonicalName = this.qualify(text, currentNamespace);
 
           const traitNode = capture.node.parent;
           if (traitNode) {
@@ -224,6 +217,32 @@ export class PHPStructurer extends BaseStructurerProvider {
     return Promise.resolve(codeFile);
   }
 
+  /**
+   * 读取 extends/implements 子句中的名称，并按 use 导入和当前命名空间解析为完整名称，
+   * 如 `Controller` 解析为 `App\Http\Controllers\Controller`，与 CodeCollector 中的 canonicalName 对应
+   */
+  private baseNamesOf(declaration: Parser.SyntaxNode, clauseType: string, importAliases: Map<string, string>, namespace: string): string[] {
+    const clause = declaration.namedChildren.find(child => child.type === clauseType);
+    if (!clause) return [];
+
+    return clause.namedChildren
+      .filter(child => child.type === 'name' || child.type === 'qualified_name')
+      .map(child => {
+        const name = child.text;
+        if (name.startsWith('\\')) return name.substring(1);
+
+        const [first, ...rest] = name.split('\\');
+        const imported = importAliases.get(first);
+        if (imported) return [imported, ...rest].join('\\');
+
+        return this.qualify(name, namespace);
+      });
+  }
+
+  private qualify(name: string, namespace: string): string {
+    return namespace ? `${namespace}\\${name}` : name;
+  }
+
   // 解析参数节点并提取参数信息
   private parseParameters(paramsNode: Parser.SyntaxNode, result: CodeVariable[]): void {
     for (let i = 0; i < paramsNode.namedChildCount; i++) {
@@ -0,0 +1,154 @@
+import { injectable } from 'inversify';
+import { SyntaxNode } from 'web-tree-sitter';
+import { ApiResource } from "@autodev/worker-core";
+
+import { ANY_HTTP_METHOD, HttpApiAnalyser } from '../base/HttpApiAnalyser';
+import { CodeFile } from '../../codemodel/CodeElement';
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { LanguageProfileUtil } from '../base/LanguageProfileUtil';
+import { StructurerProvider } from "../base/StructurerProvider";
+import { PHPProfile } from './PHPProfile';
+import { PHPStructurer } from './PHPStructurer';
+
+interface SymfonyRoute {
+	path: string;
+	httpMethods: string[];
+}
+
+/**
+ * Routes of Symfony controllers, declared with the `#[Route('/users/{id}', methods: ['GET'])]` attribute or the
+ * `@Route("/users/{id}", methods={"GET"})` annotation. The route of the controller class is the prefix of its methods,
+ * and routes without `methods` accept any method.
+ */
+@injectable()
+export class SymfonyRouteAnalyser extends HttpApiAnalyser {
+	protected structurer: StructurerProvider = new PHPStructurer();
+	readonly langId: LanguageIdentifier = 'php';
+
+	constructor() {
+		super();
+		this.config = LanguageProfileUtil.from(this.langId) || new PHPProfile();
+	}
+
+	isApplicable(lang: LanguageIdentifier): boolean {
+		return lang === this.langId;
+	}
+
+	analysis(codeFile: CodeFile, workspacePath: string): Promise<ApiResource[]> {
+		return Promise.resolve([]);
+	}
+
+	async sourceCodeAnalysis(sourceCode: string, filePath: string, workspacePath: string): Promise<ApiResource[]> {
+		if (!this.language || !this.parser) {
+			console.warn(`SymfonyRouteAnalyser not initialized for ${this.langId}`);
+			return [];
+		}
+
+		if (!sourceCode || !sourceCode.includes('Route')) {
+			return [];
+		}
+
+		const tree = this.parser.parse(sourceCode);
+		const namespace = tree.rootNode.descendantsOfType('namespace_definition')[0]?.childForFieldName('name')?.text ?? '';
+
+		for (const classNode of tree.rootNode.descendantsOfType('class_declaration')) {
+			const className = classNode.childForFieldName('name')?.text ?? '';
+			const prefix = this.routesOf(classNode)[0]?.path ?? '';
+
+			const members = classNode.childForFieldName('body')?.namedChildren ?? [];
+			for (const method of members.filter(member => member.type === 'method_declaration')) {
+				for (const route of this.routesOf(method)) {
+					const sourceUrl = this.joinRoutePaths(prefix, route.path);
+					for (const httpMethod of route.httpMethods) {
+						this.resources.push({
+							id: "",
+							sourceUrl,
+							sourceHttpMethod: httpMethod,
+							packageName: namespace,
+							className,
+							methodName: method.childForFieldName('name')?.text ?? '',
+							supplyType: "Symfony",
+						});
+					}
+				}
+			}
+		}
+
+		return this.resources;
+	}
+
+	/**
+	 * The routes of a class or method, from its `#[Route]` attributes and the `@Route` annotations of its docblock
+	 */
+	private routesOf(declaration: SyntaxNode): SymfonyRoute[] {
+		const routes: SymfonyRoute[] = [];
+
+		for (const attribute of declaration.childForFieldName('attributes')?.descendantsOfType('attribute') ?? []) {
+			const name = attribute.namedChildren[0]?.text ?? '';
+			if (name.split('\\').pop() !== 'Route') continue;
+
+			const route = this.attributeRouteOf(attribute);
+			if (route) routes.push(route);
+		}
+
+		const docblock = this.docblockOf(declaration);
+		if (docblock) {
+			routes.push(...this.annotationRoutesOf(docblock));
+		}
+
+		return routes;
+	}
+
+	/**
+	 * `#[Route('/users/{id}', name: 'user_show', methods: ['GET', 'HEAD'])]`, the path can also be the `path` argument
+	 */
+	private attributeRouteOf(attribute: SyntaxNode): SymfonyRoute | undefined {
+		let routePath: string | undefined;
+		let httpMethods: string[] = [];
+
+		const args = attribute.childForFieldName('parameters')?.namedChildren.filter(arg => arg.type === 'argument') ?? [];
+		for (const arg of args) {
+			const argName = arg.childForFieldName('name')?.text;
+			const value = arg.namedChildren[arg.namedChildren.length - 1];
+
+			if (!argName || argName === 'path') {
+				routePath ??= this.stringLiteralOf(value);
+			} else if (argName === 'methods') {
+				const methods = value.type === 'array_creation_expression'
+					? value.namedChildren.map(element => element.namedChildren[element.namedChildren.length - 1])
+					: [value];
+				httpMethods = methods
+					.map(method => this.stringLiteralOf(method)?.toUpperCase())
+					.filter((method): method is string => !!method);
+			}
+		}
+
+		if (routePath === undefined) return undefined;
+		return { path: routePath, httpMethods: httpMethods.length > 0 ? httpMethods : [ANY_HTTP_METHOD] };
+	}
+
+	/**
+	 * `@Route("/users/{id}", name="user_show", methods={"GET"})` of the annotations bundle
+	 */
+	private annotationRoutesOf(docblock: string): SymfonyRoute[] {
+		const routes: SymfonyRoute[] = [];
+		for (const match of docblock.matchAll(/@Route\(([^)]*)\)/g)) {
+			const body = match[1];
+			const routePath = body.match(/^\s*"([^"]*)"/)?.[1] ?? body.match(/path\s*=\s*"([^"]*)"/)?.[1];
+			if (routePath === undefined) continue;
+
+			const methods = body.match(/methods\s*=\s*\{([^}]*)\}/)?.[1]
+				.split(',')
+				.map(method => method.trim().replace(/^"|"$/g, '').toUpperCase())
+				.filter(method => method.length > 0) ?? [];
+			routes.push({ path: routePath, httpMethods: methods.length > 0 ? methods : [ANY_HTTP_METHOD] });
+		}
+
+		return routes;
+	}
+
+	private docblockOf(declaration: SyntaxNode): string | undefined {
+		const previous = declaration.previousNamedSibling;
+		return previous?.type === 'comment' && previous.text.startsWith('/**') ? previous.text : undefined;
+	}
+}
@@ -0,0 +1,198 @@
+import { injectable } from "inversify";
+import fs from "fs";
+import path from "path";
+import { SyntaxNode } from 'web-tree-sitter';
+import { ApiResource } from "@autodev/worker-core";
+
+import { ANY_HTTP_METHOD, HttpApiAnalyser } from '../base/HttpApiAnalyser';
+import { CodeFile } from '../../codemodel/CodeElement';
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { LanguageProfileUtil } from "../base/LanguageProfileUtil";
+import { FileSystemScanner } from "../../analyzer/FileSystemScanner";
+import { PythonProfile } from "./PythonProfile";
+import { PythonStructurer } from "./PythonStructurer";
+
+const URL_FUNCTIONS = ['path', 're_path', 'url'];
+
+interface UrlPattern {
+	route: string;
+	view: SyntaxNode;
+}
+
+/**
+ * Url patterns of Django `urls.py` modules: `path('users/<int:pk>/', views.user_detail)`, `re_path()` and `url()`.
+ *
+ * Prefixes of `path('api/', include('blog.urls'))` are resolved across the workspace, so the routes of `blog/urls.py`
+ * start with `/api/`. Django views are not bound to HTTP methods, so every route accepts any method.
+ */
+@injectable()
+export class DjangoUrlAnalyser extends HttpApiAnalyser {
+	readonly langId: LanguageIdentifier = 'python';
+	// include prefixes of the urls modules, by workspace
+	private includePrefixes = new Map<string, Promise<Map<string, string>>>();
+
+	constructor() {
+		super();
+		this.config = LanguageProfileUtil.from(this.langId) || new PythonProfile();
+		this.structurer = new PythonStructurer();
+	}
+
+	isApplicable(lang: LanguageIdentifier): boolean {
+		return lang === "python";
+	}
+
+	analysis(codeFile: CodeFile, workspacePath: string): Promise<ApiResource[]> {
+		return Promise.resolve([]);
+	}
+
+	async sourceCodeAnalysis(sourceCode: string, filePath: string, workspacePath: string): Promise<ApiResource[]> {
+		if (!this.language || !this.parser) {
+			console.warn(`DjangoUrlAnalyser not initialized for ${this.langId}`);
+			return [];
+		}
+
+		if (!sourceCode || !sourceCode.includes('urlpatterns')) {
+			return [];
+		}
+
+		const prefixes = await this.includePrefixesOf(workspacePath);
+		const prefix = prefixes.get(path.resolve(filePath)) ?? '';
+		const moduleName = path.basename(filePath, '.py');
+
+		for (const pattern of this.urlPatternsOf(sourceCode)) {
+			if (this.includedModuleOf(pattern.view) !== undefined) continue;
+
+			const sourceUrl = this.joinRoutePaths(prefix, pattern.route);
+			const view = this.viewOf(pattern.view);
+			this.resources.push({
+				id: "",
+				sourceUrl,
+				sourceHttpMethod: ANY_HTTP_METHOD,
+				packageName: this.getPackageName(filePath),
+				className: view.className || moduleName,
+				methodName: view.methodName || this.routeNameOf(ANY_HTTP_METHOD, sourceUrl),
+				supplyType: "Django",
+			});
+		}
+
+		return this.resources;
+	}
+
+	/**
+	 * The elements of `urlpatterns = [...]` and `urlpatterns += [...]`
+	 */
+	private urlPatternsOf(sourceCode: string): UrlPattern[] {
+		const tree = this.parser!.parse(sourceCode);
+		const patterns: UrlPattern[] = [];
+
+		for (const assignment of tree.rootNode.descendantsOfType(['assignment', 'augmented_assignment'])) {
+			if (assignment.childForFieldName('left')?.text !== 'urlpatterns') continue;
+
+			const list = assignment.childForFieldName('right');
+			for (const element of list?.type === 'list' ? list.namedChildren : []) {
+				const functionName = element.type === 'call' ? element.childForFieldName('function')?.text : undefined;
+				if (!functionName || !URL_FUNCTIONS.includes(functionName)) continue;
+
+				const args = element.childForFieldName('arguments')?.namedChildren ?? [];
+				const route = this.stringLiteralOf(args[0]);
+				if (route === undefined || !args[1]) continue;
+
+				patterns.push({ route: functionName === 'path' ? route : this.regexRouteOf(route), view: args[1] });
+			}
+		}
+
+		return patterns;
+	}
+
+	/**
+	 * Scan the urls modules of the workspace once, and resolve the prefix of every included module
+	 */
+	private includePrefixesOf(workspacePath: string): Promise<Map<string, string>> {
+		if (!this.includePrefixes.has(workspacePath)) {
+			this.includePrefixes.set(workspacePath, this.scanIncludePrefixes(workspacePath));
+		}
+
+		return this.includePrefixes.get(workspacePath)!;
+	}
+
+	private async scanIncludePrefixes(workspacePath: string): Promise<Map<string, string>> {
+		const files = (await new FileSystemScanner().scanDirectory(workspacePath))
+			.filter(file => path.basename(file) === 'urls.py')
+			.map(file => path.resolve(file));
+
+		// included module file -> [including file, route]
+		const includedBy = new Map<string, { parent: string, route: string }>();
+		for (const file of files) {
+			const sourceCode = await fs.promises.readFile(file, 'utf-8');
+			for (const pattern of this.urlPatternsOf(sourceCode)) {
+				const moduleName = this.includedModuleOf(pattern.view);
+				if (!moduleName) continue;
+
+				const modulePath = path.sep + moduleName.split('.').join(path.sep) + '.py';
+				const included = files.find(it => it.endsWith(modulePath));
+				if (included && included !== file && !includedBy.has(included)) {
+					includedBy.set(included, { parent: file, route: pattern.route });
+				}
+			}
+		}
+
+		const prefixes = new Map<string, string>();
+		for (const file of includedBy.keys()) {
+			const routes: string[] = [];
+			const visited = new Set<string>();
+			for (let current = includedBy.get(file); current && !visited.has(current.parent); current = includedBy.get(current.parent)) {
+				visited.add(current.parent);
+				routes.unshift(current.route);
+			}
+
+			prefixes.set(file, this.joinRoutePaths(...routes));
+		}
+
+		return prefixes;
+	}
+
+	/**
+	 * `blog.urls` for `include('blog.urls')` and `include(('blog.urls', 'blog'))`, empty for other includes like
+	 * `include(router.urls)`, undefined when the view is not an include
+	 */
+	private includedModuleOf(view: SyntaxNode): string | undefined {
+		if (view.type !== 'call' || view.childForFieldName('function')?.text !== 'include') return undefined;
+
+		const arg = view.childForFieldName('arguments')?.namedChildren[0];
+		const moduleNode = arg?.type === 'tuple' ? arg.namedChildren[0] : arg;
+		return this.stringLiteralOf(moduleNode) ?? '';
+	}
+
+	/**
+	 * `views.user_detail` is `views` and `user_detail`, `UserView.as_view()` is `UserView` and `as_view`
+	 */
+	private viewOf(view: SyntaxNode): { className: string, methodName: string } {
+		const target = view.type === 'call' ? view.childForFieldName('function') : view;
+		if (target?.type === 'attribute') {
+			return {
+				className: target.childForFieldName('object')?.text ?? '',
+				methodName: target.childForFieldName('attribute')?.text ?? '',
+			};
+		}
+
+		return { className: '', methodName: target?.type === 'identifier' ? target.text : '' };
+	}
+
+	/**
+	 * `^users/(?P<pk>[0-9]+)/$` to `users/<pk>/`
+	 */
+	private regexRouteOf(route: string): string {
+		return route
+			.replace(/^\^/, '')
+			.replace(/\$$/, '')
+			.replace(/\(\?P<(\w+)>[^)]*\)/g, '<$1>');
+	}
+
+	/**
+	 * 获取包名
+	 */
+	private getPackageName(filePath: string): string {
+		const parts = filePath.split('/');
+		return parts[parts.length - 2] || '';
+	}
+}
@@ -1,7 +1,7 @@
 import { injectable } from "inversify";
 import Parser, { SyntaxNode } from 'web-tree-sitter';
 
-import { HttpApiAnalyser } from '../base/HttpApiAnalyser';
+import { ApiDemand, HttpApiAnalyser } from '../base/HttpApiAnalyser';
 import { MemoizedQuery } from '../base/LanguageProfile';
 import { CodeFile } from '../../codemodel/CodeElement';
 import { LanguageIdentifier } from '../../base/common/languages/languages';
@@ -28,16 +28,15 @@ export class FastApiAnalyser extends HttpApiAnalyser {
 		return Promise.resolve([]);
 	}
 
-	protected _restTemplateQuery: MemoizedQuery = new MemoizedQuery(`
+	// requests.get(url)、httpx.post(url) 以及 session/client 对象上的调用
+	protected httpClientQuery: MemoizedQuery = new MemoizedQuery(`
         (call
             function: (attribute
-                object: (identifier) @object-name
+                object: (_) @receiver
                 attribute: (identifier) @method-name
             )
-            arguments: (argument_list
-                (string) @url-arg
-            )
-        )
+            arguments: (argument_list) @args
+        ) @call
     `);
 
 	protected routeQuery: MemoizedQuery = new MemoizedQuery(`
@@ -106,10 +105,6 @@ export class FastApiAnalyser extends HttpApiAnalyser {
         )
     `);
 
-	get restTemplateQuery(): MemoizedQuery {
-		return this._restTemplateQuery;
-	}
-
 	async sourceCodeAnalysis(sourceCode: string, filePath: string, workspacePath: string): Promise<ApiResource[]> {
 		if (!this.language || !this.parser) {
 			console.warn(`FastApiAnalyser not initialized for ${this.langId}`);
@@ -121,6 +116,11 @@ export class FastApiAnalyser extends HttpApiAnalyser {
 			return [];
 		}
 
+		// Flask 2 的 @app.get() 与 FastAPI 写法相同，由 FlaskAnalyser 处理
+		if (/^\s*(from\s+flask\s+import|import\s+flask)\b/m.test(sourceCode) && !/\bfastapi\b/.test(sourceCode)) {
+			return [];
+		}
+
 		// 解析源代码
 		const codeFile = await this.structurer.parseFile(sourceCode, filePath);
 		if (!codeFile) {
@@ -137,6 +137,64 @@ export class FastApiAnalyser extends HttpApiAnalyser {
 		return Promise.all(this.resources);
 	}
 
+	async demandAnalysis(sourceCode: string, filePath: string, workspacePath: string): Promise<ApiDemand[]> {
+		if (!this.language || !this.parser || !sourceCode) return [];
+
+		const query = this.httpClientQuery.query(this.language);
+		if (!query) return [];
+
+		const tree = this.parser.parse(sourceCode);
+		for (const match of query.matches(tree.rootNode)) {
+			const nodeOf = (name: string) => match.captures.find(capture => capture.name === name)?.node;
+			const call = nodeOf('call')!;
+			const receiver = nodeOf('receiver')!.text;
+			const methodName = nodeOf('method-name')!.text;
+			if (!this.isHttpClient(receiver)) continue;
+
+			const args = nodeOf('args')!.namedChildren.filter(arg => arg.type !== 'comment');
+			const positional = args.filter(arg => arg.type !== 'keyword_argument');
+			const keyword = (name: string) => args
+				.find(arg => arg.type === 'keyword_argument' && arg.childForFieldName('name')?.text === name)
+				?.childForFieldName('value');
+
+			let httpMethod = '';
+			let urlNode: SyntaxNode | undefined | null;
+			if (methodName === 'request') {
+				// requests.request("GET", url)
+				const methodNode = keyword('method') ?? positional[0];
+				httpMethod = methodNode?.type === 'string' ? this.cleanStringLiteral(methodNode.text).toUpperCase() : '';
+				urlNode = keyword('url') ?? (keyword('method') ? positional[0] : positional[1]);
+			} else if (['get', 'post', 'put', 'delete', 'patch'].includes(methodName)) {
+				httpMethod = methodName.toUpperCase();
+				urlNode = keyword('url') ?? positional[0];
+			}
+
+			if (!httpMethod || !urlNode) continue;
+
+			const targetUrl = this.urlTemplateOf(urlNode);
+			if (!this.isUrlTemplate(targetUrl)) continue;
+
+			this.demands.push({
+				sourceCaller: this.callerOf(call),
+				targetUrl,
+				targetHttpMethod: httpMethod,
+				clientType: /\bhttpx\b/.test(receiver) ? 'httpx' : (/\brequests\b/.test(receiver) ? 'requests' : receiver),
+			});
+		}
+
+		return this.demands;
+	}
+
+	/**
+	 * requests/httpx 模块，或者命名为 session/client 的对象
+	 */
+	private isHttpClient(receiver: string): boolean {
+		if (/\b(requests|httpx)\b/.test(receiver)) return true;
+
+		const lastName = receiver.match(/(\w+)\W*$/)?.[1] ?? '';
+		return /(session|client)$/i.test(lastName);
+	}
+
 	/**
 	 * 分析FastAPI路由
 	 * @param rootNode AST根节点
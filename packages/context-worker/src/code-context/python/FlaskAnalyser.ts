@@ -0,0 +1,197 @@
+import { injectable } from "inversify";
+import { SyntaxNode } from 'web-tree-sitter';
+import { ApiResource } from "@autodev/worker-core";
+
+import { HttpApiAnalyser } from '../base/HttpApiAnalyser';
+import { MemoizedQuery } from '../base/LanguageProfile';
+import { CodeFile } from '../../codemodel/CodeElement';
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { LanguageProfileUtil } from "../base/LanguageProfileUtil";
+import { PythonProfile } from "./PythonProfile";
+import { PythonStructurer } from "./PythonStructurer";
+
+const ROUTE_SHORTCUTS = ['get', 'post', 'put', 'delete', 'patch'];
+const FLASK_IMPORT = /^\s*(from\s+flask\s+import|import\s+flask)\b/m;
+
+/**
+ * Routes of Flask apps and blueprints: `@app.route('/users', methods=['GET', 'POST'])`, the `@bp.get('/users')`
+ * shortcuts of Flask 2 and `app.add_url_rule('/users', view_func=list_users)`.
+ *
+ * The `url_prefix` of `Blueprint(...)` and of `register_blueprint(...)` is applied when both are in the same file.
+ */
+@injectable()
+export class FlaskAnalyser extends HttpApiAnalyser {
+	readonly langId: LanguageIdentifier = 'python';
+
+	constructor() {
+		super();
+		this.config = LanguageProfileUtil.from(this.langId) || new PythonProfile();
+		this.structurer = new PythonStructurer();
+	}
+
+	isApplicable(lang: LanguageIdentifier): boolean {
+		return lang === "python";
+	}
+
+	analysis(codeFile: CodeFile, workspacePath: string): Promise<ApiResource[]> {
+		return Promise.resolve([]);
+	}
+
+	// 捕获 app/blueprint 对象上的方法调用，包括装饰器中的调用
+	protected methodCallQuery: MemoizedQuery = new MemoizedQuery(`
+		(call
+			function: (attribute
+				object: (identifier) @object
+				attribute: (identifier) @method-name
+			)
+			arguments: (argument_list) @args
+		) @call
+	`);
+
+	// 捕获 Blueprint 实例化
+	protected blueprintQuery: MemoizedQuery = new MemoizedQuery(`
+		(assignment
+			left: (identifier) @blueprint-name
+			right: (call
+				function: [(identifier) (attribute)] @blueprint-class
+				arguments: (argument_list) @args
+			)
+		)
+	`);
+
+	async sourceCodeAnalysis(sourceCode: string, filePath: string, workspacePath: string): Promise<ApiResource[]> {
+		if (!this.language || !this.parser) {
+			console.warn(`FlaskAnalyser not initialized for ${this.langId}`);
+			return [];
+		}
+
+		if (!sourceCode || !FLASK_IMPORT.test(sourceCode)) {
+			return [];
+		}
+
+		const tree = this.parser.parse(sourceCode);
+
+		// blueprint 前缀：Blueprint(url_prefix=...) 与 register_blueprint(bp, url_prefix=...) 组合
+		const prefixes = new Map<string, string>();
+		for (const match of this.blueprintQuery.query(this.language).matches(tree.rootNode)) {
+			const nodeOf = (name: string) => match.captures.find(capture => capture.name === name)!.node;
+			if (!/(^|\.)Blueprint$/.test(nodeOf('blueprint-class').text)) continue;
+
+			prefixes.set(nodeOf('blueprint-name').text, this.keywordValueOf(nodeOf('args'), 'url_prefix') ?? '');
+		}
+
+		const calls = this.methodCallQuery.query(this.language).matches(tree.rootNode).map(match => {
+			const nodeOf = (name: string) => match.captures.find(capture => capture.name === name)!.node;
+			return { call: nodeOf('call'), object: nodeOf('object').text, methodName: nodeOf('method-name').text, args: nodeOf('args') };
+		});
+
+		for (const { methodName, args } of calls) {
+			const blueprint = args.namedChildren[0];
+			if (methodName !== 'register_blueprint' || blueprint?.type !== 'identifier') continue;
+
+			const mountPrefix = this.keywordValueOf(args, 'url_prefix');
+			if (mountPrefix !== undefined) {
+				prefixes.set(blueprint.text, mountPrefix);
+			}
+		}
+
+		for (const { call, object, methodName, args } of calls) {
+			const route = this.routeOf(call, methodName, args);
+			if (!route) continue;
+
+			for (const httpMethod of route.httpMethods) {
+				this.resources.push({
+					id: "",
+					sourceUrl: this.joinRoutePaths(prefixes.get(object) ?? '', route.path),
+					sourceHttpMethod: httpMethod,
+					packageName: this.getPackageName(filePath),
+					className: this.getModuleName(filePath),
+					methodName: route.functionName,
+					supplyType: "Flask",
+				});
+			}
+		}
+
+		return this.resources;
+	}
+
+	private routeOf(call: SyntaxNode, methodName: string, args: SyntaxNode): { httpMethods: string[], path: string, functionName: string } | undefined {
+		const routePath = this.stringLiteralOf(args.namedChildren[0]) ?? this.keywordValueOf(args, 'rule');
+		if (routePath === undefined) return undefined;
+
+		if (methodName === 'add_url_rule') {
+			const viewFunc = this.keywordNodeOf(args, 'view_func') ?? args.namedChildren[2];
+			return { httpMethods: this.methodsOf(args), path: routePath, functionName: this.viewNameOf(viewFunc) };
+		}
+
+		// 其余的路由声明都是装饰器
+		const decorated = call.parent?.type === 'decorator' ? call.parent.parent : undefined;
+		const functionName = decorated?.type === 'decorated_definition'
+			? decorated.childForFieldName('definition')?.childForFieldName('name')?.text
+			: undefined;
+		if (!functionName) return undefined;
+
+		if (methodName === 'route') {
+			return { httpMethods: this.methodsOf(args), path: routePath, functionName };
+		}
+
+		if (ROUTE_SHORTCUTS.includes(methodName)) {
+			return { httpMethods: [methodName.toUpperCase()], path: routePath, functionName };
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * `methods=['GET', 'POST']`, Flask routes are GET only by default
+	 */
+	private methodsOf(args: SyntaxNode): string[] {
+		const methods = (this.keywordNodeOf(args, 'methods')?.namedChildren ?? [])
+			.map(method => this.stringLiteralOf(method)?.toUpperCase())
+			.filter((method): method is string => !!method);
+
+		return methods.length > 0 ? methods : ['GET'];
+	}
+
+	private viewNameOf(viewFunc: SyntaxNode | undefined): string {
+		if (!viewFunc) return '';
+
+		// UserView.as_view('users')
+		if (viewFunc.type === 'call') {
+			return this.viewNameOf(viewFunc.childForFieldName('function')?.childForFieldName('object') ?? undefined);
+		}
+
+		if (viewFunc.type === 'attribute') {
+			return viewFunc.childForFieldName('attribute')?.text ?? '';
+		}
+
+		return viewFunc.text;
+	}
+
+	private keywordNodeOf(args: SyntaxNode, name: string): SyntaxNode | undefined {
+		return args.namedChildren
+			.find(arg => arg.type === 'keyword_argument' && arg.childForFieldName('name')?.text === name)
+			?.childForFieldName('value') ?? undefined;
+	}
+
+	private keywordValueOf(args: SyntaxNode, name: string): string | undefined {
+		return this.stringLiteralOf(this.keywordNodeOf(args, name));
+	}
+
+	/**
+	 * 获取包名
+	 */
+	private getPackageName(filePath: string): string {
+		const parts = filePath.split('/');
+		return parts[parts.length - 2] || '';
+	}
+
+	/**
+	 * 获取模块名
+	 */
+	private getModuleName(filePath: string): string {
+		const parts = filePath.split('/');
+		const fileName = parts[parts.length - 1];
+		return fileName.replace('.py', '');
+	}
+}
@@ -2,6 +2,7 @@ import { injectable } from 'inversify';
 
 import { ILanguageServiceProvider } from '../../base/common/languages/languageService';
 import { LanguageProfile, MemoizedQuery } from '../base/LanguageProfile';
+import pythonScopeQuery from '../../code-search/schemas/indexes/python.scm';
 
 @injectable()
 export class PythonProfile implements LanguageProfile {
@@ -9,6 +10,7 @@ export class PythonProfile implements LanguageProfile {
 	fileExtensions = ['py'];
 	grammar = (langService: ILanguageServiceProvider) => langService.getLanguage('python');
 	isTestFile = (filePath: string) => filePath.endsWith('_test.py');
+	scopeQuery = new MemoizedQuery(pythonScopeQuery);
 	hoverableQuery = new MemoizedQuery(`
      (identifier) @hoverable
   `);
@@ -21,6 +23,15 @@ export class PythonProfile implements LanguageProfile {
 				name: (identifier)@name.definition.method
 			) @definition.method
     `);
+	callQuery = new MemoizedQuery(`
+		(call
+			function: [
+				(identifier) @call.name
+				(attribute
+					object: (_) @call.receiver
+					attribute: (identifier) @call.name)
+			])
+	`);
 	blockCommentQuery = new MemoizedQuery(`
 		(expression_statement
 			(string) @docComment)
@@ -0,0 +1,22 @@
+import { injectable } from 'inversify';
+
+import { ImportRelevantCodeProvider, RelevantImportLookup } from '../base/ImportRelevantCodeProvider';
+import { StructurerProvider } from '../base/StructurerProvider';
+import { TreeSitterFile } from '../../ast/TreeSitterFile';
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { PythonStructurer } from './PythonStructurer';
+import { PythonRelevantLookup } from './utils/PythonRelevantLookup';
+
+@injectable()
+export class PythonRelevantCodeProvider extends ImportRelevantCodeProvider {
+	name = 'PythonRelatedProvider';
+	language: LanguageIdentifier = 'python';
+
+	protected createStructurer(): StructurerProvider {
+		return new PythonStructurer();
+	}
+
+	protected createLookup(file: TreeSitterFile): RelevantImportLookup {
+		return new PythonRelevantLookup(file);
+	}
+}
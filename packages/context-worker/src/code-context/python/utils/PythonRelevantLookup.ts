@@ -0,0 +1,149 @@
+import fs from 'fs';
+import path from 'path';
+import { SyntaxNode } from 'web-tree-sitter';
+
+import { TreeSitterFile } from '../../../ast/TreeSitterFile';
+import { RelevantImportLookup } from '../../base/ImportRelevantCodeProvider';
+
+// the search for the root of absolute imports stops at the project root
+const PROJECT_MARKERS = ['pyproject.toml', 'setup.py', 'setup.cfg', 'requirements.txt', '.git'];
+
+interface PythonImport {
+	module: string;
+	// `Order` of `from shop.models import Order`, which is a module itself when `shop/models/Order.py` exists
+	member?: string;
+}
+
+/**
+ * Resolves the type hints of a Python function to the files of the modules they are imported from, for relative
+ * imports and absolute imports of packages inside the project. Modules of the standard library and installed packages
+ * are not found on disk, so they are ignored.
+ */
+export class PythonRelevantLookup implements RelevantImportLookup {
+	constructor(private readonly tsfile: TreeSitterFile) {
+	}
+
+	methodIOTypes(methodNode: SyntaxNode): string[] {
+		const functionNode = methodNode.type === 'function_definition'
+			? methodNode
+			: methodNode.descendantsOfType('function_definition')[0];
+		if (!functionNode) {
+			return [];
+		}
+
+		const parameters = functionNode.childForFieldName('parameters')?.namedChildren ?? [];
+		const annotations = [
+			...parameters.map(param => param.childForFieldName('type')),
+			functionNode.childForFieldName('return_type'),
+		].filter((node): node is SyntaxNode => !!node);
+
+		const types = annotations.flatMap(node => [
+			...node.descendantsOfType('identifier').map(it => it.text),
+			// forward references like `-> "Order"`
+			...node.descendantsOfType('string').flatMap(it => it.text.match(/[A-Za-z_]\w*/g) ?? []),
+		]);
+
+		return [...new Set(types)];
+	}
+
+	relevantTypesToFilePath(types: string[]): string[] {
+		const imports = this.importsByName();
+		const paths = types
+			.map(type => imports.get(type))
+			.filter((imp): imp is PythonImport => !!imp)
+			.map(imp => this.resolveImport(imp))
+			.filter((file): file is string => !!file && file !== this.tsfile.filePath);
+
+		return [...new Set(paths)];
+	}
+
+	importsByName(): Map<string, PythonImport> {
+		const imports = new Map<string, PythonImport>();
+		const root = this.tsfile.tree.rootNode;
+
+		for (const statement of root.descendantsOfType('import_from_statement')) {
+			const module = statement.childForFieldName('module_name')?.text;
+			if (!module) continue;
+
+			for (const name of statement.childrenForFieldName('name')) {
+				const { member, local } = aliasOf(name);
+				imports.set(local, { module, member });
+			}
+		}
+
+		for (const statement of root.descendantsOfType('import_statement')) {
+			for (const name of statement.childrenForFieldName('name')) {
+				if (name.type === 'aliased_import') {
+					const { member, local } = aliasOf(name);
+					imports.set(local, { module: member });
+				} else {
+					// `import shop.models` binds `shop`, used as `shop.models.Order`
+					imports.set(name.text.split('.')[0], { module: name.text });
+				}
+			}
+		}
+
+		return imports;
+	}
+
+	resolveImport(imp: PythonImport): string | undefined {
+		const relative = imp.module.match(/^(\.+)(.*)$/);
+		const roots = relative
+			? [this.relativeRoot(relative[1].length)]
+			: this.absoluteRoots();
+		const modulePath = (relative ? relative[2] : imp.module).split('.').filter(it => it !== '');
+
+		for (const root of roots) {
+			if (imp.member) {
+				const memberModule = moduleFile(path.join(root, ...modulePath, imp.member));
+				if (memberModule) {
+					return memberModule;
+				}
+			}
+
+			const module = modulePath.length > 0 ? moduleFile(path.join(root, ...modulePath)) : undefined;
+			if (module) {
+				return module;
+			}
+		}
+
+		return undefined;
+	}
+
+	private relativeRoot(dots: number): string {
+		let dir = path.dirname(this.tsfile.filePath);
+		for (let i = 1; i < dots; i++) {
+			dir = path.dirname(dir);
+		}
+		return dir;
+	}
+
+	/**
+	 * The current directory and its parents up to the project root, any of them can be a source root
+	 */
+	private absoluteRoots(): string[] {
+		const roots: string[] = [];
+		let dir = path.dirname(this.tsfile.filePath);
+		while (true) {
+			roots.push(dir);
+			const parent = path.dirname(dir);
+			if (parent === dir || PROJECT_MARKERS.some(marker => fs.existsSync(path.join(dir, marker)))) {
+				return roots;
+			}
+			dir = parent;
+		}
+	}
+}
+
+function aliasOf(name: SyntaxNode): { member: string, local: string } {
+	if (name.type === 'aliased_import') {
+		const member = name.childForFieldName('name')?.text ?? '';
+		return { member, local: name.childForFieldName('alias')?.text ?? member };
+	}
+
+	return { member: name.text, local: name.text };
+}
+
+function moduleFile(base: string): string | undefined {
+	return [`${base}.py`, path.join(base, '__init__.py')].find(file => fs.existsSync(file));
+}
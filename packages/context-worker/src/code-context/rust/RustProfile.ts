@@ -2,6 +2,7 @@ import { injectable } from 'inversify';
 
 import { ILanguageServiceProvider } from '../../base/common/languages/languageService';
 import { LanguageProfile, MemoizedQuery } from '../base/LanguageProfile';
+import rustScopeQuery from '../../code-search/schemas/indexes/rust.scm';
 
 @injectable()
 export class RustProfile implements LanguageProfile {
@@ -9,6 +10,7 @@ export class RustProfile implements LanguageProfile {
 	fileExtensions = ['rs'];
 	grammar = (langService: ILanguageServiceProvider) => langService.getLanguage('rust');
 	isTestFile = (filePath: string) => filePath.endsWith('test.rs');
+	scopeQuery = new MemoizedQuery(rustScopeQuery);
 	hoverableQuery = new MemoizedQuery(`
      [(identifier)
          (shorthand_field_identifier)
@@ -0,0 +1,149 @@
+import { injectable } from 'inversify';
+import path from "path";
+import { SyntaxNode } from 'web-tree-sitter';
+import { ApiResource } from "@autodev/worker-core";
+
+import { ANY_HTTP_METHOD, HttpApiAnalyser } from '../base/HttpApiAnalyser';
+import { CodeFile } from '../../codemodel/CodeElement';
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { LanguageProfileUtil } from '../base/LanguageProfileUtil';
+import { StructurerProvider } from "../base/StructurerProvider";
+import { TypeScriptProfile } from './TypeScriptProfile';
+import { TypeScriptStructurer } from './TypeScriptStructurer';
+
+const ROUTE_DECORATORS: Record<string, string> = {
+	Get: 'GET',
+	Post: 'POST',
+	Put: 'PUT',
+	Delete: 'DELETE',
+	Patch: 'PATCH',
+	Options: 'OPTIONS',
+	Head: 'HEAD',
+	All: ANY_HTTP_METHOD,
+};
+
+export interface Decorator {
+	name: string;
+	args: SyntaxNode[];
+}
+
+/**
+ * Routes of NestJS controllers: `@Controller('users')` classes with `@Get(':id')` like decorated methods.
+ * The global prefix of `app.setGlobalPrefix()` is not applied.
+ */
+@injectable()
+export class NestjsAnalyser extends HttpApiAnalyser {
+	protected structurer: StructurerProvider = new TypeScriptStructurer();
+	readonly langId: LanguageIdentifier = 'typescript';
+
+	constructor() {
+		super();
+		this.config = LanguageProfileUtil.from(this.langId) || new TypeScriptProfile();
+	}
+
+	isApplicable(lang: LanguageIdentifier): boolean {
+		return lang === this.langId;
+	}
+
+	analysis(codeFile: CodeFile, workspacePath: string): Promise<ApiResource[]> {
+		return Promise.resolve([]);
+	}
+
+	async sourceCodeAnalysis(sourceCode: string, filePath: string, workspacePath: string): Promise<ApiResource[]> {
+		if (!this.language || !this.parser) {
+			console.warn(`NestjsAnalyser not initialized for ${this.langId}`);
+			return [];
+		}
+
+		if (!sourceCode || !sourceCode.includes('@Controller')) {
+			return [];
+		}
+
+		const tree = this.parser.parse(sourceCode);
+		const packageName = path.relative(workspacePath, filePath);
+
+		for (const declaration of tree.rootNode.descendantsOfType('class_declaration')) {
+			const controller = this.decoratorsOf(declaration).find(decorator => decorator.name === 'Controller');
+			if (!controller) continue;
+
+			const className = declaration.childForFieldName('name')?.text ?? '';
+			const basePath = this.routePathOf(controller.args[0]);
+
+			// method decorators are siblings of the method in the class body
+			let decorators: Decorator[] = [];
+			for (const member of declaration.childForFieldName('body')?.namedChildren ?? []) {
+				if (member.type === 'comment') continue;
+				if (member.type === 'decorator') {
+					decorators.push(this.decoratorOf(member));
+					continue;
+				}
+
+				if (member.type === 'method_definition') {
+					for (const decorator of decorators) {
+						const httpMethod = ROUTE_DECORATORS[decorator.name];
+						if (!httpMethod) continue;
+
+						this.resources.push({
+							id: "",
+							sourceUrl: this.joinRoutePaths(basePath, this.routePathOf(decorator.args[0])),
+							sourceHttpMethod: httpMethod,
+							packageName,
+							className,
+							methodName: member.childForFieldName('name')?.text ?? '',
+							supplyType: "NestJS",
+						});
+					}
+				}
+
+				decorators = [];
+			}
+		}
+
+		return this.resources;
+	}
+
+	/**
+	 * Decorators of an exported class belong to the `export` statement
+	 */
+	protected decoratorsOf(declaration: SyntaxNode): Decorator[] {
+		const nodes = declaration.children.filter(child => child.type === 'decorator');
+		if (declaration.parent?.type === 'export_statement') {
+			nodes.push(...declaration.parent.children.filter(child => child.type === 'decorator'));
+		}
+
+		return nodes.map(node => this.decoratorOf(node));
+	}
+
+	protected decoratorOf(node: SyntaxNode): Decorator {
+		const expression = node.namedChildren[0];
+		if (expression?.type === 'call_expression') {
+			return {
+				name: expression.childForFieldName('function')?.text ?? '',
+				args: expression.childForFieldName('arguments')?.namedChildren ?? [],
+			};
+		}
+
+		return { name: expression?.text ?? '', args: [] };
+	}
+
+	/**
+	 * The path argument of `@Controller()` or `@Get()`: a string, the first of an array, or the `path` of an options
+	 * object like `@Controller({ path: 'users', version: '1' })`
+	 */
+	private routePathOf(arg: SyntaxNode | undefined): string {
+		if (!arg) return '';
+
+		if (arg.type === 'array') {
+			return this.routePathOf(arg.namedChildren[0]);
+		}
+
+		if (arg.type === 'object') {
+			const pathValue = arg.namedChildren
+				.find(pair => pair.type === 'pair' && pair.childForFieldName('key')?.text === 'path')
+				?.childForFieldName('value');
+			return this.routePathOf(pathValue ?? undefined);
+		}
+
+		return this.stringLiteralOf(arg) ?? '';
+	}
+}
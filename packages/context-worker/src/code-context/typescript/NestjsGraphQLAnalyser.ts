@@ -0,0 +1,84 @@
+import { injectable } from 'inversify';
+import path from "path";
+import { SyntaxNode } from 'web-tree-sitter';
+import { ApiResource } from "@autodev/worker-core";
+
+import { graphQLResourceOf } from '../../graphql/GraphQLResourceGenerator';
+import { GraphQLOperationKind } from '../../graphql/GraphQLSchemaParser';
+import { Decorator, NestjsAnalyser } from './NestjsAnalyser';
+
+const OPERATION_DECORATORS: Record<string, GraphQLOperationKind> = {
+	Query: 'query',
+	Mutation: 'mutation',
+	Subscription: 'subscription',
+};
+
+/**
+ * Operations of code-first NestJS GraphQL resolvers: `@Resolver()` classes with `@Query()`, `@Mutation()` and
+ * `@Subscription()` methods. The operation is named after the method, or the `name` option like
+ * `@Query(() => User, { name: 'user' })`.
+ */
+@injectable()
+export class NestjsGraphQLAnalyser extends NestjsAnalyser {
+	async sourceCodeAnalysis(sourceCode: string, filePath: string, workspacePath: string): Promise<ApiResource[]> {
+		if (!this.language || !this.parser) {
+			console.warn(`NestjsGraphQLAnalyser not initialized for ${this.langId}`);
+			return [];
+		}
+
+		if (!sourceCode || !sourceCode.includes('@Resolver')) {
+			return [];
+		}
+
+		const tree = this.parser.parse(sourceCode);
+		const packageName = path.relative(workspacePath, filePath);
+
+		for (const declaration of tree.rootNode.descendantsOfType('class_declaration')) {
+			if (!this.decoratorsOf(declaration).some(decorator => decorator.name === 'Resolver')) continue;
+
+			const className = declaration.childForFieldName('name')?.text ?? '';
+			let decorators: Decorator[] = [];
+			for (const member of declaration.childForFieldName('body')?.namedChildren ?? []) {
+				if (member.type === 'comment') continue;
+				if (member.type === 'decorator') {
+					decorators.push(this.decoratorOf(member));
+					continue;
+				}
+
+				if (member.type === 'method_definition') {
+					const methodName = member.childForFieldName('name')?.text ?? '';
+					for (const decorator of decorators) {
+						const kind = OPERATION_DECORATORS[decorator.name];
+						if (!kind) continue;
+
+						const name = this.operationNameOf(decorator.args) ?? methodName;
+						this.resources.push(graphQLResourceOf(kind, name, packageName, className, methodName));
+					}
+				}
+
+				decorators = [];
+			}
+		}
+
+		return this.resources;
+	}
+
+	/**
+	 * `@Query('user')` or the `name` of the options object
+	 */
+	private operationNameOf(args: SyntaxNode[]): string | undefined {
+		for (const arg of args) {
+			const literal = this.stringLiteralOf(arg);
+			if (literal) return literal;
+
+			if (arg.type === 'object') {
+				const name = arg.namedChildren
+					.find(pair => pair.type === 'pair' && pair.childForFieldName('key')?.text === 'name')
+					?.childForFieldName('value');
+				return this.stringLiteralOf(name);
+			}
+		}
+
+		return undefined;
+	}
+}
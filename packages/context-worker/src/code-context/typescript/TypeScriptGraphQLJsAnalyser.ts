@@ -0,0 +1,19 @@
+import { injectable } from 'inversify';
+
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { LanguageProfileUtil } from '../base/LanguageProfileUtil';
+import { StructurerProvider } from '../base/StructurerProvider';
+import { GraphQLJsAnalyser } from '../javascript/GraphQLJsAnalyser';
+import { TypeScriptProfile } from './TypeScriptProfile';
+import { TypeScriptStructurer } from './TypeScriptStructurer';
+
+@injectable()
+export class TypeScriptGraphQLJsAnalyser extends GraphQLJsAnalyser {
+	protected structurer: StructurerProvider = new TypeScriptStructurer();
+	readonly langId: LanguageIdentifier = 'typescript';
+
+	constructor() {
+		super();
+		this.config = LanguageProfileUtil.from(this.langId) || new TypeScriptProfile();
+	}
+}
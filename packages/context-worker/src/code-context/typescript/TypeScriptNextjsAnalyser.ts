@@ -1,9 +1,9 @@
 import { injectable } from 'inversify';
 import { SyntaxNode } from 'web-tree-sitter';
 
-import { HttpApiAnalyser } from '../base/HttpApiAnalyser';
+import { ApiDemand, HttpApiAnalyser } from '../base/HttpApiAnalyser';
 import { MemoizedQuery } from '../base/LanguageProfile';
-import { CodeFile, CodeFunction } from '../../codemodel/CodeElement';
+import { CodeFile } from '../../codemodel/CodeElement';
 import { LanguageIdentifier } from '../../base/common/languages/languages';
 import { StructurerProvider } from "../base/StructurerProvider";
 import { ApiResource } from "@autodev/worker-core";
@@ -12,6 +12,10 @@ import path from "path";
 import { TypeScriptStructurer } from './TypeScriptStructurer';
 import fs from "fs";
 
+const HTTP_CLIENT_METHODS = ['get', 'post', 'put', 'delete', 'patch'];
+const ROUTER_OBJECTS = /^(app|router|server|route)$/i;
+const FUNCTION_NODE_TYPES = ['arrow_function', 'function_expression', 'function'];
+
 @injectable()
 export class TypeScriptNextjsAnalyser extends HttpApiAnalyser {
   protected structurer: StructurerProvider = new TypeScriptStructurer();
@@ -61,17 +65,18 @@ export class TypeScriptNextjsAnalyser extends HttpApiAnalyser {
     )
   `);
 
-  protected restClientQuery = new MemoizedQuery(`
+  // fetch(url, { method }) 以及 axios.get(url) 这类 HTTP 客户端调用
+  protected httpClientQuery = new MemoizedQuery(`
     (call_expression
-      function: (member_expression
-        object: (identifier) @client
-        property: (property_identifier) @method
-      )
-      arguments: (arguments
-        (string) @url
-        (_)* @otherArgs
-      )
-    )
+      function: [
+        (identifier) @function-name
+        (member_expression
+          object: (_) @receiver
+          property: (property_identifier) @method-name
+        )
+      ]
+      arguments: (arguments) @args
+    ) @call
   `);
 
   constructor() {
@@ -137,9 +142,6 @@ export class TypeScriptNextjsAnalyser extends HttpApiAnalyser {
         methodName: method,
         supplyType: "Nextjs",
       });
-
-      const handlerFunction = codeFile.functions.find(f => f.name === method);
-      this.findApiClientUsages(rootNode, handlerFunction);
     }
 
     return this.resources;
@@ -203,9 +205,6 @@ export class TypeScriptNextjsAnalyser extends HttpApiAnalyser {
       }
     }
 
-    // 分析 API 调用
-    this.findApiClientUsages(rootNode, handlerFunction);
-
     return this.resources;
   }
 
@@ -237,59 +236,63 @@ export class TypeScriptNextjsAnalyser extends HttpApiAnalyser {
     return methods;
   }
 
-  protected findApiClientUsages(rootNode: SyntaxNode, currentFunction: CodeFunction): void {
-    if (!this.language) return;
-
-    const query = this.restClientQuery.query(this.language);
-    if (!query) return;
+  async demandAnalysis(sourceCode: string, filePath: string, workspacePath: string): Promise<ApiDemand[]> {
+    if (!this.language || !this.parser || !sourceCode) return [];
 
-    const captures = query.captures(rootNode);
-    let currentInvocation = {
-      clientName: '',
-      methodName: '',
-      urlArg: ''
-    };
+    const query = this.httpClientQuery.query(this.language);
+    if (!query) return [];
 
-    for (const capture of captures) {
-      switch (capture.name) {
-        case 'client':
-          currentInvocation.clientName = capture.node.text;
-          break;
-        case 'method':
-          currentInvocation.methodName = capture.node.text;
-          break;
-        case 'url':
-          currentInvocation.urlArg = this.cleanStringLiteral(capture.node.text);
-
-          // 如果我们有API客户端调用的所有部分
-          if (currentInvocation.clientName &&
-            currentInvocation.methodName &&
-            currentInvocation.urlArg) {
-
-            // 确定 HTTP 方法
-            let httpMethod = '';
-            const methodName = currentInvocation.methodName.toLowerCase();
-
-            if (methodName === 'get') httpMethod = 'GET';
-            else if (methodName === 'post') httpMethod = 'POST';
-            else if (methodName === 'delete') httpMethod = 'DELETE';
-            else if (methodName === 'put') httpMethod = 'PUT';
-            else if (methodName === 'patch') httpMethod = 'PATCH';
-
-            if (httpMethod) {
-              this.demands.push({
-                sourceCaller: currentFunction.name || '',
-                targetUrl: currentInvocation.urlArg,
-                targetHttpMethod: httpMethod
-              });
-            }
-
-            // 重置下一次调用
-            currentInvocation = { clientName: '', methodName: '', urlArg: '' };
-          }
-          break;
+    const tree = this.parser.parse(sourceCode);
+    for (const match of query.matches(tree.rootNode)) {
+      const nodeOf = (name: string) => match.captures.find(capture => capture.name === name)?.node;
+      const call = nodeOf('call');
+      const args = nodeOf('args')?.namedChildren.filter(arg => arg.type !== 'comment') || [];
+      if (!call || args.length === 0) continue;
+
+      let httpMethod = '';
+      let clientType = '';
+      const functionName = nodeOf('function-name')?.text;
+      if (functionName === 'fetch') {
+        clientType = 'fetch';
+        httpMethod = this.fetchMethodOf(args[1]);
+      } else if (functionName === undefined) {
+        const receiver = nodeOf('receiver')!.text;
+        const methodName = nodeOf('method-name')!.text;
+        // app.get('/users', handler) 这类是路由声明而不是调用
+        const isRouteDeclaration = ROUTER_OBJECTS.test(receiver) ||
+          args.some(arg => FUNCTION_NODE_TYPES.includes(arg.type));
+
+        if (HTTP_CLIENT_METHODS.includes(methodName) && !isRouteDeclaration) {
+          clientType = /axios/i.test(receiver) ? 'axios' : receiver;
+          httpMethod = methodName.toUpperCase();
+        }
       }
+
+      if (!httpMethod) continue;
+
+      const targetUrl = this.urlTemplateOf(args[0]);
+      if (!this.isUrlTemplate(targetUrl)) continue;
+
+      this.demands.push({
+        sourceCaller: this.callerOf(call),
+        targetUrl,
+        targetHttpMethod: httpMethod,
+        clientType,
+      });
     }
+
+    return this.demands;
+  }
+
+  protected fetchMethodOf(options: SyntaxNode | undefined): string {
+    const methodPair = options?.type === 'object'
+      ? options.namedChildren.find(pair => pair.type === 'pair' && pair.childForFieldName('key')?.text === 'method')
+      : undefined;
+    const methodValue = methodPair?.childForFieldName('value');
+    if (!methodValue) return 'GET';
+    if (methodValue.type !== 'string') return '';
+
+    return this.cleanStringLiteral(methodValue.text).toUpperCase();
   }
 
   protected cleanStringLiteral(text: string): string {
@@ -3,6 +3,7 @@ import { injectable } from 'inversify';
 import { LanguageProfile, MemoizedQuery } from '../base/LanguageProfile';
 import { ILanguageServiceProvider } from "../../base/common/languages/languageService";
 import { LanguageIdentifier } from '../../base/common/languages/languages';
+import typescriptScopeQuery from '../../code-search/schemas/indexes/typescript.scm';
 
 @injectable()
 export class TypeScriptProfile implements LanguageProfile {
@@ -16,6 +17,7 @@ export class TypeScriptProfile implements LanguageProfile {
 		return langService.getLanguage('typescript');
 	};
 	isTestFile = (filePath: string) => filePath.endsWith('.test.ts') || filePath.endsWith('.spec.ts');
+	scopeQuery = new MemoizedQuery(typescriptScopeQuery);
 	hoverableQuery = new MemoizedQuery(`
       [(identifier)
         (property_identifier)
@@ -54,6 +56,15 @@ export class TypeScriptProfile implements LanguageProfile {
         )
       )
     `);
+	callQuery = new MemoizedQuery(`
+		(call_expression
+			function: [
+				(identifier) @call.name
+				(member_expression
+					object: (_) @call.receiver
+					property: (property_identifier) @call.name)
+			])
+	`);
 	blockCommentQuery = new MemoizedQuery(`
 		((comment) @comment
 			(#match? @comment "^\\\\/\\\\*\\\\*")) @docComment
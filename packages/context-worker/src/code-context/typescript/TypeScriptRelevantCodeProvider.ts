@@ -0,0 +1,22 @@
+import { injectable } from 'inversify';
+
+import { ImportRelevantCodeProvider, RelevantImportLookup } from '../base/ImportRelevantCodeProvider';
+import { StructurerProvider } from '../base/StructurerProvider';
+import { TreeSitterFile } from '../../ast/TreeSitterFile';
+import { LanguageIdentifier } from '../../base/common/languages/languages';
+import { TypeScriptStructurer } from './TypeScriptStructurer';
+import { TypeScriptRelevantLookup } from './utils/TypeScriptRelevantLookup';
+
+@injectable()
+export class TypeScriptRelevantCodeProvider extends ImportRelevantCodeProvider {
+	name = 'TypeScriptRelatedProvider';
+	language: LanguageIdentifier = 'typescript';
+
+	protected createStructurer(): StructurerProvider {
+		return new TypeScriptStructurer();
+	}
+
+	protected createLookup(file: TreeSitterFile): RelevantImportLookup {
+		return new TypeScriptRelevantLookup(file);
+	}
+}
@@ -1,7 +1,7 @@
 import { injectable } from 'inversify';
 import Parser, { Language } from 'web-tree-sitter';
 
-import { TypeScriptProfile } from './TypeScriptProfile';
+import { LanguageProfile } from '../base/LanguageProfile';
 import { BaseStructurerProvider } from "../base/StructurerProvider";
 import { CodeFile, CodeStructure, StructureType } from "../../codemodel/CodeElement";
 import { LanguageProfileUtil } from "../base/LanguageProfileUtil";
@@ -9,7 +9,7 @@ import { LanguageProfileUtil } from "../base/LanguageProfileUtil";
 @injectable()
 export class TypeScriptStructurer extends BaseStructurerProvider {
 	protected langId: string = 'typescript';
-	protected config: TypeScriptProfile = LanguageProfileUtil.from(this.langId)!!;
+	protected config: LanguageProfile = LanguageProfileUtil.from(this.langId)!!;
 	protected parser: Parser | undefined;
 	protected language: Language | undefined;
 
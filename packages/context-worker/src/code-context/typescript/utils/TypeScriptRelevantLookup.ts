@@ -0,0 +1,244 @@
+import fs from 'fs';
+import path from 'path';
+import { SyntaxNode } from 'web-tree-sitter';
+
+import { TreeSitterFile } from '../../../ast/TreeSitterFile';
+import { RelevantImportLookup } from '../../base/ImportRelevantCodeProvider';
+
+const FUNCTION_TYPES = [
+	'function_declaration',
+	'generator_function_declaration',
+	'function_expression',
+	'function',
+	'arrow_function',
+	'method_definition',
+	'method_signature',
+];
+
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs'];
+
+const CONFIG_FILES = ['tsconfig.json', 'jsconfig.json'];
+
+interface PathAliases {
+	baseUrl: string;
+	paths: Record<string, string[]>;
+}
+
+/**
+ * Resolves the imported types of a TypeScript or JavaScript method to files, through relative imports and the
+ * `baseUrl`/`paths` aliases of the nearest `tsconfig.json` or `jsconfig.json`. Packages from `node_modules` are
+ * ignored.
+ *
+ * JavaScript has no type annotations, so every imported name the method refers to counts as its input or output.
+ */
+export class TypeScriptRelevantLookup implements RelevantImportLookup {
+	constructor(private readonly tsfile: TreeSitterFile, private readonly typed: boolean = true) {
+	}
+
+	methodIOTypes(methodNode: SyntaxNode): string[] {
+		const functionNode = FUNCTION_TYPES.includes(methodNode.type)
+			? methodNode
+			: methodNode.descendantsOfType(FUNCTION_TYPES)[0];
+		if (!functionNode) {
+			return [];
+		}
+
+		if (!this.typed) {
+			return [...new Set(functionNode.descendantsOfType('identifier').map(node => node.text))];
+		}
+
+		const signature = [
+			functionNode.childForFieldName('parameters') ?? functionNode.childForFieldName('parameter'),
+			functionNode.childForFieldName('return_type'),
+		].filter((node): node is SyntaxNode => !!node);
+
+		const types = signature.flatMap(node => [
+			...node.descendantsOfType('type_identifier').map(it => it.text),
+			// `models.Order` refers to the namespace import `models`
+			...node.descendantsOfType('nested_type_identifier').map(it => it.childForFieldName('module')?.text ?? ''),
+		]);
+
+		return [...new Set(types.filter(type => type !== ''))];
+	}
+
+	relevantTypesToFilePath(types: string[]): string[] {
+		const imports = this.importSources();
+		const sources = new Set(types.map(type => imports.get(type)).filter((source): source is string => !!source));
+
+		const paths = [...sources]
+			.map(source => this.resolveModule(source))
+			.filter((file): file is string => !!file && file !== this.tsfile.filePath);
+
+		return [...new Set(paths)];
+	}
+
+	/**
+	 * Local names bound by the `import` statements and `require` calls of the file, to their module specifiers
+	 */
+	importSources(): Map<string, string> {
+		const imports = new Map<string, string>();
+		const root = this.tsfile.tree.rootNode;
+
+		for (const statement of root.descendantsOfType('import_statement')) {
+			const source = unquote(statement.childForFieldName('source')?.text);
+			if (!source) continue;
+
+			const clause = statement.namedChildren.find(child => child.type === 'import_clause');
+			for (const child of clause?.namedChildren ?? []) {
+				switch (child.type) {
+					case 'identifier':
+						imports.set(child.text, source);
+						break;
+					case 'namespace_import':
+						child.descendantsOfType('identifier').forEach(it => imports.set(it.text, source));
+						break;
+					case 'named_imports':
+						for (const specifier of child.descendantsOfType('import_specifier')) {
+							const local = specifier.childForFieldName('alias') ?? specifier.childForFieldName('name');
+							if (local) {
+								imports.set(local.text, source);
+							}
+						}
+						break;
+				}
+			}
+		}
+
+		for (const declarator of root.descendantsOfType('variable_declarator')) {
+			const value = declarator.childForFieldName('value');
+			if (value?.type !== 'call_expression' || value.childForFieldName('function')?.text !== 'require') continue;
+
+			const source = unquote(value.childForFieldName('arguments')?.namedChildren[0]?.text);
+			const name = declarator.childForFieldName('name');
+			if (!source || !name) continue;
+
+			const locals = name.type === 'identifier'
+				? [name]
+				: name.descendantsOfType(['identifier', 'shorthand_property_identifier_pattern']);
+			locals.forEach(local => imports.set(local.text, source));
+		}
+
+		return imports;
+	}
+
+	resolveModule(source: string): string | undefined {
+		const currentDir = path.dirname(this.tsfile.filePath);
+		if (source.startsWith('.')) {
+			return resolveFile(path.resolve(currentDir, source));
+		}
+
+		const aliases = findPathAliases(currentDir);
+		if (!aliases) {
+			return undefined;
+		}
+
+		for (const [pattern, targets] of Object.entries(aliases.paths)) {
+			const wildcard = matchPattern(pattern, source);
+			if (wildcard === undefined) continue;
+
+			for (const target of targets) {
+				const resolved = resolveFile(path.resolve(aliases.baseUrl, target.replace('*', wildcard)));
+				if (resolved) {
+					return resolved;
+				}
+			}
+		}
+
+		return resolveFile(path.resolve(aliases.baseUrl, source));
+	}
+}
+
+/**
+ * The part of the specifier the `*` of a `paths` pattern matches, undefined when it does not match
+ */
+function matchPattern(pattern: string, source: string): string | undefined {
+	const star = pattern.indexOf('*');
+	if (star < 0) {
+		return pattern === source ? '' : undefined;
+	}
+
+	const prefix = pattern.substring(0, star);
+	const suffix = pattern.substring(star + 1);
+	if (source.length < prefix.length + suffix.length || !source.startsWith(prefix) || !source.endsWith(suffix)) {
+		return undefined;
+	}
+
+	return source.substring(prefix.length, source.length - suffix.length);
+}
+
+function resolveFile(base: string): string | undefined {
+	const candidates = [
+		base,
+		// ESM style TypeScript imports `./order.js` for `./order.ts`
+		base.replace(/\.(m?js|jsx)$/, ''),
+	].flatMap(file => [
+		file,
+		...RESOLVE_EXTENSIONS.map(ext => file + ext),
+		...RESOLVE_EXTENSIONS.map(ext => path.join(file, `index${ext}`)),
+	]);
+
+	return candidates.find(file => fs.existsSync(file) && fs.statSync(file).isFile());
+}
+
+function findPathAliases(startDir: string): PathAliases | undefined {
+	let dir = startDir;
+	while (true) {
+		for (const configFile of CONFIG_FILES) {
+			const configPath = path.join(dir, configFile);
+			if (!fs.existsSync(configPath)) continue;
+
+			try {
+				const compilerOptions = parseJsonWithComments(fs.readFileSync(configPath, 'utf-8'))?.compilerOptions ?? {};
+				return {
+					baseUrl: path.resolve(dir, compilerOptions.baseUrl ?? '.'),
+					paths: compilerOptions.paths ?? {},
+				};
+			} catch (e) {
+				console.info(`Failed to read ${configPath}`);
+				return undefined;
+			}
+		}
+
+		const parent = path.dirname(dir);
+		if (parent === dir) {
+			return undefined;
+		}
+		dir = parent;
+	}
+}
+
+/**
+ * `tsconfig.json` allows comments and trailing commas, strip them outside of strings before parsing
+ */
+function parseJsonWithComments(text: string): any {
+	let result = '';
+	let inString = false;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (inString) {
+			result += char;
+			if (char === '\\') {
+				result += text[++i] ?? '';
+			} else if (char === '"') {
+				inString = false;
+			}
+		} else if (char === '"') {
+			inString = true;
+			result += char;
+		} else if (char === '/' && text[i + 1] === '/') {
+			while (i < text.length && text[i] !== '\n') i++;
+			result += '\n';
+		} else if (char === '/' && text[i + 1] === '*') {
+			const end = text.indexOf('*/', i + 2);
+			i = end < 0 ? text.length : end + 1;
+		} else {
+			result += char;
+		}
+	}
+
+	return JSON.parse(result.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+function unquote(text: string | undefined): string | undefined {
+	return text?.replace(/^['"`]|['"`]$/g, '');
+}
@@ -125,7 +125,7 @@
 
 ;; namespaces
 (namespace_definition
-  (identifier) @hoist.definition.namespace)
+  name: (namespace_identifier) @hoist.definition.namespace)
 
 ;; for (int a: b) { .. }
 ;;
@@ -56,7 +56,7 @@
 (class_body
   (function_declaration
     .
-    (simple_identifier) @local.definition.method)
+    (simple_identifier) @local.definition.method))
 
 ; Variables
 (function_declaration
@@ -92,4 +92,4 @@
 )
 
 (type_alias
-  (type_identifier) @local.definition.type))
+  (type_identifier) @local.definition.type)
@@ -197,6 +197,17 @@ export class ScopeGraph {
 		return iterator.filter(edge => this.graph.getEdgeAttributes(edge) instanceof RefToImport);
 	}
 
+	/**
+	 * The local definition a reference resolves to, undefined for references to imports or unknown names
+	 */
+	public definitionOf(referenceNode: NodeIndex): LocalDef | undefined {
+		const edge = this.graph
+			.outEdges(referenceNode)
+			.find(edge => this.graph.getEdgeAttributes(edge) instanceof RefToDef);
+
+		return edge ? this.graph.getNodeAttributes(this.graph.target(edge)) as LocalDef : undefined;
+	}
+
 	public references(definitionNode: NodeIndex): NodeIndex[] {
 		const iterator = this.graph.inEdges(definitionNode);
 		return iterator.filter(
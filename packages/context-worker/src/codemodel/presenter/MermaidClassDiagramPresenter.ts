@@ -0,0 +1,64 @@
+import { ClassDiagram, DiagramClass } from '../../types/ClassDiagram';
+import { ClassDiagramPresenter } from './Presenter';
+
+/**
+ * Renders a workspace {@link ClassDiagram} as a Mermaid `classDiagram`, with a `namespace` per group. Mermaid ids
+ * only allow word characters, so classes use their canonical name as id and their simple name as label.
+ */
+export class MermaidClassDiagramPresenter implements ClassDiagramPresenter {
+	readonly fileExtension = 'mmd';
+
+	present(diagram: ClassDiagram): string {
+		let mermaidContent = `---\ntitle: ${diagram.name}\n---\nclassDiagram\n`;
+
+		const groups = new Map<string, DiagramClass[]>();
+		diagram.classes.forEach(clazz => {
+			groups.set(clazz.group, [...(groups.get(clazz.group) ?? []), clazz]);
+		});
+
+		for (const [group, classes] of groups) {
+			mermaidContent += `  namespace ${idOf(group)} {\n`;
+			classes.forEach(clazz => {
+				mermaidContent += this.renderClass(clazz, '    ');
+			});
+			mermaidContent += `  }\n`;
+		}
+
+		diagram.relations.forEach(relation => {
+			const arrow = relation.kind === 'implements' ? '..|>' : '--|>';
+			mermaidContent += `  ${idOf(relation.from)} ${arrow} ${idOf(relation.to)}\n`;
+		});
+
+		return mermaidContent;
+	}
+
+	private renderClass(clazz: DiagramClass, indent: string): string {
+		let mermaidContent = `${indent}class ${idOf(clazz.id)}["${clazz.name}"] {\n`;
+		if (clazz.kind === 'interface') {
+			mermaidContent += `${indent}  <<interface>>\n`;
+		}
+
+		clazz.fields.forEach(field => {
+			mermaidContent += `${indent}  ${field.type ? `${typeOf(field.type)} ` : ''}${field.name}\n`;
+		});
+
+		clazz.methods.forEach(method => {
+			const parameters = method.parameters.map(param => param.type ? `${typeOf(param.type)} ${param.name}` : param.name).join(', ');
+			mermaidContent += `${indent}  +${method.name}(${parameters})${method.returnType ? ` ${typeOf(method.returnType)}` : ''}\n`;
+		});
+
+		mermaidContent += `${indent}}\n`;
+		return mermaidContent;
+	}
+}
+
+function idOf(name: string): string {
+	return name.replace(/[^\w]/g, '_');
+}
+
+/**
+ * Mermaid writes generics as `List~Order~`
+ */
+function typeOf(type: string): string {
+	return type.replace(/[<>]/g, '~').replace(/[{}"]/g, '');
+}
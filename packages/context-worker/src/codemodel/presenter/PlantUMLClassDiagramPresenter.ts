@@ -0,0 +1,60 @@
+import { ClassDiagram, DiagramClass } from '../../types/ClassDiagram';
+import { ClassDiagramPresenter } from './Presenter';
+
+/**
+ * Renders a workspace {@link ClassDiagram} as a PlantUML class diagram, with a `package` block per group. Classes are
+ * declared with an alias of their canonical name, so classes with the same name in different packages stay apart.
+ */
+export class PlantUMLClassDiagramPresenter implements ClassDiagramPresenter {
+	readonly fileExtension = 'puml';
+
+	present(diagram: ClassDiagram): string {
+		let plantUmlString = `@startuml\n`;
+		plantUmlString += `title ${diagram.name}\n`;
+
+		const groups = new Map<string, DiagramClass[]>();
+		diagram.classes.forEach(clazz => {
+			groups.set(clazz.group, [...(groups.get(clazz.group) ?? []), clazz]);
+		});
+
+		for (const [group, classes] of groups) {
+			plantUmlString += `package "${group}" {\n`;
+			classes.forEach(clazz => {
+				plantUmlString += this.renderClass(clazz, '  ');
+			});
+			plantUmlString += `}\n`;
+		}
+
+		diagram.relations.forEach(relation => {
+			const arrow = relation.kind === 'implements' ? '..|>' : '--|>';
+			plantUmlString += `${aliasOf(relation.from)} ${arrow} ${aliasOf(relation.to)}\n`;
+		});
+
+		plantUmlString += `@enduml\n`;
+		return plantUmlString;
+	}
+
+	private renderClass(clazz: DiagramClass, indent: string): string {
+		let plantUmlString = `${indent}${clazz.kind} "${clazz.name}" as ${aliasOf(clazz.id)}`;
+		if (clazz.fields.length === 0 && clazz.methods.length === 0) {
+			return plantUmlString + `\n`;
+		}
+
+		plantUmlString += ` {\n`;
+		clazz.fields.forEach(field => {
+			plantUmlString += `${indent}  ${field.name}${field.type ? `: ${field.type}` : ''}\n`;
+		});
+
+		clazz.methods.forEach(method => {
+			const parameters = method.parameters.map(param => param.type ? `${param.name}: ${param.type}` : param.name).join(', ');
+			plantUmlString += `${indent}  +${method.name}(${parameters})${method.returnType ? `: ${method.returnType}` : ''}\n`;
+		});
+
+		plantUmlString += `${indent}}\n`;
+		return plantUmlString;
+	}
+}
+
+function aliasOf(id: string): string {
+	return id.replace(/[^\w]/g, '_');
+}
@@ -1,5 +1,15 @@
 import { CodeFile } from '../CodeElement';
+import { ClassDiagram } from '../../types/ClassDiagram';
 
 export interface Presenter {
 	present(file: CodeFile): string;
 }
+
+export interface ClassDiagramPresenter {
+	/**
+	 * Extension of the rendered files, like `puml`
+	 */
+	readonly fileExtension: string;
+
+	present(diagram: ClassDiagram): string;
+}
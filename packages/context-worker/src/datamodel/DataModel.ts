@@ -0,0 +1,89 @@
+import { DataColumn, DataModelSource, RelationshipCardinality } from "../analyzer/CodeAnalysisResult";
+
+export interface ParsedRelation {
+	// entity or table name, resolved to a table once every source is read
+	target: string;
+	// undefined when it depends on the target, like a SQLAlchemy `relationship()` without `uselist` or a list type
+	cardinality?: RelationshipCardinality | 'one-to-many';
+	foreignKey?: string;
+	field?: string;
+}
+
+/**
+ * A table as one source declares it, entities and models of several sources are merged by the table name
+ */
+export interface ParsedTable {
+	name: string;
+	entity?: string;
+	source: DataModelSource;
+	filePath: string;
+	columns: DataColumn[];
+	relations: ParsedRelation[];
+}
+
+export function createColumn(name: string, type: string, options: Partial<DataColumn> = {}): DataColumn {
+	return {
+		name,
+		type,
+		primaryKey: options.primaryKey ?? false,
+		nullable: options.nullable ?? !options.primaryKey,
+		unique: options.unique ?? false,
+		...(options.field && options.field !== name ? { field: options.field } : {}),
+	};
+}
+
+/**
+ * `OrderLine` to `order_line`, the default table and column names of Spring Boot and TypeORM
+ */
+export function snakeCase(name: string): string {
+	return name
+		.replace(/([a-z\d])([A-Z])/g, '$1_$2')
+		.replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+		.toLowerCase();
+}
+
+/**
+ * Strip quotes of a string literal or a quoted SQL identifier, like `"users"`, `'users'`, `` `users` `` or `[users]`
+ */
+export function unquote(text: string): string {
+	const trimmed = text.trim();
+	if (/^(["'`]).*\1$/s.test(trimmed) || /^\[.*]$/s.test(trimmed)) {
+		return trimmed.slice(1, -1);
+	}
+
+	return trimmed;
+}
+
+/**
+ * Split at the commas which are not nested in parentheses, brackets, braces or quotes
+ */
+export function splitTopLevel(text: string, separator: string = ','): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let quote: string | undefined;
+	let current = '';
+
+	for (const char of text) {
+		if (quote) {
+			quote = char === quote ? undefined : quote;
+		} else if (char === '"' || char === "'" || char === '`') {
+			quote = char;
+		} else if ('([{'.includes(char)) {
+			depth++;
+		} else if (')]}'.includes(char)) {
+			depth--;
+		} else if (char === separator && depth === 0) {
+			parts.push(current.trim());
+			current = '';
+			continue;
+		}
+
+		current += char;
+	}
+
+	if (current.trim()) {
+		parts.push(current.trim());
+	}
+
+	return parts;
+}
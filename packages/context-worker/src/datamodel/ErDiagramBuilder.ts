@@ -0,0 +1,69 @@
+import { DataColumn, DataRelationship, DataTable } from "../analyzer/CodeAnalysisResult";
+
+function entityNameOf(name: string): string {
+	return name.replace(/[^\w-]/g, '_');
+}
+
+/**
+ * Mermaid attribute types are single words, `decimal(10, 2)` is written as `decimal` and `character varying` as
+ * `character_varying`
+ */
+function attributeTypeOf(type: string): string {
+	const simplified = type.replace(/\([^)]*,[^)]*\)/g, '').trim().replace(/[^\w\-[\]()]+/g, '_');
+	return simplified || 'unknown';
+}
+
+function keysOf(column: DataColumn, foreignKeys: Set<string>): string {
+	const keys = [
+		column.primaryKey ? 'PK' : '',
+		foreignKeys.has(column.name) ? 'FK' : '',
+		column.unique && !column.primaryKey ? 'UK' : '',
+	].filter(key => key.length > 0);
+
+	return keys.length > 0 ? ` ${keys.join(', ')}` : '';
+}
+
+/**
+ * Render tables and relationships as a Mermaid `erDiagram`
+ */
+export class ErDiagramBuilder {
+	build(tables: DataTable[], relationships: DataRelationship[]): string {
+		const lines = ['erDiagram'];
+
+		for (const table of tables) {
+			const foreignKeys = new Set(relationships
+				.filter(relationship => relationship.from === table.name && relationship.foreignKey)
+				.map(relationship => relationship.foreignKey!));
+
+			lines.push(`    ${entityNameOf(table.name)} {`);
+			for (const column of table.columns) {
+				lines.push(`        ${attributeTypeOf(column.type)} ${entityNameOf(column.name)}${keysOf(column, foreignKeys)}`);
+			}
+			lines.push('    }');
+		}
+
+		const tableByName = new Map(tables.map(table => [table.name, table]));
+		for (const relationship of relationships) {
+			const from = entityNameOf(relationship.from);
+			const to = entityNameOf(relationship.to);
+			const label = relationship.foreignKey ?? relationship.field ?? relationship.cardinality;
+			const column = tableByName.get(relationship.from)?.columns.find(column => column.name === relationship.foreignKey);
+			// the referenced row is optional when the foreign key column may be null
+			const one = column && !column.nullable ? '||' : '|o';
+
+			switch (relationship.cardinality) {
+				case 'many-to-one':
+					lines.push(`    ${to} ${one}--o{ ${from} : "${label}"`);
+					break;
+				case 'one-to-one':
+					lines.push(`    ${to} ${one}--o| ${from} : "${label}"`);
+					break;
+				case 'many-to-many':
+					lines.push(`    ${from} }o--o{ ${to} : "${label}"`);
+					break;
+			}
+		}
+
+		return lines.join('\n');
+	}
+}
@@ -0,0 +1,146 @@
+import * as cheerio from "cheerio";
+import yaml from "js-yaml";
+
+import { createColumn } from "./DataModel";
+import { MigrationSchema } from "./MigrationSchema";
+import { SqlDdlParser } from "./SqlDdlParser";
+
+type LiquibaseChange = Record<string, any>;
+
+function isTrue(value: unknown): boolean {
+	return value === true || value === 'true';
+}
+
+function namesOf(value: unknown): string[] {
+	return String(value ?? '').split(',').map(name => name.trim()).filter(name => name.length > 0);
+}
+
+/**
+ * Whether an XML, YAML or JSON file is a Liquibase changelog
+ */
+export function isLiquibaseChangelog(content: string): boolean {
+	return /databaseChangeLog/.test(content);
+}
+
+/**
+ * Apply the changesets of a Liquibase XML, YAML or JSON changelog to a migration schema. XML changes are read into
+ * the shape of the YAML ones, `{ createTable: { tableName, columns: [{ column: { name, type, constraints } }] } }`,
+ * so both are applied by the same code. `<include>` is not followed, every changelog file is read on its own.
+ */
+export class LiquibaseChangelogParser {
+	private readonly sqlParser: SqlDdlParser;
+
+	constructor(private readonly schema: MigrationSchema) {
+		this.sqlParser = new SqlDdlParser(schema, 'liquibase');
+	}
+
+	apply(content: string, filePath: string) {
+		const changes = /^\s*</.test(content) ? this.xmlChangesOf(content) : this.yamlChangesOf(content);
+		for (const change of changes) {
+			for (const [type, body] of Object.entries(change)) {
+				this.applyChange(type, body ?? {}, filePath);
+			}
+		}
+	}
+
+	private applyChange(type: string, change: LiquibaseChange, filePath: string) {
+		switch (type) {
+			case 'createTable':
+				this.schema.createTable(change.tableName, 'liquibase', filePath);
+				this.addColumns(change);
+				break;
+			case 'addColumn':
+				this.addColumns(change);
+				break;
+			case 'dropColumn': {
+				const columns = change.columnName ? [change.columnName] : this.columnsOf(change).map(column => column.name);
+				columns.forEach(name => this.schema.dropColumn(change.tableName, name));
+				break;
+			}
+			case 'dropTable':
+				this.schema.dropTable(change.tableName);
+				break;
+			case 'renameTable':
+				this.schema.renameTable(change.oldTableName, change.newTableName);
+				break;
+			case 'renameColumn':
+				this.schema.renameColumn(change.tableName, change.oldColumnName, change.newColumnName);
+				break;
+			case 'modifyDataType':
+				this.schema.updateColumn(change.tableName, change.columnName, { type: change.newDataType });
+				break;
+			case 'addNotNullConstraint':
+				this.schema.updateColumn(change.tableName, change.columnName, { nullable: false });
+				break;
+			case 'dropNotNullConstraint':
+				this.schema.updateColumn(change.tableName, change.columnName, { nullable: true });
+				break;
+			case 'addPrimaryKey':
+				this.schema.setPrimaryKey(change.tableName, namesOf(change.columnNames));
+				break;
+			case 'addUniqueConstraint': {
+				const columns = namesOf(change.columnNames);
+				if (columns.length === 1) {
+					this.schema.updateColumn(change.tableName, columns[0], { unique: true });
+				}
+				break;
+			}
+			case 'addForeignKeyConstraint':
+				this.schema.addForeignKey(change.baseTableName, namesOf(change.baseColumnNames), change.referencedTableName);
+				break;
+			case 'sql':
+				this.sqlParser.apply(typeof change === 'string' ? change : change.sql ?? '', filePath);
+				break;
+		}
+	}
+
+	private addColumns(change: LiquibaseChange) {
+		for (const column of this.columnsOf(change)) {
+			const constraints = column.constraints ?? {};
+			const primaryKey = isTrue(constraints.primaryKey);
+			this.schema.addColumn(change.tableName, createColumn(column.name, column.type ?? '', {
+				primaryKey,
+				nullable: !primaryKey && (constraints.nullable === undefined || isTrue(constraints.nullable)),
+				unique: isTrue(constraints.unique),
+			}));
+
+			// `references` is `orders(id)`, `referencedTableName` the newer form
+			const target = constraints.referencedTableName ?? /^\s*([\w.$"`]+)\s*\(/.exec(constraints.references ?? '')?.[1];
+			if (target) {
+				this.schema.addForeignKey(change.tableName, [column.name], target.split('.').pop()!.replace(/["`]/g, ''));
+			}
+		}
+	}
+
+	private columnsOf(change: LiquibaseChange): LiquibaseChange[] {
+		return (change.columns ?? []).map((item: LiquibaseChange) => item.column ?? item).filter((column: LiquibaseChange) => column?.name);
+	}
+
+	private yamlChangesOf(content: string): LiquibaseChange[] {
+		const changelog = yaml.load(content) as { databaseChangeLog?: LiquibaseChange[] } | undefined;
+		return (changelog?.databaseChangeLog ?? [])
+			.map(entry => entry.changeSet)
+			.filter(changeSet => changeSet && Array.isArray(changeSet.changes))
+			.flatMap(changeSet => changeSet.changes);
+	}
+
+	private xmlChangesOf(content: string): LiquibaseChange[] {
+		const $ = cheerio.load(content, { xml: true });
+		const changes: LiquibaseChange[] = [];
+
+		$('changeSet').children().each((_, element) => {
+			const node = $(element);
+			if (element.tagName === 'sql') {
+				changes.push({ sql: node.text() });
+				return;
+			}
+
+			const columns = node.children('column').map((_, column) => ({
+				column: { ...column.attribs, constraints: $(column).children('constraints').first().attr() },
+			})).get();
+			changes.push({ [element.tagName]: { ...element.attribs, columns } });
+		});
+
+		return changes;
+	}
+}
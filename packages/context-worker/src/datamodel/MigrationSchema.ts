@@ -0,0 +1,106 @@
+import { DataColumn, DataModelSource } from "../analyzer/CodeAnalysisResult";
+import { ParsedTable } from "./DataModel";
+
+/**
+ * The tables a sequence of migrations leaves behind. SQL and Liquibase migrations are applied in the order of their
+ * versions, so a column added by `V2__add_email.sql` or dropped by a later changeset ends up in the model.
+ *
+ * Table and column names are matched case-insensitively, like unquoted SQL identifiers.
+ */
+export class MigrationSchema {
+	private readonly tables = new Map<string, ParsedTable>();
+
+	createTable(name: string, source: DataModelSource, filePath: string): ParsedTable {
+		const table: ParsedTable = { name, source, filePath, columns: [], relations: [] };
+		this.tables.set(name.toLowerCase(), table);
+		return table;
+	}
+
+	getTable(name: string): ParsedTable | undefined {
+		return this.tables.get(name.toLowerCase());
+	}
+
+	dropTable(name: string) {
+		this.tables.delete(name.toLowerCase());
+	}
+
+	renameTable(name: string, newName: string) {
+		const table = this.getTable(name);
+		if (!table) {
+			return;
+		}
+
+		this.tables.delete(name.toLowerCase());
+		table.name = newName;
+		this.tables.set(newName.toLowerCase(), table);
+		for (const other of this.tables.values()) {
+			other.relations.filter(relation => relation.target.toLowerCase() === name.toLowerCase())
+				.forEach(relation => relation.target = newName);
+		}
+	}
+
+	addColumn(tableName: string, column: DataColumn) {
+		const table = this.getTable(tableName);
+		if (!table) {
+			return;
+		}
+
+		table.columns = table.columns.filter(existing => existing.name.toLowerCase() !== column.name.toLowerCase());
+		table.columns.push(column);
+	}
+
+	dropColumn(tableName: string, columnName: string) {
+		const table = this.getTable(tableName);
+		if (!table) {
+			return;
+		}
+
+		table.columns = table.columns.filter(column => column.name.toLowerCase() !== columnName.toLowerCase());
+		table.relations = table.relations.filter(relation => relation.foreignKey?.toLowerCase() !== columnName.toLowerCase());
+	}
+
+	renameColumn(tableName: string, columnName: string, newName: string) {
+		const column = this.columnOf(tableName, columnName);
+		if (column) {
+			column.name = newName;
+		}
+
+		this.getTable(tableName)?.relations
+			.filter(relation => relation.foreignKey?.toLowerCase() === columnName.toLowerCase())
+			.forEach(relation => relation.foreignKey = newName);
+	}
+
+	updateColumn(tableName: string, columnName: string, changes: Partial<DataColumn>) {
+		const column = this.columnOf(tableName, columnName);
+		if (column) {
+			Object.assign(column, changes);
+		}
+	}
+
+	setPrimaryKey(tableName: string, columnNames: string[]) {
+		for (const name of columnNames) {
+			this.updateColumn(tableName, name, { primaryKey: true, nullable: false });
+		}
+	}
+
+	addForeignKey(tableName: string, columnNames: string[], targetTable: string) {
+		const table = this.getTable(tableName);
+		if (!table) {
+			return;
+		}
+
+		// a composite key is one relation, named by its first column
+		const foreignKey = columnNames[0];
+		if (!table.relations.some(relation => relation.foreignKey === foreignKey && relation.target === targetTable)) {
+			table.relations.push({ target: targetTable, cardinality: 'many-to-one', foreignKey });
+		}
+	}
+
+	all(): ParsedTable[] {
+		return Array.from(this.tables.values());
+	}
+
+	private columnOf(tableName: string, columnName: string): DataColumn | undefined {
+		return this.getTable(tableName)?.columns.find(column => column.name.toLowerCase() === columnName.toLowerCase());
+	}
+}
@@ -0,0 +1,485 @@
+import path from "path";
+
+import { CodeFile, CodeStructure } from "../codemodel/CodeElement";
+import { createColumn, ParsedRelation, ParsedTable, snakeCase, splitTopLevel, unquote } from "./DataModel";
+
+interface Annotation {
+	name: string;
+	args: string;
+}
+
+interface Member {
+	annotations: Annotation[];
+	modifiers: string;
+	name: string;
+	type: string;
+}
+
+// annotations and decorators with up to three levels of nested parentheses, like `@ManyToOne(() => User, (user) => user.orders)`
+const ANNOTATION_SOURCE = String.raw`@(?:\w+:)?([\w.]+)(?:\s*\(((?:[^()]|\((?:[^()]|\([^()]*\))*\))*)\))?`;
+const ANNOTATIONS = String.raw`((?:@(?:\w+:)?[\w.]+(?:\s*\((?:[^()]|\((?:[^()]|\([^()]*\))*\))*\))?\s*)*)`;
+
+const JAVA_FIELD = new RegExp(ANNOTATIONS + String.raw`((?:(?:private|protected|public|final|transient|static|volatile)\s+)*)([\w.]+(?:\s*<[^;=(){}]*>)?(?:\[\])?)\s+(\w+)\s*(?:=[^;]*)?;`, 'g');
+const KOTLIN_PROPERTY = new RegExp(ANNOTATIONS + String.raw`((?:(?:private|protected|public|internal|override|lateinit|open|final)\s+)*)(?:val|var)\s+(\w+)\s*:\s*([\w.]+(?:<[^=;(){}\n]*?>+)?\??)`, 'g');
+const TYPESCRIPT_PROPERTY = new RegExp(ANNOTATIONS + String.raw`((?:(?:public|private|protected|readonly|declare|override)\s+)*)(\w+)[?!]?\s*:\s*([^;=\n(){}]+?)\s*(?:=[^;\n]*)?(?:;|\n|$)`, 'g');
+
+const JPA_ENTITY_ANNOTATIONS = ['Entity'];
+const JPA_PRIMITIVES = ['int', 'long', 'short', 'byte', 'boolean', 'double', 'float', 'char'];
+const TYPEORM_COLUMN_DECORATORS = ['Column', 'PrimaryColumn', 'PrimaryGeneratedColumn', 'CreateDateColumn', 'UpdateDateColumn',
+	'DeleteDateColumn', 'VersionColumn', 'ObjectIdColumn'];
+
+function annotationsOf(text: string): Annotation[] {
+	return Array.from(text.matchAll(new RegExp(ANNOTATION_SOURCE, 'g')))
+		.map(match => ({ name: match[1].split('.').pop()!, args: match[2] ?? '' }));
+}
+
+function find(annotations: Annotation[], ...names: string[]): Annotation | undefined {
+	return annotations.find(annotation => names.includes(annotation.name));
+}
+
+/**
+ * The value of `key = "value"`, `key: 'value'` or `key=value` in the arguments of an annotation or a call
+ */
+function optionOf(args: string | undefined, key: string): string | undefined {
+	const match = new RegExp(String.raw`\b${key}\s*[:=]\s*("[^"]*"|'[^']*'|[\w.]+)`).exec(args ?? '');
+	return match ? unquote(match[1]) : undefined;
+}
+
+/**
+ * The first positional argument when it is a string literal, like `@Entity('users')` or `Column("user_name", String)`
+ */
+function stringArgumentOf(args: string | undefined): string | undefined {
+	const first = splitTopLevel(args ?? '')[0];
+	return first && /^(["'`]).*\1$/.test(first) ? unquote(first) : undefined;
+}
+
+function isTrue(value: string | undefined): boolean {
+	return value === 'true' || value === 'True';
+}
+
+/**
+ * `List<OrderLine>` and `Set<OrderLine>` are `OrderLine`, `Customer?` is `Customer`
+ */
+function elementTypeOf(type: string): string {
+	const generic = /<\s*(?:[\w.]+\s*,\s*)?([\w.]+)\s*>/.exec(type);
+	return (generic ? generic[1] : type).replace(/[?[\]\s]/g, '').split('.').pop()!;
+}
+
+/**
+ * The text of a class with the bodies of its methods and nested classes blanked out, so only its fields and the
+ * parameters of a Kotlin primary constructor are left. Braces inside parentheses, like the options of a decorator,
+ * are kept. Line breaks are kept too.
+ */
+function memberTextOf(text: string): string {
+	let result = '';
+	let braces = 0;
+	let parens = 0;
+	for (const char of text) {
+		if (braces >= 2) {
+			if (char === '{') {
+				braces++;
+			} else if (char === '}') {
+				braces--;
+			}
+			result += char === '\n' ? '\n' : ' ';
+			continue;
+		}
+
+		if (parens === 0 && char === '{') {
+			braces++;
+			result += braces >= 2 ? ' ' : char;
+			continue;
+		}
+
+		if (parens === 0 && char === '}') {
+			braces--;
+		} else if (char === '(') {
+			parens++;
+		} else if (char === ')') {
+			parens = Math.max(0, parens - 1);
+		}
+
+		result += char;
+	}
+
+	return result;
+}
+
+/**
+ * Find the entities and models of JPA, TypeORM, SQLAlchemy and Django in a parsed source file. The classes come from
+ * the structurer, the columns are read from the source of the class body, because fields of TypeScript classes and
+ * the annotations of fields are not part of the code structure.
+ */
+export class OrmEntityExtractor {
+	extract(codeFile: CodeFile, content: string): ParsedTable[] {
+		const lines = content.split('\n');
+		const tables: ParsedTable[] = [];
+
+		for (const structure of codeFile.classes ?? []) {
+			const table = this.tableOf(structure, codeFile, lines);
+			if (table) {
+				tables.push(table);
+			}
+		}
+
+		return tables;
+	}
+
+	private tableOf(structure: CodeStructure, codeFile: CodeFile, lines: string[]): ParsedTable | undefined {
+		switch (codeFile.language) {
+			case 'java':
+			case 'kotlin':
+			case 'kt':
+				return this.jpaEntityOf(structure, codeFile, lines);
+			case 'typescript':
+				return this.typeOrmEntityOf(structure, codeFile, lines);
+			case 'python':
+				return this.pythonModelOf(structure, codeFile, lines);
+			default:
+				return undefined;
+		}
+	}
+
+	private jpaEntityOf(structure: CodeStructure, codeFile: CodeFile, lines: string[]): ParsedTable | undefined {
+		const { header, body } = this.classTextOf(structure, lines);
+		const annotations = annotationsOf(header);
+		const keyValueOf = (name: string, key: string) => structure.annotations
+			?.find(annotation => annotation.name === name)?.keyValues.find(keyValue => keyValue.key === key)?.value;
+
+		const isEntity = structure.annotations?.some(annotation => JPA_ENTITY_ANNOTATIONS.includes(annotation.name))
+			|| !!find(annotations, ...JPA_ENTITY_ANNOTATIONS);
+		if (!isEntity) {
+			return undefined;
+		}
+
+		const tableName = keyValueOf('Table', 'name') ?? optionOf(find(annotations, 'Table')?.args, 'name')
+			?? keyValueOf('Entity', 'name') ?? optionOf(find(annotations, 'Entity')?.args, 'name');
+		const table = this.createTable(unquote(tableName ?? snakeCase(structure.name)), structure, 'jpa', codeFile);
+
+		const kotlin = codeFile.language !== 'java';
+		for (const member of this.membersOf(memberTextOf(body), kotlin ? KOTLIN_PROPERTY : JAVA_FIELD, kotlin)) {
+			this.addJpaMember(table, member, kotlin);
+		}
+
+		return table;
+	}
+
+	private addJpaMember(table: ParsedTable, member: Member, kotlin: boolean) {
+		const { annotations, name } = member;
+		if (/\b(static|transient)\b/.test(member.modifiers) || find(annotations, 'Transient', 'Embedded', 'ElementCollection')) {
+			return;
+		}
+
+		const target = elementTypeOf(member.type);
+		const many = find(annotations, 'OneToMany', 'ManyToMany');
+		if (many) {
+			const cardinality = many.name === 'OneToMany' ? 'one-to-many' : 'many-to-many';
+			table.relations.push({ target: optionOf(many.args, 'targetEntity')?.replace(/(\.class|::class)$/, '') ?? target, cardinality, field: name });
+			return;
+		}
+
+		const single = find(annotations, 'ManyToOne', 'OneToOne');
+		if (single) {
+			// the inverse side of a one-to-one relation has no column
+			if (optionOf(single.args, 'mappedBy')) {
+				return;
+			}
+
+			const joinColumn = find(annotations, 'JoinColumn');
+			const column = optionOf(joinColumn?.args, 'name') ?? `${snakeCase(name)}_id`;
+			const optional = optionOf(single.args, 'optional') !== 'false' && optionOf(joinColumn?.args, 'nullable') !== 'false';
+			table.columns.push(createColumn(column, '', { nullable: optional && (!kotlin || member.type.endsWith('?')), field: name }));
+			table.relations.push({
+				target,
+				cardinality: single.name === 'OneToOne' ? 'one-to-one' : 'many-to-one',
+				foreignKey: column,
+				field: name,
+			});
+			return;
+		}
+
+		const column = find(annotations, 'Column');
+		const primaryKey = !!find(annotations, 'Id', 'EmbeddedId');
+		const notNull = optionOf(column?.args, 'nullable') === 'false' || !!find(annotations, 'NotNull', 'NonNull', 'NotBlank', 'NotEmpty')
+			|| (kotlin ? !member.type.endsWith('?') : JPA_PRIMITIVES.includes(member.type));
+		table.columns.push(createColumn(optionOf(column?.args, 'name') ?? snakeCase(name), member.type.replace(/\?$/, ''), {
+			primaryKey,
+			nullable: !primaryKey && !notNull,
+			unique: isTrue(optionOf(column?.args, 'unique')),
+			field: name,
+		}));
+	}
+
+	private typeOrmEntityOf(structure: CodeStructure, codeFile: CodeFile, lines: string[]): ParsedTable | undefined {
+		const { header, body } = this.classTextOf(structure, lines);
+		const entity = find(annotationsOf(header), 'Entity');
+		if (!entity) {
+			return undefined;
+		}
+
+		const tableName = stringArgumentOf(entity.args) ?? optionOf(entity.args, 'name') ?? snakeCase(structure.name);
+		const table = this.createTable(tableName, structure, 'typeorm', codeFile);
+
+		for (const member of this.membersOf(memberTextOf(body), TYPESCRIPT_PROPERTY, true)) {
+			this.addTypeOrmMember(table, member);
+		}
+
+		return table;
+	}
+
+	private addTypeOrmMember(table: ParsedTable, member: Member) {
+		const { annotations, name } = member;
+		const type = member.type.replace(/\s*\|\s*(null|undefined)\b/g, '').trim();
+
+		const relation = find(annotations, 'ManyToOne', 'OneToOne', 'OneToMany', 'ManyToMany');
+		if (relation) {
+			const target = /=>\s*(\w+)/.exec(relation.args)?.[1] ?? stringArgumentOf(relation.args) ?? elementTypeOf(type);
+			const joinColumn = find(annotations, 'JoinColumn');
+			switch (relation.name) {
+				case 'OneToMany':
+					table.relations.push({ target, cardinality: 'one-to-many', field: name });
+					return;
+				case 'ManyToMany':
+					table.relations.push({ target, cardinality: 'many-to-many', field: name });
+					return;
+				case 'OneToOne':
+					// only the owning side of a one-to-one relation has a `@JoinColumn()`
+					if (!joinColumn) {
+						return;
+					}
+			}
+
+			const column = optionOf(joinColumn?.args, 'name') ?? `${name}Id`;
+			table.columns.push(createColumn(column, '', { nullable: optionOf(relation.args, 'nullable') !== 'false', field: name }));
+			table.relations.push({
+				target,
+				cardinality: relation.name === 'OneToOne' ? 'one-to-one' : 'many-to-one',
+				foreignKey: column,
+				field: name,
+			});
+			return;
+		}
+
+		const column = find(annotations, ...TYPEORM_COLUMN_DECORATORS);
+		if (!column) {
+			return;
+		}
+
+		const primaryKey = column.name.startsWith('Primary');
+		table.columns.push(createColumn(optionOf(column.args, 'name') ?? name, stringArgumentOf(column.args) ?? optionOf(column.args, 'type') ?? type, {
+			primaryKey,
+			nullable: !primaryKey && isTrue(optionOf(column.args, 'nullable')),
+			unique: isTrue(optionOf(column.args, 'unique')),
+			field: name,
+		}));
+	}
+
+	private pythonModelOf(structure: CodeStructure, codeFile: CodeFile, lines: string[]): ParsedTable | undefined {
+		const statements = this.pythonStatementsOf(structure, lines);
+		const bases = Array.from(new Set(structure.extends ?? []));
+		const body = statements.join('\n');
+		const meta = /class\s+Meta\b[\s\S]*/.exec(lines.slice(structure.start.row, structure.end.row + 1).join('\n'))?.[0] ?? '';
+
+		// models of abstract base models are only recognised by their fields
+		if (bases.includes('models.Model') || /=\s*models\.\w+(Field|Key)\(/.test(body)) {
+			if (/\babstract\s*=\s*True\b/.test(meta)) {
+				return undefined;
+			}
+
+			return this.djangoModelOf(structure, codeFile, statements, meta);
+		}
+
+		const declarative = /__tablename__\s*=/.test(body) || /=\s*(?:[\w.]+\.)?(Column|mapped_column)\(/.test(body);
+		if (!declarative || /__abstract__\s*=\s*True\b/.test(body)) {
+			return undefined;
+		}
+
+		return this.sqlAlchemyModelOf(structure, codeFile, statements);
+	}
+
+	private sqlAlchemyModelOf(structure: CodeStructure, codeFile: CodeFile, statements: string[]): ParsedTable {
+		const tableName = /^__tablename__\s*=\s*(["'])(.*?)\1/m.exec(statements.join('\n'))?.[2] ?? snakeCase(structure.name);
+		const table = this.createTable(tableName, structure, 'sqlalchemy', codeFile);
+
+		for (const statement of statements) {
+			const match = /^(\w+)\s*(?::\s*([^=]+?))?\s*=\s*(?:[\w.]+\.)?(Column|mapped_column|relationship)\(([\s\S]*)\)\s*$/.exec(statement);
+			if (!match) {
+				continue;
+			}
+
+			const [, field, annotation = '', kind, args] = match;
+			const mapped = /Mapped\[([\s\S]+)]$/.exec(annotation.trim())?.[1] ?? '';
+			if (kind === 'relationship') {
+				table.relations.push(this.sqlAlchemyRelationOf(field, mapped, args));
+				continue;
+			}
+
+			let name = field;
+			let type = '';
+			const options: Record<string, string> = {};
+			splitTopLevel(args).forEach((arg, index) => {
+				const option = /^(\w+)\s*=\s*([\s\S]+)$/.exec(arg);
+				const foreignKey = /^(?:[\w.]+\.)?ForeignKey\(\s*(["']?)([\w.]+)\1/.exec(arg);
+				if (option) {
+					options[option[1]] = option[2].trim();
+				} else if (foreignKey) {
+					// `"users.id"` names the table, `User.id` the model
+					const parts = foreignKey[2].split('.');
+					table.relations.push({ target: parts[parts.length - 2] ?? parts[0], cardinality: 'many-to-one', foreignKey: name, field });
+				} else if (index === 0 && /^["']/.test(arg)) {
+					name = unquote(arg);
+				} else if (!type) {
+					type = arg.replace(/^(sa|db|sqlalchemy|types)\./, '');
+				}
+			});
+
+			table.relations.filter(relation => relation.field === field).forEach(relation => relation.foreignKey = name);
+			const optional = /^Optional\[|\|\s*None\b/.test(mapped);
+			const primaryKey = isTrue(options['primary_key']);
+			table.columns.push(createColumn(name, type || mapped.replace(/^Optional\[(.*)]$/, '$1').replace(/\s*\|\s*None\b/, ''), {
+				primaryKey,
+				nullable: !primaryKey && (options['nullable'] ? isTrue(options['nullable']) : kind === 'Column' || optional),
+				unique: isTrue(options['unique']),
+				field,
+			}));
+		}
+
+		return table;
+	}
+
+	private sqlAlchemyRelationOf(field: string, mapped: string, args: string): ParsedRelation {
+		const list = /^(List|list|Set|set)\[/.test(mapped);
+		const first = splitTopLevel(args)[0] ?? '';
+		const target = /^[\w."']+$/.test(first)
+			? unquote(first)
+			: elementTypeOf(mapped.replace(/["']/g, '').replace(/\[/g, '<').replace(/]/g, '>'));
+
+		let cardinality: ParsedRelation['cardinality'];
+		if (optionOf(args, 'secondary')) {
+			cardinality = 'many-to-many';
+		} else if (optionOf(args, 'uselist') === 'False') {
+			cardinality = 'one-to-one';
+		} else if (list) {
+			cardinality = 'one-to-many';
+		}
+
+		return { target: target.split('.').pop()!, cardinality, field };
+	}
+
+	private djangoModelOf(structure: CodeStructure, codeFile: CodeFile, statements: string[], meta: string): ParsedTable {
+		const directory = path.basename(path.dirname(codeFile.filepath));
+		const app = directory === 'models' ? path.basename(path.dirname(path.dirname(codeFile.filepath))) : directory;
+		const tableName = optionOf(meta, 'db_table') ?? `${app}_${structure.name.toLowerCase()}`;
+		const table = this.createTable(tableName, structure, 'django', codeFile);
+
+		for (const statement of statements) {
+			const match = /^(\w+)\s*(?::[^=]+)?=\s*(?:models\.)?(\w+(?:Field|Key))\(([\s\S]*)\)\s*$/.exec(statement);
+			if (!match) {
+				continue;
+			}
+
+			const [, field, kind, args] = match;
+			const nullable = isTrue(optionOf(args, 'null'));
+			if (kind === 'ForeignKey' || kind === 'OneToOneField' || kind === 'ManyToManyField') {
+				const first = splitTopLevel(args)[0] ?? '';
+				const reference = /=/.test(first) ? optionOf(args, 'to') ?? '' : unquote(first);
+				const target = reference === 'self' ? structure.name : reference.split('.').pop()!;
+				if (kind === 'ManyToManyField') {
+					table.relations.push({ target, cardinality: 'many-to-many', field });
+					continue;
+				}
+
+				const column = optionOf(args, 'db_column') ?? `${field}_id`;
+				table.columns.push(createColumn(column, '', { nullable, unique: kind === 'OneToOneField', field }));
+				table.relations.push({ target, cardinality: kind === 'ForeignKey' ? 'many-to-one' : 'one-to-one', foreignKey: column, field });
+				continue;
+			}
+
+			const primaryKey = isTrue(optionOf(args, 'primary_key'));
+			table.columns.push(createColumn(optionOf(args, 'db_column') ?? field, kind, {
+				primaryKey,
+				nullable: !primaryKey && nullable,
+				unique: isTrue(optionOf(args, 'unique')),
+				field,
+			}));
+		}
+
+		// Django adds an auto incremented `id` to models without a primary key
+		if (!table.columns.some(column => column.primaryKey)) {
+			table.columns.unshift(createColumn('id', 'AutoField', { primaryKey: true }));
+		}
+
+		return table;
+	}
+
+	private createTable(name: string, structure: CodeStructure, source: ParsedTable['source'], codeFile: CodeFile): ParsedTable {
+		return { name, entity: structure.name, source, filePath: codeFile.filepath, columns: [], relations: [] };
+	}
+
+	/**
+	 * The annotations or decorators before the class keyword, and the text from the class keyword to the end of the class
+	 */
+	private classTextOf(structure: CodeStructure, lines: string[]): { header: string, body: string } {
+		const declaration = new RegExp(String.raw`\bclass\s+${structure.name}\b`);
+		let row = structure.start.row;
+		while (row < structure.end.row && !declaration.test(lines[row] ?? '')) {
+			row++;
+		}
+
+		// decorators may be above the start of the structure, up to the previous statement or blank line
+		let first = Math.min(row, structure.start.row);
+		while (first > 0) {
+			const previous = lines[first - 1].trim();
+			if (previous.length === 0 || /[;}]$/.test(previous) && !previous.startsWith('@')) {
+				break;
+			}
+			first--;
+		}
+
+		const line = lines[row] ?? '';
+		const index = line.search(declaration);
+		const header = [...lines.slice(first, row), line.slice(0, Math.max(0, index))].join('\n');
+		const body = [line.slice(Math.max(0, index)), ...lines.slice(row + 1, structure.end.row + 1)].join('\n');
+		return { header, body };
+	}
+
+	private membersOf(text: string, pattern: RegExp, typeAfterName: boolean): Member[] {
+		return Array.from(text.matchAll(pattern)).map(match => ({
+			annotations: annotationsOf(match[1]),
+			modifiers: match[2],
+			name: typeAfterName ? match[3] : match[4],
+			type: (typeAfterName ? match[4] : match[3]).trim(),
+		}));
+	}
+
+	/**
+	 * The statements directly in a Python class body, with the lines of multi-line calls joined
+	 */
+	private pythonStatementsOf(structure: CodeStructure, lines: string[]): string[] {
+		const bodyLines = lines.slice(structure.start.row + 1, structure.end.row + 1);
+		const indent = bodyLines.find(line => line.trim().length > 0)?.search(/\S/) ?? 0;
+		const statements: string[] = [];
+		let current = '';
+		let depth = 0;
+
+		for (const line of bodyLines) {
+			const text = line.replace(/\s+#.*$/, '');
+			if (depth === 0) {
+				if (text.trim().length === 0 || text.search(/\S/) !== indent) {
+					continue;
+				}
+				current = text.trim();
+			} else {
+				current += ' ' + text.trim();
+			}
+
+			depth += (text.match(/[([{]/g) ?? []).length - (text.match(/[)\]}]/g) ?? []).length;
+			if (depth <= 0) {
+				depth = 0;
+				statements.push(current);
+			}
+		}
+
+		return statements;
+	}
+}
@@ -0,0 +1,147 @@
+import { createColumn, ParsedRelation, ParsedTable, splitTopLevel, unquote } from "./DataModel";
+
+interface PrismaField {
+	name: string;
+	type: string;
+	list: boolean;
+	optional: boolean;
+	attributes: string;
+}
+
+interface PrismaModel {
+	name: string;
+	fields: PrismaField[];
+	// block attributes like `@@map("users")` and `@@id([orderId, productId])`
+	attributes: string[];
+}
+
+const BLOCK = /\b(model|view|enum|type)\s+(\w+)\s*\{([^}]*)\}/g;
+const FIELD = /^(\w+)\s+(\w+(?:\.\w+)?(?:\([^)]*\))?)(\[\])?(\?)?\s*(.*)$/;
+
+function argumentOf(attributes: string, attribute: string): string | undefined {
+	const match = new RegExp(String.raw`${attribute}\(((?:[^()]|\([^()]*\))*)\)`).exec(attributes);
+	return match?.[1];
+}
+
+function namesOf(list: string | undefined): string[] {
+	const match = /\[([^\]]*)]/.exec(list ?? '');
+	return match ? match[1].split(',').map(name => name.trim().replace(/\(.*$/, '')).filter(name => name.length > 0) : [];
+}
+
+/**
+ * Read the models of a `schema.prisma` into tables. Scalar and enum fields are columns, named by `@map`, fields
+ * typed by another model are relations, and `@@map` names the table.
+ */
+export class PrismaSchemaParser {
+	parse(content: string, filePath: string): ParsedTable[] {
+		const source = content.replace(/\/\/[^\n]*/g, '');
+		const models: PrismaModel[] = [];
+
+		// fields of enums and the composite types of MongoDB are stored as a column value, like scalars
+		for (const [, kind, name, body] of source.matchAll(BLOCK)) {
+			if (kind === 'model' || kind === 'view') {
+				models.push(this.modelOf(name, body));
+			}
+		}
+
+		const modelNames = new Set(models.map(model => model.name));
+		return models.map(model => this.tableOf(model, models, modelNames, filePath));
+	}
+
+	private modelOf(name: string, body: string): PrismaModel {
+		const fields: PrismaField[] = [];
+		const attributes: string[] = [];
+		for (const line of body.split('\n').map(line => line.trim()).filter(line => line.length > 0)) {
+			if (line.startsWith('@@')) {
+				attributes.push(line);
+				continue;
+			}
+
+			const match = FIELD.exec(line);
+			if (match) {
+				fields.push({ name: match[1], type: match[2], list: !!match[3], optional: !!match[4], attributes: match[5] });
+			}
+		}
+
+		return { name, fields, attributes };
+	}
+
+	private tableOf(model: PrismaModel, models: PrismaModel[], modelNames: Set<string>, filePath: string): ParsedTable {
+		const blockAttributes = model.attributes.join(' ');
+		const compositeKey = namesOf(argumentOf(blockAttributes, '@@id'));
+		const uniqueFields = model.attributes
+			.filter(attribute => attribute.startsWith('@@unique'))
+			.map(attribute => namesOf(argumentOf(attribute, '@@unique')))
+			.filter(names => names.length === 1)
+			.map(names => names[0]);
+
+		const table: ParsedTable = {
+			name: unquote(argumentOf(blockAttributes, '@@map')?.split(',')[0] ?? model.name),
+			entity: model.name,
+			source: 'prisma',
+			filePath,
+			columns: [],
+			relations: [],
+		};
+
+		const columnNames = new Map<string, string>();
+		for (const field of model.fields.filter(field => !modelNames.has(field.type))) {
+			const mapped = argumentOf(field.attributes, '@map');
+			const name = mapped ? unquote(splitTopLevel(mapped)[0]) : field.name;
+			const primaryKey = /@id\b/.test(field.attributes) || compositeKey.includes(field.name);
+			columnNames.set(field.name, name);
+			table.columns.push(createColumn(name, field.list ? `${field.type}[]` : field.type, {
+				primaryKey,
+				nullable: field.optional,
+				unique: /@unique\b/.test(field.attributes) || uniqueFields.includes(field.name),
+				field: field.name,
+			}));
+		}
+
+		for (const field of model.fields.filter(field => modelNames.has(field.type))) {
+			const relation = this.relationOf(field, model, models.find(other => other.name === field.type)!, columnNames);
+			if (relation) {
+				table.relations.push(relation);
+			}
+		}
+
+		return table;
+	}
+
+	/**
+	 * The side with `@relation(fields: [...])` holds the foreign key, a list without a counterpart holding one is an
+	 * implicit many-to-many relation. The back relation field of a one-to-one relation is skipped.
+	 */
+	private relationOf(field: PrismaField, model: PrismaModel, target: PrismaModel, columnNames: Map<string, string>): ParsedRelation | undefined {
+		const relationName = this.relationNameOf(field);
+		const backFields = target.fields.filter(other => other.type === model.name && other !== field
+			&& this.relationNameOf(other) === relationName);
+		const foreignKeys = namesOf(/fields\s*:\s*(\[[^\]]*])/.exec(argumentOf(field.attributes, '@relation') ?? '')?.[1]);
+
+		if (foreignKeys.length > 0) {
+			return {
+				target: target.name,
+				cardinality: backFields.some(back => !back.list) ? 'one-to-one' : 'many-to-one',
+				foreignKey: columnNames.get(foreignKeys[0]) ?? foreignKeys[0],
+				field: field.name,
+			};
+		}
+
+		if (field.list) {
+			const implicit = backFields.some(back => back.list);
+			return { target: target.name, cardinality: implicit ? 'many-to-many' : 'one-to-many', field: field.name };
+		}
+
+		return undefined;
+	}
+
+	private relationNameOf(field: PrismaField): string | undefined {
+		const argument = argumentOf(field.attributes, '@relation');
+		if (!argument) {
+			return undefined;
+		}
+
+		const name = /(?:^|,)\s*(?:name\s*:\s*)?("[^"]*")/.exec(argument);
+		return name ? unquote(name[1]) : undefined;
+	}
+}
@@ -0,0 +1,188 @@
+import { DataModelSource } from "../analyzer/CodeAnalysisResult";
+import { createColumn, splitTopLevel, unquote } from "./DataModel";
+import { MigrationSchema } from "./MigrationSchema";
+
+// a possibly schema qualified and quoted identifier, like `public."order"`
+const IDENTIFIER = String.raw`(?:"[^"]+"|\x60[^\x60]+\x60|\[[^\]]+\]|[\w$]+)(?:\s*\.\s*(?:"[^"]+"|\x60[^\x60]+\x60|\[[^\]]+\]|[\w$]+))*`;
+
+// `varchar(255)`, `timestamp with time zone`, `double precision`, `int unsigned` or `text[]`
+const COLUMN_TYPE = String.raw`[\w.]+(?:\s*\([^)]*\))?(?:\s+(?:varying|precision|unsigned|with(?:out)?\s+time\s+zone)(?:\s*\([^)]*\))?)*(?:\s*\[\])*`;
+
+const CREATE_TABLE = new RegExp(String.raw`^create\s+(?:or\s+replace\s+)?(?:(?:global|local)\s+)?(?:temporary\s+|temp\s+|unlogged\s+)?table\s+(?:if\s+not\s+exists\s+)?(${IDENTIFIER})\s*\(([\s\S]*)\)`, 'i');
+const ALTER_TABLE = new RegExp(String.raw`^alter\s+table\s+(?:if\s+exists\s+)?(?:only\s+)?(${IDENTIFIER})\s+([\s\S]+)$`, 'i');
+const DROP_TABLE = new RegExp(String.raw`^drop\s+table\s+(?:if\s+exists\s+)?([\s\S]+?)(?:\s+(?:cascade|restrict))?$`, 'i');
+const RENAME_TABLE = new RegExp(String.raw`^rename\s+table\s+(${IDENTIFIER})\s+to\s+(${IDENTIFIER})$`, 'i');
+const CREATE_UNIQUE_INDEX = new RegExp(String.raw`^create\s+unique\s+index\s+(?:concurrently\s+)?(?:if\s+not\s+exists\s+)?(?:${IDENTIFIER}\s+)?on\s+(?:only\s+)?(${IDENTIFIER})\s*(?:using\s+\w+\s*)?\(([^)]*)\)`, 'i');
+const COLUMN_DEFINITION = new RegExp(String.raw`^(${IDENTIFIER})\s+(${COLUMN_TYPE})([\s\S]*)$`, 'i');
+const REFERENCES = new RegExp(String.raw`references\s+(${IDENTIFIER})`, 'i');
+
+/**
+ * The unqualified, unquoted name of an identifier, `public."order"` is `order`
+ */
+export function sqlIdentifierOf(text: string): string {
+	const parts = text.trim().match(/"[^"]+"|`[^`]+`|\[[^\]]+\]|[\w$]+/g) ?? [text.trim()];
+	return unquote(parts[parts.length - 1]);
+}
+
+function identifiersOf(list: string): string[] {
+	return splitTopLevel(list).map(name => sqlIdentifierOf(name.replace(/\s+(asc|desc)$/i, '')));
+}
+
+/**
+ * Apply the DDL statements of a SQL migration, like a Flyway `V1__init.sql`, a Liquibase formatted SQL changelog or a
+ * Prisma `migration.sql`, to a migration schema. Other statements, like inserts and functions, are skipped.
+ */
+export class SqlDdlParser {
+	constructor(private readonly schema: MigrationSchema, private readonly source: DataModelSource = 'sql') {
+	}
+
+	apply(sql: string, filePath: string) {
+		const statements = splitTopLevel(this.stripComments(sql), ';');
+		for (const statement of statements) {
+			const normalized = statement.replace(/\s+/g, ' ').trim();
+			try {
+				this.applyStatement(normalized, filePath);
+			} catch (error) {
+				console.warn(`无法解析 ${filePath} 中的 SQL 语句: ${normalized.slice(0, 80)}`, error);
+			}
+		}
+	}
+
+	private applyStatement(statement: string, filePath: string) {
+		let match = CREATE_TABLE.exec(statement);
+		if (match) {
+			const table = this.schema.createTable(sqlIdentifierOf(match[1]), this.source, filePath);
+			for (const definition of splitTopLevel(match[2])) {
+				this.applyDefinition(table.name, definition, false);
+			}
+			return;
+		}
+
+		match = ALTER_TABLE.exec(statement);
+		if (match) {
+			const tableName = sqlIdentifierOf(match[1]);
+			for (const action of splitTopLevel(match[2])) {
+				this.applyAlteration(tableName, action);
+			}
+			return;
+		}
+
+		match = DROP_TABLE.exec(statement);
+		if (match) {
+			identifiersOf(match[1]).forEach(name => this.schema.dropTable(name));
+			return;
+		}
+
+		match = RENAME_TABLE.exec(statement);
+		if (match) {
+			this.schema.renameTable(sqlIdentifierOf(match[1]), sqlIdentifierOf(match[2]));
+			return;
+		}
+
+		match = CREATE_UNIQUE_INDEX.exec(statement);
+		if (match) {
+			const columns = identifiersOf(match[2]);
+			if (columns.length === 1) {
+				this.schema.updateColumn(sqlIdentifierOf(match[1]), columns[0], { unique: true });
+			}
+		}
+	}
+
+	private applyAlteration(tableName: string, action: string) {
+		let match = /^add\s+(?:column\s+)?(?:if\s+not\s+exists\s+)?([\s\S]+)$/i.exec(action);
+		if (match) {
+			this.applyDefinition(tableName, match[1], /^add\s+column\b/i.test(action));
+			return;
+		}
+
+		match = new RegExp(String.raw`^drop\s+(?:column\s+)?(?:if\s+exists\s+)?(${IDENTIFIER})`, 'i').exec(action);
+		if (match && !/^drop\s+(constraint|index|key|primary|foreign|default)\b/i.test(action)) {
+			this.schema.dropColumn(tableName, sqlIdentifierOf(match[1]));
+			return;
+		}
+
+		match = new RegExp(String.raw`^rename\s+to\s+(${IDENTIFIER})$`, 'i').exec(action);
+		if (match) {
+			this.schema.renameTable(tableName, sqlIdentifierOf(match[1]));
+			return;
+		}
+
+		match = new RegExp(String.raw`^rename\s+(?:column\s+)?(${IDENTIFIER})\s+to\s+(${IDENTIFIER})$`, 'i').exec(action);
+		if (match) {
+			this.schema.renameColumn(tableName, sqlIdentifierOf(match[1]), sqlIdentifierOf(match[2]));
+			return;
+		}
+
+		match = new RegExp(String.raw`^(?:alter|modify)\s+(?:column\s+)?(${IDENTIFIER})\s+([\s\S]+)$`, 'i').exec(action);
+		if (match) {
+			const columnName = sqlIdentifierOf(match[1]);
+			const change = match[2];
+			if (/^set\s+not\s+null/i.test(change)) {
+				this.schema.updateColumn(tableName, columnName, { nullable: false });
+			} else if (/^drop\s+not\s+null/i.test(change)) {
+				this.schema.updateColumn(tableName, columnName, { nullable: true });
+			} else {
+				const type = new RegExp(String.raw`^(?:set\s+data\s+)?(?:type\s+)?(${COLUMN_TYPE})`, 'i').exec(change);
+				if (type && !/^(set|drop)\b/i.test(change)) {
+					this.schema.updateColumn(tableName, columnName, { type: type[1] });
+				}
+			}
+		}
+	}
+
+	/**
+	 * A column or a table constraint of `CREATE TABLE`, or what `ALTER TABLE ... ADD` adds
+	 * @param isColumn `ADD COLUMN`, where the name may look like a constraint keyword
+	 */
+	private applyDefinition(tableName: string, definition: string, isColumn: boolean) {
+		const constraint = isColumn ? definition : definition.replace(new RegExp(String.raw`^constraint\s+${IDENTIFIER}\s+`, 'i'), '');
+
+		let match = /^primary\s+key\s*(?:\w+\s*)?\(([^)]*)\)/i.exec(constraint);
+		if (!isColumn && match) {
+			this.schema.setPrimaryKey(tableName, identifiersOf(match[1]));
+			return;
+		}
+
+		match = new RegExp(String.raw`^foreign\s+key\s*(?:${IDENTIFIER}\s*)?\(([^)]*)\)\s*references\s+(${IDENTIFIER})`, 'i').exec(constraint);
+		if (!isColumn && match) {
+			this.schema.addForeignKey(tableName, identifiersOf(match[1]), sqlIdentifierOf(match[2]));
+			return;
+		}
+
+		match = /^unique\s*(?:key|index)?\s*(?:[\w$`"]+\s*)?\(([^)]*)\)/i.exec(constraint);
+		if (!isColumn && match) {
+			const columns = identifiersOf(match[1]);
+			if (columns.length === 1) {
+				this.schema.updateColumn(tableName, columns[0], { unique: true });
+			}
+			return;
+		}
+
+		if (!isColumn && /^((unique\s+)?(key|index)\b[^(]*\(|(fulltext|spatial|check|exclude)\b|constraint\s|period\s+for\b)/i.test(constraint)) {
+			return;
+		}
+
+		match = COLUMN_DEFINITION.exec(definition);
+		if (!match) {
+			return;
+		}
+
+		const name = sqlIdentifierOf(match[1]);
+		const rest = match[3];
+		const primaryKey = /\bprimary\s+key\b/i.test(rest);
+		this.schema.addColumn(tableName, createColumn(name, match[2].replace(/\s+/g, ' '), {
+			primaryKey,
+			nullable: !primaryKey && !/\bnot\s+null\b/i.test(rest),
+			unique: /\bunique\b/i.test(rest),
+		}));
+
+		const references = REFERENCES.exec(rest);
+		if (references) {
+			this.schema.addForeignKey(tableName, [name], sqlIdentifierOf(references[1]));
+		}
+	}
+
+	private stripComments(sql: string): string {
+		return sql.replace(/\/\*[\s\S]*?\*\//g, ' ').replace(/--[^\n]*/g, ' ').replace(/^\s*#[^\n]*/gm, ' ');
+	}
+}
@@ -0,0 +1,146 @@
+import { DocumentAnalyser, CodeDocument, DocumentSection } from './MarkdownAnalyser';
+
+// `== Title`, the level is the count of `=`
+const HEADING = /^(={1,6})\s+(.+?)\s*=*$/;
+// `[source,java]` or `[source, python, linenums]`
+const SOURCE_ATTRIBUTE = /^\[source(?:\s*,\s*([\w+#-]+))?[^\]]*\]\s*$/;
+// `----`, `....`, `====`, `****` and the other delimited blocks
+const BLOCK_DELIMITER = /^(-{4,}|\.{4,}|={4,}|\*{4,}|_{4,}|\+{4,}|\/{4,})\s*$/;
+// `:toc: left` document attributes, `[NOTE]` block attributes and `.Title` block titles
+const METADATA_LINE = /^(:[\w-]+!?:.*|\[[^\]]*\]|\.[^\s.].*)\s*$/;
+
+/**
+ * Parse AsciiDoc, the format of many Java projects like Spring. Code is in source blocks:
+ *
+ * ```asciidoc
+ * [source,java]
+ * ----
+ * public class Hello {}
+ * ----
+ * ```
+ */
+export class AsciiDocAnalyser implements DocumentAnalyser {
+	/**
+	 * Parses an AsciiDoc string and extracts the source and listing blocks
+	 * @param content - The AsciiDoc string to parse
+	 */
+	async parse(content: string): Promise<CodeDocument[]> {
+		const result: CodeDocument[] = [];
+		const lines = content.split('\n');
+		const lineOffsets = this.lineOffsetsOf(lines);
+		let lastHeading = '';
+
+		for (let i = 0; i < lines.length; i++) {
+			const line = lines[i];
+			const heading = HEADING.exec(line);
+			if (heading) {
+				lastHeading = heading[2];
+				continue;
+			}
+
+			const source = SOURCE_ATTRIBUTE.exec(line.trim());
+			const delimiterLine = source ? this.nextDelimiterOf(lines, i + 1) : -1;
+			if (delimiterLine < 0) {
+				continue;
+			}
+
+			const delimiter = lines[delimiterLine].trim();
+			const endLine = this.closingDelimiterOf(lines, delimiterLine + 1, delimiter);
+			const firstLine = delimiterLine + 1;
+			const lastLine = endLine - 1;
+
+			result.push({
+				title: `Code block at line ${firstLine + 1}-${lastLine + 1}`,
+				language: source?.[1] || 'plaintext',
+				lastTitle: lastHeading,
+				beforeString: '',
+				afterString: '',
+				code: lines.slice(firstLine, endLine).join('\n'),
+				startIndex: lineOffsets[Math.min(firstLine, lines.length - 1)],
+				endIndex: lastLine >= firstLine ? lineOffsets[lastLine] + lines[lastLine].length : lineOffsets[firstLine],
+			});
+
+			i = endLine;
+		}
+
+		return result;
+	}
+
+	/**
+	 * Splits an AsciiDoc string into sections by heading. Delimited blocks, attributes, block titles and `//`
+	 * comments are left out, the text of admonitions like `NOTE: ...` is kept.
+	 * @param content - The AsciiDoc string to parse
+	 */
+	async sections(content: string): Promise<DocumentSection[]> {
+		const lines = content.split('\n');
+		const sections: DocumentSection[] = [];
+		let current = { heading: '', lines: [] as string[], startLine: 0, endLine: 0 };
+
+		const flush = () => sections.push({
+			heading: current.heading,
+			content: current.lines.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+			startLine: current.startLine,
+			endLine: current.endLine,
+		});
+
+		for (let i = 0; i < lines.length; i++) {
+			const line = lines[i];
+			const heading = HEADING.exec(line);
+			if (heading) {
+				flush();
+				current = { heading: heading[2], lines: [], startLine: i, endLine: i };
+				continue;
+			}
+
+			const delimiter = BLOCK_DELIMITER.exec(line);
+			if (delimiter) {
+				i = this.closingDelimiterOf(lines, i + 1, delimiter[1]);
+				continue;
+			}
+
+			if (line.startsWith('//') || METADATA_LINE.test(line)) {
+				continue;
+			}
+
+			current.lines.push(line);
+			current.endLine = line.trim() ? i : current.endLine;
+		}
+
+		flush();
+		return sections.filter(section => section.content.length > 0);
+	}
+
+	/**
+	 * The line of the block delimiter after a `[source]` attribute, skipping a block title like `.Example`
+	 */
+	private nextDelimiterOf(lines: string[], from: number): number {
+		for (let i = from; i < lines.length && i <= from + 1; i++) {
+			if (/^(-{4,}|\.{4,})\s*$/.test(lines[i])) {
+				return i;
+			}
+		}
+
+		return -1;
+	}
+
+	private closingDelimiterOf(lines: string[], from: number, delimiter: string): number {
+		for (let i = from; i < lines.length; i++) {
+			if (lines[i].trim() === delimiter.trim()) {
+				return i;
+			}
+		}
+
+		return lines.length;
+	}
+
+	private lineOffsetsOf(lines: string[]): number[] {
+		const offsets: number[] = [];
+		let offset = 0;
+		for (const line of lines) {
+			offsets.push(offset);
+			offset += line.length + 1;
+		}
+
+		return offsets;
+	}
+}
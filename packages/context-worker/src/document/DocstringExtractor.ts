@@ -0,0 +1,172 @@
+import { CodeFile, CodeFunction, CodeStructure } from '../codemodel/CodeElement';
+import { DocCommentStyle, LANGUAGE_DOC_COMMENT_MAP } from '../base/common/languages/docstring';
+import { DocstringChunk } from '../analyzer/CodeAnalysisResult';
+
+// annotations and attributes between a doc comment and its declaration, like `@Override`, `#[derive(Debug)]` or `[Obsolete]`
+const ANNOTATION_LINE = /^\s*(@|#\[|\[)/;
+
+interface DocumentedSymbol {
+	symbol: string;
+	kind: DocstringChunk['kind'];
+	startRow: number;
+	endRow: number;
+}
+
+/**
+ * Collect the API docs of the classes, methods and functions of a parsed file, as Javadoc and JSDoc comments above
+ * the declaration or Python docstrings in the body. Symbols without docs are skipped.
+ */
+export class DocstringExtractor {
+	/**
+	 * @param codeFile the parsed structure of the file
+	 * @param content the source of the file, the rows of the structure are looked up in it
+	 */
+	extract(codeFile: CodeFile, content: string): DocstringChunk[] {
+		const style = LANGUAGE_DOC_COMMENT_MAP[codeFile.language];
+		if (!style) {
+			return [];
+		}
+
+		const lines = content.split('\n');
+		const chunks: DocstringChunk[] = [];
+		for (const symbol of this.symbolsOf(codeFile)) {
+			const docstring = style.kind === 'string'
+				? this.bodyDocstringOf(lines, symbol, style.quotes)
+				: this.commentAbove(lines, symbol.startRow, style);
+
+			if (docstring && docstring.text) {
+				chunks.push({
+					filePath: codeFile.filepath,
+					symbol: symbol.symbol,
+					kind: symbol.kind,
+					language: codeFile.language,
+					docstring: docstring.text,
+					position: {
+						start: { row: docstring.startRow, column: 0 },
+						end: { row: docstring.endRow, column: lines[docstring.endRow]?.length ?? 0 }
+					}
+				});
+			}
+		}
+
+		return chunks;
+	}
+
+	private symbolsOf(codeFile: CodeFile): DocumentedSymbol[] {
+		const symbols: DocumentedSymbol[] = [];
+		const visit = (structure: CodeStructure) => {
+			const className = structure.canonicalName || structure.name;
+			symbols.push({ symbol: className, kind: 'class', startRow: structure.start.row, endRow: structure.end.row });
+			for (const method of structure.methods ?? []) {
+				symbols.push(this.functionSymbolOf(method, `${className}.${method.name}`, 'method'));
+			}
+			structure.classes?.forEach(visit);
+		};
+
+		codeFile.classes.forEach(visit);
+		for (const func of codeFile.functions ?? []) {
+			const name = codeFile.package ? `${codeFile.package}.${func.name}` : func.name;
+			symbols.push(this.functionSymbolOf(func, name, 'function'));
+		}
+
+		return symbols;
+	}
+
+	private functionSymbolOf(func: CodeFunction, symbol: string, kind: DocstringChunk['kind']): DocumentedSymbol {
+		return { symbol, kind, startRow: func.start.row, endRow: func.end.row };
+	}
+
+	/**
+	 * The block or line comments right above the declaration, over annotations
+	 */
+	private commentAbove(lines: string[], startRow: number, style: Exclude<DocCommentStyle, { kind: 'string' }>) {
+		let row = startRow - 1;
+		while (row >= 0 && ANNOTATION_LINE.test(lines[row]) && !this.isComment(lines[row], style)) {
+			row--;
+		}
+
+		if (row < 0) {
+			return undefined;
+		}
+
+		const endRow = row;
+		if (style.kind === 'line') {
+			while (row >= 0 && lines[row].trim().startsWith(style.prefix)) {
+				row--;
+			}
+
+			const commentLines = lines.slice(row + 1, endRow + 1).map(line => line.trim().slice(style.prefix.length));
+			return row === endRow ? undefined : { text: this.dedent(commentLines), startRow: row + 1, endRow };
+		}
+
+		if (!lines[row].trim().endsWith(style.end)) {
+			return undefined;
+		}
+
+		while (row >= 0 && !lines[row].includes(style.end === '*/' ? '/*' : style.start)) {
+			row--;
+		}
+
+		if (row < 0 || !lines[row].trim().startsWith(style.start)) {
+			return undefined;
+		}
+
+		const commentLines = lines.slice(row, endRow + 1).join('\n')
+			.trim()
+			.slice(style.start.length, -style.end.length)
+			.split('\n')
+			.map(line => line.replace(/^\s*\*(?!\/) ?/, ''));
+		return { text: this.dedent(commentLines), startRow: row, endRow };
+	}
+
+	/**
+	 * The string literal which is the first statement after the signature, like Python docstrings
+	 */
+	private bodyDocstringOf(lines: string[], symbol: DocumentedSymbol, quotes: string[]) {
+		let row = symbol.startRow;
+		while (row <= symbol.endRow && !lines[row]?.replace(/#.*$/, '').trimEnd().endsWith(':')) {
+			row++;
+		}
+
+		do {
+			row++;
+		} while (row <= symbol.endRow && lines[row]?.trim() === '');
+
+		const firstLine = lines[row]?.trim().replace(/^[rRuU]/, '') ?? '';
+		const quote = quotes.find(quote => firstLine.startsWith(quote));
+		if (row > symbol.endRow || !quote) {
+			return undefined;
+		}
+
+		const startRow = row;
+		const rest = firstLine.slice(quote.length);
+		if (rest.includes(quote)) {
+			return { text: rest.slice(0, rest.indexOf(quote)).trim(), startRow, endRow: startRow };
+		}
+
+		const docLines = [rest];
+		while (++row < lines.length && !lines[row].includes(quote)) {
+			docLines.push(lines[row]);
+		}
+
+		docLines.push((lines[row] ?? '').slice(0, (lines[row] ?? '').indexOf(quote)));
+		return { text: this.dedent(docLines), startRow, endRow: Math.min(row, lines.length - 1) };
+	}
+
+	private isComment(line: string, style: Exclude<DocCommentStyle, { kind: 'string' }>): boolean {
+		const trimmed = line.trim();
+		return style.kind === 'line' ? trimmed.startsWith(style.prefix) : trimmed.endsWith(style.end);
+	}
+
+	/**
+	 * Remove the common indentation and the blank lines around, like `inspect.cleandoc` of Python
+	 */
+	private dedent(lines: string[]): string {
+		const indents = lines
+			.filter(line => line.trim())
+			.map(line => line.length - line.trimStart().length);
+		const indent = indents.length > 0 ? Math.min(...indents) : 0;
+
+		return lines.map(line => line.slice(indent).trimEnd()).join('\n').trim();
+	}
+}
@@ -0,0 +1,24 @@
+import path from 'path';
+
+import { AsciiDocAnalyser } from './AsciiDocAnalyser';
+import { DocumentAnalyser, MarkdownAnalyser } from './MarkdownAnalyser';
+import { MdxAnalyser } from './MdxAnalyser';
+import { ReSTAnalyser } from './ReSTAnalyser';
+
+const DOCUMENT_ANALYSERS: Record<string, DocumentAnalyser> = {
+	'.md': new MarkdownAnalyser(),
+	'.markdown': new MarkdownAnalyser(),
+	'.mdx': new MdxAnalyser(),
+	'.rst': new ReSTAnalyser(),
+	'.adoc': new AsciiDocAnalyser(),
+	'.asciidoc': new AsciiDocAnalyser(),
+};
+
+export const DOCUMENT_FILE_EXTENSIONS = Object.keys(DOCUMENT_ANALYSERS);
+
+/**
+ * The analyser for a documentation file by its extension, undefined for source code and other files
+ */
+export function documentAnalyserOf(filePath: string): DocumentAnalyser | undefined {
+	return DOCUMENT_ANALYSERS[path.extname(filePath).toLowerCase()];
+}
@@ -15,10 +15,24 @@ export interface CodeDocument {
 	endIndex?: number;   // 代码块在原始文本中的结束位置
 }
 
+/**
+ * The prose of a document under one heading, code blocks excluded
+ */
+export interface DocumentSection {
+	heading: string;
+	content: string;
+	startLine: number; // 标题或正文的起始行，从 0 开始
+	endLine: number;   // 正文的结束行
+}
+
 export interface DocumentAnalyser {
 	parse(markdown: string): Promise<CodeDocument[]>;
+	sections(content: string): Promise<DocumentSection[]>;
 }
 
+// the block nodes of remark which are prose, other nodes like code, html and front matter are skipped
+const PROSE_NODE_TYPES = new Set(['paragraph', 'list', 'blockquote', 'table']);
+
 /**
  * 1. get all markdown files
  * 2. parse markdown files to collect code fence block(```) and file in code(`)
@@ -131,6 +145,44 @@ export class MarkdownAnalyser implements DocumentAnalyser {
 		return result;
 	}
 
+	/**
+	 * Splits a markdown string into sections by heading, keeping the paragraphs, lists, quotes and tables as written
+	 * @param markdown - The markdown string to parse
+	 */
+	async sections(markdown: string): Promise<DocumentSection[]> {
+		const ast: any = unified()
+			.use(remarkParse)
+			.parse(markdown);
+
+		const sections: DocumentSection[] = [];
+		let current: DocumentSection = { heading: '', content: '', startLine: 0, endLine: 0 };
+
+		for (const node of ast.children) {
+			if (node.type === 'heading') {
+				sections.push(current);
+				current = { heading: this.textOf(node), content: '', startLine: node.position.start.line - 1, endLine: node.position.end.line - 1 };
+			} else if (PROSE_NODE_TYPES.has(node.type)) {
+				const text = markdown.substring(node.position.start.offset, node.position.end.offset);
+				current.content = current.content ? `${current.content}\n\n${text}` : text;
+				current.endLine = node.position.end.line - 1;
+			}
+		}
+
+		sections.push(current);
+		return sections.filter(section => section.content.trim().length > 0);
+	}
+
+	private textOf(node: any): string {
+		const parts: string[] = [];
+		visit(node, (child: any) => {
+			if (child.type === 'text' || child.type === 'inlineCode') {
+				parts.push(child.value);
+			}
+		});
+
+		return parts.join('');
+	}
+
 	/**
 	 * Checks if a string looks like a file path
 	 */
@@ -0,0 +1,29 @@
+import { CodeDocument, DocumentSection, MarkdownAnalyser } from './MarkdownAnalyser';
+
+// `import Tabs from '@theme/Tabs'` and `export const meta = {...}` lines of MDX
+const ESM_LINE = /^(import|export)\s.*$/gm;
+
+/**
+ * MDX is markdown with ESM statements and JSX. The ESM lines are blanked out before parsing, with spaces so that the
+ * offsets of the code blocks stay the same; JSX tags are parsed as html by remark and skipped.
+ */
+export class MdxAnalyser extends MarkdownAnalyser {
+	async parse(mdx: string): Promise<CodeDocument[]> {
+		return super.parse(this.stripEsm(mdx));
+	}
+
+	async sections(mdx: string): Promise<DocumentSection[]> {
+		return super.sections(this.stripEsm(mdx));
+	}
+
+	private stripEsm(mdx: string): string {
+		let inCodeFence = false;
+		return mdx.split('\n').map(line => {
+			if (line.trimStart().startsWith('```')) {
+				inCodeFence = !inCodeFence;
+			}
+
+			return inCodeFence ? line : line.replace(ESM_LINE, match => ' '.repeat(match.length));
+		}).join('\n');
+	}
+}
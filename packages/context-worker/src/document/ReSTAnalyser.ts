@@ -1,6 +1,11 @@
 import * as path from 'path';
 import * as fs from 'fs';
-import { DocumentAnalyser, CodeDocument } from './MarkdownAnalyser';
+import { DocumentAnalyser, CodeDocument, DocumentSection } from './MarkdownAnalyser';
+
+// directives whose body is code, like `.. code-block:: python`
+const CODE_DIRECTIVE = /^(\s*)\.\.\s+(code-block|code|sourcecode|literalinclude)::\s*(\S+)?/;
+// section underlines and overlines, like `=====` or `-----`
+const SECTION_ADORNMENT = /^([=\-~^"'`#*+<>_:.])\1{2,}\s*$/;
 
 /**
  * ReSTAnalyser is a class that is responsible for analyzing ReST (reStructuredText) documents.
@@ -24,6 +29,9 @@ export class ReSTAnalyser implements DocumentAnalyser {
 		let codeBlockStartLine = 0;
 		let codeBlockLanguage = 'plaintext';
 		let codeContent = '';
+		let codeFirstLine = -1;
+		let codeLastLine = -1;
+		const lineOffsets = this.lineOffsetsOf(lines);
 
 		for (let i = 0; i < lines.length; i++) {
 			const line = lines[i];
@@ -40,13 +48,14 @@ export class ReSTAnalyser implements DocumentAnalyser {
 			}
 
 			// Check for code blocks
-			// Code blocks in ReST typically start with '.. code-block:: language'
-			if (line.trim().startsWith('.. code-block::')) {
+			// Code blocks in ReST typically start with '.. code-block:: language', or its `code` and `sourcecode` aliases
+			const codeDirective = !inCodeBlock ? CODE_DIRECTIVE.exec(line) : null;
+			if (codeDirective && codeDirective[2] !== 'literalinclude') {
 				inCodeBlock = true;
 				codeBlockStartLine = i;
-				const langMatch = line.match(/\.\. code-block:: (\w+)/);
-				codeBlockLanguage = langMatch ? langMatch[1] : 'plaintext';
+				codeBlockLanguage = codeDirective[3] || 'plaintext';
 				codeContent = '';
+				codeFirstLine = -1;
 				continue;
 			}
 
@@ -56,9 +65,16 @@ export class ReSTAnalyser implements DocumentAnalyser {
 				if (line.trim() === '' && codeContent === '') {
 					// Skip initial empty lines
 					continue;
+				} else if (line.trim().startsWith(':') && codeContent === '') {
+					// Skip directive options like `:linenos:`
+					continue;
 				} else if (line.startsWith('    ') || line.startsWith('\t') || line.trim() === '') {
 					// Add to code content (removing leading indentation)
 					codeContent += (line.startsWith('    ') ? line.slice(4) : line) + '\n';
+					if (line.trim() !== '') {
+						codeFirstLine = codeFirstLine < 0 ? i : codeFirstLine;
+						codeLastLine = i;
+					}
 				} else {
 					// End of code block
 					inCodeBlock = false;
@@ -94,7 +110,8 @@ export class ReSTAnalyser implements DocumentAnalyser {
 						lastTitle: codeLastTitle,
 						beforeString,
 						afterString,
-						code: codeContent.trim()
+						code: codeContent.trim(),
+						...this.codeRangeOf(lines, lineOffsets, codeFirstLine, codeLastLine)
 					});
 
 					// Process this line again as it might be the start of something else
@@ -168,13 +185,102 @@ export class ReSTAnalyser implements DocumentAnalyser {
 				lastTitle: codeLastTitle,
 				beforeString,
 				afterString: '',
-				code: codeContent.trim()
+				code: codeContent.trim(),
+				...this.codeRangeOf(lines, lineOffsets, codeFirstLine, codeLastLine)
 			});
 		}
 
 		return result;
 	}
 
+	/**
+	 * Splits a reStructuredText string into sections by title. Code directives and literal blocks (the indented block
+	 * after a paragraph ending with `::`) are left out, as are comments, targets and field lists.
+	 * @param content - The ReST string to parse
+	 */
+	async sections(content: string): Promise<DocumentSection[]> {
+		const lines = content.split('\n');
+		const sections: DocumentSection[] = [];
+		let current = { heading: '', lines: [] as string[], startLine: 0, endLine: 0 };
+		let skipIndent: number | undefined;
+
+		const indentOf = (line: string) => line.length - line.trimStart().length;
+		const flush = () => sections.push({
+			heading: current.heading,
+			content: current.lines.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+			startLine: current.startLine,
+			endLine: current.endLine,
+		});
+
+		for (let i = 0; i < lines.length; i++) {
+			const line = lines[i];
+
+			if (skipIndent !== undefined) {
+				if (line.trim() === '' || indentOf(line) > skipIndent) {
+					continue;
+				}
+				skipIndent = undefined;
+			}
+
+			if (line.trim() && !SECTION_ADORNMENT.test(line) && indentOf(line) === 0 && SECTION_ADORNMENT.test(lines[i + 1] ?? '')) {
+				flush();
+				current = { heading: line.trim(), lines: [], startLine: i, endLine: i };
+				i++;
+				continue;
+			}
+
+			if (SECTION_ADORNMENT.test(line)) {
+				continue;
+			}
+
+			const codeDirective = CODE_DIRECTIVE.exec(line);
+			if (codeDirective) {
+				skipIndent = codeDirective[1].length;
+				continue;
+			}
+
+			// comments, targets and the first line of other directives, their indented body is kept
+			if (/^\s*\.\.(\s|$)/.test(line) || /^\s*:[\w-]+:/.test(line)) {
+				continue;
+			}
+
+			if (line.trimEnd().endsWith('::')) {
+				current.lines.push(line.trimEnd().replace(/::$/, ':'));
+				current.endLine = i;
+				skipIndent = indentOf(line);
+				continue;
+			}
+
+			current.lines.push(line);
+			current.endLine = line.trim() ? i : current.endLine;
+		}
+
+		flush();
+		return sections.filter(section => section.content.length > 0);
+	}
+
+	private lineOffsetsOf(lines: string[]): number[] {
+		const offsets: number[] = [];
+		let offset = 0;
+		for (const line of lines) {
+			offsets.push(offset);
+			offset += line.length + 1;
+		}
+
+		return offsets;
+	}
+
+	/**
+	 * The offsets of the first and last code lines, so that the position of the block can be told like for markdown
+	 */
+	private codeRangeOf(lines: string[], lineOffsets: number[], firstLine: number, lastLine: number): Pick<CodeDocument, 'startIndex' | 'endIndex'> {
+		if (firstLine < 0) {
+			return {};
+		}
+
+		return { startIndex: lineOffsets[firstLine], endIndex: lineOffsets[lastLine] + lines[lastLine].length };
+	}
+
 	/**
 	 * Checks if a string looks like a file path
 	 */
@@ -0,0 +1,146 @@
+import fs from "fs";
+import path from "path";
+import { ApiResource, CodeDataStruct, CodeField, CodeFunction, DataStructType } from "@autodev/worker-core";
+
+import { FileSystemScanner } from "../analyzer/FileSystemScanner";
+import {
+	GraphQLFieldDefinition,
+	GraphQLOperationKind,
+	GraphQLSchemaDocument,
+	GraphQLSchemaParser,
+	GraphQLTypeDefinition,
+} from "./GraphQLSchemaParser";
+
+export const GRAPHQL_FILE_EXTENSIONS = ['.graphql', '.graphqls', '.gql'];
+
+export const GRAPHQL_OPERATION_KINDS: GraphQLOperationKind[] = ['query', 'mutation', 'subscription'];
+
+/**
+ * Find the `.graphql` and `.gql` schema files of the workspace
+ */
+export async function scanGraphQLFiles(dirPath: string): Promise<string[]> {
+	const files = await new FileSystemScanner().scanDirectory(dirPath);
+	return files.filter(file => GRAPHQL_FILE_EXTENSIONS.includes(path.extname(file).toLowerCase()));
+}
+
+/**
+ * Parse a GraphQL SDL file, undefined when the file is not valid SDL
+ */
+export function parseGraphQLFile(filePath: string): GraphQLSchemaDocument | undefined {
+	try {
+		return new GraphQLSchemaParser().parse(fs.readFileSync(filePath, 'utf-8'));
+	} catch (error) {
+		console.warn(`无法解析 GraphQL 文件 ${filePath}:`, error);
+		return undefined;
+	}
+}
+
+/**
+ * The ApiResource of a GraphQL operation, shared by the SDL files and the code-first resolvers
+ * @param kind query, mutation or subscription
+ * @param name the field name of the operation on the root type, like `user`
+ */
+export function graphQLResourceOf(kind: GraphQLOperationKind, name: string, packageName: string, className: string, methodName: string = name): ApiResource {
+	return {
+		id: `${className}.${methodName}`,
+		sourceUrl: `graphql/${name}`,
+		sourceHttpMethod: kind.toUpperCase(),
+		packageName,
+		className,
+		methodName,
+		supplyType: 'GraphQL',
+	};
+}
+
+export class GraphQLResourceGenerator {
+	/**
+	 * Convert every field of the root operation types to an ApiResource
+	 * @param document the parsed SDL document
+	 * @param specPath the path of the schema file, used as the package name
+	 */
+	public generateApiResources(document: GraphQLSchemaDocument, specPath: string): ApiResource[] {
+		const apiResources: ApiResource[] = [];
+		for (const kind of GRAPHQL_OPERATION_KINDS) {
+			const rootType = document.types.find(type => type.kind === 'type' && type.name === document.operationTypes[kind]);
+			for (const field of rootType?.fields ?? []) {
+				apiResources.push(graphQLResourceOf(kind, field.name, specPath, rootType!.name));
+			}
+		}
+
+		return apiResources;
+	}
+
+	/**
+	 * Convert the types of the document to CodeDataStruct: object and input types become classes, fields with
+	 * arguments become functions, enums keep their values and unions list their members in MultipleExtend
+	 */
+	public generateDataStructs(document: GraphQLSchemaDocument, filePath: string): CodeDataStruct[] {
+		return document.types
+			.filter(type => type.kind !== 'scalar')
+			.map(type => this.dataStructOf(type, filePath));
+	}
+
+	private dataStructOf(type: GraphQLTypeDefinition, filePath: string): CodeDataStruct {
+		const fields: CodeField[] = type.kind === 'enum'
+			? type.values.map(value => ({ Name: value, Type: type.name, IsArray: false, IsNullable: false, Default: undefined, Comment: '' }))
+			: type.fields.filter(field => field.arguments.length === 0).map(field => this.fieldOf(field));
+
+		const functions: CodeFunction[] = type.fields
+			.filter(field => field.arguments.length > 0)
+			.map(field => ({
+				Name: field.name,
+				ReturnType: field.type.text,
+				Parameters: field.arguments.map(arg => ({ Name: arg.name, Type: arg.type.text })),
+				IsStatic: false,
+				IsConstructor: false,
+				IsAsync: false,
+				Decorators: [],
+				Content: '',
+			}));
+
+		return {
+			NodeName: type.name,
+			Module: '',
+			Type: this.dataStructTypeOf(type),
+			Package: '',
+			FilePath: filePath,
+			Fields: fields,
+			MultipleExtend: type.members,
+			Implements: type.interfaces,
+			Extend: '',
+			Functions: functions,
+			InnerStructures: [],
+			Annotations: [],
+			FunctionCalls: [],
+			Parameters: [],
+			Imports: [],
+			Exports: [],
+			Extension: { kind: type.kind },
+			Position: { StartLine: 0, EndLine: 0, StartColumn: 0, EndColumn: 0 },
+			Content: type.description ?? '',
+		};
+	}
+
+	private fieldOf(field: GraphQLFieldDefinition): CodeField {
+		return {
+			Name: field.name,
+			Type: field.type.name,
+			IsArray: field.type.isList,
+			IsNullable: !field.type.nonNull,
+			Default: field.defaultValue,
+			Comment: field.description ?? '',
+		};
+	}
+
+	private dataStructTypeOf(type: GraphQLTypeDefinition): DataStructType {
+		switch (type.kind) {
+			case 'enum':
+				return DataStructType.Enum;
+			case 'interface':
+			case 'union':
+				return DataStructType.Interface;
+			default:
+				return DataStructType.Class;
+		}
+	}
+}
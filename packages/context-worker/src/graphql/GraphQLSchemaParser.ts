@@ -0,0 +1,454 @@
+export type GraphQLTypeKind = 'type' | 'interface' | 'input' | 'enum' | 'union' | 'scalar';
+
+export type GraphQLOperationKind = 'query' | 'mutation' | 'subscription';
+
+export interface GraphQLTypeRef {
+	/** the type as written, like `[User!]!` */
+	text: string;
+	/** the innermost named type, like `User` */
+	name: string;
+	isList: boolean;
+	nonNull: boolean;
+}
+
+export interface GraphQLArgument {
+	name: string;
+	type: GraphQLTypeRef;
+	defaultValue?: string;
+}
+
+export interface GraphQLFieldDefinition {
+	name: string;
+	type: GraphQLTypeRef;
+	arguments: GraphQLArgument[];
+	description?: string;
+	defaultValue?: string;
+}
+
+export interface GraphQLTypeDefinition {
+	kind: GraphQLTypeKind;
+	name: string;
+	description?: string;
+	fields: GraphQLFieldDefinition[];
+	/** interfaces of object types and interfaces */
+	interfaces: string[];
+	/** values of enums */
+	values: string[];
+	/** member types of unions */
+	members: string[];
+}
+
+/**
+ * The type system definitions of a GraphQL SDL document. Executable definitions, like the queries of a client, and
+ * directive definitions are skipped.
+ */
+export interface GraphQLSchemaDocument {
+	types: GraphQLTypeDefinition[];
+	/** root operation types, `Query`, `Mutation` and `Subscription` unless a `schema` definition says otherwise */
+	operationTypes: Record<GraphQLOperationKind, string>;
+}
+
+type TokenKind = 'name' | 'string' | 'number' | 'punct' | 'eof';
+
+interface Token {
+	kind: TokenKind;
+	value: string;
+	offset: number;
+}
+
+const PUNCTUATORS = new Set(['{', '}', '(', ')', '[', ']', '!', ':', '=', '@', '|', '&', '$']);
+const EXECUTABLE_KEYWORDS = new Set(['query', 'mutation', 'subscription', 'fragment']);
+const TYPE_KEYWORDS: Record<string, GraphQLTypeKind> = {
+	type: 'type',
+	interface: 'interface',
+	input: 'input',
+	enum: 'enum',
+	union: 'union',
+	scalar: 'scalar',
+};
+
+export class GraphQLSyntaxError extends Error {
+	constructor(message: string, readonly offset: number) {
+		super(`${message} at offset ${offset}`);
+		this.name = 'GraphQLSyntaxError';
+	}
+}
+
+/**
+ * A small recursive descent parser of the GraphQL type system language, enough to list the types and operations of
+ * a schema without depending on graphql-js.
+ */
+export class GraphQLSchemaParser {
+	private tokens: Token[] = [];
+	private position = 0;
+
+	parse(source: string): GraphQLSchemaDocument {
+		this.tokens = this.tokenize(source);
+		this.position = 0;
+
+		const types = new Map<string, GraphQLTypeDefinition>();
+		const operationTypes: Record<GraphQLOperationKind, string> = {
+			query: 'Query',
+			mutation: 'Mutation',
+			subscription: 'Subscription',
+		};
+
+		while (this.peek().kind !== 'eof') {
+			const description = this.optionalDescription();
+			const token = this.peek();
+
+			if (token.kind === 'punct' && token.value === '{') {
+				// anonymous query of a client document
+				this.skipBalanced('{', '}');
+				continue;
+			}
+
+			if (token.kind !== 'name') {
+				throw new GraphQLSyntaxError(`Unexpected ${token.value}`, token.offset);
+			}
+
+			const extend = token.value === 'extend';
+			if (extend) {
+				this.next();
+			}
+
+			const keyword = this.expectName();
+
+			if (keyword === 'schema') {
+				this.skipDirectives();
+				this.expect('{');
+				while (!this.consumeIf('}')) {
+					const operation = this.expectName() as GraphQLOperationKind;
+					this.expect(':');
+					operationTypes[operation] = this.expectName();
+				}
+			} else if (TYPE_KEYWORDS[keyword]) {
+				const definition = this.parseTypeDefinition(TYPE_KEYWORDS[keyword], description);
+				const existing = types.get(definition.name);
+				if (existing && extend) {
+					existing.fields.push(...definition.fields);
+					existing.interfaces.push(...definition.interfaces);
+					existing.values.push(...definition.values);
+					existing.members.push(...definition.members);
+				} else {
+					types.set(definition.name, definition);
+				}
+			} else if (keyword === 'directive') {
+				this.skipDirectiveDefinition();
+			} else if (EXECUTABLE_KEYWORDS.has(keyword)) {
+				this.skipExecutableDefinition();
+			} else {
+				throw new GraphQLSyntaxError(`Unknown definition ${keyword}`, token.offset);
+			}
+		}
+
+		return { types: [...types.values()], operationTypes };
+	}
+
+	private parseTypeDefinition(kind: GraphQLTypeKind, description?: string): GraphQLTypeDefinition {
+		const definition: GraphQLTypeDefinition = {
+			kind,
+			name: this.expectName(),
+			description,
+			fields: [],
+			interfaces: [],
+			values: [],
+			members: [],
+		};
+
+		if (this.peekName('implements')) {
+			this.next();
+			this.consumeIf('&');
+			do {
+				definition.interfaces.push(this.expectName());
+			} while (this.consumeIf('&') || (this.peek().kind === 'name' && !this.isDefinitionStart()));
+		}
+
+		this.skipDirectives();
+
+		if (kind === 'union' && this.consumeIf('=')) {
+			this.consumeIf('|');
+			do {
+				definition.members.push(this.expectName());
+			} while (this.consumeIf('|'));
+		}
+
+		if ((kind === 'type' || kind === 'interface' || kind === 'input' || kind === 'enum') && this.consumeIf('{')) {
+			while (!this.consumeIf('}')) {
+				if (kind === 'enum') {
+					this.optionalDescription();
+					definition.values.push(this.expectName());
+					this.skipDirectives();
+				} else {
+					definition.fields.push(this.parseField());
+				}
+			}
+		}
+
+		return definition;
+	}
+
+	private parseField(): GraphQLFieldDefinition {
+		const description = this.optionalDescription();
+		const name = this.expectName();
+		const args: GraphQLArgument[] = [];
+
+		if (this.consumeIf('(')) {
+			while (!this.consumeIf(')')) {
+				this.optionalDescription();
+				const argName = this.expectName();
+				this.expect(':');
+				const type = this.parseTypeRef();
+				const defaultValue = this.consumeIf('=') ? this.parseValue() : undefined;
+				this.skipDirectives();
+				args.push({ name: argName, type, ...(defaultValue !== undefined ? { defaultValue } : {}) });
+			}
+		}
+
+		this.expect(':');
+		const type = this.parseTypeRef();
+		const defaultValue = this.consumeIf('=') ? this.parseValue() : undefined;
+		this.skipDirectives();
+
+		return {
+			name,
+			type,
+			arguments: args,
+			...(description ? { description } : {}),
+			...(defaultValue !== undefined ? { defaultValue } : {}),
+		};
+	}
+
+	private parseTypeRef(): GraphQLTypeRef {
+		let ref: GraphQLTypeRef;
+		if (this.consumeIf('[')) {
+			const inner = this.parseTypeRef();
+			this.expect(']');
+			ref = { text: `[${inner.text}]`, name: inner.name, isList: true, nonNull: false };
+		} else {
+			const name = this.expectName();
+			ref = { text: name, name, isList: false, nonNull: false };
+		}
+
+		if (this.consumeIf('!')) {
+			ref.text += '!';
+			ref.nonNull = true;
+		}
+
+		return ref;
+	}
+
+	/**
+	 * Default values are kept as written, like `10`, `"name"` or `[ASC]`
+	 */
+	private parseValue(): string {
+		const token = this.peek();
+		if (token.kind === 'punct' && (token.value === '[' || token.value === '{')) {
+			const start = this.position;
+			this.skipBalanced(token.value, token.value === '[' ? ']' : '}');
+			return this.tokens.slice(start, this.position).map(it => this.textOf(it)).join(' ')
+				.replace(/([[{]) /g, '$1').replace(/ ([\]}])/g, '$1');
+		}
+
+		if (this.consumeIf('$')) {
+			return '$' + this.expectName();
+		}
+
+		return this.textOf(this.next());
+	}
+
+	private skipDirectives(): void {
+		while (this.consumeIf('@')) {
+			this.expectName();
+			if (this.peekPunct('(')) {
+				this.skipBalanced('(', ')');
+			}
+		}
+	}
+
+	/**
+	 * `directive @auth(requires: Role = ADMIN) repeatable on OBJECT | FIELD_DEFINITION`
+	 */
+	private skipDirectiveDefinition(): void {
+		this.expect('@');
+		this.expectName();
+		if (this.peekPunct('(')) {
+			this.skipBalanced('(', ')');
+		}
+
+		if (this.peekName('repeatable')) {
+			this.next();
+		}
+
+		if (this.peekName('on')) {
+			this.next();
+			this.consumeIf('|');
+			do {
+				this.expectName();
+			} while (this.consumeIf('|'));
+		}
+	}
+
+	/**
+	 * `query GetUser($id: ID!) @cached { ... }`, or `fragment UserParts on User { ... }`
+	 */
+	private skipExecutableDefinition(): void {
+		while (this.peek().kind !== 'eof' && !this.peekPunct('{')) {
+			if (this.peekPunct('(')) {
+				this.skipBalanced('(', ')');
+			} else {
+				this.next();
+			}
+		}
+
+		if (this.peekPunct('{')) {
+			this.skipBalanced('{', '}');
+		}
+	}
+
+	private skipBalanced(open: string, close: string): void {
+		let depth = 0;
+		do {
+			const token = this.next();
+			if (token.kind === 'eof') {
+				throw new GraphQLSyntaxError(`Missing ${close}`, token.offset);
+			}
+
+			if (token.kind === 'punct' && token.value === open) depth++;
+			if (token.kind === 'punct' && token.value === close) depth--;
+		} while (depth > 0);
+	}
+
+	/**
+	 * The legacy `implements A, B` syntax has no separator once commas are dropped, so the list ends at the next
+	 * definition keyword, a directive or the body
+	 */
+	private isDefinitionStart(): boolean {
+		const value = this.peek().value;
+		return value === 'extend' || value === 'schema' || value === 'directive'
+			|| TYPE_KEYWORDS[value] !== undefined || EXECUTABLE_KEYWORDS.has(value);
+	}
+
+	private optionalDescription(): string | undefined {
+		return this.peek().kind === 'string' ? this.next().value : undefined;
+	}
+
+	private expect(punct: string): void {
+		const token = this.next();
+		if (token.kind !== 'punct' || token.value !== punct) {
+			throw new GraphQLSyntaxError(`Expected ${punct} but found ${token.value || 'end of file'}`, token.offset);
+		}
+	}
+
+	private expectName(): string {
+		const token = this.next();
+		if (token.kind !== 'name') {
+			throw new GraphQLSyntaxError(`Expected a name but found ${token.value || 'end of file'}`, token.offset);
+		}
+
+		return token.value;
+	}
+
+	private consumeIf(punct: string): boolean {
+		if (this.peekPunct(punct)) {
+			this.position++;
+			return true;
+		}
+
+		return false;
+	}
+
+	private peekPunct(punct: string): boolean {
+		const token = this.peek();
+		return token.kind === 'punct' && token.value === punct;
+	}
+
+	private peekName(name: string): boolean {
+		const token = this.peek();
+		return token.kind === 'name' && token.value === name;
+	}
+
+	private peek(): Token {
+		return this.tokens[this.position];
+	}
+
+	private next(): Token {
+		const token = this.tokens[this.position];
+		if (token.kind !== 'eof') {
+			this.position++;
+		}
+
+		return token;
+	}
+
+	private textOf(token: Token): string {
+		return token.kind === 'string' ? JSON.stringify(token.value) : token.value;
+	}
+
+	private tokenize(source: string): Token[] {
+		const tokens: Token[] = [];
+		let index = 0;
+
+		while (index < source.length) {
+			const char = source[index];
+
+			// commas are insignificant in GraphQL
+			if (/[\s,]/.test(char)) {
+				index++;
+			} else if (char === '#') {
+				while (index < source.length && source[index] !== '\n') index++;
+			} else if (source.startsWith('"""', index)) {
+				const end = source.indexOf('"""', index + 3);
+				if (end < 0) {
+					throw new GraphQLSyntaxError('Unterminated block string', index);
+				}
+
+				tokens.push({ kind: 'string', value: this.dedent(source.slice(index + 3, end)), offset: index });
+				index = end + 3;
+			} else if (char === '"') {
+				let end = index + 1;
+				let value = '';
+				while (end < source.length && source[end] !== '"' && source[end] !== '\n') {
+					value += source[end] === '\\' ? source[++end] : source[end];
+					end++;
+				}
+
+				if (source[end] !== '"') {
+					throw new GraphQLSyntaxError('Unterminated string', index);
+				}
+
+				tokens.push({ kind: 'string', value, offset: index });
+				index = end + 1;
+			} else if (source.startsWith('...', index)) {
+				tokens.push({ kind: 'punct', value: '...', offset: index });
+				index += 3;
+			} else if (PUNCTUATORS.has(char)) {
+				tokens.push({ kind: 'punct', value: char, offset: index });
+				index++;
+			} else {
+				const match = /^(?:[_A-Za-z][_0-9A-Za-z]*|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(source.slice(index, index + 256));
+				if (!match) {
+					throw new GraphQLSyntaxError(`Unexpected character ${char}`, index);
+				}
+
+				tokens.push({ kind: /^[-\d]/.test(match[0]) ? 'number' : 'name', value: match[0], offset: index });
+				index += match[0].length;
+			}
+		}
+
+		tokens.push({ kind: 'eof', value: '', offset: source.length });
+		return tokens;
+	}
+
+	private dedent(block: string): string {
+		const lines = block.split(/\r?\n/);
+		const indent = Math.min(...lines.slice(1)
+			.filter(line => line.trim().length > 0)
+			.map(line => line.match(/^\s*/)![0].length));
+
+		return lines
+			.map((line, index) => index === 0 || !isFinite(indent) ? line : line.slice(indent))
+			.join('\n')
+			.trim();
+	}
+}
@@ -8,11 +8,79 @@
 // Core analyzer exports
 export { SymbolAnalyser } from './analyzer/analyzers/SymbolAnalyser';
 export { CodeCollector } from './analyzer/CodeCollector';
+export { AnalysisCache } from './analyzer/AnalysisCache';
+export { CallGraphAnalyzer } from './analyzer/analyzers/CallGraphAnalyzer';
+export { CallGraph } from './analyzer/CallGraph';
+export { DeadCodeAnalyzer } from './analyzer/analyzers/DeadCodeAnalyzer';
+export { CodeMetricsAnalyzer } from './analyzer/analyzers/CodeMetricsAnalyzer';
+export { TestMappingAnalyzer } from './analyzer/analyzers/TestMappingAnalyzer';
+export { DataModelAnalyzer, scanDataModelFiles } from './analyzer/analyzers/DataModelAnalyzer';
+export { ManifestAnalyzer, scanManifestFiles } from './manifest/ManifestAnalyzer';
+export { CycloneDxExporter, CycloneDxBom, CycloneDxComponent } from './manifest/CycloneDxExporter';
+export { ApiDemandMatcher, normalizeApiPath } from './analyzer/ApiDemandMatcher';
+export { ApiDemand } from './code-context/base/HttpApiAnalyser';
+
+// OpenAPI import and export
+export {
+  OpenApiDocument,
+  OpenApiResourceGenerator,
+  parseOpenApiFile,
+  scanOpenApiFiles
+} from './openapi/OpenApiResourceGenerator';
+export { OpenApiExporter } from './openapi/OpenApiExporter';
+export { ApiSpecDiff, diffApiResources } from './openapi/ApiSpecDiff';
+
+// GraphQL schemas
+export {
+  GraphQLResourceGenerator,
+  graphQLResourceOf,
+  parseGraphQLFile,
+  scanGraphQLFiles
+} from './graphql/GraphQLResourceGenerator';
+export { GraphQLSchemaDocument, GraphQLSchemaParser, GraphQLSyntaxError } from './graphql/GraphQLSchemaParser';
+
+// Documents and API docs
+export { CodeDocument, DocumentAnalyser, DocumentSection, MarkdownAnalyser } from './document/MarkdownAnalyser';
+export { MdxAnalyser } from './document/MdxAnalyser';
+export { ReSTAnalyser } from './document/ReSTAnalyser';
+export { AsciiDocAnalyser } from './document/AsciiDocAnalyser';
+export { DOCUMENT_FILE_EXTENSIONS, documentAnalyserOf } from './document/DocumentAnalysers';
+export { DocstringExtractor } from './document/DocstringExtractor';
 export {
   SymbolAnalysisResult,
   SymbolInfo,
   FileSymbols,
-  CodeAnalysisResult
+  CodeAnalysisResult,
+  CallGraphNode,
+  CallGraphEdge,
+  CallGraphResult,
+  DeadCodeItem,
+  DeadCodeResult,
+  FunctionMetrics,
+  PackageMetrics,
+  CodeMetricsResult,
+  TestCaseMapping,
+  TestFileMapping,
+  UntestedMethod,
+  TestMappingResult,
+  DataModelSource,
+  RelationshipCardinality,
+  DataColumn,
+  DataTable,
+  DataRelationship,
+  DataModelResult,
+  DependencyEcosystem,
+  DependencyScope,
+  DeclaredDependency,
+  ManifestModule,
+  ProjectMetadata,
+  ManifestAnalysisResult,
+  ServiceInfo,
+  ServiceDependency,
+  ServiceDependencyMap,
+  DocumentationSection,
+  DocstringChunk,
+  DocumentationResult
 } from './analyzer/CodeAnalysisResult';
 
 // Language service exports
@@ -42,3 +110,24 @@ export { ICodeAnalyzer } from './analyzer/analyzers/ICodeAnalyzer';
 
 // File system utilities
 export { FileSystemScanner } from './analyzer/FileSystemScanner';
+
+// Project config and plugins
+export { ProjectConfig, ProjectPlugin } from './types/ProjectConfig';
+export { loadProjectConfig, loadProjectPlugins } from './analyzer/ProjectConfigLoader';
+export { HttpApiAnalyser } from './code-context/base/HttpApiAnalyser';
+export { BaseStructurerProvider, StructurerProvider } from './code-context/base/StructurerProvider';
+
+// Fan-in and fan-out context of methods
+export { RelevantCodeProviderManager } from './code-context/RelevantCodeProviderManager';
+export { RelevantCodeProvider } from './code-context/base/RelevantCodeProvider';
+export { registerBuiltinProviders } from './analyzer/ProviderRegistry';
+
+// Class diagrams
+export { ClassDiagramBuilder } from './analyzer/ClassDiagramBuilder';
+export { ClassDiagram, ClassDiagramOptions, DiagramClass, DiagramRelation } from './types/ClassDiagram';
+export { PlantUMLClassDiagramPresenter } from './codemodel/presenter/PlantUMLClassDiagramPresenter';
+export { MermaidClassDiagramPresenter } from './codemodel/presenter/MermaidClassDiagramPresenter';
+
+// Language server
+export { ContextNavigator } from './lsp/ContextNavigator';
+export { ContextLanguageServer, startLanguageServer } from './lsp/ContextLanguageServer';
@@ -0,0 +1,150 @@
+import fs from "fs";
+import { format } from "util";
+import { fileURLToPath } from "url";
+import {
+	Connection,
+	createConnection,
+	FileChangeType,
+	InitializeResult,
+	ProposedFeatures,
+	TextDocumentSyncKind,
+} from "vscode-languageserver/node";
+
+import { ILanguageServiceProvider, LanguageServiceProvider } from "../base/common/languages/languageService";
+import { FileSystemScanner } from "../analyzer/FileSystemScanner";
+import { createPathFilter, loadProjectConfig } from "../analyzer/ProjectConfigLoader";
+import { registerBuiltinProviders, registerProjectProviders } from "../analyzer/ProviderRegistry";
+import { ContextNavigator } from "./ContextNavigator";
+
+function filePathOf(uri: string): string | undefined {
+	return uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+}
+
+/**
+ * Serve `textDocument/documentSymbol`, `workspace/symbol`, `textDocument/definition` and `textDocument/references`
+ * of a workspace over the language server protocol. The workspace of the `initialize` request is indexed, `dirPath`
+ * when the editor sends none, and open documents are indexed with their content in the editor.
+ */
+export class ContextLanguageServer {
+	private readonly navigator: ContextNavigator;
+	private indexing: Promise<void> = Promise.resolve();
+
+	constructor(
+		private readonly connection: Connection,
+		private readonly dirPath: string,
+		private readonly allowPlugins: boolean = false,
+		languageService: ILanguageServiceProvider = new LanguageServiceProvider()
+	) {
+		this.navigator = new ContextNavigator(languageService);
+	}
+
+	listen() {
+		const connection = this.connection;
+
+		connection.onInitialize((params): InitializeResult => {
+			const folder = params.workspaceFolders?.[0]?.uri ?? params.rootUri;
+			const root = (folder && filePathOf(folder)) || this.dirPath;
+			this.indexing = this.indexWorkspace(root);
+
+			return {
+				capabilities: {
+					textDocumentSync: TextDocumentSyncKind.Full,
+					documentSymbolProvider: true,
+					workspaceSymbolProvider: true,
+					definitionProvider: true,
+					referencesProvider: true,
+				},
+				serverInfo: { name: 'autodev-context-worker' },
+			};
+		});
+
+		connection.onDidOpenTextDocument(params => this.updateDocument(params.textDocument.uri, params.textDocument.text));
+		connection.onDidChangeTextDocument(params => {
+			const change = params.contentChanges[params.contentChanges.length - 1];
+			return change ? this.updateDocument(params.textDocument.uri, change.text) : undefined;
+		});
+		connection.onDidCloseTextDocument(params => this.reloadFile(params.textDocument.uri));
+		connection.onDidChangeWatchedFiles(async params => {
+			for (const change of params.changes) {
+				const filePath = filePathOf(change.uri);
+				if (filePath && change.type === FileChangeType.Deleted) {
+					this.navigator.remove(filePath);
+				} else {
+					await this.reloadFile(change.uri);
+				}
+			}
+		});
+
+		connection.onDocumentSymbol(async params => {
+			await this.indexing;
+			const filePath = filePathOf(params.textDocument.uri);
+			return filePath ? this.navigator.documentSymbols(filePath) : [];
+		});
+		connection.onWorkspaceSymbol(async params => {
+			await this.indexing;
+			return this.navigator.workspaceSymbols(params.query);
+		});
+		connection.onDefinition(async params => {
+			await this.indexing;
+			const filePath = filePathOf(params.textDocument.uri);
+			return filePath ? this.navigator.definition(filePath, params.position) : [];
+		});
+		connection.onReferences(async params => {
+			await this.indexing;
+			const filePath = filePathOf(params.textDocument.uri);
+			return filePath ? this.navigator.references(filePath, params.position, params.context.includeDeclaration) : [];
+		});
+
+		connection.listen();
+	}
+
+	private async indexWorkspace(root: string): Promise<void> {
+		const projectConfig = loadProjectConfig(root, this.allowPlugins);
+		if (projectConfig) {
+			registerProjectProviders(root, projectConfig);
+		}
+
+		const files = await new FileSystemScanner(createPathFilter(projectConfig ?? {})).scanDirectory(root);
+		for (const file of files.filter(file => this.navigator.isSupported(file))) {
+			try {
+				await this.navigator.update(file, fs.readFileSync(file, 'utf-8'));
+			} catch (error) {
+				console.warn(`无法索引 ${file}:`, error);
+			}
+		}
+
+		this.connection.console.info(`已索引 ${root} 中的 ${this.navigator.indexedFiles().length} 个文件`);
+	}
+
+	private async updateDocument(uri: string, content: string) {
+		const filePath = filePathOf(uri);
+		if (filePath) {
+			await this.indexing;
+			await this.navigator.update(filePath, content);
+		}
+	}
+
+	/**
+	 * Index a closed or changed file with its content on the disk
+	 */
+	private async reloadFile(uri: string) {
+		const filePath = filePathOf(uri);
+		if (filePath && fs.existsSync(filePath)) {
+			await this.updateDocument(uri, fs.readFileSync(filePath, 'utf-8'));
+		}
+	}
+}
+
+/**
+ * Run the language server on stdin and stdout, logs go to the client since stdout carries the protocol
+ */
+export function startLanguageServer(dirPath: string, allowPlugins: boolean = false): void {
+	registerBuiltinProviders();
+
+	const connection = createConnection(ProposedFeatures.all, process.stdin, process.stdout);
+	console.log = console.info = (...args: any[]) => connection.console.log(format(...args));
+	console.warn = (...args: any[]) => connection.console.warn(format(...args));
+	console.error = (...args: any[]) => connection.console.error(format(...args));
+
+	new ContextLanguageServer(connection, dirPath, allowPlugins).listen();
+}
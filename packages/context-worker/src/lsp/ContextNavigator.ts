@@ -0,0 +1,359 @@
+import path from "path";
+import { SyntaxNode, Tree } from "web-tree-sitter";
+import {
+	DocumentSymbol,
+	Location,
+	Position,
+	Range,
+	SymbolInformation,
+	SymbolKind as LspSymbolKind,
+} from "vscode-languageserver/node";
+import { pathToFileURL } from "url";
+
+import { ILanguageServiceProvider } from "../base/common/languages/languageService";
+import { inferLanguage, LanguageIdentifier } from "../base/common/languages/languages";
+import { CodeSymbol, SymbolExtractor, SymbolKind } from "../code-context/base/SymbolExtractor";
+import { StructurerProvider } from "../code-context/base/StructurerProvider";
+import { LanguageProfileUtil } from "../code-context/base/LanguageProfileUtil";
+import { StructurerProviderManager } from "../code-context/StructurerProviderManager";
+import { ScopeBuilder } from "../code-search/scope-graph/ScopeBuilder";
+import { NodeIndex, ScopeGraph } from "../code-search/scope-graph/ScopeGraph";
+import { TextRange } from "../code-search/scope-graph/model/TextRange";
+import { LocalDef } from "../code-search/scope-graph/node/LocalDef";
+import { Reference } from "../code-search/scope-graph/node/Reference";
+import { TreeSitterFile } from "../ast/TreeSitterFile";
+import { CodeFile } from "../codemodel/CodeElement";
+
+const MAX_WORKSPACE_SYMBOLS = 500;
+
+// references, imports and aliases are captured by the symbol queries too, they are not declarations
+const NON_DECLARATIONS = [SymbolKind.Reference, SymbolKind.Import, SymbolKind.Wildcard, SymbolKind.Alias];
+
+// `identifier`, `type_identifier`, `simple_identifier` of Kotlin, `name` of PHP and so on
+const IDENTIFIER_TYPE = /identifier$|^name$/;
+
+const LSP_KINDS: Record<SymbolKind, LspSymbolKind> = {
+	[SymbolKind.Class]: LspSymbolKind.Class,
+	[SymbolKind.Constant]: LspSymbolKind.Constant,
+	[SymbolKind.Enum]: LspSymbolKind.Enum,
+	[SymbolKind.EnumMember]: LspSymbolKind.EnumMember,
+	[SymbolKind.Field]: LspSymbolKind.Field,
+	[SymbolKind.Function]: LspSymbolKind.Function,
+	[SymbolKind.Implementation]: LspSymbolKind.Class,
+	[SymbolKind.Interface]: LspSymbolKind.Interface,
+	[SymbolKind.Macro]: LspSymbolKind.Function,
+	[SymbolKind.Method]: LspSymbolKind.Method,
+	[SymbolKind.Module]: LspSymbolKind.Module,
+	[SymbolKind.Struct]: LspSymbolKind.Struct,
+	[SymbolKind.Trait]: LspSymbolKind.Interface,
+	[SymbolKind.Type]: LspSymbolKind.Class,
+	[SymbolKind.Union]: LspSymbolKind.Struct,
+	[SymbolKind.Variable]: LspSymbolKind.Variable,
+	[SymbolKind.Reference]: LspSymbolKind.Variable,
+	[SymbolKind.Import]: LspSymbolKind.Module,
+	[SymbolKind.Wildcard]: LspSymbolKind.Module,
+	[SymbolKind.Alias]: LspSymbolKind.Variable,
+};
+
+interface IndexedFile {
+	filePath: string;
+	language: LanguageIdentifier;
+	content: string;
+	/** declarations of the symbol query of the language */
+	symbols: CodeSymbol[];
+	/** package and imports by the structurer of the language, undefined for languages without one */
+	codeFile?: CodeFile;
+	/** parsed on the first definition or references request of the file */
+	scope?: { file: TreeSitterFile; graph: ScopeGraph };
+}
+
+function rangeOf(start: { row: number; column: number }, end: { row: number; column: number }): Range {
+	return Range.create(start.row, start.column, end.row, end.column);
+}
+
+function rangeOfText(range: TextRange): Range {
+	return Range.create(range.start.line, range.start.column, range.end.line, range.end.column);
+}
+
+function locationOf(filePath: string, range: Range): Location {
+	return Location.create(pathToFileURL(filePath).toString(), range);
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Answers the navigation requests of an editor for the files of a workspace, by the tree-sitter queries of the
+ * languages:
+ *
+ * - document and workspace symbols are the declarations of `SymbolExtractor`, the workspace symbols have the package
+ *   of the structurer as container
+ * - a definition or references request is resolved by the `ScopeGraph` of the file first, names that are not defined
+ *   in the file, like imported classes, are looked up among the workspace symbols by their name, the ones of imported
+ *   or same-package files preferred
+ *
+ * Cross-file references are matched by name, every identifier with the name of a workspace symbol that does not
+ * resolve to a local definition of its file is a reference, so same-named symbols of different files are not told
+ * apart.
+ */
+export class ContextNavigator {
+	private readonly files = new Map<string, IndexedFile>();
+
+	constructor(
+		private readonly languageService: ILanguageServiceProvider,
+		private readonly structurerOf: (lang: LanguageIdentifier) => StructurerProvider | undefined =
+			lang => StructurerProviderManager.getInstance().getStructurer(lang)
+	) {}
+
+	isSupported(filePath: string): boolean {
+		const language = inferLanguage(filePath);
+		return !!language && !!LanguageProfileUtil.from(language);
+	}
+
+	/**
+	 * Index or re-index a file with the content of the editor or of the disk
+	 */
+	async update(filePath: string, content: string): Promise<void> {
+		if (!this.isSupported(filePath)) {
+			return;
+		}
+
+		const language = inferLanguage(filePath);
+		this.remove(filePath);
+
+		const symbols = await new SymbolExtractor(language, this.languageService).executeQuery(filePath, content);
+		const indexed: IndexedFile = {
+			filePath,
+			language,
+			content,
+			symbols: symbols.filter(symbol => symbol.name.length > 0 && !NON_DECLARATIONS.includes(symbol.kind)),
+		};
+
+		const structurer = this.structurerOf(language);
+		if (structurer) {
+			try {
+				await structurer.init(this.languageService);
+				indexed.codeFile = await structurer.parseFile(content, filePath);
+			} catch (error) {
+				console.warn(`无法解析 ${filePath} 的结构:`, error);
+			}
+		}
+
+		this.files.set(filePath, indexed);
+	}
+
+	remove(filePath: string) {
+		this.files.get(filePath)?.scope?.file.tree.delete();
+		this.files.delete(filePath);
+	}
+
+	indexedFiles(): string[] {
+		return Array.from(this.files.keys());
+	}
+
+	documentSymbols(filePath: string): DocumentSymbol[] {
+		const roots: DocumentSymbol[] = [];
+		const stack: { symbol: CodeSymbol; item: DocumentSymbol }[] = [];
+
+		for (const symbol of this.files.get(filePath)?.symbols ?? []) {
+			while (stack.length > 0 && !SymbolExtractor.rangeContains(stack[stack.length - 1].symbol.extentRange, symbol.extentRange)) {
+				stack.pop();
+			}
+
+			const item = DocumentSymbol.create(
+				symbol.name,
+				undefined,
+				LSP_KINDS[symbol.kind],
+				rangeOf(symbol.extentRange.startPosition, symbol.extentRange.endPosition),
+				rangeOf(symbol.nameRange.startPosition, symbol.nameRange.endPosition),
+				[]
+			);
+
+			const parent = stack[stack.length - 1];
+			(parent ? parent.item.children! : roots).push(item);
+			stack.push({ symbol, item });
+		}
+
+		return roots;
+	}
+
+	/**
+	 * Symbols of the workspace whose name contains the query, ignoring case
+	 */
+	workspaceSymbols(query: string): SymbolInformation[] {
+		const needle = query.toLowerCase();
+		const result: SymbolInformation[] = [];
+
+		for (const file of this.files.values()) {
+			for (const symbol of file.symbols.filter(symbol => symbol.name.toLowerCase().includes(needle))) {
+				if (result.length >= MAX_WORKSPACE_SYMBOLS) {
+					return result;
+				}
+
+				const qualifier = symbol.qualifiedName.substring(0, symbol.qualifiedName.lastIndexOf('.'));
+				const container = [file.codeFile?.package, qualifier].filter(name => name && name.length > 0).join('.');
+				result.push(SymbolInformation.create(
+					symbol.name,
+					LSP_KINDS[symbol.kind],
+					rangeOf(symbol.nameRange.startPosition, symbol.nameRange.endPosition),
+					pathToFileURL(file.filePath).toString(),
+					container || undefined
+				));
+			}
+		}
+
+		return result;
+	}
+
+	async definition(filePath: string, position: Position): Promise<Location[]> {
+		const file = this.files.get(filePath);
+		const scope = file ? await this.scopeOf(file) : undefined;
+		const identifier = scope ? this.identifierAt(scope.file.tree, position) : undefined;
+		if (!file || !scope || !identifier) {
+			return [];
+		}
+
+		const local = this.localDefinitionAt(scope.graph, position);
+		if (local) {
+			return [locationOf(filePath, rangeOfText(local.def.range))];
+		}
+
+		return this.workspaceDefinitions(identifier.text, file);
+	}
+
+	async references(filePath: string, position: Position, includeDeclaration: boolean): Promise<Location[]> {
+		const file = this.files.get(filePath);
+		const scope = file ? await this.scopeOf(file) : undefined;
+		const identifier = scope ? this.identifierAt(scope.file.tree, position) : undefined;
+		if (!file || !scope || !identifier) {
+			return [];
+		}
+
+		const local = this.localDefinitionAt(scope.graph, position);
+		if (local && !this.declarationAt(file, local.def.range.start.byte)) {
+			const references = scope.graph.references(local.index)
+				.map(edge => scope.graph.getNode(scope.graph.graph.source(edge)).range)
+				.map(range => locationOf(filePath, rangeOfText(range)));
+
+			return includeDeclaration ? [locationOf(filePath, rangeOfText(local.def.range)), ...references] : references;
+		}
+
+		const locations: Location[] = [];
+		for (const other of this.files.values()) {
+			locations.push(...await this.occurrencesOf(identifier.text, other, includeDeclaration));
+		}
+
+		return locations;
+	}
+
+	private async scopeOf(file: IndexedFile): Promise<{ file: TreeSitterFile; graph: ScopeGraph } | undefined> {
+		if (!file.scope) {
+			try {
+				// not `TreeSitterFile.scopeGraph`, its cache would keep every version of the file
+				const parser = await this.languageService.getParser(file.language);
+				const treeSitterFile = await TreeSitterFile.fromParser(parser!, this.languageService, file.language, file.content, file.filePath);
+				const query = treeSitterFile.languageProfile.scopeQuery.query(treeSitterFile.tsLanguage);
+				const graph = await new ScopeBuilder(query, treeSitterFile.tree.rootNode, file.content, treeSitterFile.languageProfile).build();
+				file.scope = { file: treeSitterFile, graph };
+			} catch (error) {
+				console.warn(`无法构建 ${file.filePath} 的作用域图:`, error);
+				return undefined;
+			}
+		}
+
+		return file.scope;
+	}
+
+	private identifierAt(tree: Tree, position: Position): SyntaxNode | undefined {
+		const point = { row: position.line, column: position.character };
+		const node = tree.rootNode.descendantForPosition(point);
+		return node.childCount === 0 && IDENTIFIER_TYPE.test(node.type) ? node : undefined;
+	}
+
+	/**
+	 * The definition of the file under the position, itself for a definition and the resolved one for a reference
+	 */
+	private localDefinitionAt(graph: ScopeGraph, position: Position): { index: NodeIndex; def: LocalDef } | undefined {
+		const index = graph.nodeByPosition(position.line, position.character);
+		if (index === undefined) {
+			return undefined;
+		}
+
+		const node = graph.getNode(index);
+		if (node instanceof LocalDef) {
+			return { index, def: node };
+		}
+
+		const edge = node instanceof Reference ? graph.definitions(index)[0] : undefined;
+		if (edge === undefined) {
+			return undefined;
+		}
+
+		const target = graph.graph.target(edge);
+		return { index: target, def: graph.getNode(target) as LocalDef };
+	}
+
+	private declarationAt(file: IndexedFile, offset: number): CodeSymbol | undefined {
+		return file.symbols.find(symbol => symbol.nameRange.startIndex === offset);
+	}
+
+	private workspaceDefinitions(name: string, from: IndexedFile): Location[] {
+		const candidates = Array.from(this.files.values())
+			.filter(file => file !== from)
+			.flatMap(file => file.symbols.filter(symbol => symbol.name === name).map(symbol => ({ file, symbol })));
+
+		const imported = candidates.filter(({ file }) => this.isVisibleFrom(file, name, from));
+		return (imported.length > 0 ? imported : candidates).map(({ file, symbol }) =>
+			locationOf(file.filePath, rangeOf(symbol.nameRange.startPosition, symbol.nameRange.endPosition)));
+	}
+
+	/**
+	 * A file is visible when it has the package of the importing file, or an import names its package, like
+	 * `com.example.Order`, or its module path, like `./order`
+	 */
+	private isVisibleFrom(file: IndexedFile, name: string, from: IndexedFile): boolean {
+		const pkg = file.codeFile?.package;
+		if (pkg && pkg === from.codeFile?.package) {
+			return true;
+		}
+
+		const moduleName = path.basename(file.filePath, path.extname(file.filePath));
+		return (from.codeFile?.imports ?? []).some(item => (pkg && item.includes(`${pkg}.${name}`))
+			|| new RegExp(`[\\/.'"]${escapeRegExp(moduleName)}\\b`).test(item));
+	}
+
+	/**
+	 * Identifiers of a file with the name that do not resolve to a local definition of the file
+	 */
+	private async occurrencesOf(name: string, file: IndexedFile, includeDeclaration: boolean): Promise<Location[]> {
+		const matches = Array.from(file.content.matchAll(new RegExp(`\\b${escapeRegExp(name)}\\b`, 'g')));
+		const scope = matches.length > 0 ? await this.scopeOf(file) : undefined;
+		if (!scope) {
+			return [];
+		}
+
+		const locations: Location[] = [];
+		for (const match of matches) {
+			const node = scope.file.tree.rootNode.descendantForIndex(match.index!, match.index! + name.length);
+			if (node.text !== name || !IDENTIFIER_TYPE.test(node.type)) {
+				continue;
+			}
+
+			const declaration = this.declarationAt(file, node.startIndex);
+			if (declaration && !includeDeclaration) {
+				continue;
+			}
+
+			const position = Position.create(node.startPosition.row, node.startPosition.column);
+			const local = declaration ? undefined : this.localDefinitionAt(scope.graph, position);
+			if (local && !this.declarationAt(file, local.def.range.start.byte)) {
+				continue;
+			}
+
+			locations.push(locationOf(file.filePath, rangeOf(node.startPosition, node.endPosition)));
+		}
+
+		return locations;
+	}
+}
@@ -1,6 +1,9 @@
+import { isMainThread } from "worker_threads";
+
 import { AppConfig } from "./types/AppConfig";
 import { CommandLineParser, UserInputHandler } from "./cli/cli";
 import { InterfaceAnalyzerApp } from "./analyzer/InterfaceAnalyzerApp";
+import { startLanguageServer } from "./lsp/ContextLanguageServer";
 
 async function run(options?: Partial<AppConfig>): Promise<void> {
 	const commandLineParser = new CommandLineParser();
@@ -13,6 +16,16 @@ async function run(options?: Partial<AppConfig>): Promise<void> {
 	};
 
 	let config = initialConfig;
+	if (config.lsp) {
+		startLanguageServer(config.dirPath, config.allowPlugins);
+		return;
+	}
+
+	if (config.relevantCode) {
+		await new InterfaceAnalyzerApp(config).handleRelevantCodeContext(config.relevantCode);
+		return;
+	}
+
 	const isDefaultPath = cmdConfig.dirPath === process.cwd();
 	const shouldPrompt = !config.nonInteractive && (isDefaultPath && !options?.dirPath);
 
@@ -41,15 +54,26 @@ async function run(options?: Partial<AppConfig>): Promise<void> {
 		await app.handleSymbolContext();
 	}
 
-	if (!config.analysisTypes.interface && !config.analysisTypes.api && !config.analysisTypes.symbol) {
+	if (config.analysisTypes.dependency) {
+		console.log('正在运行依赖清单分析...');
+		await app.handleDependencyContext();
+	}
+
+	if (!config.analysisTypes.interface && !config.analysisTypes.api && !config.analysisTypes.symbol && !config.analysisTypes.dependency) {
 		console.log('没有选择任何分析类型，默认运行所有分析...');
 		await app.handleInterfaceContext();
 		await app.handleHttpApiContext();
 		await app.handleSymbolContext();
+		await app.handleDependencyContext();
+	}
+
+	if (config.watch) {
+		await app.watch();
 	}
 }
 
-if (require.main === module) {
+// worker threads of the parse pool load this bundle too, they must not run the CLI
+if (require.main === module && isMainThread) {
 	run().catch(err => console.error("错误:", err));
 } else {
 	module.exports = { main: run };
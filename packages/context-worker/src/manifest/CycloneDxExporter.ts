@@ -0,0 +1,166 @@
+import { randomUUID } from "crypto";
+
+import { DeclaredDependency, DependencyScope, ManifestAnalysisResult, ManifestModule } from "../analyzer/CodeAnalysisResult";
+import { isApplicationFramework } from "./FrameworkDetector";
+
+export interface CycloneDxComponent {
+	'bom-ref': string;
+	type: 'application' | 'library';
+	name: string;
+	group?: string;
+	version?: string;
+	description?: string;
+	purl?: string;
+	scope?: 'required' | 'optional' | 'excluded';
+	properties?: Array<{ name: string, value: string }>;
+}
+
+export interface CycloneDxBom {
+	bomFormat: 'CycloneDX';
+	specVersion: string;
+	serialNumber: string;
+	version: number;
+	metadata: {
+		timestamp: string;
+		tools: { components: Array<{ type: 'application', name: string }> };
+		component?: CycloneDxComponent;
+	};
+	components: CycloneDxComponent[];
+	dependencies: Array<{ ref: string, dependsOn: string[] }>;
+}
+
+export interface CycloneDxOptions {
+	// fixed values for reproducible output, a random serial number and the current time by default
+	serialNumber?: string;
+	timestamp?: string;
+}
+
+// versions of a single release, not ranges like `^1.2.0`, `>=2.0` or unresolved `${spring.version}`
+const EXACT_VERSION = /^v?\d+(\.\d+)*([-+.][\w.+-]*)?$/;
+
+/**
+ * Export the modules and declared dependencies of a workspace as a CycloneDX 1.5 JSON SBOM. The root module is the
+ * subject of the BOM, the other modules and the external dependencies are its components, and the dependency graph
+ * has the direct dependencies of every module. Transitive dependencies are not resolved.
+ */
+export class CycloneDxExporter {
+	export(result: ManifestAnalysisResult, options: CycloneDxOptions = {}): CycloneDxBom {
+		const components = new Map<string, CycloneDxComponent>();
+		const dependencies: CycloneDxBom['dependencies'] = [];
+
+		const moduleRefs = new Map(result.modules.map(module => [module.id, this.moduleComponentOf(module)]));
+		const root = result.modules.find(module => module.path === '.');
+
+		for (const module of result.modules) {
+			const dependsOn = new Set<string>();
+			for (const edge of result.moduleGraph.filter(edge => edge.from === module.id)) {
+				dependsOn.add(moduleRefs.get(edge.to)!['bom-ref']);
+			}
+
+			for (const dependency of module.dependencies) {
+				if (dependency.module || dependency.localPath) {
+					continue;
+				}
+
+				const component = this.componentOf(dependency, module);
+				if (!components.has(component['bom-ref'])) {
+					components.set(component['bom-ref'], component);
+				}
+				dependsOn.add(component['bom-ref']);
+			}
+
+			dependencies.push({ ref: moduleRefs.get(module.id)!['bom-ref'], dependsOn: Array.from(dependsOn) });
+		}
+
+		const modules = result.modules.filter(module => module !== root).map(module => moduleRefs.get(module.id)!);
+		return {
+			bomFormat: 'CycloneDX',
+			specVersion: '1.5',
+			serialNumber: options.serialNumber ?? `urn:uuid:${randomUUID()}`,
+			version: 1,
+			metadata: {
+				timestamp: options.timestamp ?? new Date().toISOString(),
+				tools: { components: [{ type: 'application', name: 'context-worker' }] },
+				component: root ? moduleRefs.get(root.id) : undefined,
+			},
+			components: [...modules, ...components.values()],
+			dependencies,
+		};
+	}
+
+	private moduleComponentOf(module: ManifestModule): CycloneDxComponent {
+		const fullName = module.group && module.ecosystem === 'maven' ? `${module.group}:${module.name}` : module.name;
+		const [group, name] = this.splitName(fullName, module.ecosystem);
+		return {
+			'bom-ref': `module:${module.id}`,
+			type: module.frameworks.some(isApplicationFramework) ? 'application' : 'library',
+			name,
+			group,
+			version: module.version,
+			description: module.description,
+			purl: module.ecosystem !== 'maven' || module.group ? this.purlOf(module.ecosystem, fullName, module.version) : undefined,
+			properties: [
+				{ name: 'autodev:path', value: module.path },
+				...module.manifests.map(manifest => ({ name: 'autodev:manifest', value: manifest })),
+			],
+		};
+	}
+
+	private componentOf(dependency: DeclaredDependency, module: ManifestModule): CycloneDxComponent {
+		const [group, name] = this.splitName(dependency.name, dependency.ecosystem);
+		const purl = this.purlOf(dependency.ecosystem, dependency.name, dependency.version);
+		const exact = dependency.version !== undefined && EXACT_VERSION.test(dependency.version);
+
+		return {
+			'bom-ref': exact ? purl : `${purl}@${dependency.version ?? 'unspecified'}`,
+			type: 'library',
+			name,
+			group,
+			version: dependency.version,
+			purl,
+			scope: this.scopeOf(dependency.scope),
+			properties: [
+				{ name: 'autodev:scope', value: dependency.scope },
+				{ name: 'autodev:module', value: module.id },
+			],
+		};
+	}
+
+	private splitName(fullName: string, ecosystem: string): [string | undefined, string] {
+		if (ecosystem === 'maven') {
+			const [group, name] = fullName.split(':');
+			return [group, name ?? group];
+		}
+
+		if (ecosystem === 'npm' && fullName.startsWith('@')) {
+			const [scope, name] = fullName.split('/');
+			return [scope, name];
+		}
+
+		return [undefined, fullName];
+	}
+
+	/**
+	 * Package URL of a dependency, the version is only part of it when it is exact
+	 */
+	private purlOf(ecosystem: string, fullName: string, version?: string): string {
+		const name = ecosystem === 'maven'
+			? fullName.split(':').map(encodeURIComponent).join('/')
+			: fullName.split('/').map(encodeURIComponent).join('/');
+		const exact = version !== undefined && EXACT_VERSION.test(version);
+		return `pkg:${ecosystem}/${name}${exact ? `@${encodeURIComponent(version)}` : ''}`;
+	}
+
+	private scopeOf(scope: DependencyScope): CycloneDxComponent['scope'] {
+		switch (scope) {
+			case 'compile':
+			case 'runtime':
+			case 'provided':
+				return 'required';
+			case 'optional':
+				return 'optional';
+			default:
+				return 'excluded';
+		}
+	}
+}
@@ -0,0 +1,103 @@
+import { DeclaredDependency } from "../analyzer/CodeAnalysisResult";
+
+interface FrameworkRule {
+	id: string;
+	// matched against `ecosystem:name` of a dependency
+	pattern: RegExp;
+	// an application framework, the others are libraries like ORMs and test frameworks
+	application?: boolean;
+}
+
+/**
+ * Framework ids follow the values of the golden path, so a detected project can be fed to the backend-generator
+ */
+const FRAMEWORK_RULES: FrameworkRule[] = [
+	{ id: 'spring', pattern: /^maven:org\.springframework\.boot:/, application: true },
+	{ id: 'quarkus', pattern: /^maven:io\.quarkus(\.platform)?:/, application: true },
+	{ id: 'micronaut', pattern: /^maven:io\.micronaut(\.\w+)*:/, application: true },
+	{ id: 'ktor', pattern: /^maven:io\.ktor:ktor-server/, application: true },
+	{ id: 'nestjs', pattern: /^npm:@nestjs\/core$/, application: true },
+	{ id: 'next', pattern: /^npm:next$/, application: true },
+	{ id: 'express', pattern: /^npm:express$/, application: true },
+	{ id: 'fastify', pattern: /^npm:fastify$/, application: true },
+	{ id: 'koa', pattern: /^npm:koa$/, application: true },
+	{ id: 'fastapi', pattern: /^pypi:fastapi$/, application: true },
+	{ id: 'django', pattern: /^pypi:django$/, application: true },
+	{ id: 'flask', pattern: /^pypi:flask$/, application: true },
+	{ id: 'gin', pattern: /^golang:github\.com\/gin-gonic\/gin$/, application: true },
+	{ id: 'echo', pattern: /^golang:github\.com\/labstack\/echo(\/v\d+)?$/, application: true },
+	{ id: 'fiber', pattern: /^golang:github\.com\/gofiber\/fiber(\/v\d+)?$/, application: true },
+	{ id: 'actix-web', pattern: /^cargo:actix-web$/, application: true },
+	{ id: 'axum', pattern: /^cargo:axum$/, application: true },
+	{ id: 'rocket', pattern: /^cargo:rocket$/, application: true },
+	{ id: 'react', pattern: /^npm:react$/ },
+	{ id: 'vue', pattern: /^npm:vue$/ },
+	{ id: 'angular', pattern: /^npm:@angular\/core$/ },
+	{ id: 'hibernate', pattern: /^maven:org\.hibernate(\.orm)?:hibernate-core$|^maven:org\.springframework\.boot:spring-boot-starter-data-jpa$/ },
+	{ id: 'mybatis', pattern: /^maven:(org\.mybatis|com\.baomidou)[\w.]*:/ },
+	{ id: 'prisma', pattern: /^npm:@prisma\/client$/ },
+	{ id: 'typeorm', pattern: /^npm:typeorm$/ },
+	{ id: 'sqlalchemy', pattern: /^pypi:sqlalchemy$/ },
+	{ id: 'gorm', pattern: /^golang:gorm\.io\/gorm$/ },
+	{ id: 'diesel', pattern: /^cargo:diesel$/ },
+	{ id: 'junit', pattern: /^maven:(junit:junit|org\.junit[\w.]*:)/ },
+	{ id: 'kotest', pattern: /^maven:io\.kotest:/ },
+	{ id: 'jest', pattern: /^npm:jest$/ },
+	{ id: 'vitest', pattern: /^npm:vitest$/ },
+	{ id: 'pytest', pattern: /^pypi:pytest$/ },
+];
+
+/**
+ * Golden path feature ids by the dependencies which provide them
+ */
+const FEATURE_RULES: Array<[string, RegExp]> = [
+	['auth', /spring-boot-starter-security|spring-security|oauth|jwt|jsonwebtoken|passport|authlib|django-allauth/],
+	['database', /data-jpa|jdbc|hibernate|mybatis|prisma|typeorm|sequelize|sqlalchemy|psycopg|mysql|postgres|gorm|diesel|sqlx|flyway|liquibase/],
+	['nosql', /mongo|redis|cassandra|elasticsearch|dynamodb|couchbase/],
+	['api-docs', /springdoc|swagger|openapi/],
+	['validation', /validation|class-validator|joi|zod|yup|pydantic|marshmallow|go-playground\/validator/],
+	['cache', /cache|caffeine|ehcache|redis/],
+	['messaging', /kafka|amqp|rabbitmq|rocketmq|pulsar|nats|celery/],
+	['service-discovery', /eureka|consul|nacos-discovery|zookeeper-discovery/],
+	['config-server', /spring-cloud-config|nacos-config|apollo-client/],
+	['api-gateway', /spring-cloud-starter-gateway|zuul/],
+	['distributed-tracing', /opentelemetry|zipkin|sleuth|jaeger|micrometer-tracing|skywalking/],
+	['testing', /junit|kotest|mockito|testcontainers|jest|vitest|mocha|pytest|testify|cypress|playwright/],
+	['logging', /logback|log4j|slf4j|winston|pino|loguru|zap$|logrus|tracing-subscriber/],
+	['monitoring', /actuator|micrometer|prometheus|sentry/],
+];
+
+/**
+ * Framework ids of the dependencies of a module, Spring Boot is `spring3` or `spring2` by its major version
+ */
+export function frameworksOf(dependencies: DeclaredDependency[]): string[] {
+	const frameworks = new Set<string>();
+	for (const dependency of dependencies) {
+		const key = `${dependency.ecosystem}:${dependency.name}`;
+		for (const rule of FRAMEWORK_RULES.filter(candidate => candidate.pattern.test(key))) {
+			if (rule.id === 'spring') {
+				frameworks.add(/^2\./.test(dependency.version ?? '') ? 'spring2' : 'spring3');
+			} else {
+				frameworks.add(rule.id);
+			}
+		}
+	}
+
+	// Spring Boot declares both versions only when a module mixes an old parent with a newer plugin
+	if (frameworks.has('spring2') && frameworks.has('spring3')) {
+		frameworks.delete('spring2');
+	}
+
+	return Array.from(frameworks);
+}
+
+export function isApplicationFramework(framework: string): boolean {
+	return framework === 'spring2' || framework === 'spring3'
+		|| FRAMEWORK_RULES.some(rule => rule.application && rule.id === framework);
+}
+
+export function featuresOf(dependencies: DeclaredDependency[]): string[] {
+	return FEATURE_RULES
+		.filter(([, pattern]) => dependencies.some(dependency => pattern.test(dependency.name.toLowerCase())))
+		.map(([feature]) => feature);
+}
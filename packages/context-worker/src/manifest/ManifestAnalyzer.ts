@@ -0,0 +1,184 @@
+import fs from "fs";
+import path from "path";
+
+import {
+	DeclaredDependency,
+	DependencyScope,
+	ManifestAnalysisResult,
+	ManifestModule,
+	ProjectMetadata
+} from "../analyzer/CodeAnalysisResult";
+import { FileSystemScanner } from "../analyzer/FileSystemScanner";
+import { manifestParserOf, normalizePythonName, ParsedManifest } from "./ManifestParsers";
+import { featuresOf, frameworksOf, isApplicationFramework } from "./FrameworkDetector";
+
+// scopes of the dependencies which ship with a module, the dependencies of a golden path project
+const SHIPPED_SCOPES: DependencyScope[] = ['compile', 'runtime', 'provided'];
+
+export async function scanManifestFiles(dirPath: string): Promise<string[]> {
+	const files = await new FileSystemScanner().scanDirectory(dirPath);
+	return files.filter(file => manifestParserOf(path.basename(file)) !== undefined);
+}
+
+/**
+ * Read the build manifests of a workspace into modules with their declared dependencies. Manifests of the same
+ * ecosystem in one directory, like `pyproject.toml` and `requirements-dev.txt`, are one module.
+ *
+ * Dependencies on other modules of the workspace, by path or by name, are the module graph, the others are the
+ * external dependencies of the SBOM.
+ */
+export class ManifestAnalyzer {
+	private readonly workspacePath: string;
+
+	constructor(workspacePath: string) {
+		this.workspacePath = path.resolve(workspacePath);
+	}
+
+	public analyze(manifestFiles: string[]): ManifestAnalysisResult {
+		const modules = new Map<string, ManifestModule>();
+
+		for (const file of manifestFiles) {
+			const parsed = this.parseManifest(file);
+			if (!parsed) {
+				continue;
+			}
+
+			const relativeDir = this.relativePath(path.dirname(file)) || '.';
+			const id = `${parsed.ecosystem}:${relativeDir}`;
+			const existing = modules.get(id);
+			if (existing) {
+				existing.group = existing.group ?? parsed.group;
+				existing.version = existing.version ?? parsed.version;
+				existing.description = existing.description ?? parsed.description;
+				existing.manifests.push(this.relativePath(file));
+				existing.dependencies.push(...parsed.dependencies);
+			} else {
+				modules.set(id, {
+					id,
+					name: parsed.name || path.basename(relativeDir === '.' ? this.workspacePath : relativeDir),
+					group: parsed.group,
+					version: parsed.version,
+					description: parsed.description,
+					path: relativeDir,
+					manifests: [this.relativePath(file)],
+					ecosystem: parsed.ecosystem,
+					language: parsed.language,
+					dependencies: [...parsed.dependencies],
+					frameworks: [],
+				});
+			}
+		}
+
+		const sorted = Array.from(modules.values()).sort((a, b) => a.id.localeCompare(b.id));
+		sorted.forEach(module => module.frameworks = frameworksOf(module.dependencies));
+
+		const moduleGraph: ManifestAnalysisResult['moduleGraph'] = [];
+		const external: DeclaredDependency[] = [];
+		for (const module of sorted) {
+			for (const dependency of module.dependencies) {
+				const target = this.moduleOf(dependency, sorted);
+				if (!target) {
+					external.push(dependency);
+					continue;
+				}
+
+				dependency.module = target.id;
+				if (target !== module && !moduleGraph.some(edge => edge.from === module.id && edge.to === target.id)) {
+					moduleGraph.push({ from: module.id, to: target.id, scope: dependency.scope });
+				}
+			}
+		}
+
+		const frameworks = Array.from(new Set(sorted.flatMap(module => module.frameworks)));
+		return {
+			modules: sorted,
+			moduleGraph,
+			frameworks,
+			metadata: this.metadataOf(sorted, external),
+			stats: {
+				totalModules: sorted.length,
+				totalDependencies: sorted.reduce((sum, module) => sum + module.dependencies.length, 0),
+				externalDependencies: new Set(external.map(dependency => `${dependency.ecosystem}:${dependency.name}`)).size,
+				ecosystems: Array.from(new Set(sorted.map(module => module.ecosystem))),
+			}
+		};
+	}
+
+	/**
+	 * The workspace module a dependency resolves to, by its path or by its name, undefined for external dependencies
+	 */
+	private moduleOf(dependency: DeclaredDependency, modules: ManifestModule[]): ManifestModule | undefined {
+		if (dependency.localPath) {
+			return modules.find(module => module.path === dependency.localPath && module.ecosystem === dependency.ecosystem)
+				?? modules.find(module => module.path === dependency.localPath);
+		}
+
+		return modules.find(module => {
+			if (module.ecosystem !== dependency.ecosystem) {
+				return false;
+			}
+
+			switch (module.ecosystem) {
+				case 'maven':
+					return module.group ? dependency.name === `${module.group}:${module.name}` : dependency.name.endsWith(`:${module.name}`);
+				case 'pypi':
+					return normalizePythonName(module.name) === dependency.name;
+				default:
+					return module.name === dependency.name;
+			}
+		});
+	}
+
+	/**
+	 * Project metadata in the shape of a golden path project: a workspace with more than one application module is a
+	 * microservice project, with one a monolith and without any a library
+	 */
+	private metadataOf(modules: ManifestModule[], external: DeclaredDependency[]): ProjectMetadata {
+		const root = modules.find(module => module.path === '.');
+		const applications = modules.filter(module => module.frameworks.some(isApplicationFramework));
+		const primary = applications.find(module => module.path === '.') ?? applications[0] ?? root ?? modules[0];
+
+		const dependencies: Record<string, string> = {};
+		for (const dependency of external) {
+			if (SHIPPED_SCOPES.includes(dependency.scope) && !(dependency.name in dependencies)) {
+				dependencies[dependency.name] = dependency.version ?? '*';
+			}
+		}
+
+		return {
+			projectConfig: {
+				name: root?.name ?? path.basename(this.workspacePath),
+				description: root?.description ?? primary?.description ?? '',
+				type: applications.length > 1 ? 'microservice' : applications.length === 1 ? 'monolith' : 'library',
+				language: primary?.language ?? '',
+				framework: primary?.frameworks.find(isApplicationFramework) ?? '',
+			},
+			features: featuresOf(external),
+			structure: {
+				directories: Array.from(new Set(modules.map(module => module.path))).sort(),
+				files: modules.flatMap(module => module.manifests).sort(),
+			},
+			dependencies,
+			configurations: {},
+		};
+	}
+
+	private parseManifest(file: string): ParsedManifest | undefined {
+		const parser = manifestParserOf(path.basename(file));
+		if (!parser) {
+			return undefined;
+		}
+
+		try {
+			const content = fs.readFileSync(file, 'utf-8');
+			return parser.parse(content, { workspacePath: this.workspacePath, file, dir: path.dirname(file) });
+		} catch (error) {
+			console.warn(`无法解析依赖清单 ${file}:`, error);
+			return undefined;
+		}
+	}
+
+	private relativePath(filePath: string): string {
+		return path.relative(this.workspacePath, filePath).split(path.sep).join('/');
+	}
+}
@@ -0,0 +1,585 @@
+import fs from "fs";
+import path from "path";
+import * as cheerio from "cheerio";
+
+import { DeclaredDependency, DependencyEcosystem, DependencyScope } from "../analyzer/CodeAnalysisResult";
+import { TomlParser, TomlTable, TomlValue } from "./TomlParser";
+
+export interface ParsedManifest {
+	ecosystem: DependencyEcosystem;
+	name?: string;
+	// Maven group id, Gradle `group`
+	group?: string;
+	version?: string;
+	description?: string;
+	language: string;
+	dependencies: DeclaredDependency[];
+}
+
+export interface ManifestContext {
+	workspacePath: string;
+	// absolute path and directory of the manifest
+	file: string;
+	dir: string;
+}
+
+export interface ManifestParser {
+	ecosystem: DependencyEcosystem;
+	matches(fileName: string): boolean;
+	parse(content: string, context: ManifestContext): ParsedManifest;
+}
+
+/**
+ * Workspace relative path with `/` separators of a path relative to the manifest directory
+ */
+function localPathOf(context: ManifestContext, relative: string): string {
+	const absolute = path.resolve(context.dir, relative);
+	return path.relative(context.workspacePath, absolute).split(path.sep).join('/') || '.';
+}
+
+/**
+ * Maven `pom.xml`, `${...}` versions are resolved from the properties of the pom and versions missing in the
+ * dependencies from its `dependencyManagement`
+ */
+export class MavenPomParser implements ManifestParser {
+	ecosystem: DependencyEcosystem = 'maven';
+
+	matches(fileName: string): boolean {
+		return fileName === 'pom.xml';
+	}
+
+	parse(content: string, context: ManifestContext): ParsedManifest {
+		const $ = cheerio.load(content, { xml: true });
+		const project = $('project').first();
+		const text = (element: ReturnType<typeof project.children>, name: string) =>
+			element.children(name).first().text().trim() || undefined;
+
+		const parent = project.children('parent').first();
+		const group = text(project, 'groupId') ?? text(parent, 'groupId');
+		const version = text(project, 'version') ?? text(parent, 'version');
+
+		const properties: Record<string, string> = {};
+		project.children('properties').children().each((_, element) => {
+			properties[element.tagName] = $(element).text().trim();
+		});
+		Object.assign(properties, { 'project.groupId': group ?? '', 'project.version': version ?? '' });
+		const resolve = (value?: string) => value?.replace(/\$\{([^}]+)}/g, (match, key) => properties[key] ?? match);
+
+		const dependencyOf = (element: ReturnType<typeof project.children>) => ({
+			name: `${resolve(text(element, 'groupId'))}:${resolve(text(element, 'artifactId'))}`,
+			version: resolve(text(element, 'version')),
+			scope: text(element, 'scope'),
+			optional: text(element, 'optional') === 'true',
+		});
+
+		const managed = new Map<string, string | undefined>();
+		project.children('dependencyManagement').children('dependencies').children('dependency').each((_, element) => {
+			const dependency = dependencyOf($(element));
+			managed.set(dependency.name, dependency.version);
+		});
+
+		const dependencies: DeclaredDependency[] = [];
+		if (parent.length > 0) {
+			dependencies.push({
+				name: `${resolve(text(parent, 'groupId'))}:${resolve(text(parent, 'artifactId'))}`,
+				version: resolve(text(parent, 'version')),
+				scope: 'build',
+				ecosystem: 'maven',
+			});
+		}
+
+		project.children('dependencies').children('dependency').each((_, element) => {
+			const dependency = dependencyOf($(element));
+			dependencies.push({
+				name: dependency.name,
+				version: dependency.version ?? managed.get(dependency.name),
+				scope: dependency.optional ? 'optional' : this.scopeOf(dependency.scope),
+				ecosystem: 'maven',
+			});
+		});
+
+		const kotlin = dependencies.some(dependency => dependency.name.startsWith('org.jetbrains.kotlin:'))
+			|| content.includes('kotlin-maven-plugin');
+
+		return {
+			ecosystem: 'maven',
+			name: text(project, 'artifactId'),
+			group,
+			version,
+			description: text(project, 'description') ?? text(project, 'name'),
+			language: kotlin ? 'kotlin' : 'java',
+			dependencies,
+		};
+	}
+
+	private scopeOf(scope?: string): DependencyScope {
+		switch (scope) {
+			case 'test':
+				return 'test';
+			case 'runtime':
+				return 'runtime';
+			case 'provided':
+			case 'system':
+				return 'provided';
+			default:
+				return 'compile';
+		}
+	}
+}
+
+// `implementation 'g:a:v'`, `testImplementation("g:a:v")`, `api(project(":core"))`
+const GRADLE_DEPENDENCY = /^\s*(implementation|api|compile|compileOnly|compileOnlyApi|runtimeOnly|runtime|annotationProcessor|kapt|ksp|developmentOnly|testImplementation|testCompile|testCompileOnly|testRuntimeOnly|testFixturesImplementation)\b\s*\(?\s*(.*)$/;
+// `id 'org.springframework.boot' version '3.2.0'`, `kotlin("jvm") version "1.9.22"`
+const GRADLE_PLUGIN = /^\s*(?:id\s*\(?\s*['"]([\w.-]+)['"]\s*\)?|kotlin\s*\(\s*['"]([\w.-]+)['"]\s*\))\s*(?:version\s*\(?\s*['"]([^'"]+)['"])?/;
+
+/**
+ * Gradle `build.gradle` and `build.gradle.kts`, read line by line: plugins and the string, map and `project(...)`
+ * notations of the dependency configurations. Version catalogs like `libs.spring.web` are not resolved.
+ */
+export class GradleBuildParser implements ManifestParser {
+	ecosystem: DependencyEcosystem = 'maven';
+
+	matches(fileName: string): boolean {
+		return fileName === 'build.gradle' || fileName === 'build.gradle.kts';
+	}
+
+	parse(content: string, context: ManifestContext): ParsedManifest {
+		const dependencies: DeclaredDependency[] = [];
+		const settingsDir = this.settingsDirOf(context);
+		let inPlugins = false;
+
+		for (const line of content.split('\n')) {
+			if (/^\s*plugins\s*\{/.test(line)) {
+				inPlugins = true;
+				continue;
+			}
+
+			if (inPlugins) {
+				if (/^\s*}/.test(line)) {
+					inPlugins = false;
+					continue;
+				}
+
+				const plugin = GRADLE_PLUGIN.exec(line);
+				if (plugin) {
+					const id = plugin[1] ?? `org.jetbrains.kotlin.${plugin[2]}`;
+					dependencies.push({ name: `${id}:${id}.gradle.plugin`, version: plugin[3], scope: 'build', ecosystem: 'maven' });
+				}
+				continue;
+			}
+
+			const match = GRADLE_DEPENDENCY.exec(line);
+			if (!match || /\b(platform|enforcedPlatform)\s*\(/.test(match[2])) {
+				continue;
+			}
+
+			const dependency = this.dependencyOf(match[2], this.scopeOf(match[1]), context, settingsDir);
+			if (dependency) {
+				dependencies.push(dependency);
+			}
+		}
+
+		const settings = ['settings.gradle', 'settings.gradle.kts'].map(file => path.join(context.dir, file)).find(file => fs.existsSync(file));
+		const rootName = settings ? /rootProject\.name\s*=\s*['"]([^'"]+)['"]/.exec(fs.readFileSync(settings, 'utf-8'))?.[1] : undefined;
+
+		return {
+			ecosystem: 'maven',
+			name: rootName ?? path.basename(context.dir),
+			group: /^\s*group\s*=\s*['"]([^'"]+)['"]/m.exec(content)?.[1],
+			version: /^\s*version\s*=\s*['"]([^'"]+)['"]/m.exec(content)?.[1],
+			description: /^\s*description\s*=\s*['"]([^'"]+)['"]/m.exec(content)?.[1],
+			language: /kotlin\s*\(\s*['"]jvm['"]|org\.jetbrains\.kotlin/.test(content) ? 'kotlin' : 'java',
+			dependencies,
+		};
+	}
+
+	private dependencyOf(notation: string, scope: DependencyScope, context: ManifestContext, settingsDir: string): DeclaredDependency | undefined {
+		const project = /project\s*\(\s*(?:path\s*[:=]\s*)?['"]:?([^'"]*)['"]/.exec(notation);
+		if (project) {
+			return {
+				name: project[1].split(':').pop() || path.basename(settingsDir),
+				scope,
+				ecosystem: 'maven',
+				localPath: localPathOf({ ...context, dir: settingsDir }, project[1].split(':').join('/') || '.'),
+			};
+		}
+
+		const kotlin = /^kotlin\s*\(\s*['"]([\w-]+)['"]/.exec(notation);
+		if (kotlin) {
+			return { name: `org.jetbrains.kotlin:kotlin-${kotlin[1]}`, scope, ecosystem: 'maven' };
+		}
+
+		const coordinates = /['"]([^'":\s]+):([^'":\s]+)(?::([^'"\s@]+))?[^'"]*['"]/.exec(notation);
+		if (coordinates) {
+			return { name: `${coordinates[1]}:${coordinates[2]}`, version: coordinates[3], scope, ecosystem: 'maven' };
+		}
+
+		const group = /group\s*[:=]\s*['"]([^'"]+)['"]/.exec(notation)?.[1];
+		const name = /name\s*[:=]\s*['"]([^'"]+)['"]/.exec(notation)?.[1];
+		if (group && name) {
+			const version = /version\s*[:=]\s*['"]([^'"]+)['"]/.exec(notation)?.[1];
+			return { name: `${group}:${name}`, version, scope, ecosystem: 'maven' };
+		}
+
+		return undefined;
+	}
+
+	private scopeOf(configuration: string): DependencyScope {
+		if (configuration.startsWith('test')) {
+			return 'test';
+		}
+
+		switch (configuration) {
+			case 'compileOnly':
+			case 'compileOnlyApi':
+			case 'annotationProcessor':
+			case 'kapt':
+			case 'ksp':
+				return 'provided';
+			case 'runtimeOnly':
+			case 'runtime':
+				return 'runtime';
+			case 'developmentOnly':
+				return 'development';
+			default:
+				return 'compile';
+		}
+	}
+
+	/**
+	 * The root project directory which `project(':a:b')` paths are relative to
+	 */
+	private settingsDirOf(context: ManifestContext): string {
+		let current = context.dir;
+		while (current.startsWith(context.workspacePath)) {
+			if (['settings.gradle', 'settings.gradle.kts'].some(file => fs.existsSync(path.join(current, file)))) {
+				return current;
+			}
+
+			if (current === context.workspacePath) {
+				break;
+			}
+			current = path.dirname(current);
+		}
+
+		return context.workspacePath;
+	}
+}
+
+const NPM_DEPENDENCY_FIELDS: Array<[string, DependencyScope]> = [
+	['dependencies', 'runtime'],
+	['devDependencies', 'development'],
+	['peerDependencies', 'provided'],
+	['optionalDependencies', 'optional'],
+];
+
+/**
+ * npm `package.json`, `workspace:` versions are linked to the workspace package of the same name
+ */
+export class PackageJsonParser implements ManifestParser {
+	ecosystem: DependencyEcosystem = 'npm';
+
+	matches(fileName: string): boolean {
+		return fileName === 'package.json';
+	}
+
+	parse(content: string, context: ManifestContext): ParsedManifest {
+		const json = JSON.parse(content);
+		const dependencies: DeclaredDependency[] = [];
+
+		for (const [field, scope] of NPM_DEPENDENCY_FIELDS) {
+			for (const [name, version] of Object.entries<string>(json[field] ?? {})) {
+				const local = /^(file|link):(.+)$/.exec(version);
+				dependencies.push({
+					name,
+					version,
+					scope,
+					ecosystem: 'npm',
+					localPath: local ? localPathOf(context, local[2]) : undefined,
+				});
+			}
+		}
+
+		const typescript = dependencies.some(dependency => dependency.name === 'typescript')
+			|| fs.existsSync(path.join(context.dir, 'tsconfig.json'));
+
+		return {
+			ecosystem: 'npm',
+			name: json.name,
+			version: json.version,
+			description: json.description,
+			language: typescript ? 'typescript' : 'javascript',
+			dependencies,
+		};
+	}
+}
+
+/**
+ * Go `go.mod`, requirements marked `// indirect` are runtime only, `replace` directives with a local path link modules
+ */
+export class GoModParser implements ManifestParser {
+	ecosystem: DependencyEcosystem = 'golang';
+
+	matches(fileName: string): boolean {
+		return fileName === 'go.mod';
+	}
+
+	parse(content: string, context: ManifestContext): ParsedManifest {
+		const dependencies: DeclaredDependency[] = [];
+		const replaced = new Map<string, string>();
+		let block: string | undefined;
+
+		for (const rawLine of content.split('\n')) {
+			const line = rawLine.trim();
+			const opening = /^(require|replace)\s*\($/.exec(line);
+			if (opening) {
+				block = opening[1];
+				continue;
+			}
+
+			if (line === ')') {
+				block = undefined;
+				continue;
+			}
+
+			const directive = /^(require|replace)\s+(.+)$/.exec(line);
+			const kind = directive?.[1] ?? block;
+			const body = directive?.[2] ?? line;
+
+			if (kind === 'require') {
+				const require = /^(\S+)\s+(\S+)(.*)$/.exec(body);
+				if (require) {
+					dependencies.push({
+						name: require[1],
+						version: require[2],
+						scope: /\/\/\s*indirect/.test(require[3]) ? 'runtime' : 'compile',
+						ecosystem: 'golang',
+					});
+				}
+			} else if (kind === 'replace') {
+				const replace = /^(\S+)(?:\s+\S+)?\s+=>\s+(\.{1,2}\/\S*|\/\S+)/.exec(body);
+				if (replace) {
+					replaced.set(replace[1], localPathOf(context, replace[2]));
+				}
+			}
+		}
+
+		dependencies.forEach(dependency => dependency.localPath = replaced.get(dependency.name));
+
+		return {
+			ecosystem: 'golang',
+			name: /^module\s+(\S+)/m.exec(content)?.[1],
+			language: 'go',
+			dependencies,
+		};
+	}
+}
+
+// `requests[socks]>=2.31 ; python_version > "3.8"`
+const PEP_508 = /^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*(?:@\s*(\S+)|([^;#]*))/;
+
+/**
+ * PEP 503 normalised name of a Python package, `Flask_SQLAlchemy` is `flask-sqlalchemy`
+ */
+export function normalizePythonName(name: string): string {
+	return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+function pythonDependencyOf(requirement: string, scope: DependencyScope, context: ManifestContext): DeclaredDependency | undefined {
+	const match = PEP_508.exec(requirement.trim());
+	if (!match) {
+		return undefined;
+	}
+
+	const specifier = match[3]?.trim().replace(/\s+/g, '');
+	const url = match[2]?.replace(/^file:(\/\/)?/, '');
+	return {
+		name: normalizePythonName(match[1]),
+		version: specifier?.startsWith('==') ? specifier.slice(2) : specifier || undefined,
+		scope,
+		ecosystem: 'pypi',
+		localPath: url && !/^\w+:/.test(url) ? localPathOf(context, url) : undefined,
+	};
+}
+
+function pythonScopeOf(group: string, fallback: DependencyScope): DependencyScope {
+	if (/test/i.test(group)) {
+		return 'test';
+	}
+
+	return /dev|lint|doc/i.test(group) ? 'development' : fallback;
+}
+
+/**
+ * `requirements.txt` and its variants like `requirements-dev.txt`, the scope follows the file name
+ */
+export class RequirementsTxtParser implements ManifestParser {
+	ecosystem: DependencyEcosystem = 'pypi';
+
+	matches(fileName: string): boolean {
+		return /^(requirements([-_.][\w-]+)?|[\w-]+[-_]requirements)\.txt$/.test(fileName);
+	}
+
+	parse(content: string, context: ManifestContext): ParsedManifest {
+		const scope = pythonScopeOf(path.basename(context.file).replace(/^requirements/, ''), 'runtime');
+		const dependencies: DeclaredDependency[] = [];
+
+		for (const rawLine of content.split('\n')) {
+			const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+			const editable = /^(?:-e|--editable)\s+(\.{1,2}\/\S*|\/\S+)/.exec(line);
+			if (editable) {
+				const localPath = localPathOf(context, editable[1]);
+				dependencies.push({ name: path.basename(localPath), scope, ecosystem: 'pypi', localPath });
+				continue;
+			}
+
+			if (!line || line.startsWith('-')) {
+				continue;
+			}
+
+			const dependency = pythonDependencyOf(line, scope, context);
+			if (dependency) {
+				dependencies.push(dependency);
+			}
+		}
+
+		return { ecosystem: 'pypi', language: 'python', dependencies };
+	}
+}
+
+/**
+ * `pyproject.toml` of PEP 621 (`[project]`), PEP 735 (`[dependency-groups]`) and Poetry (`[tool.poetry]`)
+ */
+export class PyProjectParser implements ManifestParser {
+	ecosystem: DependencyEcosystem = 'pypi';
+
+	matches(fileName: string): boolean {
+		return fileName === 'pyproject.toml';
+	}
+
+	parse(content: string, context: ManifestContext): ParsedManifest {
+		const toml = new TomlParser().parse(content);
+		const project = (toml.project ?? {}) as TomlTable;
+		const poetry = ((toml.tool as TomlTable | undefined)?.poetry ?? {}) as TomlTable;
+		const dependencies: DeclaredDependency[] = [];
+
+		const addRequirements = (requirements: TomlValue | undefined, scope: DependencyScope) => {
+			for (const requirement of Array.isArray(requirements) ? requirements : []) {
+				const dependency = typeof requirement === 'string' ? pythonDependencyOf(requirement, scope, context) : undefined;
+				if (dependency) {
+					dependencies.push(dependency);
+				}
+			}
+		};
+
+		addRequirements(project.dependencies, 'runtime');
+		for (const [group, requirements] of Object.entries((project['optional-dependencies'] ?? {}) as TomlTable)) {
+			addRequirements(requirements, pythonScopeOf(group, 'optional'));
+		}
+		for (const [group, requirements] of Object.entries((toml['dependency-groups'] ?? {}) as TomlTable)) {
+			addRequirements(requirements, pythonScopeOf(group, 'development'));
+		}
+
+		const addPoetry = (table: TomlValue | undefined, scope: DependencyScope) => {
+			for (const [name, spec] of Object.entries((table ?? {}) as TomlTable)) {
+				if (name === 'python') {
+					continue;
+				}
+
+				const detail = (typeof spec === 'object' && !Array.isArray(spec) ? spec : { version: spec }) as TomlTable;
+				dependencies.push({
+					name: normalizePythonName(name),
+					version: typeof detail.version === 'string' ? detail.version : undefined,
+					scope: detail.optional === true ? 'optional' : scope,
+					ecosystem: 'pypi',
+					localPath: typeof detail.path === 'string' ? localPathOf(context, detail.path) : undefined,
+				});
+			}
+		};
+
+		addPoetry(poetry.dependencies, 'runtime');
+		addPoetry(poetry['dev-dependencies'], 'development');
+		for (const [group, table] of Object.entries((poetry.group ?? {}) as TomlTable)) {
+			addPoetry((table as TomlTable).dependencies, pythonScopeOf(group, 'development'));
+		}
+
+		const field = (key: string) => {
+			const value = project[key] ?? poetry[key];
+			return typeof value === 'string' ? value : undefined;
+		};
+
+		return {
+			ecosystem: 'pypi',
+			name: field('name'),
+			version: field('version'),
+			description: field('description'),
+			language: 'python',
+			dependencies,
+		};
+	}
+}
+
+const CARGO_DEPENDENCY_TABLES: Array<[string, DependencyScope]> = [
+	['dependencies', 'compile'],
+	['dev-dependencies', 'development'],
+	['build-dependencies', 'build'],
+];
+
+/**
+ * Rust `Cargo.toml`, including the dependencies of `[target.'cfg(...)']` tables and `path` dependencies
+ */
+export class CargoTomlParser implements ManifestParser {
+	ecosystem: DependencyEcosystem = 'cargo';
+
+	matches(fileName: string): boolean {
+		return fileName === 'Cargo.toml';
+	}
+
+	parse(content: string, context: ManifestContext): ParsedManifest {
+		const toml = new TomlParser().parse(content);
+		const workspace = (toml.workspace ?? {}) as TomlTable;
+		const tables = [toml, workspace, ...Object.values((toml.target ?? {}) as TomlTable)] as TomlTable[];
+		const dependencies: DeclaredDependency[] = [];
+
+		for (const table of tables) {
+			for (const [key, scope] of CARGO_DEPENDENCY_TABLES) {
+				for (const [name, spec] of Object.entries((table[key] ?? {}) as TomlTable)) {
+					const detail = (typeof spec === 'object' && !Array.isArray(spec) ? spec : { version: spec }) as TomlTable;
+					dependencies.push({
+						name: typeof detail.package === 'string' ? detail.package : name,
+						version: typeof detail.version === 'string' ? detail.version : undefined,
+						scope: detail.optional === true ? 'optional' : scope,
+						ecosystem: 'cargo',
+						localPath: typeof detail.path === 'string' ? localPathOf(context, detail.path) : undefined,
+					});
+				}
+			}
+		}
+
+		const cargoPackage = (toml.package ?? {}) as TomlTable;
+		const field = (key: string) => typeof cargoPackage[key] === 'string' ? cargoPackage[key] as string : undefined;
+
+		return {
+			ecosystem: 'cargo',
+			name: field('name'),
+			version: field('version'),
+			description: field('description'),
+			language: 'rust',
+			dependencies,
+		};
+	}
+}
+
+export const MANIFEST_PARSERS: ManifestParser[] = [
+	new MavenPomParser(),
+	new GradleBuildParser(),
+	new PackageJsonParser(),
+	new GoModParser(),
+	new PyProjectParser(),
+	new RequirementsTxtParser(),
+	new CargoTomlParser(),
+];
+
+export function manifestParserOf(fileName: string): ManifestParser | undefined {
+	return MANIFEST_PARSERS.find(parser => parser.matches(fileName));
+}
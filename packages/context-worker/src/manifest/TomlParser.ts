@@ -0,0 +1,241 @@
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+export interface TomlTable {
+	[key: string]: TomlValue;
+}
+
+/**
+ * A small TOML reader for `pyproject.toml` and `Cargo.toml`: tables, arrays of tables, dotted and quoted keys,
+ * strings, numbers, booleans, arrays and inline tables. Dates are kept as strings.
+ */
+export class TomlParser {
+	private text = '';
+	private index = 0;
+
+	parse(content: string): TomlTable {
+		this.text = content;
+		this.index = 0;
+
+		const root: TomlTable = {};
+		let current = root;
+
+		this.skipBlank();
+		while (this.index < this.text.length) {
+			if (this.peek() === '[') {
+				const isArray = this.text.startsWith('[[', this.index);
+				this.index += isArray ? 2 : 1;
+				const keys = this.parseKeys(']');
+				this.index += isArray ? 2 : 1;
+				current = isArray ? this.appendTable(root, keys) : this.tableAt(root, keys);
+			} else {
+				const keys = this.parseKeys('=');
+				this.index++;
+				this.skipSpaces();
+				const parent = this.tableAt(current, keys.slice(0, -1));
+				parent[keys[keys.length - 1]] = this.parseValue();
+			}
+
+			this.skipLine();
+			this.skipBlank();
+		}
+
+		return root;
+	}
+
+	private parseKeys(terminator: string): string[] {
+		const keys: string[] = [];
+		while (this.index < this.text.length) {
+			this.skipSpaces();
+			const char = this.peek();
+			if (char === '"' || char === "'") {
+				keys.push(this.parseString());
+			} else {
+				const match = /^[\w-]+/.exec(this.text.slice(this.index));
+				if (!match) {
+					throw new Error(`Invalid TOML key at ${this.index}`);
+				}
+				keys.push(match[0]);
+				this.index += match[0].length;
+			}
+
+			this.skipSpaces();
+			if (this.peek() === '.') {
+				this.index++;
+			} else if (this.peek() === terminator) {
+				return keys;
+			} else {
+				throw new Error(`Expected '${terminator}' at ${this.index}`);
+			}
+		}
+
+		return keys;
+	}
+
+	private parseValue(): TomlValue {
+		const char = this.peek();
+		if (char === '"' || char === "'") {
+			return this.parseString();
+		}
+
+		if (char === '[') {
+			return this.parseArray();
+		}
+
+		if (char === '{') {
+			return this.parseInlineTable();
+		}
+
+		const match = /^[^\s,\]}#]+(?: \d{2}:[^\s,\]}#]+)?/.exec(this.text.slice(this.index));
+		if (!match) {
+			throw new Error(`Invalid TOML value at ${this.index}`);
+		}
+
+		this.index += match[0].length;
+		const raw = match[0];
+		if (raw === 'true' || raw === 'false') {
+			return raw === 'true';
+		}
+
+		const number = Number(raw.replace(/_/g, ''));
+		return /^[+-]?(\d|inf|nan|0x|0o|0b)/.test(raw) && !Number.isNaN(number) && !/^\d{4}-/.test(raw) ? number : raw;
+	}
+
+	private parseString(): string {
+		const quote = this.peek();
+		const multiline = this.text.startsWith(quote.repeat(3), this.index);
+		const delimiter = multiline ? quote.repeat(3) : quote;
+		this.index += delimiter.length;
+		if (multiline && this.peek() === '\n') {
+			this.index++;
+		}
+
+		let value = '';
+		while (this.index < this.text.length && !this.text.startsWith(delimiter, this.index)) {
+			const char = this.text[this.index++];
+			if (char === '\\' && quote === '"') {
+				value += this.parseEscape();
+			} else {
+				value += char;
+			}
+		}
+
+		this.index += delimiter.length;
+		return value;
+	}
+
+	private parseEscape(): string {
+		const char = this.text[this.index++];
+		switch (char) {
+			case 'n': return '\n';
+			case 't': return '\t';
+			case 'r': return '\r';
+			case 'u':
+			case 'U': {
+				const length = char === 'u' ? 4 : 8;
+				const code = parseInt(this.text.substr(this.index, length), 16);
+				this.index += length;
+				return String.fromCodePoint(code);
+			}
+			case '\n':
+				// a line ending backslash trims the whitespace up to the next content
+				this.skipBlank();
+				return '';
+			default:
+				return char;
+		}
+	}
+
+	private parseArray(): TomlValue[] {
+		const values: TomlValue[] = [];
+		this.index++;
+		this.skipBlank();
+		while (this.index < this.text.length && this.peek() !== ']') {
+			values.push(this.parseValue());
+			this.skipBlank();
+			if (this.peek() === ',') {
+				this.index++;
+				this.skipBlank();
+			}
+		}
+
+		this.index++;
+		return values;
+	}
+
+	private parseInlineTable(): TomlTable {
+		const table: TomlTable = {};
+		this.index++;
+		this.skipSpaces();
+		while (this.index < this.text.length && this.peek() !== '}') {
+			const keys = this.parseKeys('=');
+			this.index++;
+			this.skipSpaces();
+			this.tableAt(table, keys.slice(0, -1))[keys[keys.length - 1]] = this.parseValue();
+			this.skipSpaces();
+			if (this.peek() === ',') {
+				this.index++;
+				this.skipSpaces();
+			}
+		}
+
+		this.index++;
+		return table;
+	}
+
+	private tableAt(root: TomlTable, keys: string[]): TomlTable {
+		let table = root;
+		for (const key of keys) {
+			let next = table[key];
+			if (Array.isArray(next)) {
+				next = next[next.length - 1];
+			}
+			if (typeof next !== 'object' || next === null) {
+				next = {};
+				table[key] = next;
+			}
+			table = next as TomlTable;
+		}
+
+		return table;
+	}
+
+	private appendTable(root: TomlTable, keys: string[]): TomlTable {
+		const parent = this.tableAt(root, keys.slice(0, -1));
+		const key = keys[keys.length - 1];
+		const table: TomlTable = {};
+		parent[key] = Array.isArray(parent[key]) ? [...(parent[key] as TomlValue[]), table] : [table];
+		return table;
+	}
+
+	private peek(): string {
+		return this.text[this.index];
+	}
+
+	private skipSpaces() {
+		while (this.peek() === ' ' || this.peek() === '\t') {
+			this.index++;
+		}
+	}
+
+	/**
+	 * Skip whitespace, newlines and comments
+	 */
+	private skipBlank() {
+		while (this.index < this.text.length) {
+			const char = this.peek();
+			if (char === '#') {
+				this.skipLine();
+			} else if (/\s/.test(char)) {
+				this.index++;
+			} else {
+				return;
+			}
+		}
+	}
+
+	private skipLine() {
+		while (this.index < this.text.length && this.peek() !== '\n') {
+			this.index++;
+		}
+	}
+}
@@ -0,0 +1,64 @@
+import { ApiResource } from "@autodev/worker-core";
+
+import { normalizeApiPath } from "../analyzer/ApiDemandMatcher";
+import { ANY_HTTP_METHOD } from "../code-context/base/HttpApiAnalyser";
+
+export interface ApiSpecDiff {
+	matched: Array<{ declared: ApiResource, implemented: ApiResource }>;
+	// declared in the OpenAPI files, but not found in the code
+	missing: ApiResource[];
+	// found in the code, but not declared in the OpenAPI files
+	undocumented: ApiResource[];
+}
+
+/**
+ * Compare the API resources declared in OpenAPI files with the ones scanned from the code.
+ *
+ * Path variables match whatever their names, and a path also matches when it only differs by a prefix, since specs
+ * often declare the server base path (`/v1`) which controllers leave to the deployment.
+ */
+export function diffApiResources(declared: ApiResource[], implemented: ApiResource[]): ApiSpecDiff {
+	const remaining = new Set(implemented);
+	const matched: ApiSpecDiff['matched'] = [];
+	const missing: ApiResource[] = [];
+
+	for (const declaredApi of declared) {
+		const candidates = Array.from(remaining).filter(it => sameMethod(declaredApi, it));
+		const implementedApi = candidates.find(it => comparePaths(declaredApi.sourceUrl, it.sourceUrl) === 'exact') ??
+			candidates.find(it => comparePaths(declaredApi.sourceUrl, it.sourceUrl) === 'suffix');
+
+		if (implementedApi) {
+			remaining.delete(implementedApi);
+			matched.push({ declared: declaredApi, implemented: implementedApi });
+		} else {
+			missing.push(declaredApi);
+		}
+	}
+
+	return { matched, missing, undocumented: Array.from(remaining) };
+}
+
+function sameMethod(left: ApiResource, right: ApiResource): boolean {
+	const leftMethod = left.sourceHttpMethod.toUpperCase();
+	const rightMethod = right.sourceHttpMethod.toUpperCase();
+	return leftMethod === rightMethod || leftMethod === ANY_HTTP_METHOD || rightMethod === ANY_HTTP_METHOD;
+}
+
+function comparePaths(left: string, right: string): 'exact' | 'suffix' | undefined {
+	const leftSegments = normalizeApiPath(left).segments;
+	const rightSegments = normalizeApiPath(right).segments;
+
+	if (leftSegments.join('/') === rightSegments.join('/')) {
+		return 'exact';
+	}
+
+	const [shorter, longer] = leftSegments.length < rightSegments.length
+		? [leftSegments, rightSegments]
+		: [rightSegments, leftSegments];
+	if (shorter.length === 0) {
+		return undefined;
+	}
+
+	const tail = longer.slice(longer.length - shorter.length);
+	return tail.join('/') === shorter.join('/') ? 'suffix' : undefined;
+}
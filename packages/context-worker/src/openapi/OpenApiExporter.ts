@@ -0,0 +1,240 @@
+import path from "path";
+import { ApiResource } from "@autodev/worker-core";
+
+import { CodeFile, CodeFunction, CodeStructure } from "../codemodel/CodeElement";
+import { OPENAPI_HTTP_METHODS, OpenApiDocument } from "./OpenApiResourceGenerator";
+
+const BODY_METHODS = ['post', 'put', 'patch'];
+
+const PRIMITIVE_SCHEMAS: Record<string, { type: string, format?: string }> = {
+	string: { type: 'string' },
+	str: { type: 'string' },
+	char: { type: 'string' },
+	character: { type: 'string' },
+	uuid: { type: 'string', format: 'uuid' },
+	date: { type: 'string', format: 'date' },
+	localdate: { type: 'string', format: 'date' },
+	localdatetime: { type: 'string', format: 'date-time' },
+	datetime: { type: 'string', format: 'date-time' },
+	int: { type: 'integer', format: 'int32' },
+	integer: { type: 'integer', format: 'int32' },
+	short: { type: 'integer', format: 'int32' },
+	byte: { type: 'integer', format: 'int32' },
+	long: { type: 'integer', format: 'int64' },
+	bigint: { type: 'integer', format: 'int64' },
+	biginteger: { type: 'integer', format: 'int64' },
+	float: { type: 'number', format: 'float' },
+	double: { type: 'number', format: 'double' },
+	number: { type: 'number' },
+	bigdecimal: { type: 'number' },
+	boolean: { type: 'boolean' },
+	bool: { type: 'boolean' },
+};
+
+const WRAPPER_TYPE = /^(ResponseEntity|Mono|Promise|CompletableFuture|Optional|Observable|NextResponse|HttpEntity)\s*[<\[](.+)[>\]]$/;
+const ARRAY_TYPE = /^(List|Set|Collection|Iterable|Flux|Array|ReadonlyArray|Sequence|list|set)\s*[<\[](.+)[>\]]$/;
+const MAP_TYPE = /^(Map|HashMap|Record|Dict|dict|object|any|Object|unknown)\b/;
+const VOID_TYPE = /^(void|Void|Unit|None|undefined)$/;
+
+// framework arguments which are not part of the API contract
+const FRAMEWORK_PARAMETER_TYPE = /(Request|Response|Servlet|Principal|BindingResult|Session|Model|Authentication|Pageable)$/;
+const FRAMEWORK_PARAMETER_NAME = /^(req|res|request|response|self|cls|ctx|context)$/;
+
+/**
+ * Turn the scanned ApiResource list into a draft OpenAPI 3 document. Parameters, request bodies and responses come
+ * from the `CodeFunction` which handles the resource, and the schemas from the fields of the used classes.
+ */
+export class OpenApiExporter {
+	private readonly codeFiles: CodeFile[];
+	private schemas: Record<string, any> = {};
+
+	constructor(codeFiles: CodeFile[]) {
+		this.codeFiles = codeFiles;
+	}
+
+	export(resources: ApiResource[], info: { title: string, version: string }): OpenApiDocument {
+		this.schemas = {};
+		const paths: Record<string, Record<string, any>> = {};
+		const operationIds = new Set<string>();
+
+		for (const resource of resources) {
+			const method = resource.sourceHttpMethod.toLowerCase();
+			if (resource.supplyType === 'OpenAPI' || !OPENAPI_HTTP_METHODS.includes(method)) {
+				continue;
+			}
+
+			const apiPath = this.toOpenApiPath(resource.sourceUrl);
+			paths[apiPath] = paths[apiPath] || {};
+			if (paths[apiPath][method]) {
+				continue;
+			}
+
+			let operationId = resource.methodName;
+			for (let index = 2; operationIds.has(operationId); index++) {
+				operationId = `${resource.methodName}${index}`;
+			}
+			operationIds.add(operationId);
+
+			paths[apiPath][method] = this.operationOf(resource, operationId, apiPath, method);
+		}
+
+		const document: OpenApiDocument = {
+			openapi: '3.0.3',
+			info,
+			paths,
+		};
+
+		if (Object.keys(this.schemas).length > 0) {
+			document.components = { schemas: this.schemas };
+		}
+
+		return document;
+	}
+
+	/**
+	 * `:id` (Express), `<int:id>` (Flask) and `[id]` (Next.js) path variables are written as `{id}`
+	 */
+	toOpenApiPath(url: string): string {
+		const apiPath = url.split('/')
+			.map(segment => segment
+				.replace(/^:(\w+)$/, '{$1}')
+				.replace(/^<(?:\w+:)?(\w+)>$/, '{$1}')
+				.replace(/^\[{1,2}(?:\.\.\.)?(\w+)]{1,2}$/, '{$1}')
+			)
+			.join('/');
+
+		return apiPath.startsWith('/') ? apiPath : '/' + apiPath;
+	}
+
+	private operationOf(resource: ApiResource, operationId: string, apiPath: string, method: string): Record<string, any> {
+		const func = this.findFunction(resource);
+		const functionParameters = (func?.parameters || []).filter(param =>
+			!FRAMEWORK_PARAMETER_NAME.test(param.name) && !FRAMEWORK_PARAMETER_TYPE.test(param.type)
+		);
+
+		const operation: Record<string, any> = {
+			operationId,
+			tags: resource.className ? [resource.className] : [],
+			summary: `${resource.className}.${resource.methodName}`,
+		};
+
+		const pathVariables = Array.from(apiPath.matchAll(/\{(\w+)}/g)).map(match => match[1]);
+		const parameters: Record<string, any>[] = pathVariables.map(name => ({
+			name,
+			in: 'path',
+			required: true,
+			schema: this.schemaOf(functionParameters.find(param => param.name === name)?.type || 'string'),
+		}));
+
+		for (const param of functionParameters) {
+			if (pathVariables.includes(param.name)) {
+				continue;
+			}
+
+			const schema = this.schemaOf(param.type || 'string');
+			const isPrimitive = !!schema.type && schema.type !== 'object' && schema.type !== 'array';
+			if (BODY_METHODS.includes(method) && !isPrimitive && !operation.requestBody) {
+				operation.requestBody = {
+					required: true,
+					content: { 'application/json': { schema } },
+				};
+			} else if (isPrimitive) {
+				parameters.push({ name: param.name, in: 'query', schema });
+			}
+		}
+
+		if (parameters.length > 0) {
+			operation.parameters = parameters;
+		}
+
+		const returnType = func?.returnType?.trim();
+		const response: Record<string, any> = { description: 'OK' };
+		if (returnType && !VOID_TYPE.test(returnType)) {
+			response.content = { 'application/json': { schema: this.schemaOf(returnType) } };
+		}
+		operation.responses = { '200': response };
+
+		return operation;
+	}
+
+	/**
+	 * Controllers are found by package and class name, the handlers of Next.js and FastAPI by file and function name
+	 */
+	private findFunction(resource: ApiResource): CodeFunction | undefined {
+		for (const codeFile of this.codeFiles) {
+			const structure = codeFile.classes.find(it => it.name === resource.className && it.package === resource.packageName);
+			const method = structure?.methods.find(it => it.name === resource.methodName);
+			if (method) {
+				return method;
+			}
+		}
+
+		for (const codeFile of this.codeFiles) {
+			const isHandlerFile = (!!resource.packageName && codeFile.filepath.endsWith(resource.packageName)) ||
+				path.parse(codeFile.filepath).name === resource.className;
+			const func = isHandlerFile ? codeFile.functions?.find(it => it.name === resource.methodName) : undefined;
+			if (func) {
+				return func;
+			}
+		}
+
+		return undefined;
+	}
+
+	private schemaOf(type: string): Record<string, any> {
+		const typeName = type.trim()
+			.replace(/^:\s*/, '')
+			.replace(/\?$/, '')
+			.replace(/\s*\|\s*(null|undefined|None)$/, '');
+
+		const wrapper = typeName.match(WRAPPER_TYPE);
+		if (wrapper) {
+			return this.schemaOf(wrapper[2]);
+		}
+
+		const array = typeName.match(ARRAY_TYPE) ?? typeName.match(/^()(.+)\[]$/);
+		if (array) {
+			return { type: 'array', items: this.schemaOf(array[2]) };
+		}
+
+		const primitive = PRIMITIVE_SCHEMAS[typeName.toLowerCase()];
+		if (primitive) {
+			return { ...primitive };
+		}
+
+		if (MAP_TYPE.test(typeName) || !/^\w+$/.test(typeName)) {
+			return { type: 'object' };
+		}
+
+		const structure = this.findStructure(typeName);
+		if (!structure) {
+			return { type: 'object' };
+		}
+
+		if (!this.schemas[typeName]) {
+			// registered before the fields, so that recursive types end in a $ref
+			this.schemas[typeName] = { type: 'object' };
+
+			const properties: Record<string, any> = {};
+			for (const field of structure.fields || []) {
+				properties[field.name] = this.schemaOf(field.type || 'string');
+			}
+			if (Object.keys(properties).length > 0) {
+				this.schemas[typeName].properties = properties;
+			}
+		}
+
+		return { $ref: `#/components/schemas/${typeName}` };
+	}
+
+	private findStructure(name: string): CodeStructure | undefined {
+		for (const codeFile of this.codeFiles) {
+			const structure = codeFile.classes.find(it => it.name === name);
+			if (structure) {
+				return structure;
+			}
+		}
+
+		return undefined;
+	}
+}
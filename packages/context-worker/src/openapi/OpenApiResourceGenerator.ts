@@ -0,0 +1,124 @@
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import { ApiResource } from "@autodev/worker-core";
+
+import { FileSystemScanner } from "../analyzer/FileSystemScanner";
+
+export const OPENAPI_HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+const OPENAPI_FILE_PATTERN = /(openapi|swagger)[^/]*\.(ya?ml|json)$/i;
+
+/**
+ * The parts of an OpenAPI 3 or Swagger 2 document used by context-worker
+ */
+export interface OpenApiDocument {
+	openapi?: string;
+	swagger?: string;
+	info: { title: string; version: string; description?: string };
+	servers?: { url: string }[];
+	// Swagger 2 only
+	basePath?: string;
+	paths: Record<string, Record<string, any>>;
+	components?: { schemas?: Record<string, any> };
+}
+
+/**
+ * Find the `openapi.yaml`, `swagger.json` and alike files of the workspace
+ */
+export async function scanOpenApiFiles(dirPath: string): Promise<string[]> {
+	const files = await new FileSystemScanner().scanDirectory(dirPath);
+	return files.filter(file => OPENAPI_FILE_PATTERN.test(path.basename(file)));
+}
+
+/**
+ * Parse an OpenAPI or Swagger file, undefined when the file is not a valid spec
+ */
+export function parseOpenApiFile(filePath: string): OpenApiDocument | undefined {
+	try {
+		const content = fs.readFileSync(filePath, 'utf-8');
+		const document = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : yaml.load(content);
+
+		if (!document || typeof document !== 'object' || (!document.openapi && !document.swagger)) {
+			return undefined;
+		}
+
+		return document as OpenApiDocument;
+	} catch (error) {
+		console.warn(`无法解析 OpenAPI 文件 ${filePath}:`, error);
+		return undefined;
+	}
+}
+
+export class OpenApiResourceGenerator {
+	/**
+	 * Convert every operation of the document to an ApiResource
+	 * @param document the parsed OpenAPI or Swagger document
+	 * @param specPath the path of the document, used as the package name
+	 */
+	public generateApiResources(document: OpenApiDocument, specPath: string): ApiResource[] {
+		const apiResources: ApiResource[] = [];
+		const basePath = this.basePathOf(document);
+
+		for (const [apiPath, pathItem] of Object.entries(document.paths || {})) {
+			for (const [method, operation] of Object.entries(pathItem || {})) {
+				if (!OPENAPI_HTTP_METHODS.includes(method.toLowerCase())) {
+					continue;
+				}
+
+				apiResources.push({
+					id: operation?.operationId || '',
+					sourceUrl: this.joinPath(basePath, apiPath),
+					sourceHttpMethod: method.toUpperCase(),
+					packageName: specPath,
+					className: operation?.tags?.[0] || document.info?.title || '',
+					methodName: operation?.operationId || this.methodNameOf(method, apiPath),
+					supplyType: 'OpenAPI',
+				});
+			}
+		}
+
+		return apiResources;
+	}
+
+	/**
+	 * `basePath` of Swagger 2, or the path of the first server of OpenAPI 3, like `/v1` for `https://example.com/v1`
+	 */
+	private basePathOf(document: OpenApiDocument): string {
+		if (document.basePath) {
+			return document.basePath;
+		}
+
+		const serverUrl = document.servers?.[0]?.url;
+		if (!serverUrl) {
+			return '';
+		}
+
+		return serverUrl.replace(/^[a-z][\w+.-]*:\/\/[^/]*/i, '');
+	}
+
+	private joinPath(basePath: string, apiPath: string): string {
+		const base = basePath.replace(/\/+$/, '');
+		return base + (apiPath.startsWith('/') ? apiPath : '/' + apiPath);
+	}
+
+	/**
+	 * Operations without an operationId get a name like `getUsersById` for `GET /users/{id}`
+	 */
+	private methodNameOf(method: string, apiPath: string): string {
+		const words = apiPath.split('/')
+			.filter(segment => segment.length > 0)
+			.map(segment => {
+				const variable = segment.match(/^\{(.+)}$/);
+				return variable ? `By${this.capitalize(variable[1])}` : this.capitalize(segment);
+			})
+			.join('')
+			.replace(/[^\w]/g, '');
+
+		return method.toLowerCase() + words;
+	}
+
+	private capitalize(word: string): string {
+		return word.charAt(0).toUpperCase() + word.slice(1);
+	}
+}
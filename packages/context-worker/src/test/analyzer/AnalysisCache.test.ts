@@ -0,0 +1,74 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { AnalysisCache } from "../../analyzer/AnalysisCache";
+import { CodeFile } from "../../codemodel/CodeElement";
+
+describe('AnalysisCache', () => {
+  let workspace: string;
+
+  const codeFile: CodeFile = {
+    name: 'Hello.java',
+    filepath: '',
+    language: 'java',
+    package: 'com.example',
+    imports: [],
+    classes: [],
+  };
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'analysis-cache-'));
+    codeFile.filepath = path.join(workspace, 'Hello.java');
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should return cached entries only for the same content hash', () => {
+    const cache = new AnalysisCache(workspace);
+    const hash = AnalysisCache.hashContent('class Hello {}');
+
+    cache.setCodeFile(codeFile.filepath, hash, codeFile);
+
+    expect(cache.getCodeFile(codeFile.filepath, hash)).toEqual(codeFile);
+    expect(cache.getCodeFile(codeFile.filepath, AnalysisCache.hashContent('class Hello { }'))).toBeUndefined();
+  });
+
+  it('should persist code files and symbols across instances', async () => {
+    const hash = AnalysisCache.hashContent('class Hello {}');
+    const symbols = [{
+      name: 'Hello',
+      qualifiedName: 'com.example.Hello',
+      kind: 0,
+      filePath: codeFile.filepath,
+      comment: '',
+      position: { start: { row: 0, column: 6 }, end: { row: 0, column: 11 } }
+    }];
+
+    const cache = new AnalysisCache(workspace);
+    cache.setCodeFile(codeFile.filepath, hash, codeFile);
+    cache.setSymbols(codeFile.filepath, hash, symbols);
+    await cache.flush();
+
+    expect(fs.existsSync(path.join(workspace, '.autodev', 'cache', 'files'))).toBe(true);
+
+    const reloaded = new AnalysisCache(workspace);
+    expect(reloaded.getCodeFile(codeFile.filepath, hash)).toEqual(codeFile);
+    expect(reloaded.getSymbols(codeFile.filepath, hash)).toEqual(symbols);
+  });
+
+  it('should drop symbols when the file content changes', () => {
+    const cache = new AnalysisCache(workspace);
+    const oldHash = AnalysisCache.hashContent('v1');
+    const newHash = AnalysisCache.hashContent('v2');
+
+    cache.setSymbols(codeFile.filepath, oldHash, []);
+    cache.setCodeFile(codeFile.filepath, newHash, codeFile);
+
+    expect(cache.getSymbols(codeFile.filepath, newHash)).toBeUndefined();
+    expect(cache.getEntry(codeFile.filepath)?.hash).toBe(newHash);
+  });
+});
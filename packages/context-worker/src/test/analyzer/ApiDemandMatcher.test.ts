@@ -0,0 +1,108 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ApiResource } from "@autodev/worker-core";
+
+import { ApiDemandMatcher, normalizeApiPath } from "../../analyzer/ApiDemandMatcher";
+import { ApiDemand } from "../../code-context/base/HttpApiAnalyser";
+
+function resource(sourceHttpMethod: string, sourceUrl: string, methodName: string): ApiResource {
+  return {
+    id: '',
+    sourceUrl,
+    sourceHttpMethod,
+    packageName: 'com.example.user',
+    className: 'UserController',
+    methodName,
+    supplyType: 'Java',
+  };
+}
+
+describe('normalizeApiPath', () => {
+  it('should map path variables of every framework to the same placeholder', () => {
+    const expected = ['api', 'users', '{}', 'orders'];
+
+    expect(normalizeApiPath('/api/users/{id}/orders').segments).toEqual(expected);
+    expect(normalizeApiPath('/api/users/:id/orders').segments).toEqual(expected);
+    expect(normalizeApiPath('/api/users/<int:id>/orders').segments).toEqual(expected);
+    expect(normalizeApiPath('/api/users/[id]/orders').segments).toEqual(expected);
+    expect(normalizeApiPath('/api/users/${user.id}/orders?page=1').segments).toEqual(expected);
+  });
+
+  it('should drop the host and leading base url placeholder', () => {
+    expect(normalizeApiPath('http://user-service:8080/api/users')).toEqual({ segments: ['api', 'users'], partial: false });
+    expect(normalizeApiPath('{baseUrl}/users')).toEqual({ segments: ['users'], partial: true });
+  });
+});
+
+describe('ApiDemandMatcher', () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'api-demand-'));
+    fs.mkdirSync(path.join(workspace, 'user-service/src'), { recursive: true });
+    fs.writeFileSync(path.join(workspace, 'user-service/pom.xml'), '<project/>');
+    fs.mkdirSync(path.join(workspace, 'web/src'), { recursive: true });
+    fs.writeFileSync(path.join(workspace, 'web/package.json'), JSON.stringify({ name: 'web-app' }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should prefer the literal match over a path variable', () => {
+    const matcher = new ApiDemandMatcher(workspace);
+    const resources = [
+      resource('GET', '/api/users/{id}', 'getUser'),
+      resource('GET', '/api/users/me', 'getCurrentUser'),
+      resource('DELETE', '/api/users/{id}', 'deleteUser'),
+    ];
+
+    const match = (targetHttpMethod: string, targetUrl: string) =>
+      matcher.match({ sourceCaller: '', targetUrl, targetHttpMethod }, resources).map(it => it.methodName);
+
+    expect(match('GET', '/api/users/me')).toEqual(['getCurrentUser']);
+    expect(match('GET', '/api/users/{userId}')).toEqual(['getUser']);
+    expect(match('GET', '/api/users/42')).toEqual(['getUser']);
+    expect(match('DELETE', '{baseUrl}/users/42')).toEqual(['deleteUser']);
+    expect(match('POST', '/api/users')).toEqual([]);
+  });
+
+  it('should match routes which accept any method', () => {
+    const matcher = new ApiDemandMatcher(workspace);
+    const resources = [resource('ANY', '/users/<int:pk>/', 'user_detail')];
+
+    const match = (targetHttpMethod: string, targetUrl: string) =>
+      matcher.match({ sourceCaller: '', targetUrl, targetHttpMethod }, resources).map(it => it.methodName);
+
+    expect(match('GET', '/users/42')).toEqual(['user_detail']);
+    expect(match('DELETE', '/users/{id}')).toEqual(['user_detail']);
+  });
+
+  it('should group demands and resources by service', () => {
+    const demands: ApiDemand[] = [
+      { sourceCaller: 'loadUser', targetUrl: '/api/users/{id}', targetHttpMethod: 'GET', sourceFile: 'web/src/api.ts', clientType: 'fetch' },
+      { sourceCaller: 'loadUser', targetUrl: '/api/avatars', targetHttpMethod: 'GET', sourceFile: 'web/src/api.ts', clientType: 'fetch' },
+    ];
+    const resourcesByFile = new Map([
+      [path.join(workspace, 'user-service/src/UserController.java'), [resource('GET', '/api/users/{id}', 'getUser')]],
+    ]);
+
+    const dependencyMap = new ApiDemandMatcher(workspace).buildDependencyMap(demands, resourcesByFile);
+
+    expect(dependencyMap.services).toEqual([
+      { name: 'user-service', path: 'user-service', providedApis: 1, demands: 0 },
+      { name: 'web-app', path: 'web', providedApis: 0, demands: 2 },
+    ]);
+    expect(dependencyMap.links).toEqual([{ consumer: 'web-app', provider: 'user-service', calls: 1 }]);
+    expect(dependencyMap.dependencies[0]).toMatchObject({
+      consumer: 'web-app',
+      provider: 'user-service',
+      sourceCaller: 'loadUser',
+      resource: { className: 'UserController', methodName: 'getUser' },
+    });
+    expect(dependencyMap.unmatchedDemands.map(it => it.targetUrl)).toEqual(['/api/avatars']);
+    expect(dependencyMap.stats).toEqual({ totalDemands: 2, matchedDemands: 1, unmatchedDemands: 1, totalResources: 1 });
+  });
+});
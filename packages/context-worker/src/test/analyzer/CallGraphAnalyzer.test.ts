@@ -0,0 +1,142 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../TestLanguageService";
+import { CallGraphAnalyzer } from "../../analyzer/analyzers/CallGraphAnalyzer";
+import { CallGraph } from "../../analyzer/CallGraph";
+import { CodeCollector } from "../../analyzer/CodeCollector";
+import { JavaStructurerProvider } from "../../code-context/java/JavaStructurerProvider";
+import { TypeScriptStructurer } from "../../code-context/typescript/TypeScriptStructurer";
+
+const Parser = require('web-tree-sitter');
+
+describe('CallGraphAnalyzer', () => {
+  let workspace: string;
+  let languageService: TestLanguageServiceProvider;
+
+  beforeEach(async () => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'call-graph-'));
+    await Parser.init();
+    languageService = new TestLanguageServiceProvider(new Parser());
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  async function collect(files: Record<string, string>, structurer: JavaStructurerProvider | TypeScriptStructurer) {
+    await structurer.init(languageService);
+    const codeCollector = new CodeCollector(workspace);
+
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = path.join(workspace, name);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+
+      const codeFile = await structurer.parseFile(content, filePath);
+      codeCollector.addFile(filePath);
+      codeCollector.addCodeFile(filePath, codeFile!);
+    }
+
+    return codeCollector;
+  }
+
+  it('should link Java calls across files through fields, locals and interfaces', async () => {
+    const codeCollector = await collect({
+      'OrderService.java': `package com.example.order;
+
+public interface OrderService {
+    void placeOrder(String id);
+}`,
+      'OrderServiceImpl.java': `package com.example.order;
+
+public class OrderServiceImpl implements OrderService {
+    private final OrderRepository repository;
+
+    public void placeOrder(String id) {
+        validate(id);
+        repository.save(id);
+    }
+
+    private void validate(String id) {
+    }
+}`,
+      'OrderRepository.java': `package com.example.order;
+
+public class OrderRepository {
+    public void save(String id) {
+    }
+}`,
+      'OrderController.java': `package com.example.web;
+
+import com.example.order.OrderService;
+import com.example.order.OrderRepository;
+
+public class OrderController {
+    private OrderService orderService;
+
+    public void create(String id) {
+        orderService.placeOrder(id);
+        OrderRepository audit = new OrderRepository();
+        audit.save(id);
+        unknown.call();
+    }
+}`,
+    }, new JavaStructurerProvider());
+
+    const result = await new CallGraphAnalyzer(languageService).analyze(codeCollector);
+    const graph = new CallGraph(result);
+
+    expect(graph.callersOf('OrderService.placeOrder').map(edge => edge.caller))
+      .toEqual(['com.example.web.OrderController.create']);
+    expect(graph.callersOf('OrderRepository.save').map(edge => edge.caller).sort())
+      .toEqual(['com.example.order.OrderServiceImpl.placeOrder', 'com.example.web.OrderController.create']);
+
+    expect(graph.reachableFrom('OrderController.create').map(node => node.id).sort()).toEqual([
+      'com.example.order.OrderRepository.save',
+      'com.example.order.OrderService.placeOrder',
+      'com.example.order.OrderServiceImpl.placeOrder',
+      'com.example.order.OrderServiceImpl.validate',
+    ]);
+    expect(graph.reachingTo('OrderServiceImpl.validate', 1).map(node => node.id))
+      .toEqual(['com.example.order.OrderServiceImpl.placeOrder']);
+    expect(result.stats.unresolvedCalls).toBe(1);
+  });
+
+  it('should resolve TypeScript imports to the exporting module', async () => {
+    const codeCollector = await collect({
+      'src/order.ts': `export class OrderService {
+  placeOrder(id: string) {
+    return format(id);
+  }
+}
+
+export function format(id: string) {
+  return id;
+}`,
+      'src/controller.ts': `import { OrderService, format } from './order';
+
+export class OrderController {
+  constructor(private service: OrderService) {}
+
+  create(id: string) {
+    this.service.placeOrder(format(id));
+  }
+}`,
+    }, new TypeScriptStructurer());
+
+    const result = await new CallGraphAnalyzer(languageService).analyze(codeCollector);
+    const graph = new CallGraph(result);
+
+    expect(graph.calleesOf('OrderController.create').map(edge => edge.callee).sort()).toEqual([
+      'src/order.ts#OrderService.placeOrder',
+      'src/order.ts#format',
+    ]);
+    expect(graph.callersOf('format').map(edge => edge.caller).sort()).toEqual([
+      'src/controller.ts#OrderController.create',
+      'src/order.ts#OrderService.placeOrder',
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../TestLanguageService";
+import { ClassDiagramBuilder } from "../../analyzer/ClassDiagramBuilder";
+import { CodeCollector } from "../../analyzer/CodeCollector";
+import { JavaStructurerProvider } from "../../code-context/java/JavaStructurerProvider";
+import { PlantUMLClassDiagramPresenter } from "../../codemodel/presenter/PlantUMLClassDiagramPresenter";
+import { MermaidClassDiagramPresenter } from "../../codemodel/presenter/MermaidClassDiagramPresenter";
+
+const Parser = require('web-tree-sitter');
+
+describe('ClassDiagramBuilder', () => {
+  let workspace: string;
+  let codeCollector: CodeCollector;
+
+  beforeEach(async () => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'class-diagram-'));
+    await Parser.init();
+
+    const structurer = new JavaStructurerProvider();
+    await structurer.init(new TestLanguageServiceProvider(new Parser()));
+    codeCollector = new CodeCollector(workspace);
+
+    const files: Record<string, string> = {
+      'order/pom.xml': '<project/>',
+      'order/src/main/java/com/example/order/OrderService.java': `package com.example.order;
+
+public interface OrderService {
+    Receipt placeOrder(String id);
+}`,
+      'order/src/main/java/com/example/order/OrderServiceImpl.java': `package com.example.order;
+
+import com.example.common.BaseService;
+
+public class OrderServiceImpl extends BaseService implements OrderService {
+    private OrderRepository repository;
+
+    public Receipt placeOrder(String id) {
+        return null;
+    }
+}`,
+      'common/pom.xml': '<project/>',
+      'common/src/main/java/com/example/common/BaseService.java': `package com.example.common;
+
+public class BaseService {
+    protected List<String> names;
+}`,
+    };
+
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = path.join(workspace, name);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+      if (filePath.endsWith('.java')) {
+        codeCollector.addFile(filePath);
+        codeCollector.addCodeFile(filePath, (await structurer.parseFile(content, filePath))!);
+      }
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should build a workspace diagram with implementation and extension relations', () => {
+    const diagram = new ClassDiagramBuilder(codeCollector).build();
+
+    expect(diagram.classes.map(it => `${it.group}:${it.name}`)).toEqual([
+      'com.example.common:BaseService',
+      'com.example.order:OrderService',
+      'com.example.order:OrderServiceImpl',
+    ]);
+    expect(diagram.relations).toEqual(expect.arrayContaining([
+      { from: 'com.example.order.OrderServiceImpl', to: 'com.example.order.OrderService', kind: 'implements' },
+      { from: 'com.example.order.OrderServiceImpl', to: 'com.example.common.BaseService', kind: 'extends' },
+    ]));
+  });
+
+  it('should filter by package prefix and group by module', () => {
+    const builder = new ClassDiagramBuilder(codeCollector, { groupBy: 'module', packagePrefix: 'com.example.order' });
+    const diagram = builder.build();
+
+    expect(diagram.classes.map(it => `${it.group}:${it.name}`)).toEqual(['order:OrderService', 'order:OrderServiceImpl']);
+    expect(diagram.relations).toEqual([
+      { from: 'com.example.order.OrderServiceImpl', to: 'com.example.order.OrderService', kind: 'implements' },
+    ]);
+  });
+
+  it('should keep the parents from other groups in a group diagram', () => {
+    const groups = new ClassDiagramBuilder(codeCollector, { depth: 3 }).buildByGroup();
+
+    expect(groups.map(it => it.name)).toEqual(['com.example.common', 'com.example.order']);
+    expect(groups[1].classes.map(it => it.name)).toEqual(['BaseService', 'OrderService', 'OrderServiceImpl']);
+  });
+
+  it('should render PlantUML and Mermaid class diagrams', () => {
+    const diagram = new ClassDiagramBuilder(codeCollector, { includeFields: true, packagePrefix: 'com.example.order' }).build();
+
+    const plantUml = new PlantUMLClassDiagramPresenter().present(diagram);
+    expect(plantUml).toBe(`@startuml
+title workspace
+package "com.example.order" {
+  interface "OrderService" as com_example_order_OrderService {
+    +placeOrder(id: String): Receipt
+  }
+  class "OrderServiceImpl" as com_example_order_OrderServiceImpl {
+    repository: OrderRepository
+    +placeOrder(id: String): Receipt
+  }
+}
+com_example_order_OrderServiceImpl ..|> com_example_order_OrderService
+@enduml
+`);
+
+    const mermaid = new MermaidClassDiagramPresenter().present(diagram);
+    expect(mermaid).toBe(`---
+title: workspace
+---
+classDiagram
+  namespace com_example_order {
+    class com_example_order_OrderService["OrderService"] {
+      <<interface>>
+      +placeOrder(String id) Receipt
+    }
+    class com_example_order_OrderServiceImpl["OrderServiceImpl"] {
+      OrderRepository repository
+      +placeOrder(String id) Receipt
+    }
+  }
+  com_example_order_OrderServiceImpl ..|> com_example_order_OrderService
+`);
+  });
+});
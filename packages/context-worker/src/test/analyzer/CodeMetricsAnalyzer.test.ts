@@ -0,0 +1,130 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../TestLanguageService";
+import { CodeMetricsAnalyzer } from "../../analyzer/analyzers/CodeMetricsAnalyzer";
+import { CodeCollector } from "../../analyzer/CodeCollector";
+import { JavaStructurerProvider } from "../../code-context/java/JavaStructurerProvider";
+import { TypeScriptStructurer } from "../../code-context/typescript/TypeScriptStructurer";
+
+const Parser = require('web-tree-sitter');
+
+describe('CodeMetricsAnalyzer', () => {
+  let workspace: string;
+  let languageService: TestLanguageServiceProvider;
+
+  beforeEach(async () => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'code-metrics-'));
+    await Parser.init();
+    languageService = new TestLanguageServiceProvider(new Parser());
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  async function collect(files: Record<string, string>, structurer: JavaStructurerProvider | TypeScriptStructurer) {
+    await structurer.init(languageService);
+    const codeCollector = new CodeCollector(workspace);
+
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = path.join(workspace, name);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+
+      const codeFile = await structurer.parseFile(content, filePath);
+      codeCollector.addFile(filePath);
+      codeCollector.addCodeFile(filePath, codeFile!);
+    }
+
+    return codeCollector;
+  }
+
+  it('should measure Java methods and the coupling of packages', async () => {
+    const codeCollector = await collect({
+      'src/main/java/com/example/order/OrderService.java': `package com.example.order;
+
+import com.example.common.Ids;
+import java.util.List;
+
+public class OrderService {
+    public int placeOrder(String id, List<String> items) {
+        // validate the order
+        if (id == null || items.isEmpty()) {
+            return -1;
+        } else if (items.size() > 10) {
+            return 0;
+        }
+
+        for (String item : items) {
+            if (item.isBlank()) {
+                throw new IllegalArgumentException(item);
+            }
+        }
+
+        return items.size();
+    }
+
+    public String format(String id) {
+        return Ids.normalize(id);
+    }
+}`,
+      'src/main/java/com/example/common/Ids.java': `package com.example.common;
+
+public class Ids {
+    public static String normalize(String id) {
+        return id.trim();
+    }
+}`,
+    }, new JavaStructurerProvider());
+
+    const result = await new CodeMetricsAnalyzer(languageService).analyze(codeCollector);
+
+    const placeOrder = result.functions.find(func => func.id === 'com.example.order.OrderService.placeOrder')!;
+    expect(placeOrder.cyclomaticComplexity).toBe(6);
+    expect(placeOrder.maxNestingDepth).toBe(2);
+    expect(placeOrder.loc).toBe(16);
+    expect(placeOrder.sloc).toBe(13);
+    expect(placeOrder.parameterCount).toBe(2);
+
+    const format = result.functions.find(func => func.name === 'format')!;
+    expect(format.cyclomaticComplexity).toBe(1);
+    expect(format.maxNestingDepth).toBe(0);
+
+    expect(result.packages).toEqual([
+      expect.objectContaining({ name: 'com.example.common', afferentCoupling: 1, efferentCoupling: 0, instability: 0 }),
+      expect.objectContaining({ name: 'com.example.order', afferentCoupling: 0, efferentCoupling: 1, instability: 1, dependencies: ['com.example.common'] }),
+    ]);
+    expect(result.stats.maxComplexity).toBe(6);
+  });
+
+  it('should resolve relative TypeScript imports to directories', async () => {
+    const codeCollector = await collect({
+      'src/order/service.ts': `import { format } from '../shared/format';
+import lodash from 'lodash';
+
+export function total(prices: number[], discount?: number): number {
+  const sum = prices.reduce((a, b) => a + b, 0);
+  return discount ? sum - discount : format(sum) ?? 0;
+}
+`,
+      'src/shared/format.ts': `export function format(value: number): number {
+  return value;
+}
+`,
+    }, new TypeScriptStructurer());
+
+    const result = await new CodeMetricsAnalyzer(languageService).analyze(codeCollector);
+
+    const total = result.functions.find(func => func.name === 'total')!;
+    expect(total.id).toBe('src/order/service.ts#total');
+    expect(total.cyclomaticComplexity).toBe(3);
+    expect(total.parameterCount).toBe(2);
+
+    const order = result.packages.find(pkg => pkg.name === 'src/order')!;
+    expect(order.dependencies).toEqual(['src/shared']);
+    expect(result.packages.find(pkg => pkg.name === 'src/shared')!.afferentCoupling).toBe(1);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { diffSnapshots, groupByKey, isEmptyDelta } from "../../analyzer/ContextDelta";
+
+describe('ContextDelta', () => {
+  const byPath = (items: { path: string; content: string }[]) => groupByKey(items, item => item.path);
+
+  it('should report added, changed and removed groups', () => {
+    const before = byPath([
+      { path: 'a.java', content: 'a' },
+      { path: 'b.java', content: 'b' },
+      { path: 'c.java', content: 'c' },
+    ]);
+    const after = byPath([
+      { path: 'a.java', content: 'a' },
+      { path: 'b.java', content: 'b2' },
+      { path: 'd.java', content: 'd' },
+    ]);
+
+    const delta = diffSnapshots(before, after);
+
+    expect(delta.added).toEqual([{ path: 'd.java', content: 'd' }]);
+    expect(delta.changed).toEqual([{ path: 'b.java', content: 'b2' }]);
+    expect(delta.removed).toEqual([{ path: 'c.java', content: 'c' }]);
+  });
+
+  it('should send the whole group when one item of a shared key changes', () => {
+    const before = byPath([
+      { path: 'a.java', content: 'interface' },
+      { path: 'a.java', content: 'extension' },
+    ]);
+    const after = byPath([
+      { path: 'a.java', content: 'interface' },
+      { path: 'a.java', content: 'extension2' },
+    ]);
+
+    const delta = diffSnapshots(before, after);
+
+    expect(delta.changed).toHaveLength(2);
+    expect(delta.added).toHaveLength(0);
+  });
+
+  it('should be empty for identical snapshots', () => {
+    const items = [{ path: 'a.java', content: 'a' }];
+    expect(isEmptyDelta(diffSnapshots(byPath(items), byPath(items)))).toBe(true);
+  });
+});
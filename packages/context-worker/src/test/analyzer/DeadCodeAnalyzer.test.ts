@@ -0,0 +1,152 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../TestLanguageService";
+import { DeadCodeAnalyzer } from "../../analyzer/analyzers/DeadCodeAnalyzer";
+import { CodeCollector } from "../../analyzer/CodeCollector";
+import { JavaStructurerProvider } from "../../code-context/java/JavaStructurerProvider";
+import { TypeScriptStructurer } from "../../code-context/typescript/TypeScriptStructurer";
+
+const Parser = require('web-tree-sitter');
+
+describe('DeadCodeAnalyzer', () => {
+  let workspace: string;
+  let languageService: TestLanguageServiceProvider;
+
+  beforeEach(async () => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'dead-code-'));
+    await Parser.init();
+    languageService = new TestLanguageServiceProvider(new Parser());
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  async function collect(files: Record<string, string>, structurer: JavaStructurerProvider | TypeScriptStructurer) {
+    await structurer.init(languageService);
+    const codeCollector = new CodeCollector(workspace);
+
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = path.join(workspace, name);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+
+      const codeFile = await structurer.parseFile(content, filePath);
+      codeCollector.addFile(filePath);
+      codeCollector.addCodeFile(filePath, codeFile!);
+    }
+
+    return codeCollector;
+  }
+
+  it('should report unreferenced Java classes and methods but keep entry points', async () => {
+    const codeCollector = await collect({
+      'src/main/java/com/example/order/OrderService.java': `package com.example.order;
+
+public interface OrderService {
+    void placeOrder(String id);
+}`,
+      'src/main/java/com/example/order/OrderServiceImpl.java': `package com.example.order;
+
+public class OrderServiceImpl implements OrderService {
+    public void placeOrder(String id) {
+        validate(id);
+    }
+
+    private void validate(String id) {
+    }
+
+    private String format(String id) {
+        return id.trim();
+    }
+}`,
+      'src/main/java/com/example/order/LegacyExporter.java': `package com.example.order;
+
+public class LegacyExporter {
+    public void export() {
+    }
+}`,
+      'src/main/java/com/example/order/OrderJob.java': `package com.example.order;
+
+import org.springframework.stereotype.Component;
+
+@Component
+public class OrderJob {
+    @Scheduled(fixedRate = 1000)
+    public void expireOrders() {
+    }
+}`,
+      'src/main/java/com/example/Application.java': `package com.example;
+
+import com.example.order.OrderService;
+
+public class Application {
+    public static void main(String[] args) {
+        OrderService service = null;
+        service.placeOrder("1");
+    }
+}`,
+      'src/test/java/com/example/order/OrderServiceTest.java': `package com.example.order;
+
+public class OrderServiceTest {
+    public void shouldPlaceOrder() {
+    }
+}`,
+    }, new JavaStructurerProvider());
+
+    const result = await new DeadCodeAnalyzer().analyze(codeCollector);
+    const ids = result.unused.map(item => item.id);
+
+    expect(ids).toContain('com.example.order.LegacyExporter');
+    expect(ids).toContain('com.example.order.LegacyExporter.export');
+    expect(ids).toContain('com.example.order.OrderServiceImpl.format');
+
+    expect(ids).not.toContain('com.example.order.OrderServiceImpl.validate');
+    expect(ids).not.toContain('com.example.order.OrderServiceImpl.placeOrder');
+    expect(ids).not.toContain('com.example.order.OrderService.placeOrder');
+    expect(ids).not.toContain('com.example.order.OrderJob');
+    expect(ids).not.toContain('com.example.order.OrderJob.expireOrders');
+    expect(ids).not.toContain('com.example.Application.main');
+    expect(ids.some(id => id.includes('OrderServiceTest'))).toBe(false);
+
+    expect(result.stats.unusedClasses).toBe(1);
+    expect(result.stats.unusedMethods).toBe(2);
+    expect(result.stats.entryPoints).toBeGreaterThan(0);
+  });
+
+  it('should report exported TypeScript functions nothing imports', async () => {
+    const codeCollector = await collect({
+      'src/format.ts': `export function formatPrice(price: number): string {
+  return price.toFixed(2);
+}
+
+export function formatLegacyPrice(price: number): string {
+  return '$' + price;
+}`,
+      'src/cart.ts': `import { formatPrice } from './format';
+
+export function cartTotal(prices: number[]): string {
+  return formatPrice(prices.reduce((sum, price) => sum + price, 0));
+}`,
+      'src/index.ts': `export { cartTotal } from './cart';
+
+export function version(): string {
+  return '1.0.0';
+}`,
+      'src/cart.test.ts': `import { cartTotal } from './cart';
+
+export function checkTotal() {
+  return cartTotal([1, 2]);
+}`,
+    }, new TypeScriptStructurer());
+
+    const result = await new DeadCodeAnalyzer().analyze(codeCollector);
+
+    expect(result.unused.map(item => item.id)).toEqual(['src/format.ts#formatLegacyPrice']);
+    expect(result.unused[0]).toMatchObject({ kind: 'function', name: 'formatLegacyPrice', position: { start: { row: 4 } } });
+    expect(result.stats.unusedFunctions).toBe(1);
+  });
+});
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MessageChannel } from 'worker_threads';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { ParseWorkerPool, runParseWorker } from "../../analyzer/ParseWorkerPool";
+import { TestLanguageServiceProvider } from "../TestLanguageService";
+
+const Parser = require('web-tree-sitter');
+
+describe('ParseWorkerPool', () => {
+  let workspace: string;
+  let workerScript: string;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'parse-worker-pool-'));
+    // a stand-in worker speaking the same protocol as the parse worker, the real one needs the compiled bundle
+    workerScript = path.join(workspace, 'worker.js');
+    fs.writeFileSync(workerScript, `
+const { parentPort, threadId } = require('worker_threads');
+parentPort.on('message', ({ id, file, content, language }) => {
+  if (content === 'crash') process.exit(2);
+  if (content === 'boom') {
+    parentPort.postMessage({ id, error: 'SyntaxError: boom' });
+    return;
+  }
+  parentPort.postMessage({ id, codeFile: { name: file, filepath: file, language, package: String(threadId), imports: [], classes: [] } });
+});
+`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should parse on several workers and keep the order of the files', async () => {
+    const pool = new ParseWorkerPool(3, workspace, false, workerScript);
+    const tasks = Array.from({ length: 12 }, (_, index) => ({
+      file: `File${index}.java`,
+      content: index === 5 ? 'boom' : 'class A {}',
+      language: 'java',
+    }));
+    const progress: number[] = [];
+
+    try {
+      const results = await pool.parseAll(tasks, done => progress.push(done));
+
+      expect(results.map(it => it?.name)).toEqual(tasks.map((task, index) => index === 5 ? undefined : task.file));
+      expect(new Set(results.filter(it => it).map(it => it!.package)).size).toBeGreaterThan(1);
+      expect(progress).toEqual(tasks.map((_, index) => index + 1));
+    } finally {
+      pool.dispose();
+    }
+  });
+
+  it('should hand the files of a crashed worker to the others', async () => {
+    const pool = new ParseWorkerPool(2, workspace, false, workerScript);
+    const tasks = ['class A {}', 'crash', 'class B {}', 'class C {}'].map((content, index) => ({
+      file: `File${index}.java`,
+      content,
+      language: 'java',
+    }));
+
+    try {
+      const results = await pool.parseAll(tasks);
+
+      expect(results.map(it => it?.name)).toEqual(['File0.java', undefined, 'File2.java', 'File3.java']);
+    } finally {
+      pool.dispose();
+    }
+  });
+
+  it('should parse the files left by the crashed workers on the main thread', async () => {
+    const pool = new ParseWorkerPool(2, workspace, false, workerScript);
+    const tasks = ['crash', 'crash', 'class B {}', 'class C {}'].map((content, index) => ({
+      file: `File${index}.java`,
+      content,
+      language: 'java',
+    }));
+    const progress: number[] = [];
+
+    try {
+      const results = await pool.parseAll(tasks, done => progress.push(done), async task => ({
+        name: task.file, filepath: task.file, language: task.language, package: 'main', imports: [], classes: [],
+      }));
+
+      expect(results.map(it => it?.package)).toEqual([undefined, undefined, 'main', 'main']);
+      expect(progress).toEqual([1, 2, 3, 4]);
+    } finally {
+      pool.dispose();
+    }
+  });
+
+  it('should parse a file with the real parse worker', async () => {
+    await Parser.init();
+    const { port1, port2 } = new MessageChannel();
+
+    try {
+      await runParseWorker({ type: 'autodev-parse-worker', dirPath: workspace }, port1, new TestLanguageServiceProvider(new Parser()));
+      const response = new Promise<any>(resolve => port2.once('message', resolve));
+      port2.postMessage({ id: 7, file: 'Hello.java', content: 'package com.example;\nclass Hello { void greet() {} }', language: 'java' });
+
+      const { id, codeFile, error } = await response;
+      expect(error).toBeUndefined();
+      expect(id).toBe(7);
+      expect(codeFile.package).toBe('com.example');
+      expect(codeFile.classes.map((it: any) => it.name)).toEqual(['Hello']);
+    } finally {
+      port1.close();
+      port2.close();
+    }
+  });
+
+  it('should only be available for compiled scripts', () => {
+    expect(ParseWorkerPool.isAvailable('/app/dist/autodev-context-worker.js')).toBe(true);
+    expect(ParseWorkerPool.isAvailable('/app/src/analyzer/ParseWorkerPool.ts')).toBe(false);
+  });
+});
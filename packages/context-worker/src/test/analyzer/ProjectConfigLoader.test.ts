@@ -0,0 +1,82 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { createPathFilter, loadProjectConfig, loadProjectPlugins } from "../../analyzer/ProjectConfigLoader";
+import { FileSystemScanner } from "../../analyzer/FileSystemScanner";
+
+describe('ProjectConfigLoader', () => {
+  let workspace: string;
+
+  const writeFile = (relativePath: string, content: string) => {
+    const filePath = path.join(workspace, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'project-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should read the json config and drop invalid entries', () => {
+    writeFile('autodev.config.json', JSON.stringify({
+      include: ['src/**'],
+      exclude: 'generated',
+      languages: { php: ['.inc'], cpp: '.h' },
+    }));
+
+    expect(loadProjectConfig(workspace)).toEqual({
+      include: ['src/**'],
+      exclude: undefined,
+      plugins: undefined,
+      languages: { php: ['.inc'] },
+    });
+  });
+
+  it('should load code of the repository only when plugins are allowed', () => {
+    writeFile('autodev.config.js', "module.exports = { include: ['lib/**'], plugins: ['./tools/plugin.js'] };");
+
+    expect(loadProjectConfig(workspace)).toBeUndefined();
+    expect(loadProjectConfig(workspace, true)).toEqual({ include: ['lib/**'], plugins: ['./tools/plugin.js'] });
+
+    writeFile('autodev.config.json', JSON.stringify({ include: ['src/**'], plugins: ['./tools/plugin.js'] }));
+
+    expect(loadProjectConfig(workspace)).toEqual({ include: ['src/**'] });
+    expect(loadProjectConfig(workspace, true)?.plugins).toEqual(['./tools/plugin.js']);
+  });
+
+  it('should return undefined without a config file', () => {
+    expect(loadProjectConfig(workspace)).toBeUndefined();
+  });
+
+  it('should load the providers exported by plugin scripts', () => {
+    writeFile('tools/plugin.js', `
+class RpcAnalyser {}
+module.exports = { httpApiAnalysers: [RpcAnalyser, 'not a class'] };
+`);
+    writeFile('tools/empty.js', 'module.exports = {};');
+
+    const plugins = loadProjectPlugins(workspace, ['./tools/plugin.js', './tools/empty.js', 'missing-autodev-plugin']);
+
+    expect(plugins.length).toBe(1);
+    expect(plugins[0].name).toBe('./tools/plugin.js');
+    expect(plugins[0].structurers).toEqual([]);
+    expect(plugins[0].httpApiAnalysers.map(it => it.name)).toEqual(['RpcAnalyser']);
+  });
+
+  it('should scan only the included files which are not excluded', async () => {
+    writeFile('src/app.ts', '');
+    writeFile('src/generated/client.ts', '');
+    writeFile('scripts/build.ts', '');
+
+    const scanner = new FileSystemScanner(createPathFilter({ include: ['src/**'], exclude: ['**/generated/**'] }));
+    const files = await scanner.scanDirectory(workspace);
+
+    expect(files.map(file => path.relative(workspace, file))).toEqual([path.join('src', 'app.ts')]);
+  });
+});
@@ -0,0 +1,147 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../TestLanguageService";
+import { TestMappingAnalyzer } from "../../analyzer/analyzers/TestMappingAnalyzer";
+import { CodeCollector } from "../../analyzer/CodeCollector";
+import { isTestFile, testSubjectName } from "../../analyzer/TestFiles";
+import { JavaStructurerProvider } from "../../code-context/java/JavaStructurerProvider";
+import { TypeScriptStructurer } from "../../code-context/typescript/TypeScriptStructurer";
+
+const Parser = require('web-tree-sitter');
+
+describe('TestMappingAnalyzer', () => {
+  let workspace: string;
+  let languageService: TestLanguageServiceProvider;
+
+  beforeEach(async () => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'test-mapping-'));
+    await Parser.init();
+    languageService = new TestLanguageServiceProvider(new Parser());
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  async function collect(files: Record<string, string>, structurer: JavaStructurerProvider | TypeScriptStructurer) {
+    await structurer.init(languageService);
+    const codeCollector = new CodeCollector(workspace);
+
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = path.join(workspace, name);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+
+      const codeFile = await structurer.parseFile(content, filePath);
+      codeCollector.addFile(filePath);
+      codeCollector.addCodeFile(filePath, codeFile!);
+    }
+
+    return codeCollector;
+  }
+
+  it('should tell test files and their subjects by path', () => {
+    expect(isTestFile('src/test/java/com/example/OrderServiceTest.java')).toBe(true);
+    expect(isTestFile('src/order.test.ts')).toBe(true);
+    expect(isTestFile('pkg/order/order_test.go')).toBe(true);
+    expect(isTestFile('src/main/java/com/example/OrderService.java')).toBe(false);
+
+    expect(testSubjectName('OrderServiceTest.java')).toBe('OrderService');
+    expect(testSubjectName('order.spec.ts')).toBe('order');
+    expect(testSubjectName('test_order.py')).toBe('order');
+    expect(testSubjectName('order_test.go')).toBe('order');
+  });
+
+  it('should link JUnit test cases to the methods they call and report untested public methods', async () => {
+    const codeCollector = await collect({
+      'src/main/java/com/example/order/OrderService.java': `package com.example.order;
+
+public class OrderService {
+    public void placeOrder(String id) {
+        validate(id);
+    }
+
+    public void cancelOrder(String id) {
+    }
+
+    private void validate(String id) {
+    }
+}`,
+      'src/test/java/com/example/order/OrderServiceTest.java': `package com.example.order;
+
+import org.junit.jupiter.api.Test;
+
+class OrderServiceTest {
+    private final OrderService service = new OrderService();
+
+    @Test
+    void placesOrder() {
+        service.placeOrder("1");
+    }
+
+    private void helper() {
+    }
+}`,
+    }, new JavaStructurerProvider());
+
+    const result = await new TestMappingAnalyzer().analyze(codeCollector);
+
+    expect(result.testFiles).toHaveLength(1);
+    const testFile = result.testFiles[0];
+    expect(testFile.framework).toBe('junit');
+    expect(testFile.targetFiles).toEqual([path.join(workspace, 'src/main/java/com/example/order/OrderService.java')]);
+    expect(testFile.testCases.map(testCase => testCase.name)).toEqual(['placesOrder']);
+    expect(testFile.testCases[0].suite).toBe('OrderServiceTest');
+    expect(testFile.testCases[0].targets).toEqual(['com.example.order.OrderService.placeOrder']);
+
+    expect(result.testsByFile[path.join(workspace, 'src/main/java/com/example/order/OrderService.java')])
+      .toEqual([path.join(workspace, 'src/test/java/com/example/order/OrderServiceTest.java')]);
+    expect(result.untested.map(method => method.id)).toEqual(['com.example.order.OrderService.cancelOrder']);
+    expect(result.stats).toEqual({ testFiles: 1, testCases: 1, testedFiles: 1, productionFiles: 1, untestedMethods: 1 });
+  });
+
+  it('should link Vitest cases through relative imports and describe blocks', async () => {
+    const codeCollector = await collect({
+      'src/pricing.ts': `export function totalPrice(items: number[]): number {
+  return items.reduce((sum, item) => sum + item, 0);
+}
+
+export function discount(total: number): number {
+  return total > 100 ? total * 0.9 : total;
+}
+`,
+      'src/cart.ts': `export function addItem(items: number[], item: number): number[] {
+  return [...items, item];
+}
+`,
+      'test/pricing.test.ts': `import { describe, expect, it } from 'vitest';
+import { discount, totalPrice } from '../src/pricing';
+
+describe('pricing', () => {
+  it('sums the items', () => {
+    expect(totalPrice([1, 2])).toBe(3);
+  });
+
+  it('applies a discount above 100', () => {
+    expect(discount(200)).toBe(180);
+  });
+});
+`,
+    }, new TypeScriptStructurer());
+
+    const result = await new TestMappingAnalyzer().analyze(codeCollector);
+
+    expect(result.testFiles).toHaveLength(1);
+    const testFile = result.testFiles[0];
+    expect(testFile.framework).toBe('vitest');
+    expect(testFile.targetFiles).toEqual([path.join(workspace, 'src/pricing.ts')]);
+    expect(testFile.testCases.map(testCase => [testCase.suite, testCase.name, testCase.targets])).toEqual([
+      ['pricing', 'sums the items', ['src/pricing.ts#totalPrice']],
+      ['pricing', 'applies a discount above 100', ['src/pricing.ts#discount']],
+    ]);
+    expect(result.untested.map(method => method.id)).toEqual(['src/cart.ts#addItem']);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('inquirer', () => ({
+  default: {
+    prompt: vi.fn(async () => ({
+      dirPath: process.cwd(),
+      upload: false,
+      outputDir: 'materials',
+      outputJsonFile: 'analysis_result.json',
+      projectId: 'demo',
+      analysisTypes: ['interface', 'symbol']
+    }))
+  }
+}));
+
+import { UserInputHandler } from "../../cli/cli";
+import { AppConfig, DEFAULT_CONFIG } from "../../types/AppConfig";
+
+describe('UserInputHandler', () => {
+  it('should keep the options the prompt does not ask for', async () => {
+    const currentConfig: AppConfig = {
+      ...DEFAULT_CONFIG,
+      jobs: 4,
+      openApiOutput: 'openapi.yaml',
+      protoPaths: ['proto'],
+      diagram: { groupBy: 'module' },
+      analysisTypes: { ...DEFAULT_CONFIG.analysisTypes, metrics: false, deadCode: false }
+    };
+
+    const config = await new UserInputHandler().getAppConfig(currentConfig);
+
+    expect(config).toMatchObject({
+      projectId: 'demo',
+      jobs: 4,
+      openApiOutput: 'openapi.yaml',
+      protoPaths: ['proto'],
+      diagram: { groupBy: 'module' }
+    });
+    expect(config.analysisTypes).toEqual({
+      ...currentConfig.analysisTypes,
+      interface: true,
+      api: false,
+      symbol: true,
+      dependency: false,
+      metrics: false,
+      deadCode: false
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../TestLanguageService";
+import { DataModelAnalyzer } from "../../analyzer/analyzers/DataModelAnalyzer";
+import { CodeCollector } from "../../analyzer/CodeCollector";
+import { JavaStructurerProvider } from "../../code-context/java/JavaStructurerProvider";
+import { PythonStructurer } from "../../code-context/python/PythonStructurer";
+import { TypeScriptStructurer } from "../../code-context/typescript/TypeScriptStructurer";
+
+const Parser = require('web-tree-sitter');
+
+describe('DataModelAnalyzer', () => {
+  let workspace: string;
+  let languageService: TestLanguageServiceProvider;
+
+  beforeEach(async () => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'data-model-'));
+    await Parser.init();
+    languageService = new TestLanguageServiceProvider(new Parser());
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  function structurerOf(name: string) {
+    switch (path.extname(name)) {
+      case '.java':
+        return new JavaStructurerProvider();
+      case '.ts':
+        return new TypeScriptStructurer();
+      case '.py':
+        return new PythonStructurer();
+      default:
+        return undefined;
+    }
+  }
+
+  async function analyze(files: Record<string, string>) {
+    const codeCollector = new CodeCollector(workspace);
+
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = path.join(workspace, name);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+
+      const structurer = structurerOf(name);
+      if (structurer) {
+        await structurer.init(languageService);
+        codeCollector.addFile(filePath);
+        codeCollector.addCodeFile(filePath, (await structurer.parseFile(content, filePath))!);
+      }
+    }
+
+    return new DataModelAnalyzer().analyze(codeCollector);
+  }
+
+  it('should read JPA entities and merge them with the Flyway migrations', async () => {
+    const result = await analyze({
+      'src/main/java/com/example/order/Order.java': `package com.example.order;
+
+import jakarta.persistence.*;
+import java.math.BigDecimal;
+import java.util.List;
+
+@Entity
+@Table(name = "orders")
+public class Order {
+    @Id
+    @GeneratedValue(strategy = GenerationType.IDENTITY)
+    private Long id;
+
+    @Column(name = "total_amount", nullable = false)
+    private BigDecimal total;
+
+    @ManyToOne(optional = false)
+    @JoinColumn(name = "customer_id")
+    private Customer customer;
+
+    @OneToMany(mappedBy = "order", cascade = CascadeType.ALL)
+    private List<OrderLine> lines = new ArrayList<>();
+
+    @Transient
+    private String summary;
+
+    public BigDecimal getTotal() {
+        BigDecimal sum = BigDecimal.ZERO;
+        return total;
+    }
+}
+`,
+      'src/main/java/com/example/order/Customer.java': `package com.example.order;
+
+import jakarta.persistence.*;
+
+@Entity
+public class Customer {
+    @Id
+    private Long id;
+
+    @Column(unique = true)
+    private String email;
+}
+`,
+      'src/main/java/com/example/order/OrderLine.java': `package com.example.order;
+
+import jakarta.persistence.*;
+
+@Entity
+public class OrderLine {
+    @Id
+    private Long id;
+
+    @ManyToOne
+    private Order order;
+
+    private int quantity;
+}
+`,
+      'src/main/resources/db/migration/V1__init.sql': `
+CREATE TABLE customer (
+    id BIGSERIAL PRIMARY KEY,
+    email VARCHAR(255) NOT NULL UNIQUE
+);
+
+CREATE TABLE orders (
+    id BIGSERIAL PRIMARY KEY,
+    customer_id BIGINT NOT NULL REFERENCES customer (id),
+    total_amount DECIMAL(10, 2) NOT NULL,
+    legacy_code VARCHAR(20)
+);
+`,
+      'src/main/resources/db/migration/V2__drop_legacy_code.sql': `
+ALTER TABLE orders DROP COLUMN legacy_code;
+ALTER TABLE orders ADD COLUMN placed_at TIMESTAMP WITH TIME ZONE;
+`,
+    });
+
+    const orders = result.tables.find(table => table.name === 'orders')!;
+    expect(orders.entity).toBe('Order');
+    expect(orders.sources).toEqual(['jpa', 'sql']);
+    expect(orders.columns.map(column => column.name)).toEqual(['id', 'total_amount', 'customer_id', 'placed_at']);
+    expect(orders.columns.find(column => column.name === 'total_amount')).toMatchObject({ type: 'BigDecimal', nullable: false, field: 'total' });
+    expect(orders.columns.find(column => column.name === 'customer_id')).toMatchObject({ type: 'BIGINT', nullable: false });
+
+    expect(result.tables.map(table => table.name)).toEqual(['customer', 'order_line', 'orders']);
+    expect(result.tables.find(table => table.name === 'customer')!.columns.find(column => column.name === 'email')!.unique).toBe(true);
+
+    expect(result.relationships).toEqual([
+      { from: 'orders', to: 'customer', cardinality: 'many-to-one', foreignKey: 'customer_id', field: 'customer' },
+      { from: 'order_line', to: 'orders', cardinality: 'many-to-one', foreignKey: 'order_id', field: 'order' },
+    ]);
+
+    expect(result.erDiagram).toContain('    customer ||--o{ orders : "customer_id"');
+    expect(result.erDiagram).toContain('    orders |o--o{ order_line : "order_id"');
+    expect(result.erDiagram).toContain('        BigDecimal total_amount');
+  });
+
+  it('should read TypeORM entities, SQLAlchemy and Django models', async () => {
+    const result = await analyze({
+      'src/user.entity.ts': `import { Column, Entity, OneToMany, PrimaryGeneratedColumn } from 'typeorm';
+import { Photo } from './photo.entity';
+
+@Entity('users')
+export class User {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 100, unique: true })
+  name: string;
+
+  @OneToMany(() => Photo, (photo) => photo.user)
+  photos: Photo[];
+}
+`,
+      'src/photo.entity.ts': `import { Column, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { User } from './user.entity';
+
+@Entity()
+export class Photo {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('text', { nullable: true })
+  description: string | null;
+
+  @ManyToOne(() => User, (user) => user.photos)
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+}
+`,
+      'app/models.py': `from sqlalchemy import Column, ForeignKey, Integer, String
+from sqlalchemy.orm import relationship
+
+class Author(Base):
+    __tablename__ = "authors"
+
+    id = Column(Integer, primary_key=True)
+    name = Column(String(50), nullable=False)
+    books = relationship("Book", back_populates="author")
+
+
+class Book(Base):
+    __tablename__ = "books"
+
+    id = Column(Integer, primary_key=True)
+    author_id = Column(Integer, ForeignKey("authors.id"))
+    author = relationship("Author", back_populates="books")
+`,
+      'shop/models.py': `from django.db import models
+
+
+class Product(models.Model):
+    title = models.CharField(max_length=200)
+    tags = models.ManyToManyField("Tag")
+
+
+class Tag(models.Model):
+    label = models.CharField(max_length=50, unique=True)
+
+    class Meta:
+        db_table = "tags"
+`,
+    });
+
+    expect(result.tables.map(table => `${table.name}:${table.sources.join(',')}`)).toEqual([
+      'authors:sqlalchemy', 'books:sqlalchemy', 'photo:typeorm', 'shop_product:django', 'tags:django', 'users:typeorm',
+    ]);
+
+    const photo = result.tables.find(table => table.name === 'photo')!;
+    expect(photo.columns).toEqual([
+      { name: 'id', type: 'number', primaryKey: true, nullable: false, unique: false },
+      { name: 'description', type: 'text', primaryKey: false, nullable: true, unique: false },
+      { name: 'user_id', type: 'number', primaryKey: false, nullable: true, unique: false, field: 'user' },
+    ]);
+    expect(result.tables.find(table => table.name === 'users')!.columns[1]).toMatchObject({ name: 'name', unique: true });
+    expect(result.tables.find(table => table.name === 'authors')!.columns[1]).toMatchObject({ name: 'name', type: 'String(50)', nullable: false });
+    expect(result.tables.find(table => table.name === 'shop_product')!.columns.map(column => column.name)).toEqual(['id', 'title']);
+
+    expect(result.relationships).toEqual([
+      { from: 'photo', to: 'users', cardinality: 'many-to-one', foreignKey: 'user_id', field: 'user' },
+      { from: 'books', to: 'authors', cardinality: 'many-to-one', foreignKey: 'author_id', field: 'author_id' },
+      { from: 'shop_product', to: 'tags', cardinality: 'many-to-many', field: 'tags' },
+    ]);
+  });
+
+  it('should read Prisma models and Liquibase changelogs', async () => {
+    const result = await analyze({
+      'prisma/schema.prisma': `
+model User {
+  id      Int      @id @default(autoincrement())
+  email   String   @unique
+  posts   Post[]
+  profile Profile?
+
+  @@map("users")
+}
+
+model Profile {
+  id     Int    @id
+  bio    String?
+  user   User   @relation(fields: [userId], references: [id])
+  userId Int    @unique @map("user_id")
+}
+
+model Post {
+  id       Int    @id
+  author   User   @relation(fields: [authorId], references: [id])
+  authorId Int
+  tags     Tag[]
+}
+
+model Tag {
+  name  String @id
+  posts Post[]
+}
+`,
+      'src/main/resources/db/changelog/db.changelog-master.yaml': `databaseChangeLog:
+  - changeSet:
+      id: 1
+      author: dev
+      changes:
+        - createTable:
+            tableName: invoice
+            columns:
+              - column:
+                  name: id
+                  type: bigint
+                  constraints:
+                    primaryKey: true
+              - column:
+                  name: user_id
+                  type: int
+                  constraints:
+                    nullable: false
+                    references: users(id)
+                    foreignKeyName: fk_invoice_user
+`,
+    });
+
+    expect(result.tables.map(table => `${table.name}:${table.entity ?? ''}`)).toEqual([
+      'invoice:', 'Post:Post', 'Profile:Profile', 'Tag:Tag', 'users:User',
+    ]);
+    expect(result.tables.find(table => table.name === 'Profile')!.columns.find(column => column.field === 'userId'))
+      .toEqual({ name: 'user_id', type: 'Int', primaryKey: false, nullable: false, unique: true, field: 'userId' });
+
+    expect(result.relationships).toEqual([
+      { from: 'Profile', to: 'users', cardinality: 'one-to-one', foreignKey: 'user_id', field: 'user' },
+      { from: 'Post', to: 'users', cardinality: 'many-to-one', foreignKey: 'authorId', field: 'author' },
+      { from: 'invoice', to: 'users', cardinality: 'many-to-one', foreignKey: 'user_id' },
+      { from: 'Post', to: 'Tag', cardinality: 'many-to-many', field: 'tags' },
+    ]);
+    expect(result.erDiagram).toContain('    users ||--o| Profile : "user_id"');
+    expect(result.erDiagram).toContain('    Post }o--o{ Tag : "tags"');
+    expect(result.stats).toEqual({ totalTables: 5, totalColumns: 10, totalRelationships: 4, sources: ['liquibase', 'prisma'] });
+  });
+});
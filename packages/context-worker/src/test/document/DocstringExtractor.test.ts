@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../TestLanguageService";
+import { DocstringExtractor } from "../../document/DocstringExtractor";
+import { JavaStructurerProvider } from "../../code-context/java/JavaStructurerProvider";
+import { PythonStructurer } from "../../code-context/python/PythonStructurer";
+import { TypeScriptStructurer } from "../../code-context/typescript/TypeScriptStructurer";
+
+const Parser = require('web-tree-sitter');
+
+describe('DocstringExtractor', () => {
+  let languageService: TestLanguageServiceProvider;
+
+  beforeEach(async () => {
+    await Parser.init();
+    languageService = new TestLanguageServiceProvider(new Parser());
+  });
+
+  it('should link Javadoc to classes and methods over annotations', async () => {
+    const code = `package com.example;
+
+/**
+ * Places and cancels orders.
+ */
+@Service
+public class OrderService {
+    /**
+     * Place an order.
+     * @param id the order id
+     */
+    @Transactional
+    public void placeOrder(String id) {
+    }
+
+    /* not a doc comment */
+    public void cancel(String id) {
+    }
+}
+`;
+    const structurer = new JavaStructurerProvider();
+    await structurer.init(languageService);
+    const codeFile = await structurer.parseFile(code, 'OrderService.java');
+
+    const docstrings = new DocstringExtractor().extract(codeFile!, code);
+
+    expect(docstrings.map(({ symbol, kind, docstring }) => ({ symbol, kind, docstring }))).toEqual([
+      { symbol: 'com.example.OrderService', kind: 'class', docstring: 'Places and cancels orders.' },
+      { symbol: 'com.example.OrderService.placeOrder', kind: 'method', docstring: 'Place an order.\n@param id the order id' },
+    ]);
+    expect(docstrings[1].position.start.row).toBe(7);
+    expect(docstrings[1].position.end.row).toBe(10);
+  });
+
+  it('should link JSDoc to TypeScript functions', async () => {
+    const code = `/** Add two numbers */
+export function add(a: number, b: number): number {
+  return a + b;
+}
+
+export function sub(a: number, b: number): number {
+  return a - b;
+}
+`;
+    const structurer = new TypeScriptStructurer();
+    await structurer.init(languageService);
+    const codeFile = await structurer.parseFile(code, 'math.ts');
+
+    const docstrings = new DocstringExtractor().extract(codeFile!, code);
+
+    expect(docstrings).toHaveLength(1);
+    expect(docstrings[0].symbol).toMatch(/add$/);
+    expect(docstrings[0].kind).toBe('function');
+    expect(docstrings[0].docstring).toBe('Add two numbers');
+  });
+
+  it('should collect Python docstrings of classes and methods', async () => {
+    const code = `class Greeter:
+    """Say hello."""
+
+    def greet(self, name: str) -> str:
+        """
+        Greet someone.
+
+        :param name: who to greet
+        """
+        return f"Hello {name}"
+
+    def bye(self):
+        return "bye"
+`;
+    const structurer = new PythonStructurer();
+    await structurer.init(languageService);
+    const codeFile = await structurer.parseFile(code, 'greeter.py');
+
+    const docstrings = new DocstringExtractor().extract(codeFile!, code);
+
+    expect(docstrings.map(({ symbol, docstring }) => ({ symbol, docstring }))).toEqual([
+      { symbol: 'Greeter', docstring: 'Say hello.' },
+      { symbol: 'Greeter.greet', docstring: 'Greet someone.\n\n:param name: who to greet' },
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+
+import { MarkdownAnalyser } from "../../document/MarkdownAnalyser";
+import { MdxAnalyser } from "../../document/MdxAnalyser";
+import { ReSTAnalyser } from "../../document/ReSTAnalyser";
+import { AsciiDocAnalyser } from "../../document/AsciiDocAnalyser";
+import { documentAnalyserOf } from "../../document/DocumentAnalysers";
+
+describe('DocumentAnalyser', () => {
+  it('should route documents by extension', () => {
+    expect(documentAnalyserOf('docs/guide.md')).toBeInstanceOf(MarkdownAnalyser);
+    expect(documentAnalyserOf('docs/guide.mdx')).toBeInstanceOf(MdxAnalyser);
+    expect(documentAnalyserOf('docs/index.rst')).toBeInstanceOf(ReSTAnalyser);
+    expect(documentAnalyserOf('docs/index.ADOC')).toBeInstanceOf(AsciiDocAnalyser);
+    expect(documentAnalyserOf('src/main.ts')).toBeUndefined();
+  });
+
+  it('should split markdown prose by heading without code', async () => {
+    const markdown = `Intro text.
+
+# Install
+
+Run the installer:
+
+\`\`\`bash
+npm install
+\`\`\`
+
+- first
+- second
+`;
+
+    const sections = await new MarkdownAnalyser().sections(markdown);
+
+    expect(sections).toEqual([
+      { heading: '', content: 'Intro text.', startLine: 0, endLine: 0 },
+      { heading: 'Install', content: 'Run the installer:\n\n- first\n- second', startLine: 2, endLine: 11 },
+    ]);
+  });
+
+  it('should skip the ESM lines of MDX and keep code block offsets', async () => {
+    const mdx = `import Tabs from '@theme/Tabs';
+
+# Usage
+
+Call it:
+
+\`\`\`js
+import { run } from 'lib';
+run();
+\`\`\`
+`;
+
+    const analyser = new MdxAnalyser();
+    const [block] = await analyser.parse(mdx);
+    const sections = await analyser.sections(mdx);
+
+    expect(block.code).toBe("import { run } from 'lib';\nrun();");
+    expect(mdx.substring(block.startIndex!, block.endIndex!)).toContain("run();");
+    expect(sections.map(section => section.content)).toEqual(['Call it:']);
+  });
+
+  it('should collect ReST code directives and prose', async () => {
+    const rst = `Guide
+=====
+
+Install the package::
+
+    pip install demo
+
+.. code-block:: python
+   :linenos:
+
+    import demo
+    demo.run()
+
+.. note::
+
+   Requires Python 3.
+`;
+
+    const analyser = new ReSTAnalyser();
+    const blocks = await analyser.parse(rst);
+    const sections = await analyser.sections(rst);
+
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].language).toBe('python');
+    expect(blocks[0].code).toBe('import demo\ndemo.run()');
+    expect(rst.substring(blocks[0].startIndex!, blocks[0].endIndex!).trim()).toBe('import demo\n    demo.run()');
+    expect(sections).toHaveLength(1);
+    expect(sections[0].heading).toBe('Guide');
+    expect(sections[0].content).toBe('Install the package:\n\n   Requires Python 3.');
+  });
+
+  it('should collect AsciiDoc source blocks and prose', async () => {
+    const adoc = `= Demo
+:toc: left
+
+== Getting Started
+
+Create a controller.
+
+[source,java]
+----
+@RestController
+class Hello {}
+----
+
+NOTE: Spring Boot 3 is required.
+`;
+
+    const analyser = new AsciiDocAnalyser();
+    const blocks = await analyser.parse(adoc);
+    const sections = await analyser.sections(adoc);
+
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].language).toBe('java');
+    expect(blocks[0].lastTitle).toBe('Getting Started');
+    expect(adoc.substring(blocks[0].startIndex!, blocks[0].endIndex!)).toBe('@RestController\nclass Hello {}');
+    expect(sections).toEqual([
+      {
+        heading: 'Getting Started',
+        content: 'Create a controller.\n\nNOTE: Spring Boot 3 is required.',
+        startLine: 3,
+        endLine: 13,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { GraphQLResourceGenerator, parseGraphQLFile, scanGraphQLFiles } from "../../graphql/GraphQLResourceGenerator";
+import { GraphQLSchemaParser } from "../../graphql/GraphQLSchemaParser";
+
+const SCHEMA = `"""
+A user of the shop
+"""
+type User implements Node & Entity @key(fields: "id") {
+  id: ID!
+  "the display name"
+  name: String
+  orders(first: Int = 10, status: [OrderStatus!] = [OPEN]): [Order!]!
+}
+
+enum OrderStatus {
+  OPEN
+  "shipped to the customer"
+  SHIPPED @deprecated(reason: "use DONE")
+}
+
+union SearchResult = | User | Order
+
+input CreateUserInput {
+  name: String!
+  tags: [String] = []
+}
+
+scalar DateTime
+
+directive @key(fields: String!) repeatable on OBJECT | INTERFACE
+
+schema {
+  query: RootQuery
+  mutation: Mutation
+}
+
+type RootQuery {
+  user(id: ID!): User
+  search(text: String!): [SearchResult!]!
+}
+
+type Mutation {
+  createUser(input: CreateUserInput!): User!
+}
+
+extend type RootQuery {
+  me: User
+}
+`;
+
+describe('GraphQLResourceGenerator', () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'graphql-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should parse the type system definitions of SDL', () => {
+    const document = new GraphQLSchemaParser().parse(SCHEMA);
+
+    expect(document.operationTypes).toEqual({ query: 'RootQuery', mutation: 'Mutation', subscription: 'Subscription' });
+    expect(document.types.map(it => `${it.kind} ${it.name}`)).toEqual([
+      'type User', 'enum OrderStatus', 'union SearchResult', 'input CreateUserInput', 'scalar DateTime',
+      'type RootQuery', 'type Mutation',
+    ]);
+
+    const user = document.types[0];
+    expect(user.description).toBe('A user of the shop');
+    expect(user.interfaces).toEqual(['Node', 'Entity']);
+    expect(user.fields[1]).toEqual({
+      name: 'name',
+      type: { text: 'String', name: 'String', isList: false, nonNull: false },
+      arguments: [],
+      description: 'the display name',
+    });
+    expect(user.fields[2].type).toEqual({ text: '[Order!]!', name: 'Order', isList: true, nonNull: true });
+    expect(user.fields[2].arguments.map(it => `${it.name}: ${it.type.text} = ${it.defaultValue}`)).toEqual([
+      'first: Int = 10',
+      'status: [OrderStatus!] = [OPEN]',
+    ]);
+
+    expect(document.types[1].values).toEqual(['OPEN', 'SHIPPED']);
+    expect(document.types[2].members).toEqual(['User', 'Order']);
+    expect(document.types[5].fields.map(it => it.name)).toEqual(['user', 'search', 'me']);
+  });
+
+  it('should skip the queries of client documents', () => {
+    const document = new GraphQLSchemaParser().parse(`
+      query GetUser($id: ID!) { user(id: $id) { ...UserParts } }
+      fragment UserParts on User { id name }
+      { me { id } }
+    `);
+
+    expect(document.types).toEqual([]);
+  });
+
+  it('should convert the root operation fields to api resources and the types to data structs', async () => {
+    fs.mkdirSync(path.join(workspace, 'schema'));
+    fs.writeFileSync(path.join(workspace, 'schema/shop.graphql'), SCHEMA);
+    fs.writeFileSync(path.join(workspace, 'schema/broken.gql'), 'type {');
+
+    const files = await scanGraphQLFiles(workspace);
+    expect(files.map(it => path.basename(it)).sort()).toEqual(['broken.gql', 'shop.graphql']);
+    expect(parseGraphQLFile(path.join(workspace, 'schema/broken.gql'))).toBeUndefined();
+
+    const generator = new GraphQLResourceGenerator();
+    const document = parseGraphQLFile(path.join(workspace, 'schema/shop.graphql'))!;
+
+    expect(generator.generateApiResources(document, 'schema/shop.graphql')).toEqual([
+      { id: 'RootQuery.user', sourceUrl: 'graphql/user', sourceHttpMethod: 'QUERY', packageName: 'schema/shop.graphql', className: 'RootQuery', methodName: 'user', supplyType: 'GraphQL' },
+      { id: 'RootQuery.search', sourceUrl: 'graphql/search', sourceHttpMethod: 'QUERY', packageName: 'schema/shop.graphql', className: 'RootQuery', methodName: 'search', supplyType: 'GraphQL' },
+      { id: 'RootQuery.me', sourceUrl: 'graphql/me', sourceHttpMethod: 'QUERY', packageName: 'schema/shop.graphql', className: 'RootQuery', methodName: 'me', supplyType: 'GraphQL' },
+      { id: 'Mutation.createUser', sourceUrl: 'graphql/createUser', sourceHttpMethod: 'MUTATION', packageName: 'schema/shop.graphql', className: 'Mutation', methodName: 'createUser', supplyType: 'GraphQL' },
+    ]);
+
+    const dataStructs = generator.generateDataStructs(document, 'schema/shop.graphql');
+    expect(dataStructs.map(it => `${it.Type} ${it.NodeName}`)).toEqual([
+      'Class User', 'Enum OrderStatus', 'Interface SearchResult', 'Class CreateUserInput', 'Class RootQuery', 'Class Mutation',
+    ]);
+
+    const user = dataStructs[0];
+    expect(user.Implements).toEqual(['Node', 'Entity']);
+    expect(user.Fields.map(it => `${it.Name}: ${it.Type} ${it.IsNullable ? 'nullable' : 'required'}`)).toEqual([
+      'id: ID required',
+      'name: String nullable',
+    ]);
+    expect(user.Functions[0]).toMatchObject({
+      Name: 'orders',
+      ReturnType: '[Order!]!',
+      Parameters: [{ Name: 'first', Type: 'Int' }, { Name: 'status', Type: '[OrderStatus!]' }],
+    });
+    expect(dataStructs[3].Fields.find(it => it.Name === 'tags')).toMatchObject({ IsArray: true, Default: '[]' });
+  });
+});
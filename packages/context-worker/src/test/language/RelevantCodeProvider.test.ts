@@ -0,0 +1,161 @@
+import 'reflect-metadata';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../TestLanguageService";
+import { RelevantCodeProviderManager } from "../../code-context/RelevantCodeProviderManager";
+import { registerBuiltinProviders } from "../../analyzer/ProviderRegistry";
+
+const Parser = require('web-tree-sitter');
+
+describe('RelevantCodeProvider', () => {
+  let workspace: string;
+  let manager: RelevantCodeProviderManager;
+
+  beforeAll(() => {
+    registerBuiltinProviders();
+  });
+
+  beforeEach(async () => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'relevant-code-'));
+    await Parser.init();
+    manager = new RelevantCodeProviderManager(new TestLanguageServiceProvider(new Parser()));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  function write(files: Record<string, string>) {
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = path.join(workspace, name);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+    }
+  }
+
+  function relativePaths(codeFiles: { filepath: string }[]) {
+    return codeFiles.map(codeFile => path.relative(workspace, codeFile.filepath)).sort();
+  }
+
+  it('should resolve TypeScript types through relative imports and tsconfig paths', async () => {
+    write({
+      'tsconfig.json': `{
+  // path aliases
+  "compilerOptions": {
+    "baseUrl": ".",
+    "paths": { "@/*": ["src/*"] },
+  }
+}`,
+      'src/model/Order.ts': `export class Order {
+  id: string;
+}`,
+      'src/model/Receipt.ts': `export interface Receipt {
+  total: number;
+}`,
+      'src/service/OrderService.ts': `import { Order } from '../model/Order';
+import type { Receipt } from '@/model/Receipt';
+import { Logger } from 'winston';
+
+export class OrderService {
+  place(order: Order, logger: Logger): Receipt {
+    return { total: 1 };
+  }
+
+  cancel(id: string): void {
+  }
+}`,
+    });
+
+    const file = path.join(workspace, 'src/service/OrderService.ts');
+    const codeFiles = await manager.methodRelatedFiles(file, 'OrderService.place');
+    expect(relativePaths(codeFiles)).toEqual(['src/model/Order.ts', 'src/model/Receipt.ts']);
+    expect(await manager.methodRelatedFiles(file, 'cancel')).toEqual([]);
+
+    const context = await manager.methodRelatedContext(file, 'place');
+    expect(context).toContain('// class Order');
+    expect(context).toContain('Receipt');
+  });
+
+  it('should resolve the imported names a JavaScript function uses through require', async () => {
+    write({
+      'lib/order.js': `class Order {
+  constructor(id) {
+    this.id = id;
+  }
+}
+
+module.exports = { Order };`,
+      'lib/service.js': `const { Order } = require('./order');
+const express = require('express');
+
+function createOrder(id) {
+  return new Order(id);
+}`,
+    });
+
+    const codeFiles = await manager.methodRelatedFiles(path.join(workspace, 'lib/service.js'), 'createOrder');
+    expect(relativePaths(codeFiles)).toEqual(['lib/order.js']);
+  });
+
+  it('should resolve Python type hints through relative and absolute imports', async () => {
+    write({
+      'pyproject.toml': '',
+      'shop/__init__.py': '',
+      'shop/models.py': `class Order:
+    pass`,
+      'shop/receipts/__init__.py': `class Receipt:
+    pass`,
+      'shop/services.py': `from .models import Order
+from shop.receipts import Receipt
+from typing import Optional
+
+
+class OrderService:
+    def place(self, order: Order) -> Optional["Receipt"]:
+        return None`,
+    });
+
+    const codeFiles = await manager.methodRelatedFiles(path.join(workspace, 'shop/services.py'), 'place');
+    expect(relativePaths(codeFiles)).toEqual(['shop/models.py', 'shop/receipts/__init__.py']);
+  });
+
+  it('should resolve Go types of the same package and of packages in the module', async () => {
+    write({
+      'go.mod': `module example.com/shop
+
+go 1.21`,
+      'model/order.go': `package model
+
+type (
+	OrderID string
+	Order struct {
+		ID OrderID
+	}
+)`,
+      'service/receipt.go': `package service
+
+type Receipt struct {
+	Total int
+}`,
+      'service/order_service.go': `package service
+
+import (
+	"context"
+
+	m "example.com/shop/model"
+)
+
+type OrderService struct{}
+
+func (s *OrderService) Place(ctx context.Context, order *m.Order) (*Receipt, error) {
+	return nil, nil
+}`,
+    });
+
+    const codeFiles = await manager.methodRelatedFiles(path.join(workspace, 'service/order_service.go'), 'OrderService.Place');
+    expect(relativePaths(codeFiles)).toEqual(['model/order.go', 'service/receipt.go']);
+  });
+});
@@ -0,0 +1,106 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../../TestLanguageService";
+import { GoHttpRouteAnalyser } from "../../../code-context/go/GoHttpRouteAnalyser";
+
+const Parser = require('web-tree-sitter');
+
+describe('GoHttpRouteAnalyser', () => {
+  let analyser: GoHttpRouteAnalyser;
+
+  beforeEach(async () => {
+    await Parser.init();
+    const parser = new Parser();
+    const languageService = new TestLanguageServiceProvider(parser);
+    analyser = new GoHttpRouteAnalyser();
+    await analyser.init(languageService);
+  });
+
+  const routesOf = (resources: { sourceHttpMethod: string, sourceUrl: string, methodName: string }[]) =>
+    resources.map(it => `${it.sourceHttpMethod} ${it.sourceUrl} ${it.methodName}`);
+
+  it('should find gin routes with group prefixes', async () => {
+    const code = `package main
+
+import "github.com/gin-gonic/gin"
+
+func main() {
+	r := gin.Default()
+	r.GET("/ping", func(c *gin.Context) { c.String(200, "pong") })
+
+	v1 := r.Group("/api/v1")
+	users := v1.Group("/users", authMiddleware())
+	users.GET("/:id", handler.GetUser)
+	users.POST("", auth, handler.CreateUser)
+	r.Handle("DELETE", "/cache", clearCache)
+
+	id := c.Get("id")
+}
+`;
+
+    const resources = await analyser.sourceCodeAnalysis(code, '/workspace/cmd/main.go', '/workspace');
+
+    expect(routesOf(resources)).toEqual([
+      'GET /ping getPing',
+      'GET /api/v1/users/:id GetUser',
+      'POST /api/v1/users CreateUser',
+      'DELETE /cache clearCache',
+    ]);
+    expect(resources[0]).toMatchObject({ packageName: 'cmd/main.go', className: 'main.go', supplyType: 'Gin' });
+  });
+
+  it('should find chi routes declared in route closures', async () => {
+    const code = `package api
+
+import "github.com/go-chi/chi/v5"
+
+func Routes() http.Handler {
+	r := chi.NewRouter()
+	r.Route("/articles", func(r chi.Router) {
+		r.Get("/", listArticles)
+		r.Route("/{articleID}", func(r chi.Router) {
+			r.Put("/", updateArticle)
+		})
+	})
+	return r
+}
+`;
+
+    const resources = await analyser.sourceCodeAnalysis(code, '/workspace/api/routes.go', '/workspace');
+
+    expect(routesOf(resources)).toEqual([
+      'GET /articles listArticles',
+      'PUT /articles/{articleID} updateArticle',
+    ]);
+    expect(resources[0].supplyType).toBe('Chi');
+  });
+
+  it('should find net/http and gorilla/mux handlers', async () => {
+    const code = `package main
+
+import (
+	"net/http"
+	"github.com/gorilla/mux"
+)
+
+func main() {
+	http.HandleFunc("GET /items/{id}", getItem)
+	http.Handle("/static/", http.StripPrefix("/static/", fs))
+
+	r := mux.NewRouter()
+	api := r.PathPrefix("/api").Subrouter()
+	api.HandleFunc("/orders", listOrders).Methods("GET", "POST")
+}
+`;
+
+    const resources = await analyser.sourceCodeAnalysis(code, '/workspace/main.go', '/workspace');
+
+    expect(routesOf(resources)).toEqual([
+      'GET /items/{id} getItem',
+      'ANY /static fs',
+      'GET /api/orders listOrders',
+      'POST /api/orders listOrders',
+    ]);
+  });
+});
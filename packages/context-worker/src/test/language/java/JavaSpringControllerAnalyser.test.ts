@@ -82,4 +82,54 @@ public class UserController {
       methodName: 'createUser'
     });
   });
+
+  it('应该识别 RestTemplate、WebClient 和 Feign 的 API 调用', async () => {
+    const javaCode = `package com.example.order;
+
+@FeignClient(name = "user-service", path = "/api")
+public interface UserClient {
+    @GetMapping("/users/{id}")
+    User getUser(@PathVariable("id") Long id);
+}
+
+public class OrderService {
+    private RestTemplate restTemplate;
+
+    public void placeOrder(Long userId) {
+        restTemplate.getForObject("http://user-service/api/users/" + userId, User.class);
+        restTemplate.exchange(baseUrl + "/api/stock", HttpMethod.PUT, entity, Void.class);
+        webClient.post().uri("/api/payments").retrieve();
+        items.get(0);
+    }
+}`;
+
+    const demands = await analyser.demandAnalysis(javaCode, 'OrderService.java', '/workspace');
+
+    expect(demands).toEqual([
+      {
+        sourceCaller: 'OrderService.placeOrder',
+        targetUrl: 'http://user-service/api/users/{userId}',
+        targetHttpMethod: 'GET',
+        clientType: 'RestTemplate'
+      },
+      {
+        sourceCaller: 'OrderService.placeOrder',
+        targetUrl: '{baseUrl}/api/stock',
+        targetHttpMethod: 'PUT',
+        clientType: 'RestTemplate'
+      },
+      {
+        sourceCaller: 'OrderService.placeOrder',
+        targetUrl: '/api/payments',
+        targetHttpMethod: 'POST',
+        clientType: 'WebClient'
+      },
+      {
+        sourceCaller: 'UserClient.getUser',
+        targetUrl: '/api/users/{id}',
+        targetHttpMethod: 'GET',
+        clientType: 'Feign'
+      }
+    ]);
+  });
 });
@@ -70,6 +70,10 @@ public class ExampleClass {
 								column: 2,
 							},
 							returnType: 'void',
+							parameters: [
+								{ name: 'param1', type: 'String' },
+								{ name: 'param2', type: 'int' },
+							],
 						},
 					],
 					name: 'ExampleClass',
@@ -0,0 +1,79 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../../TestLanguageService";
+import { JavaScriptExpressAnalyser } from "../../../code-context/javascript/JavaScriptExpressAnalyser";
+
+const Parser = require('web-tree-sitter');
+
+describe('JavaScriptExpressAnalyser', () => {
+  let analyser: JavaScriptExpressAnalyser;
+
+  beforeEach(async () => {
+    await Parser.init();
+    const parser = new Parser();
+    const languageService = new TestLanguageServiceProvider(parser);
+    analyser = new JavaScriptExpressAnalyser();
+    await analyser.init(languageService);
+  });
+
+  const routesOf = (resources: { sourceHttpMethod: string, sourceUrl: string, methodName: string }[]) =>
+    resources.map(it => `${it.sourceHttpMethod} ${it.sourceUrl} ${it.methodName}`);
+
+  it('should find express routes with the prefix of mounted routers', async () => {
+    const code = `const express = require('express');
+const app = express();
+const users = express.Router();
+
+users.get('/', listUsers);
+users.get('/:id', auth, asyncHandler(getUser));
+users.route('/:id/orders').get(listOrders).post((req, res) => res.sendStatus(201));
+
+app.use(express.json());
+app.use('/api/users', users);
+app.get('/health', (req, res) => res.send('ok'));
+app.all('*', notFound);
+
+const env = app.get('env');
+app.listen(3000);
+`;
+
+    const resources = await analyser.sourceCodeAnalysis(code, '/workspace/src/app.js', '/workspace');
+
+    expect(routesOf(resources)).toEqual([
+      'GET /api/users listUsers',
+      'GET /api/users/:id getUser',
+      'GET /api/users/:id/orders listOrders',
+      'POST /api/users/:id/orders postApiUsersByIdOrders',
+      'GET /health getHealth',
+      'ANY /* notFound',
+    ]);
+    expect(resources[0]).toMatchObject({ packageName: 'src/app.js', className: 'app.js', supplyType: 'Express' });
+  });
+
+  it('should find koa-router routes', async () => {
+    const code = `const Koa = require('koa');
+const Router = require('@koa/router');
+
+const app = new Koa();
+const router = new Router({ prefix: '/books' });
+const admin = new Router();
+admin.prefix('/admin');
+
+router.get('book', '/:id', getBook).post('/', createBook);
+admin.del('/cache', clearCache);
+router.use('/v1', admin.routes());
+
+app.use(router.routes());
+`;
+
+    const resources = await analyser.sourceCodeAnalysis(code, '/workspace/routes.js', '/workspace');
+
+    expect(routesOf(resources)).toEqual([
+      'GET /books/:id getBook',
+      'POST /books createBook',
+      'DELETE /books/v1/admin/cache clearCache',
+    ]);
+    expect(resources[0].supplyType).toBe('Koa');
+  });
+});
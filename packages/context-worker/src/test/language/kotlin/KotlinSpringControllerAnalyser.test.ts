@@ -82,4 +82,37 @@ class UserController {
       methodName: 'createUser'
     });
   });
+
+  it('应该识别 Kotlin 中的 RestTemplate 和 Feign 调用', async () => {
+    const kotlinCode = `package com.example.order
+
+@FeignClient(name = "user-service")
+interface UserClient {
+    @PostMapping("/api/users")
+    fun createUser(@RequestBody user: User): User
+}
+
+class OrderService(private val restTemplate: RestTemplate) {
+    fun load(id: Long) {
+        restTemplate.getForObject("/api/orders/$id", Order::class.java)
+    }
+}`;
+
+    const demands = await analyser.demandAnalysis(kotlinCode, 'OrderService.kt', '/workspace');
+
+    expect(demands).toEqual([
+      {
+        sourceCaller: 'OrderService.load',
+        targetUrl: '/api/orders/{id}',
+        targetHttpMethod: 'GET',
+        clientType: 'RestTemplate'
+      },
+      {
+        sourceCaller: 'UserClient.createUser',
+        targetUrl: '/api/users',
+        targetHttpMethod: 'POST',
+        clientType: 'Feign'
+      }
+    ]);
+  });
 });
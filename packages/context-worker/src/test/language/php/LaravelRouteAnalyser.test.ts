@@ -0,0 +1,78 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../../TestLanguageService";
+import { LaravelRouteAnalyser } from "../../../code-context/php/LaravelRouteAnalyser";
+
+const Parser = require('web-tree-sitter');
+
+describe('LaravelRouteAnalyser', () => {
+  let analyser: LaravelRouteAnalyser;
+
+  beforeEach(async () => {
+    await Parser.init();
+    const parser = new Parser();
+    const languageService = new TestLanguageServiceProvider(parser);
+    analyser = new LaravelRouteAnalyser();
+    await analyser.init(languageService);
+  });
+
+  const routesOf = (resources: { sourceHttpMethod: string, sourceUrl: string, className: string, methodName: string }[]) =>
+    resources.map(it => `${it.sourceHttpMethod} ${it.sourceUrl} ${it.className}.${it.methodName}`);
+
+  it('should find routes with controller actions and group prefixes', async () => {
+    const code = `<?php
+
+use App\\Http\\Controllers\\UserController;
+use Illuminate\\Support\\Facades\\Route;
+
+Route::get('/users/{id}', [UserController::class, 'show']);
+Route::post("/users", 'UserController@store');
+Route::match(['get', 'post'], '/search', SearchController::class);
+Route::any('/ping', function () {
+    return 'pong';
+});
+
+Route::prefix('admin')->middleware('auth')->group(function () {
+    Route::delete('/users/{id}', [UserController::class, 'destroy']);
+
+    Route::group(['prefix' => 'reports', 'middleware' => 'audit'], function () {
+        Route::get('/daily', fn () => view('daily'));
+    });
+});
+`;
+
+    const resources = await analyser.sourceCodeAnalysis(code, '/workspace/routes/web.php', '/workspace');
+
+    expect(routesOf(resources)).toEqual([
+      'GET /users/{id} UserController.show',
+      'POST /users UserController.store',
+      'GET /search SearchController.__invoke',
+      'POST /search SearchController.__invoke',
+      'ANY /ping web.php.anyPing',
+      'DELETE /admin/users/{id} UserController.destroy',
+      'GET /admin/reports/daily web.php.getAdminReportsDaily',
+    ]);
+    expect(resources[0]).toMatchObject({ packageName: 'routes/web.php', supplyType: 'Laravel' });
+  });
+
+  it('should expand resource routes and prefix the api routes', async () => {
+    const code = `<?php
+
+use Illuminate\\Support\\Facades\\Route;
+
+Route::apiResource('categories', CategoryController::class);
+`;
+
+    const resources = await analyser.sourceCodeAnalysis(code, '/workspace/routes/api.php', '/workspace');
+
+    expect(routesOf(resources)).toEqual([
+      'GET /api/categories CategoryController.index',
+      'POST /api/categories CategoryController.store',
+      'GET /api/categories/{category} CategoryController.show',
+      'PUT /api/categories/{category} CategoryController.update',
+      'PATCH /api/categories/{category} CategoryController.update',
+      'DELETE /api/categories/{category} CategoryController.destroy',
+    ]);
+  });
+});
@@ -34,4 +34,32 @@ class User {
     expect(codeFile?.classes.length).toBe(1);
     expect(codeFile?.classes[0].name).toBe('User');
   });
+
+  it('should resolve parent classes and interfaces with the namespace and imports', async () => {
+    const phpController = `<?php
+namespace App\\Http\\Controllers;
+
+use Illuminate\\Routing\\Controller as BaseController;
+use App\\Contracts;
+
+class UserController extends Controller implements Contracts\\HasUsers, \\JsonSerializable {
+    public function show($id) {
+    }
+}
+`;
+
+    await Parser.init();
+    const parser = new Parser();
+    const languageService = new TestLanguageServiceProvider(parser);
+
+    const structurer = new PHPStructurer();
+    await structurer.init(languageService);
+
+    const codeFile = await structurer.parseFile(phpController, 'UserController.php');
+    const controller = codeFile!.classes[0];
+    expect(codeFile?.package).toBe('App\\Http\\Controllers');
+    expect(controller.canonicalName).toBe('App\\Http\\Controllers\\UserController');
+    expect(controller.extends).toEqual(['App\\Http\\Controllers\\Controller']);
+    expect(controller.implements).toEqual(['App\\Contracts\\HasUsers', 'JsonSerializable']);
+  });
 });
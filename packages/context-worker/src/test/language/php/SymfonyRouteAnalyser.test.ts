@@ -0,0 +1,86 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../../TestLanguageService";
+import { SymfonyRouteAnalyser } from "../../../code-context/php/SymfonyRouteAnalyser";
+
+const Parser = require('web-tree-sitter');
+
+describe('SymfonyRouteAnalyser', () => {
+  let analyser: SymfonyRouteAnalyser;
+
+  beforeEach(async () => {
+    await Parser.init();
+    const parser = new Parser();
+    const languageService = new TestLanguageServiceProvider(parser);
+    analyser = new SymfonyRouteAnalyser();
+    await analyser.init(languageService);
+  });
+
+  const routesOf = (resources: { sourceHttpMethod: string, sourceUrl: string, methodName: string }[]) =>
+    resources.map(it => `${it.sourceHttpMethod} ${it.sourceUrl} ${it.methodName}`);
+
+  it('should find routes of route attributes with the class prefix', async () => {
+    const code = `<?php
+
+namespace App\\Controller;
+
+use Symfony\\Bundle\\FrameworkBundle\\Controller\\AbstractController;
+use Symfony\\Component\\Routing\\Attribute\\Route;
+
+#[Route('/blog', name: 'blog_')]
+class BlogController extends AbstractController
+{
+    #[Route('/', name: 'index', methods: ['GET'])]
+    public function index(): Response
+    {
+    }
+
+    #[Route(path: '/posts/{slug}', methods: ['GET', 'HEAD'])]
+    public function show(string $slug): Response
+    {
+    }
+
+    #[Route('/posts/{slug}/comments')]
+    public function comments(string $slug): Response
+    {
+    }
+
+    private function helper(): void
+    {
+    }
+}
+`;
+
+    const resources = await analyser.sourceCodeAnalysis(code, '/workspace/src/Controller/BlogController.php', '/workspace');
+
+    expect(routesOf(resources)).toEqual([
+      'GET /blog index',
+      'GET /blog/posts/{slug} show',
+      'HEAD /blog/posts/{slug} show',
+      'ANY /blog/posts/{slug}/comments comments',
+    ]);
+    expect(resources[0]).toMatchObject({ packageName: 'App\\Controller', className: 'BlogController', supplyType: 'Symfony' });
+  });
+
+  it('should find routes of route annotations', async () => {
+    const code = `<?php
+
+namespace App\\Controller;
+
+class UserController
+{
+    /**
+     * @Route("/users/{id}", name="user_show", methods={"GET"})
+     */
+    public function show($id)
+    {
+    }
+}
+`;
+
+    const resources = await analyser.sourceCodeAnalysis(code, '/workspace/src/Controller/UserController.php', '/workspace');
+
+    expect(routesOf(resources)).toEqual(['GET /users/{id} show']);
+  });
+});
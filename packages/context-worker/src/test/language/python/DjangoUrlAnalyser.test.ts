@@ -0,0 +1,73 @@
+import 'reflect-metadata';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../../TestLanguageService";
+import { DjangoUrlAnalyser } from "../../../code-context/python/DjangoUrlAnalyser";
+
+const Parser = require('web-tree-sitter');
+
+describe('DjangoUrlAnalyser', () => {
+  let analyser: DjangoUrlAnalyser;
+  let workspace: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(workspace, file)), { recursive: true });
+    fs.writeFileSync(path.join(workspace, file), content);
+    return path.join(workspace, file);
+  };
+
+  beforeEach(async () => {
+    await Parser.init();
+    const parser = new Parser();
+    const languageService = new TestLanguageServiceProvider(parser);
+    analyser = new DjangoUrlAnalyser();
+    await analyser.init(languageService);
+
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'django-urls-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('应该识别 urlpatterns 并解析 include 的前缀', async () => {
+    const rootUrls = write('mysite/urls.py', `from django.urls import include, path
+
+urlpatterns = [
+    path('admin/', admin.site.urls),
+    path('api/', include('blog.urls')),
+    path('', views.home, name='home'),
+]
+`);
+    const blogUrls = write('blog/urls.py', `from django.urls import path, re_path
+from . import views
+
+urlpatterns = [
+    path('posts/', views.post_list),
+    path('posts/<int:pk>/', views.PostDetail.as_view()),
+]
+
+urlpatterns += [
+    re_path(r'^archive/(?P<year>[0-9]{4})/$', archive),
+]
+`);
+
+    const rootResources = await analyser.sourceCodeAnalysis(fs.readFileSync(rootUrls, 'utf-8'), rootUrls, workspace);
+    expect(rootResources.map(it => `${it.sourceHttpMethod} ${it.sourceUrl} ${it.className}.${it.methodName}`)).toEqual([
+      'ANY /admin admin.site.urls',
+      'ANY / views.home',
+    ]);
+
+    analyser.resources = [];
+    const blogResources = await analyser.sourceCodeAnalysis(fs.readFileSync(blogUrls, 'utf-8'), blogUrls, workspace);
+    expect(blogResources.map(it => `${it.sourceHttpMethod} ${it.sourceUrl} ${it.className}.${it.methodName}`)).toEqual([
+      'ANY /api/posts views.post_list',
+      'ANY /api/posts/<int:pk> views.PostDetail.as_view',
+      'ANY /api/archive/<year> urls.archive',
+    ]);
+    expect(blogResources[0]).toMatchObject({ packageName: 'blog', supplyType: 'Django' });
+  });
+});
@@ -167,4 +167,29 @@ app.include_router(router, prefix="/store/v1")
       methodName: 'get_product'
     });
   });
+
+  it('should extract requests and httpx calls as api demands', async () => {
+    const sourceCode = `
+import requests
+import httpx
+
+@app.get("/items")
+def read_items(user_id: int):
+    return requests.get(f"{BASE_URL}/api/users/{user_id}", timeout=3)
+
+class OrderClient:
+    def cancel(self, order_id):
+        httpx.request("DELETE", "/api/orders/" + order_id)
+        self.session.post(url="/api/refunds")
+        cache.get("/not/an/http/call")
+`;
+
+    const demands = await analyser.demandAnalysis(sourceCode, '/workspace/client.py', '/workspace');
+
+    expect(demands).toEqual([
+      { sourceCaller: 'read_items', targetUrl: '{BASE_URL}/api/users/{user_id}', targetHttpMethod: 'GET', clientType: 'requests' },
+      { sourceCaller: 'OrderClient.cancel', targetUrl: '/api/orders/{order_id}', targetHttpMethod: 'DELETE', clientType: 'httpx' },
+      { sourceCaller: 'OrderClient.cancel', targetUrl: '/api/refunds', targetHttpMethod: 'POST', clientType: 'self.session' },
+    ]);
+  });
 });
@@ -0,0 +1,66 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../../TestLanguageService";
+import { FlaskAnalyser } from "../../../code-context/python/FlaskAnalyser";
+
+const Parser = require('web-tree-sitter');
+
+describe('FlaskAnalyser', () => {
+  let analyser: FlaskAnalyser;
+
+  beforeEach(async () => {
+    await Parser.init();
+    const parser = new Parser();
+    const languageService = new TestLanguageServiceProvider(parser);
+    analyser = new FlaskAnalyser();
+    await analyser.init(languageService);
+  });
+
+  it('应该识别 Flask 应用和 Blueprint 的路由', async () => {
+    const code = `from flask import Flask, Blueprint
+
+app = Flask(__name__)
+users = Blueprint('users', __name__, url_prefix='/users')
+
+@app.route('/')
+def index():
+    return 'ok'
+
+@users.route('/<int:user_id>', methods=['GET', 'DELETE'])
+def user_detail(user_id):
+    return {}
+
+@users.post('/')
+def create_user():
+    return {}, 201
+
+app.add_url_rule('/health', 'health', health_check)
+app.register_blueprint(users, url_prefix='/api/users')
+`;
+
+    const resources = await analyser.sourceCodeAnalysis(code, '/workspace/shop/app.py', '/workspace');
+
+    expect(resources.map(it => `${it.sourceHttpMethod} ${it.sourceUrl} ${it.methodName}`)).toEqual([
+      'GET / index',
+      'GET /api/users/<int:user_id> user_detail',
+      'DELETE /api/users/<int:user_id> user_detail',
+      'POST /api/users create_user',
+      'GET /health health_check',
+    ]);
+    expect(resources[0]).toMatchObject({ packageName: 'shop', className: 'app', supplyType: 'Flask' });
+  });
+
+  it('应该跳过非 Flask 文件', async () => {
+    const code = `from fastapi import FastAPI
+
+app = FastAPI()
+
+@app.get("/items")
+def list_items():
+    return []
+`;
+
+    expect(await analyser.sourceCodeAnalysis(code, '/workspace/main.py', '/workspace')).toEqual([]);
+  });
+});
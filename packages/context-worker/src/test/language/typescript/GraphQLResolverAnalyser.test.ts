@@ -0,0 +1,104 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../../TestLanguageService";
+import { NestjsGraphQLAnalyser } from "../../../code-context/typescript/NestjsGraphQLAnalyser";
+import { TypeScriptGraphQLJsAnalyser } from "../../../code-context/typescript/TypeScriptGraphQLJsAnalyser";
+
+const Parser = require('web-tree-sitter');
+
+describe('GraphQL resolver analysers', () => {
+  let languageService: TestLanguageServiceProvider;
+
+  beforeEach(async () => {
+    await Parser.init();
+    languageService = new TestLanguageServiceProvider(new Parser());
+  });
+
+  it('should find the operations of NestJS resolvers', async () => {
+    const analyser = new NestjsGraphQLAnalyser();
+    await analyser.init(languageService);
+
+    const code = `import { Args, Mutation, Query, ResolveField, Resolver, Subscription } from '@nestjs/graphql';
+
+@Resolver(() => User)
+export class UsersResolver {
+  @Query(() => User, { name: 'user', nullable: true })
+  findOne(@Args('id') id: string) {
+    return this.usersService.findOne(id);
+  }
+
+  @Query(returns => [User])
+  users() {
+    return this.usersService.findAll();
+  }
+
+  @Mutation(() => User)
+  createUser(@Args('input') input: CreateUserInput) {
+    return this.usersService.create(input);
+  }
+
+  @Subscription(() => User)
+  userAdded() {
+    return this.pubSub.asyncIterator('userAdded');
+  }
+
+  @ResolveField()
+  orders(@Parent() user: User) {
+    return [];
+  }
+}
+`;
+
+    const resources = await analyser.sourceCodeAnalysis(code, '/workspace/src/users/users.resolver.ts', '/workspace');
+
+    expect(resources.map(it => `${it.sourceHttpMethod} ${it.sourceUrl} ${it.className}.${it.methodName}`)).toEqual([
+      'QUERY graphql/user UsersResolver.findOne',
+      'QUERY graphql/users UsersResolver.users',
+      'MUTATION graphql/createUser UsersResolver.createUser',
+      'SUBSCRIPTION graphql/userAdded UsersResolver.userAdded',
+    ]);
+    expect(resources[0]).toMatchObject({ packageName: 'src/users/users.resolver.ts', supplyType: 'GraphQL' });
+  });
+
+  it('should find the operations of graphql-js object types and SDL templates', async () => {
+    const analyser = new TypeScriptGraphQLJsAnalyser();
+    await analyser.init(languageService);
+
+    const code = `import { GraphQLObjectType, GraphQLSchema, GraphQLString } from 'graphql';
+import gql from 'graphql-tag';
+
+const RootQueryType = new GraphQLObjectType({
+  name: 'RootQueryType',
+  fields: () => ({
+    hello: { type: GraphQLString, resolve: () => 'world' },
+    'user': { type: UserType },
+  }),
+});
+
+const UserType = new GraphQLObjectType({
+  name: 'User',
+  fields: { id: { type: GraphQLString } },
+});
+
+export const schema = new GraphQLSchema({ query: RootQueryType });
+
+export const typeDefs = gql\`
+  type Mutation {
+    login(name: String!): String
+  }
+  \${otherTypeDefs}
+\`;
+
+const ME = gql\`query Me { me { id } }\`;
+`;
+
+    const resources = await analyser.sourceCodeAnalysis(code, '/workspace/src/schema.ts', '/workspace');
+
+    expect(resources.map(it => `${it.sourceHttpMethod} ${it.sourceUrl} ${it.className}.${it.methodName}`)).toEqual([
+      'MUTATION graphql/login Mutation.login',
+      'QUERY graphql/hello RootQueryType.hello',
+      'QUERY graphql/user RootQueryType.user',
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../../TestLanguageService";
+import { NestjsAnalyser } from "../../../code-context/typescript/NestjsAnalyser";
+
+const Parser = require('web-tree-sitter');
+
+describe('NestjsAnalyser', () => {
+  let analyser: NestjsAnalyser;
+
+  beforeEach(async () => {
+    await Parser.init();
+    const parser = new Parser();
+    const languageService = new TestLanguageServiceProvider(parser);
+    analyser = new NestjsAnalyser();
+    await analyser.init(languageService);
+  });
+
+  it('should find the routes of a controller', async () => {
+    const code = `import { Body, Controller, Delete, Get, HttpCode, Param, Post } from '@nestjs/common';
+
+@Controller('users')
+export class UsersController {
+  @Get()
+  findAll(): Promise<User[]> {
+    return this.usersService.findAll();
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string): Promise<User> {
+    return this.usersService.findOne(id);
+  }
+
+  // create a new user
+  @Post()
+  @HttpCode(201)
+  create(@Body() dto: CreateUserDto) {
+    return this.usersService.create(dto);
+  }
+
+  @Delete(':id')
+  remove(@Param('id') id: string) {
+    return this.usersService.remove(id);
+  }
+
+  private helper() {}
+}
+`;
+
+    const resources = await analyser.sourceCodeAnalysis(code, '/workspace/src/users/users.controller.ts', '/workspace');
+
+    expect(resources.map(it => `${it.sourceHttpMethod} ${it.sourceUrl} ${it.methodName}`)).toEqual([
+      'GET /users findAll',
+      'GET /users/:id findOne',
+      'POST /users create',
+      'DELETE /users/:id remove',
+    ]);
+    expect(resources[0]).toMatchObject({
+      packageName: 'src/users/users.controller.ts',
+      className: 'UsersController',
+      supplyType: 'NestJS',
+    });
+  });
+
+  it('should read the path option of a controller', async () => {
+    const code = `@Controller({ path: 'orders', version: '1' })
+class OrdersController {
+  @Get(['latest', 'recent'])
+  latest() {}
+
+  @All('*')
+  fallback() {}
+}
+`;
+
+    const resources = await analyser.sourceCodeAnalysis(code, '/workspace/orders.controller.ts', '/workspace');
+
+    expect(resources.map(it => `${it.sourceHttpMethod} ${it.sourceUrl}`)).toEqual([
+      'GET /orders/latest',
+      'ANY /orders/*',
+    ]);
+  });
+});
@@ -105,4 +105,26 @@ export async function POST(request: Request) {
       supplyType: 'Nextjs'
     });
   });
+
+  it('should extract fetch and axios calls as api demands', async () => {
+    const sourceCode = `
+export async function loadUser(id: string) {
+  await fetch(\`/api/users/\${id}\`, { method: 'PUT' });
+  await axios.post('/api/orders', { id });
+  app.get('/api/health', (req, res) => res.send('ok'));
+}
+
+export const userApi = {
+  remove: (id: string) => client.delete('/api/users/' + id),
+};
+`;
+
+    const demands = await analyser.demandAnalysis(sourceCode, '/workspace/src/api.ts', '/workspace');
+
+    expect(demands).toEqual([
+      { sourceCaller: 'loadUser', targetUrl: '/api/users/{id}', targetHttpMethod: 'PUT', clientType: 'fetch' },
+      { sourceCaller: 'loadUser', targetUrl: '/api/orders', targetHttpMethod: 'POST', clientType: 'axios' },
+      { sourceCaller: 'remove', targetUrl: '/api/users/{id}', targetHttpMethod: 'DELETE', clientType: 'client' },
+    ]);
+  });
 });
@@ -0,0 +1,106 @@
+import 'reflect-metadata';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Location, SymbolKind } from 'vscode-languageserver/node';
+
+import { TestLanguageServiceProvider } from "../TestLanguageService";
+import { ContextNavigator } from "../../lsp/ContextNavigator";
+import { registerBuiltinProviders } from "../../analyzer/ProviderRegistry";
+
+const Parser = require('web-tree-sitter');
+
+const ROOT = path.resolve('/workspace/shop');
+
+const ORDER = `package com.example.shop;
+
+public class Order {
+    private long total;
+
+    public long total() {
+        return total;
+    }
+}
+`;
+
+const ORDER_SERVICE = `package com.example.shop;
+
+public class OrderService {
+    public long place() {
+        Order order = new Order();
+        return order.total();
+    }
+}
+`;
+
+const CART = `export function subtotal(prices: number[]): number {
+  const sum = prices.reduce((a, b) => a + b, 0);
+  return sum;
+}
+`;
+
+describe('ContextNavigator', () => {
+  let navigator: ContextNavigator;
+
+  beforeAll(() => {
+    registerBuiltinProviders();
+  });
+
+  beforeEach(async () => {
+    await Parser.init();
+    navigator = new ContextNavigator(new TestLanguageServiceProvider(new Parser()));
+    await navigator.update(path.join(ROOT, 'Order.java'), ORDER);
+    await navigator.update(path.join(ROOT, 'OrderService.java'), ORDER_SERVICE);
+    await navigator.update(path.join(ROOT, 'cart.ts'), CART);
+  });
+
+  function describeLocations(locations: Location[]) {
+    return locations.map(location =>
+      `${path.basename(fileURLToPath(location.uri))}:${location.range.start.line}:${location.range.start.character}`);
+  }
+
+  it('should nest the document symbols by their ranges', () => {
+    const symbols = navigator.documentSymbols(path.join(ROOT, 'Order.java'));
+
+    const order = symbols.find(symbol => symbol.name === 'Order');
+    expect(order?.kind).toBe(SymbolKind.Class);
+    expect(order?.selectionRange.start).toEqual({ line: 2, character: 13 });
+    expect(order?.children?.map(child => child.name)).toContain('total');
+  });
+
+  it('should find workspace symbols by name with the package as container', () => {
+    const symbols = navigator.workspaceSymbols('order');
+
+    const service = symbols.find(symbol => symbol.name === 'OrderService');
+    expect(service?.containerName).toBe('com.example.shop');
+    expect(symbols.map(symbol => symbol.name)).toContain('Order');
+    expect(symbols.map(symbol => symbol.name)).not.toContain('subtotal');
+  });
+
+  it('should resolve a parameter by the scope graph of the file', async () => {
+    const definition = await navigator.definition(path.join(ROOT, 'cart.ts'), { line: 1, character: 16 });
+    expect(describeLocations(definition)).toEqual(['cart.ts:0:25']);
+
+    const references = await navigator.references(path.join(ROOT, 'cart.ts'), { line: 0, character: 25 }, false);
+    expect(describeLocations(references)).toEqual(['cart.ts:1:14']);
+  });
+
+  it('should resolve a class of another file by the workspace symbols', async () => {
+    const definition = await navigator.definition(path.join(ROOT, 'OrderService.java'), { line: 4, character: 9 });
+    expect(describeLocations(definition)).toEqual(['Order.java:2:13']);
+
+    const references = await navigator.references(path.join(ROOT, 'Order.java'), { line: 2, character: 15 }, true);
+    expect(describeLocations(references)).toEqual([
+      'Order.java:2:13',
+      'OrderService.java:4:8',
+      'OrderService.java:4:26',
+    ]);
+  });
+
+  it('should forget the symbols of a removed file', async () => {
+    navigator.remove(path.join(ROOT, 'Order.java'));
+
+    expect(navigator.workspaceSymbols('Order').map(symbol => symbol.name)).toEqual(['OrderService']);
+    expect(await navigator.definition(path.join(ROOT, 'OrderService.java'), { line: 4, character: 9 })).toEqual([]);
+  });
+});
@@ -0,0 +1,230 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { ManifestAnalyzer, scanManifestFiles } from "../../manifest/ManifestAnalyzer";
+import { CycloneDxExporter } from "../../manifest/CycloneDxExporter";
+import { TomlParser } from "../../manifest/TomlParser";
+
+describe('ManifestAnalyzer', () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  async function analyze(files: Record<string, string>) {
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = path.join(workspace, name);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+    }
+
+    return new ManifestAnalyzer(workspace).analyze(await scanManifestFiles(workspace));
+  }
+
+  it('should read TOML tables, arrays and inline tables', () => {
+    const toml = new TomlParser().parse(`
+# comment
+[package]
+name = "shop"
+version = "0.1.0"
+
+[dependencies]
+serde = { version = "1.0", features = ["derive"] }
+tokio = "1"
+"quoted.key" = 'literal'
+
+[[bin]]
+name = "a"
+
+[[bin]]
+name = "b"
+`);
+
+    expect(toml.package).toEqual({ name: 'shop', version: '0.1.0' });
+    expect(toml.dependencies).toEqual({ serde: { version: '1.0', features: ['derive'] }, tokio: '1', 'quoted.key': 'literal' });
+    expect(toml.bin).toEqual([{ name: 'a' }, { name: 'b' }]);
+  });
+
+  it('should link Maven modules and detect Spring Boot with its major version', async () => {
+    const result = await analyze({
+      'pom.xml': `<project>
+  <groupId>com.example</groupId>
+  <artifactId>shop</artifactId>
+  <version>1.0.0</version>
+  <description>Online shop</description>
+  <modules><module>order</module><module>common</module></modules>
+</project>`,
+      'order/pom.xml': `<project>
+  <parent>
+    <groupId>org.springframework.boot</groupId>
+    <artifactId>spring-boot-starter-parent</artifactId>
+    <version>3.2.1</version>
+  </parent>
+  <groupId>com.example</groupId>
+  <artifactId>order</artifactId>
+  <properties><jjwt.version>0.12.3</jjwt.version></properties>
+  <dependencies>
+    <dependency><groupId>org.springframework.boot</groupId><artifactId>spring-boot-starter-data-jpa</artifactId></dependency>
+    <dependency><groupId>io.jsonwebtoken</groupId><artifactId>jjwt-api</artifactId><version>\${jjwt.version}</version></dependency>
+    <dependency><groupId>com.example</groupId><artifactId>common</artifactId><version>1.0.0</version></dependency>
+    <dependency><groupId>org.junit.jupiter</groupId><artifactId>junit-jupiter</artifactId><version>5.10.1</version><scope>test</scope></dependency>
+  </dependencies>
+</project>`,
+      'common/pom.xml': `<project>
+  <groupId>com.example</groupId>
+  <artifactId>common</artifactId>
+  <version>1.0.0</version>
+</project>`,
+    });
+
+    expect(result.modules.map(module => [module.id, module.name, module.language])).toEqual([
+      ['maven:.', 'shop', 'java'],
+      ['maven:common', 'common', 'java'],
+      ['maven:order', 'order', 'java'],
+    ]);
+
+    const order = result.modules.find(module => module.name === 'order')!;
+    expect(order.frameworks).toEqual(['spring3', 'hibernate', 'junit']);
+    expect(order.dependencies.find(dependency => dependency.name === 'io.jsonwebtoken:jjwt-api')?.version).toBe('0.12.3');
+    expect(order.dependencies.find(dependency => dependency.name.endsWith(':junit-jupiter'))?.scope).toBe('test');
+    expect(result.moduleGraph).toEqual([{ from: 'maven:order', to: 'maven:common', scope: 'compile' }]);
+
+    expect(result.metadata.projectConfig).toEqual({
+      name: 'shop',
+      description: 'Online shop',
+      type: 'monolith',
+      language: 'java',
+      framework: 'spring3',
+    });
+    expect(result.metadata.features).toEqual(['auth', 'database', 'testing']);
+    expect(result.metadata.dependencies['io.jsonwebtoken:jjwt-api']).toBe('0.12.3');
+    expect(result.metadata.dependencies).not.toHaveProperty('org.junit.jupiter:junit-jupiter');
+    expect(result.metadata.dependencies).not.toHaveProperty('com.example:common');
+  });
+
+  it('should read Gradle, npm, Go, Python and Cargo manifests', async () => {
+    const result = await analyze({
+      'settings.gradle.kts': 'rootProject.name = "billing"\ninclude("core")',
+      'build.gradle.kts': `plugins {
+    kotlin("jvm") version "1.9.22"
+    id("io.ktor.plugin") version "2.3.7"
+}
+
+dependencies {
+    implementation("io.ktor:ktor-server-core:2.3.7")
+    implementation(project(":core"))
+    testImplementation(kotlin("test"))
+}`,
+      'core/build.gradle.kts': 'dependencies {\n    api("org.jetbrains.exposed:exposed-core:0.46.0")\n}',
+      'web/package.json': JSON.stringify({
+        name: 'web',
+        dependencies: { next: '14.1.0', '@acme/ui': 'workspace:*' },
+        devDependencies: { typescript: '^5.3.0' },
+      }),
+      'packages/ui/package.json': JSON.stringify({ name: '@acme/ui', version: '0.0.1' }),
+      'gateway/go.mod': `module github.com/acme/gateway
+
+go 1.22
+
+require (
+	github.com/gin-gonic/gin v1.9.1
+	golang.org/x/net v0.20.0 // indirect
+)
+`,
+      'ml/pyproject.toml': `[project]
+name = "ml_service"
+dependencies = ["FastAPI>=0.110", "pydantic==2.6.0"]
+`,
+      'ml/requirements-dev.txt': 'pytest==8.0.0\n# a comment\n-r requirements.txt\n',
+      'cli/Cargo.toml': `[package]
+name = "acme-cli"
+version = "0.3.0"
+
+[dependencies]
+clap = { version = "4.4", features = ["derive"] }
+acme-core = { path = "../core-rs" }
+
+[dev-dependencies]
+assert_cmd = "2"
+`,
+    });
+
+    const byId = new Map(result.modules.map(module => [module.id, module]));
+
+    const billing = byId.get('maven:.')!;
+    expect(billing.name).toBe('billing');
+    expect(billing.language).toBe('kotlin');
+    expect(billing.frameworks).toEqual(['ktor']);
+    expect(billing.dependencies.map(dependency => [dependency.name, dependency.scope])).toEqual([
+      ['org.jetbrains.kotlin.jvm:org.jetbrains.kotlin.jvm.gradle.plugin', 'build'],
+      ['io.ktor.plugin:io.ktor.plugin.gradle.plugin', 'build'],
+      ['io.ktor:ktor-server-core', 'compile'],
+      ['core', 'compile'],
+      ['org.jetbrains.kotlin:kotlin-test', 'test'],
+    ]);
+
+    const web = byId.get('npm:web')!;
+    expect(web.language).toBe('typescript');
+    expect(web.frameworks).toEqual(['next']);
+
+    const gateway = byId.get('golang:gateway')!;
+    expect(gateway.name).toBe('github.com/acme/gateway');
+    expect(gateway.dependencies.map(dependency => dependency.scope)).toEqual(['compile', 'runtime']);
+
+    const ml = byId.get('pypi:ml')!;
+    expect(ml.manifests).toEqual(['ml/pyproject.toml', 'ml/requirements-dev.txt']);
+    expect(ml.dependencies.map(dependency => [dependency.name, dependency.version, dependency.scope])).toEqual([
+      ['fastapi', '>=0.110', 'runtime'],
+      ['pydantic', '2.6.0', 'runtime'],
+      ['pytest', '8.0.0', 'development'],
+    ]);
+
+    const cli = byId.get('cargo:cli')!;
+    expect(cli.dependencies.map(dependency => [dependency.name, dependency.scope, dependency.localPath])).toEqual([
+      ['clap', 'compile', undefined],
+      ['acme-core', 'compile', 'core-rs'],
+      ['assert_cmd', 'development', undefined],
+    ]);
+
+    expect(result.moduleGraph).toEqual([
+      { from: 'maven:.', to: 'maven:core', scope: 'compile' },
+      { from: 'npm:web', to: 'npm:packages/ui', scope: 'runtime' },
+    ]);
+
+    expect(result.metadata.projectConfig.type).toBe('microservice');
+    expect(result.frameworks).toEqual(expect.arrayContaining(['ktor', 'gin', 'fastapi', 'next', 'pytest']));
+  });
+
+  it('should export a CycloneDX SBOM with the modules as components', async () => {
+    const result = await analyze({
+      'package.json': JSON.stringify({
+        name: 'shop',
+        version: '1.0.0',
+        dependencies: { express: '4.18.2', '@shop/core': 'workspace:*' },
+        devDependencies: { jest: '^29.0.0' },
+      }),
+      'core/package.json': JSON.stringify({ name: '@shop/core', version: '1.0.0' }),
+    });
+
+    const bom = new CycloneDxExporter().export(result, { serialNumber: 'urn:uuid:test', timestamp: '2025-06-04T00:00:00Z' });
+
+    expect(bom.bomFormat).toBe('CycloneDX');
+    expect(bom.metadata.component).toMatchObject({ 'bom-ref': 'module:npm:.', type: 'application', name: 'shop', purl: 'pkg:npm/shop@1.0.0' });
+    expect(bom.components.map(component => [component['bom-ref'], component.purl, component.scope])).toEqual([
+      ['module:npm:core', 'pkg:npm/%40shop/core@1.0.0', undefined],
+      ['pkg:npm/express@4.18.2', 'pkg:npm/express@4.18.2', 'required'],
+      ['pkg:npm/jest@^29.0.0', 'pkg:npm/jest', 'excluded'],
+    ]);
+    expect(bom.dependencies).toEqual([
+      { ref: 'module:npm:.', dependsOn: ['module:npm:core', 'pkg:npm/express@4.18.2', 'pkg:npm/jest@^29.0.0'] },
+      { ref: 'module:npm:core', dependsOn: [] },
+    ]);
+  });
+});
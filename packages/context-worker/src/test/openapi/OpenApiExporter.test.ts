@@ -0,0 +1,86 @@
+import 'reflect-metadata';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { TestLanguageServiceProvider } from "../TestLanguageService";
+import { JavaSpringControllerAnalyser } from "../../code-context/java/JavaSpringControllerAnalyser";
+import { JavaStructurerProvider } from "../../code-context/java/JavaStructurerProvider";
+import { OpenApiExporter } from "../../openapi/OpenApiExporter";
+
+const Parser = require('web-tree-sitter');
+
+describe('OpenApiExporter', () => {
+  let languageService: TestLanguageServiceProvider;
+
+  beforeEach(async () => {
+    await Parser.init();
+    languageService = new TestLanguageServiceProvider(new Parser());
+  });
+
+  it('should export Spring controllers with parameters and schemas', async () => {
+    const controller = `package com.example.user;
+
+@RestController
+@RequestMapping("/api/users")
+public class UserController {
+    @GetMapping("/{id}")
+    public ResponseEntity<User> getUser(@PathVariable Long id, @RequestParam String fields) {
+        return null;
+    }
+
+    @PostMapping
+    public User createUser(@RequestBody User user, HttpServletRequest request) {
+        return user;
+    }
+
+    @DeleteMapping("/{id}")
+    public void deleteUser(@PathVariable Long id) {
+    }
+}`;
+    const model = `package com.example.user;
+
+public class User {
+    private String name;
+    private Integer age;
+}`;
+
+    const structurer = new JavaStructurerProvider();
+    await structurer.init(languageService);
+    const codeFiles = [
+      (await structurer.parseFile(controller, '/workspace/UserController.java'))!,
+      (await structurer.parseFile(model, '/workspace/User.java'))!,
+    ];
+
+    const analyser = new JavaSpringControllerAnalyser();
+    await analyser.init(languageService);
+    const resources = await analyser.analysis(codeFiles[0], '/workspace');
+
+    const document = new OpenApiExporter(codeFiles).export(resources, { title: 'user-service', version: '0.0.0' });
+
+    expect(Object.keys(document.paths)).toEqual(['/api/users/{id}', '/api/users']);
+    expect(document.paths['/api/users/{id}'].get).toEqual({
+      operationId: 'getUser',
+      tags: ['UserController'],
+      summary: 'UserController.getUser',
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: { type: 'integer', format: 'int64' } },
+        { name: 'fields', in: 'query', schema: { type: 'string' } },
+      ],
+      responses: {
+        '200': { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } } },
+      },
+    });
+    expect(document.paths['/api/users'].post.requestBody).toEqual({
+      required: true,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+    });
+    expect(document.paths['/api/users'].post.parameters).toBeUndefined();
+    expect(document.paths['/api/users/{id}'].delete.responses).toEqual({ '200': { description: 'OK' } });
+    expect(document.components!.schemas!.User).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'integer', format: 'int32' },
+      },
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { OpenApiResourceGenerator, parseOpenApiFile, scanOpenApiFiles } from "../../openapi/OpenApiResourceGenerator";
+import { diffApiResources } from "../../openapi/ApiSpecDiff";
+
+describe('OpenApiResourceGenerator', () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'openapi-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should import OpenAPI 3 yaml and Swagger 2 json files', async () => {
+    fs.mkdirSync(path.join(workspace, 'docs'));
+    fs.writeFileSync(path.join(workspace, 'docs/openapi.yaml'), `openapi: 3.0.3
+info:
+  title: User API
+  version: 1.0.0
+servers:
+  - url: https://api.example.com/v1
+paths:
+  /users/{id}:
+    parameters:
+      - name: id
+        in: path
+    get:
+      operationId: getUser
+      tags: [users]
+    delete:
+      tags: [users]
+`);
+    fs.writeFileSync(path.join(workspace, 'swagger.json'), JSON.stringify({
+      swagger: '2.0',
+      info: { title: 'Order API', version: '1.0' },
+      basePath: '/api',
+      paths: { '/orders': { post: { operationId: 'createOrder' } } },
+    }));
+    fs.writeFileSync(path.join(workspace, 'openapi-notes.json'), JSON.stringify({ name: 'not a spec' }));
+
+    const specFiles = (await scanOpenApiFiles(workspace)).sort();
+    expect(specFiles.map(file => path.relative(workspace, file))).toEqual(['docs/openapi.yaml', 'openapi-notes.json', 'swagger.json']);
+
+    const generator = new OpenApiResourceGenerator();
+    const resources = specFiles
+      .map(file => ({ file, document: parseOpenApiFile(file) }))
+      .filter(spec => spec.document)
+      .flatMap(spec => generator.generateApiResources(spec.document!, path.relative(workspace, spec.file)));
+
+    expect(resources).toEqual([
+      {
+        id: 'getUser',
+        sourceUrl: '/v1/users/{id}',
+        sourceHttpMethod: 'GET',
+        packageName: 'docs/openapi.yaml',
+        className: 'users',
+        methodName: 'getUser',
+        supplyType: 'OpenAPI',
+      },
+      {
+        id: '',
+        sourceUrl: '/v1/users/{id}',
+        sourceHttpMethod: 'DELETE',
+        packageName: 'docs/openapi.yaml',
+        className: 'users',
+        methodName: 'deleteUsersById',
+        supplyType: 'OpenAPI',
+      },
+      {
+        id: 'createOrder',
+        sourceUrl: '/api/orders',
+        sourceHttpMethod: 'POST',
+        packageName: 'swagger.json',
+        className: 'Order API',
+        methodName: 'createOrder',
+        supplyType: 'OpenAPI',
+      },
+    ]);
+  });
+
+  it('should diff declared and implemented endpoints', () => {
+    const api = (sourceHttpMethod: string, sourceUrl: string, methodName: string) => ({
+      id: '', sourceUrl, sourceHttpMethod, packageName: '', className: '', methodName, supplyType: '',
+    });
+
+    const diff = diffApiResources(
+      [api('GET', '/v1/users/{id}', 'getUser'), api('DELETE', '/v1/users/{id}', 'deleteUser')],
+      [api('GET', '/users/{userId}', 'findUser'), api('POST', '/users', 'createUser')],
+    );
+
+    expect(diff.matched.map(it => [it.declared.methodName, it.implemented.methodName])).toEqual([['getUser', 'findUser']]);
+    expect(diff.missing.map(it => it.methodName)).toEqual(['deleteUser']);
+    expect(diff.undocumented.map(it => it.methodName)).toEqual(['createUser']);
+  });
+});
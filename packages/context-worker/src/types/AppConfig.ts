@@ -1,3 +1,5 @@
+import { ClassDiagramOptions } from "./ClassDiagram";
+
 /**
  * 应用程序统一配置接口
  */
@@ -23,7 +25,45 @@ export interface AppConfig {
     interface: boolean;
     api: boolean;
     symbol: boolean;
+    /** 依赖清单分析，输出 SBOM 和项目元数据 */
+    dependency: boolean;
+    /** 接口分析中的未使用代码检测，默认开启 */
+    deadCode?: boolean;
+    /** 接口分析中的代码度量，默认开启 */
+    metrics?: boolean;
+    /** 接口分析中的测试映射，默认开启 */
+    testMapping?: boolean;
+    /** 接口分析中的数据模型提取，默认开启 */
+    dataModel?: boolean;
+    /** 接口分析中的跨文件调用图，默认开启 */
+    callGraph?: boolean;
   };
+  /** 是否启用增量分析缓存 */
+  cache?: boolean;
+  /** 缓存目录，相对路径基于扫描目录 */
+  cacheDir?: string;
+  /** 只分析自该 git 引用以来变更的文件 */
+  since?: string;
+  /** 分析完成后持续监听文件变更并增量上传 */
+  watch?: boolean;
+  /** 导出 OpenAPI 草稿文档的文件路径，.yaml/.yml 输出 YAML，其余输出 JSON */
+  openApiOutput?: string;
+  /** 只分析匹配这些 glob 的文件，来自 autodev.config */
+  include?: string[];
+  /** 跳过匹配这些 glob 的文件，来自 autodev.config */
+  exclude?: string[];
+  /** 解析文件的线程数，默认为 CPU 核数减一，每个线程至少分到 50 个文件 */
+  jobs?: number;
+  /** 只输出该方法输入输出类型的 UML，格式为 path/to/file#method，不运行分析 */
+  relevantCode?: string;
+  /** 以 stdio 语言服务器运行，提供符号、定义和引用查询，不运行分析 */
+  lsp?: boolean;
+  /** 学习资料中类图的分组和过滤选项 */
+  diagram?: Partial<ClassDiagramOptions>;
+  /** proto import 的额外查找目录，相对路径基于扫描目录，扫描目录本身总会被查找 */
+  protoPaths?: string[];
+  /** 加载被扫描仓库的 autodev.config.js 和 plugins，会执行仓库中的代码，只对可信的仓库开启 */
+  allowPlugins?: boolean;
 }
 
 /**
@@ -41,6 +81,18 @@ export const DEFAULT_CONFIG: AppConfig = {
   analysisTypes: {
     interface: true,
     api: true,
-    symbol: true
-  }
+    symbol: true,
+    dependency: true,
+    deadCode: true,
+    metrics: true,
+    testMapping: true,
+    dataModel: true,
+    callGraph: true
+  },
+  cache: true,
+  cacheDir: '.autodev/cache',
+  since: undefined,
+  watch: false,
+  openApiOutput: undefined,
+  jobs: undefined
 };
@@ -0,0 +1,47 @@
+/**
+ * 类图生成选项
+ */
+export interface ClassDiagramOptions {
+  /** 按包（package/目录）或按模块（最近的构建文件所在目录）分组 */
+  groupBy: 'package' | 'module';
+  /** 只包含包名或目录以此开头的类 */
+  packagePrefix?: string;
+  /** 分组名保留的层级数，如 2 表示 com.example.order 归入 com.example */
+  depth?: number;
+  /** 是否输出字段 */
+  includeFields: boolean;
+  /** 是否输出方法 */
+  includeMethods: boolean;
+}
+
+export const DEFAULT_CLASS_DIAGRAM_OPTIONS: ClassDiagramOptions = {
+  groupBy: 'package',
+  packagePrefix: undefined,
+  depth: undefined,
+  includeFields: false,
+  includeMethods: true,
+};
+
+export interface DiagramClass {
+  /** canonical name, unique in the workspace */
+  id: string;
+  name: string;
+  kind: 'class' | 'interface';
+  group: string;
+  fields: Array<{ name: string, type: string }>;
+  methods: Array<{ name: string, parameters: Array<{ name: string, type: string }>, returnType: string }>;
+}
+
+export interface DiagramRelation {
+  /** the implementing or extending class */
+  from: string;
+  to: string;
+  kind: 'implements' | 'extends';
+}
+
+export interface ClassDiagram {
+  /** `workspace` for the whole workspace, or the name of the group */
+  name: string;
+  classes: DiagramClass[];
+  relations: DiagramRelation[];
+}
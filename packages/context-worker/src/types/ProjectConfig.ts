@@ -0,0 +1,27 @@
+import { StructurerProvider } from "../code-context/base/StructurerProvider";
+import { HttpApiAnalyser } from "../code-context/base/HttpApiAnalyser";
+
+/**
+ * 被扫描仓库中 `autodev.config.json` 或 `autodev.config.js` 的配置
+ */
+export interface ProjectConfig {
+  /** 只分析匹配这些 glob 的文件，路径相对于仓库根目录，语法同 .gitignore */
+  include?: string[];
+  /** 跳过匹配这些 glob 的文件，语法同 .gitignore */
+  exclude?: string[];
+  /** 语言到文件扩展名的映射，覆盖内置映射，如 `{ "php": [".inc"] }` */
+  languages?: Record<string, string[]>;
+  /** 启动时加载的 npm 模块或相对仓库根目录的脚本，导出 `structurers` 和 `httpApiAnalysers` */
+  plugins?: string[];
+}
+
+/**
+ * 插件模块导出的 StructurerProvider 和 HttpApiAnalyser 实现类，构造函数不能有参数
+ */
+export interface ProjectPlugin {
+  name: string;
+  structurers: (new () => StructurerProvider)[];
+  httpApiAnalysers: (new () => HttpApiAnalyser)[];
+}
+
+export const PROJECT_CONFIG_FILES = ['autodev.config.json', 'autodev.config.js'];
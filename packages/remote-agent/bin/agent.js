@@ -24,6 +24,9 @@ async function main() {
       githubToken: process.env.GITHUB_TOKEN,
       verbose: config.verbose,
       autoUploadToIssue: config.autoUpload || false,
+      nativeToolCalling: config.nativeTools,
+      toolPolicy: config.policy || undefined,
+      approvalHandler: createApprovalHandler(config),
       githubContext: githubContext
     });
 
@@ -35,6 +38,11 @@ async function main() {
     console.log(`🔧 Available Tools: ${agent.getAvailableTools().join(', ')}`);
     console.log(`📁 Workspace: ${config.workspacePath || process.cwd()}`);
 
+    if (config.resume) {
+      await resumeSession(agent, config.resume);
+      return;
+    }
+
     if (config.command) {
       await processSingleCommand(agent, config.command, config);
       return;
@@ -224,7 +232,11 @@ function parseArgs(args) {
     verbose: false,
     workspacePath: null,
     command: null,
-    autoUpload: false
+    autoUpload: false,
+    nativeTools: false,
+    resume: null,
+    policy: null,
+    ci: false
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -257,6 +269,29 @@ function parseArgs(args) {
         config.autoUpload = true;
         break;
 
+      case '--native-tools':
+        config.nativeTools = true;
+        break;
+
+      case '--policy':
+        if (i + 1 < args.length) {
+          config.policy = path.resolve(args[i + 1]);
+          i++;
+        }
+        break;
+
+      case '--ci':
+        config.ci = true;
+        break;
+
+      case '--resume':
+      case '-r':
+        if (i + 1 < args.length) {
+          config.resume = args[i + 1];
+          i++;
+        }
+        break;
+
       case '--help':
       case '-h':
         showHelp();
@@ -300,6 +335,9 @@ async function processSingleCommand(agent, command, config) {
 
     if (!response.success) {
       console.error('❌ Command execution failed');
+      if (response.sessionId) {
+        console.log(`💾 Resume with: --resume ${response.sessionId}`);
+      }
       await cleanupAndExit(agent, 1);
       return;
     }
@@ -313,6 +351,83 @@ async function processSingleCommand(agent, command, config) {
   }
 }
 
+/**
+ * Resume a persisted session and exit
+ */
+async function resumeSession(agent, sessionId) {
+  console.log(`⏯️ Resuming session: ${sessionId}\n`);
+
+  try {
+    const response = await agent.resume(sessionId);
+    console.log(AIAgent.formatResponse(response));
+
+    if (!response.success) {
+      console.error('❌ Resumed session failed');
+      await cleanupAndExit(agent, 1);
+      return;
+    }
+
+    console.log('\n✅ Session completed successfully');
+    await cleanupAndExit(agent, 0);
+  } catch (error) {
+    console.error('❌ Error resuming session:', error.message);
+    await cleanupAndExit(agent, 1);
+  }
+}
+
+/**
+ * Print the persisted sessions, the latest first
+ */
+function showSessions(agent) {
+  const sessions = agent.listSessions();
+  if (sessions.length === 0) {
+    console.log('📭 No sessions found.');
+    return;
+  }
+
+  console.log('🗂️ Sessions:');
+  for (const session of sessions) {
+    const input = session.userInput.length > 60 ? session.userInput.substring(0, 60) + '...' : session.userInput;
+    console.log(`  ${session.id}  ${session.status}  ${session.totalRounds} rounds  ${input}`);
+  }
+}
+
+/**
+ * Ask on the terminal before running the tool calls the policy marks with `ask`. In CI, or without a terminal,
+ * there is no handler and the executor denies them
+ */
+function createApprovalHandler(config) {
+  if (config.ci || process.env.CI === 'true' || !process.stdin.isTTY) {
+    return undefined;
+  }
+
+  return async ({ functionCall, decision }) => {
+    const parameters = JSON.stringify(functionCall.parameters);
+    console.log(`\n🔐 Tool approval required: ${functionCall.name} (${decision.reason})`);
+    console.log(`   Parameters: ${parameters.length > 300 ? parameters.substring(0, 300) + '...' : parameters}`);
+
+    const answer = await askQuestion('   Allow this call? [y/N] ');
+    const approved = ['y', 'yes'].includes(answer.trim().toLowerCase());
+    console.log(approved ? '   ✅ Approved' : '   🚫 Rejected');
+    return approved;
+  };
+}
+
+/**
+ * Read one answer, from the interactive prompt when it is open
+ */
+function askQuestion(question) {
+  if (interactiveReadline) {
+    return new Promise(resolve => interactiveReadline.question(question, resolve));
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise(resolve => rl.question(question, answer => {
+    rl.close();
+    resolve(answer);
+  }));
+}
+
 /**
  * Clean up resources and exit gracefully
  */
@@ -352,6 +467,7 @@ async function startInteractiveMode(agent, config) {
     output: process.stdout,
     prompt: '🤖 > '
   });
+  interactiveReadline = rl;
 
   rl.prompt();
 
@@ -383,6 +499,12 @@ async function startInteractiveMode(agent, config) {
       return;
     }
 
+    if (trimmedInput === 'sessions') {
+      showSessions(agent);
+      rl.prompt();
+      return;
+    }
+
     if (trimmedInput === 'tools') {
       console.log('🔧 Available tools:', agent.getAvailableTools().join(', '));
       rl.prompt();
@@ -429,6 +551,10 @@ OPTIONS:
   -w, --workspace PATH    Set workspace path (default: current directory)
   -c, --command TEXT      Execute single command and exit
   -u, --auto-upload       Automatically upload analysis results to GitHub issues
+  --native-tools          Call tools through the provider's function calling API instead of XML
+  -r, --resume ID         Resume a persisted session from its last recorded round
+  --policy FILE           Tool policy file (default: ~/.autodev/tool-policy.json)
+  --ci                    Deny the tool calls that need approval instead of asking
   -h, --help              Show this help message
 
 EXAMPLES:
@@ -444,6 +570,12 @@ EXAMPLES:
   # Auto-upload results to GitHub issue
   autodev-ai-agent --auto-upload "Analyze GitHub issue #123 in owner/repo"
 
+  # Enforce a tool policy without asking, decisions are logged to .autodev/audit/tool-decisions.jsonl
+  autodev-ai-agent --ci --policy tool-policy.json "Fix the failing test"
+
+  # Resume an interrupted run, sessions are stored in .autodev/sessions
+  autodev-ai-agent --resume 2025-01-01T10-00-00-000Z-a1b2c3
+
 ENVIRONMENT VARIABLES:
   GITHUB_TOKEN           GitHub personal access token
   GLM_TOKEN             智谱AI API token
@@ -470,6 +602,7 @@ function showInteractiveHelp(agent) {
 SPECIAL COMMANDS:
   help     - Show this help message
   tools    - List available tools
+  sessions - List persisted sessions, resume one with --resume <sessionId>
   clear    - Clear conversation history
   exit     - Exit the agent
 
@@ -490,6 +623,9 @@ Just type your request in natural language!
 // Global agent reference for cleanup
 let globalAgent = null;
 
+// The prompt of interactive mode, tool approvals are asked on it
+let interactiveReadline = null;
+
 // Handle uncaught errors with cleanup
 process.on('uncaughtException', async (error) => {
   console.error('❌ Uncaught Exception:', error.message);
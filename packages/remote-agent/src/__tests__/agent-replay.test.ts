@@ -0,0 +1,107 @@
+import { describe, expect, test, beforeEach, afterEach } from '@jest/globals';
+import { generateText, LanguageModelV1 } from 'ai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CassetteMissError,
+  closeCassettes,
+  createRecordingLLMProvider,
+  createReplayLLMProvider,
+  LLMProviderConfig,
+  openCassette
+} from '../services/llm';
+import { runReplayScenario } from './helpers/replay-harness';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'replay');
+
+function scriptedModel(responses: string[]): LanguageModelV1 {
+  let call = 0;
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId: 'mock-model',
+    defaultObjectGenerationMode: undefined,
+    doGenerate: async () => ({
+      rawCall: { rawPrompt: null, rawSettings: {} },
+      finishReason: 'stop',
+      usage: { promptTokens: 10, completionTokens: 10 },
+      text: responses[Math.min(call++, responses.length - 1)]
+    }),
+    doStream: async () => {
+      throw new Error('Streaming is not supported');
+    }
+  };
+}
+
+describe('LLM cassettes', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-cassette-'));
+    closeCassettes();
+  });
+
+  afterEach(() => {
+    closeCassettes();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should replay the recorded responses of a prompt in order', async () => {
+    const file = path.join(dir, 'chat.cassette.json');
+    const model = scriptedModel(['first', 'second']);
+    const base = {
+      fullModel: 'mock-model',
+      quickModel: 'mock-model',
+      providerName: 'Mock',
+      openai: (() => model) as any
+    } as LLMProviderConfig;
+    const options = { replacements: { [dir]: '<workspace>' } };
+
+    const recording = createRecordingLLMProvider(base, openCassette(file, options));
+    const prompt = `Read ${dir}/README.md, modified at ${new Date().toISOString()}`;
+    for (let i = 0; i < 2; i++) {
+      await generateText({ model: recording.openai('mock-model'), prompt });
+    }
+
+    expect(JSON.stringify(JSON.parse(fs.readFileSync(file, 'utf8')))).not.toContain(dir);
+
+    closeCassettes();
+    const replay = createReplayLLMProvider(openCassette(file, options));
+    const otherPrompt = `Read ${dir}/README.md, modified at 2020-01-01T00:00:00.000Z`;
+    const texts = [];
+    for (let i = 0; i < 3; i++) {
+      texts.push((await generateText({ model: replay.openai(replay.fullModel), prompt: otherPrompt })).text);
+    }
+
+    expect(replay.fullModel).toBe('mock-model');
+    expect(texts).toEqual(['first', 'second', 'second']);
+  });
+
+  test('should fail on a prompt without a recorded response', async () => {
+    const replay = createReplayLLMProvider(openCassette(path.join(dir, 'empty.cassette.json')));
+
+    await expect(replay.openai('replay').doGenerate({
+      inputFormat: 'prompt',
+      mode: { type: 'regular' },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }]
+    })).rejects.toThrow(CassetteMissError);
+  });
+});
+
+describe('AIAgent replay', () => {
+  test('should find the root cause of an issue in the fixture workspace', async () => {
+    const { response, toolCalls, text } = await runReplayScenario({
+      workspace: path.join(FIXTURES, 'todo-app'),
+      cassette: path.join(FIXTURES, 'issue-analysis.cassette.json'),
+      input: 'Removing a todo from the list deletes the wrong item, why?'
+    });
+
+    expect(response.error).toBeUndefined();
+    expect(response.success).toBe(true);
+    expect(toolCalls).toEqual([{ name: 'read-file', parameters: { file_path: 'src/todo.js' } }]);
+    expect(response.toolResults[0].success).toBe(true);
+    expect(text).toContain('## Root Cause');
+    expect(text).toContain('splice');
+  }, 30000);
+});
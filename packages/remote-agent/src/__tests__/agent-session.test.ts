@@ -0,0 +1,221 @@
+import { describe, expect, test, beforeEach, afterEach } from '@jest/globals';
+import { CoreMessage, LanguageModelV1 } from 'ai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AIAgent } from '../agent';
+import { ToolResult } from '../agent/tool-definition';
+import { SessionStore } from '../agent/session-store';
+import { Playbook } from '../playbooks';
+import { LLMProviderConfig } from '../services/llm';
+
+class StubPlaybook extends Playbook {
+  previousResults: ToolResult[][] = [];
+
+  preparePrompt(input: string): string {
+    return input;
+  }
+
+  async buildMessagesForRound(input: string, context: any, round: number): Promise<CoreMessage[]> {
+    this.previousResults.push([...(context?.previousResults || [])]);
+    return [
+      { role: 'system', content: 'You are a coding agent.' },
+      { role: 'user', content: `Round ${round}: ${input}` }
+    ];
+  }
+
+  async generateComprehensiveFinalResponse(userInput: string, lastLLMResponse: string): Promise<string> {
+    return lastLLMResponse;
+  }
+}
+
+const READ_CONFIG = `\`\`\`xml
+<function_calls>
+<invoke name="read-file">
+<parameter name="file_path">config.json</parameter>
+</invoke>
+</function_calls>
+\`\`\``;
+
+function scriptedModel(responses: Array<string | Error>): LanguageModelV1 {
+  let call = 0;
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId: 'mock-model',
+    defaultObjectGenerationMode: undefined,
+    doGenerate: async () => {
+      const response = responses[Math.min(call++, responses.length - 1)];
+      if (response instanceof Error) {
+        throw response;
+      }
+      return {
+        rawCall: { rawPrompt: null, rawSettings: {} },
+        finishReason: 'stop',
+        usage: { promptTokens: 10, completionTokens: 10 },
+        text: response
+      };
+    },
+    doStream: async () => {
+      throw new Error('Streaming is not supported');
+    }
+  };
+}
+
+describe('AIAgent sessions', () => {
+  let workspace: string;
+  let previousWorkspace: string | undefined;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-session-'));
+    fs.writeFileSync(path.join(workspace, 'config.json'), '{ "port": 8080 }');
+    previousWorkspace = process.env.WORKSPACE_PATH;
+    process.env.WORKSPACE_PATH = workspace;
+  });
+
+  afterEach(() => {
+    if (previousWorkspace === undefined) {
+      delete process.env.WORKSPACE_PATH;
+    } else {
+      process.env.WORKSPACE_PATH = previousWorkspace;
+    }
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  function createAgent(model: LanguageModelV1, playbook: Playbook, enableToolChaining = true) {
+    const llmConfig = {
+      fullModel: 'mock-model',
+      quickModel: 'mock-model',
+      providerName: 'Mock',
+      openai: (() => model) as any
+    } as LLMProviderConfig;
+
+    return new AIAgent({ workspacePath: workspace, llmConfig, playbook, maxToolRounds: 3, enableToolChaining });
+  }
+
+  const readResult = (result: ToolResult) => JSON.parse(result.result.content[0].text).content;
+
+  test('should persist the rounds of a run and resume it after the last recorded round', async () => {
+    const crashed = createAgent(scriptedModel([READ_CONFIG, new Error('connection reset')]), new StubPlaybook());
+
+    const failure = await crashed.start('Which port does the server use?');
+
+    expect(failure.success).toBe(false);
+    const [summary] = crashed.listSessions();
+    expect(summary).toMatchObject({ id: failure.sessionId, status: 'failed', totalRounds: 1, mode: 'xml' });
+
+    const session = crashed.loadSession(failure.sessionId!)!;
+    expect(session.error).toBe('connection reset');
+    expect(session.rounds[0].response).toBe(READ_CONFIG);
+    expect(session.rounds[0].functionCalls).toEqual([{ name: 'read-file', parameters: { file_path: 'config.json' } }]);
+    expect(session.rounds[0].toolResults[0].success).toBe(true);
+    expect(fs.existsSync(path.join(workspace, '.autodev', 'sessions', summary.id, 'round-1.json'))).toBe(true);
+
+    const playbook = new StubPlaybook();
+    const resumed = await createAgent(scriptedModel(['The server listens on port 8080.']), playbook).resume(summary.id);
+
+    expect(resumed).toMatchObject({ success: true, text: 'The server listens on port 8080.', sessionId: summary.id });
+    expect(resumed.toolResults.map(result => result.functionCall.name)).toEqual(['read-file']);
+    expect(playbook.previousResults[0].map(result => result.functionCall.name)).toEqual(['read-file']);
+
+    const completed = crashed.loadSession(summary.id)!;
+    expect(completed.status).toBe('completed');
+    expect(completed.finalResponse).toBe('The server listens on port 8080.');
+    expect(completed.rounds.map(round => round.round)).toEqual([1, 2]);
+  });
+
+  test('should only run the tools without a result when resuming a round that crashed', async () => {
+    fs.writeFileSync(path.join(workspace, 'README.md'), 'Run npm start');
+    const readBoth = READ_CONFIG.replace('</function_calls>', `<invoke name="read-file">
+<parameter name="file_path">README.md</parameter>
+</invoke>
+</function_calls>`);
+    const readConfig = { name: 'read-file', parameters: { file_path: 'config.json' } };
+    const readReadme = { name: 'read-file', parameters: { file_path: 'README.md' } };
+
+    // the process died after reading config.json, before reading README.md
+    const store = new SessionStore(SessionStore.defaultDir(workspace));
+    const session = store.create({ userInput: 'How do I start the server?', mode: 'xml', history: [], workspacePath: workspace, playbook: 'StubPlaybook' });
+    store.startRound(session, {
+      round: 1,
+      messages: [{ role: 'user', content: 'Round 1: How do I start the server?' }],
+      response: readBoth,
+      functionCalls: [readConfig, readReadme],
+      toolResults: [],
+      startedAt: new Date().toISOString(),
+      executionTime: 0
+    });
+    store.recordToolResult(session, {
+      success: true,
+      result: { content: [{ type: 'text', text: JSON.stringify({ content: 'recorded config' }) }] },
+      functionCall: readConfig,
+      round: 1,
+      executionTime: 1
+    });
+
+    const playbook = new StubPlaybook();
+    const resumed = await createAgent(scriptedModel(['Run npm start.']), playbook).resume(session.id);
+
+    expect(resumed).toMatchObject({ success: true, text: 'Run npm start.' });
+    expect(resumed.toolResults.map(readResult)).toEqual(['recorded config', 'Run npm start']);
+    // the model is only asked for round 2
+    expect(playbook.previousResults).toHaveLength(1);
+
+    const completed = store.load(session.id)!;
+    expect(completed.pendingRound).toBeUndefined();
+    expect(completed.rounds.map(round => round.round)).toEqual([1, 2]);
+    expect(completed.rounds[0].toolResults.map(readResult)).toEqual(['recorded config', 'Run npm start']);
+  });
+
+  test('should not run the tools again when resuming a single response run', async () => {
+    class SummaryPlaybook extends StubPlaybook {
+      constructor(private failing: boolean) {
+        super();
+      }
+
+      async generateComprehensiveFinalResponse(): Promise<string> {
+        if (this.failing) {
+          throw new Error('connection reset');
+        }
+        return 'The server listens on port 8080.';
+      }
+    }
+
+    const failure = await createAgent(scriptedModel([READ_CONFIG]), new SummaryPlaybook(true), false).start('Which port does the server use?');
+    expect(failure.success).toBe(false);
+    fs.writeFileSync(path.join(workspace, 'config.json'), '{ "port": 9090 }');
+
+    await expect(createAgent(scriptedModel([READ_CONFIG]), new StubPlaybook(), false).resume(failure.sessionId!))
+      .rejects.toThrow('was run with the SummaryPlaybook, it cannot be resumed with the StubPlaybook');
+
+    const resumed = await createAgent(scriptedModel([new Error('should not be called')]), new SummaryPlaybook(false), false).resume(failure.sessionId!);
+
+    expect(resumed).toMatchObject({ success: true, text: 'The server listens on port 8080.' });
+    expect(resumed.toolResults.map(readResult)).toEqual(['{ "port": 8080 }']);
+  });
+
+  test('should return the final response of a completed session without calling the model', async () => {
+    const agent = createAgent(scriptedModel(['Nothing to do.']), new StubPlaybook());
+    const response = await agent.start('Hello');
+
+    const replay = await createAgent(scriptedModel([new Error('should not be called')]), new StubPlaybook()).resume(response.sessionId!);
+
+    expect(replay).toMatchObject({ success: true, text: 'Nothing to do.', totalRounds: 1 });
+  });
+
+  test('should not persist runs when sessions are disabled', async () => {
+    const llmConfig = { fullModel: 'mock-model', quickModel: 'mock-model', providerName: 'Mock', openai: (() => scriptedModel(['Hi'])) as any } as LLMProviderConfig;
+    const agent = new AIAgent({ workspacePath: workspace, llmConfig, playbook: new StubPlaybook(), persistSessions: false });
+
+    const response = await agent.start('Hello');
+
+    expect(response.sessionId).toBeUndefined();
+    expect(agent.listSessions()).toEqual([]);
+  });
+
+  test('should reject session ids outside the session directory', () => {
+    const store = new SessionStore(SessionStore.defaultDir(workspace));
+
+    expect(() => store.load('../config')).toThrow('Invalid session id');
+  });
+});
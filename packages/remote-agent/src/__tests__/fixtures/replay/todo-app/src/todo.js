@@ -0,0 +1,24 @@
+class TodoList {
+  constructor() {
+    this.items = [];
+  }
+
+  add(title) {
+    const item = { id: this.items.length + 1, title, done: false };
+    this.items.push(item);
+    return item;
+  }
+
+  remove(id) {
+    this.items.splice(id, 1);
+  }
+
+  complete(id) {
+    const item = this.items.find(item => item.id === id);
+    if (item) {
+      item.done = true;
+    }
+  }
+}
+
+module.exports = { TodoList };
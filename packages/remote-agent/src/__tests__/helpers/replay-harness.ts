@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentConfig, AgentResponse, AIAgent } from '../../agent';
+import { FunctionCall } from '../../agent/tool-definition';
+import { Playbook } from '../../playbooks';
+import { closeCassettes } from '../../services/llm';
+
+export interface ReplayScenario {
+  /**
+   * Fixture workspace, copied to a temporary directory so the tools can't change it
+   */
+  workspace: string;
+  cassette: string;
+  input: string;
+  /**
+   * Created once the cassette is in place, playbooks configure their LLM provider in the constructor
+   */
+  playbook?: () => Playbook;
+  config?: Partial<AgentConfig>;
+}
+
+export interface ReplayOutcome {
+  response: AgentResponse;
+  toolCalls: FunctionCall[];
+  text: string;
+}
+
+const CASSETTE_ENV = ['WORKSPACE_PATH', 'AUTODEV_LLM_REPLAY', 'AUTODEV_LLM_RECORD'];
+
+/**
+ * Run `AIAgent.start` against a fixture workspace with the LLM responses of a cassette, without network.
+ *
+ * With `AUTODEV_RECORD_CASSETTES=true` and a configured LLM provider the cassette is recorded again from a
+ * real run instead, for prompt changes that should change the behaviour.
+ */
+export async function runReplayScenario(scenario: ReplayScenario): Promise<ReplayOutcome> {
+  const recording = process.env.AUTODEV_RECORD_CASSETTES === 'true';
+  const previousEnv = CASSETTE_ENV.map(name => [name, process.env[name]] as const);
+  const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-replay-'));
+
+  try {
+    fs.cpSync(scenario.workspace, workspace, { recursive: true });
+    process.env.WORKSPACE_PATH = workspace;
+    if (recording) {
+      fs.rmSync(scenario.cassette, { force: true });
+      delete process.env.AUTODEV_LLM_REPLAY;
+      process.env.AUTODEV_LLM_RECORD = scenario.cassette;
+    } else {
+      delete process.env.AUTODEV_LLM_RECORD;
+      process.env.AUTODEV_LLM_REPLAY = scenario.cassette;
+    }
+    closeCassettes();
+
+    const agent = new AIAgent({
+      workspacePath: workspace,
+      playbook: scenario.playbook?.(),
+      persistSessions: false,
+      ...scenario.config
+    });
+    const response = await agent.start(scenario.input);
+    await agent.cleanup();
+
+    return {
+      response,
+      toolCalls: response.toolResults.map(result => result.functionCall),
+      text: response.text
+    };
+  } finally {
+    closeCassettes();
+    for (const [name, value] of previousEnv) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    fs.rmSync(workspace, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,206 @@
+import { describe, expect, test, beforeEach, afterEach } from '@jest/globals';
+import { APICallError, CoreMessage, LanguageModelV1 } from 'ai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { AIAgent } from '../agent';
+import { ToolResult } from '../agent/tool-definition';
+import { ToolPromptBuilder } from '../agent/tool-prompt-builder';
+import { Playbook } from '../playbooks';
+import { LLMProviderConfig } from '../services/llm';
+
+class StubPlaybook extends Playbook {
+  nativeToolCalling?: boolean;
+  toolResults: ToolResult[] = [];
+
+  setNativeToolCalling(enabled: boolean): void {
+    this.nativeToolCalling = enabled;
+  }
+
+  preparePrompt(input: string): string {
+    return input;
+  }
+
+  async buildMessagesForRound(input: string): Promise<CoreMessage[]> {
+    return [
+      { role: 'system', content: 'You are a coding agent.' },
+      { role: 'user', content: input }
+    ];
+  }
+
+  async generateComprehensiveFinalResponse(
+    userInput: string,
+    lastLLMResponse: string,
+    allToolResults: ToolResult[]
+  ): Promise<string> {
+    this.toolResults = allToolResults;
+    return lastLLMResponse;
+  }
+}
+
+const usage = { promptTokens: 10, completionTokens: 10 };
+
+function mockModel(doGenerate: LanguageModelV1['doGenerate']): LanguageModelV1 {
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId: 'mock-model',
+    defaultObjectGenerationMode: undefined,
+    doGenerate,
+    doStream: async () => {
+      throw new Error('Streaming is not supported');
+    }
+  };
+}
+
+describe('AIAgent native tool calling', () => {
+  let workspace: string;
+  let previousWorkspace: string | undefined;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'native-tools-'));
+    fs.writeFileSync(path.join(workspace, 'config.json'), '{ "name": "say \\"hi\\"" }');
+    previousWorkspace = process.env.WORKSPACE_PATH;
+    process.env.WORKSPACE_PATH = workspace;
+  });
+
+  afterEach(() => {
+    if (previousWorkspace === undefined) {
+      delete process.env.WORKSPACE_PATH;
+    } else {
+      process.env.WORKSPACE_PATH = previousWorkspace;
+    }
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  function createAgent(model: LanguageModelV1, playbook: StubPlaybook, supportsToolCalling = true) {
+    const llmConfig = {
+      fullModel: 'mock-model',
+      quickModel: 'mock-model',
+      providerName: 'Mock',
+      supportsToolCalling,
+      openai: (() => model) as any
+    } as LLMProviderConfig;
+
+    return new AIAgent({ workspacePath: workspace, llmConfig, playbook, nativeToolCalling: true, maxToolRounds: 2 });
+  }
+
+  test('should extract the zod schemas of the tools as a tool set', () => {
+    const tools = ToolPromptBuilder.extractToolSet([
+      (installer) => installer('echo', 'Echo the text', { text: z.string() }, async () => ({ content: [] }))
+    ]);
+
+    expect(Object.keys(tools)).toEqual(['echo']);
+    expect(tools.echo.description).toBe('Echo the text');
+    expect(tools.echo.parameters.parse({ text: 'hi' })).toEqual({ text: 'hi' });
+  });
+
+  test('should send the tool results back as structured tool messages', async () => {
+    const prompts: any[] = [];
+    const model = mockModel(async (options) => {
+      prompts.push(options);
+      if (prompts.length === 1) {
+        return {
+          rawCall: { rawPrompt: null, rawSettings: {} },
+          finishReason: 'tool-calls',
+          usage,
+          toolCalls: [{
+            toolCallType: 'function',
+            toolCallId: 'call-1',
+            toolName: 'read-file',
+            args: JSON.stringify({ file_path: 'config.json' })
+          }]
+        };
+      }
+
+      return { rawCall: { rawPrompt: null, rawSettings: {} }, finishReason: 'stop', usage, text: 'The name is say "hi".' };
+    });
+    const playbook = new StubPlaybook();
+    const agent = createAgent(model, playbook);
+
+    const response = await agent.start('What is the name in config.json?');
+
+    expect(response.success).toBe(true);
+    expect(response.text).toBe('The name is say "hi".');
+    expect(playbook.nativeToolCalling).toBe(true);
+    expect(prompts[0].mode.type).toBe('regular');
+    expect(prompts[0].mode.tools.map((tool: any) => tool.name)).toContain('read-file');
+
+    const toolMessage = prompts[1].prompt.find((message: any) => message.role === 'tool');
+    expect(toolMessage.content[0]).toMatchObject({ type: 'tool-result', toolCallId: 'call-1', toolName: 'read-file' });
+    expect(JSON.parse(toolMessage.content[0].result).content).toBe('{ "name": "say \\"hi\\"" }');
+    expect(playbook.toolResults.map(result => result.functionCall.name)).toEqual(['read-file']);
+  });
+
+  test('should fall back to the XML tool calls when the provider rejects the tools', async () => {
+    const prompts: any[] = [];
+    const model = mockModel(async (options) => {
+      prompts.push(options);
+      if (prompts.length === 1) {
+        throw new APICallError({
+          message: 'Bad Request',
+          url: 'https://llm.example.com/v1/chat/completions',
+          requestBodyValues: {},
+          statusCode: 400,
+          responseBody: '{"error":{"message":"tools is not supported for this model"}}'
+        });
+      }
+
+      return { rawCall: { rawPrompt: null, rawSettings: {} }, finishReason: 'stop', usage, text: 'No tools needed.' };
+    });
+    const playbook = new StubPlaybook();
+    const agent = createAgent(model, playbook);
+
+    const response = await agent.start('Hello');
+
+    expect(response.success).toBe(true);
+    expect(response.text).toBe('No tools needed.');
+    expect(agent.loadSession(response.sessionId!)!.mode).toBe('xml');
+    expect(prompts[1].mode.tools).toBeUndefined();
+
+    // the next request tries the native tools again
+    await agent.start('Hello again');
+
+    expect(playbook.nativeToolCalling).toBe(true);
+    expect(prompts[2].mode.tools).toEqual(prompts[0].mode.tools);
+  });
+
+  test('should not fall back on errors unrelated to the tools', async () => {
+    const prompts: any[] = [];
+    const model = mockModel(async (options) => {
+      prompts.push(options);
+      throw new APICallError({
+        message: 'Bad Request',
+        url: 'https://llm.example.com/v1/chat/completions',
+        requestBodyValues: {},
+        statusCode: 400,
+        responseBody: '{"error":{"message":"This model\'s maximum context length is 8192 tokens"}}'
+      });
+    });
+    const playbook = new StubPlaybook();
+    const agent = createAgent(model, playbook);
+
+    const response = await agent.start('Hello');
+
+    expect(response.success).toBe(false);
+    expect(response.error).toBe('Bad Request');
+    expect(prompts).toHaveLength(1);
+    expect(playbook.nativeToolCalling).toBe(true);
+  });
+
+  test('should keep the XML tool calls for providers without tool support', async () => {
+    const prompts: any[] = [];
+    const model = mockModel(async (options) => {
+      prompts.push(options);
+      return { rawCall: { rawPrompt: null, rawSettings: {} }, finishReason: 'stop', usage, text: 'Plain answer.' };
+    });
+    const playbook = new StubPlaybook();
+    const agent = createAgent(model, playbook, false);
+
+    await agent.start('Hello');
+
+    expect(playbook.nativeToolCalling).toBe(false);
+    expect(prompts[0].mode.tools).toBeUndefined();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, test, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AUTO_FALLBACK_WARNING,
+  BubblewrapBackend,
+  DEFAULT_LIMITS,
+  ExecutionRequest,
+  ProcessSandbox,
+  ResourceLimits,
+  RestrictedBackend,
+  scrubEnvironment
+} from '../capabilities/tools/process/process-sandbox';
+
+describe('ProcessSandbox', () => {
+  const hostEnv = { GITHUB_TOKEN: 'ghp_secret', JAVA_HOME: '/opt/jdk', HTTPS_PROXY: 'http://proxy.example:3128' };
+  let workspace: string;
+  let previousEnv: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'process-sandbox-'));
+    fs.mkdirSync(path.join(workspace, 'src'));
+    previousEnv = Object.fromEntries(Object.keys(hostEnv).map(name => [name, process.env[name]]));
+    Object.assign(process.env, hostEnv);
+  });
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(previousEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  async function run(request: Partial<ExecutionRequest>, limits: ResourceLimits = {}) {
+    const sandbox = new ProcessSandbox(new RestrictedBackend(), limits, workspace);
+    const execution = sandbox.launch({ command: 'true', cwd: '.', ...request });
+    let stdout = '';
+    execution.onOutput('stdout', chunk => {
+      stdout += chunk;
+    });
+
+    // a broken limit must not leave the process running
+    const guard = setTimeout(() => execution.kill('SIGKILL'), 20000);
+    const code = await new Promise<number | null>(resolve => execution.child.on('close', resolve));
+    clearTimeout(guard);
+
+    return { code, stdout, report: execution.report() };
+  }
+
+  test('should drop only the credentials from the environment', async () => {
+    expect(scrubEnvironment({ PATH: '/usr/bin', GITHUB_TOKEN: 'a', OPENAI_API_KEY: 'b', DB_PASSWORD: 'c' })).toEqual({
+      env: { PATH: '/usr/bin' },
+      scrubbed: ['DB_PASSWORD', 'GITHUB_TOKEN', 'OPENAI_API_KEY']
+    });
+
+    const { stdout, report } = await run({ command: 'env', env: { NODE_ENV: 'test', NPM_TOKEN: 'npm_secret' } });
+
+    expect(stdout).toContain('NODE_ENV=test');
+    expect(stdout).toContain('JAVA_HOME=/opt/jdk');
+    expect(stdout).toContain('HTTPS_PROXY=http://proxy.example:3128');
+    expect(stdout).not.toContain('secret');
+    expect(report.scrubbed_env).toEqual(expect.arrayContaining(['GITHUB_TOKEN', 'NPM_TOKEN']));
+    expect(report).toMatchObject({ backend: 'restricted', sandboxed: false });
+  });
+
+  test('should pass the arguments of a shell command unchanged', async () => {
+    const { stdout } = await run({ command: 'printf "%s\\n"', args: ['a  b', 'c; echo injected', '$HOME'], shell: true });
+
+    expect(stdout).toBe('a  b\nc; echo injected\n$HOME\n');
+  });
+
+  test('should run node fetch with the default limits', async () => {
+    const server = http.createServer((_, response) => response.end('ok'));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const script = `fetch('http://127.0.0.1:${port}').then(response => response.text()).then(text => process.stdout.write(text))`;
+      const { code, stdout, report } = await run({ command: process.execPath, args: ['-e', script] }, DEFAULT_LIMITS);
+
+      expect(stdout).toBe('ok');
+      expect(code).toBe(0);
+      expect(report.limits_exceeded).toEqual([]);
+    } finally {
+      server.close();
+    }
+  }, 30000);
+
+  test('should run in a working directory inside the workspace only', async () => {
+    const { stdout } = await run({ command: 'pwd', cwd: 'src' });
+    expect(stdout.trim()).toBe(path.join(fs.realpathSync(workspace), 'src'));
+
+    const sandbox = new ProcessSandbox(new RestrictedBackend(), {}, workspace);
+    expect(() => sandbox.launch({ command: 'pwd', cwd: '..' })).toThrow('is outside the workspace');
+    expect(() => sandbox.launch({ command: 'pwd', cwd: 'missing' })).toThrow("Working directory 'missing' does not exist");
+  });
+
+  test('should take the workspace of each launch', async () => {
+    const sandbox = new ProcessSandbox(new RestrictedBackend(), {});
+    const execution = sandbox.launch({ command: 'pwd', cwd: 'src', workspacePath: workspace });
+    let stdout = '';
+    execution.onOutput('stdout', chunk => {
+      stdout += chunk;
+    });
+    await new Promise(resolve => execution.child.on('close', resolve));
+
+    expect(stdout.trim()).toBe(path.join(fs.realpathSync(workspace), 'src'));
+  });
+
+  test('should cap the output and report it', async () => {
+    const { stdout, report } = await run({ command: 'head -c 5000 /dev/zero | tr "\\0" a', shell: true }, { maxOutputBytes: 100 });
+
+    expect(stdout).toBe('a'.repeat(100) + '\n[output truncated after 100 bytes]\n');
+    expect(report).toMatchObject({ output_bytes: 5000, output_truncated: true, limits_exceeded: ['output'] });
+  });
+
+  test('should stop a process at its CPU limit', async () => {
+    const { code, report } = await run({ command: 'while :; do :; done', shell: true }, { cpuSeconds: 1 });
+
+    expect(code).toBeNull();
+    expect(report.limits).toEqual({ cpuSeconds: 1 });
+    expect(report.limits_exceeded).toEqual(['cpu']);
+  }, 30000);
+
+  test('should choose the backend from the environment', () => {
+    expect(ProcessSandbox.fromEnvironment({ AUTODEV_SANDBOX: 'off' }).getBackend().name).toBe('host');
+    expect(ProcessSandbox.fromEnvironment({ AUTODEV_SANDBOX: 'restricted' }).getBackend()).toMatchObject({ sandboxed: false, confined: true });
+    expect(() => ProcessSandbox.fromEnvironment({ AUTODEV_SANDBOX: 'docker' })).toThrow("Unknown AUTODEV_SANDBOX mode 'docker'");
+  });
+
+  test('should report the fallback of the auto mode', async () => {
+    const auto = ProcessSandbox.fromEnvironment({ AUTODEV_SANDBOX: 'auto' });
+    expect(auto.getWarning()).toBe(BubblewrapBackend.isAvailable() ? undefined : AUTO_FALLBACK_WARNING);
+
+    const sandbox = new ProcessSandbox(new RestrictedBackend(), {}, workspace, AUTO_FALLBACK_WARNING);
+    const execution = sandbox.launch({ command: 'true', cwd: '.' });
+    await new Promise(resolve => execution.child.on('close', resolve));
+
+    expect(execution.report()).toMatchObject({ backend: 'restricted', sandboxed: false, warning: AUTO_FALLBACK_WARNING });
+  });
+});
@@ -1,15 +1,24 @@
-import { CoreMessage, generateText } from "ai";
+import { APICallError, CoreMessage, CoreToolMessage, generateText, ToolCallPart, ToolSet, UnsupportedFunctionalityError } from "ai";
 import { configureLLMProvider, LLMProviderConfig } from "./services/llm";
 import { FunctionParser } from "./agent/function-parser";
 import { AutoDevRemoteAgentTools } from "./capabilities/tools";
 import { ToolPromptBuilder } from "./agent/tool-prompt-builder";
 import { ToolExecutor, ToolHandler } from "./agent/tool-executor";
 import { GitHubContextManager } from "./agent/github-context-manager";
-import { ToolDefinition, ToolResult } from "./agent/tool-definition";
+import { FunctionCall, ToolDefinition, ToolResult } from "./agent/tool-definition";
+import { AgentSession, SessionMode, SessionRound, SessionStore, SessionSummary } from "./agent/session-store";
+import { ApprovalHandler, ToolPolicy, ToolPolicyConfig } from "./agent/tool-policy";
+import { ToolAuditLog } from "./agent/tool-audit-log";
 import { IssueAnalysisPlaybook, Playbook } from "./playbooks";
 
 let AUTODEV_REMOTE_TOOLS: ToolDefinition[] = [];
 
+// Tool results sent back to the model in native tool calling mode are cut to this length
+const MAX_TOOL_RESULT_LENGTH = 8000;
+
+// Errors of providers that reject the tools or the tool choice of a request, like "tools is not supported"
+const TOOL_CALLING_ERROR = /\b(tools?|tool_choice|functions?|function_call)\b/i;
+
 export interface AgentConfig {
 	workspacePath?: string;
 	githubToken?: string;
@@ -18,6 +27,32 @@ export interface AgentConfig {
 	maxToolRounds?: number;
 	enableToolChaining?: boolean;
 	toolTimeout?: number;
+	/**
+	 * Pass the tools to the model by the API and exchange structured tool calls and results instead of
+	 * parsing XML function calls from the response text, providers without tool support keep the XML calls
+	 */
+	nativeToolCalling?: boolean;
+	/**
+	 * Persist each run to the session directory so it can be resumed, defaults to true
+	 */
+	persistSessions?: boolean;
+	/**
+	 * Defaults to `.autodev/sessions` in the workspace
+	 */
+	sessionDir?: string;
+	/**
+	 * The tool policy or the path of its file, defaults to `~/.autodev/tool-policy.json` when it exists, otherwise
+	 * every tool is allowed
+	 */
+	toolPolicy?: ToolPolicyConfig | string;
+	/**
+	 * Asked for the tool calls the policy marks with `ask`, without one they are denied like in CI
+	 */
+	approvalHandler?: ApprovalHandler;
+	/**
+	 * Defaults to `.autodev/audit/tool-decisions.jsonl` in the workspace
+	 */
+	auditLogPath?: string;
 	autoUploadToIssue?: boolean;
 	githubContext?: {
 		owner: string;
@@ -36,6 +71,7 @@ export interface AgentResponse {
 	error?: string;
 	totalRounds?: number;
 	executionTime?: number;
+	sessionId?: string;
 	githubContext?: {
 		owner: string;
 		repo: string;
@@ -50,12 +86,16 @@ export class AIAgent {
 	protected toolExecutor: ToolExecutor;
 	protected githubManager: GitHubContextManager;
 	protected playbook: Playbook;
+	private toolSet: ToolSet;
+	private sessionStore: SessionStore;
+	private session?: AgentSession;
 
 	constructor(config: AgentConfig = {}) {
 		this.config = {
 			maxToolRounds: 6, // Increased to support enhanced workflow: Analysis -> Discovery -> Implementation -> Git -> Testing -> PR
 			enableToolChaining: true,
 			toolTimeout: 1200000,
+			persistSessions: true,
 			autoUploadToIssue: config.autoUploadToIssue || false,
 			...config
 		};
@@ -67,11 +107,18 @@ export class AIAgent {
 		}
 		this.llmConfig = llmConfig;
 		this.playbook = config.playbook || new IssueAnalysisPlaybook();
+
+		const workspacePath = this.config.workspacePath || process.cwd();
 		this.toolExecutor = new ToolExecutor({
 			timeout: this.config.toolTimeout,
-			verbose: this.config.verbose
+			verbose: this.config.verbose,
+			policy: ToolPolicy.resolve(workspacePath, this.config.toolPolicy),
+			approvalHandler: this.config.approvalHandler,
+			auditLog: new ToolAuditLog(this.config.auditLogPath || ToolAuditLog.defaultPath(workspacePath))
 		});
 
+		this.sessionStore = new SessionStore(this.config.sessionDir || SessionStore.defaultDir(workspacePath));
+
 		// Initialize GitHub manager
 		this.githubManager = new GitHubContextManager({
 			token: this.config.githubToken,
@@ -82,6 +129,8 @@ export class AIAgent {
 		// Extract tool definitions from MCP tools using ToolPromptBuilder
 		AUTODEV_REMOTE_TOOLS = ToolPromptBuilder.extractToolDefinitions(AutoDevRemoteAgentTools);
 		this.playbook.registerTools(AUTODEV_REMOTE_TOOLS);
+		this.toolSet = ToolPromptBuilder.extractToolSet(AutoDevRemoteAgentTools);
+		this.playbook.setNativeToolCalling(this.useNativeToolCalling());
 
 		// Register real tool handlers
 		this.registerToolHandlers();
@@ -91,6 +140,7 @@ export class AIAgent {
 		this.log('Configuration:', {
 			maxToolRounds: this.config.maxToolRounds,
 			enableToolChaining: this.config.enableToolChaining,
+			nativeToolCalling: this.useNativeToolCalling(),
 			toolTimeout: this.config.toolTimeout
 		});
 	}
@@ -122,22 +172,78 @@ export class AIAgent {
 	 * Process user input and generate response with enhanced tool chaining
 	 */
 	async start(userInput: string, context?: any): Promise<AgentResponse> {
+		this.session = this.createSession(userInput, context);
+		return this.run(userInput, context);
+	}
+
+	/**
+	 * Continue a persisted run after its last recorded round, a completed run returns its final response
+	 */
+	async resume(sessionId: string): Promise<AgentResponse> {
+		const session = this.sessionStore.load(sessionId);
+		if (!session) {
+			throw new Error(`Session not found: ${sessionId}`);
+		}
+
+		if (session.status === 'completed') {
+			return {
+				text: session.finalResponse || '',
+				toolResults: SessionStore.toolResultsOf(session),
+				success: true,
+				totalRounds: session.totalRounds,
+				executionTime: session.executionTime,
+				sessionId: session.id
+			};
+		}
+
+		const playbook = this.playbook.constructor.name;
+		if (session.playbook && session.playbook !== playbook) {
+			throw new Error(`Session ${session.id} was run with the ${session.playbook}, it cannot be resumed with the ${playbook}`);
+		}
+
+		this.log(`Resuming session ${session.id} after round ${session.totalRounds}`);
+		this.session = session;
+		this.conversationHistory = [...session.history];
+		return this.run(session.userInput, session.context);
+	}
+
+	/**
+	 * Persisted runs, the latest first
+	 */
+	listSessions(): SessionSummary[] {
+		return this.sessionStore.list();
+	}
+
+	/**
+	 * A persisted run with its rounds
+	 */
+	loadSession(sessionId: string): AgentSession | undefined {
+		return this.sessionStore.load(sessionId);
+	}
+
+	private async run(userInput: string, context?: any): Promise<AgentResponse> {
 		const startTime = Date.now();
+		const mode = this.session?.mode ?? this.executionMode();
+		// a fallback to XML tool calls only holds for the session it happened in
+		this.playbook.setNativeToolCalling(mode === 'native');
+		let response: AgentResponse;
 
 		try {
 			this.log('Processing user input:', userInput);
 
-			if (this.config.enableToolChaining) {
-				return await this.processInputWithToolChaining(userInput, startTime, context);
+			if (mode === 'native') {
+				response = await this.processInputWithNativeTools(userInput, startTime, context);
+			} else if (mode === 'xml') {
+				response = await this.processInputWithToolChaining(userInput, startTime, context);
 			} else {
-				return await this.processInputSingleRound(userInput, startTime, context);
+				response = await this.processInputSingleRound(userInput, startTime, context);
 			}
 
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : String(error);
 			this.log('Error processing input:', errorMessage);
 
-			return {
+			response = {
 				text: '',
 				toolResults: [],
 				success: false,
@@ -146,23 +252,38 @@ export class AIAgent {
 				executionTime: Date.now() - startTime
 			};
 		}
+
+		return this.finishSession(response);
+	}
+
+	private executionMode(): SessionMode {
+		if (!this.config.enableToolChaining) {
+			return 'single';
+		}
+
+		return this.useNativeToolCalling() ? 'native' : 'xml';
 	}
 
 	/**
 	 * Process input with multi-round tool chaining capability
 	 */
 	async processInputWithToolChaining(userInput: string, startTime: number, context?: any): Promise<AgentResponse> {
-		const allToolResults: ToolResult[] = [];
-		let currentRound = 1;
-		let lastLLMResponse = '';
+		const resumed = this.resumeState();
+		const allToolResults: ToolResult[] = resumed.toolResults;
+		let currentRound = resumed.round;
+		let lastLLMResponse = resumed.lastResponse;
 
 		this.log('Starting tool chaining process with max rounds:', this.config.maxToolRounds);
 
-		while (currentRound <= this.config.maxToolRounds!) {
+		while (!resumed.ended && currentRound <= this.config.maxToolRounds!) {
 			this.log(`=== Tool Execution Round ${currentRound} ===`);
+			const roundStartTime = Date.now();
 
-			const messages = await this.playbook.buildMessagesForRound(userInput, { ...context, previousResults: allToolResults }, currentRound, this.conversationHistory, this.config.workspacePath);
-			const llmResponse = await this.callLLM(messages);
+			// the model already answered a round that crashed while running its tools
+			const pending = this.pendingRound(currentRound);
+			const messages = pending?.messages
+				?? await this.playbook.buildMessagesForRound(userInput, { ...context, previousResults: allToolResults }, currentRound, this.conversationHistory, this.config.workspacePath);
+			const llmResponse = pending?.response ?? await this.callLLM(messages);
 			lastLLMResponse = llmResponse;
 			this.log(`Round ${currentRound} LLM response:`, llmResponse.substring(0, 200) + '...');
 
@@ -187,6 +308,7 @@ export class AIAgent {
 
 			if (parsedResponse.hasError) {
 				this.log(`Round ${currentRound} parsing error:`, parsedResponse.error);
+				this.recordRound(currentRound, messages, llmResponse, [], [], roundStartTime);
 				break;
 			}
 
@@ -194,19 +316,111 @@ export class AIAgent {
 			if (parsedResponse.functionCalls.length === 0) {
 				this.log(`Round ${currentRound}: No function calls detected, ending chain`);
 				lastLLMResponse = parsedResponse.text;
+				this.recordRound(currentRound, messages, llmResponse, [], [], roundStartTime);
 				break;
 			}
 
 			// Execute function calls for this round
 			this.log(`Round ${currentRound}: Executing ${parsedResponse.functionCalls.length} function calls`);
-			const roundResults = await this.toolExecutor.executeToolsWithContext({
-				round: currentRound,
-				previousResults: allToolResults,
-				userInput,
-				workspacePath: this.config.workspacePath || process.cwd()
-			}, parsedResponse.functionCalls);
+			const roundResults = await this.executeRoundTools(
+				currentRound, messages, llmResponse, parsedResponse.functionCalls, allToolResults, userInput, roundStartTime
+			);
+
+			allToolResults.push(...roundResults);
+			this.recordRound(currentRound, messages, llmResponse, parsedResponse.functionCalls, roundResults, roundStartTime);
+
+			const shouldContinue = this.shouldContinueToolChain(roundResults, currentRound, allToolResults);
+			if (!shouldContinue) {
+				this.log(`Round ${currentRound}: Stopping tool chain based on results`);
+				break;
+			}
+
+			currentRound++;
+		}
+
+		return this.completeToolChain(userInput, lastLLMResponse, allToolResults, currentRound - 1, startTime);
+	}
+
+	/**
+	 * Process input with multi-round tool chaining, the tools are passed to the model as native tools and the
+	 * tool calls and results are kept as structured messages across the rounds
+	 */
+	async processInputWithNativeTools(userInput: string, startTime: number, context?: any): Promise<AgentResponse> {
+		const resumed = this.resumeState();
+		const allToolResults: ToolResult[] = resumed.toolResults;
+		const messages = resumed.messages.length > 0
+			? resumed.messages
+			: await this.playbook.buildMessagesForRound(userInput, { ...context, previousResults: allToolResults }, 1, this.conversationHistory, this.config.workspacePath);
+		let currentRound = resumed.round;
+		let lastLLMResponse = resumed.lastResponse;
+
+		this.log('Starting native tool calling process with max rounds:', this.config.maxToolRounds);
+
+		while (!resumed.ended && currentRound <= this.config.maxToolRounds!) {
+			this.log(`=== Native Tool Round ${currentRound} ===`);
+			const roundStartTime = Date.now();
+			// the model already answered a round that crashed while running its tools, its messages are resumed
+			const pending = this.pendingRound(currentRound);
+			// the first round also records the prompt the conversation starts with
+			const roundStart = pending ? messages.length - pending.messages.length : currentRound === 1 ? 0 : messages.length;
+
+			let text: string;
+			let toolCalls: ToolCallPart[];
+			if (pending) {
+				text = pending.response;
+				toolCalls = toolCallsOf(pending.messages);
+			} else {
+				let result;
+				try {
+					result = await generateText({
+						model: this.llmConfig.openai(this.llmConfig.fullModel),
+						messages,
+						tools: this.toolSet,
+						toolChoice: 'auto',
+						temperature: 0.3,
+						maxTokens: 4000
+					});
+				} catch (error) {
+					if (currentRound === 1 && this.isToolCallingUnsupported(error)) {
+						this.log('Native tool calling rejected by the provider, falling back to XML tool calls:', (error as Error).message);
+						this.playbook.setNativeToolCalling(false);
+						if (this.session) {
+							this.session.mode = 'xml';
+						}
+						return await this.processInputWithToolChaining(userInput, startTime, context);
+					}
+					throw error;
+				}
+
+				text = result.text;
+				toolCalls = toolCallsOf(result.response.messages);
+				messages.push(...result.response.messages);
+			}
+
+			lastLLMResponse = text;
+			this.log(`Round ${currentRound} LLM response:`, text.substring(0, 200) + '...');
+
+			if (toolCalls.length === 0) {
+				this.log(`Round ${currentRound}: No tool calls, ending chain`);
+				this.recordRound(currentRound, messages.slice(roundStart), text, [], [], roundStartTime);
+				break;
+			}
+
+			const callIds = new Map<FunctionCall, string>();
+			const functionCalls = toolCalls.map(toolCall => {
+				const functionCall: FunctionCall = { name: toolCall.toolName, parameters: toolCall.args as Record<string, any> };
+				callIds.set(functionCall, toolCall.toolCallId);
+				return functionCall;
+			});
+
+			this.log(`Round ${currentRound}: Executing ${functionCalls.length} tool calls`);
+			const roundResults = await this.executeRoundTools(
+				currentRound, messages.slice(roundStart), text, functionCalls, allToolResults, userInput, roundStartTime
+			);
 
 			allToolResults.push(...roundResults);
+			messages.push(this.buildToolMessage(roundResults, callIds));
+			this.recordRound(currentRound, messages.slice(roundStart), text, functionCalls, roundResults, roundStartTime);
 
 			const shouldContinue = this.shouldContinueToolChain(roundResults, currentRound, allToolResults);
 			if (!shouldContinue) {
@@ -217,11 +431,240 @@ export class AIAgent {
 			currentRound++;
 		}
 
+		return this.completeToolChain(userInput, lastLLMResponse, allToolResults, currentRound - 1, startTime);
+	}
+
+	/**
+	 * The results of a round as a tool message, each answering the tool call it was executed for
+	 */
+	private buildToolMessage(results: ToolResult[], callIds: Map<FunctionCall, string>): CoreToolMessage {
+		return {
+			role: 'tool',
+			content: results
+				.filter(result => callIds.has(result.functionCall))
+				.map(result => {
+					let text = result.success ? this.toolResultText(result) : `Error: ${result.error}`;
+					if (text.length > MAX_TOOL_RESULT_LENGTH) {
+						text = text.substring(0, MAX_TOOL_RESULT_LENGTH) + '\n... [content truncated]';
+					}
+
+					return {
+						type: 'tool-result' as const,
+						toolCallId: callIds.get(result.functionCall)!,
+						toolName: result.functionCall.name,
+						result: text,
+						isError: !result.success
+					};
+				})
+		};
+	}
+
+	private toolResultText(result: ToolResult): string {
+		if (result.result?.content && Array.isArray(result.result.content)) {
+			return result.result.content
+				.filter((item: any) => item.type === 'text')
+				.map((item: any) => item.text)
+				.join('\n');
+		}
+
+		return JSON.stringify(result.result ?? '');
+	}
+
+	private createSession(userInput: string, context?: any): AgentSession | undefined {
+		if (!this.config.persistSessions) {
+			return undefined;
+		}
+
+		try {
+			const session = this.sessionStore.create({
+				userInput,
+				context,
+				mode: this.executionMode(),
+				history: this.conversationHistory,
+				workspacePath: this.config.workspacePath || process.cwd(),
+				playbook: this.playbook.constructor.name
+			});
+			this.log('Session created:', session.id);
+			return session;
+		} catch (error) {
+			console.warn('Failed to create session, the run is not persisted:', error);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Where the tool chain of the current session continues: after its recorded rounds, or at its end when the
+	 * last recorded round already ended the chain
+	 */
+	private resumeState(): { toolResults: ToolResult[]; messages: CoreMessage[]; round: number; lastResponse: string; ended: boolean } {
+		const rounds = this.session?.rounds ?? [];
+		const toolResults = rounds.flatMap(round => round.toolResults);
+		const messages = rounds.flatMap(round => round.messages);
+		const pending = this.session?.pendingRound;
+		if (pending) {
+			return { toolResults, messages: [...messages, ...pending.messages], round: pending.round, lastResponse: pending.response, ended: false };
+		}
+
+		const last = rounds[rounds.length - 1];
+		if (!last) {
+			return { toolResults, messages, round: 1, lastResponse: '', ended: false };
+		}
+
+		const ended = last.functionCalls.length === 0 || !this.shouldContinueToolChain(last.toolResults, last.round, toolResults);
+		return { toolResults, messages, round: ended ? last.round : last.round + 1, lastResponse: last.response, ended };
+	}
+
+	/**
+	 * The round of the resumed session that crashed while running its tools
+	 */
+	private pendingRound(round: number): SessionRound | undefined {
+		const pending = this.session?.pendingRound;
+		return pending?.round === round ? pending : undefined;
+	}
+
+	/**
+	 * Run the tool calls of a round and persist each result as it finishes. The calls that already have a result in
+	 * the pending round of a resumed session are not run again, their tools may have changed the workspace
+	 */
+	private async executeRoundTools(
+		round: number,
+		messages: CoreMessage[],
+		response: string,
+		functionCalls: FunctionCall[],
+		previousResults: ToolResult[],
+		userInput: string,
+		roundStartTime: number
+	): Promise<ToolResult[]> {
+		const finished = [...(this.pendingRound(round)?.toolResults ?? [])];
+		const reused: ToolResult[] = [];
+		const remaining: FunctionCall[] = [];
+		for (const functionCall of functionCalls) {
+			const index = finished.findIndex(result => JSON.stringify(result.functionCall) === JSON.stringify(functionCall));
+			if (index >= 0) {
+				reused.push({ ...finished.splice(index, 1)[0], functionCall });
+			} else {
+				remaining.push(functionCall);
+			}
+		}
+
+		if (reused.length > 0) {
+			this.log(`Round ${round}: Reusing ${reused.length} tool results of the resumed session`);
+		}
+
+		const session = this.session;
+		this.persist(session, store => store.startRound(session!, {
+			round,
+			messages,
+			response,
+			functionCalls,
+			toolResults: [...reused],
+			startedAt: new Date(roundStartTime).toISOString(),
+			executionTime: 0
+		}));
+
+		const results = remaining.length === 0 ? [] : await this.toolExecutor.executeToolsWithContext({
+			round,
+			previousResults,
+			userInput,
+			workspacePath: this.config.workspacePath || process.cwd(),
+			onToolResult: result => this.persist(session, store => store.recordToolResult(session!, result))
+		}, remaining);
+
+		return [...reused, ...results];
+	}
+
+	private persist(session: AgentSession | undefined, write: (store: SessionStore) => void): void {
+		if (!session) {
+			return;
+		}
+
+		try {
+			write(this.sessionStore);
+		} catch (error) {
+			console.warn(`Failed to save session ${session.id}:`, error);
+		}
+	}
+
+	private recordRound(
+		round: number,
+		messages: CoreMessage[],
+		response: string,
+		functionCalls: FunctionCall[],
+		toolResults: ToolResult[],
+		roundStartTime: number
+	): void {
+		if (!this.session) {
+			return;
+		}
+
+		try {
+			this.sessionStore.recordRound(this.session, {
+				round,
+				messages,
+				response,
+				functionCalls,
+				toolResults,
+				startedAt: new Date(roundStartTime).toISOString(),
+				executionTime: Date.now() - roundStartTime
+			});
+		} catch (error) {
+			console.warn(`Failed to record round ${round} of session ${this.session.id}:`, error);
+		}
+	}
+
+	private finishSession(response: AgentResponse): AgentResponse {
+		const session = this.session;
+		this.session = undefined;
+		if (!session) {
+			return response;
+		}
+
+		try {
+			if (response.success) {
+				this.sessionStore.complete(session, response.text, response.executionTime);
+			} else {
+				this.sessionStore.fail(session, response.error || 'Unknown error');
+			}
+		} catch (error) {
+			console.warn(`Failed to save session ${session.id}:`, error);
+		}
+
+		return { ...response, sessionId: session.id };
+	}
+
+	private useNativeToolCalling(): boolean {
+		return !!this.config.nativeToolCalling && this.llmConfig.supportsToolCalling !== false;
+	}
+
+	/**
+	 * Providers without tool support reject the request with an error about the tools, any other error (bad
+	 * credentials, a too long prompt, rate limits) is not a reason to fall back
+	 */
+	private isToolCallingUnsupported(error: unknown): boolean {
+		if (UnsupportedFunctionalityError.isInstance(error)) {
+			return true;
+		}
+
+		return APICallError.isInstance(error)
+			&& !error.isRetryable
+			&& TOOL_CALLING_ERROR.test(`${error.message} ${error.responseBody ?? ''}`);
+	}
+
+	/**
+	 * Summarize the results of a tool chain, then record, upload and export the conversation
+	 */
+	private async completeToolChain(
+		userInput: string,
+		lastLLMResponse: string,
+		allToolResults: ToolResult[],
+		totalRounds: number,
+		startTime: number
+	): Promise<AgentResponse> {
 		const finalResponse = await this.playbook.generateComprehensiveFinalResponse(
 			userInput,
 			lastLLMResponse,
 			allToolResults,
-			currentRound - 1
+			totalRounds
 		);
 
 		this.updateConversationHistory(userInput, finalResponse);
@@ -245,15 +688,18 @@ export class AIAgent {
 			text: finalResponse,
 			toolResults: allToolResults,
 			success: true,
-			totalRounds: currentRound - 1,
+			totalRounds,
 			executionTime,
 			githubContext
 		};
 	}
 
 	private async processInputSingleRound(userInput: string, startTime: number, context?: any): Promise<AgentResponse> {
-		const messages = await this.playbook.buildMessagesForRound(userInput, context, 1, this.conversationHistory, this.config.workspacePath);
-		const llmResponse = await this.callLLM(messages);
+		// a resumed session takes the recorded response and tool results instead of running the tools again
+		const recorded = this.session?.rounds[0] ?? this.pendingRound(1);
+		const messages = recorded?.messages
+			?? await this.playbook.buildMessagesForRound(userInput, context, 1, this.conversationHistory, this.config.workspacePath);
+		const llmResponse = recorded?.response ?? await this.callLLM(messages);
 		this.log('LLM response received:', llmResponse.substring(0, 200) + '...');
 
 		// Parse LLM response for function calls
@@ -280,12 +726,12 @@ export class AIAgent {
 		let toolResults: ToolResult[] = [];
 		if (parsedResponse.functionCalls.length > 0) {
 			this.log('Function calls detected:', parsedResponse.functionCalls.map(fc => fc.name));
-			toolResults = await this.toolExecutor.executeToolsWithContext({
-				round: 1,
-				previousResults: [],
-				userInput,
-				workspacePath: this.config.workspacePath || process.cwd()
-			}, parsedResponse.functionCalls);
+			if (this.session?.rounds[0]) {
+				toolResults = this.session.rounds[0].toolResults;
+			} else {
+				toolResults = await this.executeRoundTools(1, messages, llmResponse, parsedResponse.functionCalls, [], userInput, startTime);
+				this.recordRound(1, messages, llmResponse, parsedResponse.functionCalls, toolResults, startTime);
+			}
 
 			// If we have tool results, send them back to LLM for final analysis
 			if (toolResults.length > 0) {
@@ -316,6 +762,9 @@ export class AIAgent {
 			}
 		} else {
 			this.log('No function calls detected in LLM response');
+			if (!this.session?.rounds[0]) {
+				this.recordRound(1, messages, llmResponse, [], [], startTime);
+			}
 		}
 
 		// Update conversation history
@@ -739,3 +1188,12 @@ export class AIAgent {
 		}
 	}
 }
+
+/**
+ * The tool calls of the assistant messages of a round
+ */
+function toolCallsOf(messages: CoreMessage[]): ToolCallPart[] {
+	return messages.flatMap(message => message.role === 'assistant' && Array.isArray(message.content)
+		? message.content.filter((part): part is ToolCallPart => part.type === 'tool-call')
+		: []);
+}
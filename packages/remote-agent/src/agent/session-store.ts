@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { CoreMessage } from 'ai';
+import { FunctionCall, ToolResult } from './tool-definition';
+
+export type SessionMode = 'xml' | 'native' | 'single';
+
+export type SessionStatus = 'running' | 'completed' | 'failed';
+
+export interface SessionRound {
+  round: number;
+  /**
+   * The prompt of the round for the XML tool calls, for native tool calling the messages the round
+   * appended to the conversation, so the messages of all rounds are the whole conversation
+   */
+  messages: CoreMessage[];
+  response: string;
+  functionCalls: FunctionCall[];
+  toolResults: ToolResult[];
+  startedAt: string;
+  executionTime: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  userInput: string;
+  mode: SessionMode;
+  status: SessionStatus;
+  createdAt: string;
+  updatedAt: string;
+  totalRounds: number;
+}
+
+export interface AgentSession extends SessionSummary {
+  context?: any;
+  workspacePath: string;
+  /**
+   * The conversation history before the run, the playbook prompts of a resumed run are built from it
+   */
+  history: CoreMessage[];
+  /**
+   * Class name of the playbook the run was started with, a resumed run must use the same playbook
+   */
+  playbook?: string;
+  rounds: SessionRound[];
+  /**
+   * The round whose tools are running, with the results of the tools that already finished. A resumed run takes
+   * the response of this round instead of calling the model again, and only executes the calls without a result
+   */
+  pendingRound?: SessionRound;
+  finalResponse?: string;
+  error?: string;
+  executionTime?: number;
+}
+
+const SESSION_FILE = 'session.json';
+
+/**
+ * Persists agent runs to `<rootDir>/<sessionId>/`: `session.json` for the run and `round-<n>.json` for each
+ * tool round, so a run can be resumed after a crash, audited and replayed
+ */
+export class SessionStore {
+  constructor(private readonly rootDir: string) {
+  }
+
+  static defaultDir(workspacePath: string): string {
+    return path.join(workspacePath, '.autodev', 'sessions');
+  }
+
+  getRootDir(): string {
+    return this.rootDir;
+  }
+
+  create(options: { userInput: string; context?: any; mode: SessionMode; history: CoreMessage[]; workspacePath: string; playbook?: string }): AgentSession {
+    const now = new Date().toISOString();
+    const session: AgentSession = {
+      id: `${now.replace(/[:.]/g, '-')}-${randomBytes(3).toString('hex')}`,
+      userInput: options.userInput,
+      context: options.context,
+      mode: options.mode,
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+      totalRounds: 0,
+      workspacePath: options.workspacePath,
+      history: [...options.history],
+      playbook: options.playbook,
+      rounds: []
+    };
+
+    fs.mkdirSync(this.sessionDir(session.id), { recursive: true });
+    this.save(session);
+    return session;
+  }
+
+  /**
+   * Persist a round before its tools run, {@link recordToolResult} adds the result of each finished tool
+   */
+  startRound(session: AgentSession, round: SessionRound): void {
+    session.pendingRound = round;
+    this.save(session);
+  }
+
+  recordToolResult(session: AgentSession, result: ToolResult): void {
+    if (!session.pendingRound) {
+      return;
+    }
+
+    session.pendingRound.toolResults.push(result);
+    this.save(session);
+  }
+
+  recordRound(session: AgentSession, round: SessionRound): void {
+    session.pendingRound = undefined;
+    session.rounds.push(round);
+    session.totalRounds = session.rounds.length;
+    this.writeJson(path.join(this.sessionDir(session.id), `round-${round.round}.json`), round);
+    this.save(session);
+  }
+
+  complete(session: AgentSession, finalResponse: string, executionTime?: number): void {
+    session.status = 'completed';
+    session.finalResponse = finalResponse;
+    session.executionTime = executionTime;
+    session.error = undefined;
+    this.save(session);
+  }
+
+  fail(session: AgentSession, error: string): void {
+    session.status = 'failed';
+    session.error = error;
+    this.save(session);
+  }
+
+  save(session: AgentSession): void {
+    session.updatedAt = new Date().toISOString();
+    const { rounds, ...metadata } = session;
+    this.writeJson(path.join(this.sessionDir(session.id), SESSION_FILE), metadata);
+  }
+
+  load(sessionId: string): AgentSession | undefined {
+    const file = path.join(this.sessionDir(sessionId), SESSION_FILE);
+    if (!fs.existsSync(file)) {
+      return undefined;
+    }
+
+    const session = JSON.parse(fs.readFileSync(file, 'utf8')) as AgentSession;
+    session.rounds = [];
+    for (let round = 1; round <= session.totalRounds; round++) {
+      const roundFile = path.join(this.sessionDir(sessionId), `round-${round}.json`);
+      if (!fs.existsSync(roundFile)) {
+        break;
+      }
+      session.rounds.push(JSON.parse(fs.readFileSync(roundFile, 'utf8')));
+    }
+
+    return session;
+  }
+
+  /**
+   * Sessions of the store, the latest first
+   */
+  list(): SessionSummary[] {
+    if (!fs.existsSync(this.rootDir)) {
+      return [];
+    }
+
+    const sessions: SessionSummary[] = [];
+    for (const entry of fs.readdirSync(this.rootDir, { withFileTypes: true })) {
+      const file = path.join(this.rootDir, entry.name, SESSION_FILE);
+      if (!entry.isDirectory() || !fs.existsSync(file)) {
+        continue;
+      }
+
+      try {
+        const { id, userInput, mode, status, createdAt, updatedAt, totalRounds } = JSON.parse(fs.readFileSync(file, 'utf8'));
+        sessions.push({ id, userInput, mode, status, createdAt, updatedAt, totalRounds });
+      } catch (error) {
+        console.warn(`Failed to read session ${entry.name}:`, error);
+      }
+    }
+
+    return sessions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  static toolResultsOf(session: AgentSession): ToolResult[] {
+    return session.rounds.flatMap(round => round.toolResults);
+  }
+
+  private sessionDir(sessionId: string): string {
+    if (!/^[\w-]+$/.test(sessionId)) {
+      throw new Error(`Invalid session id: ${sessionId}`);
+    }
+    return path.join(this.rootDir, sessionId);
+  }
+
+  /**
+   * Write to a temporary file first, a crash while writing leaves the previous content
+   */
+  private writeJson(file: string, data: any): void {
+    const tempFile = `${file}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(data, null, 2));
+    fs.renameSync(tempFile, file);
+  }
+}
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PolicyAction } from './tool-policy';
+import { SENSITIVE_ENV_VAR } from '../capabilities/tools/process/process-sandbox';
+
+export interface ToolAuditEntry {
+  timestamp: string;
+  round: number;
+  tool: string;
+  parameters: Record<string, any>;
+  action: PolicyAction;
+  rule: string;
+  reason: string;
+  approved: boolean;
+  /**
+   * `policy` for allow and deny rules, `user` for an answered approval, `auto-deny` when no one could be asked
+   */
+  decidedBy: 'policy' | 'user' | 'auto-deny';
+  /**
+   * Set for commands when the process sandbox is weaker than configured, like `auto` without bwrap
+   */
+  sandboxWarning?: string;
+}
+
+// file contents and issue bodies in the parameters are cut to keep the log readable
+const MAX_PARAMETER_LENGTH = 500;
+
+const REDACTED = '[REDACTED]';
+
+// credentials inside command lines and texts: `GITHUB_TOKEN=...`, `--password ...`, `Bearer ...`, `https://user:pass@`
+// and the token formats of GitHub, OpenAI, Slack and AWS
+const ASSIGNMENT = /\b([A-Za-z_][\w.-]*)=("[^"]*"|'[^']*'|\S+)/g;
+const SECRET_OPTION = /(--?[\w-]*(?:token|secret|password|passwd|api[-_]?key)[\w-]*)(=|\s+)("[^"]*"|'[^']*'|\S+)/gi;
+const AUTHORIZATION = /\b(Bearer|Basic)\s+[\w.~+/-]{16,}=*/g;
+const URL_CREDENTIALS = /(:\/\/)[^/\s:@]+:[^/\s@]+@/g;
+const KNOWN_TOKEN = /\b(?:gh[pousr]_[A-Za-z0-9]{20,}|github_pat_\w{20,}|sk-[\w-]{20,}|xox[abprs]-[\w-]{10,}|AKIA[0-9A-Z]{16})\b/g;
+
+/**
+ * Appends every tool policy decision as a JSON line
+ */
+export class ToolAuditLog {
+  constructor(private readonly filePath: string) {
+  }
+
+  static defaultPath(workspacePath: string): string {
+    return path.join(workspacePath, '.autodev', 'audit', 'tool-decisions.jsonl');
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  record(entry: Omit<ToolAuditEntry, 'timestamp'>): void {
+    const line: ToolAuditEntry = {
+      timestamp: new Date().toISOString(),
+      ...entry,
+      parameters: truncateParameters(redact(entry.parameters || {}))
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(line) + '\n');
+    } catch (error) {
+      console.warn(`Failed to write tool audit log ${this.filePath}:`, error);
+    }
+  }
+
+  read(): ToolAuditEntry[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    return fs.readFileSync(this.filePath, 'utf8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line));
+  }
+}
+
+/**
+ * Mask the credentials in the parameters: the values of credential-like names, like in environment maps, and the
+ * tokens and passwords inside command lines
+ */
+function redact(value: any): any {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object') {
+    const redacted: Record<string, any> = {};
+    for (const [name, item] of Object.entries(value)) {
+      redacted[name] = SENSITIVE_ENV_VAR.test(name) && typeof item === 'string' ? REDACTED : redact(item);
+    }
+    return redacted;
+  }
+  return value;
+}
+
+function redactText(text: string): string {
+  return text
+    .replace(ASSIGNMENT, (match, name) => SENSITIVE_ENV_VAR.test(name) ? `${name}=${REDACTED}` : match)
+    .replace(SECRET_OPTION, (_, option, separator) => `${option}${separator}${REDACTED}`)
+    .replace(AUTHORIZATION, (_, scheme) => `${scheme} ${REDACTED}`)
+    .replace(URL_CREDENTIALS, `$1${REDACTED}@`)
+    .replace(KNOWN_TOKEN, REDACTED);
+}
+
+function truncateParameters(parameters: Record<string, any> = {}): Record<string, any> {
+  const truncated: Record<string, any> = {};
+  for (const [name, value] of Object.entries(parameters)) {
+    truncated[name] = typeof value === 'string' && value.length > MAX_PARAMETER_LENGTH
+      ? `${value.substring(0, MAX_PARAMETER_LENGTH)}... (${value.length} chars)`
+      : value;
+  }
+  return truncated;
+}
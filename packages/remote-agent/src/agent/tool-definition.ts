@@ -34,6 +34,10 @@ export interface ToolExecutionContext {
   previousResults: ToolResult[];
   userInput: string;
   workspacePath: string;
+  /**
+   * Called as soon as a tool finished, before the other tools of the round
+   */
+  onToolResult?: (result: ToolResult) => void;
 }
 
 export interface ToolExecutionOptions {
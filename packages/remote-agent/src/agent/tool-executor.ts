@@ -6,6 +6,9 @@
 
 import { FunctionCall, ToolExecutionContext, ToolExecutionOptions, ToolResult } from "./tool-definition";
 import { LLMLogger } from "../services/llm/llm-logger";
+import { ApprovalHandler, ToolPolicy } from "./tool-policy";
+import { ToolAuditLog } from "./tool-audit-log";
+import { ProcessSandbox } from "../capabilities/tools/process/process-sandbox";
 
 export type { ToolResult, ToolExecutionContext, ToolExecutionOptions };
 
@@ -37,14 +40,25 @@ interface CacheEntry {
 	accessCount: number;
 }
 
+export interface ToolExecutorOptions extends ToolExecutionOptions {
+	enableParallelExecution?: boolean;
+	maxConcurrency?: number;
+	enableCaching?: boolean;
+	cacheTTL?: number;
+	/**
+	 * Checked before each call, without a policy every tool runs
+	 */
+	policy?: ToolPolicy;
+	/**
+	 * Asked for the calls the policy marks with `ask`, without a handler they are denied
+	 */
+	approvalHandler?: ApprovalHandler;
+	auditLog?: ToolAuditLog;
+}
+
 export class ToolExecutor {
 	private toolHandlers: Map<string, ToolHandler> = new Map();
-	private options: ToolExecutionOptions & {
-		enableParallelExecution?: boolean;
-		maxConcurrency?: number;
-		enableCaching?: boolean;
-		cacheTTL?: number;
-	};
+	private options: ToolExecutorOptions;
 	private executionStats: DetailedExecutionStats = {
 		totalCalls: 0,
 		successfulCalls: 0,
@@ -59,13 +73,10 @@ export class ToolExecutor {
 	// Simple in-memory cache
 	private cache: Map<string, CacheEntry> = new Map();
 	private llmLogger: LLMLogger = new LLMLogger('ToolExecutor.log');
+	// approvals of parallel calls are asked one after another
+	private approvalQueue: Promise<unknown> = Promise.resolve();
 
-	constructor(options: ToolExecutionOptions & {
-		enableParallelExecution?: boolean;
-		maxConcurrency?: number;
-		enableCaching?: boolean;
-		cacheTTL?: number;
-	} = {}) {
+	constructor(options: ToolExecutorOptions = {}) {
 		this.options = {
 			timeout: 1200000,
 			verbose: false,
@@ -78,7 +89,7 @@ export class ToolExecutor {
 
 		// Start cache cleanup interval
 		if (this.options.enableCaching) {
-			setInterval(() => this.cleanupExpiredCache(), 60000); // Cleanup every minute
+			setInterval(() => this.cleanupExpiredCache(), 60000).unref(); // Cleanup every minute, without keeping the process alive
 		}
 	}
 
@@ -157,9 +168,11 @@ export class ToolExecutor {
 				this.log(`🎯 Stage ${stage + 1}/${executionPlan.length}: ${stageTools.length} tools`);
 
 				// Execute tools in current stage in parallel
-				const stagePromises = stageTools.map(functionCall =>
-					this.executeSingleTool(context, functionCall, results)
-				);
+				const stagePromises = stageTools.map(async functionCall => {
+					const result = await this.executeSingleTool(context, functionCall, results);
+					context.onToolResult?.(result);
+					return result;
+				});
 
 				const stageResults = await Promise.all(stagePromises);
 				results.push(...stageResults);
@@ -218,6 +231,7 @@ export class ToolExecutor {
 
 		for (const functionCall of functionCalls) {
 			const result = await this.executeSingleTool(context, functionCall, results);
+			context.onToolResult?.(result);
 			results.push(result);
 		}
 
@@ -235,6 +249,18 @@ export class ToolExecutor {
 		const startTime = Date.now();
 		const { name, parameters } = functionCall;
 
+		const denial = await this.authorize(context, functionCall);
+		if (denial) {
+			this.log(`Round ${context.round}: Tool ${name} denied: ${denial}`);
+			return {
+				success: false,
+				error: denial,
+				functionCall,
+				executionTime: Date.now() - startTime,
+				round: context.round
+			};
+		}
+
 		try {
 			// Check cache first
 			if (this.options.enableCaching) {
@@ -312,6 +338,61 @@ export class ToolExecutor {
 		}
 	}
 
+	/**
+	 * Check the call against the tool policy and ask for approval when needed, returns the reason of a denial
+	 */
+	private async authorize(context: ToolExecutionContext, functionCall: FunctionCall): Promise<string | undefined> {
+		const { policy, approvalHandler, auditLog } = this.options;
+		if (!policy) {
+			return undefined;
+		}
+
+		const decision = policy.evaluate(functionCall, context.workspacePath);
+		let approved = decision.action === 'allow';
+		let decidedBy: 'policy' | 'user' | 'auto-deny' = 'policy';
+
+		if (decision.action === 'ask') {
+			if (approvalHandler) {
+				decidedBy = 'user';
+				const approval = this.approvalQueue.then(() => approvalHandler({
+					functionCall,
+					decision,
+					round: context.round,
+					workspacePath: context.workspacePath
+				}));
+				this.approvalQueue = approval.catch(() => undefined);
+				approved = await approval.catch(error => {
+					this.log(`Approval for ${functionCall.name} failed: ${error}`);
+					return false;
+				});
+			} else {
+				decidedBy = 'auto-deny';
+			}
+		}
+
+		const sandboxWarning = typeof functionCall.parameters?.command === 'string' ? defaultSandboxWarning() : undefined;
+		auditLog?.record({
+			round: context.round,
+			tool: functionCall.name,
+			parameters: functionCall.parameters,
+			action: decision.action,
+			rule: decision.rule,
+			reason: decision.reason,
+			approved,
+			decidedBy,
+			...(sandboxWarning ? { sandboxWarning } : {})
+		});
+
+		if (approved) {
+			return undefined;
+		}
+
+		const why = decidedBy === 'user'
+			? 'the user rejected it'
+			: decidedBy === 'auto-deny' ? `it needs approval (${decision.reason}), which is not available in this mode` : decision.reason;
+		return `Tool '${functionCall.name}' was denied by the tool policy: ${why}. Do not retry it, continue with the other tools.`;
+	}
+
 	/**
 	 * Execute with performance monitoring
 	 */
@@ -530,3 +611,14 @@ export class ToolExecutor {
 		}
 	}
 }
+
+/**
+ * The warning of the shared process sandbox, a sandbox that cannot be created fails the launch itself
+ */
+function defaultSandboxWarning(): string | undefined {
+	try {
+		return ProcessSandbox.getDefault().getWarning();
+	} catch {
+		return undefined;
+	}
+}
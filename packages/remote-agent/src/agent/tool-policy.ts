@@ -0,0 +1,346 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FunctionCall } from './tool-definition';
+
+export type PolicyAction = 'allow' | 'deny' | 'ask';
+
+export interface ToolRule {
+  action: PolicyAction;
+  /**
+   * Globs the path parameters must match, relative to the workspace unless absolute
+   */
+  paths?: string[];
+  /**
+   * Regular expressions the whole command line of terminal and process tools must match, a command line with shell
+   * operators like `;`, `&&`, `|` or `$(...)` matches none. Variables the call sets come first, as in `PATH=/tmp git status`.
+   */
+  commands?: string[];
+  /**
+   * Hosts of the URL parameters, `*.example.com` also matches the subdomains
+   */
+  hosts?: string[];
+  /**
+   * Action for calls outside the paths, commands or hosts, defaults to deny
+   */
+  otherwise?: PolicyAction;
+}
+
+export interface ToolPolicyConfig {
+  /**
+   * Action for tools without a rule, defaults to allow
+   */
+  default?: PolicyAction;
+  /**
+   * Rules by tool name, a name with `*` matches several tools like `github-*`
+   */
+  tools?: Record<string, PolicyAction | ToolRule>;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  /**
+   * The tool name or pattern of the matched rule, `default` without one
+   */
+  rule: string;
+  reason: string;
+}
+
+export interface ApprovalRequest {
+  functionCall: FunctionCall;
+  decision: PolicyDecision;
+  round: number;
+  workspacePath: string;
+}
+
+/**
+ * Asks whether a tool call the policy marks with `ask` may run
+ */
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<boolean>;
+
+const ACTIONS: PolicyAction[] = ['allow', 'deny', 'ask'];
+
+// parameters the tools take a file or directory in
+const PATH_PARAMETERS = ['file_path', 'directory_path', 'targetFile', 'path', 'search_path', 'working_directory', 'cwd', 'workspace_path'];
+const COMMAND_PARAMETERS = ['command'];
+// variables the terminal and process tools set for the command, a changed `PATH` runs another program
+const ENVIRONMENT_PARAMETERS = ['environment', 'env'];
+const URL_PARAMETERS = ['url'];
+
+const POLICY_FILE = 'tool-policy.json';
+
+const MAX_LINK_DEPTH = 32;
+
+// chaining, piping, substitution and redirection would run more than the matched command
+const SHELL_OPERATORS = /[;&|`<>\n\r]|\$\(/;
+
+/**
+ * Decides per tool call whether it runs, is denied or needs an approval, by the rules of a policy file:
+ *
+ * ```json
+ * {
+ *   "default": "allow",
+ *   "tools": {
+ *     "delete-file": "ask",
+ *     "write-file": { "action": "allow", "paths": ["src/**"], "otherwise": "ask" },
+ *     "run-terminal-command": { "action": "allow", "commands": ["git (status|diff|log)( .*)?"], "otherwise": "ask" },
+ *     "browse-webpage": { "action": "allow", "hosts": ["github.com", "*.github.com"] },
+ *     "github-*": "ask"
+ *   }
+ * }
+ * ```
+ *
+ * The policy is read once. Calls whose paths or command lines name its file are denied, but a shell command can still
+ * reach the file another way, e.g. through `~` or a variable; only the `bubblewrap` sandbox hides the home directory.
+ */
+export class ToolPolicy {
+  private readonly rules: Array<[string, ToolRule]>;
+
+  /**
+   * @param filePath the file the policy was loaded from, tool calls that touch it are denied
+   */
+  constructor(private readonly config: ToolPolicyConfig = {}, private readonly filePath?: string) {
+    this.rules = Object.entries(config.tools || {}).map(([name, rule]) => {
+      const normalized = typeof rule === 'string' ? { action: rule } : rule;
+      for (const action of [normalized.action, normalized.otherwise]) {
+        if (action !== undefined && !ACTIONS.includes(action)) {
+          throw new Error(`Invalid action '${action}' for tool '${name}', expected one of ${ACTIONS.join(', ')}`);
+        }
+      }
+      return [name, normalized];
+    });
+
+    if (config.default !== undefined && !ACTIONS.includes(config.default)) {
+      throw new Error(`Invalid default action '${config.default}', expected one of ${ACTIONS.join(', ')}`);
+    }
+  }
+
+  /**
+   * `~/.autodev/tool-policy.json`, outside of the workspaces the agent works in
+   */
+  static defaultPath(homeDir: string = os.homedir()): string {
+    return path.join(homeDir, '.autodev', POLICY_FILE);
+  }
+
+  static load(filePath: string): ToolPolicy {
+    try {
+      return new ToolPolicy(JSON.parse(fs.readFileSync(filePath, 'utf8')), realPathOf(filePath));
+    } catch (error) {
+      throw new Error(`Failed to load tool policy ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * The policy of the config, a policy file, or {@link defaultPath}, all tools are allowed without one
+   */
+  static resolve(workspacePath: string, policy?: ToolPolicyConfig | string, homeDir: string = os.homedir()): ToolPolicy {
+    if (typeof policy === 'object') {
+      return new ToolPolicy(policy);
+    }
+    if (typeof policy === 'string') {
+      return ToolPolicy.load(path.resolve(workspacePath, policy));
+    }
+
+    const defaultPath = ToolPolicy.defaultPath(homeDir);
+    return fs.existsSync(defaultPath) ? ToolPolicy.load(defaultPath) : new ToolPolicy();
+  }
+
+  evaluate(functionCall: FunctionCall, workspacePath: string): PolicyDecision {
+    const tampering = this.checkPolicyFile(functionCall.parameters || {}, workspacePath);
+    if (tampering) {
+      return { action: 'deny', rule: 'policy-file', reason: tampering };
+    }
+
+    const matched = this.findRule(functionCall.name);
+    if (!matched) {
+      const action = this.config.default || 'allow';
+      return { action, rule: 'default', reason: `no rule for '${functionCall.name}', default is ${action}` };
+    }
+
+    const [name, rule] = matched;
+    if (rule.action !== 'deny') {
+      const violation = this.checkConstraints(rule, functionCall.parameters || {}, workspacePath);
+      if (violation) {
+        return { action: rule.otherwise || 'deny', rule: name, reason: violation };
+      }
+    }
+
+    return { action: rule.action, rule: name, reason: `rule '${name}' is ${rule.action}` };
+  }
+
+  /**
+   * An exact tool name wins over patterns, patterns are tried in the order of the file
+   */
+  private findRule(toolName: string): [string, ToolRule] | undefined {
+    return this.rules.find(([name]) => name === toolName)
+      || this.rules.find(([name]) => name.includes('*') && globToRegExp(name).test(toolName));
+  }
+
+  private checkPolicyFile(parameters: Record<string, any>, workspacePath: string): string | undefined {
+    if (!this.filePath) {
+      return undefined;
+    }
+
+    const policyFile = this.filePath;
+    if (valuesOf(parameters, PATH_PARAMETERS).some(value => realPathOf(path.resolve(workspacePath, value)) === policyFile)) {
+      return `the tool policy file ${policyFile} is protected`;
+    }
+
+    const relative = path.relative(realPathOf(workspacePath), policyFile);
+    const names = [policyFile, ...(relative.startsWith('..') || path.isAbsolute(relative) ? [] : [relative])];
+    if (valuesOf(parameters, COMMAND_PARAMETERS).some(value => names.some(name => commandLineOf(value, parameters).includes(name)))) {
+      return `the command touches the tool policy file ${policyFile}`;
+    }
+
+    return undefined;
+  }
+
+  private checkConstraints(rule: ToolRule, parameters: Record<string, any>, workspacePath: string): string | undefined {
+    if (rule.paths) {
+      for (const value of valuesOf(parameters, PATH_PARAMETERS)) {
+        if (!matchesPath(rule.paths, value, workspacePath)) {
+          return `path '${value}' is outside of ${rule.paths.join(', ')}`;
+        }
+      }
+    }
+
+    if (rule.commands) {
+      for (const value of valuesOf(parameters, COMMAND_PARAMETERS)) {
+        const command = commandLineOf(value, parameters);
+        if (SHELL_OPERATORS.test(command)) {
+          return `command '${command}' contains shell operators`;
+        }
+        // a pattern matches the whole command line, like `git status` not matching `git status && rm -rf .`
+        if (!rule.commands.some(pattern => new RegExp(`^(?:${pattern})$`).test(command))) {
+          return `command '${command}' matches none of the allowed commands`;
+        }
+      }
+    }
+
+    if (rule.hosts) {
+      for (const value of valuesOf(parameters, URL_PARAMETERS)) {
+        const host = hostOf(value);
+        if (!host || !rule.hosts.some(pattern => matchesHost(pattern, host))) {
+          return `host of '${value}' is not one of ${rule.hosts.join(', ')}`;
+        }
+      }
+    }
+
+    return undefined;
+  }
+}
+
+function valuesOf(parameters: Record<string, any>, names: string[]): string[] {
+  return names
+    .map(name => parameters[name])
+    .filter((value): value is string => typeof value === 'string' && value.length > 0);
+}
+
+function commandLineOf(command: string, parameters: Record<string, any>): string {
+  const assignments = ENVIRONMENT_PARAMETERS
+    .map(name => parameters[name])
+    .filter((env): env is Record<string, unknown> => typeof env === 'object' && env !== null && !Array.isArray(env))
+    .flatMap(env => Object.entries(env).map(([name, value]) => `${name}=${String(value)}`));
+  const args = Array.isArray(parameters.args) ? parameters.args : [];
+  return [...assignments, command, ...args].join(' ');
+}
+
+/**
+ * Resolve the symlinks of a path, a link inside an allowed directory may point anywhere. Files that do not exist yet
+ * resolve through their closest existing parent, a dangling link to where writing it would create the file
+ */
+function realPathOf(filePath: string, depth = 0): string {
+  const missing: string[] = [];
+  let existing = path.resolve(filePath);
+  while (!lexists(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) {
+      return path.resolve(filePath);
+    }
+    missing.unshift(path.basename(existing));
+    existing = parent;
+  }
+
+  try {
+    return path.join(fs.realpathSync(existing), ...missing);
+  } catch {
+    // a loop of links cannot be written through
+    if (depth >= MAX_LINK_DEPTH || !fs.lstatSync(existing).isSymbolicLink()) {
+      return path.join(existing, ...missing);
+    }
+    const target = path.resolve(path.dirname(existing), fs.readlinkSync(existing));
+    return path.join(realPathOf(target, depth + 1), ...missing);
+  }
+}
+
+function lexists(filePath: string): boolean {
+  try {
+    fs.lstatSync(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesPath(globs: string[], value: string, workspacePath: string): boolean {
+  const root = realPathOf(workspacePath);
+  const absolute = realPathOf(path.resolve(workspacePath, value));
+  const relative = path.relative(root, absolute) || '.';
+  const inWorkspace = !relative.startsWith('..') && !path.isAbsolute(relative);
+
+  return globs.some(glob => path.isAbsolute(glob)
+    ? globToRegExp(glob).test(absolute)
+    // relative globs never match a path outside of the workspace, `**` included
+    : inWorkspace && globToRegExp(glob).test(relative.split(path.sep).join('/')));
+}
+
+function hostOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+function matchesHost(pattern: string, host: string): boolean {
+  const normalized = pattern.toLowerCase();
+  if (normalized.startsWith('*.')) {
+    return host === normalized.substring(2) || host.endsWith(normalized.substring(1));
+  }
+  return host === normalized;
+}
+
+/**
+ * `*` and `?` stay in one path segment, `**` crosses segments and `{a,b}` matches the alternatives
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && glob.indexOf('}', i) > i) {
+      const end = glob.indexOf('}', i);
+      source += `(?:${glob.substring(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,8 +1,11 @@
+import { tool, ToolSet } from "ai";
+import { z } from "zod";
 import { ToolLike } from "../capabilities/_typing";
 import { ToolDefinition, ToolResult } from "./tool-definition";
 
 export class ToolPromptBuilder {
   private tools: ToolDefinition[] = [];
+  private nativeToolCalling = false;
 
   /**
    * Register available tools
@@ -11,6 +14,14 @@ export class ToolPromptBuilder {
     this.tools = tools;
   }
 
+  /**
+   * With native tool calling the tools are passed to the model by the API, so the prompt
+   * leaves out the JSON schemas and the XML call format
+   */
+  setNativeToolCalling(enabled: boolean): void {
+    this.nativeToolCalling = enabled;
+  }
+
   /**
    * Build tool-related part of system prompt
    */
@@ -34,7 +45,17 @@ Follow these rules regarding tool calls:
 - **Unknown technology research: google-search + search-keywords + read-file**
 - **Latest development trends: google-search + analyze-basic-context**
 
-Here are the functions available in JSONSchema format:
+${this.nativeToolCalling ? this.buildNativeCallFormat() : this.buildXmlCallFormat()}`;
+  }
+
+  private buildNativeCallFormat(): string {
+    return `Answer the user's request using the relevant tool(s), if they are available. Check that all the required parameters for each tool call are provided or can reasonably be inferred from context. IF there are no relevant tools or there are missing values for required parameters, ask the user to supply these values; otherwise proceed with the tool calls. If the user provides a specific value for a parameter (for example provided in quotes), make sure to use that value EXACTLY. DO NOT make up values for or ask about optional parameters.
+
+Call the tools through the function calling interface, never write the calls as text. If you intend to call multiple tools and there are no dependencies between the calls, make all of the independent calls in the same response.`;
+  }
+
+  private buildXmlCallFormat(): string {
+    return `Here are the functions available in JSONSchema format:
 <functions>
 ${this.tools.map(tool => JSON.stringify(tool, null, 2)).join('\n')}
 </functions>
@@ -144,6 +165,36 @@ Remember: Thorough investigation leads to better recommendations. Only conclude
     return tools;
   }
 
+  /**
+   * Extract the zod schemas of tool installers as a tool set for the `tools` option of `generateText`.
+   * The tools have no `execute`, their calls are run by the ToolExecutor like the parsed ones.
+   */
+  static extractToolSet(toolInstallers: readonly ToolLike[]): ToolSet {
+    const tools: ToolSet = {};
+
+    const mockInstaller = (
+      name: string,
+      description: string,
+      inputSchema: Record<string, z.ZodType>,
+      handler: any
+    ) => {
+      tools[name] = tool({
+        description,
+        parameters: z.object(inputSchema)
+      });
+    };
+
+    toolInstallers.forEach(installer => {
+      try {
+        installer(mockInstaller);
+      } catch (error) {
+        console.warn(`Failed to extract tool schema:`, error);
+      }
+    });
+
+    return tools;
+  }
+
   buildToolResultsSummary(successfulResults: ToolResult[]): string {
     return successfulResults
       .map(result => {
@@ -90,6 +90,17 @@ describe('Terminal Command Execution Tool', () => {
       });
       expect(result.content[0].text).toContain('test');
     });
+
+    it('should not block on output that is not captured', async () => {
+      const result = await tool.handler({
+        command: process.execPath,
+        args: ['-e', "process.stdout.write('a'.repeat(4000000))"],
+        shell: true,
+        capture_output: false,
+        timeout: 5000
+      });
+      expect(JSON.parse(result.content[0].text).result).toMatchObject({ exit_code: 0, timed_out: false });
+    });
   });
 
   describe('Dry Run Mode', () => {
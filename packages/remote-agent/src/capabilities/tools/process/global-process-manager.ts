@@ -1,10 +1,14 @@
-import { ChildProcess, spawn } from "child_process";
+import { ExecutionReport, ProcessSandbox, SandboxedProcess } from "./process-sandbox";
 
 export class GlobalProcessManager {
 	private static instance: GlobalProcessManager;
 	private processes: Map<number, ManagedProcess> = new Map();
 	private nextId = 1;
 
+	// without a sandbox the shared one is used, created at the first launch
+	constructor(private readonly sandbox?: ProcessSandbox) {
+	}
+
 	static getInstance(): GlobalProcessManager {
 		if (!GlobalProcessManager.instance) {
 			GlobalProcessManager.instance = new GlobalProcessManager();
@@ -13,8 +17,9 @@ export class GlobalProcessManager {
 	}
 
 	launchProcess(command: string, options: LaunchOptions): number {
+		const sandbox = this.sandbox || ProcessSandbox.getDefault();
 		const id = this.nextId++;
-		const process = new ManagedProcess(id, command, options);
+		const process = new ManagedProcess(id, command, options, sandbox);
 		this.processes.set(id, process);
 		return id;
 	}
@@ -59,10 +64,11 @@ export interface ProcessSummary {
 	execution_time_ms?: number;
 	output_lines: number;
 	error_lines: number;
+	sandbox?: ExecutionReport;
 }
 
 class ManagedProcess {
-	private childProcess?: ChildProcess;
+	private execution?: SandboxedProcess;
 	private outputBuffer: string[] = [];
 	private errorBuffer: string[] = [];
 	private startTime: number;
@@ -74,7 +80,8 @@ class ManagedProcess {
 	constructor(
 		public readonly id: number,
 		public readonly command: string,
-		private options: LaunchOptions
+		private options: LaunchOptions,
+		private readonly sandbox: ProcessSandbox
 	) {
 		this.startTime = Date.now();
 		this.launch();
@@ -83,21 +90,32 @@ class ManagedProcess {
 	private launch(): void {
 		const [cmd, ...args] = this.command.split(' ');
 
-		this.childProcess = spawn(cmd, args, {
-			cwd: this.options.cwd,
-			env: { ...process.env, ...this.options.env },
-			stdio: 'pipe'
-		});
+		const workspacePath = process.env.WORKSPACE_PATH || process.cwd();
+		try {
+			this.execution = this.sandbox.launch({
+				command: cmd,
+				args,
+				cwd: this.options.cwd || workspacePath,
+				env: this.options.env,
+				workspacePath
+			});
+		} catch (error) {
+			this.endTime = Date.now();
+			this.status = 'failed';
+			this.errorBuffer.push(error instanceof Error ? error.message : String(error));
+			return;
+		}
 
-		this.childProcess.stdout?.on('data', (data) => {
-			this.outputBuffer.push(data.toString());
+		this.execution.onOutput('stdout', (chunk) => {
+			this.outputBuffer.push(chunk);
 		});
 
-		this.childProcess.stderr?.on('data', (data) => {
-			this.errorBuffer.push(data.toString());
+		this.execution.onOutput('stderr', (chunk) => {
+			this.errorBuffer.push(chunk);
 		});
 
-		this.childProcess.on('exit', (code) => {
+		const childProcess = this.execution.child;
+		childProcess.on('exit', (code) => {
 			this.endTime = Date.now();
 			this.exitCode = code || 0;
 			if (!this.wasKilled) {
@@ -105,7 +123,7 @@ class ManagedProcess {
 			}
 		});
 
-		this.childProcess.on('error', () => {
+		childProcess.on('error', () => {
 			this.endTime = Date.now();
 			if (!this.wasKilled) {
 				this.status = 'failed';
@@ -122,19 +140,19 @@ class ManagedProcess {
 	}
 
 	writeInput(input: string): boolean {
-		if (this.childProcess && this.status === 'running') {
-			this.childProcess.stdin?.write(input);
+		if (this.execution && this.status === 'running') {
+			this.execution.child.stdin?.write(input);
 			return true;
 		}
 		return false;
 	}
 
 	kill(): void {
-		if (this.childProcess && this.status === 'running') {
+		if (this.execution && this.status === 'running') {
 			this.wasKilled = true;
 			this.status = 'killed';
 			this.endTime = Date.now();
-			this.childProcess.kill('SIGTERM');
+			this.execution.kill('SIGTERM');
 		}
 	}
 
@@ -148,7 +166,8 @@ class ManagedProcess {
 			exit_code: this.exitCode,
 			execution_time_ms: this.endTime ? this.endTime - this.startTime : Date.now() - this.startTime,
 			output_lines: this.outputBuffer.length,
-			error_lines: this.errorBuffer.length
+			error_lines: this.errorBuffer.length,
+			sandbox: this.execution?.report()
 		};
 	}
 }
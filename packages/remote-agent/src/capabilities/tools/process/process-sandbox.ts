@@ -0,0 +1,379 @@
+import { ChildProcess, spawn, spawnSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export type SandboxMode = 'auto' | 'bubblewrap' | 'restricted' | 'off';
+
+export interface ResourceLimits {
+	cpuSeconds?: number;
+	memoryMb?: number;
+	/**
+	 * Output of stdout and stderr together that is kept, the rest is dropped
+	 */
+	maxOutputBytes?: number;
+}
+
+export interface ExecutionRequest {
+	command: string;
+	args?: string[];
+	/**
+	 * Run `command` as a shell command line instead of a program with arguments
+	 */
+	shell?: boolean;
+	cwd: string;
+	env?: Record<string, string>;
+	stdio?: 'pipe' | 'inherit';
+	/**
+	 * The workspace `cwd` has to be in, defaults to the one of the sandbox or `WORKSPACE_PATH` at launch time
+	 */
+	workspacePath?: string;
+}
+
+export interface ExecutionReport {
+	backend: string;
+	sandboxed: boolean;
+	limits: ResourceLimits;
+	scrubbed_env: string[];
+	output_bytes: number;
+	output_truncated: boolean;
+	limits_exceeded: Array<'cpu' | 'memory' | 'output'>;
+	/**
+	 * Set when the sandbox is weaker than configured, like `auto` without bwrap
+	 */
+	warning?: string;
+}
+
+/**
+ * Starts the processes of the tools, the confined backends wrap the command in a shell that sets the limits
+ */
+export interface ExecutionBackend {
+	readonly name: string;
+	/**
+	 * The process is isolated from the host in namespaces
+	 */
+	readonly sandboxed: boolean;
+	/**
+	 * The limits, the working directory jail and the credential scrub apply
+	 */
+	readonly confined: boolean;
+	spawn(request: ExecutionRequest, env: Record<string, string>, limits: ResourceLimits, workspacePath: string): ChildProcess;
+}
+
+export const DEFAULT_LIMITS: Required<ResourceLimits> = {
+	cpuSeconds: 600,
+	// an address space limit breaks WebAssembly, `fetch` and JVMs, so it is only set on request
+	memoryMb: 0,
+	maxOutputBytes: 1024 * 1024
+};
+
+export const SENSITIVE_ENV_VAR = /TOKEN|SECRET|PASSWORD|PASSWD|API_?KEY|PRIVATE_KEY|CREDENTIAL|ACCESS_KEY|SESSION_KEY/i;
+
+export const AUTO_FALLBACK_WARNING = 'bwrap is not available, so AUTODEV_SANDBOX=auto fell back to the restricted mode without file system isolation';
+
+const OUT_OF_MEMORY = /out of memory|cannot allocate memory|std::bad_alloc|ENOMEM/i;
+
+/**
+ * Drop the variables that look like credentials, e.g. `GITHUB_TOKEN` or `OPENAI_API_KEY`
+ */
+export function scrubEnvironment(env: Record<string, string | undefined>): { env: Record<string, string>; scrubbed: string[] } {
+	const kept: Record<string, string> = {};
+	const scrubbed: string[] = [];
+	for (const [name, value] of Object.entries(env)) {
+		if (value === undefined) {
+			continue;
+		}
+		if (SENSITIVE_ENV_VAR.test(name)) {
+			scrubbed.push(name);
+		} else {
+			kept[name] = value;
+		}
+	}
+	return { env: kept, scrubbed: scrubbed.sort() };
+}
+
+function argvOf(request: ExecutionRequest): string[] {
+	const args = request.args || [];
+	if (!request.shell) {
+		return [request.command, ...args];
+	}
+	// the arguments are passed as positional parameters, so the shell does not split or interpret them
+	return args.length > 0
+		? ['/bin/sh', '-c', `${request.command} "$@"`, 'sh', ...args]
+		: ['/bin/sh', '-c', request.command];
+}
+
+/**
+ * The limits are set by `ulimit` in a shell that then `exec`s the command, so they apply to it and its children
+ */
+function limitedArgv(request: ExecutionRequest, limits: ResourceLimits): string[] {
+	const ulimits = ['ulimit -c 0'];
+	if (limits.cpuSeconds) {
+		ulimits.push(`ulimit -t ${Math.ceil(limits.cpuSeconds)}`);
+	}
+	if (limits.memoryMb) {
+		ulimits.push(`ulimit -v ${Math.ceil(limits.memoryMb * 1024)}`);
+	}
+	return ['/bin/sh', '-c', `${ulimits.join('; ')}; exec "$@"`, 'sh', ...argvOf(request)];
+}
+
+/**
+ * Runs commands directly on the host with the full environment, like before the sandbox
+ */
+export class HostBackend implements ExecutionBackend {
+	readonly name = 'host';
+	readonly sandboxed = false;
+	readonly confined = false;
+
+	spawn(request: ExecutionRequest, env: Record<string, string>): ChildProcess {
+		const [command, ...args] = argvOf(request);
+		return spawn(command, args, { cwd: request.cwd, env, stdio: request.stdio || 'pipe' });
+	}
+}
+
+/**
+ * Runs commands with resource limits in a working directory inside the workspace. This is not a sandbox: without
+ * namespaces the process can still read and write anything the agent can.
+ */
+export class RestrictedBackend implements ExecutionBackend {
+	readonly name = 'restricted';
+	readonly sandboxed = false;
+	readonly confined = true;
+
+	spawn(request: ExecutionRequest, env: Record<string, string>, limits: ResourceLimits): ChildProcess {
+		const [command, ...args] = limitedArgv(request, limits);
+		return spawn(command, args, { cwd: request.cwd, env, stdio: request.stdio || 'pipe' });
+	}
+}
+
+/**
+ * Runs commands in bubblewrap namespaces: the file system is read-only except the workspace, `/tmp` and the home
+ * directory are empty, and the process dies with the agent. The network stays available for package managers.
+ */
+export class BubblewrapBackend implements ExecutionBackend {
+	readonly name = 'bubblewrap';
+	readonly sandboxed = true;
+	readonly confined = true;
+	private static available?: boolean;
+
+	static isAvailable(): boolean {
+		if (BubblewrapBackend.available === undefined) {
+			// bwrap can be installed while unprivileged user namespaces are disabled, so try it once
+			const probe = spawnSync('bwrap', ['--ro-bind', '/', '/', '--unshare-all', '--', 'true'], { stdio: 'ignore', timeout: 5000 });
+			BubblewrapBackend.available = !probe.error && probe.status === 0;
+		}
+		return BubblewrapBackend.available;
+	}
+
+	spawn(request: ExecutionRequest, env: Record<string, string>, limits: ResourceLimits, workspacePath: string): ChildProcess {
+		const args = [
+			'--ro-bind', '/', '/',
+			'--dev', '/dev',
+			'--proc', '/proc',
+			'--tmpfs', '/tmp',
+			'--tmpfs', os.homedir(),
+			// after the tmpfs mounts, a workspace in /tmp or the home directory stays visible
+			'--bind', workspacePath, workspacePath,
+			'--unshare-all',
+			'--share-net',
+			'--die-with-parent',
+			'--new-session',
+			'--chdir', request.cwd,
+			'--',
+			...limitedArgv(request, limits)
+		];
+		return spawn('bwrap', args, { env, stdio: request.stdio || 'pipe' });
+	}
+}
+
+/**
+ * A process started by a `ProcessSandbox`, with its output capped and the limits it hit
+ */
+export class SandboxedProcess {
+	private outputBytes = 0;
+	private outputTruncated = false;
+	private stderrTail = '';
+	private killedBySandbox = false;
+	private exceeded = new Set<'cpu' | 'memory' | 'output'>();
+
+	constructor(
+		readonly child: ChildProcess,
+		private readonly backend: ExecutionBackend,
+		private readonly limits: ResourceLimits,
+		private readonly scrubbed: string[],
+		private readonly warning?: string
+	) {
+		child.stderr?.on('data', (data) => {
+			this.stderrTail = (this.stderrTail + data.toString()).slice(-2000);
+		});
+
+		child.on('exit', (code, signal) => {
+			if (!this.backend.confined) {
+				return;
+			}
+			// the hard CPU limit ends the process with SIGKILL right after SIGXCPU
+			if (signal === 'SIGXCPU' || (signal === 'SIGKILL' && !this.killedBySandbox && limits.cpuSeconds)) {
+				this.exceeded.add('cpu');
+			}
+			if (code !== 0 && limits.memoryMb && OUT_OF_MEMORY.test(this.stderrTail)) {
+				this.exceeded.add('memory');
+			}
+		});
+	}
+
+	/**
+	 * Listen to the output until the output cap is reached
+	 */
+	onOutput(stream: 'stdout' | 'stderr', listener: (chunk: string) => void): void {
+		this.child[stream]?.on('data', (data: Buffer) => {
+			const max = this.limits.maxOutputBytes;
+			if (!max) {
+				this.outputBytes += data.length;
+				listener(data.toString());
+				return;
+			}
+
+			const remaining = max - this.outputBytes;
+			this.outputBytes += data.length;
+			if (remaining <= 0) {
+				return;
+			}
+			if (data.length > remaining) {
+				this.outputTruncated = true;
+				this.exceeded.add('output');
+				listener(data.subarray(0, remaining).toString() + `\n[output truncated after ${max} bytes]\n`);
+				return;
+			}
+			listener(data.toString());
+		});
+	}
+
+	kill(signal: NodeJS.Signals = 'SIGTERM'): boolean {
+		this.killedBySandbox = true;
+		return this.child.kill(signal);
+	}
+
+	report(): ExecutionReport {
+		return {
+			backend: this.backend.name,
+			sandboxed: this.backend.sandboxed,
+			limits: this.limits,
+			scrubbed_env: this.scrubbed,
+			output_bytes: this.outputBytes,
+			output_truncated: this.outputTruncated,
+			limits_exceeded: Array.from(this.exceeded),
+			...(this.warning ? { warning: this.warning } : {})
+		};
+	}
+}
+
+/**
+ * Chooses how the process and terminal tools start their commands, configured by `AUTODEV_SANDBOX`:
+ * `auto` (default) uses bubblewrap when it works and the restricted backend otherwise, `off` runs on the host
+ */
+export class ProcessSandbox {
+	private static defaultSandbox?: ProcessSandbox;
+
+	/**
+	 * @param workspacePath the workspace of every launch, without it a launch uses its own or the current `WORKSPACE_PATH`
+	 * @param warning reported with every process, when the sandbox is weaker than configured
+	 */
+	constructor(
+		private readonly backend: ExecutionBackend,
+		private readonly limits: ResourceLimits = DEFAULT_LIMITS,
+		private readonly workspacePath?: string,
+		private readonly warning?: string
+	) {
+	}
+
+	static fromEnvironment(env: NodeJS.ProcessEnv = process.env): ProcessSandbox {
+		const limits: ResourceLimits = {
+			cpuSeconds: numberOf(env.AUTODEV_SANDBOX_CPU_SECONDS, DEFAULT_LIMITS.cpuSeconds),
+			memoryMb: numberOf(env.AUTODEV_SANDBOX_MEMORY_MB, DEFAULT_LIMITS.memoryMb),
+			maxOutputBytes: numberOf(env.AUTODEV_SANDBOX_MAX_OUTPUT_BYTES, DEFAULT_LIMITS.maxOutputBytes)
+		};
+
+		const mode = (env.AUTODEV_SANDBOX || 'auto') as SandboxMode;
+		switch (mode) {
+			case 'off':
+				return new ProcessSandbox(new HostBackend(), {});
+			case 'restricted':
+				return new ProcessSandbox(new RestrictedBackend(), limits);
+			case 'bubblewrap':
+				if (!BubblewrapBackend.isAvailable()) {
+					throw new Error('AUTODEV_SANDBOX=bubblewrap, but bwrap is not installed or cannot create namespaces');
+				}
+				return new ProcessSandbox(new BubblewrapBackend(), limits);
+			case 'auto':
+				if (BubblewrapBackend.isAvailable()) {
+					return new ProcessSandbox(new BubblewrapBackend(), limits);
+				}
+				console.warn(AUTO_FALLBACK_WARNING);
+				return new ProcessSandbox(new RestrictedBackend(), limits, undefined, AUTO_FALLBACK_WARNING);
+			default:
+				throw new Error(`Unknown AUTODEV_SANDBOX mode '${mode}', expected auto, bubblewrap, restricted or off`);
+		}
+	}
+
+	/**
+	 * The sandbox the tools share, created from the environment on first use
+	 */
+	static getDefault(): ProcessSandbox {
+		if (!ProcessSandbox.defaultSandbox) {
+			ProcessSandbox.defaultSandbox = ProcessSandbox.fromEnvironment();
+		}
+		return ProcessSandbox.defaultSandbox;
+	}
+
+	static setDefault(sandbox: ProcessSandbox | undefined): void {
+		ProcessSandbox.defaultSandbox = sandbox;
+	}
+
+	getBackend(): ExecutionBackend {
+		return this.backend;
+	}
+
+	getWarning(): string | undefined {
+		return this.warning;
+	}
+
+	launch(request: ExecutionRequest): SandboxedProcess {
+		const workspacePath = request.workspacePath || this.workspacePath || process.env.WORKSPACE_PATH || process.cwd();
+		if (!this.backend.confined) {
+			const env = { ...process.env, ...request.env } as Record<string, string>;
+			const child = this.backend.spawn(request, env, this.limits, workspacePath);
+			return new SandboxedProcess(child, this.backend, this.limits, [], this.warning);
+		}
+
+		const workspace = fs.realpathSync(workspacePath);
+		const cwd = this.jail(request.cwd, workspace);
+		const { env, scrubbed } = scrubEnvironment({ ...process.env, ...request.env });
+
+		const child = this.backend.spawn({ ...request, cwd }, env, this.limits, workspace);
+		return new SandboxedProcess(child, this.backend, this.limits, scrubbed, this.warning);
+	}
+
+	/**
+	 * The working directory with its links resolved, it has to be inside the workspace
+	 */
+	private jail(cwd: string, workspace: string): string {
+		let resolved: string;
+		try {
+			resolved = fs.realpathSync(path.resolve(workspace, cwd));
+		} catch {
+			throw new Error(`Working directory '${cwd}' does not exist`);
+		}
+
+		const relative = path.relative(workspace, resolved);
+		if (relative.startsWith('..') || path.isAbsolute(relative)) {
+			throw new Error(`Working directory '${cwd}' is outside the workspace '${workspace}'`);
+		}
+		return resolved;
+	}
+}
+
+function numberOf(value: string | undefined, fallback: number): number {
+	const parsed = value === undefined ? NaN : Number(value);
+	// 0 turns a limit off
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
@@ -1,8 +1,9 @@
 import { ToolLike } from "../../_typing";
 import { z } from "zod";
-import { spawn, exec, ChildProcess } from "child_process";
+import { ChildProcess } from "child_process";
 import * as path from "path";
 import * as fs from "fs/promises";
+import { ExecutionReport, ProcessSandbox, SandboxedProcess } from "../process/process-sandbox";
 
 // 进程管理器 - 跟踪所有活动进程
 class ProcessManager {
@@ -279,13 +280,10 @@ export const installRunTerminalCommandTool: ToolLike = (installer) => {
         };
       }
 
-      // 4. 环境变量过滤
-      const filteredEnv = {
-        ...process.env,
-        ...Object.fromEntries(
-          Object.entries(environment).filter(([key]) => ALLOWED_ENV_VARS.includes(key))
-        )
-      };
+      // 4. 环境变量过滤，沙箱会再去掉 token 之类的敏感变量
+      const filteredEnv = Object.fromEntries(
+        Object.entries(environment).filter(([key]) => ALLOWED_ENV_VARS.includes(key))
+      );
 
       const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command;
 
@@ -326,9 +324,11 @@ export const installRunTerminalCommandTool: ToolLike = (installer) => {
         exit_code: number;
         execution_time: number;
         timed_out: boolean;
+        sandbox: ExecutionReport;
       }>((resolve, reject) => {
         const startTime = Date.now();
         let timedOut = false;
+        let execution: SandboxedProcess;
         let childProcess: ChildProcess;
 
         const killProcess = () => {
@@ -337,13 +337,13 @@ export const installRunTerminalCommandTool: ToolLike = (installer) => {
             // 检查进程是否还存在
             if (childProcess.killed) return;
 
-            childProcess.kill('SIGTERM');
+            execution.kill('SIGTERM');
 
             // 设置一个更短的超时时间
             const forceKillTimeout = setTimeout(() => {
               if (childProcess && !childProcess.killed) {
                 try {
-                  childProcess.kill('SIGKILL');
+                  execution.kill('SIGKILL');
                 } catch (error) {
                   // 忽略任何错误
                 }
@@ -362,24 +362,22 @@ export const installRunTerminalCommandTool: ToolLike = (installer) => {
         };
 
         try {
-          childProcess = shell
-            ? exec(fullCommand, {
-                cwd: resolvedWorkingDir,
-                env: filteredEnv,
-                timeout: timeout
-              })
-            : spawn(command, args, {
-                cwd: resolvedWorkingDir,
-                env: filteredEnv,
-                stdio: capture_output ? 'pipe' : 'inherit'
-              });
+          execution = ProcessSandbox.getDefault().launch({
+            command,
+            args,
+            shell,
+            cwd: resolvedWorkingDir,
+            env: filteredEnv,
+            stdio: shell || capture_output ? 'pipe' : 'inherit',
+            workspacePath
+          });
+          childProcess = execution.child;
 
           let stdout = '';
           let stderr = '';
 
           if (capture_output && childProcess.stdout && childProcess.stderr) {
-            childProcess.stdout.on('data', (data) => {
-              const chunk = data.toString();
+            execution.onOutput('stdout', (chunk) => {
               stdout += chunk;
 
               // 限制输出长度
@@ -394,8 +392,7 @@ export const installRunTerminalCommandTool: ToolLike = (installer) => {
               }
             });
 
-            childProcess.stderr.on('data', (data) => {
-              const chunk = data.toString();
+            execution.onOutput('stderr', (chunk) => {
               stderr += chunk;
 
               // 限制错误输出长度
@@ -409,6 +406,10 @@ export const installRunTerminalCommandTool: ToolLike = (installer) => {
                 console.error(`[STDERR] ${chunk.trim()}`);
               }
             });
+          } else {
+            // shell 命令的输出不捕获时也要读掉，否则写满管道缓冲区后进程会一直阻塞到超时
+            execution.onOutput('stdout', () => {});
+            execution.onOutput('stderr', () => {});
           }
 
           // 设置超时
@@ -426,7 +427,8 @@ export const installRunTerminalCommandTool: ToolLike = (installer) => {
               stderr: stderr,
               exit_code: code || 0,
               execution_time: executionTime,
-              timed_out: timedOut
+              timed_out: timedOut,
+              sandbox: execution.report()
             });
           });
 
@@ -476,7 +478,8 @@ export const installRunTerminalCommandTool: ToolLike = (installer) => {
                                   result.execution_time < 10000 ? 'normal' : 'slow',
           memory_efficient: result.stdout.length < 10000,
           timeout_risk: result.execution_time > (timeout * 0.8)
-        }
+        },
+        sandbox: result.sandbox
       };
 
       return {
@@ -15,6 +15,9 @@ export { FunctionParser } from "./agent/function-parser";
 export { ToolExecutor, type ToolResult, type ToolExecutionContext } from "./agent/tool-executor";
 export { ToolDefinition } from "./agent/tool-definition";
 export { GitHubContextManager } from "./agent/github-context-manager";
+export { SessionStore, type AgentSession, type SessionRound, type SessionSummary, type SessionMode, type SessionStatus } from "./agent/session-store";
+export { ToolPolicy, type ToolPolicyConfig, type ToolRule, type PolicyAction, type PolicyDecision, type ApprovalRequest, type ApprovalHandler } from "./agent/tool-policy";
+export { ToolAuditLog, type ToolAuditEntry } from "./agent/tool-audit-log";
 export * from "./agent/tool-definition";
 
 // =============================================================================
@@ -95,6 +98,19 @@ export { ProjectDetector, type ProjectDetectionResult, type ProjectConfig } from
 // Terminal Tools
 // =============================================================================
 export { installRunTerminalCommandTool } from "./capabilities/tools/terminal/terminal-run-command";
+export {
+  ProcessSandbox,
+  SandboxedProcess,
+  HostBackend,
+  RestrictedBackend,
+  BubblewrapBackend,
+  scrubEnvironment,
+  type ExecutionBackend,
+  type ExecutionRequest,
+  type ExecutionReport,
+  type ResourceLimits,
+  type SandboxMode
+} from "./capabilities/tools/process/process-sandbox";
 
 // =============================================================================
 // Web Tools
@@ -19,6 +19,13 @@ export abstract class Playbook {
     // Default implementation - subclasses should override
   }
 
+  /**
+   * 切换原生工具调用：开启时工具通过 API 传给模型，提示词中不再包含 XML 调用格式 - 由子类实现
+   */
+  setNativeToolCalling(enabled: boolean): void {
+    // Default implementation - subclasses should override
+  }
+
   /**
    * 获取系统提示词
    */
@@ -82,6 +82,13 @@ Before executing any implementation:
     this.toolPromptBuilder.registerTools(tools);
   }
 
+  /**
+   * 切换原生工具调用的提示词格式
+   */
+  setNativeToolCalling(enabled: boolean): void {
+    this.toolPromptBuilder.setNativeToolCalling(enabled);
+  }
+
   /**
    * 为功能请求分析准备提示词 - 采用规划驱动的方法
    */
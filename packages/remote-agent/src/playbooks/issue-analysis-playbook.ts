@@ -65,6 +65,13 @@ When tackling complex coding tasks, especially in the initial planning phase:
     this.toolPromptBuilder.registerTools(tools);
   }
 
+  /**
+   * 切换原生工具调用的提示词格式
+   */
+  setNativeToolCalling(enabled: boolean): void {
+    this.toolPromptBuilder.setNativeToolCalling(enabled);
+  }
+
   /**
    * 为 Bug 报告分析准备提示词
    */
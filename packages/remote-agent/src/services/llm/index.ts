@@ -12,3 +12,13 @@ export {
   getLLMProviderStatus,
   type LLMProviderConfig 
 } from './llm-provider';
+export {
+  LLMCassette,
+  CassetteMissError,
+  openCassette,
+  closeCassettes,
+  createRecordingLLMProvider,
+  createReplayLLMProvider,
+  type CassetteInteraction,
+  type RecordedResponse
+} from './llm-cassette';
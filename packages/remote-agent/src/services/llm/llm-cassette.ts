@@ -0,0 +1,187 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { LanguageModelV1, LanguageModelV1CallOptions, wrapLanguageModel } from "ai";
+import type { LLMProviderConfig } from "./llm-provider";
+
+type GenerateResult = Awaited<ReturnType<LanguageModelV1['doGenerate']>>;
+
+export interface RecordedResponse {
+  text?: string;
+  toolCalls?: GenerateResult['toolCalls'];
+  finishReason: GenerateResult['finishReason'];
+  usage: GenerateResult['usage'];
+}
+
+export interface CassetteInteraction {
+  key: string;
+  modelId: string;
+  /**
+   * The normalized prompt and tools, kept to see what changed when a replay misses
+   */
+  request: any;
+  response: RecordedResponse;
+}
+
+export interface LLMCassetteOptions {
+  /**
+   * Replaced by their placeholder before hashing, like the absolute workspace path by `<workspace>`
+   */
+  replacements?: Record<string, string>;
+}
+
+export class CassetteMissError extends Error {
+  constructor(readonly key: string, readonly request: any) {
+    super(`No recorded LLM response for request ${key}, record the cassette again: ${JSON.stringify(request).substring(0, 300)}`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+const ISO_TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/g;
+// tool results in the prompts carry their duration, also inside serialized JSON
+const EXECUTION_TIME = /(executionTime\\*"\s*:\s*)\d+/g;
+
+/**
+ * Prompt → response pairs of LLM calls, keyed by the hash of the normalized prompt and tools. Requests with the
+ * same key are replayed in the order they were recorded.
+ */
+export class LLMCassette {
+  private interactions: CassetteInteraction[] = [];
+  private replayed = new Map<string, number>();
+
+  constructor(readonly filePath: string, private readonly options: LLMCassetteOptions = {}) {
+    if (fs.existsSync(filePath)) {
+      this.interactions = JSON.parse(fs.readFileSync(filePath, 'utf8')).interactions || [];
+    }
+  }
+
+  requestOf(params: LanguageModelV1CallOptions): any {
+    const mode = params.mode.type === 'regular'
+      ? { type: 'regular', tools: params.mode.tools, toolChoice: params.mode.toolChoice }
+      : params.mode;
+
+    return JSON.parse(this.normalize(JSON.stringify({ prompt: params.prompt, mode })));
+  }
+
+  keyOf(request: any): string {
+    return createHash('sha256').update(JSON.stringify(request)).digest('hex').substring(0, 16);
+  }
+
+  record(modelId: string, params: LanguageModelV1CallOptions, result: GenerateResult): void {
+    const request = this.requestOf(params);
+    this.interactions.push({
+      key: this.keyOf(request),
+      modelId,
+      request,
+      response: {
+        text: result.text,
+        toolCalls: result.toolCalls,
+        finishReason: result.finishReason,
+        usage: result.usage
+      }
+    });
+    this.save();
+  }
+
+  replay(params: LanguageModelV1CallOptions): RecordedResponse {
+    const request = this.requestOf(params);
+    const key = this.keyOf(request);
+    const matches = this.interactions.filter(interaction => interaction.key === key);
+    if (matches.length === 0) {
+      throw new CassetteMissError(key, request);
+    }
+
+    // a request repeated more often than recorded gets the last response again
+    const index = this.replayed.get(key) ?? 0;
+    this.replayed.set(key, index + 1);
+    return matches[Math.min(index, matches.length - 1)].response;
+  }
+
+  getInteractions(): CassetteInteraction[] {
+    return this.interactions;
+  }
+
+  private normalize(text: string): string {
+    let normalized = text;
+    for (const [value, placeholder] of Object.entries(this.options.replacements || {})) {
+      if (value) {
+        normalized = normalized.split(value).join(placeholder);
+      }
+    }
+    return normalized
+      .replace(ISO_TIMESTAMP, '<timestamp>')
+      .replace(EXECUTION_TIME, (_, property) => `${property}0`);
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify({ version: 1, interactions: this.interactions }, null, 2) + '\n');
+  }
+}
+
+// the agent, the playbooks and the tools each configure their provider, they share the cassette of a file
+const cassettes = new Map<string, LLMCassette>();
+
+export function openCassette(filePath: string, options: LLMCassetteOptions = {}): LLMCassette {
+  const resolved = path.resolve(filePath);
+  let cassette = cassettes.get(resolved);
+  if (!cassette) {
+    cassette = new LLMCassette(resolved, options);
+    cassettes.set(resolved, cassette);
+  }
+  return cassette;
+}
+
+/**
+ * Forget the opened cassettes, so the next run reads them from the disk and replays from the first response
+ */
+export function closeCassettes(): void {
+  cassettes.clear();
+}
+
+/**
+ * Pass the calls to the provider and record each prompt with its response
+ */
+export function createRecordingLLMProvider(base: LLMProviderConfig, cassette: LLMCassette): LLMProviderConfig {
+  return {
+    ...base,
+    openai: modelId => wrapLanguageModel({
+      model: base.openai(modelId),
+      middleware: {
+        wrapGenerate: async ({ doGenerate, params }) => {
+          const result = await doGenerate();
+          cassette.record(modelId, params, result);
+          return result;
+        }
+      }
+    })
+  };
+}
+
+/**
+ * Answer the calls with the recorded responses, without network
+ */
+export function createReplayLLMProvider(cassette: LLMCassette): LLMProviderConfig {
+  const model = (modelId: string): LanguageModelV1 => ({
+    specificationVersion: 'v1',
+    provider: 'replay',
+    modelId,
+    defaultObjectGenerationMode: undefined,
+    doGenerate: async (params) => ({
+      ...cassette.replay(params),
+      rawCall: { rawPrompt: params.prompt, rawSettings: {} }
+    }),
+    doStream: async () => {
+      throw new Error('Streaming is not supported by the replay provider');
+    }
+  });
+
+  const modelId = cassette.getInteractions()[0]?.modelId || 'replay';
+  return {
+    fullModel: modelId,
+    quickModel: modelId,
+    openai: model,
+    providerName: "Replay",
+    supportsToolCalling: true
+  };
+}
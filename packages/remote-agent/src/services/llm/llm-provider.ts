@@ -1,17 +1,48 @@
-import { createOpenAI, OpenAIProvider } from "@ai-sdk/openai";
+import * as path from "path";
+import { createOpenAI } from "@ai-sdk/openai";
+import { LanguageModel } from "ai";
+import { createRecordingLLMProvider, createReplayLLMProvider, openCassette } from "./llm-cassette";
 
 export interface LLMProviderConfig {
   fullModel: string;
-  openai: OpenAIProvider;
+  /**
+   * Creates the language model of a model id, an OpenAI compatible provider or a wrapper of its models
+   */
+  openai: (modelId: string) => LanguageModel;
   quickModel: string;
   providerName: string;
+  /**
+   * Whether the models accept `tools` in the chat completion request, `false` keeps the agent on the XML tool calls
+   */
+  supportsToolCalling?: boolean;
 }
 
 /**
  * Configure LLM provider based on available environment variables
  * Similar to web package implementation but with multiple provider support
+ *
+ * `AUTODEV_LLM_RECORD=<file>` records the prompts and responses of the configured provider to a cassette,
+ * `AUTODEV_LLM_REPLAY=<file>` answers from a recorded cassette without any provider or network
  */
 export function configureLLMProvider(): LLMProviderConfig | null {
+  const workspacePath = process.env.WORKSPACE_PATH || process.cwd();
+  const cassetteOptions = {
+    replacements: workspacePath !== path.parse(workspacePath).root ? { [workspacePath]: '<workspace>' } : {}
+  };
+
+  if (process.env.AUTODEV_LLM_REPLAY) {
+    return createReplayLLMProvider(openCassette(process.env.AUTODEV_LLM_REPLAY, cassetteOptions));
+  }
+
+  const provider = configureEnvironmentProvider();
+  if (provider && process.env.AUTODEV_LLM_RECORD) {
+    return createRecordingLLMProvider(provider, openCassette(process.env.AUTODEV_LLM_RECORD, cassetteOptions));
+  }
+
+  return provider;
+}
+
+function configureEnvironmentProvider(): LLMProviderConfig | null {
   // Priority order: DeepSeek -> GLM -> OpenAI (DeepSeek prioritized as requested)
 
   // DeepSeek Provider (Prioritized)
@@ -26,7 +57,8 @@ export function configureLLMProvider(): LLMProviderConfig | null {
       fullModel: process.env.DEEPSEEK_MODEL || "deepseek-chat",
       quickModel: process.env.DEEPSEEK_MODEL || "deepseek-chat",
       openai,
-      providerName: "DeepSeek"
+      providerName: "DeepSeek",
+      supportsToolCalling: true
     };
   }
 
@@ -42,7 +74,8 @@ export function configureLLMProvider(): LLMProviderConfig | null {
       fullModel: process.env.LLM_MODEL || "glm-4-air",
       quickModel: process.env.LLM_MODEL || "glm-4-air",
       openai,
-      providerName: "GLM"
+      providerName: "GLM",
+      supportsToolCalling: true
     };
   }
 
@@ -58,7 +91,8 @@ export function configureLLMProvider(): LLMProviderConfig | null {
       fullModel: process.env.OPENAI_MODEL || "gpt-4o-mini",
       quickModel: process.env.OPENAI_MODEL || "gpt-4o-mini",
       openai,
-      providerName: "OpenAI"
+      providerName: "OpenAI",
+      supportsToolCalling: true
     };
   }
 
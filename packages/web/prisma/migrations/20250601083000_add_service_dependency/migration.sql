@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ServiceDependency" (
+    "id" TEXT NOT NULL,
+    "consumer" TEXT NOT NULL,
+    "provider" TEXT,
+    "sourceCaller" TEXT NOT NULL,
+    "sourceFile" TEXT NOT NULL,
+    "clientType" TEXT,
+    "targetUrl" TEXT NOT NULL,
+    "targetHttpMethod" TEXT NOT NULL,
+    "resourceUrl" TEXT,
+    "resourceClass" TEXT,
+    "resourceMethod" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT,
+
+    CONSTRAINT "ServiceDependency_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "ServiceDependency" ADD CONSTRAINT "ServiceDependency_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "FunctionMetric" (
+    "id" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "className" TEXT,
+    "filePath" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "cyclomaticComplexity" INTEGER NOT NULL,
+    "maxNestingDepth" INTEGER NOT NULL,
+    "loc" INTEGER NOT NULL,
+    "sloc" INTEGER NOT NULL,
+    "parameterCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT,
+
+    CONSTRAINT "FunctionMetric_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PackageMetric" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "files" INTEGER NOT NULL,
+    "classes" INTEGER NOT NULL,
+    "functions" INTEGER NOT NULL,
+    "loc" INTEGER NOT NULL,
+    "averageComplexity" DOUBLE PRECISION NOT NULL,
+    "afferentCoupling" INTEGER NOT NULL,
+    "efferentCoupling" INTEGER NOT NULL,
+    "instability" DOUBLE PRECISION NOT NULL,
+    "dependencies" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT,
+
+    CONSTRAINT "PackageMetric_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "FunctionMetric" ADD CONSTRAINT "FunctionMetric_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PackageMetric" ADD CONSTRAINT "PackageMetric_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "TestCaseMapping" (
+    "id" TEXT NOT NULL,
+    "testFile" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "suite" TEXT,
+    "language" TEXT NOT NULL,
+    "framework" TEXT NOT NULL,
+    "targets" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "targetFiles" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT,
+
+    CONSTRAINT "TestCaseMapping_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UntestedMethod" (
+    "id" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "className" TEXT,
+    "filePath" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT,
+
+    CONSTRAINT "UntestedMethod_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "TestCaseMapping" ADD CONSTRAINT "TestCaseMapping_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UntestedMethod" ADD CONSTRAINT "UntestedMethod_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
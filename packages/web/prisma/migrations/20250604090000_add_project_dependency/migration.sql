@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "techStack" JSONB;
+
+-- CreateTable
+CREATE TABLE "ProjectDependency" (
+    "id" TEXT NOT NULL,
+    "module" TEXT NOT NULL,
+    "modulePath" TEXT NOT NULL,
+    "ecosystem" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" TEXT,
+    "scope" TEXT NOT NULL,
+    "target" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT,
+
+    CONSTRAINT "ProjectDependency_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "ProjectDependency" ADD CONSTRAINT "ProjectDependency_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
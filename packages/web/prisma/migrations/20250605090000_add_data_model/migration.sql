@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "erDiagram" TEXT;
+
+-- CreateTable
+CREATE TABLE "DataModelTable" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "entity" TEXT,
+    "sources" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "filePaths" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "columns" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT,
+
+    CONSTRAINT "DataModelTable_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DataModelRelationship" (
+    "id" TEXT NOT NULL,
+    "fromTable" TEXT NOT NULL,
+    "toTable" TEXT NOT NULL,
+    "cardinality" TEXT NOT NULL,
+    "foreignKey" TEXT,
+    "field" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT,
+
+    CONSTRAINT "DataModelRelationship_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "DataModelTable" ADD CONSTRAINT "DataModelTable_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DataModelRelationship" ADD CONSTRAINT "DataModelRelationship_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@vercel/postgres";
-import { generateId } from "@/app/api/_utils/db";
+import { generateId, transaction } from "@/app/api/_utils/db";
 
 export async function GET(request: Request) {
 	try {
@@ -141,3 +141,69 @@ export async function POST(request: Request) {
 		await client.end();
 	}
 }
+
+/**
+ * Apply an incremental update from context-worker watch mode.
+ * Changed and removed resources are matched by method, url, package, class and method name.
+ */
+export async function PATCH(request: Request) {
+	try {
+		const { added = [], changed = [], removed = [], projectId } = await request.json();
+
+		if (!Array.isArray(added) || !Array.isArray(changed) || !Array.isArray(removed)) {
+			return NextResponse.json(
+				{ error: "Invalid data format. Expected added, changed and removed arrays" },
+				{ status: 400 }
+			);
+		}
+
+		// a failed insert must not leave the project with its stale rows deleted
+		await transaction(async (tx) => {
+			for (const item of [...changed, ...removed]) {
+				await tx.sql`
+					DELETE FROM "ApiResource"
+					WHERE "sourceUrl" = ${item.sourceUrl}
+					  AND "sourceHttpMethod" = ${item.sourceHttpMethod}
+					  AND "packageName" = ${item.packageName}
+					  AND "className" = ${item.className}
+					  AND "methodName" = ${item.methodName}
+					  AND "projectId" IS NOT DISTINCT FROM ${projectId};
+				`;
+			}
+
+			for (const item of [...added, ...changed]) {
+				const id = generateId()
+				await tx.sql`
+					INSERT INTO "ApiResource" (
+						"id", 
+						"sourceUrl", 
+						"sourceHttpMethod", 
+						"packageName", 
+						"className", 
+						"methodName",
+						"supplyType",
+						"projectId"
+					)
+					VALUES (
+						${id}, 
+						${item.sourceUrl}, 
+						${item.sourceHttpMethod}, 
+						${item.packageName}, 
+						${item.className}, 
+						${item.methodName},
+						${item.supplyType},
+						${projectId}
+					);
+				`;
+			}
+		});
+
+		return NextResponse.json({ success: true }, { status: 200 });
+	} catch (error) {
+		console.error("Error applying API resource delta:", error);
+		return NextResponse.json(
+			{ error: "Error applying API resource delta", details: error },
+			{ status: 500 }
+		);
+	}
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { pool } from '../../_utils/db';
+import { pool, transaction } from '../../_utils/db';
 
 export async function GET(request: Request) {
   try {
@@ -142,3 +142,81 @@ export async function POST(request: Request) {
     );
   }
 }
+
+/**
+ * Apply an incremental update from context-worker watch mode.
+ * Rows of changed and removed paths are deleted, then added and changed items are inserted.
+ */
+export async function PATCH(request: Request) {
+  try {
+    const { added = [], changed = [], removed = [], projectId } = await request.json();
+
+    if (!Array.isArray(added) || !Array.isArray(changed) || !Array.isArray(removed)) {
+      return NextResponse.json(
+        { error: 'Invalid data format. Expected added, changed and removed arrays' },
+        { status: 400 }
+      );
+    }
+
+    const upserts = [...added, ...changed];
+    for (const item of upserts) {
+      if (!item.path || !item.content) {
+        return NextResponse.json(
+          { error: 'Each item must contain path and content fields' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const stalePaths = new Set<string>([...changed, ...removed].map(item => item.path));
+    // a failed insert must not leave the project with its stale rows deleted
+    const results = await transaction(async (tx) => {
+      for (const path of stalePaths) {
+        await tx.sql`
+          DELETE FROM "CodeAnalysis"
+          WHERE path = ${path} AND "projectId" IS NOT DISTINCT FROM ${projectId}
+        `;
+      }
+
+      const ids: string[] = [];
+      for (const item of upserts) {
+        const result = await tx.sql`
+          INSERT INTO "CodeAnalysis" (
+            id, 
+            path,
+            content,
+            "projectId",
+            "createdAt", 
+            "updatedAt"
+          ) VALUES (
+            gen_random_uuid(), 
+            ${item.path},
+            ${item.content},
+            ${projectId},
+            NOW(), 
+            NOW()
+          ) RETURNING id
+        `;
+        ids.push(result.rows[0].id);
+      }
+      return ids;
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Code analysis delta applied successfully',
+      ids: results,
+      removed: stalePaths.size
+    });
+  } catch (error) {
+    console.error('Error applying code analysis delta:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Failed to apply code analysis delta',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@vercel/postgres";
+import { generateId, transaction } from "@/app/api/_utils/db";
+
+/**
+ * Tables and relationships uploaded by context-worker from the ORM entities, Prisma schemas and SQL migrations, with
+ * the Mermaid ER diagram of the project. Filter by `projectId`, pass a `table` or entity name to get only that table
+ * and its relationships.
+ */
+export async function GET(request: Request) {
+	const client = createClient();
+	await client.connect();
+
+	try {
+		const { searchParams } = new URL(request.url);
+		const projectId = searchParams.get('projectId');
+		const table = searchParams.get('table');
+
+		const { rows: tables } = await client.sql`
+			SELECT id,
+			       name,
+			       entity,
+			       sources,
+			       "filePaths",
+			       columns
+			FROM "DataModelTable"
+			WHERE (${projectId}::text IS NULL OR "projectId" = ${projectId})
+			  AND (${table}::text IS NULL OR name = ${table} OR entity = ${table})
+			ORDER BY name;
+		`;
+
+		// the table name of an entity name
+		const tableName = table ? tables[0]?.name ?? table : null;
+		const { rows: relationships } = await client.sql`
+			SELECT id,
+			       "fromTable",
+			       "toTable",
+			       cardinality,
+			       "foreignKey",
+			       field
+			FROM "DataModelRelationship"
+			WHERE (${projectId}::text IS NULL OR "projectId" = ${projectId})
+			  AND (${tableName}::text IS NULL OR "fromTable" = ${tableName} OR "toTable" = ${tableName})
+			ORDER BY "fromTable", "toTable";
+		`;
+
+		const { rows: projects } = projectId
+			? await client.sql`SELECT "erDiagram" FROM "Project" WHERE id = ${projectId};`
+			: { rows: [] };
+
+		return NextResponse.json({ tables, relationships, erDiagram: projects[0]?.erDiagram ?? null }, { status: 200 });
+	} catch (error) {
+		console.error("Error fetching data model:", error);
+		return NextResponse.json(
+			{ error: "Error fetching data model", details: error },
+			{ status: 500 }
+		);
+	} finally {
+		await client.end();
+	}
+}
+
+/**
+ * Replace the data model of a project, and save its ER diagram on the project
+ */
+export async function POST(request: Request) {
+	try {
+		const { data, projectId } = await request.json();
+
+		if (!data || !Array.isArray(data.tables) || !Array.isArray(data.relationships)) {
+			return NextResponse.json(
+				{ error: "Invalid data format. Expected tables and relationships arrays" },
+				{ status: 400 }
+			);
+		}
+
+		await transaction(async (tx) => {
+			await tx.sql`
+				DELETE FROM "DataModelTable"
+				WHERE "projectId" IS NOT DISTINCT FROM ${projectId};
+			`;
+			await tx.sql`
+				DELETE FROM "DataModelRelationship"
+				WHERE "projectId" IS NOT DISTINCT FROM ${projectId};
+			`;
+
+			for (const item of data.tables) {
+				const id = generateId()
+				await tx.sql`
+					INSERT INTO "DataModelTable" (
+						"id",
+						"name",
+						"entity",
+						"sources",
+						"filePaths",
+						"columns",
+						"projectId"
+					)
+					VALUES (
+						${id},
+						${item.name},
+						${item.entity ?? null},
+						${item.sources ?? []},
+						${item.filePaths ?? []},
+						${JSON.stringify(item.columns ?? [])}::jsonb,
+						${projectId}
+					);
+				`;
+			}
+
+			for (const item of data.relationships) {
+				const id = generateId()
+				await tx.sql`
+					INSERT INTO "DataModelRelationship" (
+						"id",
+						"fromTable",
+						"toTable",
+						"cardinality",
+						"foreignKey",
+						"field",
+						"projectId"
+					)
+					VALUES (
+						${id},
+						${item.from},
+						${item.to},
+						${item.cardinality},
+						${item.foreignKey ?? null},
+						${item.field ?? null},
+						${projectId}
+					);
+				`;
+			}
+
+			if (projectId) {
+				await tx.sql`
+					UPDATE "Project"
+					SET "erDiagram" = ${data.erDiagram ?? null}
+					WHERE id = ${projectId};
+				`;
+			}
+		});
+
+		return NextResponse.json({ success: true }, { status: 200 });
+	} catch (error) {
+		console.error("Error inserting data model:", error);
+		return NextResponse.json(
+			{ error: "Error inserting data model", details: error },
+			{ status: 500 }
+		);
+	}
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@vercel/postgres";
+import { generateId, transaction } from "@/app/api/_utils/db";
+
+/**
+ * Declared dependencies uploaded by context-worker, with the detected tech stack of the project.
+ * Filter by `projectId` and `scope`, like `compile` or `test`.
+ */
+export async function GET(request: Request) {
+	const client = createClient();
+	await client.connect();
+
+	try {
+		const { searchParams } = new URL(request.url);
+		const projectId = searchParams.get('projectId');
+		const scope = searchParams.get('scope');
+
+		const { rows: dependencies } = await client.sql`
+			SELECT id,
+			       module,
+			       "modulePath",
+			       ecosystem,
+			       name,
+			       version,
+			       scope,
+			       target
+			FROM "ProjectDependency"
+			WHERE (${projectId}::text IS NULL OR "projectId" = ${projectId})
+			  AND (${scope}::text IS NULL OR scope = ${scope})
+			ORDER BY "modulePath", name;
+		`;
+
+		const { rows: projects } = projectId
+			? await client.sql`SELECT "techStack" FROM "Project" WHERE id = ${projectId};`
+			: { rows: [] };
+
+		return NextResponse.json({ dependencies, techStack: projects[0]?.techStack ?? null }, { status: 200 });
+	} catch (error) {
+		console.error("Error fetching dependencies:", error);
+		return NextResponse.json(
+			{ error: "Error fetching dependencies", details: error },
+			{ status: 500 }
+		);
+	} finally {
+		await client.end();
+	}
+}
+
+/**
+ * Replace the dependencies of a project, and save the detected frameworks and project metadata as its tech stack
+ */
+export async function POST(request: Request) {
+	try {
+		const { data, projectId } = await request.json();
+
+		if (!data || !Array.isArray(data.modules) || !data.metadata) {
+			return NextResponse.json(
+				{ error: "Invalid data format. Expected modules array and metadata" },
+				{ status: 400 }
+			);
+		}
+
+		await transaction(async (tx) => {
+			await tx.sql`
+				DELETE FROM "ProjectDependency"
+				WHERE "projectId" IS NOT DISTINCT FROM ${projectId};
+			`;
+
+			for (const dependencyModule of data.modules) {
+				for (const item of dependencyModule.dependencies ?? []) {
+					const id = generateId()
+					await tx.sql`
+						INSERT INTO "ProjectDependency" (
+							"id",
+							"module",
+							"modulePath",
+							"ecosystem",
+							"name",
+							"version",
+							"scope",
+							"target",
+							"projectId"
+						)
+						VALUES (
+							${id},
+							${dependencyModule.name},
+							${dependencyModule.path},
+							${item.ecosystem},
+							${item.name},
+							${item.version ?? null},
+							${item.scope},
+							${item.module ?? null},
+							${projectId}
+						);
+					`;
+				}
+			}
+
+			if (projectId) {
+				const techStack = JSON.stringify({
+					...data.metadata,
+					frameworks: data.frameworks ?? [],
+					modules: data.modules.map((dependencyModule: { id: string, name: string, path: string, language: string, frameworks: string[] }) => ({
+						id: dependencyModule.id,
+						name: dependencyModule.name,
+						path: dependencyModule.path,
+						language: dependencyModule.language,
+						frameworks: dependencyModule.frameworks,
+					})),
+					moduleGraph: data.moduleGraph ?? [],
+				});
+
+				await tx.sql`
+					UPDATE "Project"
+					SET "techStack" = ${techStack}::jsonb
+					WHERE id = ${projectId};
+				`;
+			}
+		});
+
+		return NextResponse.json({ success: true }, { status: 200 });
+	} catch (error) {
+		console.error("Error inserting dependencies:", error);
+		return NextResponse.json(
+			{ error: "Error inserting dependencies", details: error },
+			{ status: 500 }
+		);
+	}
+}
@@ -0,0 +1,172 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@vercel/postgres";
+import { generateId, transaction } from "@/app/api/_utils/db";
+
+/**
+ * Code metrics uploaded by context-worker: the functions by descending complexity and the packages by name.
+ * Filter by `projectId`, `limit` the number of functions (100 by default).
+ */
+export async function GET(request: Request) {
+	const client = createClient();
+	await client.connect();
+
+	try {
+		const { searchParams } = new URL(request.url);
+		const projectId = searchParams.get('projectId');
+		const limit = Number(searchParams.get('limit') ?? 100);
+		if (!Number.isInteger(limit) || limit < 1) {
+			return NextResponse.json(
+				{ error: "Invalid limit. Expected a positive integer" },
+				{ status: 400 }
+			);
+		}
+
+		const { rows: functions } = await client.sql`
+			SELECT id,
+			       symbol,
+			       name,
+			       "className",
+			       "filePath",
+			       language,
+			       "cyclomaticComplexity",
+			       "maxNestingDepth",
+			       loc,
+			       sloc,
+			       "parameterCount"
+			FROM "FunctionMetric"
+			WHERE (${projectId}::text IS NULL OR "projectId" = ${projectId})
+			ORDER BY "cyclomaticComplexity" DESC, loc DESC
+			LIMIT ${limit};
+		`;
+
+		const { rows: packages } = await client.sql`
+			SELECT id,
+			       name,
+			       files,
+			       classes,
+			       functions,
+			       loc,
+			       "averageComplexity",
+			       "afferentCoupling",
+			       "efferentCoupling",
+			       instability,
+			       dependencies
+			FROM "PackageMetric"
+			WHERE (${projectId}::text IS NULL OR "projectId" = ${projectId})
+			ORDER BY name;
+		`;
+
+		return NextResponse.json({ functions, packages }, { status: 200 });
+	} catch (error) {
+		console.error("Error fetching code metrics:", error);
+		return NextResponse.json(
+			{ error: "Error fetching code metrics", details: error },
+			{ status: 500 }
+		);
+	} finally {
+		await client.end();
+	}
+}
+
+/**
+ * Replace the code metrics of a project, every upload is a full analysis of the workspace
+ */
+export async function POST(request: Request) {
+	try {
+		const { data, projectId } = await request.json();
+
+		if (!data || !Array.isArray(data.functions) || !Array.isArray(data.packages)) {
+			return NextResponse.json(
+				{ error: "Invalid data format. Expected functions and packages arrays" },
+				{ status: 400 }
+			);
+		}
+
+		await transaction(async (tx) => {
+			await tx.sql`
+				DELETE FROM "FunctionMetric"
+				WHERE "projectId" IS NOT DISTINCT FROM ${projectId};
+			`;
+			await tx.sql`
+				DELETE FROM "PackageMetric"
+				WHERE "projectId" IS NOT DISTINCT FROM ${projectId};
+			`;
+
+			for (const item of data.functions) {
+				const id = generateId()
+				await tx.sql`
+					INSERT INTO "FunctionMetric" (
+						"id",
+						"symbol",
+						"name",
+						"className",
+						"filePath",
+						"language",
+						"cyclomaticComplexity",
+						"maxNestingDepth",
+						"loc",
+						"sloc",
+						"parameterCount",
+						"projectId"
+					)
+					VALUES (
+						${id},
+						${item.id},
+						${item.name},
+						${item.className ?? null},
+						${item.filePath},
+						${item.language},
+						${item.cyclomaticComplexity},
+						${item.maxNestingDepth},
+						${item.loc},
+						${item.sloc},
+						${item.parameterCount},
+						${projectId}
+					);
+				`;
+			}
+
+			for (const item of data.packages) {
+				const id = generateId()
+				await tx.sql`
+					INSERT INTO "PackageMetric" (
+						"id",
+						"name",
+						"files",
+						"classes",
+						"functions",
+						"loc",
+						"averageComplexity",
+						"afferentCoupling",
+						"efferentCoupling",
+						"instability",
+						"dependencies",
+						"projectId"
+					)
+					VALUES (
+						${id},
+						${item.name},
+						${item.files},
+						${item.classes},
+						${item.functions},
+						${item.loc},
+						${item.averageComplexity},
+						${item.afferentCoupling},
+						${item.efferentCoupling},
+						${item.instability},
+						${item.dependencies ?? []},
+						${projectId}
+					);
+				`;
+			}
+		});
+
+		return NextResponse.json({ success: true }, { status: 200 });
+	} catch (error) {
+		console.error("Error inserting code metrics:", error);
+		return NextResponse.json(
+			{ error: "Error inserting code metrics", details: error },
+			{ status: 500 }
+		);
+	}
+}
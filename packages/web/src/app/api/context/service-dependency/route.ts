@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@vercel/postgres";
+import { generateId, transaction } from "@/app/api/_utils/db";
+
+/**
+ * Service dependencies uploaded by context-worker, filter by `projectId`, `consumer` or `provider`
+ */
+export async function GET(request: Request) {
+	const client = createClient();
+	await client.connect();
+
+	try {
+		const { searchParams } = new URL(request.url);
+		const projectId = searchParams.get('projectId');
+		const consumer = searchParams.get('consumer');
+		const provider = searchParams.get('provider');
+
+		const { rows } = await client.sql`
+			SELECT id,
+			       consumer,
+			       provider,
+			       "sourceCaller",
+			       "sourceFile",
+			       "clientType",
+			       "targetUrl",
+			       "targetHttpMethod",
+			       "resourceUrl",
+			       "resourceClass",
+			       "resourceMethod"
+			FROM "ServiceDependency"
+			WHERE (${projectId}::text IS NULL OR "projectId" = ${projectId})
+			  AND (${consumer}::text IS NULL OR consumer = ${consumer})
+			  AND (${provider}::text IS NULL OR provider = ${provider})
+			ORDER BY consumer, provider, "targetUrl";
+		`;
+
+		return NextResponse.json(rows, { status: 200 });
+	} catch (error) {
+		console.error("Error fetching service dependencies:", error);
+		return NextResponse.json(
+			{ error: "Error fetching service dependencies", details: error },
+			{ status: 500 }
+		);
+	} finally {
+		await client.end();
+	}
+}
+
+/**
+ * Replace the service dependencies of a project, every upload is a full analysis of the workspace.
+ * Calls without a matched API resource come without `provider` and `resource`.
+ */
+export async function POST(request: Request) {
+	try {
+		const { data, projectId } = await request.json();
+
+		if (!data || !Array.isArray(data)) {
+			return NextResponse.json(
+				{ error: "Invalid data format. Expected an array of service dependencies" },
+				{ status: 400 }
+			);
+		}
+
+		await transaction(async (tx) => {
+			await tx.sql`
+				DELETE FROM "ServiceDependency"
+				WHERE "projectId" IS NOT DISTINCT FROM ${projectId};
+			`;
+
+			for (const item of data) {
+				const id = generateId()
+				await tx.sql`
+					INSERT INTO "ServiceDependency" (
+						"id",
+						"consumer",
+						"provider",
+						"sourceCaller",
+						"sourceFile",
+						"clientType",
+						"targetUrl",
+						"targetHttpMethod",
+						"resourceUrl",
+						"resourceClass",
+						"resourceMethod",
+						"projectId"
+					)
+					VALUES (
+						${id},
+						${item.consumer},
+						${item.provider ?? null},
+						${item.sourceCaller},
+						${item.sourceFile},
+						${item.clientType ?? null},
+						${item.targetUrl},
+						${item.targetHttpMethod},
+						${item.resource?.sourceUrl ?? null},
+						${item.resource ? `${item.resource.packageName}.${item.resource.className}` : null},
+						${item.resource?.methodName ?? null},
+						${projectId}
+					);
+				`;
+			}
+		});
+
+		return NextResponse.json({ success: true }, { status: 200 });
+	} catch (error) {
+		console.error("Error inserting service dependencies:", error);
+		return NextResponse.json(
+			{ error: "Error inserting service dependencies", details: error },
+			{ status: 500 }
+		);
+	}
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { sql } from '@/app/api/_utils/db';
+import { sql, transaction } from '@/app/api/_utils/db';
 
 export async function GET(request: Request) {
   try {
@@ -145,3 +145,101 @@ export async function POST(request: Request) {
     );
   }
 }
+
+/**
+ * 应用 context-worker 监听模式上传的增量结果：按文件路径删除变更和移除的记录，再写入新增和变更的记录
+ */
+export async function PATCH(request: Request) {
+  try {
+    const { added = [], changed = [], removed = [], projectId } = await request.json();
+
+    if (!Array.isArray(added) || !Array.isArray(changed) || !Array.isArray(removed)) {
+      return NextResponse.json(
+        { error: '无效的数据格式。需要 added、changed 和 removed 数组' },
+        { status: 400 }
+      );
+    }
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: '缺少项目ID' },
+        { status: 400 }
+      );
+    }
+
+    // 删除和插入放在同一个事务里，插入失败时不会只删掉旧数据
+    const results = await transaction(async (tx) => {
+      for (const fileData of [...changed, ...removed]) {
+        if (!fileData.filePath) {
+          continue;
+        }
+
+        await tx.sql`
+          DELETE FROM "SymbolAnalysis"
+          WHERE path = ${fileData.filePath} AND "projectId" = ${projectId}
+        `;
+      }
+
+      const ids: string[] = [];
+      for (const fileData of [...added, ...changed]) {
+        if (!fileData.filePath || !fileData.symbols || !Array.isArray(fileData.symbols)) {
+          continue;
+        }
+
+        const summary = fileData.summary || {};
+        if (Object.keys(summary).length === 0) {
+          continue;
+        }
+
+        const filePath = fileData.filePath;
+        const fileName = filePath.split('/').pop() || '';
+        const summaryResult = await tx.sql`
+          INSERT INTO "SymbolAnalysis" (
+            id, 
+            name,
+            kind,
+            path,
+            detail,
+            "projectId",
+            "createdAt", 
+            "updatedAt"
+          ) VALUES (
+            gen_random_uuid(), 
+            ${fileName},
+            ${0},
+            ${filePath},
+            ${JSON.stringify({
+              summary,
+              totalSymbols: fileData.symbols.length
+            })},
+            ${projectId},
+            NOW(), 
+            NOW()
+          ) RETURNING id
+        `;
+
+        if (summaryResult.rows.length > 0) {
+          ids.push(summaryResult.rows[0].id);
+        }
+      }
+      return ids;
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: '关键代码标识增量更新成功',
+      count: results.length,
+      removed: changed.length + removed.length
+    });
+  } catch (error) {
+    console.error('处理关键代码标识增量更新失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: '处理关键代码标识增量更新失败',
+        error: error instanceof Error ? error.message : '未知错误'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@vercel/postgres";
+import { generateId, transaction } from "@/app/api/_utils/db";
+
+/**
+ * Test cases uploaded by context-worker with the production code they exercise, and the untested public methods.
+ * Filter by `projectId`, pass a workspace relative `file` to get only the test cases to run after editing it.
+ */
+export async function GET(request: Request) {
+	const client = createClient();
+	await client.connect();
+
+	try {
+		const { searchParams } = new URL(request.url);
+		const projectId = searchParams.get('projectId');
+		const file = searchParams.get('file');
+
+		const { rows: testCases } = await client.sql`
+			SELECT id,
+			       "testFile",
+			       name,
+			       suite,
+			       language,
+			       framework,
+			       targets,
+			       "targetFiles"
+			FROM "TestCaseMapping"
+			WHERE (${projectId}::text IS NULL OR "projectId" = ${projectId})
+			  AND (${file}::text IS NULL OR ${file} = ANY("targetFiles"))
+			ORDER BY "testFile", name;
+		`;
+
+		const { rows: untested } = await client.sql`
+			SELECT id,
+			       symbol,
+			       name,
+			       "className",
+			       "filePath"
+			FROM "UntestedMethod"
+			WHERE (${projectId}::text IS NULL OR "projectId" = ${projectId})
+			  AND (${file}::text IS NULL OR "filePath" = ${file})
+			ORDER BY "filePath", symbol;
+		`;
+
+		return NextResponse.json({ testCases, untested }, { status: 200 });
+	} catch (error) {
+		console.error("Error fetching test mapping:", error);
+		return NextResponse.json(
+			{ error: "Error fetching test mapping", details: error },
+			{ status: 500 }
+		);
+	} finally {
+		await client.end();
+	}
+}
+
+/**
+ * Replace the test mapping of a project, every upload is a full analysis of the workspace
+ */
+export async function POST(request: Request) {
+	try {
+		const { data, projectId } = await request.json();
+
+		if (!data || !Array.isArray(data.testCases) || !Array.isArray(data.untested)) {
+			return NextResponse.json(
+				{ error: "Invalid data format. Expected testCases and untested arrays" },
+				{ status: 400 }
+			);
+		}
+
+		await transaction(async (tx) => {
+			await tx.sql`
+				DELETE FROM "TestCaseMapping"
+				WHERE "projectId" IS NOT DISTINCT FROM ${projectId};
+			`;
+			await tx.sql`
+				DELETE FROM "UntestedMethod"
+				WHERE "projectId" IS NOT DISTINCT FROM ${projectId};
+			`;
+
+			for (const item of data.testCases) {
+				const id = generateId()
+				await tx.sql`
+					INSERT INTO "TestCaseMapping" (
+						"id",
+						"testFile",
+						"name",
+						"suite",
+						"language",
+						"framework",
+						"targets",
+						"targetFiles",
+						"projectId"
+					)
+					VALUES (
+						${id},
+						${item.testFile},
+						${item.name},
+						${item.suite ?? null},
+						${item.language},
+						${item.framework},
+						${item.targets ?? []},
+						${item.targetFiles ?? []},
+						${projectId}
+					);
+				`;
+			}
+
+			for (const item of data.untested) {
+				const id = generateId()
+				await tx.sql`
+					INSERT INTO "UntestedMethod" (
+						"id",
+						"symbol",
+						"name",
+						"className",
+						"filePath",
+						"projectId"
+					)
+					VALUES (
+						${id},
+						${item.id},
+						${item.name},
+						${item.className ?? null},
+						${item.filePath},
+						${projectId}
+					);
+				`;
+			}
+		});
+
+		return NextResponse.json({ success: true }, { status: 200 });
+	} catch (error) {
+		console.error("Error inserting test mapping:", error);
+		return NextResponse.json(
+			{ error: "Error inserting test mapping", details: error },
+			{ status: 500 }
+		);
+	}
+}
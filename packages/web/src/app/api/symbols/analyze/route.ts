@@ -13,8 +13,32 @@ interface ConceptDictionaryEntry {
   relatedTerms?: string[];
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function analyzeSymbol(symbolName: string, symbolPath: string, symbolDetail: any): Promise<ConceptDictionaryEntry[]> {
+interface DataModelTable {
+  name: string;
+  entity?: string;
+  columns: Array<{ name: string; type: string; field?: string }>;
+}
+
+function dataModelPrompt(tables: DataModelTable[]): string {
+  if (tables.length === 0) {
+    return '';
+  }
+
+  const lines = tables.map(table => {
+    const columns = table.columns.map(column => `${column.field ?? column.name}(${column.type})`).join(', ');
+    return `- 表 ${table.name}${table.entity ? `（实体 ${table.entity}）` : ''}: ${columns}`;
+  });
+
+  return `\n数据模型:\n${lines.join('\n')}\n`;
+}
+
+async function analyzeSymbol(
+  symbolName: string,
+  symbolPath: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  symbolDetail: any,
+  dataModels: DataModelTable[] = []
+): Promise<ConceptDictionaryEntry[]> {
   const answer = await reply([
     {
       role: "user",
@@ -23,8 +47,8 @@ async function analyzeSymbol(symbolName: string, symbolPath: string, symbolDetai
 符号名称: ${symbolName}
 文件路径: ${symbolPath}
 符号详情: ${JSON.stringify(symbolDetail)}
-
-请根据代码中的注释、函数名、类名等信息，提取最关键的概念/术语，并做初步的转换，请尽可能合并相似的概念。并按照以下格式返回（JSON格式）：
+${dataModelPrompt(dataModels)}
+请根据代码中的注释、函数名、类名以及数据模型中的表和字段等信息，提取最关键的概念/术语，并做初步的转换，请尽可能合并相似的概念。并按照以下格式返回（JSON格式）：
 
 [{
   "termChinese": "中文术语名称 // 必须使用中文", 
@@ -86,11 +110,18 @@ export async function POST(request: Request) {
 
     const symbolData = symbolResult.rows[0];
 
+    // 符号所在文件中的实体对应的数据表，让概念来自真实的数据模型
+    const dataModelResult = await pool.sql`
+      SELECT name, entity, columns FROM "DataModelTable"
+      WHERE "projectId" = ${projectId} AND ${symbolData.path} = ANY("filePaths")
+    `;
+
     // 分析符号并生成概念
     const conceptEntries = await analyzeSymbol(
       symbolData.name,
       symbolData.path,
-      symbolData.detail
+      symbolData.detail,
+      dataModelResult.rows as DataModelTable[]
     );
 
     // 存储生成的概念ID
@@ -0,0 +1,175 @@
+"use client"
+
+import React, { useEffect, useState } from 'react'
+import { Activity, Boxes, Code2, GitBranch } from 'lucide-react'
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Skeleton } from '@/components/ui/skeleton'
+
+interface FunctionMetric {
+  id: string
+  symbol: string
+  name: string
+  className?: string
+  filePath: string
+  language: string
+  cyclomaticComplexity: number
+  maxNestingDepth: number
+  loc: number
+  sloc: number
+  parameterCount: number
+}
+
+interface PackageMetric {
+  id: string
+  name: string
+  files: number
+  classes: number
+  functions: number
+  loc: number
+  averageComplexity: number
+  afferentCoupling: number
+  efferentCoupling: number
+  instability: number
+  dependencies: string[]
+}
+
+// 圈复杂度超过 10 的函数需要关注
+const COMPLEXITY_THRESHOLD = 10
+
+export default function CodeMetrics() {
+  const [functions, setFunctions] = useState<FunctionMetric[]>([])
+  const [packages, setPackages] = useState<PackageMetric[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchMetrics = async () => {
+      try {
+        // `/metrics/code?projectId=...` shows one project
+        const projectId = new URLSearchParams(window.location.search).get('projectId')
+        const query = projectId ? `?projectId=${projectId}` : ''
+        const response = await fetch(`/api/context/metrics${query}`)
+        if (response.ok) {
+          const data = await response.json()
+          setFunctions(data.functions)
+          setPackages(data.packages)
+        }
+      } catch (error) {
+        console.error('Error fetching code metrics:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchMetrics()
+  }, [])
+
+  if (loading) {
+    return <Skeleton className="h-64 w-full" />
+  }
+
+  if (functions.length === 0 && packages.length === 0) {
+    return (
+      <div className="p-6 text-center text-slate-600">
+        暂无代码度量数据，请使用 context-worker 的 <code>--upload</code> 选项上传分析结果
+      </div>
+    )
+  }
+
+  const totalLoc = packages.reduce((sum, pkg) => sum + pkg.loc, 0)
+  const complexFunctions = functions.filter(func => func.cyclomaticComplexity > COMPLEXITY_THRESHOLD).length
+
+  return (
+    <div className="p-6 space-y-8">
+      <div>
+        <h3 className="text-2xl font-bold mb-2 text-blue-800">代码度量</h3>
+        <p className="text-slate-600">函数的圈复杂度、嵌套深度与规模，以及包之间的耦合与不稳定度</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="card border-blue-500 p-4">
+          <Boxes className="h-5 w-5 text-blue-600 mb-2" />
+          <div className="text-2xl font-semibold">{packages.length}</div>
+          <div className="text-sm text-slate-600">包</div>
+        </div>
+        <div className="card border-green-500 p-4">
+          <Code2 className="h-5 w-5 text-green-600 mb-2" />
+          <div className="text-2xl font-semibold">{totalLoc}</div>
+          <div className="text-sm text-slate-600">函数代码行数</div>
+        </div>
+        <div className="card border-amber-500 p-4">
+          <Activity className="h-5 w-5 text-amber-600 mb-2" />
+          <div className="text-2xl font-semibold">{complexFunctions}</div>
+          <div className="text-sm text-slate-600">圈复杂度超过 {COMPLEXITY_THRESHOLD} 的函数</div>
+        </div>
+        <div className="card border-purple-500 p-4">
+          <GitBranch className="h-5 w-5 text-purple-600 mb-2" />
+          <div className="text-2xl font-semibold">
+            {packages.reduce((sum, pkg) => sum + pkg.efferentCoupling, 0)}
+          </div>
+          <div className="text-sm text-slate-600">包间依赖</div>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-xl font-semibold mb-3">复杂度最高的函数</h4>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>函数</TableHead>
+              <TableHead>文件</TableHead>
+              <TableHead className="text-right">圈复杂度</TableHead>
+              <TableHead className="text-right">嵌套深度</TableHead>
+              <TableHead className="text-right">行数</TableHead>
+              <TableHead className="text-right">参数</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {functions.map(func => (
+              <TableRow key={func.id}>
+                <TableCell className="font-mono">{func.className ? `${func.className}.${func.name}` : func.name}</TableCell>
+                <TableCell className="text-slate-500">{func.filePath}</TableCell>
+                <TableCell className={`text-right ${func.cyclomaticComplexity > COMPLEXITY_THRESHOLD ? 'text-red-600 font-semibold' : ''}`}>
+                  {func.cyclomaticComplexity}
+                </TableCell>
+                <TableCell className="text-right">{func.maxNestingDepth}</TableCell>
+                <TableCell className="text-right">{func.sloc} / {func.loc}</TableCell>
+                <TableCell className="text-right">{func.parameterCount}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div>
+        <h4 className="text-xl font-semibold mb-3">包耦合</h4>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>包</TableHead>
+              <TableHead className="text-right">文件</TableHead>
+              <TableHead className="text-right">平均复杂度</TableHead>
+              <TableHead className="text-right">传入耦合 Ca</TableHead>
+              <TableHead className="text-right">传出耦合 Ce</TableHead>
+              <TableHead className="text-right">不稳定度</TableHead>
+              <TableHead>依赖</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {packages.map(pkg => (
+              <TableRow key={pkg.id}>
+                <TableCell className="font-mono">{pkg.name}</TableCell>
+                <TableCell className="text-right">{pkg.files}</TableCell>
+                <TableCell className="text-right">{pkg.averageComplexity}</TableCell>
+                <TableCell className="text-right">{pkg.afferentCoupling}</TableCell>
+                <TableCell className="text-right">{pkg.efferentCoupling}</TableCell>
+                <TableCell className="text-right">{pkg.instability}</TableCell>
+                <TableCell className="text-slate-500">{pkg.dependencies.join(', ')}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { BookOpen, ClipboardList, Code, Database, ExternalLink, GitBranch, Github, GitPullRequest } from "lucide-react"
+import { BookOpen, ClipboardList, Code, Database, ExternalLink, GitBranch, Github, GitPullRequest, Layers } from "lucide-react"
 import { Project } from "@/types/project.type"
 import Image from "next/image"
 
@@ -116,6 +116,35 @@ export function ProjectInfo({ project, symbols }: { project: Project, symbols: a
           )}
         </div>
 
+        {project.techStack && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-500">技术栈</h3>
+            <div className="flex items-center">
+              <Layers className="h-4 w-4 mr-2 text-gray-500"/>
+              <span className="text-sm">
+                {project.techStack.projectConfig.language || "未知语言"}
+                {project.techStack.projectConfig.framework && ` · ${project.techStack.projectConfig.framework}`}
+                {` · ${project.techStack.projectConfig.type}`}
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {project.techStack.frameworks.map((framework) => (
+                <span key={framework} className="text-xs bg-blue-50 text-blue-700 px-1.5 py-0.5 rounded">
+                  {framework}
+                </span>
+              ))}
+              {project.techStack.features.map((feature) => (
+                <span key={feature} className="text-xs bg-gray-100 text-gray-700 px-1.5 py-0.5 rounded">
+                  {feature}
+                </span>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              {project.techStack.modules.length} 个模块，{Object.keys(project.techStack.dependencies).length} 个外部依赖
+            </p>
+          </div>
+        )}
+
         <div className="space-y-2">
           <h3 className="text-sm font-medium text-gray-500">资源统计</h3>
           <div className="grid grid-cols-2 gap-2">
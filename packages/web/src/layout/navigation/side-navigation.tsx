@@ -58,6 +58,7 @@ const navigationItems = [
     icon: BarChart3,
     items: [
       { name: '洞察分析', href: '/metrics/insights' },
+      { name: '代码度量', href: '/metrics/code' },
     ],
   },
   {
@@ -10,6 +10,7 @@ export interface Project {
 	updatedAt: string
 	isDefault: boolean
 	isPublic: boolean
+	techStack: TechStack | null
 	guidelines: Array<{
 		id: number
 		title: string
@@ -52,6 +53,29 @@ export interface Project {
 	} | null
 }
 
+/**
+ * Tech stack detected by context-worker from the dependency manifests, in the shape of a golden path project
+ */
+export interface TechStack {
+	projectConfig: {
+		name: string
+		description: string
+		type: string
+		language: string
+		framework: string
+	}
+	features: string[]
+	frameworks: string[]
+	dependencies: Record<string, string>
+	modules: Array<{
+		id: string
+		name: string
+		path: string
+		language: string
+		frameworks: string[]
+	}>
+}
+
 export type SymbolAnalysis = {
 	id: string
 	name: string
@@ -1,3 +1,5 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import * as protobuf from 'protobufjs';
 import {
 	CodeDataStruct,
@@ -5,8 +7,67 @@ import {
 	CodeField,
 	CodeFunction,
 } from '@autodev/worker-core';
+import { ProtoFieldReferences, ProtoHttpRule, ProtoRpcMethod, ProtoStreamingKind } from './ProtoServiceCatalog';
+
+export { DataStructType };
+
+const HTTP_VERBS = ['get', 'put', 'post', 'delete', 'patch'];
+
+/**
+ * 返回对象所在的文件路径，undefined 表示不输出该对象
+ */
+type FileResolver = (obj: protobuf.ReflectionObject) => string | undefined;
 
 export class ProtoAnalyser {
+	private readonly missingImports = new Set<string>();
+
+	/**
+	 * 一起加载多个 .proto 文件，按 protoc 的规则在 include 路径中解析 import，使跨文件引用的消息可以解析。
+	 * 找不到的 import（如未随仓库提供的 google/api/annotations.proto）会被跳过，引用它的字段保留原始类型名。
+	 *
+	 * @param filePaths proto 文件路径
+	 * @param includePaths import 的查找目录，相当于 protoc 的 -I
+	 * @returns 每个文件路径对应的 CodeDataStruct 数组，只包含 filePaths 中文件定义的结构
+	 */
+	public analyseFromFiles(filePaths: string[], includePaths: string[] = []): Map<string, CodeDataStruct[]> {
+		const root = new protobuf.Root();
+		root.resolvePath = (origin, target) => this.resolveImport(origin, target, includePaths);
+
+		const results = new Map<string, CodeDataStruct[]>();
+		const files = new Map<string, string>();
+		for (const filePath of filePaths) {
+			results.set(filePath, []);
+			files.set(path.resolve(filePath), filePath);
+		}
+
+		const failed: string[] = [];
+		for (const filePath of filePaths) {
+			try {
+				root.loadSync(path.resolve(filePath), { keepCase: true });
+			} catch (e) {
+				console.error(`无法加载 proto 文件 ${filePath}，将单独解析:`, e);
+				failed.push(filePath);
+			}
+		}
+
+		this.resolveTypes(root);
+		const dataStructs: CodeDataStruct[] = [];
+		this.processNestedObjects(root.nested ?? {}, dataStructs, obj => {
+			const filePath = obj.filename ? files.get(path.resolve(obj.filename)) : undefined;
+			return filePath && !failed.includes(filePath) ? filePath : undefined;
+		});
+
+		for (const dataStruct of dataStructs) {
+			results.get(dataStruct.FilePath)!.push(dataStruct);
+		}
+
+		for (const filePath of failed) {
+			results.set(filePath, this.analyseFromContent(fs.readFileSync(filePath, 'utf-8'), filePath));
+		}
+
+		return results;
+	}
+
 	/**
 	 * 将 .proto 文件内容转换为 CodeDataStruct 数组
 	 *
@@ -24,92 +85,150 @@ export class ProtoAnalyser {
 		let root: protobuf.Root;
 
 		try {
-			root = protobuf.parse(protoContent).root;
+			root = protobuf.parse(protoContent, { keepCase: true }).root;
 		} catch (e) {
 			console.error("Failed to parse proto content:", e);
 			return [];
 		}
 
-		// 获取包名
-		const packageMatch = /^package\s+([\w.]+)\s*;/m.exec(protoContent);
-		const packageName = packageMatch ? packageMatch[1] : '';
+		this.resolveTypes(root);
 
 		// 处理根级嵌套对象
 		if (root.nested) {
-			this.processNestedObjects(
-				root.nested,
-				dataStructs,
-				packageName,
-				filePath,
-				''
-			);
+			this.processNestedObjects(root.nested, dataStructs, () => filePath);
 		}
 
 		return dataStructs;
 	}
 
+	/**
+	 * import 先在 include 路径中查找，再相对于导入它的文件查找
+	 */
+	private resolveImport(origin: string, target: string, includePaths: string[]): string | null {
+		if (!origin) {
+			return path.resolve(target);
+		}
+
+		const candidates = [
+			...includePaths.map(dir => path.resolve(dir, target)),
+			path.resolve(path.dirname(origin), target),
+		];
+		const found = candidates.find(candidate => fs.existsSync(candidate));
+		if (!found && !this.missingImports.has(target)) {
+			this.missingImports.add(target);
+			console.warn(`找不到 import 的文件 ${target}（来自 ${origin}），已跳过`);
+		}
+
+		return found ?? null;
+	}
+
+	/**
+	 * 逐个解析字段和方法的类型引用，引用了缺失文件中的类型时不影响其他类型
+	 */
+	private resolveTypes(namespace: protobuf.NamespaceBase): void {
+		for (const obj of namespace.nestedArray) {
+			if (obj instanceof protobuf.Type) {
+				for (const field of obj.fieldsArray) {
+					this.tryResolve(field);
+				}
+			} else if (obj instanceof protobuf.Service) {
+				for (const method of obj.methodsArray) {
+					this.tryResolve(method);
+				}
+			}
+
+			if (obj instanceof protobuf.Namespace) {
+				this.resolveTypes(obj);
+			}
+		}
+	}
+
+	private tryResolve(obj: protobuf.Field | protobuf.Method): void {
+		try {
+			obj.resolve();
+		} catch (e) {
+			// 引用的类型不在已加载的文件中，保留原始类型名
+		}
+	}
+
 	/**
 	 * 处理嵌套对象（消息、枚举、服务等）
 	 */
 	private processNestedObjects(
 		nested: { [k: string]: protobuf.ReflectionObject },
 		dataStructs: CodeDataStruct[],
-		packageName: string,
-		filePath: string,
-		parentModule: string
+		fileOf: FileResolver
 	): void {
-		for (const [key, obj] of Object.entries(nested)) {
-			const currentModule = parentModule ? `${parentModule}.${key}` : key;
+		for (const obj of Object.values(nested)) {
+			const filePath = fileOf(obj);
 
 			if (obj instanceof protobuf.Type) {
 				// 处理消息
-				const messageStruct = this.processMessageType(obj, packageName, filePath, currentModule);
-				dataStructs.push(messageStruct);
+				if (filePath) {
+					dataStructs.push(this.processMessageType(obj, filePath));
+				}
 
 				// 检查消息内部是否有嵌套结构
 				if (obj.nested) {
-					this.processNestedObjects(
-						obj.nested,
-						dataStructs,
-						packageName,
-						filePath,
-						currentModule
-					);
+					this.processNestedObjects(obj.nested, dataStructs, fileOf);
 				}
 			} else if (obj instanceof protobuf.Enum) {
 				// 处理枚举
-				dataStructs.push(this.processEnumType(obj, packageName, filePath, currentModule));
+				if (filePath) {
+					dataStructs.push(this.processEnumType(obj, filePath));
+				}
 			} else if (obj instanceof protobuf.Service) {
 				// 处理服务
-				dataStructs.push(this.processServiceType(obj, packageName, filePath, currentModule));
+				if (filePath) {
+					dataStructs.push(this.processServiceType(obj, filePath));
+				}
 			} else if (obj instanceof protobuf.Namespace) {
 				// 处理命名空间
 				if (obj.nested) {
-					this.processNestedObjects(
-						obj.nested,
-						dataStructs,
-						packageName,
-						filePath,
-						currentModule
-					);
+					this.processNestedObjects(obj.nested, dataStructs, fileOf);
 				}
 			}
 		}
 	}
 
+	/**
+	 * 对象所在的包，即最近的非消息、非服务命名空间的全名
+	 */
+	private packageOf(obj: protobuf.ReflectionObject): string {
+		let parent = obj.parent;
+		while (parent instanceof protobuf.Type || parent instanceof protobuf.Service) {
+			parent = parent.parent;
+		}
+
+		return parent ? this.fullNameOf(parent) : '';
+	}
+
+	/**
+	 * 包内的路径，嵌套消息为 `User.Address`
+	 */
+	private moduleOf(obj: protobuf.ReflectionObject, packageName: string): string {
+		const fullName = this.fullNameOf(obj);
+		return packageName ? fullName.substring(packageName.length + 1) : fullName;
+	}
+
+	private fullNameOf(obj: protobuf.ReflectionObject): string {
+		return obj.fullName.replace(/^\./, '');
+	}
+
 	/**
 	 * 处理消息类型
 	 */
-	private processMessageType(
-		type: protobuf.Type,
-		packageName: string,
-		filePath: string,
-		module: string
-	): CodeDataStruct {
+	private processMessageType(type: protobuf.Type, filePath: string): CodeDataStruct {
+		const packageName = this.packageOf(type);
 		const fields: CodeField[] = [];
+		const references: ProtoFieldReferences = {};
 
 		// 处理字段
 		for (const [fieldName, field] of Object.entries(type.fields)) {
+			if (field.resolvedType) {
+				references[fieldName] = this.fullNameOf(field.resolvedType);
+			}
+
 			fields.push({
 				Name: fieldName,
 				Type: this.getFieldType(field),
@@ -122,7 +241,7 @@ export class ProtoAnalyser {
 
 		return {
 			NodeName: type.name,
-			Module: module,
+			Module: this.moduleOf(type, packageName),
 			Type: DataStructType.Message,
 			Package: packageName,
 			FilePath: filePath,
@@ -137,7 +256,7 @@ export class ProtoAnalyser {
 			Parameters: [],
 			Imports: [],
 			Exports: [],
-			Extension: {} as Record<string, unknown>,
+			Extension: { fullName: this.fullNameOf(type), references },
 			Position: { StartLine: 0, EndLine: 0, StartColumn: 0, EndColumn: 0 },
 			Content: type.toJSON().fields ? JSON.stringify(type.toJSON().fields, null, 2) : '',
 		};
@@ -146,12 +265,8 @@ export class ProtoAnalyser {
 	/**
 	 * 处理枚举类型
 	 */
-	private processEnumType(
-		enumObj: protobuf.Enum,
-		packageName: string,
-		filePath: string,
-		module: string
-	): CodeDataStruct {
+	private processEnumType(enumObj: protobuf.Enum, filePath: string): CodeDataStruct {
+		const packageName = this.packageOf(enumObj);
 		const fields: CodeField[] = [];
 
 		// 处理枚举值
@@ -168,7 +283,7 @@ export class ProtoAnalyser {
 
 		return {
 			NodeName: enumObj.name,
-			Module: module,
+			Module: this.moduleOf(enumObj, packageName),
 			Type: DataStructType.Enum,
 			Package: packageName,
 			FilePath: filePath,
@@ -183,7 +298,7 @@ export class ProtoAnalyser {
 			Parameters: [],
 			Imports: [],
 			Exports: [],
-			Extension: {} as Record<string, unknown>,
+			Extension: { fullName: this.fullNameOf(enumObj) },
 			Position: { StartLine: 0, EndLine: 0, StartColumn: 0, EndColumn: 0 },
 			Content: JSON.stringify(enumObj.values, null, 2),
 		};
@@ -192,16 +307,20 @@ export class ProtoAnalyser {
 	/**
 	 * 处理服务类型
 	 */
-	private processServiceType(
-		service: protobuf.Service,
-		packageName: string,
-		filePath: string,
-		module: string
-	): CodeDataStruct {
+	private processServiceType(service: protobuf.Service, filePath: string): CodeDataStruct {
+		const packageName = this.packageOf(service);
 		const functions: CodeFunction[] = [];
+		const rpcs: Record<string, ProtoRpcMethod> = {};
 
 		// 处理服务方法
 		for (const [methodName, method] of Object.entries(service.methods)) {
+			rpcs[methodName] = {
+				streaming: this.streamingOf(method),
+				requestType: method.resolvedRequestType ? this.fullNameOf(method.resolvedRequestType) : method.requestType,
+				responseType: method.resolvedResponseType ? this.fullNameOf(method.resolvedResponseType) : method.responseType,
+				httpRules: this.httpRulesOf(method),
+			};
+
 			functions.push({
 				Name: methodName,
 				ReturnType: method.responseType,
@@ -219,7 +338,7 @@ export class ProtoAnalyser {
 
 		return {
 			NodeName: service.name,
-			Module: module,
+			Module: this.moduleOf(service, packageName),
 			Type: DataStructType.Interface,
 			Package: packageName,
 			FilePath: filePath,
@@ -234,20 +353,72 @@ export class ProtoAnalyser {
 			Parameters: [],
 			Imports: [],
 			Exports: [],
-			Extension: {} as Record<string, unknown>,
+			Extension: { fullName: this.fullNameOf(service), rpcs },
 			Position: { StartLine: 0, EndLine: 0, StartColumn: 0, EndColumn: 0 },
 			Content: JSON.stringify(service.methods, null, 2),
 		};
 	}
 
+	private streamingOf(method: protobuf.Method): ProtoStreamingKind {
+		if (method.requestStream && method.responseStream) {
+			return 'bidi';
+		}
+
+		if (method.requestStream) {
+			return 'client';
+		}
+
+		return method.responseStream ? 'server' : 'unary';
+	}
+
+	/**
+	 * 读取方法上的 `option (google.api.http)`，包括 additional_bindings
+	 */
+	private httpRulesOf(method: protobuf.Method): ProtoHttpRule[] {
+		const options = (method.parsedOptions ?? []) as Record<string, unknown>[];
+		return options
+			.filter(option => option['(google.api.http)'])
+			.flatMap(option => this.toHttpRules(option['(google.api.http)']));
+	}
+
+	private toHttpRules(rule: any): ProtoHttpRule[] {
+		if (!rule || typeof rule !== 'object') {
+			return [];
+		}
+
+		const rules: ProtoHttpRule[] = [];
+		const body = typeof rule.body === 'string' ? { body: rule.body } : {};
+		const verb = HTTP_VERBS.find(it => typeof rule[it] === 'string');
+		if (verb) {
+			rules.push({ method: verb.toUpperCase(), path: rule[verb], ...body });
+		} else if (rule.custom?.path) {
+			rules.push({ method: String(rule.custom.kind).toUpperCase(), path: rule.custom.path, ...body });
+		}
+
+		const bindings = rule.additional_bindings ?? [];
+		for (const binding of Array.isArray(bindings) ? bindings : [bindings]) {
+			rules.push(...this.toHttpRules(binding));
+		}
+
+		return rules;
+	}
+
 	/**
 	 * 获取字段类型
 	 */
 	private getFieldType(field: protobuf.Field): string {
+		if (field instanceof protobuf.MapField) {
+			return `Record<${this.mapScalarType(field.keyType)}, ${field.resolvedType?.name ?? this.mapScalarType(field.type)}>`;
+		}
+
 		if (field.resolvedType) {
 			return field.resolvedType.name;
 		}
 
+		return this.mapScalarType(field.type);
+	}
+
+	private mapScalarType(type: string): string {
 		// 映射 protobuf 类型到对应的 TypeScript 类型
 		const typeMapping: { [key: string]: string } = {
 			'double': 'number',
@@ -267,6 +438,6 @@ export class ProtoAnalyser {
 			'bytes': 'Uint8Array',
 		};
 
-		return typeMapping[field.type] || field.type;
+		return typeMapping[type] || type;
 	}
 }
@@ -1,4 +1,5 @@
 import { CodeDataStruct, ApiResource, CodeFunction } from '@autodev/worker-core';
+import { ProtoRpcMethod } from './ProtoServiceCatalog';
 
 export class ProtoApiResourceGenerator {
 	/**
@@ -12,7 +13,7 @@ export class ProtoApiResourceGenerator {
 		for (const dataStruct of dataStructs) {
 			if (dataStruct.Type === 'Interface') {
 				for (const func of dataStruct.Functions) {
-					apiResources.push(this.convertFunctionToApiResource(dataStruct, func));
+					apiResources.push(...this.convertFunctionToApiResources(dataStruct, func));
 				}
 			}
 		}
@@ -21,34 +22,49 @@ export class ProtoApiResourceGenerator {
 	}
 
 	/**
-	 * 将单个函数转换为 ApiResource
+	 * 将单个函数转换为 ApiResource，有 `google.api.http` 注解时每个 REST 映射生成一个，否则生成一个 rpc 地址
 	 * @param dataStruct 数据结构
 	 * @param func 函数信息
-	 * @returns ApiResource
+	 * @returns ApiResource 数组
 	 */
-	private convertFunctionToApiResource(
+	private convertFunctionToApiResources(
 		dataStruct: CodeDataStruct,
 		func: CodeFunction
-	): ApiResource {
-		return {
+	): ApiResource[] {
+		const rpc = (dataStruct.Extension?.rpcs as Record<string, ProtoRpcMethod> | undefined)?.[func.Name];
+		const resource = {
 			id: `${dataStruct.Package}.${dataStruct.NodeName}.${func.Name}`,
-			sourceUrl: `rpc/${dataStruct.Package}/${dataStruct.NodeName}/${func.Name}`.replace(/\./g, '/'),
-			sourceHttpMethod: this.determineHttpMethod(func),
 			packageName: dataStruct.Package,
 			className: dataStruct.NodeName,
 			methodName: func.Name,
 			supplyType: 'PROTO_RPC_API'
 		};
+
+		if (rpc && rpc.httpRules.length > 0) {
+			return rpc.httpRules.map(rule => ({
+				...resource,
+				sourceUrl: rule.path,
+				sourceHttpMethod: rule.method,
+			}));
+		}
+
+		return [{
+			...resource,
+			sourceUrl: `rpc/${dataStruct.Package}/${dataStruct.NodeName}/${func.Name}`.replace(/\./g, '/'),
+			sourceHttpMethod: this.determineHttpMethod(func, rpc),
+		}];
 	}
 
 	/**
-	 * 根据函数特性确定 HTTP 方法
+	 * 没有 REST 映射时，流式方法按流式类型标记，普通方法根据方法名推断
 	 * @param func 函数信息
+	 * @param rpc ProtoAnalyser 记录的 rpc 信息
 	 * @returns HTTP 方法字符串
 	 */
-	private determineHttpMethod(func: CodeFunction): string {
-		if (func.IsAsync) {
-			return 'WS';
+	private determineHttpMethod(func: CodeFunction, rpc?: ProtoRpcMethod): string {
+		const streaming = rpc?.streaming ?? (func.IsAsync ? 'bidi' : 'unary');
+		if (streaming !== 'unary') {
+			return `RPC/${streaming.toUpperCase()}_STREAM`;
 		}
 
 		const lowerName = func.Name.toLowerCase();
@@ -0,0 +1,154 @@
+import { CodeDataStruct, DataStructType } from '@autodev/worker-core';
+
+/**
+ * gRPC 方法的流式类型：unary 为普通调用，client/server 为单向流，bidi 为双向流
+ */
+export type ProtoStreamingKind = 'unary' | 'client' | 'server' | 'bidi';
+
+/**
+ * `google.api.http` 注解声明的 REST 映射
+ */
+export interface ProtoHttpRule {
+	/** GET、POST、PUT、PATCH、DELETE，或 custom 规则的 kind */
+	method: string;
+	path: string;
+	/** 请求体对应的字段，`*` 表示整个请求消息 */
+	body?: string;
+}
+
+/**
+ * 服务方法的 rpc 信息，保存在服务 CodeDataStruct 的 `Extension.rpcs` 中
+ */
+export interface ProtoRpcMethod {
+	streaming: ProtoStreamingKind;
+	/** 请求消息的全名，如 `example.GetUserRequest` */
+	requestType: string;
+	/** 响应消息的全名 */
+	responseType: string;
+	httpRules: ProtoHttpRule[];
+}
+
+/**
+ * 消息字段引用的消息或枚举全名，保存在消息 CodeDataStruct 的 `Extension.references` 中
+ */
+export type ProtoFieldReferences = Record<string, string>;
+
+export interface ProtoFieldSchema {
+	name: string;
+	type: string;
+	repeated: boolean;
+	/** 引用的消息或枚举全名，可在 catalog 的 messages/enums 中查到 */
+	ref?: string;
+}
+
+export interface ProtoMessageSchema {
+	name: string;
+	filePath: string;
+	fields: ProtoFieldSchema[];
+}
+
+export interface ProtoServiceMethod {
+	name: string;
+	streaming: ProtoStreamingKind;
+	request: string;
+	response: string;
+	httpRules: ProtoHttpRule[];
+}
+
+export interface ProtoService {
+	name: string;
+	package: string;
+	filePath: string;
+	methods: ProtoServiceMethod[];
+}
+
+/**
+ * gRPC 服务目录：每个 rpc 的流式类型、REST 映射和请求/响应消息，消息按全名收录在 messages 中
+ */
+export interface ProtoServiceCatalog {
+	services: ProtoService[];
+	messages: Record<string, ProtoMessageSchema>;
+	enums: Record<string, string[]>;
+}
+
+export class ProtoServiceCatalogBuilder {
+	/**
+	 * 由 ProtoAnalyser 的分析结果构建服务目录，只收录 rpc 请求/响应直接或间接引用到的消息和枚举
+	 */
+	public build(dataStructs: CodeDataStruct[]): ProtoServiceCatalog {
+		const byName = new Map<string, CodeDataStruct>();
+		for (const dataStruct of dataStructs) {
+			byName.set(this.fullNameOf(dataStruct), dataStruct);
+		}
+
+		const catalog: ProtoServiceCatalog = { services: [], messages: {}, enums: {} };
+		for (const dataStruct of dataStructs) {
+			if (dataStruct.Type !== DataStructType.Interface) {
+				continue;
+			}
+
+			const rpcs = (dataStruct.Extension?.rpcs ?? {}) as Record<string, ProtoRpcMethod>;
+			const methods = dataStruct.Functions.map(func => {
+				const rpc = rpcs[func.Name];
+				return {
+					name: func.Name,
+					streaming: rpc?.streaming ?? (func.IsAsync ? 'bidi' : 'unary'),
+					request: rpc?.requestType ?? func.Parameters[0]?.Type ?? '',
+					response: rpc?.responseType ?? func.ReturnType,
+					httpRules: rpc?.httpRules ?? [],
+				};
+			});
+
+			for (const method of methods) {
+				this.collectSchema(method.request, byName, catalog);
+				this.collectSchema(method.response, byName, catalog);
+			}
+
+			catalog.services.push({
+				name: this.fullNameOf(dataStruct),
+				package: dataStruct.Package,
+				filePath: dataStruct.FilePath,
+				methods,
+			});
+		}
+
+		return catalog;
+	}
+
+	private collectSchema(typeName: string, byName: Map<string, CodeDataStruct>, catalog: ProtoServiceCatalog): void {
+		const dataStruct = byName.get(typeName);
+		if (!dataStruct || catalog.messages[typeName] || catalog.enums[typeName]) {
+			return;
+		}
+
+		if (dataStruct.Type === DataStructType.Enum) {
+			catalog.enums[typeName] = dataStruct.Fields.map(field => field.Name);
+			return;
+		}
+
+		const references = (dataStruct.Extension?.references ?? {}) as ProtoFieldReferences;
+		catalog.messages[typeName] = {
+			name: typeName,
+			filePath: dataStruct.FilePath,
+			fields: dataStruct.Fields.map(field => ({
+				name: field.Name,
+				type: field.Type,
+				repeated: field.IsArray,
+				...(references[field.Name] ? { ref: references[field.Name] } : {}),
+			})),
+		};
+
+		for (const ref of Object.values(references)) {
+			this.collectSchema(ref, byName, catalog);
+		}
+	}
+
+	private fullNameOf(dataStruct: CodeDataStruct): string {
+		const fullName = dataStruct.Extension?.fullName;
+		if (typeof fullName === 'string') {
+			return fullName;
+		}
+
+		return dataStruct.Package ? `${dataStruct.Package}.${dataStruct.Module}` : dataStruct.Module;
+	}
+}
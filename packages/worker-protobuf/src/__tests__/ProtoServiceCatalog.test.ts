@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProtoAnalyser } from '../ProtoAnalyser';
+import { ProtoApiResourceGenerator } from '../ProtoApiResourceGenerator';
+import { ProtoServiceCatalogBuilder } from '../ProtoServiceCatalog';
+import { analyseProtos } from '../main';
+
+describe('ProtoServiceCatalog', () => {
+  let workspace: string;
+
+  const files: Record<string, string> = {
+    'protos/shop/order.proto': `syntax = "proto3";
+
+package shop.order;
+
+import "google/api/annotations.proto";
+import "shop/common/money.proto";
+
+message Order {
+  string id = 1;
+  repeated Item items = 2;
+  shop.common.Money total = 3;
+
+  message Item {
+    string sku = 1;
+    int32 quantity = 2;
+  }
+}
+
+message GetOrderRequest {
+  string id = 1;
+}
+
+service OrderService {
+  rpc GetOrder(GetOrderRequest) returns (Order) {
+    option (google.api.http) = {
+      get: "/v1/orders/{id}"
+      additional_bindings {
+        post: "/v1/orders:get"
+        body: "*"
+      }
+    };
+  }
+  rpc WatchOrders(GetOrderRequest) returns (stream Order);
+  rpc UploadOrders(stream Order) returns (GetOrderRequest);
+  rpc SyncOrders(stream Order) returns (stream Order);
+}`,
+    'third_party/shop/common/money.proto': `syntax = "proto3";
+
+package shop.common;
+
+message Money {
+  string currency_code = 1;
+  int64 units = 2;
+}`,
+  };
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'proto-catalog-'));
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = path.join(workspace, name);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  const orderProto = () => path.join(workspace, 'protos/shop/order.proto');
+  const includePaths = () => [path.join(workspace, 'protos'), path.join(workspace, 'third_party')];
+
+  test('should resolve imports from the include paths', () => {
+    const results = new ProtoAnalyser().analyseFromFiles([orderProto()], includePaths());
+    const dataStructs = results.get(orderProto())!;
+
+    expect(dataStructs.map(it => `${it.Package}:${it.Module}`)).toEqual([
+      'shop.order:Order',
+      'shop.order:Order.Item',
+      'shop.order:GetOrderRequest',
+      'shop.order:OrderService',
+    ]);
+
+    const order = dataStructs.find(it => it.NodeName === 'Order')!;
+    expect(order.Fields.find(it => it.Name === 'total')?.Type).toBe('Money');
+    expect(order.Extension.references).toEqual({
+      items: 'shop.order.Order.Item',
+      total: 'shop.common.Money',
+    });
+  });
+
+  test('should record streaming kinds and http rules of the rpcs', () => {
+    const results = new ProtoAnalyser().analyseFromFiles([orderProto()], includePaths());
+    const service = results.get(orderProto())!.find(it => it.NodeName === 'OrderService')!;
+
+    expect(service.Extension.rpcs).toEqual({
+      GetOrder: {
+        streaming: 'unary',
+        requestType: 'shop.order.GetOrderRequest',
+        responseType: 'shop.order.Order',
+        httpRules: [
+          { method: 'GET', path: '/v1/orders/{id}' },
+          { method: 'POST', path: '/v1/orders:get', body: '*' },
+        ],
+      },
+      WatchOrders: expect.objectContaining({ streaming: 'server', httpRules: [] }),
+      UploadOrders: expect.objectContaining({ streaming: 'client' }),
+      SyncOrders: expect.objectContaining({ streaming: 'bidi' }),
+    });
+  });
+
+  test('should generate REST and streaming api resources', async () => {
+    const results = await analyseProtos([orderProto()], includePaths());
+    const resources = new ProtoApiResourceGenerator().generateApiResources(results.flatMap(it => it.dataStructures));
+
+    expect(resources.map(it => `${it.sourceHttpMethod} ${it.sourceUrl}`)).toEqual([
+      'GET /v1/orders/{id}',
+      'POST /v1/orders:get',
+      'RPC/SERVER_STREAM rpc/shop/order/OrderService/WatchOrders',
+      'RPC/CLIENT_STREAM rpc/shop/order/OrderService/UploadOrders',
+      'RPC/BIDI_STREAM rpc/shop/order/OrderService/SyncOrders',
+    ]);
+  });
+
+  test('should build the catalog with request and response schemas', async () => {
+    const results = await analyseProtos([orderProto()], includePaths());
+    const catalog = new ProtoServiceCatalogBuilder().build(results.flatMap(it => it.dataStructures));
+
+    expect(catalog.services).toHaveLength(1);
+    expect(catalog.services[0].name).toBe('shop.order.OrderService');
+    expect(catalog.services[0].methods[0]).toEqual({
+      name: 'GetOrder',
+      streaming: 'unary',
+      request: 'shop.order.GetOrderRequest',
+      response: 'shop.order.Order',
+      httpRules: [
+        { method: 'GET', path: '/v1/orders/{id}' },
+        { method: 'POST', path: '/v1/orders:get', body: '*' },
+      ],
+    });
+
+    // Money is defined outside the analysed files, so only its reference is known
+    expect(Object.keys(catalog.messages).sort()).toEqual([
+      'shop.order.GetOrderRequest',
+      'shop.order.Order',
+      'shop.order.Order.Item',
+    ]);
+    expect(catalog.messages['shop.order.Order'].fields).toEqual([
+      { name: 'id', type: 'string', repeated: false },
+      { name: 'items', type: 'Item', repeated: true, ref: 'shop.order.Order.Item' },
+      { name: 'total', type: 'Money', repeated: false, ref: 'shop.common.Money' },
+    ]);
+  });
+
+  test('should keep the raw type name when an import is missing', () => {
+    const results = new ProtoAnalyser().analyseFromFiles([orderProto()]);
+    const order = results.get(orderProto())!.find(it => it.NodeName === 'Order')!;
+
+    expect(order.Fields.find(it => it.Name === 'total')?.Type).toBe('shop.common.Money');
+    expect(order.Extension.references).toEqual({ items: 'shop.order.Order.Item' });
+  });
+});
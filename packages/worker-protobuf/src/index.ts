@@ -2,3 +2,5 @@ export * from "./converter/ProtoConverter"
 export * from "./converter/PackageHierarchy"
 export * from './main';
 export * from './ProtoApiResourceGenerator';
+export * from './ProtoAnalyser';
+export * from './ProtoServiceCatalog';
@@ -26,25 +26,25 @@ export async function scanProtoFiles(dirPath: string): Promise<string[]> {
 }
 
 /**
- * 分析所有 .proto 文件并合并结果
+ * 一起分析所有 .proto 文件，import 在 includePaths 中解析
  * @param protoFiles .proto 文件路径数组
- * @returns 合并后的分析结果
+ * @param includePaths import 的查找目录，相当于 protoc 的 -I
+ * @returns 每个文件的分析结果
  */
-export async function analyseProtos(protoFiles: string[]): Promise<AnalysisResult[]> {
+export async function analyseProtos(protoFiles: string[], includePaths: string[] = []): Promise<AnalysisResult[]> {
 	const analyser = new ProtoAnalyser();
-	const results: AnalysisResult[] = [];
-
-	for (const filePath of protoFiles) {
+	const readable = protoFiles.filter(filePath => {
 		try {
-			const content = fs.readFileSync(filePath, 'utf-8');
-			const dataStructures = analyser.analyseFromContent(content, filePath);
-			results.push({ filePath, dataStructures });
+			fs.accessSync(filePath, fs.constants.R_OK);
+			return true;
 		} catch (e) {
-			console.error(`Failed to read or parse file ${filePath}:`, e);
+			console.error(`Failed to read file ${filePath}:`, e);
+			return false;
 		}
-	}
+	});
 
-	return results;
+	const results = analyser.analyseFromFiles(readable, includePaths);
+	return readable.map(filePath => ({ filePath, dataStructures: results.get(filePath) ?? [] }));
 }
 
 // async function main() {